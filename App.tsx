@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import Profile from './components/Profile';
@@ -6,15 +6,15 @@ import ProjectVisitForm from './components/ProjectVisitForm';
 import Header from './components/Header';
 import LastVisitedProjects from './components/LastVisitedProjects';
 import ProjectCaseForm from './components/ProjectCaseForm';
-import AdminPanel from './components/AdminPanel';
+import AdminPanel, { UserAccessChanges } from './components/AdminPanel';
 import Login from './components/Login';
-import { View, Role, Project, FeaturedProject, ITAssignedIssue, EmployeeVisit as EmployeeVisitType, ERPCorrectionRecord, EmployeeVisitTab, SealPersonVisitTab, ITResponseTimelineTab, ERPCorrectionTab, ConstructionDutyAnalysisTab, MonthlyComparisonPrecisionTab, SealPersonVisit, MaterialReceiveItem, SSVDutyAnalysisTab } from './types';
-import { User, Permissions } from './types';
+import ResetPassword from './components/ResetPassword';
+import { View, Project, FeaturedProject, ITAssignedIssue, EmployeeVisit as EmployeeVisitType, ERPCorrectionRecord, EmployeeVisitTab, SealPersonVisitTab, ITResponseTimelineTab, ERPCorrectionTab, ConstructionDutyAnalysisTab, MonthlyComparisonPrecisionTab, SealPersonVisit, MaterialReceiveItem, SSVDutyAnalysisTab, DutyPolicy, CalendarEntry, Employee } from './types';
+import { User, RoleTemplate, PermissionModule } from './types';
 import { initialUsers } from './data/users';
-import { initialProjects } from './data/projects';
-import { initialVisits } from './data/visits';
-import { initialSealPersonVisits, initialMaterialReceipts } from './data/analysis';
+import { initialSealPersonVisits } from './data/analysis';
 import ProjectCasesList from './components/ProjectCasesList';
+import VisitReports from './components/VisitReports';
 import MaterialReceiveForm from './components/MaterialReceiveForm';
 import MaterialReceiveList from './components/MaterialReceiveList';
 import SystemManagement from './components/SystemManagement';
@@ -22,6 +22,24 @@ import EmployeeProjectVisit from './components/EmployeeProjectVisit';
 import SealPersonProjectVisit from './components/SealPersonProjectVisit';
 import ITResponseTimeline from './components/ITResponseTimeline';
 import { LoadingProvider, useLoading } from './contexts/LoadingContext';
+import { repositories } from './services/repository';
+import { usePersistentCollection } from './hooks/usePersistentCollection';
+import { useServerCollection } from './hooks/useServerCollection';
+import { useScopedCollection } from './hooks/useScopedCollection';
+import { useProjectLinks } from './hooks/useProjectLinks';
+import { ProjectAlias } from './hooks/useProjectReconciliation';
+import { useHashRoute } from './hooks/useHashRoute';
+import { VIEW_TABS, TabbedView } from './utils/routing';
+import { createScopeFilter } from './utils/dataScope';
+import { createProjectIndex } from './utils/projects';
+import { revisePolicy } from './utils/dutyPolicy';
+import { NewCalendarEntry, createWorkCalendar } from './utils/workCalendar';
+import * as authService from './services/authService';
+import { usersApi, roleTemplatesApi, projectsApi, dutyPoliciesApi, calendarEntriesApi, employeesApi, employeeVisitsApi, itIssuesApi, erpCorrectionsApi, materialReceiptsApi, listAllRecords, onSessionExpired, setActingAsUser } from './services/apiClient';
+import { RoleTemplateDraft } from './components/RoleTemplatesTab';
+import { logAuditEvent } from './services/auditService';
+import { startOutboxSync } from './services/outbox';
+import Spinner from './components/Spinner';
 import GlobalSpinner from './components/GlobalSpinner';
 import Footer from './components/Footer';
 import ERPCorrectionReport from './components/ERPCorrectionReport';
@@ -29,10 +47,12 @@ import ConstructionDutyAnalysis from './components/ConstructionDutyAnalysis';
 import SplashScreen from './components/SplashScreen';
 import MonthlyComparisonPrecision from './components/MonthlyComparisonPrecision';
 import SSVDutyAnalysis from './components/SSVDutyAnalysis';
+import ScheduledReports from './components/ScheduledReports';
 
 const viewTitles: Record<View, string> = {
     dashboard: 'Dashboard',
     projectVisit: 'New Visit Report',
+    visitReports: 'Visit Reports',
     profile: 'Profile',
     lastVisitedProjects: 'Last Visited Projects',
     projectCase: 'Project Case Report',
@@ -48,6 +68,7 @@ const viewTitles: Record<View, string> = {
     constructionDutyAnalysis: 'Construction Duty Analysis',
     monthlyComparisonPrecision: 'Monthly Comparison Precision',
     ssvDutyAnalysis: 'SSV Duty Analysis',
+    reports: 'Scheduled Reports',
 };
 
 const AccessDenied: React.FC = () => (
@@ -72,14 +93,23 @@ const initialFeaturedProjects: FeaturedProject[] = [
   },
 ];
 
+const byName = (a: Project, b: Project) => a.name.localeCompare(b.name);
+
 function AppInner() {
     const { showLoading, hideLoading } = useLoading();
-    const [users, setUsers] = useState<User[]>(initialUsers);
-    const [projects, setProjects] = useState<Project[]>(initialProjects);
+    const [users, setUsers] = usePersistentCollection<User>(repositories.users, initialUsers);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [roleTemplates, setRoleTemplates] = useState<RoleTemplate[]>([]);
     const [featuredProjects, setFeaturedProjects] = useState<FeaturedProject[]>(initialFeaturedProjects);
-    // To re-enable the login page on startup, change the initial state below back to `null`.
-    const [authenticatedUser, setAuthenticatedUser] = useState<User | null>(initialUsers[0]);
-    const [activeView, setActiveView] = useState<View>('dashboard');
+    const [authenticatedUser, setAuthenticatedUser] = useState<User | null>(null);
+    // True until we know whether an existing session can be restored.
+    const [isRestoringSession, setIsRestoringSession] = useState(true);
+    // Set when the app is opened from a password reset email link (`?resetToken=...`).
+    const [resetToken, setResetToken] = useState<string | null>(() => new URLSearchParams(window.location.search).get('resetToken'));
+    // The active view, its tab and the page's filters live in the URL (see utils/routing.ts),
+    // so every page can be bookmarked and back/forward work.
+    const [route, navigateTo] = useHashRoute();
+    const activeView = route.view;
     const [viewState, setViewState] = useState<any | null>(null);
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
     const [sidebarWidth, setSidebarWidth] = useState(() => {
@@ -87,31 +117,62 @@ function AppInner() {
         return savedWidth ? parseInt(savedWidth, 10) : 224; // Default width (w-56)
     });
     
-    // State for IT Assigned Issues to persist data
-    const [itAssignedIssues, setItAssignedIssues] = useState<ITAssignedIssue[]>([]);
-    // State for Employee Visits to persist data
-    const [employeeVisits, setEmployeeVisits] = useState<EmployeeVisitType[]>(initialVisits);
-    // State for ERP Correction reports to persist data
-    const [erpCorrectionRecords, setErpCorrectionRecords] = useState<ERPCorrectionRecord[]>([]);
-    
-    // New state for Analytics Dashboard data
-    const [sealPersonVisits, setSealPersonVisits] = useState<SealPersonVisit[]>(initialSealPersonVisits);
-    const [materialReceipts, setMaterialReceipts] = useState<MaterialReceiveItem[]>(initialMaterialReceipts);
-
-    // State for EmployeeProjectVisit tabs - lifted for Header integration
-    const [epvActiveTab, setEpvActiveTab] = useState<EmployeeVisitTab>('records');
-    // State for SealPersonProjectVisit tabs - lifted for Header integration
-    const [sppvActiveTab, setSppvActiveTab] = useState<SealPersonVisitTab>('records');
-    // State for ITResponseTimeline tabs - lifted for Header integration
-    const [itrtActiveTab, setItrtActiveTab] = useState<ITResponseTimelineTab>('records');
-    // State for ERPCorrectionReport tabs - lifted for Header integration
-    const [erpActiveTab, setErpActiveTab] = useState<ERPCorrectionTab>('records');
-    // State for ConstructionDutyAnalysis tabs - lifted for Header integration
-    const [cdaActiveTab, setCdaActiveTab] = useState<ConstructionDutyAnalysisTab>('visit');
-    // State for MonthlyComparisonPrecision tabs - lifted for Header integration
-    const [mcpActiveTab, setMcpActiveTab] = useState<MonthlyComparisonPrecisionTab>('records');
-    // State for SSV Duty Analysis tabs - lifted for Header integration
-    const [ssvDaActiveTab, setSsvDaActiveTab] = useState<SSVDutyAnalysisTab>('records');
+    // Seal person visits are stored in IndexedDB and survive page reloads.
+    const [sealPersonVisits, setSealPersonVisits] = usePersistentCollection<SealPersonVisit>(repositories.sealPersonVisits, initialSealPersonVisits);
+    // Employee visits, IT issues, ERP corrections and material receipts are kept on the server, and loaded for users who can open their pages.
+    const alertSaveFailed = (what: string) => (err: unknown) => alert(`Could not save the ${what}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    const serverCollectionUser = (...modules: PermissionModule[]) =>
+        authenticatedUser && modules.some(module => authenticatedUser.permissions[module]?.view) ? authenticatedUser.id : null;
+    const [employeeVisits, setEmployeeVisits, , reloadEmployeeVisits] = useServerCollection(employeeVisitsApi, serverCollectionUser('employeeProjectVisit', 'monthlyComparisonPrecision'), alertSaveFailed('employee visits'));
+    const [itAssignedIssues, setItAssignedIssues, , reloadItAssignedIssues] = useServerCollection(itIssuesApi, serverCollectionUser('itResponseTimeline'), alertSaveFailed('IT issues'));
+    const [erpCorrectionRecords, setErpCorrectionRecords, , reloadErpCorrectionRecords] = useServerCollection(erpCorrectionsApi, serverCollectionUser('erpCorrectionReport'), alertSaveFailed('ERP corrections'));
+    const [materialReceipts, setMaterialReceipts, , reloadMaterialReceipts] = useServerCollection(materialReceiptsApi, serverCollectionUser('materialReceive', 'materialReceiveList'), alertSaveFailed('material receipts'));
+    // Projects, duty policies, the company calendar and the employee directory are kept on the server.
+    const [dutyPolicies, setDutyPolicies] = useState<DutyPolicy[]>([]);
+    const [calendarEntries, setCalendarEntries] = useState<CalendarEntry[]>([]);
+    const workCalendar = useMemo(() => createWorkCalendar(calendarEntries), [calendarEntries]);
+    const [employees, setEmployees] = useState<Employee[]>([]);
+
+    // Records reference their project by id once their project name is recognised, and follow it when it's renamed.
+    const projectIndex = useMemo(() => createProjectIndex(projects), [projects]);
+    // The server links the records it keeps itself, employee visits to the employee directory too.
+    useProjectLinks(sealPersonVisits, setSealPersonVisits, projectIndex);
+
+    // Users limited to some zones, projects or departments only ever get those records, so every list,
+    // analysis and export below works on the scoped collections.
+    const dataScope = authenticatedUser?.dataScope;
+    const scopeFilter = useMemo(() => createScopeFilter(dataScope, projects), [dataScope, projects]);
+    const isProjectVisible = useCallback((p: Project) => scopeFilter.allowsProject(p.name, p.zone), [scopeFilter]);
+    const isEmployeeVisitVisible = useCallback((v: EmployeeVisitType) => scopeFilter.allowsProject(v.projectName) && scopeFilter.allowsDepartment(v.department), [scopeFilter]);
+    const isSealPersonVisitVisible = useCallback((v: SealPersonVisit) => scopeFilter.allowsProject(v.projectName), [scopeFilter]);
+    const isMaterialReceiptVisible = useCallback((r: MaterialReceiveItem) => scopeFilter.allowsProject(r.projectName), [scopeFilter]);
+    const isErpCorrectionVisible = useCallback((r: ERPCorrectionRecord) => scopeFilter.allowsProject(r.projectName) && scopeFilter.allowsDepartment(r.department), [scopeFilter]);
+    const isItIssueVisible = useCallback((i: ITAssignedIssue) => scopeFilter.allowsProject(i.projectName, i.zone), [scopeFilter]);
+    const scopedProjects = useMemo(() => projects.filter(isProjectVisible), [projects, isProjectVisible]);
+    const [scopedEmployeeVisits, setScopedEmployeeVisits] = useScopedCollection(employeeVisits, setEmployeeVisits, isEmployeeVisitVisible);
+    const [scopedSealPersonVisits, setScopedSealPersonVisits] = useScopedCollection(sealPersonVisits, setSealPersonVisits, isSealPersonVisitVisible);
+    const [scopedMaterialReceipts, setScopedMaterialReceipts] = useScopedCollection(materialReceipts, setMaterialReceipts, isMaterialReceiptVisible);
+    const [scopedErpCorrectionRecords, setScopedErpCorrectionRecords] = useScopedCollection(erpCorrectionRecords, setErpCorrectionRecords, isErpCorrectionVisible);
+    const [scopedItAssignedIssues, setScopedItAssignedIssues] = useScopedCollection(itAssignedIssues, setItAssignedIssues, isItIssueVisible);
+
+    // Tabs of the tabbed views come from the route - lifted for Header integration.
+    // Switching tabs keeps the page's filters.
+    const tabOf = <V extends TabbedView>(view: V) => (activeView === view && route.tab ? route.tab : VIEW_TABS[view][0]) as (typeof VIEW_TABS)[V][number];
+    const tabSetter = <V extends TabbedView>(view: V) => (tab: (typeof VIEW_TABS)[V][number]) => navigateTo(view, tab, { keepParams: true });
+    const epvActiveTab: EmployeeVisitTab = tabOf('employeeProjectVisit');
+    const setEpvActiveTab = tabSetter('employeeProjectVisit');
+    const sppvActiveTab: SealPersonVisitTab = tabOf('sealPersonProjectVisit');
+    const setSppvActiveTab = tabSetter('sealPersonProjectVisit');
+    const itrtActiveTab: ITResponseTimelineTab = tabOf('itResponseTimeline');
+    const setItrtActiveTab = tabSetter('itResponseTimeline');
+    const erpActiveTab: ERPCorrectionTab = tabOf('erpCorrectionReport');
+    const setErpActiveTab = tabSetter('erpCorrectionReport');
+    const cdaActiveTab: ConstructionDutyAnalysisTab = tabOf('constructionDutyAnalysis');
+    const setCdaActiveTab = tabSetter('constructionDutyAnalysis');
+    const mcpActiveTab: MonthlyComparisonPrecisionTab = tabOf('monthlyComparisonPrecision');
+    const setMcpActiveTab = tabSetter('monthlyComparisonPrecision');
+    const ssvDaActiveTab: SSVDutyAnalysisTab = tabOf('ssvDutyAnalysis');
+    const setSsvDaActiveTab = tabSetter('ssvDutyAnalysis');
 
 
     // State to manage admin account switching for testing
@@ -120,27 +181,96 @@ function AppInner() {
     // New state for splash screen lifecycle
     const [splashState, setSplashState] = useState<'visible' | 'exiting' | 'hidden'>('visible');
     
-    const handleLogin = async (email: string, password: string): Promise<boolean> => {
+    // Restore an existing session on startup, and drop back to the login page if it expires later.
+    useEffect(() => {
+        let isCancelled = false;
+        authService.getCurrentUser()
+            .then(user => { if (!isCancelled && user) setAuthenticatedUser(user); })
+            .catch(err => console.error("Could not restore session:", err))
+            .finally(() => { if (!isCancelled) setIsRestoringSession(false); });
+
+        const unsubscribe = onSessionExpired(() => {
+            setActingAsUser(null);
+            setAuthenticatedUser(null);
+            setOriginalAdminUser(null);
+        });
+        return () => {
+            isCancelled = true;
+            unsubscribe();
+        };
+    }, []);
+
+    // Admins manage users and role templates stored on the server, so keep the local lists in step with it.
+    const signedInUserId = (originalAdminUser ?? authenticatedUser)?.id;
+    const signedInRole = (originalAdminUser ?? authenticatedUser)?.role;
+    useEffect(() => {
+        if (signedInUserId === undefined || signedInRole !== 'admin') return;
+        usersApi.list({ pageSize: 500 })
+            .then(({ data }) => setUsers(data))
+            .catch(err => console.error("Could not load users from the server:", err));
+        roleTemplatesApi.list({ pageSize: 500 })
+            .then(({ data }) => setRoleTemplates(data.sort((a, b) => a.name.localeCompare(b.name))))
+            .catch(err => console.error("Could not load role templates from the server:", err));
+    }, [signedInUserId, signedInRole, setUsers]);
+
+    useEffect(() => {
+        if (signedInUserId === undefined) return;
+        listAllRecords(projectsApi)
+            .then(data => setProjects(data.sort(byName)))
+            .catch(err => console.error("Could not load projects from the server:", err));
+        listAllRecords(dutyPoliciesApi)
+            .then(setDutyPolicies)
+            .catch(err => console.error("Could not load duty policies from the server:", err));
+        listAllRecords(calendarEntriesApi)
+            .then(setCalendarEntries)
+            .catch(err => console.error("Could not load the company calendar from the server:", err));
+        listAllRecords(employeesApi)
+            .then(setEmployees)
+            .catch(err => console.error("Could not load employees from the server:", err));
+    }, [signedInUserId]);
+
+    // Upload reports queued while offline for as long as someone is signed in, as the user they were queued by
+    // (the account switched into, while an administrator is switched into one).
+    const outboxUserId = authenticatedUser?.id;
+    useEffect(() => {
+        if (outboxUserId === undefined) return;
+        return startOutboxSync(outboxUserId);
+    }, [outboxUserId]);
+
+    const handleLogin = async (email: string, password: string): Promise<{ success: boolean; message?: string }> => {
         showLoading();
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        const user = users.find(u => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
-        
-        hideLoading();
-        if (user) {
+        try {
+            const user = await authService.login(email, password);
             setAuthenticatedUser(user);
             setOriginalAdminUser(null); // Ensure no residual admin state on new login
-            setActiveView('dashboard'); // Reset to dashboard on login
+            // The route is kept, so a bookmarked link opened while signed out still leads to its page.
             setSplashState('visible'); // Show splash on new login
-            return true;
+            return { success: true };
+        } catch (err) {
+            return { success: false, message: err instanceof Error ? err.message : 'Login failed. Please try again.' };
+        } finally {
+            hideLoading();
         }
-        
-        return false;
+    };
+
+    const handleResetPasswordFinished = () => {
+        // Drop the token from the address bar so a reload doesn't reopen the reset screen.
+        const url = new URL(window.location.href);
+        url.searchParams.delete('resetToken');
+        window.history.replaceState(null, '', url.toString());
+        setResetToken(null);
+        // A successful reset signs out every session, so always continue from the login page.
+        setActingAsUser(null);
+        setAuthenticatedUser(null);
+        setOriginalAdminUser(null);
     };
 
     const handleLogout = () => {
+        authService.logout().catch(err => console.error("Logout failed:", err));
+        setActingAsUser(null);
         setAuthenticatedUser(null);
         setOriginalAdminUser(null); // Ensure no residual admin state on logout
+        navigateTo('dashboard', null, { replace: true });
     };
     
     // --- Account Switching Handlers ---
@@ -148,18 +278,24 @@ function AppInner() {
         if (!authenticatedUser || authenticatedUser.id !== 1) return; // Only the main admin can switch
         const targetUser = users.find(u => u.id === targetUserId);
         if (targetUser) {
+            setActingAsUser(targetUser.id);
+            logAuditEvent({ action: 'impersonation.start', entityType: 'users', entityId: targetUser.id, summary: `${authenticatedUser.name} switched into ${targetUser.name}'s account` });
             setOriginalAdminUser(authenticatedUser); // Store the current admin session
             setAuthenticatedUser(targetUser); // Switch to the target user
-            setActiveView('dashboard'); // Navigate to a neutral view
+            navigateTo('dashboard'); // Navigate to a neutral view
             setIsSidebarOpen(false); // Close sidebar if open
         }
     };
 
     const handleSwitchBackToAdmin = () => {
         if (originalAdminUser) {
+            if (authenticatedUser) {
+                logAuditEvent({ action: 'impersonation.end', entityType: 'users', entityId: authenticatedUser.id, summary: `${originalAdminUser.name} switched back from ${authenticatedUser.name}'s account` });
+            }
+            setActingAsUser(null);
             setAuthenticatedUser(originalAdminUser);
             setOriginalAdminUser(null);
-            setActiveView('dashboard'); // Navigate to a neutral view
+            navigateTo('dashboard'); // Navigate to a neutral view
             setIsSidebarOpen(false); // Close sidebar if open
         }
     };
@@ -183,9 +319,9 @@ function AppInner() {
         const pageLoadTime = 50; // Simulate a fast page load.
 
         setTimeout(() => {
-            // Update the view
-            setActiveView(view);
+            // Update the view; the URL gets a new history entry, so Back returns here.
             setViewState(state);
+            navigateTo(view);
             setIsSidebarOpen(false);
 
             // Navigation is complete. Now, prevent the loader from appearing if it hasn't already.
@@ -204,86 +340,73 @@ function AppInner() {
         }
     }, []);
 
-    const handlePermissionsChange = (userId: number, newPermissions: Permissions) => {
-        const updatedUsers = users.map(user =>
-            user.id === userId ? { ...user, permissions: newPermissions } : user
-        );
-        setUsers(updatedUsers);
-        // If the current user's permissions were changed, update the authenticatedUser state
+    const handleUpdateUserAccess = async (userId: number, changes: UserAccessChanges) => {
+        // The server applies the role template and works out this user's overrides.
+        const savedUser = await usersApi.patch(userId, changes);
+        setUsers(prevUsers => prevUsers.map(user => user.id === userId ? savedUser : user));
+
+        // If the currently authenticated user's permissions are changed, update their state as well
         if (authenticatedUser && authenticatedUser.id === userId) {
-            setAuthenticatedUser(updatedUsers.find(u => u.id === userId)!);
+            setAuthenticatedUser(savedUser);
         }
     };
 
-    const handleInviteUser = (name: string, email: string, role: Role) => {
-        const newUser: User = {
-            id: Date.now(), // simple unique ID for this example
+    const handleSaveRoleTemplate = async (template: RoleTemplateDraft) => {
+        const { id, ...fields } = template;
+        const savedTemplate = id
+            ? await roleTemplatesApi.update({ ...fields, id })
+            : await roleTemplatesApi.create(fields);
+        setRoleTemplates(prev => [...prev.filter(t => t.id !== savedTemplate.id), savedTemplate].sort((a, b) => a.name.localeCompare(b.name)));
+        // Template changes are applied to every assigned user on the server.
+        const { data } = await usersApi.list({ pageSize: 500 });
+        setUsers(data);
+        const refreshedSelf = authenticatedUser && data.find(u => u.id === authenticatedUser.id);
+        if (refreshedSelf) setAuthenticatedUser(refreshedSelf);
+    };
+
+    const handleDeleteRoleTemplate = async (templateId: string) => {
+        await roleTemplatesApi.remove(templateId);
+        setRoleTemplates(prev => prev.filter(t => t.id !== templateId));
+    };
+
+    const handleInviteUser = async (name: string, email: string, roleTemplateId: string) => {
+        const template = roleTemplates.find(t => t.id === roleTemplateId);
+        if (!template) {
+            alert("Please choose a role template for the new user.");
+            return;
+        }
+        const newUser: Omit<User, 'id'> = {
             name,
             email,
             employeeId: `EMP-${String(Date.now()).slice(-4)}`, // Auto-generate a temp ID
-            designation: role === 'admin' ? 'Administrator' : 'Team Member',
+            designation: template.name,
             department: 'Construction', // Default department for new users
-            role,
-            password: 'password123', // Default password for new users
-            permissions: role === 'admin'
-                ? { // Admin default permissions
-                    dashboard: { view: true },
-                    projectVisit: { view: true, edit: true },
-                    lastVisitedProjects: { view: true },
-                    projectCase: { view: true, edit: true },
-                    projectCasesList: { view: true },
-                    profile: { view: true, edit: true },
-                    adminPanel: { view: true },
-                    materialReceive: { view: true, edit: true },
-                    materialReceiveList: { view: true },
-                    systemManagement_addProject: { view: true, edit: true },
-                    systemManagement_projectList: { view: true, edit: true },
-                    systemManagement_dashboardSettings: { view: true, edit: true },
-                    employeeProjectVisit: { view: true, edit: true },
-                    sealPersonProjectVisit: { view: true, edit: true },
-                    itResponseTimeline: { view: true, edit: true },
-                    erpCorrectionReport: { view: true, edit: true },
-                    constructionDutyAnalysis: { view: true, edit: true },
-                    monthlyComparisonPrecision: { view: true, edit: true },
-                    ssvDutyAnalysis: { view: true, edit: true },
-                }
-                : { // User default permissions
-                    dashboard: { view: true },
-                    projectVisit: { view: true, edit: true },
-                    lastVisitedProjects: { view: true },
-                    projectCase: { view: true, edit: false },
-                    projectCasesList: { view: true },
-                    profile: { view: true, edit: true },
-                    adminPanel: { view: false },
-                    materialReceive: { view: true, edit: true },
-                    materialReceiveList: { view: false },
-                    systemManagement_addProject: { view: false, edit: false },
-                    systemManagement_projectList: { view: false, edit: false },
-                    systemManagement_dashboardSettings: { view: false, edit: false },
-                    employeeProjectVisit: { view: false, edit: false },
-                    sealPersonProjectVisit: { view: false, edit: false },
-                    itResponseTimeline: { view: false, edit: false },
-                    erpCorrectionReport: { view: false, edit: false },
-                    constructionDutyAnalysis: { view: false, edit: false },
-                    monthlyComparisonPrecision: { view: false, edit: false },
-                    ssvDutyAnalysis: { view: false, edit: false },
-                },
+            role: template.role,
+            roleTemplateId: template.id,
+            permissions: template.permissions,
         };
-        setUsers(prevUsers => [...prevUsers, newUser]);
+        try {
+            // The account starts without a password; the invitee chooses one with "Forgot Password?" on the login page.
+            const createdUser = await usersApi.create(newUser);
+            setUsers(prevUsers => [...prevUsers, createdUser]);
+        } catch (err) {
+            alert(`Could not invite user: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
     };
 
     const handleUserUpdate = async (updatedData: Partial<Omit<User, 'id' | 'permissions' | 'role'>>) => {
         if (!authenticatedUser) return;
 
         showLoading();
-        await new Promise(resolve => setTimeout(resolve, 700));
-
-        const updatedUsers = users.map(user =>
-            user.id === authenticatedUser.id ? { ...user, ...updatedData } : user
-        );
-        setUsers(updatedUsers);
-        setAuthenticatedUser(prev => prev ? { ...prev, ...updatedData } : null);
-        hideLoading();
+        try {
+            const savedUser = await authService.updateProfile(updatedData);
+            setUsers(prevUsers => prevUsers.map(user =>
+                user.id === savedUser.id ? savedUser : user
+            ));
+            setAuthenticatedUser(savedUser);
+        } finally {
+            hideLoading();
+        }
     };
     
     const handleDeleteUser = async (userId: number) => {
@@ -293,50 +416,222 @@ function AppInner() {
             return;
         }
         showLoading();
-        await new Promise(resolve => setTimeout(resolve, 700));
-        setUsers(prevUsers => prevUsers.filter(user => user.id !== userId));
-        hideLoading();
+        try {
+            await usersApi.remove(userId);
+            setUsers(prevUsers => prevUsers.filter(user => user.id !== userId));
+        } catch (err) {
+            alert(`Could not delete user: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            hideLoading();
+        }
     };
 
     const handlePasswordChangeByAdmin = async (userId: number, newPassword: string) => {
         // The AdminPanel modal has its own spinner, so we don't need the global one here.
-        await new Promise(resolve => setTimeout(resolve, 700));
-        const updatedUsers = users.map(user =>
-            user.id === userId ? { ...user, password: newPassword } : user
-        );
-        setUsers(updatedUsers);
-        alert(`Password for user ID ${userId} has been updated.`);
-        console.log(`Admin updated password for user ID: ${userId}. New password: ${newPassword}`);
+        try {
+            await usersApi.patch(userId, { password: newPassword });
+            alert(`Password for user ID ${userId} has been updated.`);
+        } catch (err) {
+            alert(`Could not update password: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    };
+
+    // Renaming a project, or giving it another name, relinks the server's records to it.
+    const reloadProjectLinkedRecords = () => {
+        reloadEmployeeVisits();
+        reloadItAssignedIssues();
+        reloadErpCorrectionRecords();
+        reloadMaterialReceipts();
     };
 
-    // Project Management Handlers
+    // Project Management Handlers. Each returns whether the change was saved.
     const handleAddProject = async (projectData: Omit<Project, 'id'>) => {
         showLoading();
-        await new Promise(resolve => setTimeout(resolve, 500));
-        const newProject: Project = {
-            id: Date.now(),
-            ...projectData,
-        };
-        setProjects(prevProjects => [newProject, ...prevProjects].sort((a,b) => a.name.localeCompare(b.name)));
-        hideLoading();
+        try {
+            const createdProject = await projectsApi.create(projectData);
+            setProjects(prevProjects => [createdProject, ...prevProjects].sort(byName));
+            reloadProjectLinkedRecords();
+            return true;
+        } catch (err) {
+            alert(`Could not add project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            return false;
+        } finally {
+            hideLoading();
+        }
     };
 
     const handleUpdateProject = async (updatedProject: Project) => {
         showLoading();
-        await new Promise(resolve => setTimeout(resolve, 500));
-        setProjects(prevProjects =>
-            prevProjects.map(p => p.id === updatedProject.id ? updatedProject : p)
-        );
-        hideLoading();
+        try {
+            const savedProject = await projectsApi.update(updatedProject);
+            setProjects(prevProjects => prevProjects.map(p => p.id === savedProject.id ? savedProject : p).sort(byName));
+            reloadProjectLinkedRecords();
+            return true;
+        } catch (err) {
+            alert(`Could not update project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            return false;
+        } finally {
+            hideLoading();
+        }
     };
 
     const handleDeleteProject = async (projectId: number) => {
         showLoading();
-        await new Promise(resolve => setTimeout(resolve, 500));
-        setProjects(prevProjects => prevProjects.filter(p => p.id !== projectId));
-        hideLoading();
+        try {
+            await projectsApi.remove(projectId);
+            setProjects(prevProjects => prevProjects.filter(p => p.id !== projectId));
+        } catch (err) {
+            alert(`Could not delete project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            hideLoading();
+        }
     };
     
+    // Spellings confirmed while reconciling an import, so the same file matches without asking next time.
+    // They are only kept for users who may edit projects; anyone else simply confirms them again next time.
+    const handleAddProjectAliases = async (aliases: ProjectAlias[]) => {
+        const projectPermissions = authenticatedUser?.permissions;
+        if (!projectPermissions?.systemManagement_projectList.edit && !projectPermissions?.systemManagement_addProject.edit) return;
+        const aliasesByProject = new Map<number, string[]>();
+        aliases.forEach(({ projectId, alias }) => aliasesByProject.set(projectId, [...(aliasesByProject.get(projectId) ?? []), alias]));
+        try {
+            const savedProjects = await Promise.all(projects.flatMap(p => {
+                const added = (aliasesByProject.get(p.id) ?? []).filter(alias => !(p.aliases ?? []).includes(alias));
+                return added.length > 0 ? [projectsApi.patch(p.id, { aliases: [...(p.aliases ?? []), ...added] })] : [];
+            }));
+            setProjects(prevProjects => prevProjects.map(p => savedProjects.find(saved => saved.id === p.id) ?? p));
+            if (savedProjects.length > 0) reloadProjectLinkedRecords();
+        } catch (err) {
+            console.error("Could not save the projects' other names:", err);
+        }
+    };
+
+    const handleSaveDutyPolicy = async (policy: DutyPolicy | Omit<DutyPolicy, 'id'>) => {
+        showLoading();
+        try {
+            const previousPolicy = 'id' in policy ? dutyPolicies.find(p => p.id === policy.id) : undefined;
+            if (!previousPolicy) {
+                const createdPolicy = await dutyPoliciesApi.create(policy);
+                setDutyPolicies(prevPolicies => [...prevPolicies, createdPolicy]);
+            } else {
+                const [updatedPolicy, newVersion] = revisePolicy(previousPolicy, policy as DutyPolicy);
+                const savedPolicy = await dutyPoliciesApi.update(updatedPolicy);
+                const createdVersion = newVersion ? await dutyPoliciesApi.create(newVersion) : null;
+                setDutyPolicies(prevPolicies => [...prevPolicies.map(p => p.id === savedPolicy.id ? savedPolicy : p), ...(createdVersion ? [createdVersion] : [])]);
+            }
+        } catch (err) {
+            alert(`Could not save the duty policy: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            hideLoading();
+        }
+    };
+
+    const handleDeleteDutyPolicy = async (policyId: number) => {
+        showLoading();
+        try {
+            await dutyPoliciesApi.remove(policyId);
+            setDutyPolicies(prevPolicies => prevPolicies.filter(p => p.id !== policyId));
+        } catch (err) {
+            alert(`Could not delete the duty policy: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            hideLoading();
+        }
+    };
+
+    const handleSaveCalendarEntry = async (entry: CalendarEntry | NewCalendarEntry) => {
+        try {
+            const savedEntry = 'id' in entry
+                ? await calendarEntriesApi.update(entry)
+                : await calendarEntriesApi.create(entry);
+            setCalendarEntries(prevEntries => 'id' in entry
+                ? prevEntries.map(e => e.id === savedEntry.id ? savedEntry : e)
+                : [...prevEntries, savedEntry]);
+        } catch (err) {
+            alert(`Could not save the calendar entry: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    };
+
+    const handleDeleteCalendarEntry = async (entryId: number) => {
+        try {
+            await calendarEntriesApi.remove(entryId);
+            setCalendarEntries(prevEntries => prevEntries.filter(e => e.id !== entryId));
+        } catch (err) {
+            alert(`Could not delete the calendar entry: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    };
+
+    const handleImportCalendarEntries = async (entries: NewCalendarEntry[], fileName: string) => {
+        showLoading();
+        try {
+            const createdEntries = await Promise.all(entries.map(entry => calendarEntriesApi.create(entry)));
+            setCalendarEntries(prevEntries => [...prevEntries, ...createdEntries]);
+            logAuditEvent({ action: 'import', entityType: 'calendarEntries', summary: `Imported ${createdEntries.length} holidays and leave entries from ${fileName}`, before: { count: calendarEntries.length }, after: { count: calendarEntries.length + createdEntries.length } });
+        } catch (err) {
+            alert(`Could not import the calendar entries: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            // Some entries may have been saved before the failure.
+            listAllRecords(calendarEntriesApi)
+                .then(setCalendarEntries)
+                .catch(loadErr => console.error("Could not reload the company calendar:", loadErr));
+        } finally {
+            hideLoading();
+        }
+    };
+
+    const handleSaveEmployee = async (employee: Employee | Omit<Employee, 'id'>) => {
+        showLoading();
+        try {
+            const savedEmployee = 'id' in employee
+                ? await employeesApi.update(employee)
+                : await employeesApi.create(employee);
+            setEmployees(prevEmployees => 'id' in employee
+                ? prevEmployees.map(e => e.id === savedEmployee.id ? savedEmployee : e)
+                : [...prevEmployees, savedEmployee]);
+            // The server renames the employee in their visits, and links the visits that name them.
+            reloadEmployeeVisits();
+        } catch (err) {
+            alert(`Could not save the employee: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            hideLoading();
+        }
+    };
+
+    const handleDeleteEmployee = async (employeeId: number) => {
+        showLoading();
+        try {
+            // The server also clears them as anyone's reporting manager.
+            await employeesApi.remove(employeeId);
+            setEmployees(prevEmployees => prevEmployees
+                .filter(e => e.id !== employeeId)
+                .map(e => e.reportingManagerId === employeeId ? { ...e, reportingManagerId: undefined } : e));
+        } catch (err) {
+            alert(`Could not delete the employee: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        } finally {
+            hideLoading();
+        }
+    };
+
+    const handleAddEmployees = async (newEmployees: Omit<Employee, 'id'>[]) => {
+        showLoading();
+        try {
+            const added = await Promise.all(newEmployees.map(employee => employeesApi.create(employee)));
+            setEmployees(prevEmployees => [...prevEmployees, ...added]);
+            reloadEmployeeVisits();
+            logAuditEvent({ action: 'import', entityType: 'employees', summary: `Added ${added.length} employees from the visit records`, before: { count: employees.length }, after: { count: employees.length + added.length } });
+        } catch (err) {
+            alert(`Could not add the employees: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            // Some employees may have been saved before the failure.
+            listAllRecords(employeesApi)
+                .then(setEmployees)
+                .catch(loadErr => console.error("Could not reload employees:", loadErr));
+        } finally {
+            hideLoading();
+        }
+    };
+
+    // The directory lists everyone, including users of the reports page who can't open the visit records.
+    const reportDepartments = useMemo(() => [...new Set([...employees.map(e => e.department), ...employeeVisits.map(v => v.department)].filter(Boolean))].sort(), [employees, employeeVisits]);
+    const reportEmployeeNames = useMemo(() => [...new Set([...employees.map(e => e.name), ...employeeVisits.map(v => v.visitorName)].filter(Boolean))].sort(), [employees, employeeVisits]);
+
     const handleUpdateFeaturedProject = async (newData: Partial<FeaturedProject>) => {
         showLoading();
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -361,49 +656,65 @@ function AppInner() {
         const permissions = currentUser.permissions;
         switch (activeView) {
             case 'projectVisit':
-                return permissions.projectVisit.view ? <ProjectVisitForm currentUser={currentUser} projects={projects} /> : <AccessDenied />;
+                return permissions.projectVisit.view ? <ProjectVisitForm currentUser={currentUser} projects={scopedProjects} editReportId={viewState?.editReportId} /> : <AccessDenied />;
+            case 'visitReports':
+                return permissions.visitReports.view ? <VisitReports currentUser={currentUser} projects={scopedProjects} onEditReport={report => handleNavigate('projectVisit', { editReportId: report.id })} /> : <AccessDenied />;
             case 'dashboard':
-                 return permissions.dashboard.view ? <Dashboard onNavigate={handleNavigate} currentUser={currentUser} featuredProjects={featuredProjects} employeeVisits={employeeVisits} sealPersonVisits={sealPersonVisits} itAssignedIssues={itAssignedIssues} materialReceipts={materialReceipts} erpCorrectionRecords={erpCorrectionRecords} /> : <AccessDenied />;
+                 return permissions.dashboard.view ? <Dashboard onNavigate={handleNavigate} currentUser={currentUser} featuredProjects={featuredProjects} employeeVisits={scopedEmployeeVisits} sealPersonVisits={scopedSealPersonVisits} itAssignedIssues={scopedItAssignedIssues} materialReceipts={scopedMaterialReceipts} erpCorrectionRecords={scopedErpCorrectionRecords} /> : <AccessDenied />;
             case 'profile':
-                 return permissions.profile.view ? <Profile currentUser={currentUser} onUpdateUser={handleUserUpdate} initialState={viewState} /> : <AccessDenied />;
+                 return permissions.profile.view ? <Profile currentUser={currentUser} onUpdateUser={handleUserUpdate} onChangePassword={authService.changePassword} initialState={viewState} /> : <AccessDenied />;
             case 'lastVisitedProjects':
-                 return permissions.lastVisitedProjects.view ? <LastVisitedProjects currentUser={currentUser} /> : <AccessDenied />;
+                 return permissions.lastVisitedProjects.view ? <LastVisitedProjects currentUser={currentUser} scopeFilter={scopeFilter} /> : <AccessDenied />;
             case 'projectCase':
-                 return permissions.projectCase.view ? <ProjectCaseForm currentUser={currentUser} projects={projects} /> : <AccessDenied />;
+                 return permissions.projectCase.view ? <ProjectCaseForm currentUser={currentUser} projects={scopedProjects} /> : <AccessDenied />;
             case 'projectCasesList':
-                 return permissions.projectCasesList.view ? <ProjectCasesList projects={projects} /> : <AccessDenied />;
+                 return permissions.projectCasesList.view ? <ProjectCasesList currentUser={currentUser} projects={scopedProjects} employees={employees} scopeFilter={scopeFilter} /> : <AccessDenied />;
             case 'materialReceive':
-                 return permissions.materialReceive.view ? <MaterialReceiveForm currentUser={currentUser} projects={projects} /> : <AccessDenied />;
+                 return permissions.materialReceive.view ? <MaterialReceiveForm currentUser={currentUser} projects={scopedProjects} onSaved={reloadMaterialReceipts} /> : <AccessDenied />;
              case 'materialReceiveList':
-                 return permissions.materialReceiveList.view ? <MaterialReceiveList currentUser={currentUser} projects={projects} /> : <AccessDenied />;
+                 return permissions.materialReceiveList.view ? <MaterialReceiveList currentUser={currentUser} projects={scopedProjects} receipts={scopedMaterialReceipts} onUpdateReceipts={setScopedMaterialReceipts} onAddProjectAliases={handleAddProjectAliases} /> : <AccessDenied />;
             case 'systemManagement':
-                const canViewSystemManagement = permissions.systemManagement_addProject.view || permissions.systemManagement_projectList.view || permissions.systemManagement_dashboardSettings.view;
+                const canViewSystemManagement = permissions.systemManagement_addProject.view || permissions.systemManagement_projectList.view || permissions.systemManagement_dashboardSettings.view || permissions.systemManagement_dutyPolicies.view || permissions.systemManagement_calendar.view || permissions.systemManagement_employees.view || permissions.systemManagement_aiTriage.view;
                 return canViewSystemManagement 
-                    ? <SystemManagement currentUser={currentUser} projects={projects} onAddProject={handleAddProject} onUpdateProject={handleUpdateProject} onDeleteProject={handleDeleteProject} featuredProject={featuredProjects[0]} onUpdateFeaturedProject={handleUpdateFeaturedProject} /> 
+                    ? <SystemManagement currentUser={currentUser} projects={scopedProjects} onAddProject={handleAddProject} onUpdateProject={handleUpdateProject} onDeleteProject={handleDeleteProject} featuredProject={featuredProjects[0]} onUpdateFeaturedProject={handleUpdateFeaturedProject} dutyPolicies={dutyPolicies} onSaveDutyPolicy={handleSaveDutyPolicy} onDeleteDutyPolicy={handleDeleteDutyPolicy} calendarEntries={calendarEntries} onSaveCalendarEntry={handleSaveCalendarEntry} onDeleteCalendarEntry={handleDeleteCalendarEntry} onImportCalendarEntries={handleImportCalendarEntries} employees={employees} employeeVisits={scopedEmployeeVisits} onSaveEmployee={handleSaveEmployee} onDeleteEmployee={handleDeleteEmployee} onAddEmployees={handleAddEmployees} /> 
                     : <AccessDenied />;
             case 'adminPanel':
-                return permissions.adminPanel.view ? <AdminPanel allUsers={users} onPermissionsChange={handlePermissionsChange} currentAdminId={currentUser.id} onInviteUser={handleInviteUser} onDeleteUser={handleDeleteUser} onPasswordChange={handlePasswordChangeByAdmin} originalAdminUser={originalAdminUser} onSwitchAccount={handleSwitchAccount} onSwitchBack={handleSwitchBackToAdmin} /> : <AccessDenied />;
+                return permissions.adminPanel.view ? <AdminPanel allUsers={users} projects={projects} roleTemplates={roleTemplates} onUpdateUserAccess={handleUpdateUserAccess} currentAdminId={currentUser.id} onInviteUser={handleInviteUser} onDeleteUser={handleDeleteUser} onPasswordChange={handlePasswordChangeByAdmin} onSaveRoleTemplate={handleSaveRoleTemplate} onDeleteRoleTemplate={handleDeleteRoleTemplate} originalAdminUser={originalAdminUser} onSwitchAccount={handleSwitchAccount} onSwitchBack={handleSwitchBackToAdmin} /> : <AccessDenied />;
             case 'employeeProjectVisit':
-                return permissions.employeeProjectVisit.view ? <EmployeeProjectVisit currentUser={currentUser} projects={projects} visits={employeeVisits} onUpdateVisits={setEmployeeVisits} activeTab={epvActiveTab} onTabChange={setEpvActiveTab} /> : <AccessDenied />;
+                return permissions.employeeProjectVisit.view ? <EmployeeProjectVisit currentUser={currentUser} projects={scopedProjects} visits={scopedEmployeeVisits} onUpdateVisits={setScopedEmployeeVisits} activeTab={epvActiveTab} onTabChange={setEpvActiveTab} onAddProjectAliases={handleAddProjectAliases} dutyPolicies={dutyPolicies} workCalendar={workCalendar} /> : <AccessDenied />;
             case 'sealPersonProjectVisit':
-                return permissions.sealPersonProjectVisit.view ? <SealPersonProjectVisit currentUser={currentUser} projects={projects} visits={sealPersonVisits} onUpdateVisits={setSealPersonVisits} activeTab={sppvActiveTab} onTabChange={setSppvActiveTab} /> : <AccessDenied />;
+                return permissions.sealPersonProjectVisit.view ? <SealPersonProjectVisit currentUser={currentUser} projects={scopedProjects} visits={scopedSealPersonVisits} onUpdateVisits={setScopedSealPersonVisits} activeTab={sppvActiveTab} onTabChange={setSppvActiveTab} onAddProjectAliases={handleAddProjectAliases} /> : <AccessDenied />;
             case 'itResponseTimeline':
-                return permissions.itResponseTimeline.view ? <ITResponseTimeline currentUser={currentUser} assignedIssues={itAssignedIssues} onUpdateAssignedIssues={setItAssignedIssues} activeTab={itrtActiveTab} onTabChange={setItrtActiveTab} /> : <AccessDenied />;
+                return permissions.itResponseTimeline.view ? <ITResponseTimeline currentUser={currentUser} assignedIssues={scopedItAssignedIssues} onUpdateAssignedIssues={setScopedItAssignedIssues} activeTab={itrtActiveTab} onTabChange={setItrtActiveTab} /> : <AccessDenied />;
             case 'erpCorrectionReport':
-                return permissions.erpCorrectionReport.view ? <ERPCorrectionReport currentUser={currentUser} reports={erpCorrectionRecords} onUpdateReports={setErpCorrectionRecords} activeTab={erpActiveTab} onTabChange={setErpActiveTab} /> : <AccessDenied />;
+                return permissions.erpCorrectionReport.view ? <ERPCorrectionReport currentUser={currentUser} projects={scopedProjects} reports={scopedErpCorrectionRecords} onUpdateReports={setScopedErpCorrectionRecords} activeTab={erpActiveTab} onTabChange={setErpActiveTab} onAddProjectAliases={handleAddProjectAliases} /> : <AccessDenied />;
             case 'constructionDutyAnalysis':
-                return permissions.constructionDutyAnalysis.view ? <ConstructionDutyAnalysis activeTab={cdaActiveTab} onTabChange={setCdaActiveTab} /> : <AccessDenied />;
+                return permissions.constructionDutyAnalysis.view ? <ConstructionDutyAnalysis scopeFilter={scopeFilter} projects={scopedProjects} onAddProjectAliases={handleAddProjectAliases} activeTab={cdaActiveTab} onTabChange={setCdaActiveTab} /> : <AccessDenied />;
             case 'monthlyComparisonPrecision':
-                return permissions.monthlyComparisonPrecision.view ? <MonthlyComparisonPrecision currentUser={currentUser} projects={projects} visits={employeeVisits} onUpdateVisits={setEmployeeVisits} activeTab={mcpActiveTab} onTabChange={setMcpActiveTab} /> : <AccessDenied />;
+                return permissions.monthlyComparisonPrecision.view ? <MonthlyComparisonPrecision currentUser={currentUser} projects={scopedProjects} visits={scopedEmployeeVisits} onUpdateVisits={setScopedEmployeeVisits} activeTab={mcpActiveTab} onTabChange={setMcpActiveTab} dutyPolicies={dutyPolicies} workCalendar={workCalendar} /> : <AccessDenied />;
             case 'ssvDutyAnalysis':
-                return permissions.ssvDutyAnalysis.view ? <SSVDutyAnalysis currentUser={currentUser} activeTab={ssvDaActiveTab} onTabChange={setSsvDaActiveTab} /> : <AccessDenied />;
+                return permissions.ssvDutyAnalysis.view ? <SSVDutyAnalysis currentUser={currentUser} scopeFilter={scopeFilter} activeTab={ssvDaActiveTab} onTabChange={setSsvDaActiveTab} workCalendar={workCalendar} /> : <AccessDenied />;
+            case 'reports':
+                return permissions.reports.view ? <ScheduledReports currentUser={currentUser} projects={projects} departments={reportDepartments} employeeNames={reportEmployeeNames} /> : <AccessDenied />;
             default:
-                 return permissions.dashboard.view ? <Dashboard onNavigate={handleNavigate} currentUser={currentUser} featuredProjects={featuredProjects} employeeVisits={employeeVisits} sealPersonVisits={sealPersonVisits} itAssignedIssues={itAssignedIssues} materialReceipts={materialReceipts} erpCorrectionRecords={erpCorrectionRecords} /> : <AccessDenied />;
+                 return permissions.dashboard.view ? <Dashboard onNavigate={handleNavigate} currentUser={currentUser} featuredProjects={featuredProjects} employeeVisits={scopedEmployeeVisits} sealPersonVisits={scopedSealPersonVisits} itAssignedIssues={scopedItAssignedIssues} materialReceipts={scopedMaterialReceipts} erpCorrectionRecords={scopedErpCorrectionRecords} /> : <AccessDenied />;
         }
     };
     
+    if (resetToken) {
+        return <ResetPassword token={resetToken} onFinished={handleResetPasswordFinished} />;
+    }
+
+    if (isRestoringSession) {
+        return (
+            <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+                <Spinner className="h-10" />
+            </div>
+        );
+    }
+
     if (!authenticatedUser) {
-        return <Login onLogin={handleLogin} />;
+        return <Login onLogin={handleLogin} onForgotPassword={authService.requestPasswordReset} />;
     }
 
     return (
@@ -1,66 +1,93 @@
-// api.js - Backend proxy for Gemini API calls
-// This server securely handles API requests to Google Gemini,
-// keeping the API key hidden from the frontend application.
+// api.js - Backend for the app: AI analysis and REST storage for app records.
+// This server runs the AI analysis (see server/aiProviders.js), keeping any API key hidden
+// from the frontend application, and serves CRUD routes backed by an embedded SQLite file (see server/).
 
 const express = require('express');
-// The @google/genai package is required for this server to function.
-// In a Node.js environment, it should be installed via: npm install @google/genai
-const { GoogleGenAI } = require('@google/genai'); 
 const cors = require('cors');
+const { createCrudRouter } = require('./server/crudRouter');
+const { resources } = require('./server/resources');
+const { createAuthRouter, requireAuth, requireAdmin, requirePermission, ensureInitialAdmin } = require('./server/auth');
+const { createAuditRouter } = require('./server/audit');
+const { createReportsRouter, startReportScheduler } = require('./server/reportScheduler');
+const { createIssuesRouter, ISSUE_SOURCE_PERMISSIONS } = require('./server/recurringIssues');
+const { createAiTriageRouter, recordAiUsage } = require('./server/aiTriage');
+const { createAiProvider, createAiRouter } = require('./server/aiProviders');
 
 const app = express();
 const port = 3001; // The port the backend server will run on.
 
 // --- Middleware Setup ---
-// Enable Cross-Origin Resource Sharing (CORS) for all routes
-app.use(cors()); 
-// Enable parsing of JSON bodies, with a higher limit to accommodate image data
+// Enable Cross-Origin Resource Sharing (CORS) for the frontend, including its session cookies
+const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || 'http://localhost:3000';
+app.use(cors({ origin: FRONTEND_ORIGIN, credentials: true, exposedHeaders: ['ETag'] }));
+// Enable parsing of JSON bodies, with a higher limit to accommodate image data, and a higher one still for bulk
+// writes, which carry whole imported sheets
+app.use(/^\/api\/[^/]+\/bulk$/, express.json({ limit: '100mb' }));
 app.use(express.json({ limit: '10mb' })); 
 
-// --- Gemini API Initialization ---
-// The API key MUST be provided as an environment variable for security.
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  console.error("FATAL ERROR: The API_KEY environment variable is not set.");
-  console.error("The backend server cannot start without a valid Google Gemini API key.");
-  process.exit(1); // Exit the process if the key is missing
-}
+// --- AI Provider ---
+// Chosen by AI_PROVIDER (gemini, local or none). Without an API_KEY the server still starts, with AI turned off.
+// Every Gemini call counts towards the daily AI usage (see server/aiTriage.js).
+const aiProvider = createAiProvider({ onUsage: recordAiUsage });
+console.log(aiProvider.model ? `AI provider: ${aiProvider.name} (${aiProvider.model})` : 'AI analysis is turned off. Set API_KEY or AI_PROVIDER to turn it on.');
 
-// Initialize the GoogleGenAI client with the secure API key.
-const ai = new GoogleGenAI({ apiKey: API_KEY });
 
-// --- API Endpoint ---
-// A generic endpoint to proxy requests from the frontend to the Gemini API.
-app.post('/api/gemini/generateContent', async (req, res) => {
-  try {
-    // Destructure the necessary parameters from the request body.
-    const { model, contents, config } = req.body;
+// --- Authentication Endpoints ---
+// Login, logout, session refresh and password change. Everything else under /api requires a session.
+ensureInitialAdmin();
+app.use('/api/auth', createAuthRouter({ frontendOrigin: FRONTEND_ORIGIN }));
 
-    // Basic validation to ensure required parameters are present.
-    if (!model || !contents) {
-      return res.status(400).json({ error: 'Request body must contain "model" and "contents" fields.' });
-    }
+// --- REST Resource Endpoints ---
+// /api/visits, /api/cases, /api/employee-visits, /api/material-receipts, /api/erp-corrections,
+// /api/it-issues, /api/projects, /api/users, /api/role-templates, /api/report-schedules and /api/filter-presets,
+// all backed by SQLite.
+// A resource with a `permission` needs that module's view permission to read and edit permission to change
+// (any one module, when it names several); with `openReads`, every signed-in user can read it.
+Object.values(resources).forEach(resource => {
+    const guards = resource.adminOnly
+        ? [requireAuth, requireAdmin]
+        : resource.permission ? [requireAuth, requirePermission(resource.permission, { openReads: resource.openReads })] : [requireAuth];
+    app.use(resource.path, ...guards, createCrudRouter(resource));
+});
+
+// --- Audit Log ---
+// Admins can browse the log; any signed-in user's app reports its client-side actions here.
+app.use('/api/audit', requireAuth, createAuditRouter({ requireAdmin }));
+
+// --- Scheduled Reports ---
+// The report archive and manual runs; the app publishes its browser-only datasets here for the scheduler.
+app.use('/api/reports', requireAuth, createReportsRouter({ requirePermission }));
 
-    // Call the Gemini API using the server-side SDK.
-    // The config object is passed conditionally if it exists.
-    const response = await ai.models.generateContent({
-        model: model,
-        contents: contents,
-        ...(config && { config: config }),
-    });
+// --- Recurring Issues ---
+// Likely duplicates of an issue being reported, and issues reported more than once per project, for users who
+// can view cases or visit reports.
+app.use('/api/issues', requireAuth, requirePermission(ISSUE_SOURCE_PERMISSIONS), createIssuesRouter());
 
-    // Send back the generated text, which the frontend will then parse.
-    res.json({ text: response.text });
+// --- AI Analysis ---
+// Issue and case classification and the questions about visit data, answered by the AI provider.
+app.use('/api/ai', requireAuth, createAiRouter({ provider: aiProvider }));
 
-  } catch (error) {
-    console.error("Error proxying request to Gemini API:", error);
-    res.status(500).json({ error: 'An internal server error occurred while contacting the Gemini API.' });
-  }
+// --- AI Triage ---
+// Batch analysis of the issues and cases that were never classified, within a daily budget.
+app.use('/api/ai-triage', requireAuth, createAiTriageRouter({ requirePermission, provider: aiProvider }));
+
+// Report malformed JSON bodies as a 400 in the same shape as other API errors.
+app.use((err, req, res, next) => {
+    if (err.type === 'entity.parse.failed') {
+        return res.status(400).json({ error: 'Request body is not valid JSON.' });
+    }
+    if (err.type === 'entity.too.large') {
+        return res.status(413).json({ error: 'Request body is too large.' });
+    }
+    console.error('Unhandled API error:', err);
+    res.status(500).json({ error: 'An internal server error occurred.' });
 });
 
 
 // --- Server Startup ---
 app.listen(port, () => {
-    console.log(`Backend API proxy server is running at http://localhost:${port}`);
-    console.log("This server securely forwards requests from the frontend to the Gemini API.");
+    console.log(`Backend API server is running at http://localhost:${port}`);
+    console.log("AI analysis for the frontend is served under /api/ai.");
+    console.log("REST endpoints for app records are served under /api.");
+    startReportScheduler();
 });
@@ -1,36 +1,51 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { User, Permissions, Role } from '../types';
+import { User, Permissions, PermissionOverrides, RoleTemplate, DataScope, Project } from '../types';
 import Avatar from './Avatar';
 import FormField from './FormField';
 import Spinner from './Spinner';
+import ModalWrapper from './ModalWrapper';
+import PermissionMatrix from './PermissionMatrix';
+import DataScopeEditor from './DataScopeEditor';
+import AuditLogTab from './AuditLogTab';
+import RoleTemplatesTab, { RoleTemplateDraft } from './RoleTemplatesTab';
+import { applyPermissionOverrides, countOverrides } from '../utils/permissions';
+import { EMPTY_DATA_SCOPE, isScopeRestricted } from '../utils/dataScope';
+
+type AdminPanelTab = 'users' | 'roleTemplates' | 'audit';
+
+export interface UserAccessChanges {
+    roleTemplateId?: string;
+    permissions?: Permissions;
+    permissionOverrides?: PermissionOverrides;
+    dataScope?: DataScope;
+}
 
 interface AdminPanelProps {
     allUsers: User[];
-    onPermissionsChange: (userId: number, newPermissions: Permissions) => void;
+    projects: Project[];
+    roleTemplates: RoleTemplate[];
+    onUpdateUserAccess: (userId: number, changes: UserAccessChanges) => Promise<void>;
     currentAdminId: number;
-    onInviteUser: (name: string, email: string, role: Role) => void;
+    onInviteUser: (name: string, email: string, roleTemplateId: string) => void;
     onDeleteUser: (userId: number) => Promise<void>;
     onPasswordChange: (userId: number, newPassword: string) => Promise<void>;
+    onSaveRoleTemplate: (template: RoleTemplateDraft) => Promise<void>;
+    onDeleteRoleTemplate: (templateId: string) => Promise<void>;
     originalAdminUser: User | null;
     onSwitchAccount: (targetUserId: number) => void;
     onSwitchBack: () => void;
 }
 
-const ModalWrapper: React.FC<{ isOpen: boolean, onClose: () => void, children: React.ReactNode }> = ({ isOpen, onClose, children }) => {
-    if (!isOpen) return null;
-    return (
-        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
-            <div onClick={e => e.stopPropagation()}>{children}</div>
-        </div>
-    );
-};
+const selectClasses = "mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500";
 
-const InviteUserModal: React.FC<{ isOpen: boolean; onClose: () => void; onInvite: (name: string, email: string, role: Role) => void }> = ({ isOpen, onClose, onInvite }) => {
+const InviteUserModal: React.FC<{ isOpen: boolean; onClose: () => void; onInvite: (name: string, email: string, roleTemplateId: string) => void; roleTemplates: RoleTemplate[] }> = ({ isOpen, onClose, onInvite, roleTemplates }) => {
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
-    const [role, setRole] = useState<Role>('user');
+    const [roleTemplateId, setRoleTemplateId] = useState('');
+
+    const selectedTemplateId = roleTemplateId || roleTemplates.find(t => t.role === 'user')?.id || roleTemplates[0]?.id || '';
 
-    const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onInvite(name, email, role); onClose(); setName(''); setEmail(''); setRole('user'); };
+    const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onInvite(name, email, selectedTemplateId); onClose(); setName(''); setEmail(''); setRoleTemplateId(''); };
 
     return (
         <ModalWrapper isOpen={isOpen} onClose={onClose}>
@@ -39,62 +54,165 @@ const InviteUserModal: React.FC<{ isOpen: boolean; onClose: () => void; onInvite
                 <FormField id="invite-name" label="Full Name" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Jane Doe" required />
                 <FormField id="invite-email" label="Email" type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="jane.doe@example.com" required />
                 <div>
-                    <label htmlFor="invite-role" className="block text-sm font-medium text-slate-700">Role</label>
-                    <select id="invite-role" value={role} onChange={e => setRole(e.target.value as Role)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
-                        <option value="user">User</option>
-                        <option value="admin">Admin</option>
+                    <label htmlFor="invite-role" className="block text-sm font-medium text-slate-700">Role Template</label>
+                    <select id="invite-role" value={selectedTemplateId} onChange={e => setRoleTemplateId(e.target.value)} className={selectClasses} required>
+                        {roleTemplates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
                     </select>
                 </div>
                 <div className="flex justify-end pt-2 gap-2">
                     <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
-                    <button type="submit" className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700">Add</button>
+                    <button type="submit" disabled={!selectedTemplateId} className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 disabled:bg-slate-400">Add</button>
                 </div>
             </form>
         </ModalWrapper>
     );
 };
 
-const UserRow: React.FC<{ user: User; isSelected: boolean; onSelect: (id: number) => void; onEditPermissions: (u: User) => void; onDelete: (u: User) => void }> = ({ user, isSelected, onSelect, onEditPermissions, onDelete }) => (
-    <div className={`p-4 border-b flex items-center gap-4 ${isSelected ? 'bg-orange-50' : 'hover:bg-slate-50'}`} onClick={() => onSelect(user.id)}>
-        <input type="checkbox" checked={isSelected} onChange={() => onSelect(user.id)} />
-        <Avatar name={user.name} />
-        <div className="flex-1 min-w-0">
-            <p className="font-semibold truncate">{user.name}</p>
-            <p className="text-sm text-slate-500 truncate">{user.email}</p>
-        </div>
-        <div className="flex gap-2">
-            <button onClick={() => onEditPermissions(user)} className="text-sm text-orange-600">Edit</button>
-            <button onClick={() => onDelete(user)} className="text-sm text-red-600">Delete</button>
+const UserAccessModal: React.FC<{ user: User | null; roleTemplates: RoleTemplate[]; projects: Project[]; onClose: () => void; onSave: (userId: number, changes: UserAccessChanges) => Promise<void> }> = ({ user, roleTemplates, projects, onClose, onSave }) => {
+    const [roleTemplateId, setRoleTemplateId] = useState(user?.roleTemplateId ?? '');
+    const [permissions, setPermissions] = useState<Permissions | null>(user?.permissions ?? null);
+    const [dataScope, setDataScope] = useState<DataScope>(user?.dataScope ?? EMPTY_DATA_SCOPE);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    if (!user || !permissions) return null;
+    const template = roleTemplates.find(t => t.id === roleTemplateId);
+
+    const handleTemplateChange = (templateId: string) => {
+        setRoleTemplateId(templateId);
+        // A different template starts without overrides.
+        const newTemplate = roleTemplates.find(t => t.id === templateId);
+        if (newTemplate) setPermissions(applyPermissionOverrides(newTemplate.permissions));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSave(user.id, roleTemplateId ? { roleTemplateId, permissions, dataScope } : { permissions, dataScope });
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save permissions.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <ModalWrapper isOpen={!!user} onClose={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <h2 className="text-xl font-bold text-slate-800">Access for {user.name}</h2>
+                    <div>
+                        <label htmlFor="access-template" className="block text-sm font-medium text-slate-700">Role Template</label>
+                        <select id="access-template" value={roleTemplateId} onChange={e => handleTemplateChange(e.target.value)} className={selectClasses}>
+                            {!roleTemplateId && <option value="">No template (custom permissions)</option>}
+                            {roleTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        </select>
+                    </div>
+                    {template && (
+                        <div className="flex justify-between items-center text-sm">
+                            <span className="text-slate-500">Highlighted permissions are overrides for this user only.</span>
+                            <button type="button" onClick={() => setPermissions(applyPermissionOverrides(template.permissions))} className="text-orange-600 font-medium">Reset to template</button>
+                        </div>
+                    )}
+                    <div className="border rounded-md overflow-hidden">
+                        <PermissionMatrix permissions={permissions} onChange={setPermissions} basePermissions={template?.permissions} />
+                    </div>
+                    <h3 className="text-sm font-semibold text-slate-700">Data Access</h3>
+                    <DataScopeEditor scope={dataScope} onChange={setDataScope} projects={projects} />
+                    {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+                </div>
+                <div className="flex justify-end p-4 gap-2 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+                    <button type="button" onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 disabled:bg-slate-400 flex items-center gap-2">
+                        {isSaving && <Spinner className="h-4" />}
+                        Save
+                    </button>
+                </div>
+            </div>
+        </ModalWrapper>
+    );
+};
+
+const UserRow: React.FC<{ user: User; templateName?: string; isSelected: boolean; onSelect: (id: number) => void; onEditPermissions: (u: User) => void; onDelete: (u: User) => void }> = ({ user, templateName, isSelected, onSelect, onEditPermissions, onDelete }) => {
+    const overrideCount = countOverrides(user.permissionOverrides);
+    return (
+        <div className={`p-4 border-b flex items-center gap-4 ${isSelected ? 'bg-orange-50' : 'hover:bg-slate-50'}`} onClick={() => onSelect(user.id)}>
+            <input type="checkbox" checked={isSelected} onChange={() => onSelect(user.id)} />
+            <Avatar name={user.name} />
+            <div className="flex-1 min-w-0">
+                <p className="font-semibold truncate">{user.name}</p>
+                <p className="text-sm text-slate-500 truncate">{user.email}</p>
+            </div>
+            <div className="hidden sm:flex items-center gap-2 text-sm">
+                <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-700">{templateName ?? 'Custom'}</span>
+                {isScopeRestricted(user.dataScope) && <span className="px-2 py-0.5 rounded-full bg-sky-100 text-sky-800" title="Only sees records of some zones, projects or departments">Scoped</span>}
+                {overrideCount > 0 && <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800" title="Permissions that differ from the role template">{overrideCount} override{overrideCount === 1 ? '' : 's'}</span>}
+            </div>
+            <div className="flex gap-2">
+                <button onClick={e => { e.stopPropagation(); onEditPermissions(user); }} className="text-sm text-orange-600">Edit</button>
+                <button onClick={e => { e.stopPropagation(); onDelete(user); }} className="text-sm text-red-600">Delete</button>
+            </div>
         </div>
-    </div>
-);
+    );
+};
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ allUsers, onPermissionsChange, currentAdminId, onInviteUser, onDeleteUser, onPasswordChange }) => {
+const AdminPanel: React.FC<AdminPanelProps> = ({ allUsers, projects, roleTemplates, onUpdateUserAccess, currentAdminId, onInviteUser, onDeleteUser, onPasswordChange, onSaveRoleTemplate, onDeleteRoleTemplate }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedUserIds, setSelectedUserIds] = useState<number[]>([]);
     const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+    const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [activeTab, setActiveTab] = useState<AdminPanelTab>('users');
 
     const filteredUsers = useMemo(() => allUsers.filter(u => u.name.toLowerCase().includes(searchTerm.toLowerCase())), [allUsers, searchTerm]);
+    const templateNames = useMemo(() => Object.fromEntries(roleTemplates.map(t => [t.id, t.name])), [roleTemplates]);
 
     const toggleSelectUser = useCallback((id: number) => {
         setSelectedUserIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
     }, []);
 
+    const handleDelete = (user: User) => {
+        if (user.id === currentAdminId) {
+            alert("Error: You cannot delete your own account.");
+            return;
+        }
+        if (window.confirm(`Delete ${user.name}'s account? This cannot be undone.`)) {
+            onDeleteUser(user.id);
+        }
+    };
+
     return (
         <div className="p-4 sm:p-6 lg:p-8 space-y-6">
             <div className="flex justify-between items-center">
                 <h2 className="text-2xl font-bold">Admin Panel</h2>
-                <button onClick={() => setIsInviteModalOpen(true)} className="px-4 py-2 bg-orange-600 text-white rounded">Invite</button>
+                {activeTab === 'users' && <button onClick={() => setIsInviteModalOpen(true)} className="px-4 py-2 bg-orange-600 text-white rounded">Invite</button>}
             </div>
-            <input type="text" placeholder="Search users..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full p-2 border rounded" />
-            <div className="bg-white rounded-xl border">
-                {filteredUsers.map(user => (
-                    <UserRow key={user.id} user={user} isSelected={selectedUserIds.includes(user.id)} onSelect={toggleSelectUser} onEditPermissions={() => {}} onDelete={() => {}} />
+            <div className="border-b border-slate-200 flex gap-6">
+                {([['users', 'Users'], ['roleTemplates', 'Role Templates'], ['audit', 'Audit Log']] as [AdminPanelTab, string][]).map(([tab, label]) => (
+                    <button key={tab} type="button" onClick={() => setActiveTab(tab)} className={`pb-2 text-sm font-medium border-b-2 ${activeTab === tab ? 'border-orange-600 text-orange-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}>
+                        {label}
+                    </button>
                 ))}
             </div>
-            <InviteUserModal isOpen={isInviteModalOpen} onClose={() => setIsInviteModalOpen(false)} onInvite={onInviteUser} />
+            {activeTab === 'users' && (
+                <>
+                    <input type="text" placeholder="Search users..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full p-2 border rounded" />
+                    <div className="bg-white rounded-xl border">
+                        {filteredUsers.map(user => (
+                            <UserRow key={user.id} user={user} templateName={user.roleTemplateId ? templateNames[user.roleTemplateId] : undefined} isSelected={selectedUserIds.includes(user.id)} onSelect={toggleSelectUser} onEditPermissions={setEditingUser} onDelete={handleDelete} />
+                        ))}
+                    </div>
+                </>
+            )}
+            {activeTab === 'roleTemplates' && (
+                <RoleTemplatesTab roleTemplates={roleTemplates} allUsers={allUsers} onSaveRoleTemplate={onSaveRoleTemplate} onDeleteRoleTemplate={onDeleteRoleTemplate} />
+            )}
+            {activeTab === 'audit' && <AuditLogTab />}
+            <InviteUserModal isOpen={isInviteModalOpen} onClose={() => setIsInviteModalOpen(false)} onInvite={onInviteUser} roleTemplates={roleTemplates} />
+            {editingUser && <UserAccessModal key={editingUser.id} user={editingUser} roleTemplates={roleTemplates} projects={projects} onClose={() => setEditingUser(null)} onSave={onUpdateUserAccess} />}
         </div>
     );
 };
 
-export default AdminPanel;
\ No newline at end of file
+export default AdminPanel;
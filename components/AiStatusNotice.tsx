@@ -0,0 +1,21 @@
+import React from 'react';
+import { AiStatus } from '../types';
+
+/**
+ * Tells the user that AI is turned off on the server, in place of the AI buttons, with `children` saying what to
+ * do instead; or that the results come from the local rules rather than a real model. Shows nothing otherwise.
+ */
+const AiStatusNotice: React.FC<{ status: AiStatus | null; className?: string; children?: React.ReactNode }> = ({ status, className = '', children }) => {
+    if (!status || status.provider === 'gemini') return null;
+    return status.enabled ? (
+        <p className={`text-xs text-slate-600 bg-slate-100 p-2 rounded-md ${className}`}>
+            AI results come from the server's local rules for development, not from an AI model.
+        </p>
+    ) : (
+        <p role="status" className={`text-sm text-amber-800 bg-amber-50 border border-amber-200 p-2 rounded-md ${className}`}>
+            AI analysis is turned off on this server.{children && <> {children}</>}
+        </p>
+    );
+};
+
+export default AiStatusNotice;
@@ -0,0 +1,235 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AiTriageJob, AiTriageJobStatus, AiTriageSettings as AiTriageSettingsValue, AiTriageStatus } from '../types';
+import { cancelAiTriage, getAiTriageStatus, saveAiTriageSettings, startAiTriage } from '../services/aiTriageService';
+import { formatDateTime } from '../utils/time';
+import { useAiStatus } from '../hooks/useAiStatus';
+import AiStatusNotice from './AiStatusNotice';
+import FormField from './FormField';
+import Spinner from './Spinner';
+
+const POLL_INTERVAL_MS = 2000;
+
+const JOB_STATUS_LABELS: Record<AiTriageJobStatus, { label: string; className: string }> = {
+    running: { label: 'Running', className: 'bg-sky-100 text-sky-800' },
+    completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+    cancelled: { label: 'Stopped', className: 'bg-slate-100 text-slate-700' },
+    budgetExhausted: { label: 'Daily budget used up', className: 'bg-amber-100 text-amber-800' },
+    failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+// The settings form's fields, kept as typed until saved. An empty limit means no limit.
+interface SettingsFormState {
+    dailyCallLimit: string;
+    dailyTokenLimit: string;
+    concurrency: string;
+}
+
+const toFormState = (settings: AiTriageSettingsValue): SettingsFormState => ({
+    dailyCallLimit: settings.dailyCallLimit?.toString() ?? '',
+    dailyTokenLimit: settings.dailyTokenLimit?.toString() ?? '',
+    concurrency: settings.concurrency.toString(),
+});
+
+const parseSettingsForm = (form: SettingsFormState): { value: AiTriageSettingsValue } | { error: string } => {
+    const limit = (text: string) => (text.trim() ? Number(text) : null);
+    const dailyCallLimit = limit(form.dailyCallLimit);
+    const dailyTokenLimit = limit(form.dailyTokenLimit);
+    const concurrency = Number(form.concurrency);
+    if ([dailyCallLimit, dailyTokenLimit].some(value => value !== null && (!Number.isInteger(value) || value <= 0))) {
+        return { error: 'Enter the daily limits as whole numbers above 0, or leave them empty for no limit.' };
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > 5) {
+        return { error: 'Enter between 1 and 5 calls at a time.' };
+    }
+    return { value: { dailyCallLimit, dailyTokenLimit, concurrency } };
+};
+
+const UsageBar: React.FC<{ label: string; used: number; limit: number | null }> = ({ label, used, limit }) => {
+    const share = limit ? Math.min(1, used / limit) : 0;
+    return (
+        <div>
+            <div className="flex justify-between text-sm text-slate-600">
+                <span>{label}</span>
+                <span>{used.toLocaleString('en-US')} {limit ? `of ${limit.toLocaleString('en-US')}` : '(no limit)'}</span>
+            </div>
+            {limit !== null && (
+                <div className="mt-1 h-2 bg-slate-200 rounded-full overflow-hidden">
+                    <div className={`h-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-orange-500'}`} style={{ width: `${share * 100}%` }} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const JobProgress: React.FC<{ job: AiTriageJob }> = ({ job }) => {
+    const processed = job.analyzed + job.cached + job.skipped + job.failed;
+    const status = JOB_STATUS_LABELS[job.status];
+    return (
+        <div className="border border-slate-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="font-semibold text-slate-800">Job #{job.id}</h4>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                    {job.status === 'running' && job.cancelRequested ? 'Stopping…' : status.label}
+                </span>
+            </div>
+            <div className="h-3 bg-slate-200 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={job.total} aria-valuenow={processed}>
+                <div className="h-full bg-orange-500 transition-all" style={{ width: `${job.total > 0 ? (processed / job.total) * 100 : 100}%` }} />
+            </div>
+            <p className="text-sm text-slate-600">
+                {processed} of {job.total} processed: {job.analyzed} analysed, {job.cached} from earlier results, {job.skipped} skipped, {job.failed} failed.
+            </p>
+            <p className="text-xs text-slate-500">
+                Started {formatDateTime(job.startedAt)} by {job.startedBy.name}{job.finishedAt ? ` · finished ${formatDateTime(job.finishedAt)}` : ''}
+            </p>
+            {job.error && <p className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{job.error}</p>}
+        </div>
+    );
+};
+
+/**
+ * The AI triage tab of System Management: runs the AI analysis over every issue and case that hasn't had one,
+ * within a daily budget (see server/aiTriage.js).
+ */
+const AiTriageSettings: React.FC<{ canEdit: boolean }> = ({ canEdit }) => {
+    const [status, setStatus] = useState<AiTriageStatus | null>(null);
+    const [form, setForm] = useState<SettingsFormState | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const aiStatus = useAiStatus();
+
+    const loadStatus = useCallback(async () => {
+        try {
+            const result = await getAiTriageStatus();
+            setStatus(result);
+            setForm(prev => prev ?? toFormState(result.settings));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not load the AI triage status.');
+        }
+    }, []);
+
+    useEffect(() => { loadStatus(); }, [loadStatus]);
+
+    const isRunning = status?.job?.status === 'running';
+    useEffect(() => {
+        if (!isRunning) return;
+        const timer = window.setInterval(loadStatus, POLL_INTERVAL_MS);
+        return () => window.clearInterval(timer);
+    }, [isRunning, loadStatus]);
+
+    const field = (key: keyof SettingsFormState) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+        setForm(prev => prev && { ...prev, [key]: e.target.value });
+
+    const handleSaveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        const parsed = parseSettingsForm(form);
+        if ('error' in parsed) {
+            setError(parsed.error);
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            const settings = await saveAiTriageSettings(parsed.value);
+            setStatus(prev => prev && { ...prev, settings });
+            setForm(toFormState(settings));
+            setNotice('Settings saved.');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the settings.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const runAction = async (action: () => Promise<AiTriageJob>) => {
+        setError(null);
+        setNotice(null);
+        try {
+            const job = await action();
+            setStatus(prev => prev && { ...prev, job });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The request failed.');
+        }
+        loadStatus();
+    };
+
+    if (!status || !form) {
+        return error
+            ? <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>
+            : <div className="flex justify-center py-10"><Spinner className="h-10" /></div>;
+    }
+
+    const pendingTotal = status.pending.issues + status.pending.cases;
+
+    return (
+        <div className="fade-in space-y-6">
+            <p className="text-sm text-slate-600 max-w-3xl">
+                Visit report issues without a category and project cases without an AI summary, such as those reported offline or
+                imported, can be analysed in one go. Content that was analysed before reuses the earlier result without a new AI call.
+                The daily budget covers every AI call the server makes, and a job stops when it is used up.
+            </p>
+
+            {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+            {notice && <p className="text-sm text-green-700 bg-green-50 p-2 rounded-md">{notice}</p>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-slate-800">Waiting for Analysis</h3>
+                    <p className="text-sm text-slate-700">
+                        <strong>{status.pending.issues}</strong> visit report issues and <strong>{status.pending.cases}</strong> project cases.
+                    </p>
+                    <AiStatusNotice status={aiStatus}>Set AI_PROVIDER and API_KEY on the backend to analyse these.</AiStatusNotice>
+                    {canEdit && (
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={() => runAction(startAiTriage)}
+                                disabled={isRunning || pendingTotal === 0 || aiStatus?.enabled === false}
+                                className="px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                            >
+                                Analyse {pendingTotal} Items
+                            </button>
+                            {isRunning && (
+                                <button
+                                    type="button"
+                                    onClick={() => runAction(cancelAiTriage)}
+                                    disabled={status.job?.cancelRequested}
+                                    className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+                                >
+                                    Stop
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {status.job && <JobProgress job={status.job} />}
+                </div>
+
+                <div className="space-y-4">
+                    <h3 className="text-lg font-semibold text-slate-800">Today's Usage</h3>
+                    <UsageBar label="AI calls" used={status.usage.calls} limit={status.settings.dailyCallLimit} />
+                    <UsageBar label="Tokens" used={status.usage.tokens} limit={status.settings.dailyTokenLimit} />
+
+                    <form onSubmit={handleSaveSettings} className="pt-2">
+                        <fieldset disabled={!canEdit || isSaving} className="space-y-4">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                <FormField id="aiDailyCallLimit" label="AI Calls per Day" value={form.dailyCallLimit} onChange={field('dailyCallLimit')} placeholder="No limit" />
+                                <FormField id="aiDailyTokenLimit" label="Tokens per Day" value={form.dailyTokenLimit} onChange={field('dailyTokenLimit')} placeholder="No limit" />
+                                <FormField id="aiConcurrency" label="Calls at a Time" value={form.concurrency} onChange={field('concurrency')} placeholder="1 to 5" required />
+                            </div>
+                            {canEdit && (
+                                <div className="flex justify-end">
+                                    <button type="submit" className="inline-flex items-center justify-center w-36 px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700 disabled:bg-slate-400">
+                                        {isSaving ? <Spinner /> : 'Save Budget'}
+                                    </button>
+                                </div>
+                            )}
+                        </fieldset>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AiTriageSettings;
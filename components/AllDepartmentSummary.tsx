@@ -2,15 +2,17 @@
 
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { EmployeeVisit, User } from '../types';
+import { EmployeeVisit, User, DutyPolicy } from '../types';
 import _ from 'lodash';
 import SearchableSelect from './SearchableSelect';
-import { DESIGNATIONS } from '../constants';
 import FeedbackMessage from './FeedbackMessage';
 import ChangeIcon from './ChangeIcon';
 import { useLoading } from '../contexts/LoadingContext';
 // FIX: Changed to a named import to match the export from PdfExport.tsx
 import { PdfExport } from './PdfExport';
+import { parseDurationToSeconds, formatSecondsToHHMM, monthRange } from '../utils/time';
+import { getSupposedlyDurations, durationsForHours, policyDateForMonth } from '../utils/dutyPolicy';
+import { WorkCalendar } from '../utils/workCalendar';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -29,81 +31,11 @@ export const PROJECT_SIDE_INVENTORY_DESIGNATIONS = new Set([
 
 
 // --- Helper Functions ---
-const parseDurationToSeconds = (durationStr: string): number => {
-    if (!durationStr || typeof durationStr !== 'string') return 0;
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length !== 3 || parts.some(isNaN)) return 0;
-    const [hours, minutes, seconds] = parts;
-    return hours * 3600 + minutes * 60 + seconds;
-};
-
-const formatSecondsToHHMM = (totalSeconds: number): string => {
-    if (isNaN(totalSeconds) || totalSeconds < 0) return '00:00';
-    const sign = totalSeconds < 0 ? '-' : '';
-    const absSeconds = Math.abs(totalSeconds);
-
-    // Round to the nearest minute for accuracy
-    const totalMinutes = Math.round(absSeconds / 60);
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    
-    return `${sign}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-};
-
 const formatStabilityValue = (value: number): string => {
     const icon = value > 0 ? '▲' : value < 0 ? '▼' : '–';
     return `${icon} ${Math.abs(value).toFixed(2)}%`;
 };
 
-const EXEMPT_DEPARTMENTS = new Set([
-  'Internal Audit',
-  'Brand Management',
-  'Planning & Design (Architectural)',
-  'Electro-Mechanical',
-  'Information Technology (IT)',
-  'Management Information System (MIS)',
-  'Material Quality Assurance & Purchase',
-]);
-
-
-interface SupposedlyDurations {
-    durationForDisplaySec: number;
-    durationForCalcSec: number;
-}
-
-/**
- * Encapsulates the business logic for determining visit durations.
- * Returns both the duration for UI display and the duration for percentage calculations.
- * @param department The employee's department.
- * @param designation The employee's designation.
- * @returns An object with durations for display and calculation.
- */
-const getSupposedlyDurations = (department: string, designation: string): SupposedlyDurations => {
-    const isExempt = EXEMPT_DEPARTMENTS.has(department);
-    
-    // Rule 1: Exempt departments have a 0hr target but are measured against a 4hr baseline for stability.
-    if (isExempt) {
-        return { durationForDisplaySec: 0, durationForCalcSec: 4 * 3600 };
-    }
-    
-    // Rule 2: Inventory Project Side roles have a 6hr target.
-    if (department === 'Inventory Mgt.' && PROJECT_SIDE_INVENTORY_DESIGNATIONS.has(designation)) {
-        return { durationForDisplaySec: 4 * 3600, durationForCalcSec: 4 * 3600 };
-    }
-    // Rule 3: Inventory Project Side roles have a 6hr target.
-    if (department === 'Inventory Mgt. (Project Side)' && PROJECT_SIDE_INVENTORY_DESIGNATIONS.has(designation)) {
-        return { durationForDisplaySec: 6 * 3600, durationForCalcSec: 6 * 3600 };
-    }
-    // Rule 4: HR & Security have a 7hr target.
-    if (department === 'HR & Admin (Security)' || department === 'HR & Admin (Security)') {
-        return { durationForDisplaySec: 7 * 3600, durationForCalcSec: 7 * 3600 };
-    }
-    
-    // Default Rule: All others have a 4hr target.
-    return { durationForDisplaySec: 4 * 3600, durationForCalcSec: 4 * 3600 };
-};
-
-
 export interface SummaryDataRow {
     department: string;
     visitorName: string;
@@ -150,6 +82,8 @@ interface AllDepartmentSummaryProps {
     visits: EmployeeVisit[];
     departments: string[];
     currentUser: User;
+    dutyPolicies: DutyPolicy[];
+    workCalendar: WorkCalendar;
     analysisMode?: 'single-month-comparison' | 'multi-month';
 }
 
@@ -157,7 +91,7 @@ interface AllDepartmentSummaryProps {
 const departmentOrder = [
   'Construction',
   'Inventory Mgt.',
-  'Inventory Mgt. (Project Side)'
+  'Inventory Mgt. (Project Side)',
   'Internal Audit',
   'Quality Assurance',
   'HR & Admin (Security)',
@@ -213,7 +147,7 @@ const getMonthsInRange = (startMonth: string, endMonth: string): string[] => {
     return months;
 };
 
-const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, departments, currentUser, analysisMode = 'single-month-comparison' }) => {
+const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, departments, currentUser, dutyPolicies, workCalendar, analysisMode = 'single-month-comparison' }) => {
     const today = new Date();
     const latestMonthFromData = useMemo(() => {
         if (visits.length > 0) {
@@ -244,9 +178,9 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
     const [customDurations, setCustomDurations] = useState<Record<string, string>>({});
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
 
-    // State for configurable working days
-    const [defaultCurrentWorkingDays, setDefaultCurrentWorkingDays] = useState('25');
-    const [defaultLastWorkingDays, setDefaultLastWorkingDays] = useState('26');
+    // State for configurable working days; left empty, they come from the company calendar.
+    const [defaultCurrentWorkingDays, setDefaultCurrentWorkingDays] = useState('');
+    const [defaultLastWorkingDays, setDefaultLastWorkingDays] = useState('');
     const [securityCurrentWorkingDays, setSecurityCurrentWorkingDays] = useState('');
     const [securityLastWorkingDays, setSecurityLastWorkingDays] = useState('');
     const [officeCurrentWorkingDays, setOfficeCurrentWorkingDays] = useState('');
@@ -304,6 +238,18 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
             lastMonthName: last.toLocaleString('en-US', nameFormat),
         };
     }, [selectedMonth]);
+
+    // The days the whole company worked in each month, shown when no default is entered.
+    const companyWorkingDays = useMemo(() => {
+        if (!/^\d{4}-\d{2}$/.test(selectedMonth)) return { current: 0, last: 0 };
+        const current = monthRange(selectedMonth);
+        const [year, month] = selectedMonth.split('-').map(Number);
+        const last = monthRange(new Date(Date.UTC(year, month - 2, 1)).toISOString().slice(0, 7));
+        return {
+            current: workCalendar.countWorkingDays(current.start, current.end),
+            last: workCalendar.countWorkingDays(last.start, last.end),
+        };
+    }, [selectedMonth, workCalendar]);
     
     // --- Full Screen Logic ---
     const handleToggleFullScreen = () => {
@@ -360,6 +306,11 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
             lastMonth = 12;
             lastMonthYear = year - 1;
         }
+        const lastMonthStr = `${lastMonthYear}-${String(lastMonth).padStart(2, '0')}`;
+        const currentPolicyDate = policyDateForMonth(selectedMonth);
+        const lastPolicyDate = policyDateForMonth(lastMonthStr);
+        const currentRange = monthRange(selectedMonth);
+        const lastRange = monthRange(lastMonthStr);
 
         const currentVisits = visits.filter(v => {
             if (!v.date || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) return false;
@@ -375,8 +326,8 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
         
         const employeeNamesWithVisits = _.uniq(visits.map(v => v.visitorName));
 
-        const numDefaultCurrentWD = parseInt(defaultCurrentWorkingDays, 10) || 0;
-        const numDefaultLastWD = parseInt(defaultLastWorkingDays, 10) || 0;
+        const numDefaultCurrentWD = parseInt(defaultCurrentWorkingDays, 10);
+        const numDefaultLastWD = parseInt(defaultLastWorkingDays, 10);
         const numSecurityCurrentWD = parseInt(securityCurrentWorkingDays, 10);
         const numSecurityLastWD = parseInt(securityLastWorkingDays, 10);
         const numOfficeCurrentWD = parseInt(officeCurrentWorkingDays, 10);
@@ -394,34 +345,35 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
             const { department, designation } = firstVisit;
             
             const customDurationInput = customDurations[department];
-            let { durationForDisplaySec, durationForCalcSec } = getSupposedlyDurations(department, designation);
+            let { durationForDisplaySec, durationForCalcSec } = getSupposedlyDurations(dutyPolicies, department, designation, currentPolicyDate);
+            let lastMonthDurationForCalcSec = getSupposedlyDurations(dutyPolicies, department, designation, lastPolicyDate).durationForCalcSec;
 
             if (customDurationInput !== undefined && customDurationInput.trim() !== '') {
                 const customHours = parseFloat(customDurationInput);
                 if (!isNaN(customHours) && customHours >= 0) {
-                    durationForDisplaySec = customHours * 3600;
-                    if (customHours === 0) {
-                        durationForCalcSec = 4 * 3600; 
-                    } else {
-                        durationForCalcSec = customHours * 3600;
-                    }
+                    ({ durationForDisplaySec, durationForCalcSec } = durationsForHours(customHours));
+                    lastMonthDurationForCalcSec = durationForCalcSec;
                 }
             }
             
             const isSecurity = department.toLowerCase().includes('security');
             
+            const calendarEmployee = { name: employeeName, department };
             let wd: number;
             if (workingDays[employeeName] !== undefined) {
                 wd = workingDays[employeeName];
             } else if (isSecurity && !isNaN(numSecurityCurrentWD)) {
                 wd = numSecurityCurrentWD;
-            } else {
+            } else if (!isNaN(numDefaultCurrentWD)) {
                 wd = numDefaultCurrentWD;
+            } else {
+                wd = workCalendar.countWorkingDays(currentRange.start, currentRange.end, calendarEmployee);
             }
             
             const lastMonthWorkingDays = 
                 (isSecurity && !isNaN(numSecurityLastWD)) ? numSecurityLastWD :
-                numDefaultLastWD;
+                !isNaN(numDefaultLastWD) ? numDefaultLastWD :
+                workCalendar.countWorkingDays(lastRange.start, lastRange.end, calendarEmployee);
 
             const totalVisitedDay = _.uniqBy(employeeVisits, 'date').length;
             const totalVisitedProjectCount = _.uniqBy(employeeVisits, 'projectName').length;
@@ -441,11 +393,11 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
             };
 
             const lastMonthActualDurationSec = _.sumBy(employeeLastMonthVisits, v => parseDurationToSeconds(v.duration));
-            const lastMonthSupposedlyDurationMonthSec_forCalc = lastMonthWorkingDays * durationForCalcSec;
+            const lastMonthSupposedlyDurationMonthSec_forCalc = lastMonthWorkingDays * lastMonthDurationForCalcSec;
             const lastMonthDurationPercentage = lastMonthSupposedlyDurationMonthSec_forCalc > 0 ? (lastMonthActualDurationSec / lastMonthSupposedlyDurationMonthSec_forCalc) * 100 : 0;
             
-            const currentMonthAvgDivisor = !isNaN(numOfficeCurrentWD) && numOfficeCurrentWD > 0 ? numOfficeCurrentWD : numDefaultCurrentWD;
-            const lastMonthAvgDivisor = !isNaN(numOfficeLastWD) && numOfficeLastWD > 0 ? numOfficeLastWD : numDefaultLastWD;
+            const currentMonthAvgDivisor = !isNaN(numOfficeCurrentWD) && numOfficeCurrentWD > 0 ? numOfficeCurrentWD : !isNaN(numDefaultCurrentWD) ? numDefaultCurrentWD : companyWorkingDays.current;
+            const lastMonthAvgDivisor = !isNaN(numOfficeLastWD) && numOfficeLastWD > 0 ? numOfficeLastWD : !isNaN(numDefaultLastWD) ? numDefaultLastWD : companyWorkingDays.last;
             
             const currentMonthDayAverageSec = currentMonthAvgDivisor > 0 ? currentMonthActualDurationSec / currentMonthAvgDivisor : 0;
             const lastMonthPerDayAverageSec = lastMonthAvgDivisor > 0 ? lastMonthActualDurationSec / lastMonthAvgDivisor : 0;
@@ -481,7 +433,7 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
             };
         }).filter((item): item is SummaryDataRow => item !== null);
         return calculatedData;
-    }, [selectedMonth, visits, workingDays, defaultCurrentWorkingDays, defaultLastWorkingDays, securityCurrentWorkingDays, securityLastWorkingDays, officeCurrentWorkingDays, officeLastWorkingDays, customDurations, analysisMode]);
+    }, [selectedMonth, visits, workingDays, defaultCurrentWorkingDays, defaultLastWorkingDays, securityCurrentWorkingDays, securityLastWorkingDays, officeCurrentWorkingDays, officeLastWorkingDays, customDurations, dutyPolicies, workCalendar, companyWorkingDays, analysisMode]);
     
     // New memo for multi-month data
     const multiMonthSummaryData = useMemo<MultiMonthDataRow[]>(() => {
@@ -503,8 +455,9 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
                     const [year, month] = monthStr.split('-').map(Number);
                     const visitsInMonth = allVisitsForEmployee.filter(v => v.date.startsWith(monthStr));
                     
-                    const { durationForCalcSec } = getSupposedlyDurations(department, designation);
-                    const wd = parseInt(defaultCurrentWorkingDays, 10) || 22; // Using a default for now
+                    const { durationForCalcSec } = getSupposedlyDurations(dutyPolicies, department, designation, policyDateForMonth(monthStr));
+                    const { start, end } = monthRange(monthStr);
+                    const wd = workCalendar.countWorkingDays(start, end, { name, department });
 
                     const actualDurationSec = _.sumBy(visitsInMonth, v => parseDurationToSeconds(v.duration));
                     const supposedlyDurationSec = wd * durationForCalcSec;
@@ -531,7 +484,7 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
                 };
             }).filter((item): item is MultiMonthDataRow => item !== null);
 
-    }, [startMonth, endMonth, rangeError, visits, defaultCurrentWorkingDays, analysisMode]);
+    }, [startMonth, endMonth, rangeError, visits, dutyPolicies, workCalendar, analysisMode]);
 
 
     const departmentNamesForFilter = useMemo(() => {
@@ -870,9 +823,9 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
             <div className="lg:col-span-3 grid grid-cols-3 gap-4 border p-2 rounded-md bg-slate-50">
                 <div>
                     <label htmlFor="default-wd-current" className="block text-xs font-medium text-slate-600">Default WD ({currentMonthName})</label>
-                    <input type="number" id="default-wd-current" value={defaultCurrentWorkingDays} onChange={e => setDefaultCurrentWorkingDays(e.target.value)} min="0" max="31" className="mt-1 block w-full px-2 py-1 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
+                    <input type="number" id="default-wd-current" value={defaultCurrentWorkingDays} onChange={e => setDefaultCurrentWorkingDays(e.target.value)} min="0" max="31" placeholder={`${companyWorkingDays.current} (calendar)`} className="mt-1 block w-full px-2 py-1 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
                     <label htmlFor="default-wd-last" className="block text-xs font-medium text-slate-600 mt-2">Default WD ({lastMonthName})</label>
-                    <input type="number" id="default-wd-last" value={defaultLastWorkingDays} onChange={e => setDefaultLastWorkingDays(e.target.value)} min="0" max="31" className="mt-1 block w-full px-2 py-1 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
+                    <input type="number" id="default-wd-last" value={defaultLastWorkingDays} onChange={e => setDefaultLastWorkingDays(e.target.value)} min="0" max="31" placeholder={`${companyWorkingDays.last} (calendar)`} className="mt-1 block w-full px-2 py-1 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
                 </div>
                 <div>
                     <label htmlFor="security-wd-current" className="block text-xs font-medium text-slate-600">Security WD ({currentMonthName})</label>
@@ -1100,8 +1053,8 @@ const AllDepartmentSummary: React.FC<AllDepartmentSummaryProps> = ({ visits, dep
                             selectedMonth={selectedMonth}
                             currentMonthName={currentMonthName}
                             lastMonthName={lastMonthName}
-                            defaultCurrentWorkingDays={defaultCurrentWorkingDays}
-                            defaultLastWorkingDays={defaultLastWorkingDays}
+                            defaultCurrentWorkingDays={defaultCurrentWorkingDays || String(companyWorkingDays.current)}
+                            defaultLastWorkingDays={defaultLastWorkingDays || String(companyWorkingDays.last)}
                             securityCurrentWorkingDays={securityCurrentWorkingDays}
                             securityLastWorkingDays={securityLastWorkingDays}
                         />
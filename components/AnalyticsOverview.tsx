@@ -2,30 +2,7 @@
 import React, { useMemo } from 'react';
 import { View, User, EmployeeVisit, SealPersonVisit, ITAssignedIssue, MaterialReceiveItem, ERPCorrectionRecord } from '../types';
 import _ from 'lodash';
-
-// --- Helper Functions ---
-const parseDurationToSeconds = (durationStr: string): number => {
-    if (!durationStr || typeof durationStr !== 'string') return 0;
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length !== 3 || parts.some(isNaN)) return 0;
-    const [hours, minutes, seconds] = parts;
-    return hours * 3600 + minutes * 60 + seconds;
-};
-
-const formatSecondsToHHMM = (totalSeconds: number): string => {
-    if (isNaN(totalSeconds) || totalSeconds < 0) return '00:00';
-    const totalMinutes = Math.round(Math.abs(totalSeconds) / 60);
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-};
-
-const parseDateTime = (dateStr: string, timeStr: string): Date | null => {
-    if (!dateStr || !timeStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || !/^\d{1,2}:\d{2}/.test(timeStr)) return null;
-    const d = new Date(`${dateStr}T${timeStr}:00`);
-    if (isNaN(d.getTime())) return null;
-    return d;
-};
+import { parseDurationToSeconds, formatSecondsToHHMM, parseDateTime, parseTimeSpan, minutesBetweenTimes } from '../utils/time';
 
 // --- Child Components for the new design ---
 const RadialProgress = ({ percentage, colorClass }: { percentage: number, colorClass: string }) => {
@@ -267,23 +244,6 @@ const SALES_TEAMS = [
 
 const invalidCustomerNames = new Set(['self', 'n/a', '-', '']);
 
-const calculateDurationInMinutes = (inTime: string, outTime: string): number | null => {
-    if (!inTime || !outTime || inTime.toLowerCase() === 'n/a' || outTime.toLowerCase() === 'n/a') {
-        return null;
-    }
-    const timeRegex = /^(\d{1,2}):(\d{2})/;
-    const inMatch = String(inTime).match(timeRegex);
-    const outMatch = String(outTime).match(timeRegex);
-    if (!inMatch || !outMatch) return null;
-    const inDate = new Date(0);
-    inDate.setHours(parseInt(inMatch[1], 10), parseInt(inMatch[2], 10), 0, 0);
-    const outDate = new Date(0);
-    outDate.setHours(parseInt(outMatch[1], 10), parseInt(outMatch[2], 10), 0, 0);
-    if (outDate < inDate) return null;
-    const diffMs = outDate.getTime() - inDate.getTime();
-    return Math.round(diffMs / 60000);
-};
-
 
 // --- Main Component ---
 const AnalyticsOverview: React.FC<AnalyticsOverviewProps> = ({ 
@@ -342,7 +302,7 @@ const AnalyticsOverview: React.FC<AnalyticsOverviewProps> = ({
     const sealPersonVisitSummary = useMemo(() => {
         // Engagement Metrics
         const visitsWithDuration = sealPersonVisits
-            .map(v => ({ ...v, duration: calculateDurationInMinutes(v.inTime, v.outTime) }))
+            .map(v => ({ ...v, duration: minutesBetweenTimes(v.inTime, v.outTime) }))
             .filter(v => v.duration !== null && v.duration >= 0);
         
         const totalDurationMinutes = _.sumBy(visitsWithDuration, 'duration');
@@ -451,7 +411,10 @@ const AnalyticsOverview: React.FC<AnalyticsOverviewProps> = ({
             if (!materialDateTime) return;
             const windowStart = new Date(materialDateTime.getTime() - 30 * 60 * 1000);
             const windowEnd = new Date(materialDateTime.getTime() + 30 * 60 * 1000);
-            if (employeeVisits.some(v => v.projectName === material.projectName && v.date === material.receivingDate && parseDateTime(v.date, v.entryTime)! <= windowEnd && parseDateTime(v.date, v.outTime)! >= windowStart)) {
+            if (employeeVisits.some(v => {
+                const visitSpan = v.projectName === material.projectName && v.date === material.receivingDate ? parseTimeSpan(v.date, v.entryTime, v.outTime) : null;
+                return !!visitSpan && visitSpan.start <= windowEnd && visitSpan.end >= windowStart;
+            })) {
                 matches++;
             }
         });
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuditEntry } from '../types';
+import Spinner from './Spinner';
+import FeedbackMessage from './FeedbackMessage';
+import { listAuditEntries, listAllAuditEntries, getAuditFacets, AuditFacets, AuditQuery } from '../services/auditService';
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: Omit<AuditQuery, 'page' | 'pageSize'> = { actor: '', action: '', entityType: '', q: '', from: '', to: '' };
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('en-GB', {
+    day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit',
+});
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const actorLabel = (entry: AuditEntry) => {
+    const actor = entry.actor?.name ?? 'Unknown';
+    return entry.impersonatedUser ? `${actor} (as ${entry.impersonatedUser.name})` : actor;
+};
+
+const ChangesDetail: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+    if (entry.changes && Object.keys(entry.changes).length > 0) {
+        return (
+            <table className="min-w-full text-xs">
+                <thead>
+                    <tr className="text-left text-slate-500">
+                        <th className="pr-4 py-1 font-medium">Field</th>
+                        <th className="pr-4 py-1 font-medium">Before</th>
+                        <th className="py-1 font-medium">After</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {Object.keys(entry.changes).map(field => (
+                        <tr key={field} className="align-top">
+                            <td className="pr-4 py-1 font-medium text-slate-700">{field}</td>
+                            <td className="pr-4 py-1 text-red-700 break-all">{formatValue(entry.changes![field].from)}</td>
+                            <td className="py-1 text-green-700 break-all">{formatValue(entry.changes![field].to)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        );
+    }
+    const snapshot = entry.after ?? entry.before;
+    if (snapshot) {
+        return <pre className="text-xs text-slate-600 whitespace-pre-wrap break-all">{JSON.stringify(snapshot, null, 2)}</pre>;
+    }
+    return <p className="text-xs text-slate-500">No field-level details were recorded for this action.</p>;
+};
+
+const AuditLogTab: React.FC = () => {
+    const [filters, setFilters] = useState(EMPTY_FILTERS);
+    const [page, setPage] = useState(1);
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [facets, setFacets] = useState<AuditFacets>({ actions: [], entityTypes: [], actors: [] });
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await listAuditEntries({ ...filters, page, pageSize: PAGE_SIZE });
+            setEntries(result.data);
+            setTotal(result.total);
+        } catch (err) {
+            setFeedback({ message: err instanceof Error ? err.message : 'Could not load the audit log.', type: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [filters, page]);
+
+    useEffect(() => { loadEntries(); }, [loadEntries]);
+
+    useEffect(() => {
+        getAuditFacets()
+            .then(setFacets)
+            .catch(err => console.error('Could not load audit filters:', err));
+    }, []);
+
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFilters(prev => ({ ...prev, [name]: value }));
+        setPage(1);
+    };
+
+    const handleExport = async () => {
+        if (typeof window.Papa === 'undefined') {
+            setFeedback({ message: 'CSV library is not available.', type: 'error' });
+            return;
+        }
+        setIsExporting(true);
+        try {
+            const allEntries = await listAllAuditEntries(filters);
+            const headers = ['Timestamp', 'Actor', 'Impersonating', 'Action', 'Entity Type', 'Entity ID', 'Summary', 'Changes', 'Source'];
+            const data = allEntries.map(entry => [
+                entry.occurredAt,
+                entry.actor?.name ?? '',
+                entry.impersonatedUser?.name ?? '',
+                entry.action,
+                entry.entityType,
+                entry.entityId ?? '',
+                entry.summary ?? '',
+                entry.changes ? JSON.stringify(entry.changes) : '',
+                entry.source,
+            ]);
+            const csv = window.Papa.unparse({ fields: headers, data });
+            const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+            const link = document.createElement("a");
+            const url = URL.createObjectURL(blob);
+            link.setAttribute("href", url);
+            link.setAttribute("download", "audit_log_export.csv");
+            link.style.visibility = 'hidden';
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+        } catch (err) {
+            setFeedback({ message: err instanceof Error ? err.message : 'Could not export the audit log.', type: 'error' });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+    const selectClasses = "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500";
+
+    return (
+        <div className="bg-white rounded-xl border fade-in">
+            <div className="p-6 border-b border-slate-200 space-y-4">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-slate-800">Audit Log</h3>
+                        <p className="text-sm text-slate-500">{total} entr{total === 1 ? 'y' : 'ies'} match the current filters.</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button type="button" onClick={() => { setFilters(EMPTY_FILTERS); setPage(1); }} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Reset Filters</button>
+                        <button type="button" onClick={handleExport} disabled={isExporting || total === 0} className="px-4 py-2 text-sm font-medium bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:bg-slate-400 flex items-center gap-2">
+                            {isExporting && <Spinner className="h-4" />}
+                            Export CSV
+                        </button>
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+                    <input type="text" name="q" placeholder="Search summary, user or ID..." value={filters.q} onChange={handleFilterChange} className={`${selectClasses} lg:col-span-2`} />
+                    <select name="actor" value={filters.actor} onChange={handleFilterChange} className={selectClasses} aria-label="Filter by user">
+                        <option value="">All Users</option>
+                        {facets.actors.map(actor => <option key={actor.id} value={actor.id}>{actor.name}</option>)}
+                    </select>
+                    <select name="action" value={filters.action} onChange={handleFilterChange} className={selectClasses} aria-label="Filter by action">
+                        <option value="">All Actions</option>
+                        {facets.actions.map(action => <option key={action} value={action}>{action}</option>)}
+                    </select>
+                    <select name="entityType" value={filters.entityType} onChange={handleFilterChange} className={selectClasses} aria-label="Filter by entity type">
+                        <option value="">All Entities</option>
+                        {facets.entityTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    <div className="flex gap-2">
+                        <input type="date" name="from" value={filters.from} onChange={handleFilterChange} className={selectClasses} aria-label="From date" />
+                        <input type="date" name="to" value={filters.to} onChange={handleFilterChange} className={selectClasses} aria-label="To date" />
+                    </div>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50">
+                        <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">When</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">User</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Action</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Entity</th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Summary</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-200">
+                        {isLoading ? (
+                            <tr><td colSpan={5} className="py-10"><div className="flex justify-center"><Spinner className="h-10" /></div></td></tr>
+                        ) : entries.length === 0 ? (
+                            <tr><td colSpan={5} className="px-4 py-10 text-center text-sm text-slate-500">No audit entries found.</td></tr>
+                        ) : entries.map(entry => (
+                            <React.Fragment key={entry.id}>
+                                <tr onClick={() => setExpandedId(prev => prev === entry.id ? null : entry.id)} className="hover:bg-slate-50 cursor-pointer">
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{formatTimestamp(entry.occurredAt)}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900">
+                                        {actorLabel(entry)}
+                                        {entry.impersonatedUser && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">Switched</span>}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-slate-700">{entry.action}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{entry.entityType}{entry.entityId ? ` #${entry.entityId}` : ''}</td>
+                                    <td className="px-4 py-3 text-sm text-slate-500">{entry.summary}</td>
+                                </tr>
+                                {expandedId === entry.id && (
+                                    <tr className="bg-slate-50">
+                                        <td colSpan={5} className="px-6 py-4"><ChangesDetail entry={entry} /></td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="p-4 border-t border-slate-200 flex justify-between items-center text-sm text-slate-600">
+                <span>Page {page} of {pageCount}</span>
+                <div className="flex gap-2">
+                    <button type="button" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || isLoading} className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">Previous</button>
+                    <button type="button" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount || isLoading} className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">Next</button>
+                </div>
+            </div>
+            {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
+        </div>
+    );
+};
+
+export default AuditLogTab;
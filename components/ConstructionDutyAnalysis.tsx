@@ -1,8 +1,14 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { EmployeeVisit, ConstructionDutyAnalysisTab } from '../types';
+import { EmployeeVisit, ConstructionDutyAnalysisTab, Project } from '../types';
+import { ScopeFilter } from '../utils/dataScope';
+import { ProjectAlias } from '../hooks/useProjectReconciliation';
+import ImportWizard from './ImportWizard';
+import { ImportField } from '../utils/importRows';
+import { EMPLOYEE_VISIT_IMPORT_FIELDS, EmployeeVisitImportKey } from '../utils/importFields';
 import FeedbackMessage from './FeedbackMessage';
 import _ from 'lodash';
 import Spinner from './Spinner';
+import { parseDateTime, parseTimeSpan, formatDateDDMMMYYYY } from '../utils/time';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -20,6 +26,18 @@ const MATERIAL_REQUIRED_HEADERS = [
     'Project Name', 'MRF NO', 'Supplier Name', 'Material Name', 'Quantity', 'Unit', 'Receiving Date', 'Receiving Time'
 ];
 
+// Material rows are kept under their column headers, which the analysis and the table read directly.
+const MATERIAL_IMPORT_FIELDS: ImportField[] = [
+    { key: 'Project Name', label: 'Project Name', required: true, kind: 'project', aliases: ['Project'] },
+    { key: 'MRF NO', label: 'MRF NO', required: true, aliases: ['MRF'] },
+    { key: 'Supplier Name', label: 'Supplier Name' },
+    { key: 'Material Name', label: 'Material Name', required: true },
+    { key: 'Quantity', label: 'Quantity', kind: 'number' },
+    { key: 'Unit', label: 'Unit' },
+    { key: 'Receiving Date', label: 'Receiving Date', required: true, kind: 'date' },
+    { key: 'Receiving Time', label: 'Receiving Time', required: true, kind: 'time' },
+];
+
 interface AnalysisResult extends Record<string, any> {
     id: number;
     analysisStatus: 'Visit Found' | 'No Visit in Window' | 'Invalid Material Time';
@@ -27,103 +45,16 @@ interface AnalysisResult extends Record<string, any> {
 }
 
 
-/**
- * Parses a date string from various common formats and returns it in YYYY-MM-DD format.
- */
-const parseAndFormatDate = (dateString: string): string => {
-  if (!dateString || typeof dateString !== 'string') return '';
-  
-  const excelDateMatch = dateString.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2})$/);
-  if (excelDateMatch) {
-    const day = excelDateMatch[1];
-    const monthStr = excelDateMatch[2];
-    const year = `20${excelDateMatch[3]}`;
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const monthIndex = monthNames.findIndex(m => m.toLowerCase() === monthStr.toLowerCase());
-    if (monthIndex > -1) {
-        const d = new Date(parseInt(year, 10), monthIndex, parseInt(day, 10));
-        if (!isNaN(d.getTime())) {
-            const y = d.getFullYear();
-            const m = String(d.getMonth() + 1).padStart(2, '0');
-            const dayOfMonth = String(d.getDate()).padStart(2, '0');
-            return `${y}-${m}-${dayOfMonth}`;
-        }
-    }
-  }
-
-  const date = new Date(dateString.trim());
-
-  if (isNaN(date.getTime())) {
-    const parts = dateString.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
-    if (parts) {
-      const day = parseInt(parts[1], 10);
-      const month = parseInt(parts[2], 10) - 1;
-      const year = parseInt(parts[3], 10);
-      const dmyDate = new Date(year, month, day);
-      if (!isNaN(dmyDate.getTime()) && dmyDate.getDate() === day && dmyDate.getMonth() === month && dmyDate.getFullYear() === year) {
-          const y = dmyDate.getFullYear();
-          const m = String(dmyDate.getMonth() + 1).padStart(2, '0');
-          const d = String(dmyDate.getDate()).padStart(2, '0');
-          return `${y}-${m}-${d}`;
-      }
-    }
-    console.warn(`Could not parse date: "${dateString}"`);
-    return '';
-  }
-
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  
-  return `${year}-${month}-${day}`;
-};
-
-/**
- * Parses a date and time string into a Date object.
- * @param dateStr The date string in YYYY-MM-DD format.
- * @param timeStr The time string in HH:MM format.
- * @returns A Date object or null if parsing fails.
- */
-const parseDateTime = (dateStr: string, timeStr: string): Date | null => {
-    if (!dateStr || !timeStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || !/^\d{1,2}:\d{2}/.test(timeStr)) return null;
-    const d = new Date(`${dateStr}T${timeStr}:00`);
-    if (isNaN(d.getTime())) return null;
-    return d;
-};
-
-/**
- * Consistently formats a Date object or a date string into DD-MMM-YYYY format using UTC.
- * @param date The date to format.
- * @returns The formatted date string.
- */
-const formatDateDDMMMYYYY = (date: Date | string | null): string => {
-    if (!date) return '';
-    try {
-        // If the input is a string that looks like YYYY-MM-DD, treat it as UTC.
-        if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
-            date = `${date}T00:00:00Z`;
-        }
-        const d = new Date(date);
-        
-        if (isNaN(d.getTime())) return String(date);
-
-        const day = String(d.getUTCDate()).padStart(2, '0');
-        const month = d.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
-        const year = d.getUTCFullYear();
-
-        return `${day}-${month}-${year}`;
-    } catch (e) {
-        return String(date); // Fallback
-    }
-};
-
 interface ConstructionDutyAnalysisProps {
+    scopeFilter: ScopeFilter;
+    projects: Project[];
+    onAddProjectAliases?: (aliases: ProjectAlias[]) => void;
     activeTab: ConstructionDutyAnalysisTab;
     onTabChange: (tab: ConstructionDutyAnalysisTab) => void;
 }
 
 
-const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ activeTab }) => {
+const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ scopeFilter, projects, onAddProjectAliases, activeTab }) => {
     const [visits, setVisits] = useState<EmployeeVisit[]>([]);
     const [materialData, setMaterialData] = useState<any[]>([]);
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
@@ -136,6 +67,8 @@ const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ act
     const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
     const [analysisSearchQuery, setAnalysisSearchQuery] = useState('');
     const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [visitImportFile, setVisitImportFile] = useState<File | null>(null);
+    const [materialImportFile, setMaterialImportFile] = useState<File | null>(null);
 
 
     const filteredVisits = useMemo(() => {
@@ -199,105 +132,21 @@ const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ act
         });
     }, [analysisResults, analysisSearchQuery]);
 
-    const handleVisitFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        if (typeof window.Papa === 'undefined') {
-            setFeedback({ message: "CSV parsing library is not available.", type: 'error' });
-            return;
-        }
-
-        window.Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results: any) => {
-                const headers = results.meta.fields;
-                const isValid = headers && VISIT_REQUIRED_HEADERS.length === headers.length && VISIT_REQUIRED_HEADERS.every((h, i) => headers[i]?.trim() === h);
-
-                if (!isValid) {
-                    setFeedback({ message: "CSV header mismatch. Please use the exact format from the employee visit template.", type: 'error' });
-                    if (event.target) event.target.value = '';
-                    return;
-                }
-
-                const constructionVisits: EmployeeVisit[] = [];
-                let hasError = false;
-
-                results.data.forEach((row: any, index: number) => {
-                    if (hasError) return;
-
-                    if (row['Department']?.trim() !== 'Construction') {
-                        return;
-                    }
-
-                    const requiredDataFields = ['Date', 'Visitor Name', 'Department', 'Designation', 'Visited Project Name', 'Entry Time', 'Out Time', 'Duration'];
-                    for (const field of requiredDataFields) {
-                        if (!row[field]) {
-                            setFeedback({ message: `Missing required data for "${field}" in row ${index + 2}.`, type: 'error' });
-                            hasError = true;
-                            return;
-                        }
-                    }
-
-                    const formattedDate = parseAndFormatDate(row.Date);
-                    if (!formattedDate) {
-                        setFeedback({ message: `Invalid date format in row ${index + 2}: "${row.Date}".`, type: 'error' });
-                        hasError = true;
-                        return;
-                    }
-
-                    constructionVisits.push({
-                        id: Date.now() + index,
-                        date: formattedDate,
-                        visitorName: row['Visitor Name'],
-                        department: row['Department'],
-                        designation: row['Designation'],
-                        projectName: row['Visited Project Name'],
-                        entryTime: row['Entry Time'],
-                        outTime: row['Out Time'],
-                        duration: row['Duration'],
-                        remarks: row['Formula'] || '',
-                    });
-                });
-
-                if (!hasError) {
-                    setVisits(prev => _.orderBy([...prev, ...constructionVisits], ['date'], ['desc']));
-                    setFeedback({ message: `Successfully imported ${constructionVisits.length} records for the Construction department.`, type: 'success' });
-                }
-            },
-            error: (error: any) => {
-                setFeedback({ message: `CSV parsing error: ${error.message}`, type: 'error' });
-            }
-        });
-
-        if (event.target) event.target.value = '';
+    const handleImportVisits = (rows: Record<EmployeeVisitImportKey, string>[]) => {
+        // Only construction visits in the user's data scope are analysed.
+        const constructionVisits: EmployeeVisit[] = rows
+            .filter(row => row.department === 'Construction' && scopeFilter.allowsDepartment(row.department) && scopeFilter.allowsProject(row.projectName))
+            .map((row, index) => ({ ...row, id: Date.now() + index }));
+        setVisits(prev => _.orderBy([...prev, ...constructionVisits], ['date'], ['desc']));
+        setFeedback({ message: `Successfully imported ${constructionVisits.length} records for the Construction department.`, type: 'success' });
     };
 
-    const handleMaterialFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        window.Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results: any) => {
-                 const headers = results.meta.fields;
-                if (!MATERIAL_REQUIRED_HEADERS.every(h => headers.includes(h))) {
-                    setFeedback({ message: 'Material CSV is missing required headers. Please use the material template.', type: 'error' });
-                    if (event.target) event.target.value = '';
-                    return;
-                }
-                const newMaterialData = results.data.map((row: any, index: number) => ({ id: Date.now() + index, ...row}));
-                setMaterialData(prev => [...prev, ...newMaterialData]);
-                setFeedback({ message: `Successfully imported ${newMaterialData.length} material records.`, type: 'success' });
-            },
-            error: (error: any) => {
-                setFeedback({ message: `CSV parsing error: ${error.message}`, type: 'error' });
-            }
-        });
-
-        if (event.target) event.target.value = '';
+    const handleImportMaterials = (rows: Record<string, string>[]) => {
+        const newMaterialData = rows
+            .filter(row => scopeFilter.allowsProject(row['Project Name']))
+            .map((row, index) => ({ id: Date.now() + index, ...row }));
+        setMaterialData(prev => [...prev, ...newMaterialData]);
+        setFeedback({ message: `Successfully imported ${newMaterialData.length} material records.`, type: 'success' });
     };
 
     const handleRunAnalysis = async () => {
@@ -336,12 +185,11 @@ const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ act
                     return false;
                 }
 
-                const visitStart = parseDateTime(visit.date, visit.entryTime);
-                const visitEnd = parseDateTime(visit.date, visit.outTime);
+                const visitSpan = parseTimeSpan(visit.date, visit.entryTime, visit.outTime);
 
-                if (!visitStart || !visitEnd) return false;
+                if (!visitSpan) return false;
 
-                return visitStart <= analysisWindowEnd && visitEnd >= analysisWindowStart;
+                return visitSpan.start <= analysisWindowEnd && visitSpan.end >= analysisWindowStart;
             });
 
             return {
@@ -404,6 +252,24 @@ const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ act
     
     return (
         <>
+            <ImportWizard
+                file={visitImportFile}
+                title="Import Visits"
+                fields={EMPLOYEE_VISIT_IMPORT_FIELDS}
+                projects={projects}
+                onAddProjectAliases={onAddProjectAliases}
+                onImport={handleImportVisits}
+                onClose={() => setVisitImportFile(null)}
+            />
+            <ImportWizard
+                file={materialImportFile}
+                title="Import Materials"
+                fields={MATERIAL_IMPORT_FIELDS}
+                projects={projects}
+                onAddProjectAliases={onAddProjectAliases}
+                onImport={handleImportMaterials}
+                onClose={() => setMaterialImportFile(null)}
+            />
             <div className="px-4 sm:px-6 lg:px-8 pb-4 sm:pb-6 lg:pb-8">
                 <div className="bg-gradient-to-r from-white via-orange-50 to-amber-50 rounded-b-xl shadow-lg px-px pb-px">
                     <div className="bg-white rounded-b-xl">
@@ -424,7 +290,7 @@ const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ act
                                             <label htmlFor="visit-csv-upload" className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 border border-orange-500 text-sm font-medium rounded-md shadow-sm text-orange-600 bg-white hover:bg-orange-50">
                                                 Import Visits
                                             </label>
-                                            <input id="visit-csv-upload" type="file" ref={visitFileInputRef} onChange={handleVisitFileUpload} className="sr-only" accept=".csv" />
+                                            <input id="visit-csv-upload" type="file" ref={visitFileInputRef} onChange={e => { setVisitImportFile(e.target.files?.[0] ?? null); e.target.value = ''; }} className="sr-only" accept=".csv,.xlsx,.xls" />
                                             <button onClick={handleVisitTemplateDownload} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
                                                 Template
                                             </button>
@@ -518,7 +384,7 @@ const ConstructionDutyAnalysis: React.FC<ConstructionDutyAnalysisProps> = ({ act
                                             <label htmlFor="material-csv-upload" className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 border border-orange-500 text-sm font-medium rounded-md shadow-sm text-orange-600 bg-white hover:bg-orange-50">
                                                 Import Materials
                                             </label>
-                                            <input id="material-csv-upload" type="file" ref={materialFileInputRef} onChange={handleMaterialFileUpload} className="sr-only" accept=".csv" />
+                                            <input id="material-csv-upload" type="file" ref={materialFileInputRef} onChange={e => { setMaterialImportFile(e.target.files?.[0] ?? null); e.target.value = ''; }} className="sr-only" accept=".csv,.xlsx,.xls" />
                                             <button onClick={handleMaterialTemplateDownload} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
                                                 Template
                                             </button>
@@ -0,0 +1,56 @@
+import React from 'react';
+import { DataScope, Project } from '../types';
+import { ZONES, DEPARTMENTS } from '../constants';
+
+interface DataScopeEditorProps {
+    scope: DataScope;
+    onChange: (scope: DataScope) => void;
+    projects: Project[];
+}
+
+const ScopeList: React.FC<{ title: string; options: string[]; selected: string[]; onChange: (selected: string[]) => void }> = ({ title, options, selected, onChange }) => {
+    const toggle = (option: string) => onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+    return (
+        <fieldset className="border rounded-md">
+            <legend className="px-2 text-xs font-medium text-slate-500 uppercase tracking-wider">
+                {title} <span className="normal-case font-normal">({selected.length === 0 ? 'all' : `${selected.length} selected`})</span>
+            </legend>
+            <div className="max-h-40 overflow-y-auto p-2 space-y-1">
+                {options.map(option => (
+                    <label key={option} className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={selected.includes(option)} onChange={() => toggle(option)} className="h-4 w-4 text-orange-600 border-slate-300 rounded focus:ring-orange-500" />
+                        {option}
+                    </label>
+                ))}
+                {options.length === 0 && <p className="text-sm text-slate-400">Nothing to choose from.</p>}
+            </div>
+        </fieldset>
+    );
+};
+
+const DataScopeEditor: React.FC<DataScopeEditorProps> = ({ scope, onChange, projects }) => {
+    // Only offer projects in the selected zones, since projects elsewhere would stay hidden anyway.
+    const projectOptions = projects
+        .filter(p => scope.zones.length === 0 || scope.zones.includes(p.zone))
+        .map(p => p.name)
+        .sort((a, b) => a.localeCompare(b));
+
+    const handleZonesChange = (zones: string[]) => {
+        const zoneByProject = new Map<string, string>(projects.map(p => [p.name, p.zone]));
+        const stillVisible = (name: string) => zones.length === 0 || zones.includes(zoneByProject.get(name) ?? '');
+        onChange({ ...scope, zones, projects: scope.projects.filter(stillVisible) });
+    };
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm text-slate-500">Leave a list empty to allow all. The user only sees records, analyses and exports within the selected zones, projects and departments.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <ScopeList title="Zones" options={ZONES} selected={scope.zones} onChange={handleZonesChange} />
+                <ScopeList title="Projects" options={projectOptions} selected={scope.projects} onChange={projects => onChange({ ...scope, projects })} />
+                <ScopeList title="Departments" options={DEPARTMENTS} selected={scope.departments} onChange={departments => onChange({ ...scope, departments })} />
+            </div>
+        </div>
+    );
+};
+
+export default DataScopeEditor;
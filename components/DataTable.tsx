@@ -0,0 +1,316 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import _ from 'lodash';
+import { useTableLayout, SortDirection } from '../hooks/useTableLayout';
+
+export interface DataTableColumn<T> {
+    key: string;
+    header: string;
+    render: (row: T, index: number) => React.ReactNode;
+    /** The value the column sorts by. Columns without one can't be sorted. */
+    sortValue?: (row: T) => string | number;
+    /** Hover text for the cell, since long values are cut off. Defaults to the sort value. */
+    title?: (row: T) => string;
+    /** Default width in pixels. */
+    width?: number;
+    align?: 'left' | 'right';
+    cellClassName?: string;
+    defaultHidden?: boolean;
+}
+
+export interface DataTableBulkAction<T> {
+    label: string;
+    onClick: (rows: T[]) => void;
+    variant?: 'default' | 'danger';
+}
+
+interface DataTableProps<T> {
+    /** Names the table in localStorage, where its column layout is kept. */
+    tableId: string;
+    columns: DataTableColumn<T>[];
+    rows: T[];
+    getRowId: (row: T) => string | number;
+    emptyMessage: React.ReactNode;
+    /** Actions on the selected rows. Rows can only be selected when the table has some. */
+    bulkActions?: DataTableBulkAction<T>[];
+    defaultSort?: { key: string; direction: SortDirection };
+    /** Extra classes for a row, e.g. to highlight rows that need attention. */
+    getRowClassName?: (row: T) => string;
+    /** Makes rows clickable, e.g. to open the record. */
+    onRowClick?: (row: T) => void;
+    /** Every row is drawn at this height, which is what lets the table render only the rows in view. */
+    rowHeight?: number;
+    maxHeight?: string;
+    className?: string;
+}
+
+const DEFAULT_COLUMN_WIDTH = 150;
+const MIN_COLUMN_WIDTH = 60;
+const SELECT_COLUMN_WIDTH = 44;
+// Rows drawn above and below the visible ones, so fast scrolling doesn't show blank space.
+const OVERSCAN_ROWS = 10;
+
+const thClass = "relative px-4 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider select-none";
+const checkboxClass = "h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500";
+
+/**
+ * A table for record lists that can run to tens of thousands of rows. Columns can be sorted, resized and
+ * hidden, and the layout is remembered per table. The header stays in place while the body scrolls, and
+ * only the rows in view are rendered. With bulk actions, rows get checkboxes and the actions apply to the
+ * selected rows.
+ */
+const DataTable = <T,>({
+    tableId,
+    columns,
+    rows,
+    getRowId,
+    emptyMessage,
+    bulkActions = [],
+    defaultSort,
+    getRowClassName,
+    onRowClick,
+    rowHeight = 48,
+    maxHeight = '60vh',
+    className = '',
+}: DataTableProps<T>) => {
+    const [layout, setLayout, resetLayout] = useTableLayout(tableId, {
+        widths: {},
+        hidden: columns.filter(c => c.defaultHidden).map(c => c.key),
+        sort: defaultSort ?? null,
+    });
+    const [selectedIds, setSelectedIds] = useState<Set<string | number>>(new Set());
+    const [isColumnMenuOpen, setIsColumnMenuOpen] = useState(false);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const columnMenuRef = useRef<HTMLDivElement>(null);
+
+    const isSelectable = bulkActions.length > 0;
+    const visibleColumns = columns.filter(c => !layout.hidden.includes(c.key));
+    const widthOf = (column: DataTableColumn<T>) => layout.widths[column.key] ?? column.width ?? DEFAULT_COLUMN_WIDTH;
+    const tableWidth = _.sumBy(visibleColumns, widthOf) + (isSelectable ? SELECT_COLUMN_WIDTH : 0);
+
+    const sortedRows = useMemo(() => {
+        const sortColumn = layout.sort && columns.find(c => c.key === layout.sort!.key);
+        if (!sortColumn?.sortValue) return rows;
+        return _.orderBy(rows, [sortColumn.sortValue], [layout.sort!.direction]);
+    }, [rows, columns, layout.sort]);
+
+    // Rows that leave the list (filtered out or deleted) drop out of the selection.
+    const selectedRows = useMemo(() => sortedRows.filter(row => selectedIds.has(getRowId(row))), [sortedRows, selectedIds, getRowId]);
+    const allSelected = sortedRows.length > 0 && selectedRows.length === sortedRows.length;
+
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (columnMenuRef.current && !columnMenuRef.current.contains(event.target as Node)) {
+                setIsColumnMenuOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+    const lastRow = Math.min(sortedRows.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN_ROWS);
+    const rowsInView = sortedRows.slice(firstRow, lastRow);
+
+    const handleSort = (column: DataTableColumn<T>) => {
+        if (!column.sortValue) return;
+        // Ascending, then descending, then back to the order the rows came in.
+        setLayout(prev => {
+            if (prev.sort?.key !== column.key) return { ...prev, sort: { key: column.key, direction: 'asc' } };
+            if (prev.sort.direction === 'asc') return { ...prev, sort: { key: column.key, direction: 'desc' } };
+            return { ...prev, sort: null };
+        });
+    };
+
+    const handleResizeStart = (e: React.MouseEvent, column: DataTableColumn<T>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const startX = e.clientX;
+        const startWidth = widthOf(column);
+        const handleMouseMove = (moveEvent: MouseEvent) => {
+            const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX);
+            setLayout(prev => ({ ...prev, widths: { ...prev.widths, [column.key]: width } }));
+        };
+        const handleMouseUp = () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    const handleToggleColumn = (key: string) => {
+        setLayout(prev => ({
+            ...prev,
+            hidden: prev.hidden.includes(key) ? prev.hidden.filter(k => k !== key) : [...prev.hidden, key],
+        }));
+    };
+
+    const handleToggleRow = (row: T) => {
+        const id = getRowId(row);
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleToggleAll = () => {
+        setSelectedIds(allSelected ? new Set() : new Set(sortedRows.map(getRowId)));
+    };
+
+    const cellTitle = (column: DataTableColumn<T>, row: T) => {
+        if (column.title) return column.title(row);
+        return column.sortValue ? String(column.sortValue(row)) : undefined;
+    };
+
+    const colSpan = visibleColumns.length + (isSelectable ? 1 : 0);
+
+    return (
+        <div className={className}>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-2 min-h-[2.25rem]">
+                <div className="flex flex-wrap items-center gap-2">
+                    {selectedRows.length > 0 && (
+                        <>
+                            <span className="text-sm font-medium text-slate-700">{selectedRows.length} selected</span>
+                            {bulkActions.map(action => (
+                                <button
+                                    key={action.label}
+                                    type="button"
+                                    onClick={() => action.onClick(selectedRows)}
+                                    className={action.variant === 'danger'
+                                        ? "px-3 py-1.5 text-sm font-medium border border-red-300 rounded-md text-red-700 bg-red-50 hover:bg-red-100"
+                                        : "px-3 py-1.5 text-sm font-medium border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50"}
+                                >
+                                    {action.label}
+                                </button>
+                            ))}
+                            <button type="button" onClick={() => setSelectedIds(new Set())} className="text-sm text-slate-500 hover:text-slate-700">Clear selection</button>
+                        </>
+                    )}
+                </div>
+                <div ref={columnMenuRef} className="relative">
+                    <button type="button" onClick={() => setIsColumnMenuOpen(open => !open)} className="px-3 py-1.5 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50" aria-expanded={isColumnMenuOpen}>
+                        Columns
+                    </button>
+                    {isColumnMenuOpen && (
+                        <div className="absolute right-0 z-20 mt-1 w-56 bg-white border border-slate-200 rounded-md shadow-lg p-2">
+                            <div className="max-h-64 overflow-y-auto">
+                                {columns.map(column => (
+                                    <label key={column.key} className="flex items-center gap-2 px-2 py-1 text-sm text-slate-700 rounded hover:bg-slate-50">
+                                        <input
+                                            type="checkbox"
+                                            checked={!layout.hidden.includes(column.key)}
+                                            disabled={visibleColumns.length === 1 && !layout.hidden.includes(column.key)}
+                                            onChange={() => handleToggleColumn(column.key)}
+                                            className={checkboxClass}
+                                        />
+                                        {column.header}
+                                    </label>
+                                ))}
+                            </div>
+                            <button type="button" onClick={resetLayout} className="w-full mt-2 pt-2 border-t border-slate-200 text-sm text-orange-600 text-left px-2">Reset columns</button>
+                        </div>
+                    )}
+                </div>
+            </div>
+            <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="overflow-auto border border-slate-200 rounded-lg" style={{ maxHeight }}>
+                {sortedRows.length > 0 ? (
+                    <table className="table-fixed divide-y divide-slate-200" style={{ width: tableWidth, minWidth: '100%' }}>
+                        <colgroup>
+                            {isSelectable && <col style={{ width: SELECT_COLUMN_WIDTH }} />}
+                            {visibleColumns.map(column => <col key={column.key} style={{ width: widthOf(column) }} />)}
+                        </colgroup>
+                        <thead className="bg-slate-50 sticky top-0 z-10">
+                            <tr>
+                                {isSelectable && (
+                                    <th className="px-4 py-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={allSelected}
+                                            ref={el => { if (el) el.indeterminate = selectedRows.length > 0 && !allSelected; }}
+                                            onChange={handleToggleAll}
+                                            className={checkboxClass}
+                                            aria-label="Select all rows"
+                                        />
+                                    </th>
+                                )}
+                                {visibleColumns.map(column => {
+                                    const direction = layout.sort?.key === column.key ? layout.sort.direction : null;
+                                    return (
+                                        <th
+                                            key={column.key}
+                                            scope="col"
+                                            className={`${thClass} ${column.align === 'right' ? 'text-right' : 'text-left'}`}
+                                            aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
+                                        >
+                                            {column.sortValue ? (
+                                                <button type="button" onClick={() => handleSort(column)} className="inline-flex items-center gap-1 max-w-full uppercase tracking-wider hover:text-slate-700">
+                                                    <span className="truncate">{column.header}</span>
+                                                    <span className="text-orange-600">{direction === 'asc' ? '▲' : direction === 'desc' ? '▼' : ''}</span>
+                                                </button>
+                                            ) : (
+                                                <span className="block truncate">{column.header}</span>
+                                            )}
+                                            <span
+                                                onMouseDown={e => handleResizeStart(e, column)}
+                                                className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-orange-300"
+                                                aria-hidden="true"
+                                            />
+                                        </th>
+                                    );
+                                })}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {firstRow > 0 && <tr aria-hidden="true"><td colSpan={colSpan} style={{ height: firstRow * rowHeight, padding: 0 }} /></tr>}
+                            {rowsInView.map((row, i) => {
+                                const id = getRowId(row);
+                                const isSelected = selectedIds.has(id);
+                                const rowClassName = getRowClassName?.(row) || 'hover:bg-slate-50';
+                                return (
+                                    <tr
+                                        key={id}
+                                        style={{ height: rowHeight }}
+                                        onClick={onRowClick && (() => onRowClick(row))}
+                                        className={`${isSelected ? 'bg-orange-50' : rowClassName} ${onRowClick ? 'cursor-pointer' : ''}`}
+                                    >
+                                        {isSelectable && (
+                                            <td className="px-4" onClick={e => e.stopPropagation()}>
+                                                <input type="checkbox" checked={isSelected} onChange={() => handleToggleRow(row)} className={checkboxClass} aria-label="Select row" />
+                                            </td>
+                                        )}
+                                        {visibleColumns.map(column => (
+                                            <td
+                                                key={column.key}
+                                                title={cellTitle(column, row)}
+                                                className={`px-4 whitespace-nowrap overflow-hidden text-ellipsis text-sm ${column.align === 'right' ? 'text-right' : ''} ${column.cellClassName ?? 'text-slate-500'}`}
+                                            >
+                                                {column.render(row, firstRow + i)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                );
+                            })}
+                            {lastRow < sortedRows.length && <tr aria-hidden="true"><td colSpan={colSpan} style={{ height: (sortedRows.length - lastRow) * rowHeight, padding: 0 }} /></tr>}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="p-6 text-center text-slate-500">{emptyMessage}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DataTable;
@@ -2,13 +2,20 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { EmployeeVisit, User } from '../types';
+import { EmployeeVisit, User, DutyPolicy, DutySummaryRow, DutyDepartmentAnalysis } from '../types';
 import _ from 'lodash';
 import FeedbackMessage from './FeedbackMessage';
 import ChangeIcon from './ChangeIcon';
 import { useLoading } from '../contexts/LoadingContext';
 import Spinner from './Spinner';
-import { generateImprovementAnalysis } from '../services/geminiService';
+import { generateImprovementAnalysis } from '../services/aiService';
+import { useAiStatus } from '../hooks/useAiStatus';
+import AiStatusNotice from './AiStatusNotice';
+import { parseDurationToSeconds, formatSecondsToHHMM, monthRange } from '../utils/time';
+import { getSupposedlyDurations, policyDateForMonth } from '../utils/dutyPolicy';
+import { WorkCalendar } from '../utils/workCalendar';
+import { buildDutySummary, buildDutyAnalysis } from '../shared/reports.js';
+import { drawDutyAnalysisPdf } from '../shared/reportPdfs.js';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -19,93 +26,17 @@ declare global {
     }
 }
 
-// --- Helper Functions copied from AllDepartmentSummary ---
-const PROJECT_SIDE_INVENTORY_DESIGNATIONS = new Set([
-    'Assistant Project Accountant (CH)',
-    'Site Accountant (CH)',
-]);
-
-const EXEMPT_DEPARTMENTS = new Set([
-  'Internal Audit',
-  'Brand Management',
-  'Planning & Design (Architectural)',
-  'Electro-Mechanical',
-  'Information Technology (IT)',
-  'Management Information System (MIS)',
-  'Material Quality Assurance & Purchase',
-]);
-
-interface SupposedlyDurations {
-    durationForDisplaySec: number;
-    durationForCalcSec: number;
-}
-
-const getSupposedlyDurations = (department: string, designation: string): SupposedlyDurations => {
-    const isExempt = EXEMPT_DEPARTMENTS.has(department);
-    if (isExempt) {
-        return { durationForDisplaySec: 0, durationForCalcSec: 4 * 3600 };
-    }
-    if (department === 'Inventory Mgt.' && PROJECT_SIDE_INVENTORY_DESIGNATIONS.has(designation)) {
-        return { durationForDisplaySec: 4 * 3600, durationForCalcSec: 4 * 3600 };
-    }
-    if (department === 'Inventory Mgt. (Project Side)' && PROJECT_SIDE_INVENTORY_DESIGNATIONS.has(designation)) {
-        return { durationForDisplaySec: 6 * 3600, durationForCalcSec: 6 * 3600 };
-    }
-    if (department === 'HR & Admin (Security)' || department === 'HR & Admin (Security)') {
-        return { durationForDisplaySec: 7 * 3600, durationForCalcSec: 7 * 3600 };
-    }
-    return { durationForDisplaySec: 4 * 3600, durationForCalcSec: 4 * 3600 };
-};
-
-const parseDurationToSeconds = (durationStr: string): number => {
-    if (!durationStr || typeof durationStr !== 'string') return 0;
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length !== 3 || parts.some(isNaN)) return 0;
-    const [hours, minutes, seconds] = parts;
-    return hours * 3600 + minutes * 60 + seconds;
-};
-
-const formatSecondsToHHMM = (totalSeconds: number): string => {
-    if (isNaN(totalSeconds) || totalSeconds < 0) return '00:00';
-    const totalMinutes = Math.round(Math.abs(totalSeconds) / 60);
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-};
-
 // --- Interfaces ---
-interface SummaryDataRow {
-    department: string;
-    visitorName: string;
-    designation: string;
-    totalWorkingDay: number;
-    currentMonthActualDurationSec: number;
-    lastMonthActualDurationSec: number;
-    currentMonthDurationPercentage: number;
-    lastMonthDurationPercentage: number;
-    currentStability: number;
-}
-
-interface PerformerData {
-    name: string;
-    visitCount: number;
-    projectCount: number;
-    duration: string;
-}
-
-interface AnalysisResultRow {
-    department: string;
-    employeeCount: number;
-    totalVisits: number;
-    averageStability: number;
+// A department's analysis, with the observation remark added on screen.
+interface AnalysisResultRow extends DutyDepartmentAnalysis {
     remark: string;
-    topPerformer: PerformerData | null;
-    lowestPerformer: PerformerData | null;
 }
 
 interface DutyAnalysisProps {
     visits: EmployeeVisit[];
     currentUser: User;
+    dutyPolicies: DutyPolicy[];
+    workCalendar: WorkCalendar;
     analysisMode?: 'single-month-comparison' | 'multi-month';
 }
 
@@ -471,7 +402,7 @@ const FullPagePerformanceBreakdownModal: React.FC<{
 };
 
 
-const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analysisMode = 'single-month-comparison' }) => {
+const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, dutyPolicies, workCalendar, analysisMode = 'single-month-comparison' }) => {
     const today = new Date();
     const latestMonthFromData = useMemo(() => {
         if (visits.length > 0) {
@@ -485,8 +416,9 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
     }, [visits]);
     
     const [selectedMonth, setSelectedMonth] = useState(latestMonthFromData);
-    const [defaultCurrentWorkingDays, setDefaultCurrentWorkingDays] = useState('25');
-    const [defaultLastWorkingDays, setDefaultLastWorkingDays] = useState('26');
+    // Left empty, each employee's working days come from the company calendar.
+    const [defaultCurrentWorkingDays, setDefaultCurrentWorkingDays] = useState('');
+    const [defaultLastWorkingDays, setDefaultLastWorkingDays] = useState('');
     const [analysisData, setAnalysisData] = useState<AnalysisResultRow[] | null>(null);
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
     const { isLoading, showLoading, hideLoading } = useLoading();
@@ -495,6 +427,7 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
     const [isImprovementModalOpen, setIsImprovementModalOpen] = useState(false);
     const [improvementAnalysis, setImprovementAnalysis] = useState<Record<string, string> | null>(null);
     const [isAnalyzingImprovements, setIsAnalyzingImprovements] = useState(false);
+    const aiStatus = useAiStatus();
 
     // Unified state for breakdown modals
     const [isFullPageBreakdownOpen, setIsFullPageBreakdownOpen] = useState(false);
@@ -523,67 +456,18 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
     }, [startMonth, endMonth, analysisMode]);
 
 
-    const summaryData = useMemo<SummaryDataRow[]>(() => {
-        const [year, month] = selectedMonth.split('-').map(Number);
-        let lastMonthYear = year;
-        let lastMonth = month - 1;
-        if (lastMonth === 0) {
-            lastMonth = 12;
-            lastMonthYear = year - 1;
-        }
-
-        const currentVisits = visits.filter(v => {
-            if (!v.date || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) return false;
-            const [visitYear, visitMonth] = v.date.split('-').map(Number);
-            return visitYear === year && visitMonth === month;
-        });
-
-        const lastMonthVisits = visits.filter(v => {
-            if (!v.date || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) return false;
-            const [visitYear, visitMonth] = v.date.split('-').map(Number);
-            return visitYear === lastMonthYear && visitMonth === lastMonth;
-        });
-        
-        const employeeNamesWithVisits = _.uniq([
-            ...currentVisits.map(v => v.visitorName),
-            ...lastMonthVisits.map(v => v.visitorName)
-        ]);
-        
-        return employeeNamesWithVisits.map(name => {
-            const allVisitsForEmployee = visits.filter(v => v.visitorName === name);
-            const firstVisit = allVisitsForEmployee[0];
-            const { department, designation } = firstVisit;
-
-            const { durationForCalcSec } = getSupposedlyDurations(department, designation);
-            const wd = parseInt(defaultCurrentWorkingDays, 10) || 0;
-            const lastWd = parseInt(defaultLastWorkingDays, 10) || 0;
-
-            const employeeCurrentVisits = currentVisits.filter(v => v.visitorName === name);
-            const employeeLastMonthVisits = lastMonthVisits.filter(v => v.visitorName === name);
-
-            const currentActualSec = _.sumBy(employeeCurrentVisits, v => parseDurationToSeconds(v.duration));
-            const lastActualSec = _.sumBy(employeeLastMonthVisits, v => parseDurationToSeconds(v.duration));
-
-            const currentSupposedlySec = wd * durationForCalcSec;
-            const lastSupposedlySec = lastWd * durationForCalcSec;
-
-            const currentPercent = currentSupposedlySec > 0 ? (currentActualSec / currentSupposedlySec) * 100 : 0;
-            const lastPercent = lastSupposedlySec > 0 ? (lastActualSec / lastSupposedlySec) * 100 : 0;
-            
-            return {
-                department,
-                visitorName: name,
-                designation,
-                totalWorkingDay: wd,
-                currentMonthActualDurationSec: currentActualSec,
-                lastMonthActualDurationSec: lastActualSec,
-                currentMonthDurationPercentage: currentPercent,
-                lastMonthDurationPercentage: lastPercent,
-                currentStability: currentPercent - lastPercent,
-            };
+    const summaryData = useMemo<DutySummaryRow[]>(() => {
+        const numDefaultCurrentWD = parseInt(defaultCurrentWorkingDays, 10);
+        const numDefaultLastWD = parseInt(defaultLastWorkingDays, 10);
+        return buildDutySummary(visits, selectedMonth, {
+            dutyPolicies,
+            calendar: workCalendar,
+            workingDays: {
+                current: !isNaN(numDefaultCurrentWD) ? numDefaultCurrentWD : undefined,
+                last: !isNaN(numDefaultLastWD) ? numDefaultLastWD : undefined,
+            },
         });
-
-    }, [selectedMonth, visits, defaultCurrentWorkingDays, defaultLastWorkingDays]);
+    }, [selectedMonth, visits, defaultCurrentWorkingDays, defaultLastWorkingDays, dutyPolicies, workCalendar]);
 
     const multiMonthAnalysisData = useMemo(() => {
         if (analysisMode !== 'multi-month' || rangeError) return null;
@@ -595,6 +479,12 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
             const monthlyPercentages: { [month: string]: number } = {};
             
             months.forEach(monthStr => {
+                const { start, end } = monthRange(monthStr);
+                const workingDaysByEmployee = new Map<string, number>();
+                const workingDaysOf = (name: string) => {
+                    if (!workingDaysByEmployee.has(name)) workingDaysByEmployee.set(name, workCalendar.countWorkingDays(start, end, { name, department: dept }));
+                    return workingDaysByEmployee.get(name)!;
+                };
                 const deptVisitsInMonth = visits.filter(v => v.department === dept && v.date.startsWith(monthStr));
                 if (deptVisitsInMonth.length === 0) {
                     monthlyPercentages[monthStr] = 0;
@@ -602,8 +492,8 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
                 }
                 
                 const totalActualSec = _.sumBy(deptVisitsInMonth, v => {
-                    const { durationForCalcSec } = getSupposedlyDurations(v.department, v.designation);
-                    const wd = parseInt(defaultCurrentWorkingDays, 10) || 22;
+                    const { durationForCalcSec } = getSupposedlyDurations(dutyPolicies, v.department, v.designation, policyDateForMonth(monthStr));
+                    const wd = workingDaysOf(v.visitorName);
                     const supposed = wd * durationForCalcSec;
                     const actual = parseDurationToSeconds(v.duration);
                     return supposed > 0 ? (actual / supposed) * 100 : 0;
@@ -625,7 +515,7 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
 
         return _.orderBy(results, ['trend'], ['desc']);
 
-    }, [visits, startMonth, endMonth, rangeError, defaultCurrentWorkingDays, analysisMode]);
+    }, [visits, startMonth, endMonth, rangeError, dutyPolicies, workCalendar, analysisMode]);
 
     const handleGenerateAnalysis = () => {
         if (summaryData.length === 0) {
@@ -635,47 +525,8 @@ const DutyAnalysis: React.FC<DutyAnalysisProps> = ({ visits, currentUser, analys
         showLoading();
         setAnalysisData(null);
 
-        const [year, month] = selectedMonth.split('-').map(Number);
-        const currentMonthVisits = visits.filter(v => {
-            if (!v.date || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) return false;
-            const [visitYear, visitMonth] = v.date.split('-').map(Number);
-            return visitYear === year && visitMonth === month;
-        });
-
-        const groupedByDept = _.groupBy(summaryData, 'department');
-
         try {
-            const results = Object.entries(groupedByDept).map(([department, employees]) => {
-                const averageStability = _.meanBy(employees, 'currentStability');
-                const employeeCount = employees.length;
-                const totalVisits = currentMonthVisits.filter(v => v.department === department).length;
-                
-                const topPerformerRow = _.maxBy(employees, 'currentStability');
-                const lowestPerformerRow = _.minBy(employees, 'currentStability');
-                
-                const getPerformerDetails = (performer: SummaryDataRow | undefined): PerformerData | null => {
-                    if (!performer) return null;
-                    const performerVisits = currentMonthVisits.filter(v => v.visitorName === performer.visitorName);
-                    return {
-                        name: performer.visitorName,
-                        visitCount: performerVisits.length,
-                        projectCount: _.uniqBy(performerVisits, 'projectName').length,
-                        duration: formatSecondsToHHMM(performer.currentMonthActualDurationSec),
-                    };
-                };
-    
-                return {
-                    department,
-                    employeeCount,
-                    totalVisits,
-                    averageStability,
-                    remark: '',
-                    topPerformer: getPerformerDetails(topPerformerRow),
-                    lowestPerformer: getPerformerDetails(lowestPerformerRow),
-                };
-            });
-
-            setAnalysisData(_.orderBy(results, ['averageStability'], ['desc']));
+            setAnalysisData(buildDutyAnalysis(visits, selectedMonth, summaryData).map(row => ({ ...row, remark: '' })));
             setFeedback({ message: "Analysis complete. You can now add observation remarks.", type: 'success' });
         } catch (error) {
             console.error("Analysis failed:", error);
@@ -760,7 +611,6 @@ ${lowPerformers.map(p => `
         });
     
         const underperformingDepts = analysisData.filter(d => d.averageStability < 0);
-        const numDefaultLastWD = parseInt(defaultLastWorkingDays, 10) || 22;
     
         const finalBreakdownData: BreakdownData = {};
     
@@ -775,7 +625,7 @@ ${lowPerformers.map(p => `
                 const lastDurationSec = employeeSummary.lastMonthActualDurationSec;
                 
                 const currentWorkingDays = employeeSummary.totalWorkingDay;
-                const lastWorkingDays = numDefaultLastWD;
+                const lastWorkingDays = employeeSummary.lastMonthWorkingDay;
     
                 return {
                     name: employeeSummary.visitorName,
@@ -830,7 +680,6 @@ ${lowPerformers.map(p => `
         });
     
         const allDepts = analysisData; // The main change: use all departments
-        const numDefaultLastWD = parseInt(defaultLastWorkingDays, 10) || 22;
     
         const finalBreakdownData: BreakdownData = {};
     
@@ -845,7 +694,7 @@ ${lowPerformers.map(p => `
                 const lastDurationSec = employeeSummary.lastMonthActualDurationSec;
                 
                 const currentWorkingDays = employeeSummary.totalWorkingDay;
-                const lastWorkingDays = numDefaultLastWD;
+                const lastWorkingDays = employeeSummary.lastMonthWorkingDay;
     
                 return {
                     name: employeeSummary.visitorName,
@@ -927,91 +776,7 @@ ${lowPerformers.map(p => `
             setFeedback({ message: 'No data to export or PDF library not available.', type: 'error' });
             return;
         }
-        const { jsPDF } = window.jspdf;
-        const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
-        const pageWidth = doc.internal.pageSize.getWidth();
-        const pageHeight = doc.internal.pageSize.getHeight();
-        const margin = 10;
-
-        const addHeaderAndFooter = (docInstance: any) => {
-            const pageCount = docInstance.internal.getNumberOfPages();
-            for (let i = 1; i <= pageCount; i++) {
-                docInstance.setPage(i);
-                
-                const headerStartY = 10;
-                docInstance.setFont('helvetica', 'bold').setFontSize(14).setTextColor(40);
-                docInstance.text("Credence Housing Limited", pageWidth / 2, headerStartY, { align: 'center' });
-                docInstance.setFont('helvetica', 'normal').setFontSize(9).setTextColor(100);
-                docInstance.text("Duty Analysis Report", pageWidth / 2, headerStartY + 6, { align: 'center' });
-                docInstance.setDrawColor(220).setLineWidth(0.2).line(margin, headerStartY + 10, pageWidth - margin, headerStartY + 10);
-
-                const footerY = pageHeight - 20;
-                docInstance.setFontSize(9).setTextColor(150);
-                const preparedByStr = `Prepared by\nMIS`;
-                docInstance.text(preparedByStr, margin, footerY);
-                docInstance.text('Dept. HoD', pageWidth / 2, pageHeight - 10, { align: 'center' });
-                const pageStr = `Page ${i} of ${pageCount}`;
-                docInstance.text(pageStr, pageWidth - margin, pageHeight - 10, { align: 'right' });
-            }
-        };
-
-        const head = [['Department', 'Avg. Stability', 'Observation remarks']];
-        const body = analysisData.map(row => {
-            const topPerformer = row.topPerformer;
-            const lowestPerformer = row.lowestPerformer;
-
-            const topPerformerText = topPerformer 
-                ? `Top: ${topPerformer.name}\n(Visits: ${topPerformer.visitCount}, Projects: ${topPerformer.projectCount}, Duration: ${topPerformer.duration})`
-                : 'Top: N/A';
-            
-            const lowestPerformerText = lowestPerformer
-                ? `Lowest: ${lowestPerformer.name}\n(Visits: ${lowestPerformer.visitCount}, Projects: ${lowestPerformer.projectCount}, Duration: ${lowestPerformer.duration})`
-                : 'Lowest: N/A';
-
-            return [
-                { content: `${row.department}\n(Empl: ${row.employeeCount}, Visits: ${row.totalVisits})\n${topPerformerText}\n${lowestPerformerText}`, styles: { halign: 'left', valign: 'middle' } },
-                { content: `${row.averageStability > 0 ? '(+)' : row.averageStability < 0 ? '(-)' : ''} ${Math.abs(row.averageStability).toFixed(2)}%`, styles: { halign: 'center', valign: 'middle' } },
-                { content: row.remark, styles: { halign: 'left', valign: 'middle' } }
-            ];
-        });
-
-        (doc as any).autoTable({
-            head,
-            body,
-            startY: 25,
-            theme: 'grid',
-            headStyles: { fillColor: [44, 62, 80], textColor: 255 },
-            columnStyles: {
-                0: { cellWidth: 60 },
-                1: { cellWidth: 30 },
-                2: { cellWidth: 'auto' }
-            },
-            didParseCell: function (data: any) {
-                if (data.column.index !== 1 || data.cell.section !== 'body' || !data.row || typeof data.row.index !== 'number') {
-                    return;
-                }
-                if (!analysisData || !Array.isArray(analysisData)) {
-                    return;
-                }
-                const dataIndex = data.row.index;
-                if (dataIndex < 0 || dataIndex >= analysisData.length) {
-                    return;
-                }
-
-                const rowData = analysisData[dataIndex];
-                if (rowData && typeof rowData.averageStability === 'number') {
-                    const value = rowData.averageStability;
-                    if (value > 0) {
-                        data.cell.styles.textColor = [0, 128, 0];
-                    } else if (value < 0) {
-                        data.cell.styles.textColor = [255, 0, 0];
-                    }
-                }
-            },
-            margin: { top: 25, bottom: 25 },
-        });
-
-        addHeaderAndFooter(doc);
+        const doc = drawDutyAnalysisPdf(window.jspdf.jsPDF, analysisData);
         doc.save(`duty_analysis_report_${selectedMonth}.pdf`);
     };
 
@@ -1044,11 +809,11 @@ ${lowPerformers.map(p => `
                     </div>
                      <div>
                         <label htmlFor="default-wd-current-duty" className="block text-sm font-medium text-slate-700">Current Month WD</label>
-                        <input type="number" id="default-wd-current-duty" value={defaultCurrentWorkingDays} onChange={e => setDefaultCurrentWorkingDays(e.target.value)} min="0" max="31" className="mt-1 block w-full px-2 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
+                        <input type="number" id="default-wd-current-duty" value={defaultCurrentWorkingDays} onChange={e => setDefaultCurrentWorkingDays(e.target.value)} min="0" max="31" placeholder="From calendar" className="mt-1 block w-full px-2 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
                     </div>
                      <div>
                         <label htmlFor="default-wd-last-duty" className="block text-sm font-medium text-slate-700">Last Month WD</label>
-                        <input type="number" id="default-wd-last-duty" value={defaultLastWorkingDays} onChange={e => setDefaultLastWorkingDays(e.target.value)} min="0" max="31" className="mt-1 block w-full px-2 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
+                        <input type="number" id="default-wd-last-duty" value={defaultLastWorkingDays} onChange={e => setDefaultLastWorkingDays(e.target.value)} min="0" max="31" placeholder="From calendar" className="mt-1 block w-full px-2 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm"/>
                     </div>
                      <button onClick={handleGenerateAnalysis} disabled={isLoading} className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-400">
                         {isLoading ? <Spinner /> : 'Generate Analysis'}
@@ -1110,8 +875,9 @@ ${lowPerformers.map(p => `
                         </button>
                         <button
                             onClick={handleAnalyzeImprovements}
-                            disabled={isAnalyzingImprovements}
-                            className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-gradient-to-br from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
+                            disabled={isAnalyzingImprovements || aiStatus?.enabled === false}
+                            title={aiStatus?.enabled === false ? 'AI analysis is turned off on this server.' : undefined}
+                            className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-gradient-to-br from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700 disabled:from-slate-400 disabled:to-slate-400 disabled:cursor-not-allowed"
                         >
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
                             Analyze with AI
@@ -1123,6 +889,7 @@ ${lowPerformers.map(p => `
                             Export PDF
                         </button>
                     </div>
+                    <AiStatusNotice status={aiStatus} />
                     <div className="overflow-x-auto border rounded-lg">
                         <table className="min-w-full divide-y divide-slate-200">
                              <thead className="bg-slate-50">
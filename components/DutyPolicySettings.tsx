@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DutyPolicy } from '../types';
+import { BASELINE_HOURS, findOverlappingPolicy, isPolicyInEffect } from '../utils/dutyPolicy';
+import { companyToday, formatDateDDMMMYYYY } from '../utils/time';
+import FormField from './FormField';
+import ModalWrapper from './ModalWrapper';
+import Spinner from './Spinner';
+
+interface DutyPolicySettingsProps {
+    policies: DutyPolicy[];
+    canEdit: boolean;
+    /** Saves a new policy (without an id) or a change to an existing one. */
+    onSave: (policy: DutyPolicy | Omit<DutyPolicy, 'id'>) => Promise<void>;
+    onDelete: (policyId: number) => Promise<void>;
+}
+
+// The policy editor's fields, kept as typed until the policy is saved.
+interface PolicyFormState {
+    department: string;
+    designations: string; // comma-separated
+    expectedHours: string;
+    effectiveFrom: string;
+    effectiveTo: string;
+}
+
+const toFormState = (policy?: DutyPolicy): PolicyFormState => ({
+    department: policy?.department ?? '',
+    designations: (policy?.designations ?? []).join(', '),
+    expectedHours: policy?.expectedHours.toString() ?? '',
+    effectiveFrom: policy?.effectiveFrom ?? '',
+    effectiveTo: policy?.effectiveTo ?? '',
+});
+
+const parsePolicyForm = (form: PolicyFormState): { value: Omit<DutyPolicy, 'id'> } | { error: string } => {
+    const expectedHours = Number(form.expectedHours);
+    if (!form.expectedHours.trim() || isNaN(expectedHours) || expectedHours < 0 || expectedHours > 24) {
+        return { error: 'Enter the expected hours per day, between 0 and 24.' };
+    }
+    if (form.effectiveFrom && form.effectiveTo && form.effectiveTo < form.effectiveFrom) {
+        return { error: 'The end date cannot be before the start date.' };
+    }
+    const value: Omit<DutyPolicy, 'id'> = {
+        department: form.department.trim(),
+        designations: form.designations.split(',').map(s => s.trim()).filter(Boolean),
+        expectedHours,
+    };
+    if (form.effectiveFrom) value.effectiveFrom = form.effectiveFrom;
+    if (form.effectiveTo) value.effectiveTo = form.effectiveTo;
+    return { value };
+};
+
+const describeHours = (hours: number) => hours > 0 ? `${hours}h` : `No target (measured against ${BASELINE_HOURS}h)`;
+
+const describePeriod = (policy: DutyPolicy) => {
+    if (!policy.effectiveFrom && !policy.effectiveTo) return 'Always';
+    if (!policy.effectiveTo) return `From ${formatDateDDMMMYYYY(policy.effectiveFrom!)}`;
+    if (!policy.effectiveFrom) return `Until ${formatDateDDMMMYYYY(policy.effectiveTo)}`;
+    return `${formatDateDDMMMYYYY(policy.effectiveFrom)} – ${formatDateDDMMMYYYY(policy.effectiveTo)}`;
+};
+
+const PolicyEditorModal: React.FC<{
+    policy: DutyPolicy | null;
+    isOpen: boolean;
+    policies: DutyPolicy[];
+    isSaving: boolean;
+    onClose: () => void;
+    onSave: (policy: DutyPolicy | Omit<DutyPolicy, 'id'>) => void;
+}> = ({ policy, isOpen, policies, isSaving, onClose, onSave }) => {
+    const [form, setForm] = useState<PolicyFormState>(toFormState());
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setForm(toFormState(policy ?? undefined));
+        setError(null);
+    }, [isOpen, policy]);
+
+    const field = (key: keyof PolicyFormState) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm(prev => ({ ...prev, [key]: e.target.value }));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsed = parsePolicyForm(form);
+        if ('error' in parsed) {
+            setError(parsed.error);
+            return;
+        }
+        const saved = policy ? { ...parsed.value, id: policy.id } : parsed.value;
+        // The policy being edited either changes in place or ends where the new version starts, so it can't clash.
+        const overlapping = findOverlappingPolicy(policies.filter(p => p.id !== policy?.id), { id: -1, ...parsed.value });
+        if (overlapping) {
+            setError(`Another policy for the same department and designations is in effect over these dates (${describePeriod(overlapping)}).`);
+            return;
+        }
+        onSave(saved);
+    };
+
+    return (
+        <ModalWrapper isOpen={isOpen} onClose={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-[min(36rem,calc(100vw-2rem))] fade-in" role="dialog" aria-modal="true" aria-labelledby="duty-policy-title">
+                <form onSubmit={handleSubmit}>
+                    <fieldset disabled={isSaving}>
+                        <div className="p-6 space-y-4">
+                            <h2 id="duty-policy-title" className="text-xl font-bold text-slate-800">{policy ? 'Edit Duty Policy' : 'Add Duty Policy'}</h2>
+                            <FormField id="policyDepartment" label="Department" value={form.department} onChange={field('department')} placeholder="As written in the visit records; leave empty for every department" />
+                            <FormField id="policyDesignations" label="Designations" value={form.designations} onChange={field('designations')} placeholder="Separated by commas; leave empty for every designation" />
+                            <FormField id="policyHours" label="Expected Hours per Day" value={form.expectedHours} onChange={field('expectedHours')} placeholder="e.g. 6, or 0 for no target" required />
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <FormField id="policyEffectiveFrom" label="Effective From" type="date" value={form.effectiveFrom} onChange={field('effectiveFrom')} placeholder="" />
+                                <FormField id="policyEffectiveTo" label="Effective To" type="date" value={form.effectiveTo} onChange={field('effectiveTo')} placeholder="" />
+                            </div>
+                            {policy && (
+                                <p className="text-sm text-slate-500">
+                                    To change the hours from a date on, set Effective From to that date. The current hours are kept for earlier months as a separate version.
+                                </p>
+                            )}
+                            {error && <p className="text-sm text-red-600">{error}</p>}
+                        </div>
+                        <div className="bg-slate-50 px-6 py-4 rounded-b-xl flex justify-end gap-3">
+                            <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+                            <button type="submit" className="inline-flex items-center justify-center w-32 px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700 disabled:bg-slate-400">
+                                {isSaving ? <Spinner /> : 'Save Policy'}
+                            </button>
+                        </div>
+                    </fieldset>
+                </form>
+            </div>
+        </ModalWrapper>
+    );
+};
+
+/** The duty policies tab of System Management: the hours a day employees are expected to spend on project visits. */
+const DutyPolicySettings: React.FC<DutyPolicySettingsProps> = ({ policies, canEdit, onSave, onDelete }) => {
+    const [editing, setEditing] = useState<DutyPolicy | 'new' | null>(null);
+    const [showPast, setShowPast] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const today = companyToday();
+
+    const visiblePolicies = useMemo(() => policies
+        .filter(policy => showPast || !policy.effectiveTo || policy.effectiveTo >= today)
+        .sort((a, b) =>
+            a.department.localeCompare(b.department) ||
+            a.designations.join(', ').localeCompare(b.designations.join(', ')) ||
+            (a.effectiveFrom ?? '').localeCompare(b.effectiveFrom ?? '')),
+    [policies, showPast, today]);
+
+    const handleSave = async (policy: DutyPolicy | Omit<DutyPolicy, 'id'>) => {
+        setIsSaving(true);
+        await onSave(policy);
+        setIsSaving(false);
+        setEditing(null);
+    };
+
+    const handleDelete = async (policy: DutyPolicy) => {
+        if (!window.confirm('Delete this policy? Reports for the months it covered will use the next most specific policy.')) return;
+        await onDelete(policy.id);
+    };
+
+    const statusOf = (policy: DutyPolicy) => {
+        if (isPolicyInEffect(policy, today)) return { label: 'Current', className: 'bg-green-100 text-green-800' };
+        if (policy.effectiveFrom && policy.effectiveFrom > today) return { label: 'Upcoming', className: 'bg-sky-100 text-sky-800' };
+        return { label: 'Past', className: 'bg-slate-100 text-slate-700' };
+    };
+
+    return (
+        <div className="fade-in space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <p className="text-sm text-slate-600 max-w-2xl">
+                    The Department Summary and Duty Analysis reports measure visit time against these hours. Each employee gets the most specific policy for their department and designation; a month's report uses the policies in effect on the first day of that month.
+                </p>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={showPast} onChange={e => setShowPast(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500" />
+                        Show past versions
+                    </label>
+                    {canEdit && (
+                        <button type="button" onClick={() => setEditing('new')} className="px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700">Add Policy</button>
+                    )}
+                </div>
+            </div>
+            <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Department</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Designations</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Hours per Day</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">In Effect</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Status</th>
+                            {canEdit && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-200">
+                        {visiblePolicies.map(policy => {
+                            const status = statusOf(policy);
+                            return (
+                                <tr key={policy.id}>
+                                    <td className="px-6 py-4 text-sm font-medium text-slate-900">{policy.department || 'All departments'}</td>
+                                    <td className="px-6 py-4 text-sm text-slate-500">{policy.designations.length > 0 ? policy.designations.join(', ') : 'All'}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-700">{describeHours(policy.expectedHours)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{describePeriod(policy)}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+                                    </td>
+                                    {canEdit && (
+                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                                            <button onClick={() => setEditing(policy)} className="text-orange-600 hover:text-orange-900">Edit</button>
+                                            <button onClick={() => handleDelete(policy)} className="text-red-600 hover:text-red-900">Delete</button>
+                                        </td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                        {visiblePolicies.length === 0 && (
+                            <tr><td colSpan={canEdit ? 6 : 5} className="px-6 py-8 text-center text-sm text-slate-500">No policies. Every employee is measured against {BASELINE_HOURS}h a day.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            <PolicyEditorModal
+                isOpen={editing !== null}
+                policy={editing === 'new' ? null : editing}
+                policies={policies}
+                isSaving={isSaving}
+                onClose={() => setEditing(null)}
+                onSave={handleSave}
+            />
+        </div>
+    );
+};
+
+export default DutyPolicySettings;
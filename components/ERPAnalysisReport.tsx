@@ -4,6 +4,8 @@ import React, { useMemo, useState } from 'react';
 import { ERPCorrectionRecord } from '../types';
 import _ from 'lodash';
 import ChangeIcon from './ChangeIcon';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { parseDateAsUtc, parseDateTime } from '../utils/time';
 
 
 // Helper to calculate duration in minutes
@@ -11,18 +13,12 @@ const calculateDurationMinutes = (report: ERPCorrectionRecord): number | null =>
     if (report.status !== 'Completed' || !report.completedDate || !report.completedTime) {
         return null;
     }
-    try {
-        const start = new Date(`${report.entryDate}T${report.entryTime}`);
-        const end = new Date(`${report.completedDate}T${report.completedTime}`);
-        // FIX: Use getTime() for robust date comparison and arithmetic.
-        if (isNaN(start.getTime()) || isNaN(end.getTime()) || end.getTime() < start.getTime()) {
-            return null;
-        }
-        return (end.getTime() - start.getTime()) / (1000 * 60);
-    } catch (e) {
-        console.error("Error calculating duration:", e);
+    const start = parseDateTime(report.entryDate, report.entryTime);
+    const end = parseDateTime(report.completedDate, report.completedTime);
+    if (!start || !end || end.getTime() < start.getTime()) {
         return null;
     }
+    return (end.getTime() - start.getTime()) / (1000 * 60);
 };
 
 // Helper to format minutes into a readable string
@@ -153,59 +149,25 @@ interface ERPAnalysisReportProps {
     reports: ERPCorrectionRecord[];
 }
 
-/**
- * Robustly parses a date string into a Date object, treating it as UTC.
- * Handles YYYY-MM-DD and DD-MM-YYYY (with '-' or '/' separators).
- * @param dateStr The date string to parse.
- * @returns A Date object at UTC midnight, or null if parsing fails.
- */
-const parseDate = (dateStr: string): Date | null => {
-    if (!dateStr || !dateStr.trim()) return null;
-    const s = dateStr.trim();
-
-    // Try YYYY-MM-DD
-    let parts = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-    if (parts) {
-        const d = new Date(Date.UTC(Number(parts[1]), Number(parts[2]) - 1, Number(parts[3])));
-        if (!isNaN(d.getTime())) return d;
-    }
-
-    // Try DD-MM-YYYY with various separators
-    parts = s.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
-    if (parts) {
-        const d = new Date(Date.UTC(Number(parts[3]), Number(parts[2]) - 1, Number(parts[1])));
-        if (!isNaN(d.getTime())) return d;
-    }
-    
-    // Fallback for other formats supported by new Date() (e.g., from date picker)
-    const d = new Date(s);
-    if (!isNaN(d.getTime())) {
-        // Standardize to UTC midnight
-        return new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
-    }
-
-    return null;
-};
-
 
 const ERPAnalysisReport: React.FC<ERPAnalysisReportProps> = ({ reports }) => {
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
 
     const analysisData = useMemo(() => {
         // --- Date Range Filtering ---
         const today = new Date();
         const firstDayOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
 
-        const currentStart = startDate ? parseDate(startDate) : firstDayOfMonth;
-        const currentEnd = endDate ? parseDate(endDate) : today;
+        const currentStart = startDate ? parseDateAsUtc(startDate) : firstDayOfMonth;
+        const currentEnd = endDate ? parseDateAsUtc(endDate) : today;
         
         if (currentEnd) {
             currentEnd.setUTCHours(23, 59, 59, 999);
         }
 
         const currentPeriodReports = reports.filter(report => {
-            const reportDate = parseDate(report.entryDate);
+            const reportDate = parseDateAsUtc(report.entryDate);
             if (!reportDate) return false;
             // Use getTime() for robust date comparison.
             return (!currentStart || reportDate.getTime() >= currentStart.getTime()) && (!currentEnd || reportDate.getTime() <= currentEnd.getTime());
@@ -221,7 +183,7 @@ const ERPAnalysisReport: React.FC<ERPAnalysisReportProps> = ({ reports }) => {
             const prevStart = new Date(prevEnd.getTime() - duration);
 
             previousPeriodReports = reports.filter(report => {
-                const reportDate = parseDate(report.entryDate);
+                const reportDate = parseDateAsUtc(report.entryDate);
                 if (!reportDate) return false;
                 // Use getTime() for robust date comparison.
                 return reportDate.getTime() >= prevStart.getTime() && reportDate.getTime() <= prevEnd.getTime();
@@ -279,7 +241,7 @@ const ERPAnalysisReport: React.FC<ERPAnalysisReportProps> = ({ reports }) => {
 
         const formatDateForDisplay = (dateStr: string | null | undefined): string => {
             if (!dateStr) return 'N/A';
-            const date = parseDate(dateStr);
+            const date = parseDateAsUtc(dateStr);
             if (!date) return 'Invalid Date';
             return date.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' });
         };
@@ -1,8 +1,12 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { User, ERPCorrectionRecord, ERPCorrectionTab } from '../types';
+import { User, ERPCorrectionRecord, ERPCorrectionTab, Project } from '../types';
 import FeedbackMessage from './FeedbackMessage';
 import _ from 'lodash';
 import ERPAnalysisReport from './ERPAnalysisReport';
+import ImportWizard from './ImportWizard';
+import { ProjectAlias } from '../hooks/useProjectReconciliation';
+import { ERP_CORRECTION_IMPORT_FIELDS, ERPCorrectionImportKey } from '../utils/importFields';
+import DataTable, { DataTableColumn } from './DataTable';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -18,10 +22,12 @@ const CSV_HEADERS = ['Officers', 'Dept.', 'Designation', 'Project Name', 'D.Type
 
 interface ERPCorrectionReportProps {
     currentUser: User;
+    projects: Project[];
     reports: ERPCorrectionRecord[];
     onUpdateReports: React.Dispatch<React.SetStateAction<ERPCorrectionRecord[]>>;
     activeTab: ERPCorrectionTab;
     onTabChange: (tab: ERPCorrectionTab) => void;
+    onAddProjectAliases?: (aliases: ProjectAlias[]) => void;
 }
 
 const getStatusClass = (status: ERPCorrectionRecord['status']) => {
@@ -34,10 +40,47 @@ const getStatusClass = (status: ERPCorrectionRecord['status']) => {
     }
 };
 
-const ERPCorrectionReport: React.FC<ERPCorrectionReportProps> = ({ currentUser, reports, onUpdateReports, activeTab }) => {
+const textColumn = (key: keyof ERPCorrectionRecord & string, header: string, width: number, extra: Partial<DataTableColumn<ERPCorrectionRecord>> = {}): DataTableColumn<ERPCorrectionRecord> => ({
+    key,
+    header,
+    width,
+    render: report => report[key] as string,
+    sortValue: report => (report[key] as string) || '',
+    ...extra,
+});
+
+const REPORT_COLUMNS: DataTableColumn<ERPCorrectionRecord>[] = [
+    textColumn('officers', 'Officers', 160, { cellClassName: 'font-semibold text-slate-800' }),
+    textColumn('department', 'Dept.', 110),
+    textColumn('designation', 'Designation', 140),
+    textColumn('projectName', 'Project Name', 160),
+    textColumn('documentType', 'D.Type', 110),
+    textColumn('trackingNumber', 'Traking Number', 140),
+    textColumn('correctionType', 'Correction Type', 160),
+    textColumn('entryDate', 'Entry Date', 120),
+    textColumn('entryTime', 'Entry Time', 100),
+    {
+        key: 'status',
+        header: 'Status',
+        width: 130,
+        render: report => {
+            const statusClasses = getStatusClass(report.status);
+            return <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold border ${statusClasses.bg} ${statusClasses.text} ${statusClasses.border}`}>{report.status}</span>;
+        },
+        sortValue: report => report.status,
+    },
+    textColumn('completedDate', 'Completed Date', 130, { render: report => report.completedDate || 'N/A' }),
+    textColumn('completedTime', 'Completed Time', 120, { render: report => report.completedTime || 'N/A' }),
+    textColumn('oldData', 'Old Data', 200, { cellClassName: 'text-red-600/90 line-through' }),
+    textColumn('newData', 'New Data', 200, { cellClassName: 'text-green-700 font-semibold' }),
+    textColumn('remarks', 'Remarks', 200, { render: report => report.remarks || 'N/A' }),
+];
+
+const ERPCorrectionReport: React.FC<ERPCorrectionReportProps> = ({ currentUser, projects, reports, onUpdateReports, activeTab, onAddProjectAliases }) => {
     const [searchQuery, setSearchQuery] = useState('');
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importFile, setImportFile] = useState<File | null>(null);
     const [isFullScreen, setIsFullScreen] = useState(false);
     const tableContainerRef = useRef<HTMLDivElement>(null);
     
@@ -71,71 +114,26 @@ const ERPCorrectionReport: React.FC<ERPCorrectionReportProps> = ({ currentUser,
         document.body.removeChild(link);
     };
 
-    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        if (typeof window.Papa === 'undefined') {
-            setFeedback({ message: "CSV parsing library is not available.", type: 'error' });
-            return;
-        }
-
-        window.Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results: any) => {
-                const headers = results.meta.fields;
-                if (!CSV_HEADERS.every(h => headers.includes(h))) {
-                    setFeedback({ message: 'CSV is missing required headers or has incorrect names. Please use the template.', type: 'error' });
-                    if (event.target) event.target.value = '';
-                    return;
-                }
-
-                const newReports: ERPCorrectionRecord[] = [];
-                let errorOccurred = false;
-
-                results.data.forEach((row: any, index: number) => {
-                    if (errorOccurred) return;
-                    // Check first 9 required fields
-                    if (!CSV_HEADERS.slice(0, 9).every(h => row[h])) { 
-                        setFeedback({ message: `Row ${index + 2}: Missing data for a required field.`, type: 'error' });
-                        errorOccurred = true;
-                        return;
-                    }
-
-                    newReports.push({
-                        id: _.uniqueId('erp_'),
-                        officers: row['Officers'],
-                        department: row['Dept.'],
-                        designation: row['Designation'],
-                        projectName: row['Project Name'],
-                        documentType: row['D.Type'],
-                        trackingNumber: row['Traking Number'],
-                        correctionType: row['Correction Type'],
-                        entryDate: row['Entry Date'],
-                        entryTime: row['Entry Time'],
-                        status: row['Status'],
-                        completedDate: row['Completed Date'] || undefined,
-                        completedTime: row['Completed Time'] || undefined,
-                        oldData: row['Old Data'],
-                        newData: row['New Data'],
-                        remarks: row['Remarks'] || undefined,
-                    });
-                });
-                
-                if (!errorOccurred) {
-                    onUpdateReports(prev => _.orderBy([...prev, ...newReports], ['entryDate'], ['desc']));
-                    setFeedback({ message: `Successfully imported ${newReports.length} records.`, type: 'success' });
-                }
-            },
-            error: (err: any) => {
-                setFeedback({ message: `Error parsing CSV: ${err.message}`, type: 'error' });
-            }
-        });
-
-        if (event.target) event.target.value = '';
+    const handleImportReports = (rows: Record<ERPCorrectionImportKey, string>[]) => {
+        const importedAt = Date.now();
+        const newReports: ERPCorrectionRecord[] = rows.map((row, index) => ({
+            ...row,
+            id: `erp-${importedAt}-${index}`,
+            completedDate: row.completedDate || undefined,
+            completedTime: row.completedTime || undefined,
+            remarks: row.remarks || undefined,
+        }));
+        onUpdateReports(prev => _.orderBy([...prev, ...newReports], ['entryDate'], ['desc']));
+        setFeedback({ message: `Successfully imported ${newReports.length} records.`, type: 'success' });
     };
     
+    const handleDeleteReports = (deleted: ERPCorrectionRecord[]) => {
+        if (!window.confirm(`Delete ${deleted.length} selected correction record(s)? This action cannot be undone.`)) return;
+        const deletedIds = new Set(deleted.map(report => report.id));
+        onUpdateReports(prev => prev.filter(report => !deletedIds.has(report.id)));
+        setFeedback({ message: `Deleted ${deleted.length} record(s).`, type: 'info' });
+    };
+
     const handleToggleFullScreen = () => {
         const elem = tableContainerRef.current;
         if (!elem) return;
@@ -159,6 +157,15 @@ const ERPCorrectionReport: React.FC<ERPCorrectionReportProps> = ({ currentUser,
 
     return (
         <>
+            <ImportWizard
+                file={importFile}
+                title="Import ERP Corrections"
+                fields={ERP_CORRECTION_IMPORT_FIELDS}
+                projects={projects}
+                onAddProjectAliases={onAddProjectAliases}
+                onImport={handleImportReports}
+                onClose={() => setImportFile(null)}
+            />
             <div className="px-4 sm:px-6 lg:px-8 pb-4 sm:pb-6 lg:pb-8">
                 <div className="bg-gradient-to-r from-white via-orange-50 to-amber-50 rounded-b-xl shadow-lg px-px pb-px">
                     <div className="bg-white rounded-b-xl">
@@ -181,9 +188,9 @@ const ERPCorrectionReport: React.FC<ERPCorrectionReportProps> = ({ currentUser,
                                         <div className="flex items-center gap-3 flex-shrink-0">
                                             <label htmlFor="erp-csv-upload" className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 border border-orange-500 text-sm font-medium rounded-md shadow-sm text-orange-600 bg-white hover:bg-orange-50">
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
-                                                Import CSV
+                                                Import CSV/Excel
                                             </label>
-                                            <input id="erp-csv-upload" type="file" ref={fileInputRef} onChange={handleFileUpload} className="sr-only" accept=".csv" />
+                                            <input id="erp-csv-upload" type="file" ref={fileInputRef} onChange={e => { setImportFile(e.target.files?.[0] ?? null); e.target.value = ''; }} className="sr-only" accept=".csv,.xlsx,.xls" />
                                             <button onClick={handleDownloadTemplate} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 9.293a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                                                 Download Template
@@ -205,51 +212,16 @@ const ERPCorrectionReport: React.FC<ERPCorrectionReportProps> = ({ currentUser,
                                     </div>
                                 </div>
                                 <div ref={tableContainerRef} className="fullscreen-container bg-white flex flex-col px-6 pb-6">
-                                    <div className="overflow-auto flex-grow border border-slate-200 rounded-lg">
-                                        {filteredReports.length > 0 ? (
-                                            <table className="min-w-full divide-y divide-slate-200">
-                                                <thead className="bg-slate-100 sticky top-0 z-10">
-                                                    <tr>
-                                                        {CSV_HEADERS.map(header => (
-                                                            <th key={header} scope="col" className="px-2 py-2 text-left text-xs font-semibold text-slate-600 uppercase tracking-wider">{header}</th>
-                                                        ))}
-                                                    </tr>
-                                                </thead>
-                                                <tbody className="bg-white">
-                                                    {filteredReports.map((report) => {
-                                                        const statusClasses = getStatusClass(report.status);
-                                                        return (
-                                                            <tr key={report.id} className="transition-colors odd:bg-white even:bg-slate-50/70 hover:bg-amber-50">
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs font-semibold text-slate-800">{report.officers}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.department}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.designation}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.projectName}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.documentType}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.trackingNumber}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.correctionType}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.entryDate}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.entryTime}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs">
-                                                                    <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold border ${statusClasses.bg} ${statusClasses.text} ${statusClasses.border}`}>
-                                                                        {report.status}
-                                                                    </span>
-                                                                </td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.completedDate || 'N/A'}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.completedTime || 'N/A'}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-red-600/90 line-through">{report.oldData}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-green-700 font-semibold">{report.newData}</td>
-                                                                <td className="px-2 py-2 whitespace-normal break-words align-top text-xs text-slate-500">{report.remarks || 'N/A'}</td>
-                                                            </tr>
-                                                        );
-                                                    })}
-                                                </tbody>
-                                            </table>
-                                        ) : (
-                                            <p className="p-6 text-center text-slate-500">
-                                                {reports.length === 0 ? "No data available. Please import a CSV file to get started." : "No reports found matching your search criteria."}
-                                            </p>
-                                        )}
-                                    </div>
+                                    <DataTable
+                                        tableId="erpCorrections"
+                                        columns={REPORT_COLUMNS}
+                                        rows={filteredReports}
+                                        getRowId={report => report.id}
+                                        emptyMessage={reports.length === 0 ? "No data available. Please import a CSV file to get started." : "No reports found matching your search criteria."}
+                                        bulkActions={[{ label: 'Delete', onClick: handleDeleteReports, variant: 'danger' }]}
+                                        rowHeight={40}
+                                        maxHeight={isFullScreen ? 'calc(100vh - 6rem)' : '70vh'}
+                                    />
                                 </div>
                             </div>
                         )}
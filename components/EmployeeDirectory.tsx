@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Employee, EmployeeVisit } from '../types';
+import { createEmployeeIndex, employeesFromRecords, isEmployeeActive, normalizeEmployeeName } from '../utils/employees';
+import { companyToday, formatDateDDMMMYYYY } from '../utils/time';
+import FormField from './FormField';
+import ModalWrapper from './ModalWrapper';
+import Spinner from './Spinner';
+
+interface EmployeeDirectoryProps {
+    employees: Employee[];
+    /** The visit records, to count each employee's visits and to find visitors missing from the directory. */
+    visits: EmployeeVisit[];
+    canEdit: boolean;
+    /** Saves a new employee (without an id) or a change to an existing one. */
+    onSave: (employee: Employee | Omit<Employee, 'id'>) => Promise<void>;
+    onDelete: (employeeId: number) => Promise<void>;
+    onAddMany: (employees: Omit<Employee, 'id'>[]) => Promise<void>;
+}
+
+// The employee editor's fields, kept as typed until the employee is saved.
+interface EmployeeFormState {
+    employeeId: string;
+    name: string;
+    aliases: string; // comma-separated
+    department: string;
+    designation: string;
+    reportingManagerId: string;
+    activeFrom: string;
+    activeTo: string;
+}
+
+const toFormState = (employee?: Employee): EmployeeFormState => ({
+    employeeId: employee?.employeeId ?? '',
+    name: employee?.name ?? '',
+    aliases: (employee?.aliases ?? []).join(', '),
+    department: employee?.department ?? '',
+    designation: employee?.designation ?? '',
+    reportingManagerId: employee?.reportingManagerId?.toString() ?? '',
+    activeFrom: employee?.activeFrom ?? '',
+    activeTo: employee?.activeTo ?? '',
+});
+
+const parseEmployeeForm = (form: EmployeeFormState, employees: Employee[], editingId?: number): { value: Omit<Employee, 'id'> } | { error: string } => {
+    const name = form.name.trim();
+    const employeeId = form.employeeId.trim();
+    if (!name || !form.department.trim() || !form.designation.trim()) {
+        return { error: 'Enter the name, department and designation.' };
+    }
+    const others = employees.filter(e => e.id !== editingId);
+    if (employeeId && others.some(e => e.employeeId.trim().toUpperCase() === employeeId.toUpperCase())) {
+        return { error: `Another employee already has the ID ${employeeId}.` };
+    }
+    const aliases = form.aliases.split(',').map(s => s.trim()).filter(Boolean);
+    const takenNames = new Set(others.flatMap(e => [e.name, ...(e.aliases ?? [])].map(normalizeEmployeeName)));
+    const clash = [name, ...aliases].find(n => takenNames.has(normalizeEmployeeName(n)));
+    if (clash) {
+        return { error: `"${clash}" is already the name of another employee.` };
+    }
+    if (form.activeFrom && form.activeTo && form.activeTo < form.activeFrom) {
+        return { error: 'The last working day cannot be before the joining date.' };
+    }
+    const value: Omit<Employee, 'id'> = {
+        employeeId,
+        name,
+        department: form.department.trim(),
+        designation: form.designation.trim(),
+    };
+    if (aliases.length > 0) value.aliases = aliases;
+    if (form.reportingManagerId) value.reportingManagerId = Number(form.reportingManagerId);
+    if (form.activeFrom) value.activeFrom = form.activeFrom;
+    if (form.activeTo) value.activeTo = form.activeTo;
+    return { value };
+};
+
+const EmployeeEditorModal: React.FC<{
+    employee: Employee | null;
+    isOpen: boolean;
+    employees: Employee[];
+    isSaving: boolean;
+    onClose: () => void;
+    onSave: (employee: Employee | Omit<Employee, 'id'>) => void;
+}> = ({ employee, isOpen, employees, isSaving, onClose, onSave }) => {
+    const [form, setForm] = useState<EmployeeFormState>(toFormState());
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setForm(toFormState(employee ?? undefined));
+        setError(null);
+    }, [isOpen, employee]);
+
+    const field = (key: keyof EmployeeFormState) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => setForm(prev => ({ ...prev, [key]: e.target.value }));
+
+    // An employee can't report to themselves.
+    const managerOptions = useMemo(() => employees.filter(e => e.id !== employee?.id).sort((a, b) => a.name.localeCompare(b.name)), [employees, employee]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsed = parseEmployeeForm(form, employees, employee?.id);
+        if ('error' in parsed) {
+            setError(parsed.error);
+            return;
+        }
+        onSave(employee ? { ...parsed.value, id: employee.id } : parsed.value);
+    };
+
+    return (
+        <ModalWrapper isOpen={isOpen} onClose={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-[min(40rem,calc(100vw-2rem))] fade-in" role="dialog" aria-modal="true" aria-labelledby="employee-editor-title">
+                <form onSubmit={handleSubmit}>
+                    <fieldset disabled={isSaving}>
+                        <div className="p-6 space-y-4">
+                            <h2 id="employee-editor-title" className="text-xl font-bold text-slate-800">{employee ? 'Edit Employee' : 'Add Employee'}</h2>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <FormField id="employeeCode" label="Employee ID" value={form.employeeId} onChange={field('employeeId')} placeholder="e.g. 10234" />
+                                <FormField id="employeeName" label="Name" value={form.name} onChange={field('name')} placeholder="As it should appear in reports" required />
+                            </div>
+                            <FormField id="employeeAliases" label="Other Spellings" value={form.aliases} onChange={field('aliases')} placeholder="Names used for this employee in imported sheets, separated by commas" />
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <FormField id="employeeDepartment" label="Department" value={form.department} onChange={field('department')} placeholder="e.g. Construction" required />
+                                <FormField id="employeeDesignation" label="Designation" value={form.designation} onChange={field('designation')} placeholder="e.g. Asst. Manager" required />
+                            </div>
+                            <div>
+                                <label htmlFor="employeeManager" className="block text-sm font-medium text-slate-700">Reporting Manager</label>
+                                <select id="employeeManager" value={form.reportingManagerId} onChange={field('reportingManagerId')} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500">
+                                    <option value="">None</option>
+                                    {managerOptions.map(m => <option key={m.id} value={m.id}>{m.name}{m.designation ? ` (${m.designation})` : ''}</option>)}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <FormField id="employeeActiveFrom" label="Joining Date" type="date" value={form.activeFrom} onChange={field('activeFrom')} placeholder="" />
+                                <FormField id="employeeActiveTo" label="Last Working Day" type="date" value={form.activeTo} onChange={field('activeTo')} placeholder="" />
+                            </div>
+                            {error && <p className="text-sm text-red-600">{error}</p>}
+                        </div>
+                        <div className="bg-slate-50 px-6 py-4 rounded-b-xl flex justify-end gap-3">
+                            <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+                            <button type="submit" className="inline-flex items-center justify-center w-36 px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700 disabled:bg-slate-400">
+                                {isSaving ? <Spinner /> : 'Save Employee'}
+                            </button>
+                        </div>
+                    </fieldset>
+                </form>
+            </div>
+        </ModalWrapper>
+    );
+};
+
+const describeEmployment = (employee: Employee) => {
+    if (!employee.activeFrom && !employee.activeTo) return '';
+    if (!employee.activeTo) return `Since ${formatDateDDMMMYYYY(employee.activeFrom!)}`;
+    if (!employee.activeFrom) return `Until ${formatDateDDMMMYYYY(employee.activeTo)}`;
+    return `${formatDateDDMMMYYYY(employee.activeFrom)} – ${formatDateDDMMMYYYY(employee.activeTo)}`;
+};
+
+/** The employees tab of System Management: everyone whose project visits are analysed. */
+const EmployeeDirectory: React.FC<EmployeeDirectoryProps> = ({ employees, visits, canEdit, onSave, onDelete, onAddMany }) => {
+    const [editing, setEditing] = useState<Employee | 'new' | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [showFormer, setShowFormer] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const today = companyToday();
+
+    const employeeIndex = useMemo(() => createEmployeeIndex(employees), [employees]);
+    const visitCounts = useMemo(() => {
+        const counts = new Map<number, number>();
+        visits.forEach(v => {
+            const employee = employeeIndex.resolve(v);
+            if (employee) counts.set(employee.id, (counts.get(employee.id) ?? 0) + 1);
+        });
+        return counts;
+    }, [visits, employeeIndex]);
+    const unmatchedVisitors = useMemo(() => employeesFromRecords(visits, employeeIndex), [visits, employeeIndex]);
+
+    const visibleEmployees = useMemo(() => {
+        const query = searchQuery.trim().toLowerCase();
+        return employees
+            .filter(e => showFormer || !e.activeTo || e.activeTo >= today)
+            .filter(e => !query || [e.employeeId, e.name, e.department, e.designation, ...(e.aliases ?? [])].some(text => text.toLowerCase().includes(query)))
+            .sort((a, b) => a.department.localeCompare(b.department) || a.name.localeCompare(b.name));
+    }, [employees, searchQuery, showFormer, today]);
+
+    const handleSave = async (employee: Employee | Omit<Employee, 'id'>) => {
+        setIsSaving(true);
+        await onSave(employee);
+        setIsSaving(false);
+        setEditing(null);
+    };
+
+    const handleDelete = async (employee: Employee) => {
+        if (!window.confirm(`Delete ${employee.name}? Their visit records are kept, under the name they were last given.`)) return;
+        await onDelete(employee.id);
+    };
+
+    const handleAddUnmatched = async () => {
+        const names = unmatchedVisitors.map(e => e.name).join(', ');
+        if (!window.confirm(`Add ${unmatchedVisitors.length} employees found in the visit records?\n\n${names}\n\nIf any of them is another spelling of an existing employee, add it to that employee's other spellings instead.`)) return;
+        await onAddMany(unmatchedVisitors);
+    };
+
+    return (
+        <div className="fade-in space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <p className="text-sm text-slate-600 max-w-2xl">
+                    Visit records are matched to these employees by employee ID, or by name and its other spellings, and then show the name kept here. A department or designation change here doesn't alter past records.
+                </p>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={showFormer} onChange={e => setShowFormer(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500" />
+                        Show former employees
+                    </label>
+                    {canEdit && (
+                        <button type="button" onClick={() => setEditing('new')} className="px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700">Add Employee</button>
+                    )}
+                </div>
+            </div>
+            {canEdit && unmatchedVisitors.length > 0 && (
+                <div className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg border border-amber-200 bg-amber-50">
+                    <p className="text-sm text-amber-800">{unmatchedVisitors.length} visitors in the visit records aren't in the directory.</p>
+                    <button type="button" onClick={handleAddUnmatched} className="px-3 py-1.5 text-sm font-medium text-amber-900 bg-white border border-amber-300 rounded-md hover:bg-amber-100">Add from Visit Records</button>
+                </div>
+            )}
+            <input type="search" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search by ID, name, department or designation..." className="w-full sm:w-96 px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500" />
+            <div className="overflow-x-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50">
+                        <tr>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Employee ID</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Name</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Department</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Designation</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Reports To</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Employment</th>
+                            <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Visits</th>
+                            {canEdit && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-200">
+                        {visibleEmployees.map(employee => (
+                            <tr key={employee.id}>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{employee.employeeId || '—'}</td>
+                                <td className="px-6 py-4 text-sm">
+                                    <div className="font-medium text-slate-900">{employee.name}</div>
+                                    {employee.aliases && employee.aliases.length > 0 && <div className="text-xs text-slate-400">Also: {employee.aliases.join(', ')}</div>}
+                                </td>
+                                <td className="px-6 py-4 text-sm text-slate-700">{employee.department}</td>
+                                <td className="px-6 py-4 text-sm text-slate-700">{employee.designation}</td>
+                                <td className="px-6 py-4 text-sm text-slate-500">{employeeIndex.byId(employee.reportingManagerId)?.name ?? ''}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                                    {describeEmployment(employee)}
+                                    {!isEmployeeActive(employee, today) && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700">{employee.activeFrom && employee.activeFrom > today ? 'Joining' : 'Former'}</span>}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-slate-700">{visitCounts.get(employee.id) ?? 0}</td>
+                                {canEdit && (
+                                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                                        <button onClick={() => setEditing(employee)} className="text-orange-600 hover:text-orange-900">Edit</button>
+                                        <button onClick={() => handleDelete(employee)} className="text-red-600 hover:text-red-900">Delete</button>
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                        {visibleEmployees.length === 0 && (
+                            <tr><td colSpan={canEdit ? 8 : 7} className="px-6 py-8 text-center text-sm text-slate-500">{employees.length === 0 ? 'No employees yet. Add them one by one, or from the visit records.' : 'No employees match the search.'}</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            <EmployeeEditorModal
+                isOpen={editing !== null}
+                employee={editing === 'new' ? null : editing}
+                employees={employees}
+                isSaving={isSaving}
+                onClose={() => setEditing(null)}
+                onSave={handleSave}
+            />
+        </div>
+    );
+};
+
+export default EmployeeDirectory;
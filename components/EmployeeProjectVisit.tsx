@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { User, Project, EmployeeVisit, ReportData, EmployeeVisitTab } from '../types';
+import { User, Project, EmployeeVisit, ReportData, EmployeeVisitTab, DutyPolicy } from '../types';
 import { DEPARTMENTS } from '../constants';
 import FeedbackMessage from './FeedbackMessage';
 import AllDepartmentSummary from './AllDepartmentSummary';
@@ -7,6 +7,15 @@ import DutyAnalysis from './DutyAnalysis';
 import EmployeeVisitSummary from './EmployeeVisitSummary';
 import _ from 'lodash';
 import { useLoading } from '../contexts/LoadingContext';
+import { logAuditEvent } from '../services/auditService';
+import { useQueryParam } from '../hooks/useQueryParam';
+import FilterPresets from './FilterPresets';
+import { ProjectAlias } from '../hooks/useProjectReconciliation';
+import ImportWizard from './ImportWizard';
+import { EMPLOYEE_VISIT_IMPORT_FIELDS, EmployeeVisitImportKey } from '../utils/importFields';
+import { WorkCalendar } from '../utils/workCalendar';
+import DataTable, { DataTableColumn } from './DataTable';
+import { parseDurationToSeconds, parseTimeOfDay } from '../utils/time';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -16,59 +25,18 @@ declare global {
     }
 }
 
-/**
- * Parses a date string from various common formats and returns it in YYYY-MM-DD format.
- * @param dateString The date string to parse.
- * @returns The formatted date string, or an empty string if invalid.
- */
-const parseAndFormatDate = (dateString: string): string => {
-  if (!dateString || typeof dateString !== 'string') return '';
-  
-  // Handle '1-Jul-25' format
-  const excelDateMatch = dateString.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2})$/);
-  if (excelDateMatch) {
-    const day = excelDateMatch[1];
-    const monthStr = excelDateMatch[2];
-    const year = `20${excelDateMatch[3]}`;
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const monthIndex = monthNames.findIndex(m => m.toLowerCase() === monthStr.toLowerCase());
-    if (monthIndex > -1) {
-        const d = new Date(parseInt(year, 10), monthIndex, parseInt(day, 10));
-        if (!isNaN(d.getTime())) {
-            const y = d.getFullYear();
-            const m = String(d.getMonth() + 1).padStart(2, '0');
-            const dayOfMonth = String(d.getDate()).padStart(2, '0');
-            return `${y}-${m}-${dayOfMonth}`;
-        }
-    }
-  }
-
-  const date = new Date(dateString.trim());
-
-  if (isNaN(date.getTime())) {
-    const parts = dateString.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
-    if (parts) {
-      const day = parseInt(parts[1], 10);
-      const month = parseInt(parts[2], 10) - 1;
-      const year = parseInt(parts[3], 10);
-      const dmyDate = new Date(year, month, day);
-      if (!isNaN(dmyDate.getTime()) && dmyDate.getDate() === day && dmyDate.getMonth() === month && dmyDate.getFullYear() === year) {
-          const y = dmyDate.getFullYear();
-          const m = String(dmyDate.getMonth() + 1).padStart(2, '0');
-          const d = String(dmyDate.getDate()).padStart(2, '0');
-          return `${y}-${m}-${d}`;
-      }
-    }
-    console.warn(`Could not parse date: "${dateString}"`);
-    return '';
-  }
-
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  
-  return `${year}-${month}-${day}`;
-};
+const VISIT_COLUMNS: DataTableColumn<EmployeeVisit>[] = [
+    { key: 'slNo', header: 'Sl No', width: 80, render: (_visit, index) => index + 1 },
+    { key: 'date', header: 'Date', width: 120, render: visit => visit.date, sortValue: visit => visit.date },
+    { key: 'visitorName', header: 'Visitor Name', width: 180, render: visit => visit.visitorName, sortValue: visit => visit.visitorName },
+    { key: 'department', header: 'Department', width: 170, render: visit => visit.department, sortValue: visit => visit.department },
+    { key: 'designation', header: 'Designation', width: 170, render: visit => visit.designation, sortValue: visit => visit.designation },
+    { key: 'projectName', header: 'Visited Project Name', width: 190, render: visit => visit.projectName, sortValue: visit => visit.projectName },
+    { key: 'entryTime', header: 'Entry Time', width: 110, render: visit => visit.entryTime, sortValue: visit => parseTimeOfDay(visit.entryTime) ?? -1, title: visit => visit.entryTime },
+    { key: 'outTime', header: 'Out Time', width: 110, render: visit => visit.outTime, sortValue: visit => parseTimeOfDay(visit.outTime) ?? -1, title: visit => visit.outTime },
+    { key: 'duration', header: 'Duration', width: 110, render: visit => visit.duration, sortValue: visit => parseDurationToSeconds(visit.duration), title: visit => visit.duration },
+    { key: 'remarks', header: 'Formula', width: 200, render: visit => visit.remarks, sortValue: visit => visit.remarks || '' },
+];
 
 interface EmployeeProjectVisitProps {
     currentUser: User;
@@ -77,17 +45,20 @@ interface EmployeeProjectVisitProps {
     onUpdateVisits: React.Dispatch<React.SetStateAction<EmployeeVisit[]>>;
     activeTab: EmployeeVisitTab;
     onTabChange: (tab: EmployeeVisitTab) => void;
+    onAddProjectAliases?: (aliases: ProjectAlias[]) => void;
+    dutyPolicies: DutyPolicy[];
+    workCalendar: WorkCalendar;
 }
 
-const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser, projects, visits, onUpdateVisits, activeTab, onTabChange }) => {
+const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser, projects, visits, onUpdateVisits, activeTab, onTabChange, onAddProjectAliases, dutyPolicies, workCalendar }) => {
     // --- STATE ---
     
     // State for Records Tab
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [projectFilter, setProjectFilter] = useState('');
-    const [departmentFilter, setDepartmentFilter] = useState('');
-    const [searchQuery, setSearchQuery] = useState('');
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [projectFilter, setProjectFilter] = useQueryParam('project');
+    const [departmentFilter, setDepartmentFilter] = useQueryParam('department');
+    const [searchQuery, setSearchQuery] = useQueryParam('q');
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
     const [attendanceData, setAttendanceData] = useState<any[]>([]);
     
@@ -105,6 +76,7 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
     const fileInputRef = useRef<HTMLInputElement>(null);
     const { showLoading, hideLoading } = useLoading();
     const projectNames = useMemo(() => projects.map(p => p.name), [projects]);
+    const [importFile, setImportFile] = useState<File | null>(null);
 
     const filteredVisits = useMemo(() => {
         const lowercasedQuery = searchQuery.toLowerCase();
@@ -138,95 +110,32 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
     const handleClearRecords = () => {
         if (window.confirm('Are you sure you want to delete all visit records? This action cannot be undone.')) {
             onUpdateVisits([]);
+            logAuditEvent({ action: 'clear', entityType: 'employeeVisits', summary: `Cleared all ${visits.length} employee visit records`, before: { count: visits.length }, after: { count: 0 } });
             setFeedback({ message: 'All records have been cleared.', type: 'info' });
         }
     };
 
-    const handleVisitFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-    
-        showLoading();
-    
-        if (typeof window.Papa === 'undefined') {
-            setFeedback({ message: "CSV parsing library is not available.", type: 'error' });
-            hideLoading();
-            return;
-        }
-    
-        window.Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results: any) => {
-                try {
-                    const headers = results.meta.fields;
-                    const isValid = headers && VISIT_REQUIRED_HEADERS.length === headers.length && VISIT_REQUIRED_HEADERS.every((h, i) => headers[i]?.trim() === h);
-    
-                    if (!isValid) {
-                        setFeedback({ message: "CSV header mismatch. Please use the exact format from the downloaded template.", type: 'error' });
-                         if (event.target) event.target.value = '';
-                        return;
-                    }
-    
-                    const newVisits: EmployeeVisit[] = [];
-                    let hasError = false;
-    
-                    results.data.forEach((row: any, index: number) => {
-                        if (hasError) return;
-                        
-                        const requiredDataFields = ['Date', 'Visitor Name', 'Department', 'Designation', 'Visited Project Name', 'Entry Time', 'Out Time', 'Duration'];
-                        for (const field of requiredDataFields) {
-                            if (!row[field]) {
-                                setFeedback({ message: `Missing required data for "${field}" in row ${index + 2}.`, type: 'error' });
-                                hasError = true;
-                                return;
-                            }
-                        }
-    
-                        const formattedDate = parseAndFormatDate(row.Date);
-                        if (!formattedDate) {
-                            setFeedback({ message: `Invalid date format in row ${index + 2}: "${row.Date}".`, type: 'error' });
-                            hasError = true;
-                            return;
-                        }
-                        
-                        newVisits.push({
-                            id: Date.now() + index,
-                            date: formattedDate,
-                            visitorName: row['Visitor Name'],
-                            department: row['Department'],
-                            designation: row['Designation'],
-                            projectName: row['Visited Project Name'],
-                            entryTime: row['Entry Time'],
-                            outTime: row['Out Time'],
-                            duration: row['Duration'],
-                            remarks: row['Formula'] || '',
-                        });
-                    });
-    
-                    if (!hasError) {
-                        onUpdateVisits(prev => _.orderBy([...prev, ...newVisits], ['date'], ['desc']));
-                        setFeedback({ message: `Successfully imported ${newVisits.length} records.`, type: 'success' });
-                    }
-                } finally {
-                    hideLoading();
-                }
-            },
-            error: (error: any) => {
-                setFeedback({ message: `CSV parsing error: ${error.message}`, type: 'error' });
-                hideLoading();
-            }
-        });
-    
-        if (event.target) event.target.value = '';
+    const handleImportVisits = (rows: Record<EmployeeVisitImportKey, string>[], fileName: string) => {
+        const newVisits: EmployeeVisit[] = rows.map((row, index) => ({ id: Date.now() + index, ...row, visitorEmployeeId: row.visitorEmployeeId || undefined }));
+        onUpdateVisits(prev => _.orderBy([...prev, ...newVisits], ['date'], ['desc']));
+        logAuditEvent({ action: 'import', entityType: 'employeeVisits', summary: `Imported ${newVisits.length} employee visit records from ${fileName}`, before: { count: visits.length }, after: { count: visits.length + newVisits.length } });
+        setFeedback({ message: `Successfully imported ${newVisits.length} records.`, type: 'success' });
+    };
+
+    const handleDeleteVisits = (deleted: EmployeeVisit[]) => {
+        if (!window.confirm(`Delete ${deleted.length} selected visit record(s)? This action cannot be undone.`)) return;
+        const deletedIds = new Set(deleted.map(visit => visit.id));
+        onUpdateVisits(prev => prev.filter(visit => !deletedIds.has(visit.id)));
+        logAuditEvent({ action: 'delete', entityType: 'employeeVisits', summary: `Deleted ${deleted.length} employee visit records`, before: { count: visits.length }, after: { count: visits.length - deleted.length } });
+        setFeedback({ message: `Deleted ${deleted.length} record(s).`, type: 'info' });
     };
 
-    const handleDownloadRecordsCSV = () => {
+    const handleDownloadRecordsCSV = (records: EmployeeVisit[]) => {
         // User-defined headers
         const headers = ['Sl No', 'Date', 'Visitor Name', 'Department', 'Designation', 'Visited Project Name', 'Entry Time', 'Out Time', 'Duration', 'Formula'];
         
         // Map filtered data to an array of arrays, matching the header order
-        const dataForCsv = filteredVisits.map((visit, index) => [
+        const dataForCsv = records.map((visit, index) => [
             index + 1,
             visit.date,
             visit.visitorName,
@@ -374,6 +283,15 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
 
     return (
         <>
+            <ImportWizard
+                file={importFile}
+                title="Import Visit Records"
+                fields={EMPLOYEE_VISIT_IMPORT_FIELDS}
+                projects={projects}
+                onAddProjectAliases={onAddProjectAliases}
+                onImport={handleImportVisits}
+                onClose={() => setImportFile(null)}
+            />
             {/* Page Content */}
             <div className="px-4 sm:px-6 lg:px-8 pb-4 sm:pb-6 lg:pb-8">
                 {/* Gradient border container */}
@@ -382,6 +300,9 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
                         <div className="p-6">
                             {activeTab === 'records' && (
                                 <div className="fade-in">
+                                    <div className="mb-4">
+                                        <FilterPresets view="employeeProjectVisit" tab="records" currentUser={currentUser} />
+                                    </div>
                                     {/* Filters */}
                                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 pb-6 border-b border-slate-200">
                                         <div>
@@ -416,14 +337,14 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
                                        <div className="flex items-center gap-3 flex-wrap">
                                            <label htmlFor="csv-upload" className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500">
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
-                                                Import CSV File
+                                                Import CSV/Excel File
                                            </label>
-                                            <input id="csv-upload" type="file" ref={fileInputRef} onChange={handleVisitFileUpload} className="sr-only" accept=".csv" />
+                                            <input id="csv-upload" type="file" ref={fileInputRef} onChange={e => { setImportFile(e.target.files?.[0] ?? null); e.target.value = ''; }} className="sr-only" accept=".csv,.xlsx,.xls" />
                                             <button onClick={handleDownloadVisitTemplate} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 9.293a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                                                 Download Template
                                             </button>
-                                            <button onClick={handleDownloadRecordsCSV} disabled={filteredVisits.length === 0} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed">
+                                            <button onClick={() => handleDownloadRecordsCSV(filteredVisits)} disabled={filteredVisits.length === 0} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed">
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                                                 Export
                                             </button>
@@ -435,52 +356,27 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
                                             Clear Records
                                         </button>
                                     </div>
-                                    <div className="overflow-auto" style={{ maxHeight: '24rem' }}>
-                                        <table className="min-w-full divide-y divide-slate-200">
-                                            <thead className="bg-slate-50 sticky top-0">
-                                              <tr>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Sl No</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Date</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Visitor Name</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Department</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Designation</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Visited Project Name</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Entry Time</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Out Time</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Duration</th>
-                                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Formula</th>
-                                              </tr>
-                                            </thead>
-                                            <tbody className="bg-white divide-y divide-slate-200">
-                                              {filteredVisits.length > 0 ? filteredVisits.map((visit, index) => (
-                                                <tr key={visit.id} className="hover:bg-slate-50">
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{index + 1}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.date}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.visitorName}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.department}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.designation}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.projectName}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.entryTime}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.outTime}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.duration}</td>
-                                                  <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500 truncate max-w-xs" title={visit.remarks || ''}>{visit.remarks}</td>
-                                                </tr>
-                                              )) : (
-                                                <tr><td colSpan={10} className="text-center py-8 text-slate-500">No records match your criteria.</td></tr>
-                                              )}
-                                            </tbody>
-                                        </table>
-                                    </div>
+                                    <DataTable
+                                        tableId="employeeVisits"
+                                        columns={VISIT_COLUMNS}
+                                        rows={filteredVisits}
+                                        getRowId={visit => visit.id}
+                                        emptyMessage="No records match your criteria."
+                                        bulkActions={[
+                                            { label: 'Export Selected', onClick: handleDownloadRecordsCSV },
+                                            { label: 'Delete', onClick: handleDeleteVisits, variant: 'danger' },
+                                        ]}
+                                    />
                                 </div>
                             )}
                             {activeTab === 'departmentSummary' && (
                                 <div className="fade-in">
-                                    <AllDepartmentSummary visits={visits} departments={DEPARTMENTS} currentUser={currentUser} />
+                                    <AllDepartmentSummary visits={visits} departments={DEPARTMENTS} currentUser={currentUser} dutyPolicies={dutyPolicies} workCalendar={workCalendar} />
                                 </div>
                             )}
                             {activeTab === 'dutyAnalysis' && (
                                 <div className="fade-in">
-                                    <DutyAnalysis visits={visits} currentUser={currentUser} />
+                                    <DutyAnalysis visits={visits} currentUser={currentUser} dutyPolicies={dutyPolicies} workCalendar={workCalendar} />
                                 </div>
                             )}
                             {activeTab === 'summary' && (
@@ -502,6 +398,7 @@ const EmployeeProjectVisit: React.FC<EmployeeProjectVisitProps> = ({ currentUser
                                      onEmployeeChange={handleSummaryEmployeeChange}
                                      selectedDepartment={summarySelectedDepartment}
                                      onDepartmentChange={handleSummaryDepartmentChange}
+                                     workCalendar={workCalendar}
                                    />
                                 </div>
                             )}
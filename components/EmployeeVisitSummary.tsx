@@ -3,28 +3,9 @@ import { User, EmployeeVisit, ReportData } from '../types';
 import _ from 'lodash';
 import SearchableSelect from './SearchableSelect';
 import VisitSummaryPDFGenerator from './VisitSummaryPDFGenerator';
-
-// --- Helper Functions for Reporting ---
-const parseDurationToSeconds = (durationStr: string): number => {
-    if (!durationStr || typeof durationStr !== 'string') return 0;
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length !== 3 || parts.some(isNaN)) return 0;
-    const [hours, minutes, seconds] = parts;
-    return hours * 3600 + minutes * 60 + seconds;
-};
-
-const formatSecondsToHHMM = (totalSeconds: number): string => {
-    if (isNaN(totalSeconds) || totalSeconds < 0) return '00:00';
-    const sign = totalSeconds < 0 ? '-' : '';
-    const absSeconds = Math.abs(totalSeconds);
-
-    // Round to the nearest minute for accuracy
-    const totalMinutes = Math.round(absSeconds / 60);
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-};
+import { formatSecondsToHHMM, formatMonth, formatDateDDMMMYYYY, companyToday } from '../utils/time';
+import { WorkCalendar } from '../utils/workCalendar';
+import { buildVisitReport } from '../shared/reports.js';
 
 interface EmployeeDetailsTableProps {
     selectedEmployee: string;
@@ -51,9 +32,9 @@ const EmployeeDetailsTable: React.FC<EmployeeDetailsTableProps> = ({ selectedEmp
     const designation = attendanceRecord ? attendanceRecord['Designation'] : employeeDataFromVisits?.designation || 'N/A';
 
 
-    const [year, month] = selectedMonth.split('-');
-    const monthName = new Date(parseInt(year), parseInt(month) - 1, 1).toLocaleString('en-US', { month: 'long', year: 'numeric' });
-    const preparingDate = new Date().toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+    // As the PDF shows them.
+    const monthName = formatMonth(selectedMonth);
+    const preparingDate = formatDateDDMMMYYYY(companyToday());
 
     const cellClass = "py-1.5 px-3 border border-slate-200 bg-white";
     const headerCellClass = "font-semibold text-slate-600 pr-2";
@@ -96,6 +77,7 @@ interface EmployeeVisitSummaryProps {
     onEmployeeChange: (employee: string) => void;
     selectedDepartment: string;
     onDepartmentChange: (department: string) => void;
+    workCalendar: WorkCalendar;
 }
 
 const EmployeeVisitSummary: React.FC<EmployeeVisitSummaryProps> = ({
@@ -115,6 +97,7 @@ const EmployeeVisitSummary: React.FC<EmployeeVisitSummaryProps> = ({
     onEmployeeChange,
     selectedDepartment,
     onDepartmentChange,
+    workCalendar,
 }) => {
     const attendanceFileInputRef = useRef<HTMLInputElement>(null);
 
@@ -195,108 +178,22 @@ const EmployeeVisitSummary: React.FC<EmployeeVisitSummaryProps> = ({
     };
 
     const handleGenerateReport = () => {
-        const [year, month] = selectedMonth.split('-').map(Number);
-        
-        const visitsInMonth = visits.filter(visit => {
-            const visitDate = new Date(visit.date);
-            const monthMatch = visitDate.getFullYear() === year && visitDate.getMonth() + 1 === month;
-            const employeeMatch = !selectedEmployee || visit.visitorName === selectedEmployee;
-            const departmentMatch = !selectedDepartment || visit.department === selectedDepartment;
-            return monthMatch && employeeMatch;
-        });
+        const employeeVisits = selectedEmployee ? visits.filter(visit => visit.visitorName === selectedEmployee) : visits;
+        // No-visit days are only listed for a single employee.
+        const department = visits.find(v => v.visitorName === selectedEmployee)?.department;
+        const report = buildVisitReport(employeeVisits, selectedMonth, selectedEmployee ? { calendar: workCalendar, employee: { name: selectedEmployee, department } } : undefined);
 
-        // 1. Per Day Analysis
-        const perDayVisits = _.chain(visitsInMonth)
-            .groupBy('date')
-            .map((dayVisits, date) => ({
-                date,
-                visitCount: dayVisits.length,
-                totalDuration: _.sumBy(dayVisits, v => parseDurationToSeconds(v.duration)),
-            }))
-            .orderBy('date', 'asc')
-            .value();
-
-        // Summary Calculations
-        const totalVisitDays = perDayVisits.length;
-        const totalProjectsVisited = _.uniqBy(visitsInMonth, 'projectName').length;
-        const grandTotalDuration = _.sumBy(perDayVisits, 'totalDuration');
-
-        // 2. Per Project Analysis
-        const perProjectVisits = _.chain(visitsInMonth)
-            .groupBy('projectName')
-            .map((projectVisits, projectName) => ({
-                projectName,
-                visitCount: projectVisits.length,
-                totalDuration: _.sumBy(projectVisits, v => parseDurationToSeconds(v.duration)),
-            }))
-            .orderBy('visitCount', 'desc')
-            .value();
-
-        // 3. Duration Feedback
-        const durationCounts: { [key: string]: number } = {
-            'More than 20 Minutes': 0,
-            '10–19 Minutes': 0,
-            '5–9 Minutes': 0,
-            'Less than 5 Minutes': 0,
-        };
-        const improperVisits: EmployeeVisit[] = [];
-        visitsInMonth.forEach(visit => {
-            const seconds = parseDurationToSeconds(visit.duration);
-            if (seconds === 0) {
-                improperVisits.push(visit);
-                return;
-            }
-            const minutes = seconds / 60;
-            if (minutes > 20) durationCounts['More than 20 Minutes']++;
-            else if (minutes >= 10) durationCounts['10–19 Minutes']++;
-            else if (minutes >= 5) durationCounts['5–9 Minutes']++;
-            else durationCounts['Less than 5 Minutes']++;
-        });
-        const durationCountsArray = Object.entries(durationCounts).map(([category, count]) => ({ category, count }));
-
-        // 4. Daily Project Log
-        const dailyProjectsLog = _.chain(visitsInMonth)
-            .cloneDeep() // Avoid mutating original data
-            .orderBy('date', 'asc')
-            .map(v => ({ date: v.date, projectName: v.projectName }))
-            .value();
-
-        // 5. No Visit Days (Only calculated for a single employee)
-        const noVisitDays: { date: string; day: string; remark: string }[] = [];
-        if (selectedEmployee) {
-            const visitDates = new Set(visitsInMonth.map(v => v.date));
-            const daysInMonth = new Date(year, month, 0).getDate();
-            const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-            const employeeAttendanceRecord = attendanceData.find(rec => rec['Emp. Name'] === selectedEmployee);
-
-            for (let day = 1; day <= daysInMonth; day++) {
-                const currentDate = new Date(year, month - 1, day);
-                const dayOfWeek = currentDate.getDay();
-                
-                if (dayOfWeek >= 0 && dayOfWeek <= 4) { // Sunday to Thursday
-                    const dateStr = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-                    if (!visitDates.has(dateStr)) {
-                        const remark = employeeAttendanceRecord ? (employeeAttendanceRecord[String(day)] || '') : '';
-                        noVisitDays.push({ date: dateStr, day: dayNames[dayOfWeek], remark });
-                    }
-                }
-            }
-        }
-        
+        // A remark from the attendance import wins over the calendar's.
+        const employeeAttendanceRecord = attendanceData.find(rec => rec['Emp. Name'] === selectedEmployee);
         setReportData({
-            perDay: perDayVisits,
-            summary: { totalVisitDays, totalProjectsVisited, grandTotalDuration },
-            perProject: perProjectVisits,
-            durationCounts: durationCountsArray,
-            improperVisitCount: improperVisits.length,
-            improperVisits,
-            dailyProjects: dailyProjectsLog,
-            noVisitDays,
+            ...report,
+            noVisitDays: report.noVisitDays.map(d => ({
+                ...d,
+                remark: (employeeAttendanceRecord && employeeAttendanceRecord[String(Number(d.date.slice(8)))]) || d.remark,
+            })),
         });
-        
-        const monthName = new Date(year, month - 1, 1).toLocaleString('en-US', { month: 'long' });
-        const title = `Monthly Visit Report - ${monthName} ${year}`;
-        setReportTitle(title);
+
+        setReportTitle(`Monthly Visit Report - ${formatMonth(selectedMonth)}`);
         setIsReportGenerated(true);
     };
 
@@ -387,6 +284,7 @@ const EmployeeVisitSummary: React.FC<EmployeeVisitSummaryProps> = ({
                             selectedDepartment={selectedDepartment}
                             allVisits={visits}
                             attendanceData={attendanceData}
+                            workCalendar={workCalendar}
                         />
                     </div>
                     
@@ -457,7 +355,7 @@ const EmployeeVisitSummary: React.FC<EmployeeVisitSummaryProps> = ({
                     {/* No Visit Days - only show for single employee report */}
                     {selectedEmployee && reportData.noVisitDays.length > 0 && (
                         <div className="space-y-2">
-                            <h4 className="font-semibold text-slate-700">No Visit Days (Sun-Thu)</h4>
+                            <h4 className="font-semibold text-slate-700">No Visit Days (Working Days)</h4>
                             <div className="overflow-y-auto border rounded-lg max-h-80">
                                 <table className="min-w-full divide-y divide-slate-200">
                                     <thead className="bg-slate-50 sticky top-0">
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FilterPreset, User, View } from '../types';
+import ModalWrapper from './ModalWrapper';
+import FormField from './FormField';
+import Spinner from './Spinner';
+import FeedbackMessage from './FeedbackMessage';
+import { filterPresetsApi } from '../services/apiClient';
+import { parseHash, buildHash } from '../utils/routing';
+
+type PresetDraft = Pick<FilterPreset, 'name' | 'shared' | 'isDefault'> & { id?: number; replaceFilters: boolean };
+
+// The page's current filters, as kept in the URL by useQueryParam.
+const currentParams = (): Record<string, string> =>
+    Object.fromEntries([...parseHash(window.location.hash).params.entries()].filter(([, value]) => value !== ''));
+
+const PresetModal: React.FC<{ draft: PresetDraft; onClose: () => void; onSave: (draft: PresetDraft) => Promise<void> }> = ({ draft, onClose, onSave }) => {
+    const [preset, setPreset] = useState(draft);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSave(preset);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the preset.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const checkboxClasses = "h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500";
+
+    return (
+        <ModalWrapper isOpen onClose={onClose}>
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-md">
+                <div className="p-6 space-y-4">
+                    <h2 className="text-xl font-bold text-slate-800">{preset.id ? 'Edit Preset' : 'Save Filters as Preset'}</h2>
+                    <FormField id="preset-name" label="Name" value={preset.name} onChange={e => setPreset(prev => ({ ...prev, name: e.target.value }))} placeholder="e.g. Dhaka projects this month" required />
+                    {preset.id && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                            <input type="checkbox" checked={preset.replaceFilters} onChange={e => setPreset(prev => ({ ...prev, replaceFilters: e.target.checked }))} className={checkboxClasses} />
+                            Replace its filters with the current ones
+                        </label>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={!!preset.isDefault} onChange={e => setPreset(prev => ({ ...prev, isDefault: e.target.checked }))} className={checkboxClasses} />
+                        Apply when I open this page
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={!!preset.shared} onChange={e => setPreset(prev => ({ ...prev, shared: e.target.checked }))} className={checkboxClasses} />
+                        Share with colleagues
+                    </label>
+                    {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+                </div>
+                <div className="flex justify-end p-4 gap-2 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 disabled:bg-slate-400 flex items-center gap-2">
+                        {isSaving && <Spinner className="h-4" />}
+                        Save
+                    </button>
+                </div>
+            </form>
+        </ModalWrapper>
+    );
+};
+
+interface FilterPresetsProps {
+    view: View;
+    /** The tab whose filters the presets hold, for tabbed views. */
+    tab?: string;
+    currentUser: User;
+}
+
+/**
+ * Saves the page's filters as named presets and applies them again. Presets belong to the user who saved
+ * them and can be shared with everyone; a user's default preset is applied when the page opens without filters.
+ */
+const FilterPresets: React.FC<FilterPresetsProps> = ({ view, tab, currentUser }) => {
+    const [presets, setPresets] = useState<FilterPreset[]>([]);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [editingDraft, setEditingDraft] = useState<PresetDraft | null>(null);
+    const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+    // Only a page opened without filters gets the default preset.
+    const openedWithoutFilters = useRef(Object.keys(currentParams()).length === 0);
+
+    const isOwn = (preset: FilterPreset) => preset.owner.id === currentUser.id;
+    const selected = presets.find(p => p.id === selectedId) ?? null;
+
+    const applyPreset = (preset: FilterPreset, { replace = false } = {}) => {
+        const hash = buildHash(view, tab, preset.params);
+        setSelectedId(preset.id);
+        // Either way `hashchange` fires, so every filter on the page picks up the preset's values.
+        if (replace) window.location.replace(hash);
+        else window.location.hash = hash;
+    };
+
+    useEffect(() => {
+        let isCancelled = false;
+        filterPresetsApi.list({ pageSize: 500 })
+            .then(result => {
+                if (isCancelled) return;
+                const pagePresets = result.data
+                    .filter(p => p.view === view && (p.tab ?? '') === (tab ?? ''))
+                    .sort((a, b) => a.name.localeCompare(b.name));
+                setPresets(pagePresets);
+                const defaultPreset = pagePresets.find(p => p.isDefault && p.owner.id === currentUser.id);
+                if (defaultPreset && openedWithoutFilters.current && Object.keys(currentParams()).length === 0) {
+                    applyPreset(defaultPreset, { replace: true });
+                }
+            })
+            .catch(err => console.error('Could not load filter presets:', err));
+        return () => { isCancelled = true; };
+    }, [view, tab, currentUser.id]);
+
+    const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const preset = presets.find(p => p.id === Number(e.target.value));
+        if (preset) applyPreset(preset);
+        else setSelectedId(null);
+    };
+
+    const handleSaveAs = () => {
+        if (Object.keys(currentParams()).length === 0) {
+            setFeedback({ message: 'Set some filters first, then save them as a preset.', type: 'info' });
+            return;
+        }
+        setEditingDraft({ name: '', shared: false, isDefault: false, replaceFilters: true });
+    };
+
+    const handleSave = async (draft: PresetDraft) => {
+        // Saving a default unmarks the user's previous default on the server.
+        const clearDefaults = (saved: FilterPreset) => (p: FilterPreset) => (saved.isDefault && isOwn(p) && p.id !== saved.id ? { ...p, isDefault: false } : p);
+        if (draft.id) {
+            const existing = presets.find(p => p.id === draft.id)!;
+            const saved = await filterPresetsApi.update({
+                ...existing,
+                name: draft.name,
+                shared: draft.shared,
+                isDefault: draft.isDefault,
+                params: draft.replaceFilters ? currentParams() : existing.params,
+            });
+            setPresets(prev => prev.map(p => p.id === saved.id ? saved : p).map(clearDefaults(saved)));
+        } else {
+            const saved = await filterPresetsApi.create({
+                name: draft.name,
+                view,
+                ...(tab && { tab }),
+                params: currentParams(),
+                shared: draft.shared,
+                isDefault: draft.isDefault,
+            } as Omit<FilterPreset, 'id'>);
+            setPresets(prev => [...prev.map(clearDefaults(saved)), saved].sort((a, b) => a.name.localeCompare(b.name)));
+            setSelectedId(saved.id);
+        }
+        setFeedback({ message: `Preset "${draft.name}" saved.`, type: 'success' });
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete the preset "${selected.name}"?${selected.shared ? ' Colleagues you shared it with will lose it too.' : ''}`)) return;
+        try {
+            await filterPresetsApi.remove(selected.id);
+            setPresets(prev => prev.filter(p => p.id !== selected.id));
+            setSelectedId(null);
+        } catch (err) {
+            setFeedback({ message: err instanceof Error ? err.message : 'Could not delete the preset.', type: 'error' });
+        }
+    };
+
+    const ownPresets = presets.filter(isOwn);
+    const sharedPresets = presets.filter(p => !isOwn(p));
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor={`filter-presets-${view}`} className="text-sm font-medium text-slate-700">Preset</label>
+            <select id={`filter-presets-${view}`} value={selectedId ?? ''} onChange={handleSelect} className="px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
+                <option value="">{presets.length > 0 ? '-- Choose a preset --' : 'No saved presets'}</option>
+                {ownPresets.length > 0 && (
+                    <optgroup label="My presets">
+                        {ownPresets.map(p => <option key={p.id} value={p.id}>{p.name}{p.isDefault ? ' (default)' : ''}{p.shared ? ' (shared)' : ''}</option>)}
+                    </optgroup>
+                )}
+                {sharedPresets.length > 0 && (
+                    <optgroup label="Shared with me">
+                        {sharedPresets.map(p => <option key={p.id} value={p.id}>{p.name} - {p.owner.name}</option>)}
+                    </optgroup>
+                )}
+            </select>
+            <button type="button" onClick={handleSaveAs} className="px-3 py-1.5 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Save Filters...</button>
+            {selected && isOwn(selected) && (
+                <>
+                    <button type="button" onClick={() => setEditingDraft({ id: selected.id, name: selected.name, shared: selected.shared, isDefault: selected.isDefault, replaceFilters: false })} className="text-sm text-orange-600">Edit</button>
+                    <button type="button" onClick={handleDelete} className="text-sm text-red-600">Delete</button>
+                </>
+            )}
+            {editingDraft && <PresetModal draft={editingDraft} onClose={() => setEditingDraft(null)} onSave={handleSave} />}
+            {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
+        </div>
+    );
+};
+
+export default FilterPresets;
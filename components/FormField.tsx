@@ -3,7 +3,7 @@ import React from 'react';
 interface FormFieldProps {
   id: string;
   label: string;
-  type?: 'text' | 'email' | 'tel' | 'password';
+  type?: 'text' | 'email' | 'tel' | 'password' | 'date';
   as?: 'input' | 'textarea';
   value: string;
   onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
@@ -1,71 +1,12 @@
 import React, { useMemo, useRef, useState } from 'react';
-import { ITAssignedIssue, User } from '../types';
+import { ITAssignedIssue, ITAnalysis, User } from '../types';
 import _ from 'lodash';
 import { useLoading } from '../contexts/LoadingContext';
-
-const formatDateDDMMMYYYY = (date: Date | string | null): string => {
-    if (!date) return '';
-    try {
-        if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
-            date = `${date}T00:00:00Z`;
-        }
-        const d = new Date(date);
-        
-        if (isNaN(d.getTime())) return String(date);
-
-        const day = String(d.getUTCDate()).padStart(2, '0');
-        const month = d.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
-        const year = d.getUTCFullYear();
-
-        return `${day}-${month}-${year}`;
-    } catch (e) {
-        return String(date); // Fallback
-    }
-};
-
-interface AnalysisData {
-    totalAssignedIssues: number;
-    issueCount: number;
-    offlineCount: number;
-    zoneSummary: {
-        zone: string;
-        count: number;
-        projects: string[];
-    }[];
-    projectSummary: [string, number][];
-    top5CommonProblems: {
-        issue: string;
-        count: number;
-        latestProject: string;
-        latestDate: Date | null;
-        projectSpecificCount: number;
-    }[];
-    issueTimeline: {
-        issue: string;
-        projectName: string;
-        count: number;
-        timelines: { start: Date, end: Date }[];
-        totalActiveDays: number;
-        firstReported: Date | null;
-        lastReported: Date | null;
-        solutionDate: Date | string | null;
-        resolutionTimeInDays: number | null;
-    }[];
-    averageResolutionTime: number;
-    longestOpenIssue: {
-        issue: string;
-        projectName: string;
-        resolutionTimeInDays: number | null;
-    } | undefined;
-    mostFrequentIssue: {
-        issue: string;
-        projectName: string;
-        count: number;
-    } | null;
-}
+import { formatDateDDMMMYYYY, formatMonth, companyToday } from '../utils/time';
+import { drawItSummaryPdf } from '../shared/reportPdfs.js';
 
 interface ITAnalysisTabProps {
-    analysisData: AnalysisData | null;
+    analysisData: ITAnalysis | null;
     currentUser: User;
 }
 
@@ -297,145 +238,10 @@ const ITAnalysisTab: React.FC<ITAnalysisTabProps> = ({ analysisData, currentUser
         showLoading();
 
         try {
-            const { jsPDF } = window.jspdf;
-            const doc = new jsPDF('p', 'mm', 'legal'); // Use legal size
-            const pageWidth = doc.internal.pageSize.getWidth();
-            const pageHeight = doc.internal.pageSize.getHeight();
-            const margin = 12;
-
-            const addHeaderFooterToAllPages = () => {
-                const totalPages = (doc as any).internal.getNumberOfPages();
-                for (let i = 1; i <= totalPages; i++) {
-                    doc.setPage(i);
-                    // Header
-                    const headerStartY = 15;
-                    doc.setFont('helvetica', 'bold').setFontSize(14).setTextColor(40);
-                    doc.text("Credence Housing Limited", pageWidth / 2, headerStartY, { align: 'center' });
-                    doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(100);
-                    doc.text("House-15, Road-13/A, Dhanmondi R/A, Dhaka-1209", pageWidth / 2, headerStartY + 6, { align: 'center' });
-                    const currentMonthName = new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
-                    doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(40);
-                    doc.text(`IT Response Timeline - Summary Report (${currentMonthName})`, pageWidth / 2, headerStartY + 12, { align: 'center' });
-                    
-                    // Footer
-                    doc.setFontSize(9).setTextColor(150);
-                    const preparedByStr = `Prepared by\n${currentUser.name}\n${currentUser.designation}`;
-                    doc.text(preparedByStr, margin, pageHeight - 18);
-                    const pageStr = `Page ${i} of ${totalPages}`;
-                    doc.text(pageStr, pageWidth - margin, pageHeight - 10, { align: 'right' });
-                }
-            };
-
-            // --- PAGE 1 ---
-            let lastY = 38; // Start below header area
-            doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(40);
-            doc.text('Data Analysis Summary', margin, lastY);
-            lastY += 6;
-
-            // Summary Cards
-            const cardWidth = (pageWidth - margin * 2 - 10) / 3;
-            const cardHeight = 20;
-            doc.setFillColor(224, 231, 255).roundedRect(margin, lastY, cardWidth, cardHeight, 3, 3, 'F');
-            doc.setFont('helvetica', 'bold').setFontSize(16).text(String(analysisData.totalAssignedIssues), margin + 5, lastY + 10);
-            doc.setFont('helvetica', 'normal').setFontSize(9).text('Total Records', margin + 5, lastY + 15);
-            doc.setFillColor(254, 243, 199).roundedRect(margin + cardWidth + 5, lastY, cardWidth, cardHeight, 3, 3, 'F');
-            doc.setFont('helvetica', 'bold').setFontSize(16).text(String(analysisData.issueCount), margin + cardWidth + 10, lastY + 10);
-            doc.setFont('helvetica', 'normal').setFontSize(9).text('Issues Reported', margin + cardWidth + 10, lastY + 15);
-            doc.setFillColor(209, 250, 229).roundedRect(margin + (cardWidth + 5) * 2, lastY, cardWidth, cardHeight, 3, 3, 'F');
-            doc.setFont('helvetica', 'bold').setFontSize(16).text(String(analysisData.offlineCount), margin + (cardWidth + 5) * 2 + 5, lastY + 10);
-            doc.setFont('helvetica', 'normal').setFontSize(9).text('Marked Offline', margin + (cardWidth + 5) * 2 + 5, lastY + 15);
-            lastY += cardHeight + 10;
-
-            const tableOptions = { theme: 'grid', headStyles: { fillColor: [41, 51, 61], fontSize: 8 }, bodyStyles: { fontSize: 7.5 }, styles: { overflow: 'linebreak' } };
-            
-            // Two-column layout for tables
-            const colWidth = (pageWidth - margin * 2 - 5) / 2;
-            
-            // Left Column
-            const leftColX = margin;
-            (doc as any).autoTable({
-                ...tableOptions,
-                head: [[{ content: 'Top 5 Common Problems', colSpan: 3, styles: { halign: 'center' } }], ['#', 'Problem', 'Count']],
-                body: analysisData.top5CommonProblems.map((p, i) => [i + 1, p.issue, p.count]),
-                startY: lastY,
-                tableWidth: colWidth,
-                margin: { left: leftColX, right: pageWidth - leftColX - colWidth }
+            const doc = drawItSummaryPdf(window.jspdf.jsPDF, analysisData, {
+                title: `IT Response Timeline - Summary Report (${formatMonth(companyToday().slice(0, 7))})`,
+                preparedBy: currentUser,
             });
-            let leftColY = (doc as any).lastAutoTable.finalY;
-
-            (doc as any).autoTable({
-                ...tableOptions,
-                head: [[{ content: 'Zone Breakdown', colSpan: 2, styles: { halign: 'center' } }], ['Zone', 'Count']],
-                body: analysisData.zoneSummary.map(z => [z.zone, z.count]),
-                startY: leftColY + 5,
-                tableWidth: colWidth,
-                margin: { left: leftColX, right: pageWidth - leftColX - colWidth }
-            });
-
-            // Right Column
-            const rightColX = margin + colWidth + 5;
-            (doc as any).autoTable({
-                ...tableOptions,
-                head: [[{ content: 'Project Breakdown', colSpan: 2, styles: { halign: 'center' } }], ['Project', 'Count']],
-                body: analysisData.projectSummary,
-                startY: lastY,
-                tableWidth: colWidth,
-                margin: { left: rightColX, right: margin }
-            });
-
-            // --- PAGE 2 ---
-            doc.addPage('legal', 'p');
-            lastY = 38;
-
-            // Timeline Highlights
-            doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(40);
-            doc.text('Timeline Highlights', margin, lastY);
-            lastY += 6;
-            doc.setFillColor(241, 245, 249).roundedRect(margin, lastY, cardWidth, cardHeight, 3, 3, 'F');
-            doc.setFont('helvetica', 'bold').setFontSize(16).text(`${analysisData.averageResolutionTime.toFixed(1)} Days`, margin + 5, lastY + 10);
-            doc.setFont('helvetica', 'normal').setFontSize(9).text('Avg. Time to Resolve', margin + 5, lastY + 15);
-            doc.setFillColor(241, 245, 249).roundedRect(margin + cardWidth + 5, lastY, cardWidth, cardHeight, 3, 3, 'F');
-            doc.setFont('helvetica', 'bold').setFontSize(10).text(_.truncate(analysisData.longestOpenIssue?.issue || 'N/A', { length: 25 }), margin + cardWidth + 10, lastY + 8);
-            doc.setFont('helvetica', 'normal').setFontSize(9).text(`Longest Open Issue (${analysisData.longestOpenIssue?.resolutionTimeInDays || 0} days)`, margin + cardWidth + 10, lastY + 15);
-            doc.setFillColor(241, 245, 249).roundedRect(margin + (cardWidth + 5) * 2, lastY, cardWidth, cardHeight, 3, 3, 'F');
-            doc.setFont('helvetica', 'bold').setFontSize(10).text(_.truncate(analysisData.mostFrequentIssue?.issue || 'N/A', { length: 25 }), margin + (cardWidth + 5) * 2 + 5, lastY + 8);
-            doc.setFont('helvetica', 'normal').setFontSize(9).text(`Most Frequent Issue (${analysisData.mostFrequentIssue?.count || 0} times)`, margin + (cardWidth + 5) * 2 + 5, lastY + 15);
-            lastY += cardHeight + 10;
-            
-            // Unique Issue Timeline (2 columns)
-            const timelineData = analysisData.issueTimeline;
-            const timelineHalf = Math.ceil(timelineData.length / 2);
-            const timelineCol1 = timelineData.slice(0, timelineHalf);
-            const timelineCol2 = timelineData.slice(timelineHalf);
-            const timelineHeaders = [['Project', 'Issue', 'Count', 'Status']];
-            
-            const timelineTableOptions = {
-                 ...tableOptions,
-                 head: [[{ content: 'Unique Issue Timeline & Resolution', colSpan: 4, styles: { halign: 'center' } }], ...timelineHeaders],
-                 columnStyles: { 0: { cellWidth: 25 }, 1: { cellWidth: 'auto' }, 2: { cellWidth: 12 }, 3: { cellWidth: 15 } }
-            };
-
-            if (timelineCol1.length > 0) {
-                 (doc as any).autoTable({
-                    ...timelineTableOptions,
-                    body: timelineCol1.map(t => [t.projectName, t.issue, t.count, t.solutionDate === 'Ongoing' ? 'Ongoing' : 'Resolved']),
-                    startY: lastY,
-                    tableWidth: colWidth,
-                    margin: { left: leftColX, right: pageWidth - leftColX - colWidth }
-                });
-            }
-             if (timelineCol2.length > 0) {
-                 (doc as any).autoTable({
-                    ...timelineTableOptions,
-                    body: timelineCol2.map(t => [t.projectName, t.issue, t.count, t.solutionDate === 'Ongoing' ? 'Ongoing' : 'Resolved']),
-                    startY: lastY,
-                    tableWidth: colWidth,
-                    margin: { left: rightColX, right: margin }
-                });
-            }
-
-            // Finalize
-            addHeaderFooterToAllPages();
             doc.save(`it-analysis-summary-${new Date().toISOString().split('T')[0]}.pdf`);
 
         } catch (error) {
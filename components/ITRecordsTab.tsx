@@ -1,5 +1,7 @@
 import React from 'react';
 import { ITAssignedIssue } from '../types';
+import { formatDateDDMMMYYYY } from '../utils/time';
+import DataTable, { DataTableColumn } from './DataTable';
 
 const getStatusClass = (status: ITAssignedIssue['status']) => {
     switch (status) {
@@ -9,25 +11,21 @@ const getStatusClass = (status: ITAssignedIssue['status']) => {
     }
 };
 
-const formatDateDDMMMYYYY = (date: Date | string | null): string => {
-    if (!date) return '';
-    try {
-        if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
-            date = `${date}T00:00:00Z`;
-        }
-        const d = new Date(date);
-        
-        if (isNaN(d.getTime())) return String(date);
-
-        const day = String(d.getUTCDate()).padStart(2, '0');
-        const month = d.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
-        const year = d.getUTCFullYear();
-
-        return `${day}-${month}-${year}`;
-    } catch (e) {
-        return String(date); // Fallback
-    }
-};
+const COLUMNS: DataTableColumn<ITAssignedIssue>[] = [
+    { key: 'id', header: 'SL No', width: 110, render: issue => issue.id, sortValue: issue => issue.id },
+    { key: 'reportedAt', header: 'Date', width: 130, render: issue => formatDateDDMMMYYYY(issue.reportedAt), sortValue: issue => new Date(issue.reportedAt).getTime(), title: issue => formatDateDDMMMYYYY(issue.reportedAt) },
+    { key: 'projectName', header: 'Project Name', width: 180, render: issue => issue.projectName, sortValue: issue => issue.projectName, cellClassName: 'font-medium text-slate-900' },
+    { key: 'zone', header: 'Zone', width: 120, render: issue => issue.zone, sortValue: issue => issue.zone },
+    {
+        key: 'status',
+        header: 'Status',
+        width: 120,
+        render: issue => <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusClass(issue.status)}`}>{issue.status}</span>,
+        sortValue: issue => issue.status,
+    },
+    { key: 'issue', header: 'Assigned Issue', width: 260, render: issue => issue.issue, sortValue: issue => issue.issue },
+    { key: 'assignedTo', header: 'Assigned To', width: 160, render: issue => issue.assignedTo, sortValue: issue => issue.assignedTo },
+];
 
 interface ITRecordsTabProps {
     filteredIssues: ITAssignedIssue[];
@@ -39,6 +37,7 @@ interface ITRecordsTabProps {
     onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
     onDownloadTemplate: () => void;
     onClearRecords: () => void;
+    onDeleteIssues: (issues: ITAssignedIssue[]) => void;
     assignedIssuesCount: number;
 }
 
@@ -52,6 +51,7 @@ const ITRecordsTab: React.FC<ITRecordsTabProps> = ({
     onFileUpload,
     onDownloadTemplate,
     onClearRecords,
+    onDeleteIssues,
     assignedIssuesCount,
 }) => {
     return (
@@ -88,42 +88,15 @@ const ITRecordsTab: React.FC<ITRecordsTabProps> = ({
                     </div>
                 </div>
             </div>
-            <div className="overflow-x-auto">
-                {filteredIssues.length > 0 ? (
-                    <table className="min-w-full divide-y divide-slate-200">
-                        <thead className="bg-slate-50">
-                            <tr>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">SL No</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Date</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Project Name</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Zone</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Status</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Assigned Issue</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Assigned To</th>
-                            </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-slate-200">
-                            {filteredIssues.map((assignedIssue) => (
-                                <tr key={assignedIssue.id} className="hover:bg-slate-50 transition-colors">
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{assignedIssue.id}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{formatDateDDMMMYYYY(assignedIssue.reportedAt)}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{assignedIssue.projectName}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{assignedIssue.zone}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm">
-                                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusClass(assignedIssue.status)}`}>
-                                            {assignedIssue.status}
-                                        </span>
-                                    </td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{assignedIssue.issue}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{assignedIssue.assignedTo}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                ) : (
-                    <p className="p-6 text-center text-slate-500">No assigned issues found. Try importing a CSV file.</p>
-                )}
-            </div>
+            <DataTable
+                tableId="itAssignedIssues"
+                columns={COLUMNS}
+                rows={filteredIssues}
+                getRowId={issue => issue.id}
+                emptyMessage="No assigned issues found. Try importing a CSV file."
+                bulkActions={[{ label: 'Delete', onClick: onDeleteIssues, variant: 'danger' }]}
+                className="px-6 pt-4 pb-6"
+            />
         </div>
     );
 };
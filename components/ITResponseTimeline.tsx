@@ -4,6 +4,8 @@ import _ from 'lodash';
 import { ITAssignedIssue, ITResponseTimelineTab, User } from '../types';
 import ITRecordsTab from './ITRecordsTab';
 import ITAnalysisTab from './ITAnalysisTab';
+import { parseDateAsUtc } from '../utils/time';
+import { analyzeItIssues } from '../shared/reports.js';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -12,65 +14,6 @@ declare global {
     }
 }
 
-/**
- * Robustly parses a date string from a CSV file into a Date object, treating it as UTC.
- * Handles DD-MMM-YYYY, DD-MMM-YY, YYYY-MM-DD, and other common formats.
- * @param dateStr The date string from the CSV.
- * @returns A Date object representing UTC midnight, or null if parsing fails.
- */
-const parseDateFromCSV = (dateStr: string): Date | null => {
-    if (!dateStr || typeof dateStr !== 'string') return null;
-    const s = dateStr.trim();
-
-    // 1. Try DD-MMM-YYYY or DD-MMM-YY (e.g., 01-Sep-2025 or 01-Sep-25)
-    const dmyMatch = s.match(/^(\d{1,2})-([A-Za-z]{3})-(\d{4}|\d{2})$/);
-    if (dmyMatch) {
-        const day = parseInt(dmyMatch[1], 10);
-        const monthStr = dmyMatch[2];
-        let year = parseInt(dmyMatch[3], 10);
-        
-        if (year < 100) year += 2000;
-        
-        const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-        const monthIndex = monthNames.findIndex(m => m.toLowerCase() === monthStr.toLowerCase());
-
-        if (monthIndex > -1) {
-            const date = new Date(Date.UTC(year, monthIndex, day));
-            if (!isNaN(date.getTime())) return date;
-        }
-    }
-
-    // 2. Try YYYY-MM-DD (ISO format without time)
-    const ymdMatch = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-    if (ymdMatch) {
-        const year = parseInt(ymdMatch[1], 10);
-        const month = parseInt(ymdMatch[2], 10) - 1; // month is 0-indexed
-        const day = parseInt(ymdMatch[3], 10);
-        const date = new Date(Date.UTC(year, month, day));
-        if (!isNaN(date.getTime())) return date;
-    }
-
-    // 3. Try MM/DD/YYYY or M/D/YYYY (common US format)
-    const mdyMatch = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (mdyMatch) {
-        const month = parseInt(mdyMatch[1], 10) - 1;
-        const day = parseInt(mdyMatch[2], 10);
-        const year = parseInt(mdyMatch[3], 10);
-        const date = new Date(Date.UTC(year, month, day));
-        if (!isNaN(date.getTime())) return date;
-    }
-    
-    // 4. Last resort: Generic parsing (can be unreliable due to timezone)
-    // We convert to UTC components to strip local timezone information.
-    const fallbackDate = new Date(s);
-    if (!isNaN(fallbackDate.getTime())) {
-        return new Date(Date.UTC(fallbackDate.getFullYear(), fallbackDate.getMonth(), fallbackDate.getDate()));
-    }
-
-    console.warn(`Could not parse date: "${s}"`);
-    return null;
-};
-
 interface ITResponseTimelineProps {
     currentUser: User;
     assignedIssues: ITAssignedIssue[];
@@ -98,131 +41,7 @@ const ITResponseTimeline: React.FC<ITResponseTimelineProps> = ({ currentUser, as
         });
     }, [assignedIssues, statusFilter, searchQuery]);
     
-    const analysisData = useMemo(() => {
-        if (assignedIssues.length === 0) return null;
-
-        const mostRecentDateInDataset = _.maxBy(assignedIssues, 'reportedAt')?.reportedAt;
-        
-        const zoneDetails = _.chain(assignedIssues)
-            .groupBy('zone')
-            .map((issuesInZone, zoneName) => {
-                return {
-                    zone: zoneName,
-                    count: issuesInZone.length,
-                    projects: _.uniq(issuesInZone.map(issue => issue.projectName)).sort(),
-                };
-            })
-            .orderBy(['count'], ['desc'])
-            .value();
-
-        const statusSummary = _.countBy(assignedIssues, 'status');
-        const projectSummary = _.countBy(assignedIssues, 'projectName');
-
-        // New calculation for top 5 common problems with details
-        const issuesByDescription = _.groupBy(assignedIssues, 'issue');
-        const top5CommonProblems = _.chain(Object.entries(issuesByDescription))
-            .map(([issue, issues]) => {
-                const latestIssue = _.maxBy(issues, 'reportedAt');
-                const latestProjectName = latestIssue?.projectName || 'N/A';
-                const projectSpecificCount = issues.filter(i => i.projectName === latestProjectName).length;
-                return {
-                    issue: issue,
-                    count: issues.length,
-                    latestProject: latestProjectName,
-                    latestDate: latestIssue?.reportedAt || null,
-                    projectSpecificCount: projectSpecificCount,
-                };
-            })
-            .orderBy(['count'], ['desc'])
-            .slice(0, 5)
-            .value();
-
-        const issueTimelineData = _.chain(assignedIssues)
-            .groupBy(t => `${t.issue}|${t.projectName}`)
-            .map((groupedIssues, issueAndProject) => {
-                const [issue, projectName] = issueAndProject.split('|');
-                
-                const uniqueDates = _.uniqBy(groupedIssues, t => t.reportedAt.getTime())
-                                     .map(t => t.reportedAt)
-                                     .sort((a, b) => a.getTime() - b.getTime());
-
-                const timelines: { start: Date, end: Date }[] = [];
-                let totalActiveDays = 0;
-
-                if (uniqueDates.length > 0) {
-                    let currentTimeline = { start: uniqueDates[0], end: uniqueDates[0] };
-                    for (let i = 1; i < uniqueDates.length; i++) {
-                        const prevDate = uniqueDates[i - 1];
-                        const currentDate = uniqueDates[i];
-                        const diffDays = (currentDate.getTime() - prevDate.getTime()) / (1000 * 3600 * 24);
-                        if (diffDays === 1) {
-                            currentTimeline.end = currentDate;
-                        } else {
-                            timelines.push(currentTimeline);
-                            currentTimeline = { start: currentDate, end: currentDate };
-                        }
-                    }
-                    timelines.push(currentTimeline);
-                    totalActiveDays = timelines.reduce((sum, tl) => sum + ((tl.end.getTime() - tl.start.getTime()) / (1000 * 3600 * 24) + 1), 0);
-                }
-
-                let solutionDate: Date | string | null = null;
-                let resolutionTimeInDays: number | null = null;
-                
-                if (timelines.length > 0 && mostRecentDateInDataset) {
-                    const latestTimeline = timelines[timelines.length - 1];
-                    const isOngoing = latestTimeline.end.getTime() === mostRecentDateInDataset.getTime();
-                    
-                    if (isOngoing) {
-                        solutionDate = 'Ongoing';
-                        resolutionTimeInDays = Math.ceil((mostRecentDateInDataset.getTime() - latestTimeline.start.getTime()) / (1000 * 3600 * 24)) + 1;
-                    } else {
-                        const resolvedDate = new Date(latestTimeline.end.getTime());
-                        resolvedDate.setUTCDate(resolvedDate.getUTCDate() + 1);
-                        solutionDate = resolvedDate;
-                        resolutionTimeInDays = Math.ceil((solutionDate.getTime() - latestTimeline.start.getTime()) / (1000 * 3600 * 24));
-                    }
-                }
-
-                return {
-                    issue,
-                    projectName,
-                    count: groupedIssues.length,
-                    timelines,
-                    totalActiveDays,
-                    firstReported: uniqueDates.length > 0 ? uniqueDates[0] : null,
-                    lastReported: uniqueDates.length > 0 ? uniqueDates[uniqueDates.length - 1] : null,
-                    solutionDate,
-                    resolutionTimeInDays,
-                };
-            })
-            .orderBy('count', 'desc')
-            .value();
-            
-        // --- New Summary Metrics ---
-        const resolvedIssues = issueTimelineData.filter(t => typeof t.resolutionTimeInDays === 'number' && t.solutionDate !== 'Ongoing');
-        const averageResolutionTime = resolvedIssues.length > 0 ? _.meanBy(resolvedIssues, 'resolutionTimeInDays') : 0;
-        
-        const ongoingIssues = issueTimelineData.filter(t => t.solutionDate === 'Ongoing');
-        const longestOpenIssue = _.maxBy(ongoingIssues, 'resolutionTimeInDays');
-        
-        const mostFrequentIssue = issueTimelineData.length > 0 ? issueTimelineData[0] : null;
-
-
-        return {
-            totalAssignedIssues: assignedIssues.length,
-            issueCount: statusSummary['Issue'] || 0,
-            offlineCount: statusSummary['Offline'] || 0,
-            zoneSummary: zoneDetails,
-            projectSummary: _.orderBy(Object.entries(projectSummary), ([_project, count]) => count, ['desc']),
-            top5CommonProblems,
-            issueTimeline: issueTimelineData,
-            // New summary data
-            averageResolutionTime,
-            longestOpenIssue,
-            mostFrequentIssue,
-        };
-    }, [assignedIssues]);
+    const analysisData = useMemo(() => analyzeItIssues(assignedIssues), [assignedIssues]);
 
     const handleDownloadTemplate = () => {
         if (typeof window.Papa === 'undefined') {
@@ -284,7 +103,7 @@ const ITResponseTimeline: React.FC<ITResponseTimelineProps> = ({ currentUser, as
                     }
                     if (errorOccurred) continue;
                     
-                    const reportedAt = parseDateFromCSV(row['Date']);
+                    const reportedAt = parseDateAsUtc(row['Date'], 'mdy');
                     if (!reportedAt) {
                          setFeedback({ message: `Row ${index + 2}: Invalid or unsupported 'Date' format: "${row['Date']}".`, type: 'error' });
                          errorOccurred = true;
@@ -330,6 +149,13 @@ const ITResponseTimeline: React.FC<ITResponseTimelineProps> = ({ currentUser, as
         }
     };
 
+    const handleDeleteIssues = (issues: ITAssignedIssue[]) => {
+        if (!window.confirm(`Delete ${issues.length} selected IT timeline record(s)? This action cannot be undone.`)) return;
+        const deletedIds = new Set(issues.map(issue => issue.id));
+        onUpdateAssignedIssues(assignedIssues.filter(issue => !deletedIds.has(issue.id)));
+        setFeedback({ message: `Deleted ${issues.length} record(s).`, type: 'info' });
+    };
+
     return (
         <>
             <div className="px-4 sm:px-6 lg:px-8 pb-4 sm:pb-6 lg:pb-8">
@@ -346,6 +172,7 @@ const ITResponseTimeline: React.FC<ITResponseTimelineProps> = ({ currentUser, as
                                 onFileUpload={handleFileUpload}
                                 onDownloadTemplate={handleDownloadTemplate}
                                 onClearRecords={handleClearRecords}
+                                onDeleteIssues={handleDeleteIssues}
                                 assignedIssuesCount={assignedIssues.length}
                             />
                         )}
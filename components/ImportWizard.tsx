@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Project } from '../types';
+import { ImportField, ImportSheet, ColumnMapping, ValidatedRow, readImportFile, autoMapColumns, validateRows, rejectedRowsCsv } from '../utils/importRows';
+import { ProjectAlias, useProjectReconciliation } from '../hooks/useProjectReconciliation';
+import ModalWrapper from './ModalWrapper';
+import Spinner from './Spinner';
+
+interface ImportWizardProps<K extends string> {
+    /** The chosen file; the wizard is open while it is set. */
+    file: File | null;
+    title: string;
+    fields: ImportField<K>[];
+    /** Projects that project fields are reconciled against. */
+    projects?: Project[];
+    /** Rejects rows whose project isn't in `projects` instead of keeping the name as written. */
+    requireKnownProject?: boolean;
+    onAddProjectAliases?: (aliases: ProjectAlias[]) => void;
+    /** Receives the valid rows' values, keyed by field. */
+    onImport: (rows: Record<K, string>[], fileName: string) => void;
+    onClose: () => void;
+}
+
+type WizardStep = 'reading' | 'map' | 'preview';
+
+// The preview only renders this many rows; the counts and the rejected-rows file cover all of them.
+const PREVIEW_LIMIT = 200;
+
+const buttonClass = 'px-4 py-2 text-sm font-medium rounded-md border';
+const secondaryButtonClass = `${buttonClass} text-slate-700 bg-white border-slate-300 hover:bg-slate-50`;
+const primaryButtonClass = `${buttonClass} text-white bg-orange-600 border-transparent shadow-sm hover:bg-orange-700 disabled:bg-slate-400`;
+
+/** Imports a CSV or Excel file: map its columns to the fields, preview the checked rows, then import the valid ones. */
+export default function ImportWizard<K extends string>({ file, title, fields, projects = [], requireKnownProject = false, onAddProjectAliases, onImport, onClose }: ImportWizardProps<K>) {
+    const [step, setStep] = useState<WizardStep>('reading');
+    const [sheet, setSheet] = useState<ImportSheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping<K>>({} as ColumnMapping<K>);
+    const [rows, setRows] = useState<ValidatedRow<K>[]>([]);
+    const [showRejectedOnly, setShowRejectedOnly] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { reconcileProjectNames, reconciliationModal } = useProjectReconciliation(projects, onAddProjectAliases);
+
+    useEffect(() => {
+        if (!file) return;
+        let cancelled = false;
+        setStep('reading');
+        setSheet(null);
+        setRows([]);
+        setShowRejectedOnly(false);
+        setError(null);
+        readImportFile(file)
+            .then(result => {
+                if (cancelled) return;
+                if (result.rows.length === 0) {
+                    setError('The file has no rows to import.');
+                    return;
+                }
+                setSheet(result);
+                setMapping(autoMapColumns(fields, result.headers));
+                setStep('map');
+            })
+            .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Could not read the file.'); });
+        return () => { cancelled = true; };
+    }, [file, fields]);
+
+    const validRows = useMemo(() => rows.filter(row => row.errors.length === 0), [rows]);
+    const rejectedCount = rows.length - validRows.length;
+    const mappedFields = fields.filter(field => mapping[field.key]);
+    const unmappedRequired = fields.filter(field => field.required && !mapping[field.key]);
+
+    const handlePreview = async () => {
+        if (!sheet) return;
+        const projectFields = fields.filter(field => field.kind === 'project' && mapping[field.key]);
+        let resolveProjectName: ((name: string) => string) | undefined;
+        if (projectFields.length > 0 && projects.length > 0) {
+            const names = projectFields.flatMap(field => sheet.rows.map(row => (row[mapping[field.key]] ?? '').trim()));
+            const resolver = await reconcileProjectNames(names);
+            if (!resolver) return;
+            resolveProjectName = resolver;
+        }
+        setRows(validateRows(sheet, fields, mapping, {
+            resolveProjectName,
+            knownProjectNames: requireKnownProject ? new Set(projects.map(p => p.name)) : undefined,
+        }));
+        setShowRejectedOnly(false);
+        setStep('preview');
+    };
+
+    const handleDownloadRejected = () => {
+        if (!sheet) return;
+        const blob = new Blob([rejectedRowsCsv(sheet, rows)], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement('a');
+        const url = URL.createObjectURL(blob);
+        link.setAttribute('href', url);
+        link.setAttribute('download', `${sheet.fileName.replace(/\.[^.]+$/, '')}_rejected.csv`);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const handleImport = () => {
+        if (!sheet) return;
+        onImport(validRows.map(row => row.values), sheet.fileName);
+        onClose();
+    };
+
+    const previewRows = (showRejectedOnly ? rows.filter(row => row.errors.length > 0) : rows).slice(0, PREVIEW_LIMIT);
+
+    return (
+        <>
+            <ModalWrapper isOpen={!!file} onClose={onClose}>
+                <div className="bg-white rounded-xl shadow-2xl w-[min(64rem,calc(100vw-2rem))] max-h-[90vh] flex flex-col fade-in" role="dialog" aria-modal="true" aria-labelledby="import-wizard-title">
+                    <div className="p-6 border-b border-slate-200">
+                        <h2 id="import-wizard-title" className="text-xl font-bold text-slate-800">{title}</h2>
+                        <p className="mt-1 text-sm text-slate-500">
+                            {file?.name}{sheet ? ` · ${sheet.rows.length} row${sheet.rows.length === 1 ? '' : 's'}` : ''}
+                        </p>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto p-6">
+                        {error && <p className="text-sm text-red-600">{error}</p>}
+
+                        {step === 'reading' && !error && (
+                            <div className="flex justify-center py-10"><Spinner className="h-8" /></div>
+                        )}
+
+                        {step === 'map' && sheet && (
+                            <div className="space-y-3">
+                                <p className="text-sm text-slate-600">Choose the column in your file that holds each field. Fields marked * are required.</p>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                                    {fields.map(field => (
+                                        <div key={field.key}>
+                                            <label htmlFor={`import-map-${field.key}`} className="block text-sm font-medium text-slate-700">
+                                                {field.label}{field.required && <span className="text-red-500"> *</span>}
+                                            </label>
+                                            <select
+                                                id={`import-map-${field.key}`}
+                                                value={mapping[field.key] ?? ''}
+                                                onChange={e => setMapping(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                                className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500"
+                                            >
+                                                <option value="">Not in this file</option>
+                                                {sheet.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {step === 'preview' && (
+                            <div className="space-y-4">
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className="text-sm font-medium px-2.5 py-1 rounded-full bg-green-100 text-green-800">{validRows.length} ready to import</span>
+                                    <span className={`text-sm font-medium px-2.5 py-1 rounded-full ${rejectedCount > 0 ? 'bg-red-100 text-red-800' : 'bg-slate-100 text-slate-600'}`}>{rejectedCount} rejected</span>
+                                    {rejectedCount > 0 && (
+                                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                                            <input type="checkbox" checked={showRejectedOnly} onChange={e => setShowRejectedOnly(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500" />
+                                            Show rejected rows only
+                                        </label>
+                                    )}
+                                </div>
+                                <div className="overflow-x-auto border border-slate-200 rounded-md">
+                                    <table className="min-w-full divide-y divide-slate-200 text-sm">
+                                        <thead className="bg-slate-50">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left font-medium text-slate-500">Row</th>
+                                                {mappedFields.map(field => <th key={field.key} className="px-3 py-2 text-left font-medium text-slate-500 whitespace-nowrap">{field.label}</th>)}
+                                                <th className="px-3 py-2 text-left font-medium text-slate-500">Problems</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-200">
+                                            {previewRows.map(row => (
+                                                <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                                                    <td className="px-3 py-2 text-slate-500">{row.rowNumber}</td>
+                                                    {mappedFields.map(field => <td key={field.key} className="px-3 py-2 text-slate-700 whitespace-nowrap">{row.values[field.key]}</td>)}
+                                                    <td className="px-3 py-2 text-red-700">{row.errors.join(' ')}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                {previewRows.length === PREVIEW_LIMIT && (
+                                    <p className="text-xs text-slate-500">Showing the first {PREVIEW_LIMIT} rows.</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="bg-slate-50 px-6 py-4 rounded-b-xl flex flex-wrap justify-end gap-3">
+                        <button type="button" onClick={onClose} className={secondaryButtonClass}>Cancel</button>
+                        {step === 'map' && (
+                            <button type="button" onClick={handlePreview} disabled={unmappedRequired.length > 0} title={unmappedRequired.length > 0 ? `Map ${unmappedRequired.map(f => f.label).join(', ')} first` : undefined} className={primaryButtonClass}>
+                                Preview
+                            </button>
+                        )}
+                        {step === 'preview' && (
+                            <>
+                                <button type="button" onClick={() => setStep('map')} className={secondaryButtonClass}>Back</button>
+                                {rejectedCount > 0 && (
+                                    <button type="button" onClick={handleDownloadRejected} className={secondaryButtonClass}>Download Rejected Rows</button>
+                                )}
+                                <button type="button" onClick={handleImport} disabled={validRows.length === 0} className={primaryButtonClass}>
+                                    Import {validRows.length} Row{validRows.length === 1 ? '' : 's'}
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </ModalWrapper>
+            {reconciliationModal}
+        </>
+    );
+}
@@ -1,6 +1,8 @@
 import React, { useState, useMemo } from 'react';
 import { VisitedProject, User } from '../types';
 import { ZONES } from '../constants';
+import { ScopeFilter } from '../utils/dataScope';
+import { useQueryParam } from '../hooks/useQueryParam';
 
 // For TypeScript to recognize the jspdf library loaded from CDN
 declare global {
@@ -25,6 +27,7 @@ const ALL_VISITS: VisitedProject[] = [
 
 interface LastVisitedProjectsProps {
   currentUser: User;
+  scopeFilter: ScopeFilter;
 }
 
 const formatDateForPDF = (date: Date) => {
@@ -34,19 +37,20 @@ const formatDateForPDF = (date: Date) => {
     return `${day} ${month} ${year}`;
 };
 
-const LastVisitedProjects: React.FC<LastVisitedProjectsProps> = ({ currentUser }) => {
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [zoneFilter, setZoneFilter] = useState('');
+const LastVisitedProjects: React.FC<LastVisitedProjectsProps> = ({ currentUser, scopeFilter }) => {
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [zoneFilter, setZoneFilter] = useQueryParam('zone');
 
     const filteredVisits = useMemo(() => {
         return ALL_VISITS.filter(visit => {
+            if (!scopeFilter.allowsProject(visit.projectName, visit.zone)) return false;
             const startDateMatch = !startDate || visit.date >= startDate;
             const endDateMatch = !endDate || visit.date <= endDate;
             const zoneMatch = !zoneFilter || visit.zone === zoneFilter;
             return startDateMatch && endDateMatch && zoneMatch;
         });
-    }, [startDate, endDate, zoneFilter]);
+    }, [startDate, endDate, zoneFilter, scopeFilter]);
 
     const handleDownloadPDF = () => {
         if (typeof window.jspdf === 'undefined') {
@@ -187,7 +191,7 @@ const LastVisitedProjects: React.FC<LastVisitedProjectsProps> = ({ currentUser }
                             className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500"
                         >
                             <option value="">All Zones</option>
-                            {ZONES.map((zone) => (
+                            {ZONES.filter(scopeFilter.allowsZone).map((zone) => (
                                 <option key={zone} value={zone}>
                                     {zone}
                                 </option>
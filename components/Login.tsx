@@ -3,13 +3,14 @@ import Spinner from './Spinner';
 import FeedbackMessage from './FeedbackMessage';
 
 interface LoginProps {
-  onLogin: (email: string, password: string) => Promise<boolean>;
+  onLogin: (email: string, password: string) => Promise<{ success: boolean; message?: string }>;
+  onForgotPassword: (email: string) => Promise<void>;
 }
 
 // Simple email regex for client-side validation
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const Login: React.FC<LoginProps> = ({ onLogin, onForgotPassword }) => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -29,15 +30,15 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         }
 
         setIsLoggingIn(true);
-        const success = await onLogin(email, password);
+        const { success, message } = await onLogin(email, password);
         if (!success) {
-            setError('Invalid email or password. Please try again.');
+            setError(message || 'Invalid email or password. Please try again.');
         }
         // No need to set success state, as the App component handles navigation
         setIsLoggingIn(false);
     };
     
-    const handleForgotPassword = () => {
+    const handleForgotPassword = async () => {
         if (!email) {
             setError("Please enter your email address first, then click 'Forgot Password?'.");
             return;
@@ -47,10 +48,18 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
             return;
         }
         setError(''); // Clear previous errors
-        setFeedback({ 
-            message: `If an account with the email ${email} exists, password reset instructions have been sent.`,
-            type: 'info' 
-        });
+        setIsLoggingIn(true);
+        try {
+            await onForgotPassword(email);
+            setFeedback({ 
+                message: `If an account with the email ${email} exists, password reset instructions have been sent.`,
+                type: 'info' 
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not send password reset instructions. Please try again.');
+        } finally {
+            setIsLoggingIn(false);
+        }
     };
     
     const hasError = !!error;
@@ -3,10 +3,13 @@ import { User, Project } from '../types';
 import FormField from './FormField';
 import SearchableSelect from './SearchableSelect';
 import Spinner from './Spinner';
+import { materialReceiptsApi } from '../services/apiClient';
 
 interface MaterialReceiveFormProps {
     currentUser: User;
     projects: Project[];
+    /** Called once a receipt is saved, so the receipt list picks it up. */
+    onSaved: () => void;
 }
 
 const VEHICLE_OPTIONS = [
@@ -68,7 +71,7 @@ const ProjectSelectionModal: React.FC<{
     );
 };
 
-const MaterialReceiveForm: React.FC<MaterialReceiveFormProps> = ({ currentUser, projects }) => {
+const MaterialReceiveForm: React.FC<MaterialReceiveFormProps> = ({ currentUser, projects, onSaved }) => {
     const [entryDate] = useState(new Date());
     const [projectName, setProjectName] = useState('');
     const [projectZone, setProjectZone] = useState('');
@@ -151,29 +154,29 @@ const MaterialReceiveForm: React.FC<MaterialReceiveFormProps> = ({ currentUser,
         }
         
         setIsSubmitting(true);
-        console.log("--- Material Receive Form Submitted ---");
-        console.log({
-            projectName,
-            projectZone,
-            mrf,
-            supplierName,
-            materialName,
-            vehicle: vehicle === 'Other (please specify)' ? otherVehicle : vehicle,
-            vehicleNumber,
-            quantity,
-            unit,
-            receivingDate,
-            receivingTime,
-            receivedBy: currentUser.name,
-            employeeId: currentUser.employeeId,
-            entryTimestamp: entryDate.toISOString(),
-        });
-
-        // Simulate network delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        setIsSubmitting(false);
-        setIsSuccess(true);
+        try {
+            await materialReceiptsApi.create({
+                mrf,
+                projectName,
+                supplierName,
+                materialName,
+                quantity: Number(quantity),
+                unit,
+                vehicle: vehicle === 'Other (please specify)' ? otherVehicle : vehicle,
+                vehicleNumber: vehicleNumber || undefined,
+                receivedBy: currentUser.name,
+                receivingDate,
+                receivingTime,
+                entryDate: entryDate.toISOString(),
+            });
+            onSaved();
+            setIsSuccess(true);
+        } catch (err) {
+            console.error("Failed to submit material receipt:", err);
+            setError(err instanceof Error ? `Could not save the receipt: ${err.message}` : 'Could not save the receipt. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
     };
     
     if (isSuccess) {
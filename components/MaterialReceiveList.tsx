@@ -1,6 +1,12 @@
 import React, { useState, useMemo, useRef } from 'react';
 import { MaterialReceiveItem, User, Project } from '../types';
 import FeedbackMessage from './FeedbackMessage';
+import { useQueryParam } from '../hooks/useQueryParam';
+import FilterPresets from './FilterPresets';
+import { ProjectAlias } from '../hooks/useProjectReconciliation';
+import ImportWizard from './ImportWizard';
+import { MATERIAL_RECEIPT_IMPORT_FIELDS, MaterialReceiptImportKey } from '../utils/importFields';
+import DataTable, { DataTableColumn } from './DataTable';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -10,20 +16,12 @@ declare global {
     }
 }
 
-// MOCK DATA
-const ALL_RECEIPTS: MaterialReceiveItem[] = [
-    { id: 1, mrf: 'MRF-001', projectName: 'Lake Lofts', supplierName: 'ABC Cement', materialName: 'Portland Cement', quantity: 200, unit: 'Bags', vehicle: 'Track', vehicleNumber: 'DH-1234', receivedBy: 'Ruhul Amen', receivingDate: '2024-08-25', receivingTime: '10:30', entryDate: '2024-08-25T10:35:00Z' },
-    { id: 2, mrf: 'MRF-002', projectName: 'Gladiolus', supplierName: 'XYZ Steel', materialName: '60-Grade Rebar', quantity: 5, unit: 'Ton', vehicle: 'Track', vehicleNumber: 'CH-5678', receivedBy: 'Admin User', receivingDate: '2024-08-25', receivingTime: '11:00', entryDate: '2024-08-25T11:05:00Z' },
-    { id: 3, mrf: 'MRF-003', projectName: 'Platinum', supplierName: 'Local Bricks Co.', materialName: 'First Class Bricks', quantity: 5000, unit: 'Pcs', vehicle: 'Track', vehicleNumber: 'GA-9012', receivedBy: 'Ruhul Amen', receivingDate: '2024-08-24', receivingTime: '14:00', entryDate: '2024-08-24T14:10:00Z' },
-    { id: 4, mrf: 'MRF-004', projectName: 'Jardin Palacia', supplierName: 'Best Paints Ltd.', materialName: 'Weatherproof Paint', quantity: 50, unit: 'Gallon', vehicle: 'Van', receivedBy: 'Admin User', receivingDate: '2024-08-23', receivingTime: '09:15', entryDate: '2024-08-23T09:20:00Z' },
-    { id: 5, mrf: 'MRF-005', projectName: 'Lake Lofts', supplierName: 'Fine Sands', materialName: 'Sylhet Sand', quantity: 10, unit: 'CFT', vehicle: 'Track', vehicleNumber: 'DH-4321', receivedBy: 'Ruhul Amen', receivingDate: '2024-08-22', receivingTime: '16:45', entryDate: '2024-08-22T16:50:00Z' },
-    { id: 6, mrf: 'MRF-006', projectName: 'Helena Sparta', supplierName: 'Super Wires', materialName: '1.5mm Electrical Wire', quantity: 100, unit: 'Coil', vehicle: 'By Hand', receivedBy: 'Admin User', receivingDate: '2024-08-21', receivingTime: '12:00', entryDate: '2024-08-21T12:02:00Z' },
-    { id: 7, mrf: 'MRF-007', projectName: 'Gladiolus', supplierName: 'XYZ Steel', materialName: '40-Grade Rebar', quantity: 2, unit: 'Ton', vehicle: 'Track', vehicleNumber: 'CH-5678', receivedBy: 'Ruhul Amen', receivingDate: '2024-08-20', receivingTime: '15:30', entryDate: '2024-08-20T15:35:00Z' },
-];
-
 interface MaterialReceiveListProps {
     currentUser: User;
     projects: Project[];
+    receipts: MaterialReceiveItem[];
+    onUpdateReceipts: React.Dispatch<React.SetStateAction<MaterialReceiveItem[]>>;
+    onAddProjectAliases?: (aliases: ProjectAlias[]) => void;
 }
 
 const formatDateForPDF = (date: Date) => {
@@ -33,14 +31,31 @@ const formatDateForPDF = (date: Date) => {
     return `${day} ${month} ${year}`;
 };
 
-const MaterialReceiveList: React.FC<MaterialReceiveListProps> = ({ currentUser, projects }) => {
-    const [receipts, setReceipts] = useState<MaterialReceiveItem[]>(ALL_RECEIPTS);
+const formatEntryDate = (entryDate: string) => new Date(entryDate).toLocaleString('en-CA', { dateStyle: 'short', timeStyle: 'short' }).replace(',', '');
+const formatVehicle = (receipt: MaterialReceiveItem) => `${receipt.vehicle}${receipt.vehicleNumber ? ` (${receipt.vehicleNumber})` : ''}`;
+
+const RECEIPT_COLUMNS: DataTableColumn<MaterialReceiveItem>[] = [
+    { key: 'projectName', header: 'Project Name', width: 180, render: r => r.projectName, sortValue: r => r.projectName, cellClassName: 'font-medium text-slate-900' },
+    { key: 'mrf', header: 'MRF NO', width: 120, render: r => r.mrf, sortValue: r => r.mrf },
+    { key: 'supplierName', header: 'Supplier Name', width: 180, render: r => r.supplierName, sortValue: r => r.supplierName },
+    { key: 'materialName', header: 'Material Name', width: 180, render: r => r.materialName, sortValue: r => r.materialName },
+    { key: 'quantity', header: 'Quantity', width: 110, align: 'right', render: r => r.quantity, sortValue: r => r.quantity },
+    { key: 'unit', header: 'Unit', width: 90, render: r => r.unit, sortValue: r => r.unit },
+    { key: 'receivingDate', header: 'Receiving Date', width: 140, render: r => new Date(`${r.receivingDate}T00:00:00`).toLocaleDateString('en-CA'), sortValue: r => r.receivingDate },
+    { key: 'receivingTime', header: 'Time', width: 90, render: r => r.receivingTime, sortValue: r => r.receivingTime },
+    { key: 'vehicle', header: 'Vehicle', width: 170, render: formatVehicle, sortValue: formatVehicle },
+    { key: 'receivedBy', header: 'Received By', width: 150, render: r => r.receivedBy, sortValue: r => r.receivedBy },
+    { key: 'entryDate', header: 'Entry Date', width: 160, render: r => formatEntryDate(r.entryDate), sortValue: r => r.entryDate, title: r => formatEntryDate(r.entryDate) },
+];
+
+const MaterialReceiveList: React.FC<MaterialReceiveListProps> = ({ currentUser, projects, receipts, onUpdateReceipts, onAddProjectAliases }) => {
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [projectFilter, setProjectFilter] = useState('');
-    const [searchQuery, setSearchQuery] = useState('');
+    const [importFile, setImportFile] = useState<File | null>(null);
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [projectFilter, setProjectFilter] = useQueryParam('project');
+    const [searchQuery, setSearchQuery] = useQueryParam('q');
 
     const projectNames = useMemo(() => projects.map(p => p.name), [projects]);
 
@@ -96,78 +111,24 @@ const MaterialReceiveList: React.FC<MaterialReceiveListProps> = ({ currentUser,
         setFeedback({ message: 'Template downloaded successfully!', type: 'success' });
     };
 
-    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        if (typeof window.Papa === 'undefined') {
-            setFeedback({ message: "CSV parsing library is not available.", type: 'error' });
-            return;
-        }
-
-        window.Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results: any) => {
-                const requiredHeaders = ['MRF', 'Project Name', 'Supplier Name', 'Material Name', 'Quantity', 'Unit', 'Received By', 'Receiving Date', 'Receiving Time'];
-                const headers = results.meta.fields;
-
-                if (!requiredHeaders.every(h => headers.includes(h))) {
-                    setFeedback({ message: 'CSV is missing required headers. Please use the template.', type: 'error' });
-                    if (event.target) event.target.value = '';
-                    return;
-                }
-
-                const newReceipts: MaterialReceiveItem[] = [];
-                let errorOccurred = false;
-                const projectNamesSet = new Set(projects.map(p => p.name));
-
-                for (const [index, row] of results.data.entries()) {
-                    if (errorOccurred) break;
-                    if (!requiredHeaders.every(h => row[h] && String(row[h]).trim())) {
-                        setFeedback({ message: `Row ${index + 2}: Missing data for a required field.`, type: 'error' });
-                        errorOccurred = true;
-                        continue;
-                    }
-                    if (!projectNamesSet.has(row['Project Name'])) {
-                        setFeedback({ message: `Row ${index + 2}: Project "${row['Project Name']}" does not exist.`, type: 'error' });
-                        errorOccurred = true;
-                        continue;
-                    }
-                    if (isNaN(parseFloat(row['Quantity']))) {
-                        setFeedback({ message: `Row ${index + 2}: Quantity "${row['Quantity']}" is not a valid number.`, type: 'error' });
-                        errorOccurred = true;
-                        continue;
-                    }
-
-                    newReceipts.push({
-                        id: Date.now() + index,
-                        mrf: row.MRF,
-                        projectName: row['Project Name'],
-                        supplierName: row['Supplier Name'],
-                        materialName: row['Material Name'],
-                        quantity: parseFloat(row.Quantity),
-                        unit: row.Unit,
-                        vehicle: row.Vehicle || 'N/A',
-                        vehicleNumber: row['Vehicle Number'] || undefined,
-                        receivedBy: row['Received By'],
-                        receivingDate: row['Receiving Date'], // Assumes YYYY-MM-DD
-                        receivingTime: row['Receiving Time'], // Assumes HH:MM
-                        entryDate: new Date().toISOString(),
-                    });
-                }
-                
-                if (!errorOccurred) {
-                    setReceipts(prev => [...prev, ...newReceipts]);
-                    setFeedback({ message: `Successfully imported ${newReceipts.length} records.`, type: 'success' });
-                }
-            },
-            error: (err: any) => {
-                setFeedback({ message: `Error parsing CSV: ${err.message}`, type: 'error' });
-            }
-        });
+    const handleImportReceipts = (rows: Record<MaterialReceiptImportKey, string>[]) => {
+        const newReceipts: MaterialReceiveItem[] = rows.map((row, index) => ({
+            ...row,
+            id: Date.now() + index,
+            quantity: parseFloat(row.quantity),
+            vehicle: row.vehicle || 'N/A',
+            vehicleNumber: row.vehicleNumber || undefined,
+            entryDate: new Date().toISOString(),
+        }));
+        onUpdateReceipts(prev => [...prev, ...newReceipts]);
+        setFeedback({ message: `Successfully imported ${newReceipts.length} records.`, type: 'success' });
+    };
 
-        if (event.target) event.target.value = ''; // Reset file input
+    const handleDeleteReceipts = (deleted: MaterialReceiveItem[]) => {
+        if (!window.confirm(`Delete ${deleted.length} selected receipt(s)? This action cannot be undone.`)) return;
+        const deletedIds = new Set(deleted.map(receipt => receipt.id));
+        onUpdateReceipts(prev => prev.filter(receipt => !deletedIds.has(receipt.id)));
+        setFeedback({ message: `Deleted ${deleted.length} receipt(s).`, type: 'success' });
     };
 
     const handleDownloadCSV = () => {
@@ -321,9 +282,22 @@ const MaterialReceiveList: React.FC<MaterialReceiveListProps> = ({ currentUser,
 
     return (
         <>
+            <ImportWizard
+                file={importFile}
+                title="Import Material Receipts"
+                fields={MATERIAL_RECEIPT_IMPORT_FIELDS}
+                projects={projects}
+                requireKnownProject
+                onAddProjectAliases={onAddProjectAliases}
+                onImport={handleImportReceipts}
+                onClose={() => setImportFile(null)}
+            />
             <div className="p-4 sm:p-6 lg:p-8 space-y-6">
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-                    <h2 className="text-xl font-semibold text-slate-800 mb-4">Filter Material Receipts</h2>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+                        <h2 className="text-xl font-semibold text-slate-800">Filter Material Receipts</h2>
+                        <FilterPresets view="materialReceiveList" currentUser={currentUser} />
+                    </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
                         <div>
                             <label htmlFor="start-date-filter" className="block text-sm font-medium text-slate-700">Start Date</label>
@@ -355,9 +329,9 @@ const MaterialReceiveList: React.FC<MaterialReceiveListProps> = ({ currentUser,
                         <div className="flex items-center gap-3 flex-wrap justify-end">
                             <label htmlFor="csv-upload" className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 border border-orange-500 text-sm font-medium rounded-md shadow-sm text-orange-600 bg-white hover:bg-orange-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500">
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>
-                                Import (CSV)
+                                Import (CSV/Excel)
                             </label>
-                            <input id="csv-upload" type="file" ref={fileInputRef} onChange={handleFileUpload} className="sr-only" accept=".csv" />
+                            <input id="csv-upload" type="file" ref={fileInputRef} onChange={e => { setImportFile(e.target.files?.[0] ?? null); e.target.value = ''; }} className="sr-only" accept=".csv,.xlsx,.xls" />
                             <button onClick={handleDownloadTemplate} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 9.293a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                                 Download Template
@@ -372,46 +346,15 @@ const MaterialReceiveList: React.FC<MaterialReceiveListProps> = ({ currentUser,
                             </button>
                         </div>
                     </div>
-                    <div className="overflow-x-auto">
-                        {filteredReceipts.length > 0 ? (
-                            <table className="min-w-full divide-y divide-slate-200">
-                                <thead className="bg-slate-50">
-                                    <tr>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Project Name</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">MRF NO</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Supplier Name</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Material Name</th>
-                                        <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Quantity</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Unit</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Receiving Date</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Time</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Vehicle</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Received By</th>
-                                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Entry Date</th>
-                                    </tr>
-                                </thead>
-                                <tbody className="bg-white divide-y divide-slate-200">
-                                    {filteredReceipts.map((receipt) => (
-                                        <tr key={receipt.id} className="hover:bg-slate-50 transition-colors">
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{receipt.projectName}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.mrf}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.supplierName}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.materialName}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500 text-right">{receipt.quantity}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.unit}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{new Date(`${receipt.receivingDate}T00:00:00`).toLocaleDateString('en-CA')}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.receivingTime}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.vehicle}{receipt.vehicleNumber ? ` (${receipt.vehicleNumber})` : ''}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{receipt.receivedBy}</td>
-                                            <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{new Date(receipt.entryDate).toLocaleString('en-CA', { dateStyle: 'short', timeStyle: 'short' }).replace(',', '')}</td>
-                                        </tr>
-                                    ))}
-                                </tbody>
-                            </table>
-                        ) : (
-                            <p className="p-6 text-center text-slate-500">No receipts found matching your criteria.</p>
-                        )}
-                    </div>
+                    <DataTable
+                        tableId="materialReceipts"
+                        columns={RECEIPT_COLUMNS}
+                        rows={filteredReceipts}
+                        getRowId={receipt => receipt.id}
+                        emptyMessage="No receipts found matching your criteria."
+                        bulkActions={[{ label: 'Delete', onClick: handleDeleteReceipts, variant: 'danger' }]}
+                        className="px-6 pt-4 pb-6"
+                    />
                 </div>
             </div>
             {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
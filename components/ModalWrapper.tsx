@@ -0,0 +1,12 @@
+import React from 'react';
+
+const ModalWrapper: React.FC<{ isOpen: boolean, onClose: () => void, children: React.ReactNode }> = ({ isOpen, onClose, children }) => {
+    if (!isOpen) return null;
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div onClick={e => e.stopPropagation()}>{children}</div>
+        </div>
+    );
+};
+
+export default ModalWrapper;
@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { User, Project, EmployeeVisit, ReportData, MonthlyComparisonPrecisionTab } from '../types';
+import { User, Project, EmployeeVisit, ReportData, MonthlyComparisonPrecisionTab, DutyPolicy } from '../types';
 import { DEPARTMENTS } from '../constants';
 import FeedbackMessage from './FeedbackMessage';
 import AllDepartmentSummary from './AllDepartmentSummary';
@@ -7,6 +7,10 @@ import DutyAnalysis from './DutyAnalysis';
 import EmployeeVisitSummary from './EmployeeVisitSummary';
 import _ from 'lodash';
 import { useLoading } from '../contexts/LoadingContext';
+import { logAuditEvent } from '../services/auditService';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { parseDate } from '../utils/time';
+import { WorkCalendar } from '../utils/workCalendar';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -16,60 +20,6 @@ declare global {
     }
 }
 
-/**
- * Parses a date string from various common formats and returns it in YYYY-MM-DD format.
- * @param dateString The date string to parse.
- * @returns The formatted date string, or an empty string if invalid.
- */
-const parseAndFormatDate = (dateString: string): string => {
-  if (!dateString || typeof dateString !== 'string') return '';
-  
-  // Handle '1-Jul-25' format
-  const excelDateMatch = dateString.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2})$/);
-  if (excelDateMatch) {
-    const day = excelDateMatch[1];
-    const monthStr = excelDateMatch[2];
-    const year = `20${excelDateMatch[3]}`;
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const monthIndex = monthNames.findIndex(m => m.toLowerCase() === monthStr.toLowerCase());
-    if (monthIndex > -1) {
-        const d = new Date(parseInt(year, 10), monthIndex, parseInt(day, 10));
-        if (!isNaN(d.getTime())) {
-            const y = d.getFullYear();
-            const m = String(d.getMonth() + 1).padStart(2, '0');
-            const dayOfMonth = String(d.getDate()).padStart(2, '0');
-            return `${y}-${m}-${dayOfMonth}`;
-        }
-    }
-  }
-
-  const date = new Date(dateString.trim());
-
-  if (isNaN(date.getTime())) {
-    const parts = dateString.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
-    if (parts) {
-      const day = parseInt(parts[1], 10);
-      const month = parseInt(parts[2], 10) - 1;
-      const year = parseInt(parts[3], 10);
-      const dmyDate = new Date(year, month, day);
-      if (!isNaN(dmyDate.getTime()) && dmyDate.getDate() === day && dmyDate.getMonth() === month && dmyDate.getFullYear() === year) {
-          const y = dmyDate.getFullYear();
-          const m = String(dmyDate.getMonth() + 1).padStart(2, '0');
-          const d = String(dmyDate.getDate()).padStart(2, '0');
-          return `${y}-${m}-${d}`;
-      }
-    }
-    console.warn(`Could not parse date: "${dateString}"`);
-    return '';
-  }
-
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  
-  return `${year}-${month}-${day}`;
-};
-
 interface MonthlyComparisonPrecisionProps {
     currentUser: User;
     projects: Project[];
@@ -77,16 +27,18 @@ interface MonthlyComparisonPrecisionProps {
     onUpdateVisits: React.Dispatch<React.SetStateAction<EmployeeVisit[]>>;
     activeTab: MonthlyComparisonPrecisionTab;
     onTabChange: (tab: MonthlyComparisonPrecisionTab) => void;
+    dutyPolicies: DutyPolicy[];
+    workCalendar: WorkCalendar;
 }
 
-const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({ currentUser, projects, visits, onUpdateVisits, activeTab, onTabChange }) => {
+const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({ currentUser, projects, visits, onUpdateVisits, activeTab, onTabChange, dutyPolicies, workCalendar }) => {
     // --- STATE ---
     
     // State for Records Tab
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [projectFilter, setProjectFilter] = useState('');
-    const [departmentFilter, setDepartmentFilter] = useState('');
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [projectFilter, setProjectFilter] = useQueryParam('project');
+    const [departmentFilter, setDepartmentFilter] = useQueryParam('department');
     const [searchQuery, setSearchQuery] = useState('');
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
     const [attendanceData, setAttendanceData] = useState<any[]>([]);
@@ -138,6 +90,7 @@ const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({
     const handleClearRecords = () => {
         if (window.confirm('Are you sure you want to delete all visit records? This action cannot be undone.')) {
             onUpdateVisits([]);
+            logAuditEvent({ action: 'clear', entityType: 'employeeVisits', summary: `Cleared all ${visits.length} employee visit records`, before: { count: visits.length }, after: { count: 0 } });
             setFeedback({ message: 'All records have been cleared.', type: 'info' });
         }
     };
@@ -183,7 +136,7 @@ const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({
                             }
                         }
     
-                        const formattedDate = parseAndFormatDate(row.Date);
+                        const formattedDate = parseDate(row.Date);
                         if (!formattedDate) {
                             setFeedback({ message: `Invalid date format in row ${index + 2}: "${row.Date}".`, type: 'error' });
                             hasError = true;
@@ -194,6 +147,7 @@ const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({
                             id: Date.now() + index,
                             date: formattedDate,
                             visitorName: row['Visitor Name'],
+                            visitorEmployeeId: row['Employee ID'] || row['Emp. Code'] || undefined,
                             department: row['Department'],
                             designation: row['Designation'],
                             projectName: row['Visited Project Name'],
@@ -206,6 +160,7 @@ const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({
     
                     if (!hasError) {
                         onUpdateVisits(prev => _.orderBy([...prev, ...newVisits], ['date'], ['desc']));
+                        logAuditEvent({ action: 'import', entityType: 'employeeVisits', summary: `Imported ${newVisits.length} employee visit records from ${file.name}`, before: { count: visits.length }, after: { count: visits.length + newVisits.length } });
                         setFeedback({ message: `Successfully imported ${newVisits.length} records.`, type: 'success' });
                     }
                 } finally {
@@ -475,12 +430,12 @@ const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({
                             )}
                            {activeTab === 'departmentSummary' && (
                                 <div className="fade-in">
-                                    <AllDepartmentSummary visits={visits} departments={DEPARTMENTS} currentUser={currentUser} analysisMode="multi-month" />
+                                    <AllDepartmentSummary visits={visits} departments={DEPARTMENTS} currentUser={currentUser} dutyPolicies={dutyPolicies} workCalendar={workCalendar} analysisMode="multi-month" />
                                 </div>
                             )}
                             {activeTab === 'dutyAnalysis' && (
                                 <div className="fade-in">
-                                    <DutyAnalysis visits={visits} currentUser={currentUser} analysisMode="multi-month" />
+                                    <DutyAnalysis visits={visits} currentUser={currentUser} dutyPolicies={dutyPolicies} workCalendar={workCalendar} analysisMode="multi-month" />
                                 </div>
                             )}
                             {activeTab === 'summary' && (
@@ -502,6 +457,7 @@ const MonthlyComparisonPrecision: React.FC<MonthlyComparisonPrecisionProps> = ({
                                      onEmployeeChange={handleSummaryEmployeeChange}
                                      selectedDepartment={summarySelectedDepartment}
                                      onDepartmentChange={handleSummaryDepartmentChange}
+                                     workCalendar={workCalendar}
                                    />
                                 </div>
                             )}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { OutboxEntry, OutboxKind, OutboxStatus, retryEntry, discardEntry, resolveConflict } from '../services/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+
+interface OutboxListProps<K extends OutboxKind> {
+    kind: K;
+    /** The signed-in user, whose submissions are listed. */
+    userId: number;
+    title: string;
+    /** The line shown for a report, e.g. its project and date. */
+    describe: (entry: OutboxEntry<K>) => { primary: string; secondary?: string };
+    /** Loads a report back into the form. Omit to hide the Edit action. */
+    onEdit?: (entry: OutboxEntry<K>) => void;
+}
+
+const STATUS_BADGES: Record<OutboxStatus, { label: string; className: string }> = {
+    pending: { label: 'Pending', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+    syncing: { label: 'Syncing', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+    synced: { label: 'Synced', className: 'bg-green-100 text-green-800 border-green-200' },
+    failed: { label: 'Failed', className: 'bg-red-100 text-red-800 border-red-200' },
+    conflict: { label: 'Conflict', className: 'bg-purple-100 text-purple-800 border-purple-200' },
+};
+
+const actionClass = 'text-xs font-medium px-2 py-1 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-100';
+
+/** Recent submissions of one form with their sync status. */
+export default function OutboxList<K extends OutboxKind>({ kind, userId, title, describe, onEdit }: OutboxListProps<K>) {
+    const { entries, isOnline } = useOutbox(kind, userId);
+
+    if (entries.length === 0 && isOnline) return null;
+
+    const pendingCount = entries.filter(e => e.status === 'pending' || e.status === 'syncing').length;
+    const handleError = (err: unknown) => console.error('Outbox action failed:', err);
+
+    return (
+        <section className="bg-white rounded-2xl shadow-xl border border-slate-200/80 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-slate-800">{title}</h2>
+                {!isOnline && (
+                    <span className="text-xs font-medium px-2.5 py-1 rounded-full bg-slate-800 text-white">Offline</span>
+                )}
+            </div>
+            {!isOnline && (
+                <p className="text-sm text-slate-500">
+                    You're offline. New reports are saved on this device{pendingCount > 0 ? ` (${pendingCount} waiting)` : ''} and sent automatically once you're back online.
+                </p>
+            )}
+            {entries.length > 0 && (
+                <ul className="divide-y divide-slate-200">
+                    {entries.map(entry => {
+                        const { primary, secondary } = describe(entry);
+                        const badge = STATUS_BADGES[entry.status];
+                        return (
+                            <li key={entry.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-slate-800 truncate">{primary}</p>
+                                    {secondary && <p className="text-xs text-slate-500">{secondary}</p>}
+                                    {entry.status === 'conflict' && (
+                                        <p className="text-xs text-purple-700 mt-1">This report was changed on another device. Choose which version to keep.</p>
+                                    )}
+                                    {(entry.status === 'failed' || (entry.status === 'pending' && entry.attempts > 0)) && entry.lastError && (
+                                        <p className="text-xs text-red-600 mt-1">{entry.lastError}</p>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2 flex-wrap">
+                                    <span className={`text-xs font-medium px-2.5 py-0.5 rounded-full border ${badge.className}`}>{badge.label}</span>
+                                    {entry.status === 'failed' && (
+                                        <button type="button" className={actionClass} onClick={() => retryEntry(entry.id).catch(handleError)}>Retry</button>
+                                    )}
+                                    {entry.status === 'conflict' && (
+                                        <>
+                                            <button type="button" className={actionClass} onClick={() => resolveConflict(entry.id, 'mine').catch(handleError)}>Keep mine</button>
+                                            <button type="button" className={actionClass} onClick={() => resolveConflict(entry.id, 'server').catch(handleError)}>Use server's</button>
+                                        </>
+                                    )}
+                                    {onEdit && entry.status !== 'syncing' && entry.status !== 'conflict' && (
+                                        <button type="button" className={actionClass} onClick={() => onEdit(entry)}>Edit</button>
+                                    )}
+                                    {entry.status !== 'syncing' && (
+                                        <button
+                                            type="button"
+                                            className={actionClass}
+                                            onClick={() => {
+                                                const unsent = entry.status !== 'synced';
+                                                if (unsent && !window.confirm('This report has not been sent yet. Discard it?')) return;
+                                                discardEntry(entry.id).catch(handleError);
+                                            }}
+                                        >
+                                            {entry.status === 'synced' ? 'Hide' : 'Discard'}
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </section>
+    );
+}
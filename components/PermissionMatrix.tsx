@@ -0,0 +1,64 @@
+import React from 'react';
+import { Permissions, PermissionModule } from '../types';
+import { PERMISSION_MODULES, PermissionAction } from '../utils/permissions';
+
+interface PermissionMatrixProps {
+    permissions: Permissions;
+    onChange: (permissions: Permissions) => void;
+    // When given, permissions that differ from these (the role template's) are highlighted as overrides.
+    basePermissions?: Permissions;
+    disabled?: boolean;
+}
+
+const PermissionMatrix: React.FC<PermissionMatrixProps> = ({ permissions, onChange, basePermissions, disabled = false }) => {
+    const getValue = (perms: Permissions, module: PermissionModule, action: PermissionAction) =>
+        (perms[module] as Record<string, boolean>)[action] ?? false;
+
+    const handleToggle = (module: PermissionModule, action: PermissionAction) => {
+        const updatedModule = { ...permissions[module], [action]: !getValue(permissions, module, action) };
+        // Editing requires viewing, and hiding a module also removes edit access.
+        if (action === 'edit' && updatedModule[action]) (updatedModule as Record<string, boolean>).view = true;
+        if (action === 'view' && !updatedModule[action] && 'edit' in updatedModule) (updatedModule as Record<string, boolean>).edit = false;
+        onChange({ ...permissions, [module]: updatedModule });
+    };
+
+    return (
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50">
+                <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Module</th>
+                    <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase tracking-wider">View</th>
+                    <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase tracking-wider">Edit</th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+                {PERMISSION_MODULES.map(({ key, label, actions }) => (
+                    <tr key={key}>
+                        <td className="px-3 py-2 text-slate-700">{label}</td>
+                        {(['view', 'edit'] as PermissionAction[]).map(action => {
+                            if (!actions.includes(action)) return <td key={action} className="px-3 py-2 text-center text-slate-300">—</td>;
+                            const isOverride = !!basePermissions && getValue(basePermissions, key, action) !== getValue(permissions, key, action);
+                            return (
+                                <td key={action} className="px-3 py-2 text-center">
+                                    <label className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded ${isOverride ? 'bg-amber-100 ring-1 ring-amber-400' : ''}`} title={isOverride ? 'Differs from the role template' : undefined}>
+                                        <input
+                                            type="checkbox"
+                                            checked={getValue(permissions, key, action)}
+                                            onChange={() => handleToggle(key, action)}
+                                            disabled={disabled}
+                                            className="h-4 w-4 text-orange-600 border-slate-300 rounded focus:ring-orange-500"
+                                            aria-label={`${label}: ${action}`}
+                                        />
+                                        {isOverride && <span className="text-[10px] font-semibold text-amber-800 uppercase">Override</span>}
+                                    </label>
+                                </td>
+                            );
+                        })}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+export default PermissionMatrix;
@@ -3,6 +3,7 @@ import { User } from '../types';
 import ImageCropModal from './ImageCropModal';
 import Spinner from './Spinner';
 import FeedbackMessage from './FeedbackMessage';
+import { validateNewPassword } from '../utils/passwordRules';
 
 // New type for the active tab
 type ProfileTab = 'personal' | 'official' | 'security';
@@ -10,6 +11,7 @@ type ProfileTab = 'personal' | 'official' | 'security';
 interface ProfileProps {
   currentUser: User;
   onUpdateUser: (updatedData: Partial<Omit<User, 'id' | 'permissions' | 'role'>>) => Promise<void>;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
   initialState?: { initialTab?: ProfileTab } | null;
 }
 
@@ -22,7 +24,7 @@ const ProfileField: React.FC<{ label: string, value: string, readOnly?: boolean
     </div>
 );
 
-const Profile: React.FC<ProfileProps> = ({ currentUser, onUpdateUser, initialState }) => {
+const Profile: React.FC<ProfileProps> = ({ currentUser, onUpdateUser, onChangePassword, initialState }) => {
   const [activeTab, setActiveTab] = useState<ProfileTab>(initialState?.initialTab || 'personal');
   const canEdit = currentUser.permissions.profile.edit;
   const isAdmin = currentUser.role === 'admin';
@@ -85,26 +87,33 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUpdateUser, initialSta
 
   const handleSaveChanges = async () => {
     setIsSaving(true);
-    await onUpdateUser({ name: profileData.userName, employeeId: profileData.employeeId, designation: profileData.designation, department: profileData.department });
-    setIsSaving(false);
-    showFeedback(`Profile updated successfully!`, 'success');
+    try {
+      await onUpdateUser({ name: profileData.userName, employeeId: profileData.employeeId, designation: profileData.designation, department: profileData.department });
+      showFeedback(`Profile updated successfully!`, 'success');
+    } catch (err) {
+      showFeedback(err instanceof Error ? err.message : 'Could not update your profile.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleUpdatePassword = async () => {
-    if (passwords.newPassword !== passwords.confirmPassword) {
-      showFeedback("New passwords do not match.", 'error');
-      return;
-    }
-    if (passwords.newPassword.length < 8) {
-      showFeedback("Password must be at least 8 characters long.", 'error');
+    const passwordError = validateNewPassword(passwords.newPassword, passwords.confirmPassword);
+    if (passwordError) {
+      showFeedback(passwordError, 'error');
       return;
     }
     
     setIsSaving(true);
-    await onUpdateUser({ password: passwords.newPassword });
-    setIsSaving(false);
-    showFeedback(`Password updated successfully!`, 'success');
-    setPasswords({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    try {
+      await onChangePassword(passwords.currentPassword, passwords.newPassword);
+      showFeedback(`Password updated successfully!`, 'success');
+      setPasswords({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    } catch (err) {
+      showFeedback(err instanceof Error ? err.message : 'Could not update your password.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
   };
   
   const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -125,11 +134,16 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUpdateUser, initialSta
 
   const handleCroppedImageSave = async (croppedImageBase64: string) => {
     setIsSaving(true); // Technically saving the user profile
-    await onUpdateUser({ avatar: croppedImageBase64 });
-    setIsSaving(false);
-    setIsCropModalOpen(false);
-    setImageToCrop(null);
-    showFeedback("Profile photo updated!", "success");
+    try {
+      await onUpdateUser({ avatar: croppedImageBase64 });
+      showFeedback("Profile photo updated!", "success");
+    } catch (err) {
+      showFeedback(err instanceof Error ? err.message : 'Could not update your profile photo.', 'error');
+    } finally {
+      setIsSaving(false);
+      setIsCropModalOpen(false);
+      setImageToCrop(null);
+    }
   };
 
   const renderPersonalForm = () => (
@@ -0,0 +1,280 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { CaseComment, CaseStatus, Employee, ProjectCase, User } from '../types';
+import { casesApi } from '../services/apiClient';
+import { resizeImage } from '../utils/imageUtils';
+import { companyToday, formatDateDDMMMYYYY, formatDateTime } from '../utils/time';
+import { CASE_STATUSES, CASE_STATUS_CLASSES, CASE_TRANSITIONS, caseDueDate, caseStatus, isCaseOverdue, wasResolvedLate } from '../utils/caseWorkflow';
+import ModalWrapper from './ModalWrapper';
+import PhotoPreview from './PhotoPreview';
+import Spinner from './Spinner';
+
+// The button that moves a case to a status, by the status it is in.
+const transitionLabel = (from: CaseStatus, to: CaseStatus): string => {
+    if (to === 'In Progress') return from === 'Assigned' ? 'Start Work' : 'Reopen';
+    if (to === 'Assigned') return from === 'Open' ? 'Assign' : 'Back to Assigned';
+    if (to === 'Open') return 'Unassign';
+    if (to === 'Resolved') return 'Mark Resolved';
+    if (to === 'Verified') return 'Verify';
+    return 'Close';
+};
+
+const sectionTitleClass = "text-sm font-semibold text-slate-700 mb-2";
+const inputClass = "block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500";
+
+interface ProjectCaseDetailProps {
+    projectCase: ProjectCase;
+    currentUser: User;
+    employees: Employee[];
+    onClose: () => void;
+    onSaved: (projectCase: ProjectCase) => void;
+}
+
+/**
+ * A case with its photos, status history and comments. Users who manage cases can assign it, move it through
+ * the workflow and add the resolution.
+ */
+const ProjectCaseDetail: React.FC<ProjectCaseDetailProps> = ({ projectCase, currentUser, employees, onClose, onSaved }) => {
+    const canManage = currentUser.permissions.projectCasesList.edit;
+    const status = caseStatus(projectCase);
+    const [assigneeId, setAssigneeId] = useState(projectCase.assigneeId ? String(projectCase.assigneeId) : '');
+    const [resolutionPhoto, setResolutionPhoto] = useState<string | null>(projectCase.resolutionPhoto ?? null);
+    const [resolutionNote, setResolutionNote] = useState(projectCase.resolutionNote ?? '');
+    const [comment, setComment] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Cases go to someone in the liable department who still works here.
+    const assignees = useMemo(() => {
+        const today = companyToday();
+        return employees
+            .filter(e => e.department === projectCase.liableDept && (!e.activeTo || e.activeTo >= today))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }, [employees, projectCase.liableDept]);
+
+    const dueDate = caseDueDate(projectCase);
+    const isOverdue = isCaseOverdue(projectCase);
+    const canResolve = status === 'In Progress';
+
+    const save = async (changes: Partial<ProjectCase>) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            onSaved(await casesApi.patch(projectCase.id, changes));
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not update the case.');
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const selectedAssignee = () => {
+        const employee = assignees.find(e => String(e.id) === assigneeId);
+        return employee ? { assigneeId: employee.id, assigneeName: employee.name } : null;
+    };
+
+    const handleAssign = () => {
+        const assignee = selectedAssignee();
+        if (!assignee) {
+            setError('Choose who to assign the case to.');
+            return;
+        }
+        save(assignee);
+    };
+
+    const handleTransition = (to: CaseStatus) => {
+        if (to === 'Assigned' && status === 'Open') {
+            handleAssign();
+            return;
+        }
+        if (to === 'Resolved') {
+            if (!resolutionPhoto) {
+                setError('Add a photo of the site after the fix to resolve the case.');
+                return;
+            }
+            save({ status: to, resolutionPhoto, resolutionNote: resolutionNote.trim() || undefined });
+            return;
+        }
+        save({ status: to });
+    };
+
+    const handleAddComment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!comment.trim()) return;
+        // The server gives new comments their id, author and time.
+        const newComment = { text: comment.trim() } as CaseComment;
+        if (await save({ thread: [...(projectCase.thread ?? []), newComment] })) setComment('');
+    };
+
+    const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onloadend = async () => {
+            try {
+                setResolutionPhoto(await resizeImage(reader.result as string));
+            } catch (err) {
+                setError('Failed to process image.');
+            }
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const handleRemovePhoto = () => {
+        setResolutionPhoto(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    return (
+        <ModalWrapper isOpen onClose={onClose}>
+            <div className="bg-white rounded-xl shadow-2xl w-[min(48rem,calc(100vw-2rem))] max-h-[90vh] flex flex-col">
+                <div className="p-6 border-b border-slate-200">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <h2 className="text-xl font-bold text-slate-800">{projectCase.caseName}</h2>
+                            <p className="text-sm text-slate-500 mt-1">
+                                {projectCase.projectName} · {projectCase.liableDept || 'No department'} · Reported by {projectCase.reporter} on {formatDateDDMMMYYYY(projectCase.date)}
+                            </p>
+                        </div>
+                        <span className={`flex-shrink-0 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${CASE_STATUS_CLASSES[status]}`}>{status}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-sm text-slate-600">
+                        <span>Priority: <strong>{projectCase.priority}</strong></span>
+                        <span>
+                            Due: <strong className={isOverdue ? 'text-red-600' : ''}>{formatDateDDMMMYYYY(dueDate)}</strong>
+                            {isOverdue && <span className="ml-2 text-xs font-semibold text-red-600">Overdue</span>}
+                            {wasResolvedLate(projectCase) && <span className="ml-2 text-xs font-semibold text-amber-600">Resolved late</span>}
+                        </span>
+                        <span>Assignee: <strong>{projectCase.assigneeName || 'Unassigned'}</strong></span>
+                        {projectCase.linkedCaseId !== undefined && <span>Recurrence of: <strong>case #{projectCase.linkedCaseId}</strong></span>}
+                    </div>
+                </div>
+
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {projectCase.comments && <p className="text-sm text-slate-700 whitespace-pre-wrap">{projectCase.comments}</p>}
+                    {projectCase.summary && (
+                        <p className="text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-md p-3"><span className="font-semibold">AI summary:</span> {projectCase.summary}
+                            {projectCase.aiSuggestion && <> Suggested: {projectCase.aiSuggestion.category}, {projectCase.aiSuggestion.priority} priority.</>}
+                        </p>
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <h3 className={sectionTitleClass}>Before</h3>
+                            {projectCase.photo
+                                ? <img src={projectCase.photo} alt="The site when the case was reported" className="w-full aspect-square object-cover rounded-md border border-slate-300" />
+                                : <p className="text-sm text-slate-500">No photo.</p>}
+                        </div>
+                        <div>
+                            <h3 className={sectionTitleClass}>After</h3>
+                            {projectCase.resolutionPhoto && !(canManage && canResolve) ? (
+                                <img src={projectCase.resolutionPhoto} alt="The site after the fix" className="w-full aspect-square object-cover rounded-md border border-slate-300" />
+                            ) : canManage && canResolve ? (
+                                resolutionPhoto ? (
+                                    <PhotoPreview src={resolutionPhoto} alt="The site after the fix" onRemove={handleRemovePhoto} />
+                                ) : (
+                                    <label htmlFor="resolution-photo" className="flex flex-col items-center justify-center aspect-square border-2 border-slate-300 border-dashed rounded-md cursor-pointer hover:border-orange-500 text-slate-500 hover:text-orange-600 text-sm font-medium">
+                                        Upload a photo of the fix
+                                        <input id="resolution-photo" type="file" accept="image/*" capture="environment" className="sr-only" onChange={handlePhotoChange} ref={fileInputRef} />
+                                    </label>
+                                )
+                            ) : (
+                                <p className="text-sm text-slate-500">Not resolved yet.</p>
+                            )}
+                            {canManage && canResolve ? (
+                                <textarea value={resolutionNote} onChange={e => setResolutionNote(e.target.value)} placeholder="What was done to fix it" rows={2} className={`${inputClass} mt-2`} />
+                            ) : projectCase.resolutionNote && (
+                                <p className="text-sm text-slate-700 mt-2 whitespace-pre-wrap">{projectCase.resolutionNote}</p>
+                            )}
+                            {projectCase.resolvedAt && (
+                                <p className="text-xs text-slate-500 mt-1">Resolved by {projectCase.resolvedBy} on {formatDateTime(projectCase.resolvedAt)}</p>
+                            )}
+                            {projectCase.verifiedAt && (
+                                <p className="text-xs text-slate-500">Verified by {projectCase.verifiedBy} on {formatDateTime(projectCase.verifiedAt)}</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {canManage && (
+                        <div className="p-4 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+                            {['Open', 'Assigned', 'In Progress'].includes(status) && (
+                                <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                                    <div className="flex-1">
+                                        <label htmlFor="case-assignee" className="block text-sm font-medium text-slate-700 mb-1">Assignee ({projectCase.liableDept || 'no department'})</label>
+                                        <select id="case-assignee" value={assigneeId} onChange={e => setAssigneeId(e.target.value)} className={inputClass}>
+                                            <option value="">Choose an employee</option>
+                                            {assignees.map(e => <option key={e.id} value={e.id}>{e.name} – {e.designation}</option>)}
+                                        </select>
+                                    </div>
+                                    {status !== 'Open' && (
+                                        <button type="button" onClick={handleAssign} disabled={isSaving || !assigneeId || Number(assigneeId) === projectCase.assigneeId} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">
+                                            Reassign
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {assignees.length === 0 && ['Open', 'Assigned', 'In Progress'].includes(status) && (
+                                <p className="text-xs text-slate-500">No one in the employee directory works in this department.</p>
+                            )}
+                            <div className="flex flex-wrap gap-2">
+                                {CASE_TRANSITIONS[status].map(to => (
+                                    <button
+                                        key={to}
+                                        type="button"
+                                        onClick={() => handleTransition(to)}
+                                        disabled={isSaving}
+                                        className={CASE_STATUSES.indexOf(to) > CASE_STATUSES.indexOf(status)
+                                            ? "px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:bg-slate-400"
+                                            : "px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"}
+                                    >
+                                        {transitionLabel(status, to)}
+                                    </button>
+                                ))}
+                                {isSaving && <Spinner className="h-5" />}
+                            </div>
+                        </div>
+                    )}
+
+                    {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+
+                    <div>
+                        <h3 className={sectionTitleClass}>Comments</h3>
+                        <ul className="space-y-3">
+                            {(projectCase.thread ?? []).map(c => (
+                                <li key={c.id} className="text-sm">
+                                    <p className="text-slate-500 text-xs"><span className="font-semibold text-slate-700">{c.authorName}</span> · {formatDateTime(c.at)}</p>
+                                    <p className="text-slate-700 whitespace-pre-wrap">{c.text}</p>
+                                </li>
+                            ))}
+                            {(projectCase.thread ?? []).length === 0 && <li className="text-sm text-slate-500">No comments yet.</li>}
+                        </ul>
+                        <form onSubmit={handleAddComment} className="flex gap-2 mt-3">
+                            <input type="text" value={comment} onChange={e => setComment(e.target.value)} placeholder="Add a comment" className={inputClass} />
+                            <button type="submit" disabled={isSaving || !comment.trim()} className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700 disabled:bg-slate-400">Post</button>
+                        </form>
+                    </div>
+
+                    <div>
+                        <h3 className={sectionTitleClass}>History</h3>
+                        <ol className="space-y-1 text-sm text-slate-600">
+                            {(projectCase.statusHistory ?? []).map((change, index) => (
+                                <li key={index}>
+                                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${CASE_STATUS_CLASSES[change.status]}`}>{change.status}</span>
+                                    {formatDateTime(change.at)} by {change.by}
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                </div>
+
+                <div className="flex justify-end p-4 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Close</button>
+                </div>
+            </div>
+        </ModalWrapper>
+    );
+};
+
+export default ProjectCaseDetail;
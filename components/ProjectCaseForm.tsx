@@ -5,17 +5,34 @@ import PhotoPreview from './PhotoPreview';
 import FormField from './FormField';
 import Spinner from './Spinner';
 import { resizeImage } from '../utils/imageUtils';
-import { User, Project, AnalysisResult } from '../types';
+import { User, Project, ProjectCase } from '../types';
 import SearchableSelect from './SearchableSelect';
+import OutboxList from './OutboxList';
+import SimilarIssuesNotice from './SimilarIssuesNotice';
+import AiStatusNotice from './AiStatusNotice';
 import { DEPARTMENTS } from '../constants';
 import { useLoading } from '../contexts/LoadingContext';
-import { analyzeProjectCase } from '../services/geminiService';
+import { analyzeProjectCase } from '../services/aiService';
+import { useAiStatus } from '../hooks/useAiStatus';
+import { OutboxEntry, queueCreate, queueUpdate, newRecordId, saveDraft, loadDraft, clearDraft } from '../services/outbox';
 
 interface ProjectCaseFormProps {
     currentUser: User;
     projects: Project[];
 }
 
+const DRAFT_ID = 'projectCase';
+
+interface CaseDraft {
+    projectName: string;
+    projectZone: string;
+    caseName: string;
+    liableDept: string;
+    comments: string;
+    photo: string | null;
+    linkedCaseId?: number;
+}
+
 const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects }) => {
     const { showLoading, hideLoading } = useLoading();
     const [projectName, setProjectName] = useState('');
@@ -24,8 +41,14 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
     const [liableDept, setLiableDept] = useState('');
     const [comments, setComments] = useState('');
     const [photo, setPhoto] = useState<string | null>(null);
+    // An earlier case the reporter says this one repeats.
+    const [linkedCaseId, setLinkedCaseId] = useState<number | undefined>(undefined);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const aiStatus = useAiStatus();
     const [error, setError] = useState<string | null>(null);
+    // The outbox entry being edited, if the form was loaded from a recent submission.
+    const [editingEntry, setEditingEntry] = useState<OutboxEntry<'projectCase'> | null>(null);
+    const [isDraftRestored, setIsDraftRestored] = useState(false);
 
     const [isCameraOpen, setIsCameraOpen] = useState(false);
     const [capturedImage, setCapturedImage] = useState<string | null>(null);
@@ -43,6 +66,33 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
         }, {} as Record<string, string>),
     [projects]);
 
+    useEffect(() => {
+        loadDraft<CaseDraft>(DRAFT_ID, currentUser.id)
+            .then(draft => {
+                if (!draft) return;
+                setProjectName(draft.projectName);
+                setProjectZone(draft.projectZone);
+                setCaseName(draft.caseName);
+                setLiableDept(draft.liableDept);
+                setComments(draft.comments);
+                setPhoto(draft.photo);
+                setLinkedCaseId(draft.linkedCaseId);
+            })
+            .catch(err => console.error('Failed to restore the case draft:', err))
+            .finally(() => setIsDraftRestored(true));
+    }, []);
+
+    // Keep unsent input on the device, so a reload or a dropped connection doesn't lose it.
+    useEffect(() => {
+        if (!isDraftRestored || editingEntry) return;
+        const timer = window.setTimeout(() => {
+            const isEmpty = !projectName && !caseName.trim() && !liableDept && !comments.trim() && !photo;
+            const draft: CaseDraft = { projectName, projectZone, caseName, liableDept, comments, photo, linkedCaseId };
+            (isEmpty ? clearDraft(DRAFT_ID, currentUser.id) : saveDraft(DRAFT_ID, currentUser.id, draft))
+                .catch(err => console.error('Failed to save the case draft:', err));
+        }, 500);
+        return () => window.clearTimeout(timer);
+    }, [isDraftRestored, editingEntry, projectName, projectZone, caseName, liableDept, comments, photo, linkedCaseId]);
 
     useEffect(() => {
         if (!isCameraOpen) {
@@ -161,12 +211,28 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
         setLiableDept('');
         setComments('');
         setPhoto(null);
+        setLinkedCaseId(undefined);
         setError(null);
+        setEditingEntry(null);
         if (fileInputRef.current) {
             fileInputRef.current.value = "";
         }
     };
 
+    const handleEditSubmission = (entry: OutboxEntry<'projectCase'>) => {
+        const projectCase = entry.record;
+        setEditingEntry(entry);
+        setProjectName(projectCase.projectName);
+        setProjectZone(projectCase.projectZone ?? '');
+        setCaseName(projectCase.caseName);
+        setLiableDept(projectCase.liableDept ?? '');
+        setComments(projectCase.comments ?? '');
+        setPhoto(projectCase.photo ?? null);
+        setLinkedCaseId(projectCase.linkedCaseId);
+        setError(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
     const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
          if (!projectName.trim()) {
@@ -189,24 +255,50 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
         showLoading();
         setError(null);
         
-        const analysisResult = await analyzeProjectCase(caseName, comments, photo);
-
-        console.log("--- Case Report Captured ---");
-        console.log({ 
-            projectName,
-            projectZone,
-            caseName,
-            liableDept,
-            comments, 
-            photoPresent: !!photo,
-            aiAnalysis: analysisResult,
-        });
+        // Offline, the case is classified by the outbox before it's uploaded.
+        const isOffline = !navigator.onLine;
+        const isAiDisabled = aiStatus?.enabled === false;
+        const analysisResult = isOffline || isAiDisabled ? null : await analyzeProjectCase(caseName, comments, photo);
 
-        hideLoading();
-        setIsSubmitting(false);
+        try {
+            const projectCase: ProjectCase = {
+                id: editingEntry?.record.id ?? newRecordId(),
+                caseName,
+                projectName,
+                projectId: projects.find(p => p.name === projectName)?.id,
+                projectZone,
+                liableDept,
+                comments,
+                photo,
+                reporter: editingEntry?.record.reporter ?? currentUser.name,
+                date: editingEntry?.record.date ?? new Date().toISOString().split('T')[0],
+                // Unclassified cases are filed as 'Other' / 'Medium' until someone triages them.
+                category: analysisResult?.category ?? 'Other',
+                priority: analysisResult?.priority ?? 'Medium',
+                summary: analysisResult?.summary,
+                linkedCaseId,
+            };
+            if (editingEntry) {
+                await queueUpdate(editingEntry, currentUser.id, projectCase, isOffline);
+            } else {
+                await queueCreate('projectCase', currentUser.id, projectCase, isOffline);
+            }
+            await clearDraft(DRAFT_ID, currentUser.id);
+        } catch (err) {
+            console.error("Failed to submit case report:", err);
+            setError(err instanceof Error ? `Could not submit the case: ${err.message}` : 'Could not submit the case. Please try again.');
+            return;
+        } finally {
+            hideLoading();
+            setIsSubmitting(false);
+        }
 
-        const alertMessage = analysisResult
+        const alertMessage = isOffline
+            ? "You're offline, so the case has been saved on this device. It will be classified and sent automatically once you're back online."
+            : analysisResult
             ? `Case report submitted successfully! AI classified this as a '${analysisResult.category}' issue with '${analysisResult.priority}' priority.`
+            : isAiDisabled
+            ? "Case report submitted successfully! AI analysis is turned off, so it was filed as 'Other' with 'Medium' priority."
             : 'Case report submitted successfully! (AI analysis was not available).';
         
         alert(alertMessage);
@@ -225,6 +317,12 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
                             <p className="mt-1 text-sm text-slate-500">
                                {canEdit ? 'Fill out the details for the project case.' : 'You are viewing this form in read-only mode.'}
                             </p>
+                            {editingEntry && (
+                                <p className="mt-3 inline-flex items-center gap-3 text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded-md px-3 py-1.5">
+                                    Editing a case you submitted earlier.
+                                    <button type="button" onClick={resetForm} className="font-medium underline">Cancel</button>
+                                </p>
+                            )}
                         </div>
                     </header>
                     <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-6">
@@ -298,9 +396,18 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
                                 onChange={handleFieldChange(setComments)}
                                 placeholder="Add any details or comments about this case."
                             />
+                            <SimilarIssuesNotice
+                                project={projectName}
+                                text={`${caseName} ${comments}`}
+                                excludeCaseId={editingEntry?.record.id}
+                                linkedCaseId={linkedCaseId}
+                                onLinkChange={canEdit ? setLinkedCaseId : undefined}
+                            />
 
                             {error && <p className="text-sm text-red-600 text-center p-2 bg-red-50 rounded-md">{error}</p>}
 
+                            <AiStatusNotice status={aiStatus}>The case will be filed as 'Other' with 'Medium' priority.</AiStatusNotice>
+
                             <div className="pt-2">
                                 <button
                                     type="submit"
@@ -320,6 +427,18 @@ const ProjectCaseForm: React.FC<ProjectCaseFormProps> = ({ currentUser, projects
                         </fieldset>
                     </form>
                 </div>
+                <div className="mt-6">
+                    <OutboxList
+                        kind="projectCase"
+                        userId={currentUser.id}
+                        title="Your Recent Cases"
+                        describe={entry => ({
+                            primary: `${entry.record.caseName} · ${entry.record.projectName}`,
+                            secondary: `${entry.record.date} · ${entry.needsAnalysis ? 'awaiting classification' : `${entry.record.category}, ${entry.record.priority}`}`,
+                        })}
+                        onEdit={canEdit ? handleEditSubmission : undefined}
+                    />
+                </div>
             </div>
             {isCameraOpen && (
                  <div className="fixed inset-0 bg-black z-50 flex flex-col items-center justify-center" role="dialog" aria-modal="true" aria-labelledby="camera-title">
@@ -1,5 +1,15 @@
-import React, { useState, useMemo } from 'react';
-import { Project } from '../types';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { Employee, Project, ProjectCase, User } from '../types';
+import { ScopeFilter } from '../utils/dataScope';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { casesApi, listAllRecords } from '../services/apiClient';
+import { companyToday } from '../utils/time';
+import { CASE_STATUSES, CASE_STATUS_CLASSES, caseDueDate, caseStatus, isCaseOverdue } from '../utils/caseWorkflow';
+import DataTable, { DataTableColumn } from './DataTable';
+import ProjectCaseDetail from './ProjectCaseDetail';
+import RecurringIssuesPanel from './RecurringIssuesPanel';
+import FeedbackMessage from './FeedbackMessage';
+import Spinner from './Spinner';
 
 // For TypeScript to recognize the jspdf library loaded from CDN
 declare global {
@@ -8,27 +18,6 @@ declare global {
     }
 }
 
-// Mock data structure
-interface ProjectCase {
-  id: number;
-  caseName: string;
-  projectName: string;
-  reporter: string;
-  date: string; // YYYY-MM-DD
-  category: string;
-  priority: 'Low' | 'Medium' | 'High' | 'Critical';
-}
-
-const MOCK_CASES: ProjectCase[] = [
-    { id: 1, caseName: 'Column Crack at Level 3', projectName: 'Lake Lofts', reporter: 'Ruhul Amen', date: '2024-08-25', category: 'Structural', priority: 'High' },
-    { id: 2, caseName: 'Exposed Wiring in Hallway', projectName: 'Gladiolus', reporter: 'Admin User', date: '2024-08-24', category: 'Electrical', priority: 'Critical' },
-    { id: 3, caseName: 'Leaking Pipe in Basement', projectName: 'Platinum', reporter: 'Ruhul Amen', date: '2024-08-22', category: 'Plumbing', priority: 'Medium' },
-    { id: 4, caseName: 'Improper Scaffolding Setup', projectName: 'Jardin Palacia', reporter: 'Admin User', date: '2024-08-20', category: 'Safety Hazard', priority: 'High' },
-    { id: 5, caseName: 'Paint Finishing Incomplete', projectName: 'Lake Lofts', reporter: 'Ruhul Amen', date: '2024-08-19', category: 'Finishing', priority: 'Low' },
-    { id: 6, caseName: 'Faulty Elevator Control Panel', projectName: 'Gladiolus', reporter: 'Admin User', date: '2024-08-18', category: 'Electrical', priority: 'High' },
-];
-
-const ALL_CATEGORIES = Array.from(new Set(MOCK_CASES.map(c => c.category)));
 const ALL_PRIORITIES: ProjectCase['priority'][] = ['Low', 'Medium', 'High', 'Critical'];
 
 const getPriorityBadgeClass = (priority: 'Low' | 'Medium' | 'High' | 'Critical') => {
@@ -41,31 +30,110 @@ const getPriorityBadgeClass = (priority: 'Low' | 'Medium' | 'High' | 'Critical')
     }
 };
 
+const formatCaseDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const CASE_COLUMNS: DataTableColumn<ProjectCase>[] = [
+    { key: 'caseName', header: 'Case Name', width: 240, render: pcase => pcase.caseName, sortValue: pcase => pcase.caseName, cellClassName: 'font-semibold text-slate-800' },
+    { key: 'projectName', header: 'Project', width: 160, render: pcase => pcase.projectName, sortValue: pcase => pcase.projectName },
+    { key: 'date', header: 'Date', width: 160, render: pcase => formatCaseDate(pcase.date), sortValue: pcase => pcase.date, title: pcase => formatCaseDate(pcase.date) },
+    {
+        key: 'priority',
+        header: 'Priority',
+        width: 120,
+        render: pcase => <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityBadgeClass(pcase.priority)}`}>{pcase.priority}</span>,
+        sortValue: pcase => ALL_PRIORITIES.indexOf(pcase.priority),
+        title: pcase => pcase.priority,
+    },
+    {
+        key: 'category',
+        header: 'Category',
+        width: 150,
+        render: pcase => <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-800">{pcase.category}</span>,
+        sortValue: pcase => pcase.category,
+    },
+    {
+        key: 'status',
+        header: 'Status',
+        width: 130,
+        render: pcase => <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${CASE_STATUS_CLASSES[caseStatus(pcase)]}`}>{caseStatus(pcase)}</span>,
+        sortValue: pcase => CASE_STATUSES.indexOf(caseStatus(pcase)),
+        title: pcase => caseStatus(pcase),
+    },
+    { key: 'assignee', header: 'Assignee', width: 160, render: pcase => pcase.assigneeName ?? '—', sortValue: pcase => pcase.assigneeName ?? '' },
+    {
+        key: 'dueDate',
+        header: 'Due',
+        width: 170,
+        render: pcase => (
+            <>
+                {formatCaseDate(caseDueDate(pcase))}
+                {isCaseOverdue(pcase) && <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-red-600 text-white">Overdue</span>}
+            </>
+        ),
+        sortValue: pcase => caseDueDate(pcase),
+        title: pcase => formatCaseDate(caseDueDate(pcase)),
+    },
+    { key: 'reporter', header: 'Reporter', width: 150, render: pcase => pcase.reporter, sortValue: pcase => pcase.reporter, defaultHidden: true },
+];
+
 interface ProjectCasesListProps {
+    currentUser: User;
     projects: Project[];
+    employees: Employee[];
+    scopeFilter: ScopeFilter;
 }
 
-const ProjectCasesList: React.FC<ProjectCasesListProps> = ({ projects }) => {
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [projectFilter, setProjectFilter] = useState('');
+const ProjectCasesList: React.FC<ProjectCasesListProps> = ({ currentUser, projects, employees, scopeFilter }) => {
+    const [cases, setCases] = useState<ProjectCase[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [selectedCaseId, setSelectedCaseId] = useState<number | null>(null);
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [projectFilter, setProjectFilter] = useQueryParam('project');
+    const [statusFilter, setStatusFilter] = useQueryParam('status');
+    const [overdueOnly, setOverdueOnly] = useQueryParam('overdue');
     const [priorityFilter, setPriorityFilter] = useState('');
     const [categoryFilter, setCategoryFilter] = useState('');
 
+    const loadCases = useCallback(async () => {
+        try {
+            setCases(await listAllRecords(casesApi));
+        } catch (err) {
+            setLoadError(err instanceof Error ? err.message : 'Could not load the project cases.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => { loadCases(); }, [loadCases]);
+
     const projectNames = useMemo(() => projects.map(p => p.name), [projects]);
+    const categories = useMemo(() => [...new Set(cases.map(c => c.category))].sort(), [cases]);
+    const selectedCase = cases.find(c => c.id === selectedCaseId);
+
+    const handleCaseSaved = (saved: ProjectCase) => {
+        setCases(prev => prev.map(c => (c.id === saved.id ? saved : c)));
+    };
 
     const filteredCases = useMemo(() => {
-        return MOCK_CASES.filter(pcase => {
+        const today = companyToday();
+        return cases.filter(pcase => {
+            if (!scopeFilter.allowsProject(pcase.projectName, pcase.projectZone) || !scopeFilter.allowsDepartment(pcase.liableDept)) return false;
             const startDateMatch = !startDate || pcase.date >= startDate;
             const endDateMatch = !endDate || pcase.date <= endDate;
             const projectMatch = !projectFilter || pcase.projectName === projectFilter;
             const priorityMatch = !priorityFilter || pcase.priority === priorityFilter;
             const categoryMatch = !categoryFilter || pcase.category === categoryFilter;
-            return startDateMatch && endDateMatch && projectMatch && priorityMatch && categoryMatch;
+            const statusMatch = !statusFilter || caseStatus(pcase) === statusFilter;
+            const overdueMatch = !overdueOnly || isCaseOverdue(pcase, today);
+            return startDateMatch && endDateMatch && projectMatch && priorityMatch && categoryMatch && statusMatch && overdueMatch;
         });
-    }, [startDate, endDate, projectFilter, priorityFilter, categoryFilter]);
+    }, [cases, startDate, endDate, projectFilter, priorityFilter, categoryFilter, statusFilter, overdueOnly, scopeFilter]);
+
+    const overdueCount = useMemo(() => filteredCases.filter(pcase => isCaseOverdue(pcase)).length, [filteredCases]);
 
-    const handleDownloadPDF = () => {
+    const handleDownloadPDF = (cases: ProjectCase[]) => {
         if (typeof window.jspdf === 'undefined') {
             console.error("jsPDF library is not loaded.");
             alert("Could not generate PDF. Please try reloading the page.");
@@ -89,23 +157,27 @@ const ProjectCasesList: React.FC<ProjectCasesListProps> = ({ projects }) => {
             `Project: ${projectFilter || 'All'}`,
             `Priority: ${priorityFilter || 'All'}`,
             `Category: ${categoryFilter || 'All'}`,
+            `Status: ${statusFilter || 'All'}${overdueOnly ? ' (overdue only)' : ''}`,
         ];
         doc.text(filterInfo, 14, 32);
 
         // Table
-        const tableColumn = ["Case Name", "Project", "Date", "Priority", "Category"];
-        const tableRows = filteredCases.map(pcase => [
+        const tableColumn = ["Case Name", "Project", "Date", "Priority", "Category", "Status", "Assignee", "Due"];
+        const tableRows = cases.map(pcase => [
             pcase.caseName,
             pcase.projectName,
             new Date(`${pcase.date}T00:00:00`).toLocaleDateString('en-US'),
             pcase.priority,
-            pcase.category
+            pcase.category,
+            caseStatus(pcase),
+            pcase.assigneeName ?? '',
+            `${new Date(`${caseDueDate(pcase)}T00:00:00`).toLocaleDateString('en-US')}${isCaseOverdue(pcase) ? ' (overdue)' : ''}`,
         ]);
 
         (doc as any).autoTable({
             head: [tableColumn],
             body: tableRows,
-            startY: 55,
+            startY: 60,
             theme: 'grid',
             headStyles: { fillColor: [255, 107, 10] }, // Orange header
         });
@@ -159,50 +231,69 @@ const ProjectCasesList: React.FC<ProjectCasesListProps> = ({ projects }) => {
                         <label htmlFor="category-filter" className="block text-sm font-medium text-slate-700">Category</label>
                         <select id="category-filter" value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
                             <option value="">All Categories</option>
-                            {ALL_CATEGORIES.map((cat) => (<option key={cat} value={cat}>{cat}</option>))}
+                            {categories.map((cat) => (<option key={cat} value={cat}>{cat}</option>))}
                         </select>
                     </div>
+                     {/* Status Filter */}
+                    <div>
+                        <label htmlFor="status-filter" className="block text-sm font-medium text-slate-700">Status</label>
+                        <select id="status-filter" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
+                            <option value="">All Statuses</option>
+                            {CASE_STATUSES.map((status) => (<option key={status} value={status}>{status}</option>))}
+                        </select>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 py-2">
+                        <input type="checkbox" checked={!!overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked ? '1' : '')} className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500" />
+                        Overdue only
+                    </label>
                 </div>
             </div>
 
+            <RecurringIssuesPanel
+                project={projectFilter}
+                from={startDate}
+                to={endDate}
+                onOpenCase={setSelectedCaseId}
+                canOpenVisitReports={currentUser.permissions.visitReports.view}
+            />
+
             <div className="bg-white rounded-xl shadow-sm border border-slate-200">
                 <div className="p-6 border-b border-slate-200 flex justify-between items-center">
                      <h2 className="text-xl font-semibold text-slate-800">
                         Results ({filteredCases.length})
+                        {overdueCount > 0 && <span className="ml-3 text-sm font-medium text-red-600">{overdueCount} overdue</span>}
                     </h2>
-                    <button onClick={handleDownloadPDF} disabled={filteredCases.length === 0} className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:bg-slate-400 disabled:cursor-not-allowed" aria-label="Download report as PDF">
+                    <button onClick={() => handleDownloadPDF(filteredCases)} disabled={filteredCases.length === 0} className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:bg-slate-400 disabled:cursor-not-allowed" aria-label="Download report as PDF">
                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
                         Download PDF
                     </button>
                 </div>
-                {filteredCases.length > 0 ? (
-                    <ul className="divide-y divide-slate-200">
-                        {filteredCases.map((pcase) => (
-                            <li key={pcase.id} className="p-4 grid grid-cols-3 md:grid-cols-4 gap-4 items-center hover:bg-slate-50 transition-colors">
-                                <div className="col-span-2 md:col-span-1">
-                                    <p className="font-semibold text-slate-800 truncate" title={pcase.caseName}>{pcase.caseName}</p>
-                                    <p className="text-sm text-slate-500">{pcase.projectName}</p>
-                                </div>
-                                <div className="hidden md:block">
-                                    <p className="text-sm text-slate-600">{new Date(`${pcase.date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</p>
-                                </div>
-                                <div>
-                                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityBadgeClass(pcase.priority)}`}>
-                                        {pcase.priority}
-                                    </span>
-                                </div>
-                                <div className="text-right">
-                                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-800">
-                                        {pcase.category}
-                                    </span>
-                                </div>
-                            </li>
-                        ))}
-                    </ul>
+                {isLoading ? (
+                    <div className="flex justify-center py-10"><Spinner className="h-10" /></div>
                 ) : (
-                    <p className="p-6 text-center text-slate-500">No project cases found matching your criteria.</p>
+                    <DataTable
+                        tableId="projectCases"
+                        columns={CASE_COLUMNS}
+                        rows={filteredCases}
+                        getRowId={pcase => pcase.id}
+                        emptyMessage="No project cases found matching your criteria."
+                        bulkActions={[{ label: 'Download PDF', onClick: handleDownloadPDF }]}
+                        getRowClassName={pcase => (isCaseOverdue(pcase) ? 'bg-red-50 hover:bg-red-100' : '')}
+                        onRowClick={pcase => setSelectedCaseId(pcase.id)}
+                        className="px-6 pt-4 pb-6"
+                    />
                 )}
             </div>
+            {selectedCase && (
+                <ProjectCaseDetail
+                    projectCase={selectedCase}
+                    currentUser={currentUser}
+                    employees={employees}
+                    onClose={() => setSelectedCaseId(null)}
+                    onSaved={handleCaseSaved}
+                />
+            )}
+            {loadError && <FeedbackMessage message={loadError} type="error" onDismiss={() => setLoadError(null)} />}
         </div>
     );
 };
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Project } from '../types';
+import { ProjectSuggestion } from '../utils/projects';
+import ModalWrapper from './ModalWrapper';
+
+export interface UnknownProjectName {
+    name: string;
+    rowCount: number;
+    suggestions: ProjectSuggestion[];
+}
+
+interface ProjectReconciliationModalProps {
+    isOpen: boolean;
+    unknownNames: UnknownProjectName[];
+    projects: Project[];
+    /** Chosen project id per unknown name; names left unmapped are absent. */
+    onConfirm: (mapping: Map<string, number>, rememberAliases: boolean) => void;
+    onCancel: () => void;
+}
+
+// A suggestion this close is almost certainly the same project, so it starts out selected.
+const PRESELECT_SCORE = 0.75;
+
+const initialSelection = (unknownNames: UnknownProjectName[]): Record<string, string> =>
+    Object.fromEntries(unknownNames.map(({ name, suggestions }) => {
+        const best = suggestions[0];
+        return [name, best && best.score >= PRESELECT_SCORE ? String(best.project.id) : ''];
+    }));
+
+/** Asks the user which project each unrecognised name in an import refers to. */
+const ProjectReconciliationModal: React.FC<ProjectReconciliationModalProps> = ({ isOpen, unknownNames, projects, onConfirm, onCancel }) => {
+    const [selection, setSelection] = useState<Record<string, string>>({});
+    const [rememberAliases, setRememberAliases] = useState(true);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSelection(initialSelection(unknownNames));
+            setRememberAliases(true);
+        }
+    }, [isOpen, unknownNames]);
+
+    const sortedProjects = [...projects].sort((a, b) => a.name.localeCompare(b.name));
+    const mappedCount = unknownNames.filter(({ name }) => selection[name]).length;
+
+    const handleConfirm = () => {
+        const mapping = new Map<string, number>();
+        Object.entries(selection).forEach(([name, id]) => { if (id) mapping.set(name, Number(id)); });
+        onConfirm(mapping, rememberAliases);
+    };
+
+    return (
+        <ModalWrapper isOpen={isOpen} onClose={onCancel}>
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col fade-in" role="dialog" aria-modal="true" aria-labelledby="reconcile-projects-title">
+                <div className="p-6 border-b border-slate-200">
+                    <h2 id="reconcile-projects-title" className="text-xl font-bold text-slate-800">Match Project Names</h2>
+                    <p className="mt-1 text-sm text-slate-500">
+                        {unknownNames.length} project name{unknownNames.length === 1 ? '' : 's'} in this file {unknownNames.length === 1 ? "doesn't" : "don't"} match any project.
+                        Choose the project each one refers to, or keep it as written.
+                    </p>
+                </div>
+                <ul className="flex-1 overflow-y-auto divide-y divide-slate-200 px-6">
+                    {unknownNames.map(({ name, rowCount, suggestions }) => {
+                        const suggestedIds = new Set(suggestions.map(s => s.project.id));
+                        return (
+                            <li key={name} className="py-3 grid grid-cols-1 sm:grid-cols-2 gap-2 sm:items-center">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-slate-800 break-words">"{name}"</p>
+                                    <p className="text-xs text-slate-500">{rowCount} row{rowCount === 1 ? '' : 's'}</p>
+                                </div>
+                                <select
+                                    aria-label={`Project for ${name}`}
+                                    value={selection[name] ?? ''}
+                                    onChange={e => setSelection(prev => ({ ...prev, [name]: e.target.value }))}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-orange-500 focus:border-orange-500"
+                                >
+                                    <option value="">Keep as written</option>
+                                    {suggestions.length > 0 && (
+                                        <optgroup label="Suggested">
+                                            {suggestions.map(({ project, score }) => (
+                                                <option key={project.id} value={project.id}>{project.name} ({Math.round(score * 100)}% match)</option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                    <optgroup label="All projects">
+                                        {sortedProjects.filter(p => !suggestedIds.has(p.id)).map(project => (
+                                            <option key={project.id} value={project.id}>{project.name}</option>
+                                        ))}
+                                    </optgroup>
+                                </select>
+                            </li>
+                        );
+                    })}
+                </ul>
+                <div className="bg-slate-50 px-6 py-4 rounded-b-xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={rememberAliases} onChange={e => setRememberAliases(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500" />
+                        Remember these spellings for future imports
+                    </label>
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel Import</button>
+                        <button type="button" onClick={handleConfirm} className="px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700">
+                            Import{mappedCount > 0 ? ` (${mappedCount} matched)` : ''}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </ModalWrapper>
+    );
+};
+
+export default ProjectReconciliationModal;
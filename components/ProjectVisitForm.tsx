@@ -2,19 +2,30 @@
 // It manages form state, user interactions, photo capture/upload, and submission.
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { IssueItem, User, Project } from '../types';
+import { IssueItem, User, Project, VisitReport, PhotoCapture, GeoLocation } from '../types';
 import FormField from './FormField';
 import Spinner from './Spinner';
 import SearchableSelect from './SearchableSelect';
 import PhotoUploader from './PhotoUploader';
 import PhotoPreview from './PhotoPreview';
+import OutboxList from './OutboxList';
+import SimilarIssuesNotice from './SimilarIssuesNotice';
+import AiStatusNotice from './AiStatusNotice';
 import { resizeImage } from '../utils/imageUtils';
-import { analyzeIssueDescription } from '../services/geminiService';
+import { readExifTimestamp } from '../utils/exif';
+import { getCurrentLocation } from '../utils/geolocation';
+import { VISIT_FLAG_LABELS } from '../utils/visitVerification';
+import { analyzeIssueDescription } from '../services/aiService';
+import { useAiStatus } from '../hooks/useAiStatus';
+import { OutboxEntry, queueCreate, queueUpdate, newRecordId, saveDraft, loadDraft, clearDraft, entryForEdit } from '../services/outbox';
+import { visitReportsApi } from '../services/apiClient';
 import { useLoading } from '../contexts/LoadingContext';
 
 interface ProjectVisitFormProps {
     currentUser: User;
     projects: Project[];
+    /** A submitted report to open for editing, e.g. from the Visit Reports page. */
+    editReportId?: number;
 }
 
 const getPriorityBadgeClass = (priority: 'Low' | 'Medium' | 'High' | 'Critical') => {
@@ -27,13 +38,29 @@ const getPriorityBadgeClass = (priority: 'Low' | 'Medium' | 'High' | 'Critical')
     }
 };
 
-const SuccessMessage: React.FC<{ onReset: () => void }> = ({ onReset }) => (
+const DRAFT_ID = 'projectVisit';
+
+interface VisitDraft {
+    projectName: string;
+    projectZone: string;
+    otherProjectName: string;
+    entryDate: string;
+    frontViewPhotos: string[];
+    frontViewPhotoCaptures?: PhotoCapture[];
+    issues: IssueItem[];
+}
+
+const SuccessMessage: React.FC<{ onReset: () => void; isQueued: boolean }> = ({ onReset, isQueued }) => (
     <div className="text-center p-8">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20 text-green-500 mx-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
         </svg>
         <h3 className="mt-6 text-3xl font-bold text-slate-800">Report Submitted!</h3>
-        <p className="mt-3 text-slate-600 max-w-sm mx-auto">Thank you for helping us improve our projects. Your report has been successfully recorded.</p>
+        <p className="mt-3 text-slate-600 max-w-sm mx-auto">
+            {isQueued
+                ? "You're offline, so the report has been saved on this device. It will be sent automatically once you're back online."
+                : 'Thank you for helping us improve our projects. Your report has been successfully recorded.'}
+        </p>
         <button
             onClick={onReset}
             className="mt-10 w-full max-w-xs inline-flex items-center justify-center px-6 py-3.5 border border-transparent text-base font-medium rounded-lg shadow-lg text-white bg-gradient-to-br from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 hover:-translate-y-1 active:translate-y-0 transition-transform"
@@ -44,20 +71,27 @@ const SuccessMessage: React.FC<{ onReset: () => void }> = ({ onReset }) => (
 );
 
 
-export default function ProjectVisitForm({ currentUser, projects }: ProjectVisitFormProps) {
+export default function ProjectVisitForm({ currentUser, projects, editReportId }: ProjectVisitFormProps) {
     const { showLoading, hideLoading } = useLoading();
     const [projectName, setProjectName] = useState('');
     const [projectZone, setProjectZone] = useState('');
     const [otherProjectName, setOtherProjectName] = useState('');
     const [entryDate, setEntryDate] = useState(new Date());
     const [frontViewPhotos, setFrontViewPhotos] = useState<string[]>([]);
+    // When and where each front view photo was taken, by index.
+    const [frontViewCaptures, setFrontViewCaptures] = useState<PhotoCapture[]>([]);
     const [issues, setIssues] = useState<IssueItem[]>([{ id: Date.now().toString(), description: '', photos: [], comments: '' }]);
     
     const [error, setError] = useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isAnalyzing, setIsAnalyzing] = useState<Record<string, boolean>>({});
+    const aiStatus = useAiStatus();
     
     const [view, setView] = useState<'form' | 'success'>('form');
+    const [wasQueuedOffline, setWasQueuedOffline] = useState(false);
+    // The outbox entry being edited, if the form was loaded from a recent submission.
+    const [editingEntry, setEditingEntry] = useState<OutboxEntry<'visitReport'> | null>(null);
+    const [isDraftRestored, setIsDraftRestored] = useState(false);
     
     const [isCameraOpen, setIsCameraOpen] = useState(false);
     const [capturedImage, setCapturedImage] = useState<string | null>(null);
@@ -67,6 +101,8 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
     const issueFileInputRefs = useRef<Map<string, HTMLInputElement>>(new Map());
     const videoRef = useRef<HTMLVideoElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
+    // Started when a camera photo is taken, so the fix matches the moment of capture.
+    const captureRef = useRef<{ takenAt: string; location: Promise<GeoLocation | null> } | null>(null);
 
     const canEdit = currentUser.permissions.projectVisit.edit;
 
@@ -78,6 +114,44 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
         }, {} as Record<string, string>),
     [projects]);
     
+    useEffect(() => {
+        loadDraft<VisitDraft>(DRAFT_ID, currentUser.id)
+            .then(draft => {
+                if (!draft) return;
+                setProjectName(draft.projectName);
+                setProjectZone(draft.projectZone);
+                setOtherProjectName(draft.otherProjectName);
+                setEntryDate(new Date(draft.entryDate));
+                setFrontViewPhotos(draft.frontViewPhotos);
+                setFrontViewCaptures(draft.frontViewPhotoCaptures ?? []);
+                if (draft.issues.length > 0) setIssues(draft.issues);
+            })
+            .catch(err => console.error('Failed to restore the visit report draft:', err))
+            .finally(() => setIsDraftRestored(true));
+    }, []);
+
+    // Opened to edit a submitted report: load it once the draft is out of the way.
+    useEffect(() => {
+        if (!isDraftRestored || editReportId === undefined) return;
+        visitReportsApi.getVersioned(editReportId)
+            .then(versioned => entryForEdit('visitReport', currentUser.id, versioned))
+            .then(handleEditSubmission)
+            .catch(err => setError(err instanceof Error ? `Could not open the report: ${err.message}` : 'Could not open the report.'));
+    }, [isDraftRestored, editReportId]);
+
+    // Keep unsent input on the device, so a reload or a dropped connection doesn't lose it.
+    useEffect(() => {
+        if (!isDraftRestored || editingEntry || view !== 'form') return;
+        const timer = window.setTimeout(() => {
+            const isEmpty = !projectName && !otherProjectName && frontViewPhotos.length === 0
+                && issues.every(issue => !issue.description.trim() && issue.photos.length === 0 && !issue.comments.trim());
+            const draft: VisitDraft = { projectName, projectZone, otherProjectName, entryDate: entryDate.toISOString(), frontViewPhotos, frontViewPhotoCaptures: frontViewCaptures, issues };
+            (isEmpty ? clearDraft(DRAFT_ID, currentUser.id) : saveDraft(DRAFT_ID, currentUser.id, draft))
+                .catch(err => console.error('Failed to save the visit report draft:', err));
+        }, 500);
+        return () => window.clearTimeout(timer);
+    }, [isDraftRestored, editingEntry, view, projectName, projectZone, otherProjectName, entryDate, frontViewPhotos, frontViewCaptures, issues]);
+
     useEffect(() => {
         if (!isCameraOpen) {
             if (streamRef.current) {
@@ -178,8 +252,11 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                 const reader = new FileReader();
                 reader.onloadend = async () => {
                     try {
+                        // Read the EXIF date first: resizing drops it.
+                        const capture: PhotoCapture = { source: 'upload', takenAt: readExifTimestamp(reader.result as string) ?? undefined };
                         const resizedImage = await resizeImage(reader.result as string);
                         setFrontViewPhotos(prev => [...prev, resizedImage]);
+                        setFrontViewCaptures(prev => [...prev, capture]);
                     } catch (err) {
                         console.error("Failed to resize image:", err);
                         setError("There was an error processing the image.");
@@ -192,6 +269,7 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
 
     const removeFrontViewPhoto = (indexToRemove: number) => {
         setFrontViewPhotos(prev => prev.filter((_, index) => index !== indexToRemove));
+        setFrontViewCaptures(prev => prev.filter((_, index) => index !== indexToRemove));
     };
     
     const handleIssueFileChange = (e: React.ChangeEvent<HTMLInputElement>, issueId: string) => {
@@ -206,11 +284,12 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                 const reader = new FileReader();
                 reader.onloadend = async () => {
                     try {
+                        const capture: PhotoCapture = { source: 'upload', takenAt: readExifTimestamp(reader.result as string) ?? undefined };
                         const resizedImage = await resizeImage(reader.result as string);
                         setIssues(prevIssues =>
                             prevIssues.map(iss => {
                                 if (iss.id === issueId && iss.photos.length < 4) {
-                                    return { ...iss, photos: [...iss.photos, resizedImage] };
+                                    return { ...iss, photos: [...iss.photos, resizedImage], photoCaptures: [...(iss.photoCaptures ?? []), capture] };
                                 }
                                 return iss;
                             })
@@ -230,7 +309,8 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
             prevIssues.map(issue => {
                 if (issue.id === issueId) {
                     const newPhotos = issue.photos.filter((_, index) => index !== indexToRemove);
-                    return { ...issue, photos: newPhotos };
+                    const newCaptures = issue.photoCaptures?.filter((_, index) => index !== indexToRemove);
+                    return { ...issue, photos: newPhotos, photoCaptures: newCaptures };
                 }
                 return issue;
             })
@@ -257,6 +337,7 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
             if (context) {
                 context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
                 setCapturedImage(canvas.toDataURL('image/jpeg'));
+                captureRef.current = { takenAt: new Date().toISOString(), location: getCurrentLocation() };
             }
         }
     };
@@ -268,13 +349,16 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
 
         try {
             const resizedImage = await resizeImage(capturedImage);
+            const location = await captureRef.current?.location;
+            const capture: PhotoCapture = { source: 'camera', takenAt: captureRef.current?.takenAt, location: location ?? undefined };
             if (cameraTarget.type === 'frontView' && frontViewPhotos.length < 4) {
                 setFrontViewPhotos(prev => [...prev, resizedImage]);
+                setFrontViewCaptures(prev => [...prev, capture]);
             } else if (cameraTarget.type === 'issue' && cameraTarget.issueId) {
                 setIssues(prevIssues =>
                     prevIssues.map(issue => {
                         if (issue.id === cameraTarget.issueId && issue.photos.length < 4) {
-                            return { ...issue, photos: [...issue.photos, resizedImage] };
+                            return { ...issue, photos: [...issue.photos, resizedImage], photoCaptures: [...(issue.photoCaptures ?? []), capture] };
                         }
                         return issue;
                     })
@@ -284,6 +368,7 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
             console.error("Failed to resize captured image:", err);
             setError("There was an error processing the captured photo.");
         } finally {
+            captureRef.current = null;
             closeCamera();
         }
     };
@@ -337,23 +422,42 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
         showLoading();
         setError(null);
 
-        // Simulate a successful submission without sending data anywhere.
-        console.log("--- Report Captured (Not Submitted) ---");
-        console.log({
-            projectName: finalProjectName,
-            projectZone,
-            entryDate: entryDate.toISOString(),
-            reporter: { name: currentUser.name, employeeId: currentUser.employeeId },
-            frontViewPhotosCount: frontViewPhotos.length,
-            issues: validIssues.map(i => ({ description: i.description, comments: i.comments, photosCount: i.photos.length, analysis: { category: i.category, priority: i.priority, summary: i.summary } }))
-        });
-
-        // Simulate network delay for better UX
-        await new Promise(resolve => setTimeout(resolve, 1200));
-        
-        hideLoading();
-        setIsSubmitting(false);
-        setView('success');
+        try {
+            // An edited report keeps the location it was first submitted from.
+            const submitLocation = editingEntry?.record.submitLocation ?? await getCurrentLocation() ?? undefined;
+            const project = projects.find(p => p.name === finalProjectName);
+            // The server checks the location and photo times against the project when it saves the report.
+            const report: VisitReport = {
+                projectName: finalProjectName,
+                projectId: project?.id,
+                projectZone,
+                entryDate: entryDate.toISOString(),
+                frontViewPhotos,
+                frontViewPhotoCaptures: frontViewCaptures,
+                issues: validIssues,
+                submitLocation,
+                id: editingEntry?.record.id ?? newRecordId(),
+                reporterName: editingEntry?.record.reporterName ?? currentUser.name,
+                reporterEmployeeId: editingEntry?.record.reporterEmployeeId ?? currentUser.employeeId,
+            };
+            // Issues can't be analyzed offline; the outbox does it before uploading.
+            const isOffline = !navigator.onLine;
+            const needsAnalysis = isOffline && validIssues.some(issue => !issue.category);
+            if (editingEntry) {
+                await queueUpdate(editingEntry, currentUser.id, report, needsAnalysis);
+            } else {
+                await queueCreate('visitReport', currentUser.id, report, needsAnalysis);
+            }
+            await clearDraft(DRAFT_ID, currentUser.id);
+            setWasQueuedOffline(isOffline);
+            setView('success');
+        } catch (err) {
+            console.error("Failed to submit visit report:", err);
+            setError(err instanceof Error ? `Could not submit the report: ${err.message}` : "Could not submit the report. Please try again.");
+        } finally {
+            hideLoading();
+            setIsSubmitting(false);
+        }
     };
 
     const handleProjectNameChange = (selectedProject: string) => {
@@ -366,11 +470,28 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
         }
     };
 
+    const handleEditSubmission = (entry: OutboxEntry<'visitReport'>) => {
+        const report = entry.record;
+        const isKnownProject = projectNames.includes(report.projectName);
+        setEditingEntry(entry);
+        setProjectName(isKnownProject ? report.projectName : 'Other');
+        setOtherProjectName(isKnownProject ? '' : report.projectName);
+        setProjectZone(report.projectZone);
+        setEntryDate(new Date(report.entryDate));
+        setFrontViewPhotos(report.frontViewPhotos);
+        setFrontViewCaptures(report.frontViewPhotoCaptures ?? []);
+        setIssues(report.issues.length > 0 ? report.issues : [{ id: Date.now().toString(), description: '', photos: [], comments: '' }]);
+        setView('form');
+        setError(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
     const resetForm = () => {
         setProjectName('');
         setProjectZone('');
         setOtherProjectName('');
         setFrontViewPhotos([]);
+        setFrontViewCaptures([]);
         if (frontViewFileInputRef.current) frontViewFileInputRef.current.value = "";
         
         setIssues([{ id: Date.now().toString(), description: '', photos: [], comments: '' }]);
@@ -379,6 +500,7 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
         setView('form');
         setError(null);
         setEntryDate(new Date());
+        setEditingEntry(null);
     };
 
     return (
@@ -387,7 +509,7 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                 <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200/80">
                     {view === 'success' ? (
                         <div className="flex flex-col items-center justify-center min-h-[600px]">
-                            <SuccessMessage onReset={resetForm} />
+                            <SuccessMessage onReset={resetForm} isQueued={wasQueuedOffline} />
                         </div>
                     ) : (
                         <>
@@ -402,6 +524,12 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                                     <p className="mt-1 text-sm text-slate-500">
                                         {canEdit ? 'Please fill out the form to report any issues found on site.' : 'You are viewing this report in read-only mode.'}
                                     </p>
+                                    {editingEntry && (
+                                        <p className="mt-3 inline-flex items-center gap-3 text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded-md px-3 py-1.5">
+                                            Editing a report you submitted earlier.
+                                            <button type="button" onClick={resetForm} className="font-medium underline">Cancel</button>
+                                        </p>
+                                    )}
                                 </div>
                             </header>
                             <form onSubmit={handleSubmit} className="p-6 sm:p-8 space-y-8">
@@ -525,6 +653,16 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                                                         placeholder="Please be as detailed as possible. What did you see?"
                                                         required
                                                     />
+                                                    <div className="mt-2">
+                                                        <SimilarIssuesNotice
+                                                            project={projectName === 'Other' ? otherProjectName : projectName}
+                                                            text={issue.description}
+                                                            category={issue.category}
+                                                            excludeReportId={editingEntry?.record.id}
+                                                            linkedCaseId={issue.linkedCaseId}
+                                                            onLinkChange={canEdit ? (caseId => handleIssueUpdate(issue.id, { linkedCaseId: caseId })) : undefined}
+                                                        />
+                                                    </div>
                                                 </div>
                                                 
                                                 <div>
@@ -556,8 +694,11 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                                                     )}
                                                 </div>
                                                 
-                                                {canEdit && (
-                                                    <div className="pt-2 flex justify-center">
+                                                {canEdit && aiStatus?.enabled === false && (
+                                                    <AiStatusNotice status={aiStatus}>Fill in the category, priority and summary yourself.</AiStatusNotice>
+                                                )}
+                                                {canEdit && aiStatus?.enabled !== false && (
+                                                    <div className="pt-2 flex flex-col items-center gap-2">
                                                         <button
                                                             type="button"
                                                             onClick={() => handleAnalyzeIssue(issue.id)}
@@ -576,6 +717,7 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                                                                 </>
                                                             )}
                                                         </button>
+                                                        <AiStatusNotice status={aiStatus} />
                                                     </div>
                                                 )}
 
@@ -658,6 +800,22 @@ export default function ProjectVisitForm({ currentUser, projects }: ProjectVisit
                         </>
                     )}
                 </div>
+                <div className="mt-6">
+                    <OutboxList
+                        kind="visitReport"
+                        userId={currentUser.id}
+                        title="Your Recent Reports"
+                        describe={entry => ({
+                            primary: entry.record.projectName,
+                            secondary: [
+                                new Date(entry.record.entryDate).toLocaleString(),
+                                `${entry.record.issues.length} issue(s)`,
+                                ...(entry.record.verification?.flags ?? []).map(flag => VISIT_FLAG_LABELS[flag]),
+                            ].join(' · '),
+                        })}
+                        onEdit={canEdit ? handleEditSubmission : undefined}
+                    />
+                </div>
             </div>
             {isCameraOpen && (
                 <div className="fixed inset-0 bg-black z-50 flex flex-col items-center justify-center" role="dialog" aria-modal="true" aria-labelledby="camera-title">
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { RecurringIssueGroup } from '../types';
+import { listRecurringIssues, RecurringIssueQuery } from '../services/issueService';
+import { buildHash } from '../utils/routing';
+import { formatDateDDMMMYYYY } from '../utils/time';
+import { issueSourceLabel } from '../utils/recurringIssues';
+import { CASE_STATUS_CLASSES } from '../utils/caseWorkflow';
+import Spinner from './Spinner';
+
+interface RecurringIssuesPanelProps extends RecurringIssueQuery {
+    onOpenCase: (caseId: number) => void;
+    /** Whether visit issues link to their report on the Visit Reports page. */
+    canOpenVisitReports: boolean;
+}
+
+/** Problems reported more than once, as cases or visit issues, per project (see server/recurringIssues.js). */
+const RecurringIssuesPanel: React.FC<RecurringIssuesPanelProps> = ({ project, from, to, onOpenCase, canOpenVisitReports }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [groups, setGroups] = useState<RecurringIssueGroup[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCancelled = false;
+        setGroups(null);
+        setError(null);
+        listRecurringIssues({ project, from, to })
+            .then(result => { if (!isCancelled) setGroups(result); })
+            .catch(err => { if (!isCancelled) setError(err instanceof Error ? err.message : 'Could not load the recurring issues.'); });
+        return () => { isCancelled = true; };
+    }, [isOpen, project, from, to]);
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+            <button type="button" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen} className="w-full p-6 flex justify-between items-center text-left">
+                <span>
+                    <span className="block text-xl font-semibold text-slate-800">Recurring Issues</span>
+                    <span className="block mt-1 text-sm text-slate-500">Problems reported more than once at a project, in cases and visit reports.</span>
+                </span>
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-slate-500 transition-transform ${isOpen ? 'rotate-180' : ''}`} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+            </button>
+            {isOpen && (
+                <div className="px-6 pb-6 space-y-4">
+                    {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+                    {!groups && !error && <div className="flex justify-center py-6"><Spinner className="h-10" /></div>}
+                    {groups?.length === 0 && <p className="text-sm text-slate-500">No problem has been reported more than once for these filters.</p>}
+                    {groups?.map(group => (
+                        <div key={group.issues[0].key} className="border border-slate-200 rounded-lg p-4">
+                            <div className="flex flex-wrap items-center gap-2 mb-3">
+                                <h3 className="font-semibold text-slate-800">{group.projectName}</h3>
+                                {group.category && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-800">{group.category}</span>}
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">Reported {group.count} times</span>
+                                {group.firstDate && group.lastDate && (
+                                    <span className="text-xs text-slate-500">{formatDateDDMMMYYYY(group.firstDate)} – {formatDateDDMMMYYYY(group.lastDate)}</span>
+                                )}
+                            </div>
+                            <ul className="divide-y divide-slate-100 text-sm">
+                                {group.issues.map(issue => (
+                                    <li key={issue.key} className="py-2 flex items-start justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="text-slate-800 truncate" title={issue.title}>{issue.title}</p>
+                                            {issue.detail && <p className="text-xs text-slate-500 truncate" title={issue.detail}>{issue.detail}</p>}
+                                        </div>
+                                        <div className="shrink-0 flex items-center gap-2 text-xs">
+                                            {issue.status && <span className={`px-2 py-0.5 rounded-full font-medium ${CASE_STATUS_CLASSES[issue.status]}`}>{issue.status}</span>}
+                                            {issue.source === 'case' && issue.caseId !== undefined ? (
+                                                <button type="button" onClick={() => onOpenCase(issue.caseId!)} className="font-medium text-orange-600 hover:text-orange-700">{issueSourceLabel(issue)}</button>
+                                            ) : canOpenVisitReports && issue.reportId !== undefined ? (
+                                                <a href={buildHash('visitReports', null, { report: String(issue.reportId) })} className="font-medium text-orange-600 hover:text-orange-700">{issueSourceLabel(issue)}</a>
+                                            ) : (
+                                                <span className="text-slate-500">{issueSourceLabel(issue)}</span>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RecurringIssuesPanel;
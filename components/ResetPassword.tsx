@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import Spinner from './Spinner';
+import { verifyResetToken, resetPassword } from '../services/authService';
+import { validateNewPassword, MIN_PASSWORD_LENGTH } from '../utils/passwordRules';
+
+interface ResetPasswordProps {
+  token: string;
+  // Called when the user leaves this screen, to return to the login page.
+  onFinished: () => void;
+}
+
+type ResetStatus = 'verifying' | 'invalid' | 'ready' | 'done';
+
+const inputClasses = 'mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-orange-500 focus:ring-2 focus:ring-orange-500/50';
+const buttonClasses = 'w-full flex justify-center items-center px-4 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:bg-slate-400 disabled:cursor-not-allowed';
+
+const ResetPassword: React.FC<ResetPasswordProps> = ({ token, onFinished }) => {
+    const [status, setStatus] = useState<ResetStatus>('verifying');
+    const [email, setEmail] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        let isCancelled = false;
+        verifyResetToken(token)
+            .then(accountEmail => {
+                if (isCancelled) return;
+                setEmail(accountEmail);
+                setStatus('ready');
+            })
+            .catch(err => {
+                if (isCancelled) return;
+                setError(err instanceof Error ? err.message : 'This password reset link is invalid or has expired.');
+                setStatus('invalid');
+            });
+        return () => { isCancelled = true; };
+    }, [token]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const passwordError = validateNewPassword(newPassword, confirmPassword);
+        if (passwordError) {
+            setError(passwordError);
+            return;
+        }
+
+        setError('');
+        setIsSaving(true);
+        try {
+            await resetPassword(token, newPassword);
+            setStatus('done');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not reset your password. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderContent = () => {
+        switch (status) {
+            case 'verifying':
+                return <div className="flex justify-center py-8"><Spinner className="h-10" /></div>;
+            case 'invalid':
+                return (
+                    <div className="mt-6 space-y-6">
+                        <p role="alert" className="text-sm text-red-600 text-center p-2 bg-red-50 rounded-md">{error}</p>
+                        <p className="text-sm text-slate-500 text-center">Use "Forgot Password?" on the sign-in page to request a new link.</p>
+                        <button type="button" onClick={onFinished} className={buttonClasses}>Back to Sign In</button>
+                    </div>
+                );
+            case 'done':
+                return (
+                    <div className="mt-6 space-y-6">
+                        <p className="text-sm text-green-800 text-center p-2 bg-green-50 rounded-md">Your password has been reset. You can now sign in with your new password.</p>
+                        <button type="button" onClick={onFinished} className={buttonClasses}>Go to Sign In</button>
+                    </div>
+                );
+            case 'ready':
+                return (
+                    <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+                        <fieldset disabled={isSaving} className="space-y-6">
+                            <div className="space-y-4">
+                                <div>
+                                    <label htmlFor="newPassword" className="block text-sm font-medium text-slate-700">New Password</label>
+                                    <input id="newPassword" type="password" autoComplete="new-password" required value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClasses} />
+                                    <p className="mt-1 text-xs text-slate-500">At least {MIN_PASSWORD_LENGTH} characters.</p>
+                                </div>
+                                <div>
+                                    <label htmlFor="confirmPassword" className="block text-sm font-medium text-slate-700">Confirm New Password</label>
+                                    <input id="confirmPassword" type="password" autoComplete="new-password" required value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClasses} />
+                                </div>
+                            </div>
+
+                            {error && <p role="alert" className="text-sm text-red-600 text-center p-2 bg-red-50 rounded-md">{error}</p>}
+
+                            <button type="submit" className={buttonClasses}>
+                                {isSaving ? <Spinner className="w-5 h-5" /> : 'Reset Password'}
+                            </button>
+                        </fieldset>
+                        <div className="text-center">
+                            <button type="button" onClick={onFinished} className="text-sm font-medium text-orange-600 hover:text-orange-500">Back to Sign In</button>
+                        </div>
+                    </form>
+                );
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-slate-100 flex flex-col justify-center items-center p-4">
+            <div className="w-full max-w-md">
+                <div className="text-center mb-8">
+                    <h1 className="font-display text-4xl font-extrabold text-orange-600 uppercase tracking-wider">
+                        <span className="text-5xl">P</span>recision
+                    </h1>
+                    <p className="text-xs text-slate-500 tracking-widest uppercase -mt-1">Eyes on Every Site</p>
+                </div>
+
+                <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8">
+                    <h2 className="text-2xl font-bold text-slate-800 text-center">Reset Password</h2>
+                    {email && <p className="text-slate-500 text-center mt-1 text-sm">Choose a new password for {email}</p>}
+                    {renderContent()}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResetPassword;
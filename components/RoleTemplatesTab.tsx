@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { RoleTemplate, Role, User } from '../types';
+import ModalWrapper from './ModalWrapper';
+import PermissionMatrix from './PermissionMatrix';
+import FormField from './FormField';
+import Spinner from './Spinner';
+import { applyPermissionOverrides } from '../utils/permissions';
+
+export type RoleTemplateDraft = Omit<RoleTemplate, 'id'> & { id?: string };
+
+interface RoleTemplatesTabProps {
+    roleTemplates: RoleTemplate[];
+    allUsers: User[];
+    onSaveRoleTemplate: (template: RoleTemplateDraft) => Promise<void>;
+    onDeleteRoleTemplate: (templateId: string) => Promise<void>;
+}
+
+const emptyDraft = (): RoleTemplateDraft => ({
+    name: '',
+    description: '',
+    role: 'user',
+    permissions: applyPermissionOverrides({} as RoleTemplate['permissions']),
+});
+
+const RoleTemplateModal: React.FC<{ draft: RoleTemplateDraft | null; assignedCount: number; onClose: () => void; onSave: (template: RoleTemplateDraft) => Promise<void> }> = ({ draft, assignedCount, onClose, onSave }) => {
+    const [template, setTemplate] = useState<RoleTemplateDraft>(draft ?? emptyDraft());
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            await onSave(template);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the role template.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <ModalWrapper isOpen={!!draft} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <h2 className="text-xl font-bold text-slate-800">{template.id ? 'Edit Role Template' : 'New Role Template'}</h2>
+                    <FormField id="template-name" label="Name" value={template.name} onChange={e => setTemplate(prev => ({ ...prev, name: e.target.value }))} placeholder="e.g. Site Engineer" required />
+                    <FormField id="template-description" label="Description" value={template.description ?? ''} onChange={e => setTemplate(prev => ({ ...prev, description: e.target.value }))} placeholder="What this role is for" />
+                    <div>
+                        <label htmlFor="template-role" className="block text-sm font-medium text-slate-700">Account Type</label>
+                        <select id="template-role" value={template.role} onChange={e => setTemplate(prev => ({ ...prev, role: e.target.value as Role }))} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
+                            <option value="user">User</option>
+                            <option value="admin">Admin</option>
+                        </select>
+                    </div>
+                    <div className="border rounded-md overflow-hidden">
+                        <PermissionMatrix permissions={template.permissions} onChange={permissions => setTemplate(prev => ({ ...prev, permissions }))} />
+                    </div>
+                    {template.id && assignedCount > 0 && (
+                        <p className="text-sm text-amber-800 bg-amber-50 p-2 rounded-md">
+                            Saving updates the permissions of {assignedCount} assigned user{assignedCount === 1 ? '' : 's'}. Their individual overrides are kept.
+                        </p>
+                    )}
+                    {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+                </div>
+                <div className="flex justify-end p-4 gap-2 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 disabled:bg-slate-400 flex items-center gap-2">
+                        {isSaving && <Spinner className="h-4" />}
+                        Save
+                    </button>
+                </div>
+            </form>
+        </ModalWrapper>
+    );
+};
+
+const RoleTemplatesTab: React.FC<RoleTemplatesTabProps> = ({ roleTemplates, allUsers, onSaveRoleTemplate, onDeleteRoleTemplate }) => {
+    const [editingDraft, setEditingDraft] = useState<RoleTemplateDraft | null>(null);
+
+    const assignedCount = (templateId?: string) => templateId ? allUsers.filter(u => u.roleTemplateId === templateId).length : 0;
+
+    const handleDelete = async (template: RoleTemplate) => {
+        if (!window.confirm(`Delete the role template "${template.name}"?`)) return;
+        try {
+            await onDeleteRoleTemplate(template.id);
+        } catch (err) {
+            alert(err instanceof Error ? err.message : 'Could not delete the role template.');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <p className="text-sm text-slate-500">Role templates define a permission set. Changes apply to every user assigned to the template.</p>
+                <button type="button" onClick={() => setEditingDraft(emptyDraft())} className="px-4 py-2 bg-orange-600 text-white rounded">New Template</button>
+            </div>
+            <div className="bg-white rounded-xl border divide-y">
+                {roleTemplates.map(template => {
+                    const count = assignedCount(template.id);
+                    return (
+                        <div key={template.id} className="p-4 flex items-center gap-4 hover:bg-slate-50">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold truncate">
+                                    {template.name}
+                                    {template.role === 'admin' && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">Admin</span>}
+                                </p>
+                                {template.description && <p className="text-sm text-slate-500 truncate">{template.description}</p>}
+                            </div>
+                            <span className="text-sm text-slate-500 whitespace-nowrap">{count} user{count === 1 ? '' : 's'}</span>
+                            <div className="flex gap-2">
+                                <button type="button" onClick={() => setEditingDraft(template)} className="text-sm text-orange-600">Edit</button>
+                                <button type="button" onClick={() => handleDelete(template)} disabled={count > 0} title={count > 0 ? 'Assign these users another template first' : undefined} className="text-sm text-red-600 disabled:text-slate-300 disabled:cursor-not-allowed">Delete</button>
+                            </div>
+                        </div>
+                    );
+                })}
+                {roleTemplates.length === 0 && <p className="p-6 text-center text-sm text-slate-500">No role templates yet.</p>}
+            </div>
+            {editingDraft && (
+                <RoleTemplateModal draft={editingDraft} assignedCount={assignedCount(editingDraft.id)} onClose={() => setEditingDraft(null)} onSave={onSaveRoleTemplate} />
+            )}
+        </div>
+    );
+};
+
+export default RoleTemplatesTab;
@@ -1,9 +1,12 @@
 import React, { useState, useRef } from 'react';
 import { User, EmployeeVisit, SSVDutyAnalysisTab } from '../types';
+import { ScopeFilter } from '../utils/dataScope';
 import FeedbackMessage from './FeedbackMessage';
 import SSVDutyAnalysisRecords from './SSVDutyAnalysisRecords';
 import SSVDutyAnalysisAnalysis from './SSVDutyAnalysisAnalysis';
 import _ from 'lodash';
+import { parseDate } from '../utils/time';
+import { WorkCalendar } from '../utils/workCalendar';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -12,63 +15,16 @@ declare global {
     }
 }
 
-const parseAndFormatDate = (dateString: string): string => {
-  if (!dateString || typeof dateString !== 'string') return '';
-  
-  // Handle '1-Jul-25' format
-  const excelDateMatch = dateString.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2})$/);
-  if (excelDateMatch) {
-    const day = excelDateMatch[1];
-    const monthStr = excelDateMatch[2];
-    const year = `20${excelDateMatch[3]}`;
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const monthIndex = monthNames.findIndex(m => m.toLowerCase() === monthStr.toLowerCase());
-    if (monthIndex > -1) {
-        const d = new Date(parseInt(year, 10), monthIndex, parseInt(day, 10));
-        if (!isNaN(d.getTime())) {
-            const y = d.getFullYear();
-            const m = String(d.getMonth() + 1).padStart(2, '0');
-            const dayOfMonth = String(d.getDate()).padStart(2, '0');
-            return `${y}-${m}-${dayOfMonth}`;
-        }
-    }
-  }
-
-  const date = new Date(dateString.trim());
-
-  if (isNaN(date.getTime())) {
-    const parts = dateString.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
-    if (parts) {
-      const day = parseInt(parts[1], 10);
-      const month = parseInt(parts[2], 10) - 1;
-      const year = parseInt(parts[3], 10);
-      const dmyDate = new Date(year, month, day);
-      if (!isNaN(dmyDate.getTime()) && dmyDate.getDate() === day && dmyDate.getMonth() === month && dmyDate.getFullYear() === year) {
-          const y = dmyDate.getFullYear();
-          const m = String(dmyDate.getMonth() + 1).padStart(2, '0');
-          const d = String(dmyDate.getDate()).padStart(2, '0');
-          return `${y}-${m}-${d}`;
-      }
-    }
-    console.warn(`Could not parse date: "${dateString}"`);
-    return '';
-  }
-
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  
-  return `${year}-${month}-${day}`;
-};
-
 
 interface SSVDutyAnalysisProps {
     currentUser: User;
+    scopeFilter: ScopeFilter;
     activeTab: SSVDutyAnalysisTab;
     onTabChange: (tab: SSVDutyAnalysisTab) => void;
+    workCalendar: WorkCalendar;
 }
 
-const SSVDutyAnalysis: React.FC<SSVDutyAnalysisProps> = ({ currentUser, activeTab, onTabChange }) => {
+const SSVDutyAnalysis: React.FC<SSVDutyAnalysisProps> = ({ currentUser, scopeFilter, activeTab, onTabChange, workCalendar }) => {
     const [visits, setVisits] = useState<EmployeeVisit[]>([]);
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -110,6 +66,10 @@ const SSVDutyAnalysis: React.FC<SSVDutyAnalysisProps> = ({ currentUser, activeTa
                     if (row['Department']?.trim() !== 'HR & Admin (Security)' || row['Designation']?.trim() !== 'Security Supervisor') {
                         return; // Skip if not a security supervisor
                     }
+                    // Rows outside the user's data scope are left out of the analysis.
+                    if (!scopeFilter.allowsProject(row['Visited Project Name']?.trim()) || !scopeFilter.allowsDepartment(row['Department'].trim())) {
+                        return;
+                    }
 
                     const requiredDataFields = ['Date', 'Visitor Name', 'Department', 'Designation', 'Visited Project Name', 'Entry Time', 'Out Time', 'Duration'];
                     for (const field of requiredDataFields) {
@@ -120,7 +80,7 @@ const SSVDutyAnalysis: React.FC<SSVDutyAnalysisProps> = ({ currentUser, activeTa
                         }
                     }
 
-                    const formattedDate = parseAndFormatDate(row.Date);
+                    const formattedDate = parseDate(row.Date);
                     if (!formattedDate) {
                         setFeedback({ message: `Invalid date format in row ${index + 2}: "${row.Date}".`, type: 'error' });
                         hasError = true;
@@ -160,6 +120,13 @@ const SSVDutyAnalysis: React.FC<SSVDutyAnalysisProps> = ({ currentUser, activeTa
             setFeedback({ message: 'All SSV records have been cleared.', type: 'info' });
         }
     };
+
+    const handleDeleteVisits = (deleted: EmployeeVisit[]) => {
+        if (!window.confirm(`Delete ${deleted.length} selected SSV record(s)? This action cannot be undone.`)) return;
+        const deletedIds = new Set(deleted.map(visit => visit.id));
+        setVisits(prev => prev.filter(visit => !deletedIds.has(visit.id)));
+        setFeedback({ message: `Deleted ${deleted.length} SSV record(s).`, type: 'info' });
+    };
     
     return (
         <>
@@ -172,10 +139,11 @@ const SSVDutyAnalysis: React.FC<SSVDutyAnalysisProps> = ({ currentUser, activeTa
                                 fileInputRef={fileInputRef}
                                 onFileUpload={handleFileUpload}
                                 onClearRecords={handleClearRecords}
+                                onDeleteVisits={handleDeleteVisits}
                             />
                         )}
                         {activeTab === 'analysis' && (
-                            <SSVDutyAnalysisAnalysis visits={visits} />
+                            <SSVDutyAnalysisAnalysis visits={visits} workCalendar={workCalendar} currentUser={currentUser} />
                         )}
                     </div>
                 </div>
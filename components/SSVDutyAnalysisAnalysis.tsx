@@ -1,23 +1,12 @@
-import React, { useState, useMemo } from 'react';
-import { EmployeeVisit } from '../types';
+import React, { useMemo } from 'react';
+import { EmployeeVisit, User } from '../types';
 import _ from 'lodash';
+import { useQueryParam } from '../hooks/useQueryParam';
+import FilterPresets from './FilterPresets';
+import { parseDurationToSeconds, formatSecondsToHHMM, parseDateTime } from '../utils/time';
+import { WorkCalendar } from '../utils/workCalendar';
 
 // --- Helper Functions ---
-const parseDurationToSeconds = (durationStr: string): number => {
-    if (!durationStr || typeof durationStr !== 'string') return 0;
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length !== 3 || parts.some(isNaN)) return 0;
-    const [hours, minutes, seconds] = parts;
-    return hours * 3600 + minutes * 60 + seconds;
-};
-
-const formatSecondsToHHMM = (totalSeconds: number): string => {
-    if (isNaN(totalSeconds) || totalSeconds <= 0) return '00:00';
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-};
-
 const getShiftType = (entryTime: string): 'Day' | 'Night' => {
     if (!entryTime || !/^\d{1,2}:\d{2}/.test(entryTime)) {
         return 'Night'; // Default to night if time is invalid
@@ -26,13 +15,6 @@ const getShiftType = (entryTime: string): 'Day' | 'Night' => {
     return entryTime >= '08:00' && entryTime < '20:00' ? 'Day' : 'Night';
 };
 
-const parseDateTime = (dateStr: string, timeStr: string): Date | null => {
-    if (!dateStr || !timeStr || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr) || !/^\d{1,2}:\d{2}/.test(timeStr)) return null;
-    const d = new Date(`${dateStr}T${timeStr}:00`);
-    if (isNaN(d.getTime())) return null;
-    return d;
-};
-
 
 const AnalysisCard: React.FC<{ title: string; value: React.ReactNode; subtext?: string; icon: React.ReactNode }> = ({ title, value, subtext, icon }) => (
     <div className="bg-gradient-to-br from-white to-slate-50 p-5 rounded-xl border border-slate-200/80 shadow-lg flex items-center gap-4 transition-all hover:-translate-y-1">
@@ -50,13 +32,15 @@ const AnalysisCard: React.FC<{ title: string; value: React.ReactNode; subtext?:
 
 interface SSVDutyAnalysisAnalysisProps {
     visits: EmployeeVisit[];
+    workCalendar: WorkCalendar;
+    currentUser: User;
 }
 
-const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visits }) => {
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [supervisorFilter, setSupervisorFilter] = useState('');
-    const [shiftFilter, setShiftFilter] = useState<'All' | 'Day' | 'Night'>('All');
+const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visits, workCalendar, currentUser }) => {
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [supervisorFilter, setSupervisorFilter] = useQueryParam('supervisor');
+    const [shiftFilter, setShiftFilter] = useQueryParam('shift', 'All');
 
     const uniqueSupervisors = useMemo(() => _.uniq(visits.map(v => v.visitorName)).sort(), [visits]);
 
@@ -97,6 +81,10 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
         const totalDurationSec = _.sumBy(filtered, v => parseDurationToSeconds(v.duration));
         const totalShifts = filtered.length;
         const totalSupervisors = _.uniq(filtered.map(v => v.visitorName)).length;
+        // Duty days are counted over the selected dates, or the dates the records cover when none are selected.
+        const filteredDates = filtered.map(v => v.date).sort();
+        const dutyPeriodStart = startDate || filteredDates[0];
+        const dutyPeriodEnd = endDate || filteredDates[filteredDates.length - 1];
         
         const projectHours = _.chain(filtered)
             .groupBy('projectName')
@@ -127,7 +115,9 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
                     dayShifts: svisits.filter(v => getShiftType(v.entryTime) === 'Day').length,
                     nightShifts: svisits.filter(v => getShiftType(v.entryTime) === 'Night').length,
                     projectsCovered,
-                    topProject
+                    topProject,
+                    dutyDays: workCalendar.countWorkingDays(dutyPeriodStart, dutyPeriodEnd, { name, department: svisits[0].department }),
+                    daysOnDuty: _.uniq(svisits.map(v => v.date)).length,
                 };
             })
             .orderBy(['totalShifts'], ['desc'])
@@ -211,14 +201,14 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
                 lowHour
             },
         };
-    }, [visits, startDate, endDate, supervisorFilter, shiftFilter]);
+    }, [visits, startDate, endDate, supervisorFilter, shiftFilter, workCalendar]);
 
     const handleExportCSV = () => {
         if (!analysisData || typeof window.Papa === 'undefined') return;
 
-        const headers = ['Supervisor Name', 'Total Shifts', 'Day Shifts', 'Night Shifts', 'Total Hours', 'Avg. Shift Length', 'Projects Covered', 'Top Project'];
+        const headers = ['Supervisor Name', 'Duty Days', 'Days on Duty', 'Total Shifts', 'Day Shifts', 'Night Shifts', 'Total Hours', 'Avg. Shift Length', 'Projects Covered', 'Top Project'];
         const csvData = analysisData.supervisorAnalysis.map(row => [
-            row.name, row.totalShifts, row.dayShifts, row.nightShifts, row.totalHours, row.avgShiftLength, row.projectsCovered, row.topProject
+            row.name, row.dutyDays, row.daysOnDuty, row.totalShifts, row.dayShifts, row.nightShifts, row.totalHours, row.avgShiftLength, row.projectsCovered, row.topProject
         ]);
 
         const csv = window.Papa.unparse({ fields: headers, data: csvData });
@@ -233,6 +223,7 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
 
     return (
         <div className="p-6 space-y-6">
+            <FilterPresets view="ssvDutyAnalysis" tab="analysis" currentUser={currentUser} />
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
                 <div>
                     <label htmlFor="start-date-ssv" className="block text-sm font-medium text-slate-700">Start Date</label>
@@ -251,7 +242,7 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
                 </div>
                  <div>
                     <label htmlFor="shift-filter-ssv" className="block text-sm font-medium text-slate-700">Shift</label>
-                    <select id="shift-filter-ssv" value={shiftFilter} onChange={e => setShiftFilter(e.target.value as any)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500">
+                    <select id="shift-filter-ssv" value={shiftFilter} onChange={e => setShiftFilter(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500">
                         <option value="All">All Shifts</option>
                         <option value="Day">Day Shift (8am-8pm)</option>
                         <option value="Night">Night Shift (8pm-8am)</option>
@@ -338,6 +329,8 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
                                     <thead className="bg-slate-50 sticky top-0">
                                         <tr>
                                             <th className="px-3 py-2 text-left text-xs font-medium text-slate-500 uppercase">Supervisor</th>
+                                            <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase" title="Working days in the period, from the company calendar">Duty Days</th>
+                                            <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase" title="Days with at least one visit">Days on Duty</th>
                                             <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase">Total Shifts</th>
                                             <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase">Day</th>
                                             <th className="px-3 py-2 text-center text-xs font-medium text-slate-500 uppercase">Night</th>
@@ -351,6 +344,8 @@ const SSVDutyAnalysisAnalysis: React.FC<SSVDutyAnalysisAnalysisProps> = ({ visit
                                         {analysisData.supervisorAnalysis.map(row => (
                                             <tr key={row.name}>
                                                 <td className="px-3 py-2 whitespace-nowrap font-medium text-slate-900">{row.name}</td>
+                                                <td className="px-3 py-2 whitespace-nowrap text-center">{row.dutyDays}</td>
+                                                <td className="px-3 py-2 whitespace-nowrap text-center">{row.daysOnDuty}</td>
                                                 <td className="px-3 py-2 whitespace-nowrap text-center">{row.totalShifts}</td>
                                                 <td className="px-3 py-2 whitespace-nowrap text-center text-sky-600">{row.dayShifts}</td>
                                                 <td className="px-3 py-2 whitespace-nowrap text-center text-indigo-600">{row.nightShifts}</td>
@@ -1,20 +1,35 @@
 import React, { useState, useMemo } from 'react';
 import { EmployeeVisit } from '../types';
-import _ from 'lodash';
+import DataTable, { DataTableColumn } from './DataTable';
+import { parseDurationToSeconds, parseTimeOfDay } from '../utils/time';
 
 const VISIT_REQUIRED_HEADERS = [
     'Sl No', 'Date', 'Visitor Name', 'Department', 'Designation',
     'Visited Project Name', 'Entry Time', 'Out Time', 'Duration', 'Formula'
 ];
 
+const VISIT_COLUMNS: DataTableColumn<EmployeeVisit>[] = [
+    { key: 'slNo', header: 'Sl No', width: 80, render: (_visit, index) => index + 1 },
+    { key: 'date', header: 'Date', width: 120, render: visit => visit.date, sortValue: visit => visit.date },
+    { key: 'visitorName', header: 'Visitor Name', width: 180, render: visit => visit.visitorName, sortValue: visit => visit.visitorName },
+    { key: 'department', header: 'Department', width: 170, render: visit => visit.department, sortValue: visit => visit.department },
+    { key: 'designation', header: 'Designation', width: 170, render: visit => visit.designation, sortValue: visit => visit.designation },
+    { key: 'projectName', header: 'Visited Project Name', width: 190, render: visit => visit.projectName, sortValue: visit => visit.projectName },
+    { key: 'entryTime', header: 'Entry Time', width: 110, render: visit => visit.entryTime, sortValue: visit => parseTimeOfDay(visit.entryTime) ?? -1, title: visit => visit.entryTime },
+    { key: 'outTime', header: 'Out Time', width: 110, render: visit => visit.outTime, sortValue: visit => parseTimeOfDay(visit.outTime) ?? -1, title: visit => visit.outTime },
+    { key: 'duration', header: 'Duration', width: 110, render: visit => visit.duration, sortValue: visit => parseDurationToSeconds(visit.duration), title: visit => visit.duration },
+    { key: 'remarks', header: 'Formula', width: 200, render: visit => visit.remarks, sortValue: visit => visit.remarks || '' },
+];
+
 interface SSVDutyAnalysisRecordsProps {
     visits: EmployeeVisit[];
     fileInputRef: React.RefObject<HTMLInputElement>;
     onFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
     onClearRecords: () => void;
+    onDeleteVisits: (visits: EmployeeVisit[]) => void;
 }
 
-const SSVDutyAnalysisRecords: React.FC<SSVDutyAnalysisRecordsProps> = ({ visits, fileInputRef, onFileUpload, onClearRecords }) => {
+const SSVDutyAnalysisRecords: React.FC<SSVDutyAnalysisRecordsProps> = ({ visits, fileInputRef, onFileUpload, onClearRecords, onDeleteVisits }) => {
     const [searchQuery, setSearchQuery] = useState('');
 
     const filteredVisits = useMemo(() => {
@@ -68,35 +83,14 @@ const SSVDutyAnalysisRecords: React.FC<SSVDutyAnalysisRecordsProps> = ({ visits,
                     </button>
                 </div>
             </div>
-            <div className="overflow-auto" style={{ maxHeight: '60vh' }}>
-                {filteredVisits.length > 0 ? (
-                    <table className="min-w-full divide-y divide-slate-200">
-                        <thead className="bg-slate-50 sticky top-0">
-                            <tr>
-                                {VISIT_REQUIRED_HEADERS.map(header => (<th key={header} className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">{header}</th>))}
-                            </tr>
-                        </thead>
-                        <tbody className="bg-white divide-y divide-slate-200">
-                            {filteredVisits.map((visit, index) => (
-                                <tr key={visit.id} className="hover:bg-slate-50">
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{index + 1}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.date}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.visitorName}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.department}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.designation}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.projectName}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.entryTime}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.outTime}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.duration}</td>
-                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500 truncate max-w-xs" title={visit.remarks || ''}>{visit.remarks}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                ) : (
-                    <p className="p-8 text-center text-slate-500">{visits.length === 0 ? "No data imported yet. Please import an employee visit CSV." : "No records match your search."}</p>
-                )}
-            </div>
+            <DataTable
+                tableId="ssvVisits"
+                columns={VISIT_COLUMNS}
+                rows={filteredVisits}
+                getRowId={visit => visit.id}
+                emptyMessage={visits.length === 0 ? "No data imported yet. Please import an employee visit CSV." : "No records match your search."}
+                bulkActions={[{ label: 'Delete', onClick: onDeleteVisits, variant: 'danger' }]}
+            />
         </div>
     );
 };
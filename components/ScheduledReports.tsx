@@ -0,0 +1,444 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { User, Project, ReportSchedule, ReportType, ReportFrequency, ArchivedReport } from '../types';
+import ModalWrapper from './ModalWrapper';
+import FormField from './FormField';
+import Spinner from './Spinner';
+import FeedbackMessage from './FeedbackMessage';
+import { reportSchedulesApi } from '../services/apiClient';
+import { listArchivedReports, downloadArchivedReport, deleteArchivedReport, runReportSchedule } from '../services/reportService';
+import { WEEKDAY_NAMES } from '../utils/workCalendar';
+
+type ScheduleDraft = Omit<ReportSchedule, 'id'> & { id?: number };
+type Feedback = { message: string; type: 'success' | 'error' | 'info' };
+
+const ARCHIVE_PAGE_SIZE = 20;
+
+const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+    visitSummary: 'Monthly Visit Summary',
+    dutyAnalysis: 'Duty Analysis',
+    itSummary: 'IT Response Timeline Summary',
+};
+
+// The filters each report type accepts, as stored in ReportSchedule.filters.
+const REPORT_FILTERS: Record<ReportType, { key: string; label: string }[]> = {
+    visitSummary: [{ key: 'department', label: 'Department' }, { key: 'employeeName', label: 'Employee' }],
+    dutyAnalysis: [{ key: 'department', label: 'Department' }],
+    itSummary: [{ key: 'zone', label: 'Zone' }, { key: 'projectName', label: 'Project' }],
+};
+
+const STATUS_STYLES: Record<string, string> = {
+    sent: 'bg-green-100 text-green-800',
+    archived: 'bg-slate-100 text-slate-700',
+    empty: 'bg-amber-100 text-amber-800',
+    failed: 'bg-red-100 text-red-800',
+    error: 'bg-red-100 text-red-800',
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString('en-GB', {
+    day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const describeFrequency = (schedule: ScheduleDraft) => {
+    switch (schedule.frequency) {
+        case 'daily': return `Daily at ${schedule.time}`;
+        case 'weekly': return `Every ${WEEKDAY_NAMES[schedule.weekday ?? 0]} at ${schedule.time}`;
+        case 'monthly': return `Monthly on day ${schedule.dayOfMonth ?? 1} at ${schedule.time}`;
+    }
+};
+
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+    <span className={`px-2 py-0.5 text-xs rounded-full capitalize ${STATUS_STYLES[status] ?? 'bg-slate-100 text-slate-700'}`}>{status}</span>
+);
+
+const emptyDraft = (currentUser: User): ScheduleDraft => ({
+    name: '',
+    reportType: 'visitSummary',
+    filters: {},
+    recipients: [],
+    frequency: 'monthly',
+    time: '09:00',
+    dayOfMonth: 1,
+    enabled: true,
+    preparedByName: currentUser.name,
+    preparedByDesignation: currentUser.designation,
+});
+
+interface ScheduleModalProps {
+    draft: ScheduleDraft;
+    filterOptions: Record<string, string[]>;
+    onClose: () => void;
+    onSave: (schedule: ScheduleDraft) => Promise<void>;
+}
+
+const ScheduleModal: React.FC<ScheduleModalProps> = ({ draft, filterOptions, onClose, onSave }) => {
+    const [schedule, setSchedule] = useState<ScheduleDraft>(draft);
+    const [recipientsText, setRecipientsText] = useState(draft.recipients.join(', '));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const update = (changes: Partial<ScheduleDraft>) => setSchedule(prev => ({ ...prev, ...changes }));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError('');
+        try {
+            const recipients = recipientsText.split(/[,;\s]+/).map(email => email.trim()).filter(Boolean);
+            // Filters of another report type are dropped when the type changes.
+            const filters = Object.fromEntries(REPORT_FILTERS[schedule.reportType]
+                .filter(({ key }) => schedule.filters[key])
+                .map(({ key }) => [key, schedule.filters[key]]));
+            await onSave({ ...schedule, recipients, filters });
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the report schedule.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const selectClasses = "mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500";
+
+    return (
+        <ModalWrapper isOpen onClose={onClose}>
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <h2 className="text-xl font-bold text-slate-800">{schedule.id ? 'Edit Report Schedule' : 'New Report Schedule'}</h2>
+                    <FormField id="schedule-name" label="Name" value={schedule.name} onChange={e => update({ name: e.target.value })} placeholder="e.g. Monthly visit summary for Construction" required />
+                    <div>
+                        <label htmlFor="schedule-type" className="block text-sm font-medium text-slate-700">Report</label>
+                        <select id="schedule-type" value={schedule.reportType} onChange={e => update({ reportType: e.target.value as ReportType })} className={selectClasses}>
+                            {Object.entries(REPORT_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {REPORT_FILTERS[schedule.reportType].map(({ key, label }) => (
+                            <div key={key}>
+                                <label htmlFor={`schedule-filter-${key}`} className="block text-sm font-medium text-slate-700">{label}</label>
+                                <select id={`schedule-filter-${key}`} value={schedule.filters[key] ?? ''} onChange={e => update({ filters: { ...schedule.filters, [key]: e.target.value } })} className={selectClasses}>
+                                    <option value="">All</option>
+                                    {(filterOptions[key] ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label htmlFor="schedule-frequency" className="block text-sm font-medium text-slate-700">Frequency</label>
+                            <select id="schedule-frequency" value={schedule.frequency} onChange={e => update({ frequency: e.target.value as ReportFrequency, weekday: schedule.weekday ?? 0, dayOfMonth: schedule.dayOfMonth ?? 1 })} className={selectClasses}>
+                                <option value="daily">Daily</option>
+                                <option value="weekly">Weekly</option>
+                                <option value="monthly">Monthly</option>
+                            </select>
+                        </div>
+                        {schedule.frequency === 'weekly' && (
+                            <div>
+                                <label htmlFor="schedule-weekday" className="block text-sm font-medium text-slate-700">Day</label>
+                                <select id="schedule-weekday" value={schedule.weekday ?? 0} onChange={e => update({ weekday: Number(e.target.value) })} className={selectClasses}>
+                                    {WEEKDAY_NAMES.map((day, index) => <option key={day} value={index}>{day}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        {schedule.frequency === 'monthly' && (
+                            <div>
+                                <label htmlFor="schedule-day" className="block text-sm font-medium text-slate-700">Day of Month</label>
+                                <select id="schedule-day" value={schedule.dayOfMonth ?? 1} onChange={e => update({ dayOfMonth: Number(e.target.value) })} className={selectClasses}>
+                                    {Array.from({ length: 28 }, (_, i) => i + 1).map(day => <option key={day} value={day}>{day}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <div>
+                            <label htmlFor="schedule-time" className="block text-sm font-medium text-slate-700">Time (Dhaka)</label>
+                            <input id="schedule-time" type="time" value={schedule.time} onChange={e => update({ time: e.target.value })} className={selectClasses} required />
+                        </div>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                        Monthly reports cover the previous month. Daily and weekly reports cover the month so far, up to the day before they run.
+                    </p>
+                    <FormField id="schedule-recipients" label="Recipients" as="textarea" value={recipientsText} onChange={e => setRecipientsText(e.target.value)} placeholder="Email addresses of users of the app, separated by commas. Leave empty to only keep the reports in the archive." />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <FormField id="schedule-prepared-by" label="Prepared By" value={schedule.preparedByName ?? ''} onChange={e => update({ preparedByName: e.target.value })} placeholder="Name printed on the report" />
+                        <FormField id="schedule-prepared-by-designation" label="Designation" value={schedule.preparedByDesignation ?? ''} onChange={e => update({ preparedByDesignation: e.target.value })} placeholder="Designation printed on the report" />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input type="checkbox" checked={schedule.enabled} onChange={e => update({ enabled: e.target.checked })} className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500" />
+                        Enabled
+                    </label>
+                    {error && <p role="alert" className="text-sm text-red-600 bg-red-50 p-2 rounded-md">{error}</p>}
+                </div>
+                <div className="flex justify-end p-4 gap-2 border-t">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
+                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700 disabled:bg-slate-400 flex items-center gap-2">
+                        {isSaving && <Spinner className="h-4" />}
+                        Save
+                    </button>
+                </div>
+            </form>
+        </ModalWrapper>
+    );
+};
+
+interface ScheduledReportsProps {
+    currentUser: User;
+    projects: Project[];
+    departments: string[];
+    employeeNames: string[];
+}
+
+const ScheduledReports: React.FC<ScheduledReportsProps> = ({ currentUser, projects, departments, employeeNames }) => {
+    const canEdit = currentUser.permissions.reports.edit;
+    const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+    const [archive, setArchive] = useState<ArchivedReport[]>([]);
+    const [archiveTotal, setArchiveTotal] = useState(0);
+    const [archivePage, setArchivePage] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [editingDraft, setEditingDraft] = useState<ScheduleDraft | null>(null);
+    const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+    const showError = (err: unknown, fallback: string) => setFeedback({ message: err instanceof Error ? err.message : fallback, type: 'error' });
+
+    const filterOptions = useMemo(() => ({
+        department: departments,
+        employeeName: employeeNames,
+        zone: [...new Set(projects.map(p => p.zone).filter(Boolean))].sort(),
+        projectName: projects.map(p => p.name).sort(),
+    }), [departments, employeeNames, projects]);
+
+    const loadSchedules = useCallback(async () => {
+        try {
+            const result = await reportSchedulesApi.list({ pageSize: 500 });
+            setSchedules(result.data);
+        } catch (err) {
+            showError(err, 'Could not load the report schedules.');
+        }
+    }, []);
+
+    const loadArchive = useCallback(async () => {
+        try {
+            const result = await listArchivedReports({ page: archivePage, pageSize: ARCHIVE_PAGE_SIZE });
+            setArchive(result.data);
+            setArchiveTotal(result.total);
+        } catch (err) {
+            showError(err, 'Could not load the report archive.');
+        }
+    }, [archivePage]);
+
+    useEffect(() => {
+        loadSchedules().finally(() => setIsLoading(false));
+    }, [loadSchedules]);
+
+    useEffect(() => { loadArchive(); }, [loadArchive]);
+
+    const handleSave = async (draft: ScheduleDraft) => {
+        if (draft.id) {
+            await reportSchedulesApi.update(draft as ReportSchedule);
+        } else {
+            await reportSchedulesApi.create(draft);
+        }
+        setFeedback({ message: `Report schedule "${draft.name}" saved.`, type: 'success' });
+        await loadSchedules();
+    };
+
+    const handleToggle = async (schedule: ReportSchedule) => {
+        setBusyId(schedule.id);
+        try {
+            const updated = await reportSchedulesApi.patch(schedule.id, { enabled: !schedule.enabled });
+            setSchedules(prev => prev.map(s => s.id === updated.id ? updated : s));
+        } catch (err) {
+            showError(err, 'Could not update the report schedule.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (schedule: ReportSchedule) => {
+        if (!window.confirm(`Delete the report schedule "${schedule.name}"? Reports it already produced stay in the archive.`)) return;
+        try {
+            await reportSchedulesApi.remove(schedule.id);
+            setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+        } catch (err) {
+            showError(err, 'Could not delete the report schedule.');
+        }
+    };
+
+    const handleRunNow = async (schedule: ReportSchedule) => {
+        setBusyId(schedule.id);
+        try {
+            const result = await runReportSchedule(schedule.id);
+            const messages: Record<string, Feedback> = {
+                sent: { message: `"${schedule.name}" for ${result.month} was emailed to its recipients.`, type: 'success' },
+                archived: { message: `"${schedule.name}" for ${result.month} was added to the archive.`, type: 'success' },
+                failed: { message: `"${schedule.name}" was archived, but could not be emailed to everyone: ${result.report?.deliveryError ?? ''}`, type: 'error' },
+                empty: { message: `There were no records to report on for ${result.month}. Publish this browser's data if the server's copy is out of date.`, type: 'info' },
+            };
+            setFeedback(messages[result.status]);
+            await Promise.all([loadSchedules(), loadArchive()]);
+        } catch (err) {
+            showError(err, 'Could not run the report.');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDownload = async (report: ArchivedReport) => {
+        try {
+            const blob = await downloadArchivedReport(report.id);
+            const link = document.createElement("a");
+            const url = URL.createObjectURL(blob);
+            link.setAttribute("href", url);
+            link.setAttribute("download", report.fileName);
+            link.style.visibility = 'hidden';
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            showError(err, 'Could not download the report.');
+        }
+    };
+
+    const handleDeleteReport = async (report: ArchivedReport) => {
+        if (!window.confirm(`Delete "${report.title}" from the archive?`)) return;
+        try {
+            await deleteArchivedReport(report.id);
+            await loadArchive();
+        } catch (err) {
+            showError(err, 'Could not delete the report.');
+        }
+    };
+
+    const archivePageCount = Math.max(1, Math.ceil(archiveTotal / ARCHIVE_PAGE_SIZE));
+    const thClasses = "px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider";
+
+    if (isLoading) {
+        return <div className="flex justify-center py-10"><Spinner className="h-10" /></div>;
+    }
+
+    return (
+        <div className="space-y-6 fade-in">
+            <div className="bg-white rounded-xl border">
+                <div className="p-6 border-b border-slate-200 flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-slate-800">Report Schedules</h3>
+                        <p className="text-sm text-slate-500">The server draws each report as a PDF at the scheduled time, keeps it in the archive and emails it to the recipients, each limited to the records they may see.</p>
+                    </div>
+                    {canEdit && <button type="button" onClick={() => setEditingDraft(emptyDraft(currentUser))} className="px-4 py-2 bg-orange-600 text-white rounded-md text-sm font-medium hover:bg-orange-700">New Schedule</button>}
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className={thClasses}>Name</th>
+                                <th className={thClasses}>Report</th>
+                                <th className={thClasses}>When</th>
+                                <th className={thClasses}>Recipients</th>
+                                <th className={thClasses}>Next Run</th>
+                                <th className={thClasses}>Last Run</th>
+                                {canEdit && <th className={thClasses}>Actions</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {schedules.length === 0 ? (
+                                <tr><td colSpan={canEdit ? 7 : 6} className="px-4 py-10 text-center text-sm text-slate-500">No report schedules yet.</td></tr>
+                            ) : schedules.map(schedule => (
+                                <tr key={schedule.id} className={schedule.enabled ? '' : 'bg-slate-50 text-slate-400'}>
+                                    <td className="px-4 py-3 text-sm font-medium text-slate-900">
+                                        {schedule.name}
+                                        {!schedule.enabled && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-slate-200 text-slate-600">Paused</span>}
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-slate-500">
+                                        {REPORT_TYPE_LABELS[schedule.reportType]}
+                                        {Object.values(schedule.filters ?? {}).filter(Boolean).length > 0 && (
+                                            <span className="block text-xs">{Object.values(schedule.filters).filter(Boolean).join(' / ')}</span>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{describeFrequency(schedule)}</td>
+                                    <td className="px-4 py-3 text-sm text-slate-500">{schedule.recipients.length > 0 ? schedule.recipients.join(', ') : 'Archive only'}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{schedule.enabled && schedule.nextRunAt ? formatTimestamp(schedule.nextRunAt) : '—'}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                                        {schedule.lastRunAt ? <>{formatTimestamp(schedule.lastRunAt)} {schedule.lastRunStatus && <StatusBadge status={schedule.lastRunStatus} />}</> : 'Never'}
+                                    </td>
+                                    {canEdit && (
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                            <div className="flex gap-3 items-center">
+                                                <button type="button" onClick={() => handleRunNow(schedule)} disabled={busyId !== null} className="text-orange-600 disabled:text-slate-300">Run Now</button>
+                                                <button type="button" onClick={() => handleToggle(schedule)} disabled={busyId !== null} className="text-slate-600 disabled:text-slate-300">{schedule.enabled ? 'Pause' : 'Resume'}</button>
+                                                <button type="button" onClick={() => setEditingDraft(schedule)} className="text-orange-600">Edit</button>
+                                                <button type="button" onClick={() => handleDelete(schedule)} className="text-red-600">Delete</button>
+                                                {busyId === schedule.id && <Spinner className="h-4" />}
+                                            </div>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div className="bg-white rounded-xl border">
+                <div className="p-6 border-b border-slate-200">
+                    <h3 className="text-lg font-semibold text-slate-800">Report Archive</h3>
+                    <p className="text-sm text-slate-500">{archiveTotal} report{archiveTotal === 1 ? '' : 's'}, newest first.</p>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th className={thClasses}>Generated</th>
+                                <th className={thClasses}>Report</th>
+                                <th className={thClasses}>Period</th>
+                                <th className={thClasses}>Delivery</th>
+                                <th className={thClasses}>File</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {archive.length === 0 ? (
+                                <tr><td colSpan={5} className="px-4 py-10 text-center text-sm text-slate-500">No reports have been generated yet.</td></tr>
+                            ) : archive.map(report => (
+                                <tr key={report.id}>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">
+                                        {formatTimestamp(report.generatedAt)}
+                                        <span className="block text-xs">{report.generatedBy ? `Run by ${report.generatedBy}` : 'Scheduled'}</span>
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-slate-900">
+                                        {report.title}
+                                        <span className="block text-xs text-slate-500">{report.scheduleName}</span>
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500">{report.period}</td>
+                                    <td className="px-4 py-3 text-sm text-slate-500">
+                                        <StatusBadge status={report.deliveryStatus} />
+                                        {report.recipients.length > 0 && <span className="block text-xs mt-1">{report.recipients.join(', ')}</span>}
+                                        {report.deliveryError && <span className="block text-xs mt-1 text-red-600">{report.deliveryError}</span>}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                        <div className="flex gap-3 items-center">
+                                            <button type="button" onClick={() => handleDownload(report)} className="text-orange-600">Download</button>
+                                            <span className="text-xs text-slate-400">{formatSize(report.size)}</span>
+                                            {canEdit && <button type="button" onClick={() => handleDeleteReport(report)} className="text-red-600">Delete</button>}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="p-4 border-t border-slate-200 flex justify-between items-center text-sm text-slate-600">
+                    <span>Page {archivePage} of {archivePageCount}</span>
+                    <div className="flex gap-2">
+                        <button type="button" onClick={() => setArchivePage(p => p - 1)} disabled={archivePage <= 1} className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">Previous</button>
+                        <button type="button" onClick={() => setArchivePage(p => p + 1)} disabled={archivePage >= archivePageCount} className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">Next</button>
+                    </div>
+                </div>
+            </div>
+
+            {editingDraft && <ScheduleModal draft={editingDraft} filterOptions={filterOptions} onClose={() => setEditingDraft(null)} onSave={handleSave} />}
+            {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
+        </div>
+    );
+};
+
+export default ScheduledReports;
@@ -1,8 +1,16 @@
 
-import React, { useState, useMemo, useRef, useEffect } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { SealPersonVisit, User, Project, SealPersonVisitTab } from '../types';
 import FeedbackMessage from './FeedbackMessage';
 import _ from 'lodash';
+import { logAuditEvent } from '../services/auditService';
+import { useQueryParam } from '../hooks/useQueryParam';
+import FilterPresets from './FilterPresets';
+import { ProjectAlias } from '../hooks/useProjectReconciliation';
+import ImportWizard from './ImportWizard';
+import { SEAL_PERSON_VISIT_IMPORT_FIELDS, SealPersonVisitImportKey } from '../utils/importFields';
+import { minutesBetweenTimes, parseTimeOfDay } from '../utils/time';
+import DataTable, { DataTableColumn } from './DataTable';
 
 // For TypeScript to recognize libraries loaded from CDN
 declare global {
@@ -29,74 +37,17 @@ const SALES_TEAMS = [
   { teamName: 'Team Mahamudul', leader: 'Md. Mahamudul Hasan Mani', members: ['Md. Mahamudul Hasan Mani', 'Md. Mustafizur Rahman', 'Md. Mosiur RAhman Siam'] },
 ];
 
-/**
- * Parses a date string from various common formats and returns it in YYYY-MM-DD format.
- */
-const parseAndFormatDate = (dateString: string): string => {
-  if (!dateString || typeof dateString !== 'string') return '';
-  
-  // Handle '1-Jul-25' format
-  const excelDateMatch = dateString.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2})$/);
-  if (excelDateMatch) {
-    const day = excelDateMatch[1];
-    const monthStr = excelDateMatch[2];
-    const year = `20${excelDateMatch[3]}`;
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-    const monthIndex = monthNames.findIndex(m => m.toLowerCase() === monthStr.toLowerCase());
-    if (monthIndex > -1) {
-        const d = new Date(parseInt(year, 10), monthIndex, parseInt(day, 10));
-        if (!isNaN(d.getTime())) {
-            return d.toISOString().split('T')[0];
-        }
-    }
-  }
-
-  // Handle formats like DD/MM/YYYY or DD-MM-YYYY
-   const dmyMatch = dateString.trim().match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
-    if (dmyMatch) {
-        const d = new Date(parseInt(dmyMatch[3], 10), parseInt(dmyMatch[2], 10) - 1, parseInt(dmyMatch[1], 10));
-        if (!isNaN(d.getTime())) {
-            return d.toISOString().split('T')[0];
-        }
-    }
-
-  // Handle standard ISO and common formats
-  const date = new Date(dateString.trim());
-  if (!isNaN(date.getTime())) {
-    return date.toISOString().split('T')[0];
-  }
-
-  console.warn(`Could not parse date: "${dateString}"`);
-  return '';
-};
-
-
-const calculateDurationInMinutes = (inTime: string, outTime: string): number | null => {
-    if (!inTime || !outTime || inTime.toLowerCase() === 'n/a' || outTime.toLowerCase() === 'n/a') {
-        return null;
-    }
-
-    const timeRegex = /^(\d{1,2}):(\d{2})/;
-    const inMatch = String(inTime).match(timeRegex);
-    const outMatch = String(outTime).match(timeRegex);
-
-    if (!inMatch || !outMatch) {
-        return null;
-    }
-
-    const inDate = new Date(0);
-    inDate.setHours(parseInt(inMatch[1], 10), parseInt(inMatch[2], 10), 0, 0);
-
-    const outDate = new Date(0);
-    outDate.setHours(parseInt(outMatch[1], 10), parseInt(outMatch[2], 10), 0, 0);
-    
-    if (outDate < inDate) {
-         return null;
-    }
-
-    const diffMs = outDate.getTime() - inDate.getTime();
-    return Math.round(diffMs / 60000);
-};
+const VISIT_COLUMNS: DataTableColumn<SealPersonVisit>[] = [
+    { key: 'slNo', header: 'Sl No', width: 80, render: visit => visit.slNo, sortValue: visit => Number(visit.slNo) || 0, title: visit => visit.slNo },
+    { key: 'date', header: 'Date', width: 120, render: visit => visit.date, sortValue: visit => visit.date },
+    { key: 'salesPersonName', header: 'Name (Sales Person)', width: 180, render: visit => visit.salesPersonName, sortValue: visit => visit.salesPersonName, cellClassName: 'font-medium text-slate-900' },
+    { key: 'designation', header: 'Designation', width: 160, render: visit => visit.designation, sortValue: visit => visit.designation },
+    { key: 'customerName', header: 'Customer Name', width: 180, render: visit => visit.customerName, sortValue: visit => visit.customerName },
+    { key: 'customerId', header: 'Customer ID', width: 130, render: visit => visit.customerId, sortValue: visit => visit.customerId },
+    { key: 'projectName', header: 'Project Name', width: 180, render: visit => visit.projectName, sortValue: visit => visit.projectName },
+    { key: 'inTime', header: 'In Time', width: 100, render: visit => visit.inTime, sortValue: visit => parseTimeOfDay(visit.inTime) ?? -1, title: visit => visit.inTime },
+    { key: 'outTime', header: 'Out Time', width: 100, render: visit => visit.outTime, sortValue: visit => parseTimeOfDay(visit.outTime) ?? -1, title: visit => visit.outTime },
+];
 
 interface SealPersonProjectVisitProps {
     currentUser: User;
@@ -105,6 +56,7 @@ interface SealPersonProjectVisitProps {
     onUpdateVisits: React.Dispatch<React.SetStateAction<SealPersonVisit[]>>;
     activeTab: SealPersonVisitTab;
     onTabChange: (tab: SealPersonVisitTab) => void;
+    onAddProjectAliases?: (aliases: ProjectAlias[]) => void;
 }
 
 // Reusable component for the small summary cards
@@ -346,24 +298,25 @@ const generateTeamVisitList = (analysisVisits: SealPersonVisit[], externalVisits
     };
 };
 
-const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ currentUser, projects, visits, onUpdateVisits, activeTab, onTabChange }) => {
+const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ currentUser, projects, visits, onUpdateVisits, activeTab, onTabChange, onAddProjectAliases }) => {
     const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' | 'info' } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Filters for Records Tab
-    const [startDate, setStartDate] = useState('');
-    const [endDate, setEndDate] = useState('');
-    const [projectFilter, setProjectFilter] = useState('');
-    const [salesPersonFilter, setSalesPersonFilter] = useState('');
-    const [teamFilter, setTeamFilter] = useState('');
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [projectFilter, setProjectFilter] = useQueryParam('project');
+    const [salesPersonFilter, setSalesPersonFilter] = useQueryParam('salesPerson');
+    const [teamFilter, setTeamFilter] = useQueryParam('team');
 
     // State for Analysis Tab
-    const [analysisStartDate, setAnalysisStartDate] = useState('');
-    const [analysisEndDate, setAnalysisEndDate] = useState('');
-    const [reportType, setReportType] = useState('');
+    const [analysisStartDate, setAnalysisStartDate] = useQueryParam('analysisFrom');
+    const [analysisEndDate, setAnalysisEndDate] = useQueryParam('analysisTo');
+    const [reportType, setReportType] = useQueryParam('report');
     const [reportData, setReportData] = useState<any | null>(null);
 
     const projectNames = useMemo(() => _.uniq(projects.map(p => p.name)).sort(), [projects]);
+    const [importFile, setImportFile] = useState<File | null>(null);
     
     const salesPersonNames = useMemo(() => {
         const allNames = _.uniq(visits.map(v => v.salesPersonName)).sort();
@@ -378,10 +331,6 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
         return []; // No matching team, so no salespeople to show
     }, [visits, teamFilter]);
 
-    useEffect(() => {
-        setSalesPersonFilter(''); // Reset salesperson filter when team changes
-    }, [teamFilter]);
-
     const filteredVisits = useMemo(() => {
         return visits.filter(visit => {
             const startDateMatch = !startDate || visit.date >= startDate;
@@ -405,71 +354,27 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
         });
     }, [visits, startDate, endDate, projectFilter, salesPersonFilter, teamFilter]);
 
-    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (!file) return;
-
-        if (typeof window.Papa === 'undefined') {
-            setFeedback({ message: "CSV parsing library is not available.", type: 'error' });
-            return;
-        }
-
-        window.Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results: any) => {
-                const headers = results.meta.fields;
-                const isValid = headers && REQUIRED_HEADERS.every(h => headers.includes(h.trim()));
-
-                if (!isValid) {
-                    setFeedback({ message: "CSV header mismatch. Please use the exact format from the template.", type: 'error' });
-                    if (event.target) event.target.value = '';
-                    return;
-                }
-
-                const newVisits: SealPersonVisit[] = [];
-                let hasError = false;
-
-                results.data.forEach((row: any, index: number) => {
-                    if (hasError) return;
-                    if (!row['Sl No'] || !row['Date'] || !row['Name (Sales Person)'] || !row['Project Name']) {
-                        setFeedback({ message: `Missing essential data in row ${index + 2}.`, type: 'error' });
-                        hasError = true;
-                        return;
-                    }
-                    
-                    const formattedDate = parseAndFormatDate(row['Date']);
-                    if (!formattedDate) {
-                        setFeedback({ message: `Invalid date format in row ${index + 2}: "${row['Date']}". Skipping row.`, type: 'error' });
-                        hasError = true;
-                        return;
-                    }
-
-                    newVisits.push({
-                        id: Date.now() + index,
-                        slNo: row['Sl No'],
-                        date: formattedDate,
-                        salesPersonName: row['Name (Sales Person)'],
-                        designation: row['Designation'] || 'N/A',
-                        customerName: row['Customer Name'] || 'N/A',
-                        customerId: row['Customer ID'] || 'N/A',
-                        projectName: row['Project Name'],
-                        inTime: row['In Time'] || 'N/A',
-                        outTime: row['Out Time'] || 'N/A',
-                    });
-                });
-
-                if (!hasError) {
-                    onUpdateVisits(prev => _.orderBy([...prev, ...newVisits], ['date'], ['desc']));
-                    setFeedback({ message: `Successfully imported ${newVisits.length} records.`, type: 'success' });
-                }
-            },
-            error: (error: any) => {
-                setFeedback({ message: `CSV parsing error: ${error.message}`, type: 'error' });
-            }
-        });
+    const handleImportVisits = (rows: Record<SealPersonVisitImportKey, string>[], fileName: string) => {
+        const newVisits: SealPersonVisit[] = rows.map((row, index) => ({
+            ...row,
+            id: Date.now() + index,
+            designation: row.designation || 'N/A',
+            customerName: row.customerName || 'N/A',
+            customerId: row.customerId || 'N/A',
+            inTime: row.inTime || 'N/A',
+            outTime: row.outTime || 'N/A',
+        }));
+        onUpdateVisits(prev => _.orderBy([...prev, ...newVisits], ['date'], ['desc']));
+        logAuditEvent({ action: 'import', entityType: 'sealPersonVisits', summary: `Imported ${newVisits.length} seal person visit records from ${fileName}`, before: { count: visits.length }, after: { count: visits.length + newVisits.length } });
+        setFeedback({ message: `Successfully imported ${newVisits.length} records.`, type: 'success' });
+    };
 
-        if (event.target) event.target.value = '';
+    const handleDeleteVisits = (deleted: SealPersonVisit[]) => {
+        if (!window.confirm(`Delete ${deleted.length} selected visit record(s)? This action cannot be undone.`)) return;
+        const deletedIds = new Set(deleted.map(visit => visit.id));
+        onUpdateVisits(prev => prev.filter(visit => !deletedIds.has(visit.id)));
+        logAuditEvent({ action: 'delete', entityType: 'sealPersonVisits', summary: `Deleted ${deleted.length} seal person visit records`, before: { count: visits.length }, after: { count: visits.length - deleted.length } });
+        setFeedback({ message: `Deleted ${deleted.length} record(s).`, type: 'info' });
     };
 
     const handleDownloadTemplate = () => {
@@ -705,7 +610,7 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
             rows: salespersonCustomerVisitsRows,
         };
 
-        const withDuration = analysisVisits.map(v => ({...v, duration: calculateDurationInMinutes(v.inTime, v.outTime)})).filter(v => v.duration !== null && v.duration >= 0);
+        const withDuration = analysisVisits.map(v => ({...v, duration: minutesBetweenTimes(v.inTime, v.outTime)})).filter(v => v.duration !== null && v.duration >= 0);
         const avgDuration = withDuration.length ? _.sumBy(withDuration, 'duration') / withDuration.length : 0;
         const timeAnalysis = {
             title: 'Visit Duration Analysis',
@@ -871,7 +776,7 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
                     break;
                 }
                 case 'time-analysis': {
-                    const withDuration = analysisVisits.map(v => ({...v, duration: calculateDurationInMinutes(v.inTime, v.outTime)})).filter(v => v.duration !== null && v.duration >= 0);
+                    const withDuration = analysisVisits.map(v => ({...v, duration: minutesBetweenTimes(v.inTime, v.outTime)})).filter(v => v.duration !== null && v.duration >= 0);
                     const avgDuration = withDuration.length ? _.sumBy(withDuration, 'duration') / withDuration.length : 0;
                     reportContent = {
                         title: 'Visit Duration Analysis',
@@ -1183,6 +1088,15 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
 
     return (
         <>
+            <ImportWizard
+                file={importFile}
+                title="Import Seal Person Visits"
+                fields={SEAL_PERSON_VISIT_IMPORT_FIELDS}
+                projects={projects}
+                onAddProjectAliases={onAddProjectAliases}
+                onImport={handleImportVisits}
+                onClose={() => setImportFile(null)}
+            />
             <div className="px-4 sm:px-6 lg:px-8 pb-4 sm:pb-6 lg:pb-8">
                 <div className="bg-gradient-to-r from-white via-orange-50 to-amber-50 rounded-b-xl shadow-lg px-px pb-px">
                     <div className="bg-white rounded-b-xl">
@@ -1190,7 +1104,10 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
                         {activeTab === 'records' && (
                             <div className="fade-in">
                                 <div className="p-6">
-                                     <h3 className="text-lg font-semibold text-slate-800 mb-4">Filters</h3>
+                                     <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+                                        <h3 className="text-lg font-semibold text-slate-800">Filters</h3>
+                                        <FilterPresets view="sealPersonProjectVisit" tab="records" currentUser={currentUser} />
+                                     </div>
                                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                                         <div>
                                             <label htmlFor="start-date-filter" className="block text-sm font-medium text-slate-700">Start Date</label>
@@ -1209,7 +1126,7 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
                                         </div>
                                         <div>
                                             <label htmlFor="team-filter" className="block text-sm font-medium text-slate-700">Team</label>
-                                            <select id="team-filter" value={teamFilter} onChange={e => setTeamFilter(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
+                                            <select id="team-filter" value={teamFilter} onChange={e => { setTeamFilter(e.target.value); setSalesPersonFilter(''); }} className="mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500">
                                                 <option value="">All Teams</option>
                                                 {SALES_TEAMS.map(team => (
                                                     <option key={team.teamName} value={team.teamName}>{team.teamName}</option>
@@ -1231,9 +1148,9 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
                                         <h3 className="text-lg font-semibold text-slate-800">Visit Records ({filteredVisits.length})</h3>
                                         <div className="flex items-center gap-3 flex-wrap justify-end">
                                             <label htmlFor="csv-upload" className="cursor-pointer inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
-                                                Import (CSV)
+                                                Import (CSV/Excel)
                                             </label>
-                                            <input id="csv-upload" type="file" ref={fileInputRef} onChange={handleFileUpload} className="sr-only" accept=".csv" />
+                                            <input id="csv-upload" type="file" ref={fileInputRef} onChange={e => { setImportFile(e.target.files?.[0] ?? null); e.target.value = ''; }} className="sr-only" accept=".csv,.xlsx,.xls" />
                                             <button onClick={handleDownloadTemplate} className="inline-flex items-center gap-2 px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50">
                                                 Download Template
                                             </button>
@@ -1244,42 +1161,21 @@ const SealPersonProjectVisit: React.FC<SealPersonProjectVisitProps> = ({ current
                                             <button onClick={handleExportPDF} disabled={filteredVisits.length === 0} className="inline-flex items-center gap-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-orange-600 hover:bg-orange-700 disabled:opacity-50">Export PDF</button>
                                         </div>
                                     </div>
-                                    <div className="overflow-x-auto">
-                                        <table className="min-w-full divide-y divide-slate-200">
-                                            <thead className="bg-slate-50">
-                                                <tr>
-                                                    {REQUIRED_HEADERS.map(header => <th key={header} className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">{header}</th>)}
-                                                </tr>
-                                            </thead>
-                                            <tbody className="bg-white divide-y divide-slate-200">
-                                                {filteredVisits.length > 0 ? filteredVisits.map(visit => (
-                                                    <tr key={visit.id} className="hover:bg-slate-50">
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.slNo}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.date}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{visit.salesPersonName}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.designation}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.customerName}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.customerId}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.projectName}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.inTime}</td>
-                                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-slate-500">{visit.outTime}</td>
-                                                    </tr>
-                                                )) : (
-                                                    <tr>
-                                                        <td colSpan={REQUIRED_HEADERS.length} className="text-center py-8 text-slate-500">
-                                                            {visits.length === 0 ? "No data imported yet. Please import a CSV file." : "No records match your current filters."}
-                                                        </td>
-                                                    </tr>
-                                                )}
-                                            </tbody>
-                                        </table>
-                                    </div>
+                                    <DataTable
+                                        tableId="sealPersonVisits"
+                                        columns={VISIT_COLUMNS}
+                                        rows={filteredVisits}
+                                        getRowId={visit => visit.id}
+                                        emptyMessage={visits.length === 0 ? "No data imported yet. Please import a CSV file." : "No records match your current filters."}
+                                        bulkActions={[{ label: 'Delete', onClick: handleDeleteVisits, variant: 'danger' }]}
+                                    />
                                 </div>
                             </div>
                         )}
 
                         {activeTab === 'analysis' && (
                              <div className="p-6 space-y-6 fade-in">
+                                <FilterPresets view="sealPersonProjectVisit" tab="analysis" currentUser={currentUser} />
                                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
                                      <div>
                                         <label htmlFor="report-type" className="block text-sm font-medium text-slate-700">Report Type</label>
@@ -52,11 +52,11 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, activeView, onNaviga
     const menuRefs = useRef<Record<string, HTMLDivElement | null>>({});
     const hoverTimeoutRef = useRef<number | null>(null);
 
-    const canViewVisit = permissions.projectVisit.view || permissions.lastVisitedProjects.view;
+    const canViewVisit = permissions.projectVisit.view || permissions.visitReports.view || permissions.lastVisitedProjects.view;
     const canViewCase = permissions.projectCase.view || permissions.projectCasesList.view;
     const canViewReceive = permissions.materialReceive.view || permissions.materialReceiveList.view;
     const canViewSurveillance = permissions.employeeProjectVisit.view || permissions.monthlyComparisonPrecision.view || permissions.sealPersonProjectVisit.view || permissions.itResponseTimeline.view || permissions.constructionDutyAnalysis.view || permissions.ssvDutyAnalysis.view;
-    const canViewSystemManagement = permissions.systemManagement_addProject.view || permissions.systemManagement_projectList.view || permissions.systemManagement_dashboardSettings.view;
+    const canViewSystemManagement = permissions.systemManagement_addProject.view || permissions.systemManagement_projectList.view || permissions.systemManagement_dashboardSettings.view || permissions.systemManagement_dutyPolicies.view || permissions.systemManagement_calendar.view || permissions.systemManagement_employees.view || permissions.systemManagement_aiTriage.view;
 
     const isResizing = useRef(false);
 
@@ -199,6 +199,15 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, activeView, onNaviga
                 />
             )}
 
+            {permissions.reports.view && (
+                <NavLink
+                    icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" clipRule="evenodd" /></svg>}
+                    label="Scheduled Reports"
+                    isActive={activeView === 'reports'}
+                    onClick={() => onNavigate('reports')}
+                />
+            )}
+
             <hr className="my-2 border-slate-200" />
             
              {permissions.profile.view && (
@@ -243,6 +252,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, activeView, onNaviga
        {renderPopup('visit', 
         <div className="space-y-1">
             {permissions.projectVisit.view && <NavLink label="New Visit Report" icon={<div className="w-5 h-5 flex items-center justify-center"><div className="w-1.5 h-1.5 bg-slate-400 rounded-full"></div></div>} isActive={activeView === 'projectVisit'} onClick={() => onNavigate('projectVisit')} isSubItem />}
+            {permissions.visitReports.view && <NavLink label="Visit Reports" icon={<div className="w-5 h-5 flex items-center justify-center"><div className="w-1.5 h-1.5 bg-slate-400 rounded-full"></div></div>} isActive={activeView === 'visitReports'} onClick={() => onNavigate('visitReports')} isSubItem />}
             {permissions.lastVisitedProjects.view && <NavLink label="Visited Projects" icon={<div className="w-5 h-5 flex items-center justify-center"><div className="w-1.5 h-1.5 bg-slate-400 rounded-full"></div></div>} isActive={activeView === 'lastVisitedProjects'} onClick={() => onNavigate('lastVisitedProjects')} isSubItem />}
         </div>, 'w-56'
       )}
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { IssueMatch } from '../types';
+import { findSimilarIssues, SimilarIssueQuery } from '../services/issueService';
+import { caseToLink, issueSourceLabel } from '../utils/recurringIssues';
+import { CASE_STATUS_CLASSES } from '../utils/caseWorkflow';
+
+const SEARCH_DELAY_MS = 600;
+// Shorter descriptions match too much to be worth a warning.
+const MIN_TEXT_LENGTH = 12;
+
+interface SimilarIssuesNoticeProps extends SimilarIssueQuery {
+    linkedCaseId?: number;
+    /** Links the issue being reported to an existing case, or unlinks it. Left out when the form is read-only. */
+    onLinkChange?: (caseId: number | undefined) => void;
+}
+
+/**
+ * Warns the reporter, while they type, that the issue looks like one already reported at the project, and
+ * lets them link it to that case. Stays quiet offline and when the search fails.
+ */
+const SimilarIssuesNotice: React.FC<SimilarIssuesNoticeProps> = ({ project, text, category, excludeCaseId, excludeReportId, linkedCaseId, onLinkChange }) => {
+    const [matches, setMatches] = useState<IssueMatch[]>([]);
+
+    useEffect(() => {
+        if (!project || text.trim().length < MIN_TEXT_LENGTH || !navigator.onLine) {
+            setMatches([]);
+            return;
+        }
+        let isCancelled = false;
+        const timer = window.setTimeout(() => {
+            findSimilarIssues({ project, text, category, excludeCaseId, excludeReportId })
+                .then(result => { if (!isCancelled) setMatches(result); })
+                .catch(err => console.warn('Could not look for similar issues:', err));
+        }, SEARCH_DELAY_MS);
+        return () => {
+            isCancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [project, text, category, excludeCaseId, excludeReportId]);
+
+    const isLinkListed = matches.some(match => caseToLink(match) === linkedCaseId);
+    if (matches.length === 0 && linkedCaseId === undefined) return null;
+
+    return (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm space-y-2" role="status">
+            {matches.length > 0 && (
+                <>
+                    <p className="font-medium text-amber-800">This may have been reported before:</p>
+                    <ul className="space-y-2">
+                        {matches.map(match => {
+                            const caseId = caseToLink(match);
+                            return (
+                                <li key={match.key} className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-slate-800 truncate" title={match.title}>{match.title}</p>
+                                        <p className="text-xs text-slate-500 flex flex-wrap items-center gap-x-2">
+                                            <span>{issueSourceLabel(match)}</span>
+                                            {match.status && <span className={`px-2 py-0.5 rounded-full font-medium ${CASE_STATUS_CLASSES[match.status]}`}>{match.status}</span>}
+                                            {match.category && <span>{match.category}</span>}
+                                            <span>{Math.round(match.score * 100)}% alike</span>
+                                        </p>
+                                    </div>
+                                    {onLinkChange && caseId !== undefined && (
+                                        linkedCaseId === caseId ? (
+                                            <button type="button" onClick={() => onLinkChange(undefined)} className="shrink-0 px-3 py-1 text-xs font-medium text-amber-800 bg-amber-100 border border-amber-300 rounded-md hover:bg-amber-200">
+                                                Linked · Unlink
+                                            </button>
+                                        ) : (
+                                            <button type="button" onClick={() => onLinkChange(caseId)} className="shrink-0 px-3 py-1 text-xs font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">
+                                                Same issue – link to case #{caseId}
+                                            </button>
+                                        )
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </>
+            )}
+            {linkedCaseId !== undefined && !isLinkListed && (
+                <p className="text-amber-800">
+                    Reported as a recurrence of case #{linkedCaseId}.
+                    {onLinkChange && <button type="button" onClick={() => onLinkChange(undefined)} className="ml-2 font-medium underline">Unlink</button>}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default SimilarIssuesNotice;
@@ -1,40 +1,200 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Project, User, FeaturedProject } from '../types';
-import { ZONES } from '../constants';
+import { Project, ProjectStatus, User, FeaturedProject, DutyPolicy, CalendarEntry, Employee, EmployeeVisit } from '../types';
+import { ZONES, PROJECT_PHASES, PROJECT_STATUSES } from '../constants';
 import FormField from './FormField';
 import SearchableSelect from './SearchableSelect';
 import ImageCropModal from './ImageCropModal';
+import DutyPolicySettings from './DutyPolicySettings';
+import WorkCalendarSettings from './WorkCalendarSettings';
+import EmployeeDirectory from './EmployeeDirectory';
+import AiTriageSettings from './AiTriageSettings';
 import Spinner from './Spinner';
+import { getCurrentLocation } from '../utils/geolocation';
+import { DEFAULT_GEOFENCE_RADIUS } from '../utils/visitVerification';
+import { normalizeProjectName } from '../utils/projects';
+import { NewCalendarEntry } from '../utils/workCalendar';
 
-type SystemManagementTab = 'addProject' | 'projectList' | 'dashboardSettings';
+type SystemManagementTab = 'addProject' | 'projectList' | 'dashboardSettings' | 'dutyPolicies' | 'calendar' | 'employees' | 'aiTriage';
 
 interface SystemManagementProps {
     currentUser: User;
     projects: Project[];
     featuredProject: FeaturedProject;
-    onAddProject: (projectData: Omit<Project, 'id'>) => Promise<void>;
-    onUpdateProject: (updatedProject: Project) => Promise<void>;
+    /** Resolves to whether the project was saved. */
+    onAddProject: (projectData: Omit<Project, 'id'>) => Promise<boolean>;
+    /** Resolves to whether the project was saved. */
+    onUpdateProject: (updatedProject: Project) => Promise<boolean>;
     onDeleteProject: (projectId: number) => Promise<void>;
     onUpdateFeaturedProject: (newData: Partial<FeaturedProject>) => Promise<void>;
+    dutyPolicies: DutyPolicy[];
+    onSaveDutyPolicy: (policy: DutyPolicy | Omit<DutyPolicy, 'id'>) => Promise<void>;
+    onDeleteDutyPolicy: (policyId: number) => Promise<void>;
+    calendarEntries: CalendarEntry[];
+    onSaveCalendarEntry: (entry: CalendarEntry | NewCalendarEntry) => void;
+    onDeleteCalendarEntry: (entryId: number) => void;
+    onImportCalendarEntries: (entries: NewCalendarEntry[], fileName: string) => void;
+    employees: Employee[];
+    employeeVisits: EmployeeVisit[];
+    onSaveEmployee: (employee: Employee | Omit<Employee, 'id'>) => Promise<void>;
+    onDeleteEmployee: (employeeId: number) => Promise<void>;
+    onAddEmployees: (employees: Omit<Employee, 'id'>[]) => Promise<void>;
 }
 
+const STATUS_BADGE_CLASSES: Record<ProjectStatus, string> = {
+    'Active': 'bg-green-100 text-green-800',
+    'On Hold': 'bg-amber-100 text-amber-800',
+    'Completed': 'bg-slate-100 text-slate-700',
+};
+
+// The project editor's fields, kept as typed until the project is saved.
+interface ProjectFormState {
+    name: string;
+    code: string;
+    zone: string;
+    address: string;
+    latitude: string;
+    longitude: string;
+    geofenceRadius: string;
+    startDate: string;
+    handoverDate: string;
+    phase: string;
+    status: ProjectStatus;
+    siteEngineer: string;
+    securitySupervisors: string; // comma-separated
+    aliases: string; // comma-separated
+}
+
+const toFormState = (project?: Project): ProjectFormState => ({
+    name: project?.name ?? '',
+    code: project?.code ?? '',
+    zone: project?.zone ?? '',
+    address: project?.address ?? '',
+    latitude: project?.latitude?.toString() ?? '',
+    longitude: project?.longitude?.toString() ?? '',
+    geofenceRadius: (project?.geofenceRadius ?? DEFAULT_GEOFENCE_RADIUS).toString(),
+    startDate: project?.startDate ?? '',
+    handoverDate: project?.handoverDate ?? '',
+    phase: project?.phase ?? '',
+    status: project?.status ?? 'Active',
+    siteEngineer: project?.siteEngineer ?? '',
+    securitySupervisors: (project?.securitySupervisors ?? []).join(', '),
+    aliases: (project?.aliases ?? []).join(', '),
+});
+
+/**
+ * Checks the editor's fields and converts them to a project's details. Optional fields left empty are omitted.
+ * @param otherProjects The remaining projects, whose names and codes must not be reused.
+ */
+const parseProjectForm = (form: ProjectFormState, otherProjects: Project[]): { value: Omit<Project, 'id'> } | { error: string } => {
+    const name = form.name.trim();
+    const code = form.code.trim();
+    if (!name || !form.zone || !form.address.trim()) return { error: 'Name, zone and address are required.' };
+    if (otherProjects.some(p => normalizeProjectName(p.name) === normalizeProjectName(name))) {
+        return { error: `A project named "${name}" already exists.` };
+    }
+    if (code && otherProjects.some(p => p.code?.toLowerCase() === code.toLowerCase())) {
+        return { error: `The project code "${code}" is already in use.` };
+    }
+    if (form.startDate && form.handoverDate && form.handoverDate < form.startDate) {
+        return { error: 'The handover date cannot be before the start date.' };
+    }
+
+    const value: Omit<Project, 'id'> = { name, zone: form.zone, address: form.address.trim(), status: form.status };
+    if (form.latitude.trim() || form.longitude.trim()) {
+        const latitude = Number(form.latitude);
+        const longitude = Number(form.longitude);
+        const geofenceRadius = Number(form.geofenceRadius);
+        if (!form.latitude.trim() || !form.longitude.trim() || isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            return { error: 'Enter a latitude between -90 and 90 and a longitude between -180 and 180, or leave both empty.' };
+        }
+        if (!(geofenceRadius > 0)) return { error: 'The geofence radius must be a positive number of meters.' };
+        Object.assign(value, { latitude, longitude, geofenceRadius });
+    }
+    const supervisors = form.securitySupervisors.split(',').map(s => s.trim()).filter(Boolean);
+    const aliases = form.aliases.split(',').map(s => s.trim()).filter(Boolean);
+    if (code) value.code = code;
+    if (form.startDate) value.startDate = form.startDate;
+    if (form.handoverDate) value.handoverDate = form.handoverDate;
+    if (form.phase) value.phase = form.phase;
+    if (form.siteEngineer.trim()) value.siteEngineer = form.siteEngineer.trim();
+    if (supervisors.length > 0) value.securitySupervisors = supervisors;
+    if (aliases.length > 0) value.aliases = aliases;
+    return { value };
+};
+
+const ProjectFields: React.FC<{
+    idPrefix: string;
+    form: ProjectFormState;
+    onChange: (changes: Partial<ProjectFormState>) => void;
+}> = ({ idPrefix, form, onChange }) => {
+    const [isLocating, setIsLocating] = useState(false);
+    const [locationError, setLocationError] = useState<string | null>(null);
+    const field = <K extends keyof ProjectFormState>(key: K) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange({ [key]: e.target.value } as Partial<ProjectFormState>);
+
+    const handleUseCurrentLocation = async () => {
+        setIsLocating(true);
+        const location = await getCurrentLocation();
+        setIsLocating(false);
+        if (!location) {
+            setLocationError('Could not get your location. Check that location access is allowed.');
+            return;
+        }
+        onChange({ latitude: location.latitude.toFixed(6), longitude: location.longitude.toFixed(6) });
+        setLocationError(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="sm:col-span-2">
+                    <FormField id={`${idPrefix}Name`} label="Project Name" value={form.name} onChange={field('name')} placeholder="Enter project name" required />
+                </div>
+                <FormField id={`${idPrefix}Code`} label="Project Code" value={form.code} onChange={field('code')} placeholder="e.g. LL-01" />
+            </div>
+            <SearchableSelect id={`${idPrefix}Zone`} label="Project Zone" options={ZONES} value={form.zone} onChange={zone => onChange({ zone })} placeholder="Select a zone" required />
+            <FormField id={`${idPrefix}Address`} label="Project Address" as="textarea" value={form.address} onChange={field('address')} placeholder="Enter full address" required />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <SearchableSelect id={`${idPrefix}Status`} label="Status" options={PROJECT_STATUSES} value={form.status} onChange={status => onChange({ status: (status || 'Active') as ProjectStatus })} placeholder="Select a status" />
+                <SearchableSelect id={`${idPrefix}Phase`} label="Phase" options={PROJECT_PHASES} value={form.phase} onChange={phase => onChange({ phase })} placeholder="Select a phase" />
+                <FormField id={`${idPrefix}StartDate`} label="Start Date" type="date" value={form.startDate} onChange={field('startDate')} placeholder="" />
+                <FormField id={`${idPrefix}HandoverDate`} label="Handover Date" type="date" value={form.handoverDate} onChange={field('handoverDate')} placeholder="" />
+                <FormField id={`${idPrefix}SiteEngineer`} label="Site Engineer" value={form.siteEngineer} onChange={field('siteEngineer')} placeholder="Enter a name" />
+                <FormField id={`${idPrefix}SecuritySupervisors`} label="Security Supervisors" value={form.securitySupervisors} onChange={field('securitySupervisors')} placeholder="Names, separated by commas" />
+            </div>
+            <FormField id={`${idPrefix}Aliases`} label="Other Names" value={form.aliases} onChange={field('aliases')} placeholder="Spellings used in imported files, separated by commas" />
+            <fieldset className="border rounded-md p-3 space-y-3">
+                <legend className="px-2 text-xs font-medium text-slate-500 uppercase tracking-wider">Site Location</legend>
+                <p className="text-sm text-slate-500">Visit reports submitted farther than the radius from this point are flagged. Leave the coordinates empty to skip the check.</p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <FormField id={`${idPrefix}Latitude`} label="Latitude" value={form.latitude} onChange={field('latitude')} placeholder="23.8103" />
+                    <FormField id={`${idPrefix}Longitude`} label="Longitude" value={form.longitude} onChange={field('longitude')} placeholder="90.4125" />
+                    <FormField id={`${idPrefix}Geofence`} label="Radius (m)" value={form.geofenceRadius} onChange={field('geofenceRadius')} placeholder={String(DEFAULT_GEOFENCE_RADIUS)} />
+                </div>
+                <button type="button" onClick={handleUseCurrentLocation} disabled={isLocating} className="text-sm font-medium text-orange-600 hover:text-orange-700 disabled:text-slate-400">
+                    {isLocating ? 'Locating...' : 'Use my current location'}
+                </button>
+                {locationError && <p className="text-sm text-red-600">{locationError}</p>}
+            </fieldset>
+        </div>
+    );
+};
+
 const EditProjectModal: React.FC<{
     isOpen: boolean;
     project: Project | null;
+    projects: Project[];
     onClose: () => void;
     onSave: (updatedProject: Project) => void;
     isSaving: boolean;
-}> = ({ isOpen, project, onClose, onSave, isSaving }) => {
-    const [name, setName] = useState('');
-    const [zone, setZone] = useState('');
-    const [address, setAddress] = useState('');
+}> = ({ isOpen, project, projects, onClose, onSave, isSaving }) => {
+    const [form, setForm] = useState<ProjectFormState>(toFormState());
+    const [error, setError] = useState<string | null>(null);
     const modalRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         if (project) {
-            setName(project.name);
-            setZone(project.zone);
-            setAddress(project.address);
+            setForm(toFormState(project));
+            setError(null);
         }
     }, [project]);
 
@@ -72,21 +232,26 @@ const EditProjectModal: React.FC<{
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onSave({ ...project, name, zone, address });
+        const parsed = parseProjectForm(form, projects.filter(p => p.id !== project.id));
+        if ('error' in parsed) {
+            setError(parsed.error);
+            return;
+        }
+        // Fields left empty are cleared, so they are rebuilt from the form rather than merged into the project.
+        onSave({ ...parsed.value, id: project.id });
     };
 
     return (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 fade-in" role="dialog" aria-modal="true" aria-labelledby="edit-project-title">
-            <div ref={modalRef} className="bg-white rounded-xl shadow-2xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+            <div ref={modalRef} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
                 <form onSubmit={handleSubmit}>
                     <fieldset disabled={isSaving}>
                         <div className="p-6">
                             <h2 id="edit-project-title" className="text-xl font-bold text-slate-800">Edit Project</h2>
-                            <div className="mt-6 space-y-4">
-                                <FormField id="editProjectName" label="Project Name" value={name} onChange={e => setName(e.target.value)} placeholder="Enter project name" required />
-                                <SearchableSelect id="editProjectZone" label="Project Zone" options={ZONES} value={zone} onChange={setZone} placeholder="Select a zone" required />
-                                <FormField id="editProjectAddress" label="Project Address" as="textarea" value={address} onChange={e => setAddress(e.target.value)} placeholder="Enter full address" required />
+                            <div className="mt-6">
+                                <ProjectFields idPrefix="editProject" form={form} onChange={changes => setForm(prev => ({ ...prev, ...changes }))} />
                             </div>
+                            {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
                         </div>
                         <div className="bg-slate-50 px-6 py-4 rounded-b-xl flex justify-end gap-3">
                             <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">Cancel</button>
@@ -164,7 +329,7 @@ const DeleteConfirmationModal: React.FC<{
 };
 
 
-const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projects, onAddProject, onUpdateProject, onDeleteProject, featuredProject, onUpdateFeaturedProject }) => {
+const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projects, onAddProject, onUpdateProject, onDeleteProject, featuredProject, onUpdateFeaturedProject, dutyPolicies, onSaveDutyPolicy, onDeleteDutyPolicy, calendarEntries, onSaveCalendarEntry, onDeleteCalendarEntry, onImportCalendarEntries, employees, employeeVisits, onSaveEmployee, onDeleteEmployee, onAddEmployees }) => {
     
     const { permissions } = currentUser;
 
@@ -173,6 +338,10 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
         if (permissions.systemManagement_addProject.view) tabs.push('addProject');
         if (permissions.systemManagement_projectList.view) tabs.push('projectList');
         if (permissions.systemManagement_dashboardSettings.view) tabs.push('dashboardSettings');
+        if (permissions.systemManagement_dutyPolicies.view) tabs.push('dutyPolicies');
+        if (permissions.systemManagement_calendar.view) tabs.push('calendar');
+        if (permissions.systemManagement_employees.view) tabs.push('employees');
+        if (permissions.systemManagement_aiTriage.view) tabs.push('aiTriage');
         return tabs;
     }, [permissions]);
     
@@ -181,9 +350,7 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
     const [isSaving, setIsSaving] = useState(false);
 
     // Form state for adding
-    const [newProjectName, setNewProjectName] = useState('');
-    const [newProjectZone, setNewProjectZone] = useState('');
-    const [newProjectAddress, setNewProjectAddress] = useState('');
+    const [newProject, setNewProject] = useState<ProjectFormState>(toFormState());
     
     // Form state for dashboard settings
     const [featuredData, setFeaturedData] = useState<FeaturedProject>(featuredProject);
@@ -204,27 +371,27 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
     const canEditAddProject = permissions.systemManagement_addProject.edit;
     const canEditProjectList = permissions.systemManagement_projectList.edit;
     const canEditDashboardSettings = permissions.systemManagement_dashboardSettings.edit;
+    const canEditDutyPolicies = permissions.systemManagement_dutyPolicies.edit;
+    const canEditCalendar = permissions.systemManagement_calendar.edit;
+    const canEditEmployees = permissions.systemManagement_employees.edit;
+    const canEditAiTriage = permissions.systemManagement_aiTriage.edit;
 
     const handleAddProject = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!newProjectName || !newProjectZone || !newProjectAddress) {
-            setError("All fields are required to add a project.");
+        const parsed = parseProjectForm(newProject, projects);
+        if ('error' in parsed) {
+            setError(parsed.error);
             return;
         }
         setError(null);
         setIsSaving(true);
         
-        await onAddProject({
-            name: newProjectName,
-            zone: newProjectZone,
-            address: newProjectAddress,
-        });
+        const saved = await onAddProject(parsed.value);
 
         setIsSaving(false);
-        setNewProjectName('');
-        setNewProjectZone('');
-        setNewProjectAddress('');
-        alert(`Project "${newProjectName}" added successfully!`);
+        if (!saved) return;
+        setNewProject(toFormState());
+        alert(`Project "${parsed.value.name}" added successfully!`);
         if (availableTabs.includes('projectList')) {
             setActiveTab('projectList'); // Switch to list view after adding
         }
@@ -264,9 +431,9 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
 
     const handleSaveProjectUpdate = async (updatedProject: Project) => {
         setIsSaving(true);
-        await onUpdateProject(updatedProject);
+        const saved = await onUpdateProject(updatedProject);
         setIsSaving(false);
-        setProjectToEdit(null);
+        if (saved) setProjectToEdit(null);
     };
 
     const handleConfirmDelete = async () => {
@@ -288,6 +455,7 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
         if (!searchQuery) return projects;
         return projects.filter(p =>
             p.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+            (p.code ?? '').toLowerCase().includes(searchQuery.toLowerCase()) ||
             p.zone.toLowerCase().includes(searchQuery.toLowerCase()) ||
             p.address.toLowerCase().includes(searchQuery.toLowerCase())
         );
@@ -304,7 +472,7 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
             <div className="p-4 sm:p-6 lg:p-8 space-y-6">
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
                     <h2 className="text-2xl font-bold text-slate-800">System Management</h2>
-                    <p className="text-slate-600 font-medium mt-1">Manage projects and dashboard settings.</p>
+                    <p className="text-slate-600 font-medium mt-1">Manage projects, dashboard settings, duty policies, the company calendar, the employee directory and AI triage.</p>
                 </div>
 
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200">
@@ -319,6 +487,18 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
                             {availableTabs.includes('dashboardSettings') && (
                                 <button onClick={() => setActiveTab('dashboardSettings')} className={`whitespace-nowrap py-3 px-4 rounded-t-lg font-medium text-sm transition-colors ${getTabClasses('dashboardSettings')}`}>Dashboard Settings</button>
                             )}
+                            {availableTabs.includes('dutyPolicies') && (
+                                <button onClick={() => setActiveTab('dutyPolicies')} className={`whitespace-nowrap py-3 px-4 rounded-t-lg font-medium text-sm transition-colors ${getTabClasses('dutyPolicies')}`}>Duty Policies</button>
+                            )}
+                            {availableTabs.includes('calendar') && (
+                                <button onClick={() => setActiveTab('calendar')} className={`whitespace-nowrap py-3 px-4 rounded-t-lg font-medium text-sm transition-colors ${getTabClasses('calendar')}`}>Calendar</button>
+                            )}
+                            {availableTabs.includes('employees') && (
+                                <button onClick={() => setActiveTab('employees')} className={`whitespace-nowrap py-3 px-4 rounded-t-lg font-medium text-sm transition-colors ${getTabClasses('employees')}`}>Employees ({employees.length})</button>
+                            )}
+                            {availableTabs.includes('aiTriage') && (
+                                <button onClick={() => setActiveTab('aiTriage')} className={`whitespace-nowrap py-3 px-4 rounded-t-lg font-medium text-sm transition-colors ${getTabClasses('aiTriage')}`}>AI Triage</button>
+                            )}
                         </nav>
                     </div>
 
@@ -329,11 +509,9 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
                                 <h3 className="text-lg font-semibold text-slate-800 mb-4">Add New Project</h3>
                                 <form onSubmit={handleAddProject} className="space-y-4">
                                     <fieldset disabled={!canEditAddProject || isSaving}>
-                                        <FormField id="newProjectName" label="Project Name" value={newProjectName} onChange={e => setNewProjectName(e.target.value)} placeholder="Enter project name" required />
-                                        <SearchableSelect id="newProjectZone" label="Project Zone" options={ZONES} value={newProjectZone} onChange={setNewProjectZone} placeholder="Select a zone" required />
-                                        <FormField id="newProjectAddress" label="Project Address" as="textarea" value={newProjectAddress} onChange={e => setNewProjectAddress(e.target.value)} placeholder="Enter full address" required />
-                                        {error && <p className="text-sm text-red-600">{error}</p>}
-                                        <div className="pt-2 flex justify-end">
+                                        <ProjectFields idPrefix="newProject" form={newProject} onChange={changes => setNewProject(prev => ({ ...prev, ...changes }))} />
+                                        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+                                        <div className="pt-6 flex justify-end">
                                             <button type="submit" disabled={!canEditAddProject || isSaving} className="inline-flex items-center justify-center w-36 px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700 disabled:bg-slate-400">
                                                 {isSaving ? <Spinner /> : 'Add Project'}
                                             </button>
@@ -347,14 +525,17 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
                         {activeTab === 'projectList' && (
                             <div className="fade-in">
                                 <div className="mb-4">
-                                    <input type="text" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search projects by name, zone, or address..." className="w-full max-w-lg px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500" />
+                                    <input type="text" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search projects by name, code, zone, or address..." className="w-full max-w-lg px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500" />
                                 </div>
                                 <div className="overflow-x-auto border rounded-lg">
                                     <table className="min-w-full divide-y divide-slate-200">
                                         <thead className="bg-slate-50">
                                             <tr>
                                                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Name</th>
+                                                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Code</th>
                                                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Zone</th>
+                                                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Status</th>
+                                                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Phase</th>
                                                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Address</th>
                                                 {canEditProjectList && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>}
                                             </tr>
@@ -363,7 +544,12 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
                                             {filteredProjects.map(project => (
                                                 <tr key={project.id}>
                                                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{project.name}</td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{project.code || '—'}</td>
                                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{project.zone}</td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[project.status ?? 'Active']}`}>{project.status ?? 'Active'}</span>
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{project.phase || '—'}</td>
                                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 truncate max-w-sm">{project.address}</td>
                                                     {canEditProjectList && (
                                                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
@@ -410,11 +596,31 @@ const SystemManagement: React.FC<SystemManagementProps> = ({ currentUser, projec
                                 </form>
                             </div>
                         )}
+
+                        {/* Duty Policies Tab */}
+                        {activeTab === 'dutyPolicies' && (
+                            <DutyPolicySettings policies={dutyPolicies} canEdit={canEditDutyPolicies} onSave={onSaveDutyPolicy} onDelete={onDeleteDutyPolicy} />
+                        )}
+
+                        {/* Calendar Tab */}
+                        {activeTab === 'calendar' && (
+                            <WorkCalendarSettings entries={calendarEntries} canEdit={canEditCalendar} onSave={onSaveCalendarEntry} onDelete={onDeleteCalendarEntry} onImport={onImportCalendarEntries} />
+                        )}
+
+                        {/* Employees Tab */}
+                        {activeTab === 'employees' && (
+                            <EmployeeDirectory employees={employees} visits={employeeVisits} canEdit={canEditEmployees} onSave={onSaveEmployee} onDelete={onDeleteEmployee} onAddMany={onAddEmployees} />
+                        )}
+
+                        {/* AI Triage Tab */}
+                        {activeTab === 'aiTriage' && (
+                            <AiTriageSettings canEdit={canEditAiTriage} />
+                        )}
                     </div>
                 </div>
             </div>
 
-            <EditProjectModal isOpen={!!projectToEdit} project={projectToEdit} onClose={() => setProjectToEdit(null)} onSave={handleSaveProjectUpdate} isSaving={isSaving} />
+            <EditProjectModal isOpen={!!projectToEdit} project={projectToEdit} projects={projects} onClose={() => setProjectToEdit(null)} onSave={handleSaveProjectUpdate} isSaving={isSaving} />
             <DeleteConfirmationModal project={projectToDelete} onClose={() => setProjectToDelete(null)} onConfirm={handleConfirmDelete} isSaving={isSaving} />
             <ImageCropModal isOpen={isCropModalOpen} onClose={() => setIsCropModalOpen(false)} onSave={handleCroppedImageSave} imageSrc={imageToCrop} />
         </>
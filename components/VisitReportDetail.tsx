@@ -0,0 +1,207 @@
+import React from 'react';
+import { IssueItem, User, VisitReport } from '../types';
+import { formatDateTime } from '../utils/time';
+import { VISIT_FLAG_LABELS } from '../utils/visitVerification';
+import { canEditVisitReport, visitReportEditableUntil } from '../utils/visitReports';
+
+// For TypeScript to recognize the jspdf library loaded from CDN
+declare global {
+    interface Window {
+        jspdf: any;
+    }
+}
+
+const getPriorityBadgeClass = (priority: IssueItem['priority']) => {
+    switch (priority) {
+        case 'Low': return 'bg-green-100 text-green-800';
+        case 'Medium': return 'bg-yellow-100 text-yellow-800';
+        case 'High': return 'bg-orange-100 text-orange-800';
+        case 'Critical': return 'bg-red-100 text-red-800';
+        default: return 'bg-slate-100 text-slate-800';
+    }
+};
+
+const imageFormat = (dataUrl: string) => (dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG');
+
+/** Draws a report with its photos and issues as a PDF and downloads it. */
+const downloadVisitReportPDF = (report: VisitReport) => {
+    if (typeof window.jspdf === 'undefined') {
+        console.error("jsPDF library is not loaded.");
+        alert("Could not generate PDF. Please try reloading the page.");
+        return;
+    }
+
+    const { jsPDF } = window.jspdf;
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.width;
+    const pageHeight = doc.internal.pageSize.height;
+    const margin = 14;
+    const contentWidth = pageWidth - margin * 2;
+    let y = 22;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - 16) {
+            doc.addPage();
+            y = 20;
+        }
+    };
+    const writeLines = (text: string, fontSize = 10, color = 60) => {
+        doc.setFontSize(fontSize);
+        doc.setTextColor(color);
+        const lines: string[] = doc.splitTextToSize(text, contentWidth);
+        lines.forEach(line => {
+            ensureSpace(fontSize * 0.5);
+            doc.text(line, margin, y);
+            y += fontSize * 0.5;
+        });
+    };
+    // Photos go in rows of up to three, scaled to fit their cell.
+    const drawPhotos = (photos: string[]) => {
+        const cellWidth = (contentWidth - 8) / 3;
+        const cellHeight = cellWidth * 0.75;
+        photos.forEach((photo, index) => {
+            const column = index % 3;
+            if (column === 0) ensureSpace(cellHeight + 4);
+            try {
+                const { width, height } = doc.getImageProperties(photo);
+                const scale = Math.min(cellWidth / width, cellHeight / height);
+                doc.addImage(photo, imageFormat(photo), margin + column * (cellWidth + 4), y, width * scale, height * scale);
+            } catch (err) {
+                console.error('Could not add a photo to the PDF:', err);
+            }
+            if (column === 2 || index === photos.length - 1) y += cellHeight + 4;
+        });
+    };
+
+    doc.setFontSize(18);
+    doc.setTextColor(0);
+    doc.text('Project Visit Report', margin, y);
+    y += 10;
+    writeLines(`Project: ${report.projectName}${report.projectZone ? ` (${report.projectZone})` : ''}`, 11, 40);
+    writeLines(`Visited: ${formatDateTime(report.entryDate)}`, 11, 40);
+    writeLines(`Reporter: ${report.reporterName} (${report.reporterEmployeeId})`, 11, 40);
+    if (report.verification?.flags.length) {
+        writeLines(`Flags: ${report.verification.flags.map(flag => VISIT_FLAG_LABELS[flag]).join('; ')}`, 10, 180);
+    }
+    y += 4;
+
+    if (report.frontViewPhotos.length > 0) {
+        ensureSpace(12);
+        writeLines('Project Front View', 13, 0);
+        y += 2;
+        drawPhotos(report.frontViewPhotos);
+    }
+
+    report.issues.forEach((issue, index) => {
+        ensureSpace(20);
+        y += 2;
+        writeLines(`Issue ${index + 1}${issue.category ? ` – ${issue.category}` : ''}${issue.priority ? ` (${issue.priority})` : ''}`, 13, 0);
+        writeLines(issue.description);
+        if (issue.summary) writeLines(`AI summary: ${issue.summary}`, 10, 100);
+        if (issue.comments) writeLines(`Comments: ${issue.comments}`, 10, 100);
+        y += 2;
+        drawPhotos(issue.photos);
+    });
+
+    const pageCount = doc.internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        const pageStr = `Page ${i} of ${pageCount}`;
+        doc.setFontSize(10);
+        doc.setTextColor(100);
+        doc.text(pageStr, pageWidth - margin - doc.getTextWidth(pageStr), pageHeight - 10);
+        doc.text(`Generated on: ${new Date().toLocaleDateString('en-US')}`, margin, pageHeight - 10);
+    }
+
+    doc.save(`visit-report-${report.projectName.replace(/\s+/g, '-').toLowerCase()}-${report.entryDate.slice(0, 10)}.pdf`);
+};
+
+const Photos: React.FC<{ photos: string[]; alt: string }> = ({ photos, alt }) => (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {photos.map((photo, index) => (
+            <a key={index} href={photo} target="_blank" rel="noreferrer">
+                <img src={photo} alt={`${alt} ${index + 1}`} className="w-full aspect-square object-cover rounded-md border border-slate-300" />
+            </a>
+        ))}
+    </div>
+);
+
+interface VisitReportDetailProps {
+    report: VisitReport;
+    currentUser: User;
+    onBack: () => void;
+    onEdit: (report: VisitReport) => void;
+}
+
+const VisitReportDetail: React.FC<VisitReportDetailProps> = ({ report, currentUser, onBack, onEdit }) => {
+    const editableUntil = visitReportEditableUntil(report);
+    const canEdit = canEditVisitReport(report, currentUser);
+    const flags = report.verification?.flags ?? [];
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <button type="button" onClick={onBack} className="text-sm font-medium text-orange-600 hover:text-orange-700">← All visit reports</button>
+                <div className="flex gap-2">
+                    {canEdit && (
+                        <button type="button" onClick={() => onEdit(report)} className="px-4 py-2 text-sm font-medium bg-white border border-slate-300 rounded-md hover:bg-slate-50">
+                            Edit
+                        </button>
+                    )}
+                    <button type="button" onClick={() => downloadVisitReportPDF(report)} className="px-4 py-2 text-sm font-medium text-white bg-orange-600 rounded-md hover:bg-orange-700">
+                        Download PDF
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-2">
+                <h2 className="text-2xl font-bold text-slate-800">{report.projectName}</h2>
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600">
+                    {report.projectZone && <span>Zone: <strong>{report.projectZone}</strong></span>}
+                    <span>Visited: <strong>{formatDateTime(report.entryDate)}</strong></span>
+                    <span>Reporter: <strong>{report.reporterName}</strong> ({report.reporterEmployeeId})</span>
+                </div>
+                {report.submittedAt && (
+                    <p className="text-xs text-slate-500">
+                        Submitted {formatDateTime(report.submittedAt)}{report.submittedBy ? ` by ${report.submittedBy.name}` : ''}
+                        {canEdit && editableUntil && ` · can be edited until ${formatDateTime(editableUntil)}`}
+                    </p>
+                )}
+                {flags.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                        {flags.map(flag => (
+                            <li key={flag} className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-1.5">{VISIT_FLAG_LABELS[flag]}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {report.frontViewPhotos.length > 0 && (
+                <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                    <h3 className="text-lg font-semibold text-slate-800 mb-3">Project Front View</h3>
+                    <Photos photos={report.frontViewPhotos} alt="Project front view" />
+                </div>
+            )}
+
+            {report.issues.map((issue, index) => (
+                <div key={issue.id} className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <h3 className="text-lg font-semibold text-slate-800 mr-2">Issue {index + 1}</h3>
+                        {issue.category && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-800">{issue.category}</span>}
+                        {issue.priority && <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityBadgeClass(issue.priority)}`}>{issue.priority}</span>}
+                        {issue.linkedCaseId !== undefined && <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Recurrence of case #{issue.linkedCaseId}</span>}
+                    </div>
+                    <p className="text-sm text-slate-700 whitespace-pre-wrap">{issue.description}</p>
+                    {issue.summary && (
+                        <p className="text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-md p-3"><span className="font-semibold">AI summary:</span> {issue.summary}</p>
+                    )}
+                    {issue.comments && <p className="text-sm text-slate-600"><span className="font-semibold">Comments:</span> {issue.comments}</p>}
+                    {issue.photos.length > 0 && <Photos photos={issue.photos} alt={`Issue ${index + 1} photo`} />}
+                </div>
+            ))}
+            {report.issues.length === 0 && <p className="text-sm text-slate-500">No issues were reported on this visit.</p>}
+        </div>
+    );
+};
+
+export default VisitReportDetail;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Project, User, VisitReport } from '../types';
+import { useQueryParam } from '../hooks/useQueryParam';
+import { visitReportsApi } from '../services/apiClient';
+import { formatDateTime } from '../utils/time';
+import { highestIssuePriority } from '../utils/visitReports';
+import DataTable, { DataTableColumn } from './DataTable';
+import VisitReportDetail from './VisitReportDetail';
+import FeedbackMessage from './FeedbackMessage';
+import Spinner from './Spinner';
+
+const PAGE_SIZE = 25;
+const PRIORITIES = ['Low', 'Medium', 'High', 'Critical'];
+
+const getPriorityBadgeClass = (priority: string) => {
+    switch (priority) {
+        case 'Low': return 'bg-green-100 text-green-800';
+        case 'Medium': return 'bg-yellow-100 text-yellow-800';
+        case 'High': return 'bg-orange-100 text-orange-800';
+        case 'Critical': return 'bg-red-100 text-red-800';
+        default: return 'bg-slate-100 text-slate-800';
+    }
+};
+
+const REPORT_COLUMNS: DataTableColumn<VisitReport>[] = [
+    { key: 'entryDate', header: 'Visited', width: 170, render: report => formatDateTime(report.entryDate), sortValue: report => report.entryDate, title: report => formatDateTime(report.entryDate) },
+    { key: 'projectName', header: 'Project', width: 180, render: report => report.projectName, sortValue: report => report.projectName, cellClassName: 'font-medium text-slate-900' },
+    { key: 'projectZone', header: 'Zone', width: 120, render: report => report.projectZone, sortValue: report => report.projectZone },
+    { key: 'reporterName', header: 'Reporter', width: 170, render: report => report.reporterName, sortValue: report => report.reporterName },
+    { key: 'issues', header: 'Issues', width: 90, align: 'right', render: report => report.issues.length, sortValue: report => report.issues.length },
+    {
+        key: 'priority',
+        header: 'Highest Priority',
+        width: 150,
+        render: report => {
+            const priority = highestIssuePriority(report);
+            return priority ? <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityBadgeClass(priority)}`}>{priority}</span> : '—';
+        },
+        sortValue: report => PRIORITIES.indexOf(highestIssuePriority(report) ?? ''),
+        title: report => highestIssuePriority(report) ?? '',
+    },
+    {
+        key: 'flags',
+        header: 'Flags',
+        width: 100,
+        render: report => {
+            const count = report.verification?.flags.length ?? 0;
+            return count > 0 ? <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">{count}</span> : '';
+        },
+        sortValue: report => report.verification?.flags.length ?? 0,
+    },
+];
+
+interface VisitReportsProps {
+    currentUser: User;
+    projects: Project[];
+    /** Opens a report in the visit report form for editing. */
+    onEditReport: (report: VisitReport) => void;
+}
+
+/**
+ * The submitted visit reports, newest first, and the report opened from the list (kept in the `report`
+ * query parameter so it can be linked to).
+ */
+const VisitReports: React.FC<VisitReportsProps> = ({ currentUser, projects, onEditReport }) => {
+    const [startDate, setStartDate] = useQueryParam('from');
+    const [endDate, setEndDate] = useQueryParam('to');
+    const [projectFilter, setProjectFilter] = useQueryParam('project');
+    const [reportParam, setReportParam] = useQueryParam('report');
+    const [page, setPage] = useState(1);
+    const [reports, setReports] = useState<VisitReport[]>([]);
+    const [total, setTotal] = useState(0);
+    const [openReport, setOpenReport] = useState<VisitReport | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+    const projectNames = useMemo(() => projects.map(p => p.name).sort(), [projects]);
+
+    const loadReports = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const result = await visitReportsApi.list({ page, pageSize: PAGE_SIZE, project: projectFilter, from: startDate, to: endDate });
+            setReports(result.data);
+            setTotal(result.total);
+        } catch (err) {
+            setFeedback({ message: err instanceof Error ? err.message : 'Could not load the visit reports.', type: 'error' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [page, projectFilter, startDate, endDate]);
+
+    useEffect(() => { loadReports(); }, [loadReports]);
+
+    // A linked report may not be on the current page, so it's fetched on its own.
+    useEffect(() => {
+        if (!reportParam) {
+            setOpenReport(null);
+            return;
+        }
+        const listed = reports.find(r => String(r.id) === reportParam);
+        if (listed) {
+            setOpenReport(listed);
+            return;
+        }
+        visitReportsApi.get(Number(reportParam))
+            .then(setOpenReport)
+            .catch(err => {
+                setFeedback({ message: err instanceof Error ? err.message : 'Could not open the visit report.', type: 'error' });
+                setReportParam('');
+            });
+    }, [reportParam, reports]);
+
+    const handleFilterChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setter(e.target.value);
+        setPage(1);
+    };
+
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+    const inputClasses = "mt-1 block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm focus:outline-none focus:border-orange-500 focus:ring-1 focus:ring-orange-500";
+
+    if (reportParam) {
+        return (
+            <>
+                {openReport
+                    ? <VisitReportDetail report={openReport} currentUser={currentUser} onBack={() => setReportParam('')} onEdit={onEditReport} />
+                    : <div className="flex justify-center py-10"><Spinner className="h-10" /></div>}
+                {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
+            </>
+        );
+    }
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                <h2 className="text-xl font-semibold text-slate-800 mb-4">Filter Visit Reports</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <div>
+                        <label htmlFor="visit-reports-from" className="block text-sm font-medium text-slate-700">Start Date</label>
+                        <input type="date" id="visit-reports-from" value={startDate} onChange={handleFilterChange(setStartDate)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="visit-reports-to" className="block text-sm font-medium text-slate-700">End Date</label>
+                        <input type="date" id="visit-reports-to" value={endDate} onChange={handleFilterChange(setEndDate)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="visit-reports-project" className="block text-sm font-medium text-slate-700">Project</label>
+                        <select id="visit-reports-project" value={projectFilter} onChange={handleFilterChange(setProjectFilter)} className={inputClasses}>
+                            <option value="">All Projects</option>
+                            {projectNames.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    </div>
+                </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+                <div className="p-6 border-b border-slate-200">
+                    <h2 className="text-xl font-semibold text-slate-800">Results ({total})</h2>
+                </div>
+                {isLoading && reports.length === 0 ? (
+                    <div className="flex justify-center py-10"><Spinner className="h-10" /></div>
+                ) : (
+                    <DataTable
+                        tableId="visitReports"
+                        columns={REPORT_COLUMNS}
+                        rows={reports}
+                        getRowId={report => report.id}
+                        emptyMessage="No visit reports found matching your criteria."
+                        onRowClick={report => setReportParam(String(report.id))}
+                        className="px-6 pt-4"
+                    />
+                )}
+                <div className="p-4 flex justify-between items-center text-sm text-slate-600">
+                    <span>Page {page} of {pageCount}</span>
+                    <div className="flex gap-2">
+                        <button type="button" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || isLoading} className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">Previous</button>
+                        <button type="button" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount || isLoading} className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50">Next</button>
+                    </div>
+                </div>
+            </div>
+            {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
+        </div>
+    );
+};
+
+export default VisitReports;
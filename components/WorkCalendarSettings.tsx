@@ -0,0 +1,311 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CalendarEntry, HolidayEntry, LeaveEntry, WeeklyOffEntry } from '../types';
+import { NewCalendarEntry, WEEKDAY_NAMES, parseICalendarHolidays } from '../utils/workCalendar';
+import { CALENDAR_IMPORT_FIELDS, CalendarImportKey } from '../utils/importFields';
+import { companyToday, formatDateDDMMMYYYY } from '../utils/time';
+import FeedbackMessage from './FeedbackMessage';
+import ImportWizard from './ImportWizard';
+
+interface WorkCalendarSettingsProps {
+    entries: CalendarEntry[];
+    canEdit: boolean;
+    /** Saves a new entry (without an id) or a change to an existing one. */
+    onSave: (entry: CalendarEntry | NewCalendarEntry) => void;
+    onDelete: (entryId: number) => void;
+    onImport: (entries: NewCalendarEntry[], fileName: string) => void;
+}
+
+const inputClass = 'px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-orange-500 focus:border-orange-500';
+const addButtonClass = 'px-4 py-2 text-sm font-medium text-white bg-orange-600 border border-transparent rounded-md shadow-sm hover:bg-orange-700';
+const headerCellClass = 'px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider';
+
+// Identifies holidays and leave that are already in the calendar, so importing the same file twice adds nothing.
+const entryKey = (entry: NewCalendarEntry) => {
+    switch (entry.kind) {
+        case 'holiday': return `holiday|${entry.startDate}|${entry.endDate}|${entry.name.toLowerCase()}`;
+        case 'leave': return `leave|${entry.startDate}|${entry.endDate}|${entry.employeeName.toLowerCase()}`;
+        default: return `weeklyOff|${entry.department}`;
+    }
+};
+
+const describeDates = (entry: HolidayEntry | LeaveEntry) => entry.startDate === entry.endDate
+    ? formatDateDDMMMYYYY(entry.startDate)
+    : `${formatDateDDMMMYYYY(entry.startDate)} – ${formatDateDDMMMYYYY(entry.endDate)}`;
+
+const overlapsYear = (entry: HolidayEntry | LeaveEntry, year: string) => entry.startDate <= `${year}-12-31` && entry.endDate >= `${year}-01-01`;
+
+const fromImportRow = (row: Record<CalendarImportKey, string>): NewCalendarEntry => {
+    const endDate = row.endDate && row.endDate > row.startDate ? row.endDate : row.startDate;
+    return row.employeeName
+        ? { kind: 'leave', employeeName: row.employeeName, startDate: row.startDate, endDate, ...(row.name ? { reason: row.name } : {}) }
+        : { kind: 'holiday', name: row.name || 'Holiday', startDate: row.startDate, endDate };
+};
+
+const WeekdayToggles: React.FC<{ weekdays: number[]; disabled: boolean; onChange: (weekdays: number[]) => void }> = ({ weekdays, disabled, onChange }) => (
+    <div className="flex flex-wrap gap-3">
+        {WEEKDAY_NAMES.map((name, day) => (
+            <label key={name} className="flex items-center gap-1.5 text-sm text-slate-700">
+                <input
+                    type="checkbox"
+                    checked={weekdays.includes(day)}
+                    disabled={disabled}
+                    onChange={e => onChange(e.target.checked ? [...weekdays, day].sort() : weekdays.filter(d => d !== day))}
+                    className="h-4 w-4 rounded border-slate-300 text-orange-600 focus:ring-orange-500"
+                />
+                {name.slice(0, 3)}
+            </label>
+        ))}
+    </div>
+);
+
+/** The calendar tab of System Management: weekly off-days, public holidays and employee leave. */
+const WorkCalendarSettings: React.FC<WorkCalendarSettingsProps> = ({ entries, canEdit, onSave, onDelete, onImport }) => {
+    const [year, setYear] = useState(companyToday().slice(0, 4));
+    const [newDepartment, setNewDepartment] = useState('');
+    const [holidayForm, setHolidayForm] = useState({ name: '', startDate: '', endDate: '' });
+    const [leaveForm, setLeaveForm] = useState({ employeeName: '', startDate: '', endDate: '', reason: '' });
+    const [importFile, setImportFile] = useState<File | null>(null);
+    const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const weeklyOff = useMemo(() => entries
+        .filter((e): e is WeeklyOffEntry => e.kind === 'weeklyOff')
+        .sort((a, b) => a.department.localeCompare(b.department)), [entries]);
+    const companyWeeklyOff = weeklyOff.find(e => !e.department);
+    const departmentWeeklyOff = weeklyOff.filter(e => e.department);
+
+    const holidays = useMemo(() => entries
+        .filter((e): e is HolidayEntry => e.kind === 'holiday' && overlapsYear(e, year))
+        .sort((a, b) => a.startDate.localeCompare(b.startDate)), [entries, year]);
+    const leave = useMemo(() => entries
+        .filter((e): e is LeaveEntry => e.kind === 'leave' && overlapsYear(e, year))
+        .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.employeeName.localeCompare(b.employeeName)), [entries, year]);
+
+    const years = useMemo(() => {
+        const found = new Set([companyToday().slice(0, 4), year]);
+        entries.forEach(e => { if (e.kind !== 'weeklyOff') found.add(e.startDate.slice(0, 4)); });
+        return [...found].sort().reverse();
+    }, [entries, year]);
+
+    const handleAddDepartment = () => {
+        const department = newDepartment.trim();
+        if (!department) return;
+        if (weeklyOff.some(e => e.department === department)) {
+            setFeedback({ message: `${department} already has its own weekly off-days.`, type: 'error' });
+            return;
+        }
+        onSave({ kind: 'weeklyOff', department, weekdays: companyWeeklyOff?.weekdays ?? [] });
+        setNewDepartment('');
+    };
+
+    const handleAddHoliday = (e: React.FormEvent) => {
+        e.preventDefault();
+        const endDate = holidayForm.endDate || holidayForm.startDate;
+        if (endDate < holidayForm.startDate) {
+            setFeedback({ message: 'The end date cannot be before the start date.', type: 'error' });
+            return;
+        }
+        onSave({ kind: 'holiday', name: holidayForm.name.trim(), startDate: holidayForm.startDate, endDate });
+        setHolidayForm({ name: '', startDate: '', endDate: '' });
+    };
+
+    const handleAddLeave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const endDate = leaveForm.endDate || leaveForm.startDate;
+        if (endDate < leaveForm.startDate) {
+            setFeedback({ message: 'The end date cannot be before the start date.', type: 'error' });
+            return;
+        }
+        const reason = leaveForm.reason.trim();
+        onSave({ kind: 'leave', employeeName: leaveForm.employeeName.trim(), startDate: leaveForm.startDate, endDate, ...(reason ? { reason } : {}) });
+        setLeaveForm({ employeeName: '', startDate: '', endDate: '', reason: '' });
+    };
+
+    const handleDelete = (entry: HolidayEntry | LeaveEntry | WeeklyOffEntry, description: string) => {
+        if (!window.confirm(`Delete ${description}?`)) return;
+        onDelete(entry.id);
+    };
+
+    const importEntries = (imported: NewCalendarEntry[], fileName: string) => {
+        const existing = new Set(entries.map(entryKey));
+        const added = imported.filter(entry => {
+            const key = entryKey(entry);
+            if (existing.has(key)) return false;
+            existing.add(key);
+            return true;
+        });
+        if (added.length > 0) onImport(added, fileName);
+        const skipped = imported.length - added.length;
+        setFeedback({
+            message: `Imported ${added.length} calendar entries${skipped > 0 ? `; ${skipped} were already in the calendar` : ''}.`,
+            type: added.length > 0 ? 'success' : 'info',
+        });
+    };
+
+    const handleFileChosen = async (file: File | undefined) => {
+        if (!file) return;
+        if (!file.name.toLowerCase().endsWith('.ics')) {
+            setImportFile(file);
+            return;
+        }
+        try {
+            const imported = parseICalendarHolidays(await file.text());
+            if (imported.length === 0) {
+                setFeedback({ message: 'The file has no events to import.', type: 'error' });
+                return;
+            }
+            if (!window.confirm(`Import ${imported.length} events from ${file.name} as holidays?`)) return;
+            importEntries(imported, file.name);
+        } catch {
+            setFeedback({ message: 'Could not read the file.', type: 'error' });
+        }
+    };
+
+    return (
+        <div className="fade-in space-y-8">
+            <ImportWizard
+                file={importFile}
+                title="Import Holidays and Leave"
+                fields={CALENDAR_IMPORT_FIELDS}
+                onImport={(rows, fileName) => importEntries(rows.map(fromImportRow), fileName)}
+                onClose={() => setImportFile(null)}
+            />
+            {feedback && <FeedbackMessage message={feedback.message} type={feedback.type} onDismiss={() => setFeedback(null)} />}
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <p className="text-sm text-slate-600 max-w-2xl">
+                    The Department Summary, Duty Analysis and SSV Duty Analysis reports count working days from this calendar, and the visit summary marks holidays and leave instead of listing them as days without visits.
+                </p>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        Year
+                        <select value={year} onChange={e => setYear(e.target.value)} className={inputClass}>
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                    </label>
+                    {canEdit && (
+                        <>
+                            <input type="file" ref={fileInputRef} onChange={e => { handleFileChosen(e.target.files?.[0]); e.target.value = ''; }} className="sr-only" accept=".ics,.csv,.xlsx,.xls" />
+                            <button type="button" onClick={() => fileInputRef.current?.click()} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50" title="An iCalendar (.ics) file of holidays, or a CSV/Excel sheet of holidays and leave">Import</button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Weekly off-days */}
+            <section className="space-y-3">
+                <h3 className="text-lg font-semibold text-slate-800">Weekly Off-Days</h3>
+                <div className="border rounded-lg divide-y divide-slate-200">
+                    <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-4">
+                        <span className="text-sm font-medium text-slate-900 w-48">All departments</span>
+                        <WeekdayToggles
+                            weekdays={companyWeeklyOff?.weekdays ?? []}
+                            disabled={!canEdit}
+                            onChange={weekdays => onSave(companyWeeklyOff ? { ...companyWeeklyOff, weekdays } : { kind: 'weeklyOff', department: '', weekdays })}
+                        />
+                        <span className="w-16" />
+                    </div>
+                    {departmentWeeklyOff.map(entry => (
+                        <div key={entry.id} className="flex flex-wrap items-center justify-between gap-4 px-6 py-4">
+                            <span className="text-sm font-medium text-slate-900 w-48">{entry.department}</span>
+                            <WeekdayToggles weekdays={entry.weekdays} disabled={!canEdit} onChange={weekdays => onSave({ ...entry, weekdays })} />
+                            <span className="w-16 text-right">
+                                {canEdit && <button onClick={() => handleDelete(entry, `the weekly off-days of ${entry.department}`)} className="text-sm font-medium text-red-600 hover:text-red-900">Delete</button>}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+                {canEdit && (
+                    <div className="flex flex-wrap items-center gap-3">
+                        <input value={newDepartment} onChange={e => setNewDepartment(e.target.value)} placeholder="Department, as written in the visit records" className={`${inputClass} w-80`} />
+                        <button type="button" onClick={handleAddDepartment} disabled={!newDepartment.trim()} className={`${addButtonClass} disabled:bg-slate-400`}>Add Department</button>
+                    </div>
+                )}
+            </section>
+
+            {/* Holidays */}
+            <section className="space-y-3">
+                <h3 className="text-lg font-semibold text-slate-800">Holidays ({holidays.length})</h3>
+                {canEdit && (
+                    <form onSubmit={handleAddHoliday} className="flex flex-wrap items-center gap-3">
+                        <input value={holidayForm.name} onChange={e => setHolidayForm(prev => ({ ...prev, name: e.target.value }))} placeholder="Name, e.g. Independence Day" className={`${inputClass} w-72`} required />
+                        <input type="date" value={holidayForm.startDate} onChange={e => setHolidayForm(prev => ({ ...prev, startDate: e.target.value }))} className={inputClass} aria-label="First day" required />
+                        <input type="date" value={holidayForm.endDate} onChange={e => setHolidayForm(prev => ({ ...prev, endDate: e.target.value }))} className={inputClass} aria-label="Last day (optional)" />
+                        <button type="submit" className={addButtonClass}>Add Holiday</button>
+                    </form>
+                )}
+                <div className="overflow-x-auto border rounded-lg">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th scope="col" className={headerCellClass}>Holiday</th>
+                                <th scope="col" className={headerCellClass}>Dates</th>
+                                {canEdit && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {holidays.map(holiday => (
+                                <tr key={holiday.id}>
+                                    <td className="px-6 py-4 text-sm font-medium text-slate-900">{holiday.name}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{describeDates(holiday)}</td>
+                                    {canEdit && (
+                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                            <button onClick={() => handleDelete(holiday, holiday.name)} className="text-red-600 hover:text-red-900">Delete</button>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                            {holidays.length === 0 && (
+                                <tr><td colSpan={canEdit ? 3 : 2} className="px-6 py-8 text-center text-sm text-slate-500">No holidays in {year}.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+
+            {/* Leave */}
+            <section className="space-y-3">
+                <h3 className="text-lg font-semibold text-slate-800">Leave ({leave.length})</h3>
+                {canEdit && (
+                    <form onSubmit={handleAddLeave} className="flex flex-wrap items-center gap-3">
+                        <input value={leaveForm.employeeName} onChange={e => setLeaveForm(prev => ({ ...prev, employeeName: e.target.value }))} placeholder="Employee, as written in the visit records" className={`${inputClass} w-72`} required />
+                        <input type="date" value={leaveForm.startDate} onChange={e => setLeaveForm(prev => ({ ...prev, startDate: e.target.value }))} className={inputClass} aria-label="First day" required />
+                        <input type="date" value={leaveForm.endDate} onChange={e => setLeaveForm(prev => ({ ...prev, endDate: e.target.value }))} className={inputClass} aria-label="Last day (optional)" />
+                        <input value={leaveForm.reason} onChange={e => setLeaveForm(prev => ({ ...prev, reason: e.target.value }))} placeholder="Reason (optional)" className={`${inputClass} w-56`} />
+                        <button type="submit" className={addButtonClass}>Add Leave</button>
+                    </form>
+                )}
+                <div className="overflow-x-auto border rounded-lg">
+                    <table className="min-w-full divide-y divide-slate-200">
+                        <thead className="bg-slate-50">
+                            <tr>
+                                <th scope="col" className={headerCellClass}>Employee</th>
+                                <th scope="col" className={headerCellClass}>Dates</th>
+                                <th scope="col" className={headerCellClass}>Reason</th>
+                                {canEdit && <th scope="col" className="relative px-6 py-3"><span className="sr-only">Actions</span></th>}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-200">
+                            {leave.map(entry => (
+                                <tr key={entry.id}>
+                                    <td className="px-6 py-4 text-sm font-medium text-slate-900">{entry.employeeName}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">{describeDates(entry)}</td>
+                                    <td className="px-6 py-4 text-sm text-slate-500">{entry.reason ?? ''}</td>
+                                    {canEdit && (
+                                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                            <button onClick={() => handleDelete(entry, `the leave of ${entry.employeeName} (${describeDates(entry)})`)} className="text-red-600 hover:text-red-900">Delete</button>
+                                        </td>
+                                    )}
+                                </tr>
+                            ))}
+                            {leave.length === 0 && (
+                                <tr><td colSpan={canEdit ? 4 : 3} className="px-6 py-8 text-center text-sm text-slate-500">No leave in {year}.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        </div>
+    );
+};
+
+export default WorkCalendarSettings;
@@ -1,3 +1,4 @@
+import { ProjectStatus } from './types';
 
 export const ZONES = [
   'Dhanmondi',
@@ -42,76 +43,41 @@ export const DESIGNATIONS = [
   'Manager',
   'Executive',
   'AGM',
-  'AGM',
-  'AGM',
   'D.M',
   'Asst. Manager [for construction]',
   'Sr. Manager',
-  'Manager',
   'Asst. Manager',
-  'Executive',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
-  'Security Supervisor',
   'Security Supervisor',
   'Security Supervisor [For HR & Admin (Security)]',
-  'AGM',
   'Senior Executive',
-  'Executive',
   'Junior Executive',
   'Electrician',
-  'Electrician',
-  'Electrician',
   'Electrician [for Electro-Mechanical]',
-  'Senior Executive',
-  'IT Technician',
   'IT Technician',
   '[for Information technology]',
   'Deputy Manager',
-  'Asst. Manager',
-  'Asst. Manager',
-  'Asst. Manager',
-  'Senior Executive',
-  'Sr. Executive',
   'Sr. Executive',
   'Site Accountant (CH)',
   'Assistant Project Accountant (CH)',
-  'Assistant Project Accountant (CH)',
-  'Assistant Project Accountant (CH)',
-  'Assistant Project Accountant (CH)',
-  'Assistant Project Accountant (CH)',
-  'Assistant Project Accountant (CH)',
   'Assistant Project Accountant (CH) [for Inventory Mgt.]',
   'Head of Procurement',
   'Assistant Manager',
-  'Manager',
-  'Senior Executive',
-  'Senior Executive',
-  'Executive',
-  'Executive',
-  'Executive',
-  'Junior Executive',
-  'Junior Executive',
   'Junior Executive [for Material Quality Assurance & Purchase]',
   'Associate Architect',
   'Senior Assistant Architect',
   'Assistant Architect',
   'Junior Architect',
-  'Junior Architect',
-  'Junior Architect',
-  'Junior Architect',
-  'Junior Architect',
-  'Junior Architect',
   'Junior Architect [for Planning & Design (Architectural)]',
-  'Manager',
-  'Asst. Manager',
   'Sr. Executive [Quality Assurance]',
 ];
+
+export const PROJECT_PHASES = [
+  'Planning',
+  'Piling',
+  'Foundation',
+  'Structure',
+  'Finishing',
+  'Handover',
+];
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['Active', 'On Hold', 'Completed'];
@@ -1,58 +0,0 @@
-import { Project } from '../types';
-
-export const initialProjects: Project[] = [
-  { id: 1, name: 'Lake Lofts', zone: 'Dhanmondi', address: '123 Lake Road, Dhanmondi, Dhaka' },
-  { id: 2, name: 'Gladiolus', zone: 'Banani', address: '456 Flower Ave, Banani, Dhaka' },
-  { id: 3, name: 'Platinum', zone: 'Dhanmondi', address: '789 Platinum Street, Dhanmondi, Dhaka' },
-  { id: 4, name: 'Jardin Palacia', zone: 'Mohammadpur', address: '101 Garden Road, Mohammadpur, Dhaka' },
-  { id: 5, name: 'Kakoli', zone: 'Banani', address: '21B Kakoli, Banani, Dhaka' },
-  { id: 6, name: 'Sahera Khatun', zone: 'Mohammadpur', address: '33 Sahera Khatun Lane, Mohammadpur' },
-  { id: 7, name: 'Kolatia', zone: 'Kalatia', address: '5 Kolatia Main Road, Kalatia' },
-  { id: 8, name: 'Ark-ology', zone: 'Lalmatia', address: '7 Ark-ology Building, Lalmatia' },
-  { id: 9, name: 'Simeen Court', zone: 'Lalmatia', address: '9 Simeen Court, Lalmatia' },
-  { id: 10, name: 'Hazratpur', zone: 'Bosila', address: '11 Hazratpur, Bosila' },
-  { id: 11, name: 'Ratan Kutir', zone: 'Mohammadpur', address: '13 Ratan Kutir, Mohammadpur' },
-  { id: 12, name: 'Helena Sparta', zone: 'Banani', address: '15 Helena Sparta Complex, Banani' },
-  { id: 13, name: 'Zaid Zodiac', zone: 'Banani', address: '17 Zaid Zodiac Tower, Banani' },
-  { id: 14, name: 'Bella Vista', zone: 'Dhanmondi', address: '19 Bella Vista, Dhanmondi' },
-  { id: 15, name: '23/660 Dhanmondi-32', zone: 'Dhanmondi', address: '23/660 Road 32, Dhanmondi' },
-  { id: 16, name: 'Oleander', zone: 'Dhanmondi', address: '25 Oleander Street, Dhanmondi' },
-  { id: 17, name: 'Shantir Neer', zone: 'Kalabagan', address: '27 Shantir Neer, Kalabagan' },
-  { id: 18, name: 'Paramount Residences', zone: 'Kalabagan', address: '29 Paramount Residences, Kalabagan' },
-  { id: 19, name: 'Dhulikona', zone: 'Kalabagan', address: '31 Dhulikona, Kalabagan' },
-  { id: 20, name: 'Sterling', zone: 'Kalabagan', address: '33 Sterling Apartments, Kalabagan' },
-  { id: 21, name: 'Daisy Garden', zone: 'Kalabagan', address: '35 Daisy Garden, Kalabagan' },
-  { id: 22, name: 'Rosewood', zone: 'Kalabagan', address: '37 Rosewood, Kalabagan' },
-  { id: 23, name: 'Park Snowflake', zone: 'Kalabagan', address: '39 Park Snowflake, Kalabagan' },
-  { id: 24, name: 'Carnation', zone: 'Lalmatia', address: '41 Carnation, Lalmatia' },
-  { id: 25, name: 'Noor Park', zone: 'Lalmatia', address: '43 Noor Park, Lalmatia' },
-  { id: 26, name: 'Moonflower', zone: 'Lalmatia', address: '45 Moonflower, Lalmatia' },
-  { id: 27, name: 'Moon Flower 4 Port', zone: 'Lalmatia', address: '47 Moon Flower 4 Port, Lalmatia' },
-  { id: 28, name: 'Splendora', zone: 'Lalmatia', address: '49 Splendora, Lalmatia' },
-  { id: 29, name: 'Celestial', zone: 'Lalmatia', address: '51 Celestial, Lalmatia' },
-  { id: 30, name: 'Cherry Blossom', zone: 'Lalmatia', address: '53 Cherry Blossom, Lalmatia' },
-  { id: 31, name: '6/5 Salaamun', zone: 'Lalmatia', address: '6/5 Salaamun, Lalmatia' },
-  { id: 32, name: 'Rosali', zone: 'Lalmatia', address: '55 Rosali, Lalmatia' },
-  { id: 33, name: '5/9 Block-C, Lalmatia', zone: 'Lalmatia', address: '5/9 Block-C, Lalmatia' },
-  { id: 34, name: 'Springdale', zone: 'Lalmatia', address: '57 Springdale, Lalmatia' },
-  { id: 35, name: 'Bougainvillea', zone: 'Lalmatia', address: '59 Bougainvillea, Lalmatia' },
-  { id: 36, name: 'Forum Glory 3/11', zone: 'Lalmatia', address: '3/11 Forum Glory, Lalmatia' },
-  { id: 37, name: 'Hasnahena', zone: 'Mohammadpur', address: '61 Hasnahena, Mohammadpur' },
-  { id: 38, name: 'Golden Guinea', zone: 'Mohammadpur', address: '63 Golden Guinea, Mohammadpur' },
-  { id: 39, name: 'Crown Park', zone: 'Mohammadpur', address: '65 Crown Park, Mohammadpur' },
-  { id: 40, name: '3/3 Park Jovial', zone: 'Mohammadpur', address: '3/3 Park Jovial, Mohammadpur' },
-  { id: 41, name: 'Tubaneer', zone: 'Mohammadpur', address: '67 Tubaneer, Mohammadpur' },
-  { id: 42, name: 'Roman Legacy', zone: 'Mohammadpur', address: '69 Roman Legacy, Mohammadpur' },
-  { id: 43, name: 'Park Splendour', zone: 'Mohammadpur', address: '71 Park Splendour, Mohammadpur' },
-  { id: 44, name: 'Oshan', zone: 'Mohammadpur', address: '73 Oshan, Mohammadpur' },
-  { id: 45, name: 'Castle Onamika', zone: 'Mohammadpur', address: '75 Castle Onamika, Mohammadpur' },
-  { id: 46, name: 'Park Riviera', zone: 'Mohammadpur', address: '77 Park Riviera, Mohammadpur' },
-  { id: 47, name: 'Park Periwinkle', zone: 'Mohammadpur', address: '79 Park Periwinkle, Mohammadpur' },
-  { id: 48, name: 'Sojourn', zone: 'Uttara', address: '81 Sojourn, Uttara' },
-  { id: 49, name: 'Crowning Glory', zone: 'Uttara', address: '83 Crowning Glory, Uttara' },
-  { id: 50, name: 'AK Paradise', zone: 'Uttara', address: '85 AK Paradise, Uttara' },
-  { id: 51, name: 'Pristine', zone: 'Uttara', address: '87 Pristine, Uttara' },
-  { id: 52, name: 'Mande Villa Laxa', zone: 'Uttara', address: '89 Mande Villa Laxa, Uttara' },
-  { id: 53, name: 'Vintage Vista', zone: 'Uttara', address: '91 Vintage Vista, Uttara' },
-  { id: 54, name: 'RK Mission Road', zone: 'Uttara', address: '93 RK Mission Road, Uttara' },
-].sort((a,b) => a.name.localeCompare(b.name));
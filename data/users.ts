@@ -8,14 +8,14 @@ export const initialUsers: User[] = [
     employeeId: '240121009',
     designation: 'Surveillance Officer',
     department: 'Management Information System (MIS)',
-    password: 'password123',
     role: 'admin',
     permissions: {
       dashboard: { view: true },
       projectVisit: { view: true, edit: true },
+      visitReports: { view: true },
       lastVisitedProjects: { view: true },
       projectCase: { view: true, edit: true },
-      projectCasesList: { view: true },
+      projectCasesList: { view: true, edit: true },
       profile: { view: true, edit: true },
       adminPanel: { view: true },
       materialReceive: { view: true, edit: true },
@@ -23,6 +23,10 @@ export const initialUsers: User[] = [
       systemManagement_addProject: { view: true, edit: true },
       systemManagement_projectList: { view: true, edit: true },
       systemManagement_dashboardSettings: { view: true, edit: true },
+      systemManagement_dutyPolicies: { view: true, edit: true },
+      systemManagement_calendar: { view: true, edit: true },
+      systemManagement_employees: { view: true, edit: true },
+      systemManagement_aiTriage: { view: true, edit: true },
       employeeProjectVisit: { view: true, edit: true },
       sealPersonProjectVisit: { view: true, edit: true },
       itResponseTimeline: { view: true, edit: true },
@@ -30,6 +34,7 @@ export const initialUsers: User[] = [
       constructionDutyAnalysis: { view: true, edit: true },
       monthlyComparisonPrecision: { view: true, edit: true },
       ssvDutyAnalysis: { view: true, edit: true },
+      reports: { view: true, edit: true },
     },
   },
   {
@@ -39,14 +44,14 @@ export const initialUsers: User[] = [
     employeeId: 'EMP-007',
     designation: 'Assistant Manager',
     department: 'Construction',
-    password: 'password123',
     role: 'user',
     permissions: {
       dashboard: { view: true },
       projectVisit: { view: true, edit: true },
+      visitReports: { view: true },
       lastVisitedProjects: { view: true },
       projectCase: { view: true, edit: false }, // Cannot edit project cases
-      projectCasesList: { view: true },
+      projectCasesList: { view: true, edit: false },
       profile: { view: true, edit: true },
       adminPanel: { view: false }, // Cannot see admin panel
       materialReceive: { view: true, edit: true },
@@ -54,6 +59,10 @@ export const initialUsers: User[] = [
       systemManagement_addProject: { view: false, edit: false },
       systemManagement_projectList: { view: false, edit: false },
       systemManagement_dashboardSettings: { view: false, edit: false },
+      systemManagement_dutyPolicies: { view: false, edit: false },
+      systemManagement_calendar: { view: false, edit: false },
+      systemManagement_employees: { view: false, edit: false },
+      systemManagement_aiTriage: { view: false, edit: false },
       employeeProjectVisit: { view: false, edit: false }, // Restricted access
       sealPersonProjectVisit: { view: false, edit: false }, // Restricted access
       itResponseTimeline: { view: false, edit: false },
@@ -61,6 +70,7 @@ export const initialUsers: User[] = [
       constructionDutyAnalysis: { view: true, edit: true },
       monthlyComparisonPrecision: { view: false, edit: false },
       ssvDutyAnalysis: { view: false, edit: false },
+      reports: { view: false, edit: false },
     },
   },
   {
@@ -70,14 +80,14 @@ export const initialUsers: User[] = [
     employeeId: 'EMP-008',
     designation: 'Executive',
     department: 'Quality Assurance',
-    password: 'password123',
     role: 'user',
     permissions: {
       dashboard: { view: true },
-      projectVisit: { view: true, edit: false }, // Cannot edit visit reports
+      projectVisit: { view: true, edit: false },
+      visitReports: { view: true }, // Cannot edit visit reports
       lastVisitedProjects: { view: true },
       projectCase: { view: false, edit: false }, // Cannot view or edit cases
-      projectCasesList: { view: false },
+      projectCasesList: { view: false, edit: false },
       profile: { view: true, edit: false }, // Cannot edit own profile
       adminPanel: { view: false },
       materialReceive: { view: false, edit: false },
@@ -85,6 +95,10 @@ export const initialUsers: User[] = [
       systemManagement_addProject: { view: false, edit: false },
       systemManagement_projectList: { view: false, edit: false },
       systemManagement_dashboardSettings: { view: false, edit: false },
+      systemManagement_dutyPolicies: { view: false, edit: false },
+      systemManagement_calendar: { view: false, edit: false },
+      systemManagement_employees: { view: false, edit: false },
+      systemManagement_aiTriage: { view: false, edit: false },
       employeeProjectVisit: { view: false, edit: false },
       sealPersonProjectVisit: { view: false, edit: false },
       itResponseTimeline: { view: false, edit: false },
@@ -92,6 +106,7 @@ export const initialUsers: User[] = [
       constructionDutyAnalysis: { view: false, edit: false },
       monthlyComparisonPrecision: { view: false, edit: false },
       ssvDutyAnalysis: { view: false, edit: false },
+      reports: { view: false, edit: false },
     },
   },
   {
@@ -101,14 +116,14 @@ export const initialUsers: User[] = [
     employeeId: 'EMP-009',
     designation: 'Director',
     department: 'Construction',
-    password: 'password123',
     role: 'user',
     permissions: {
       dashboard: { view: true },
       projectVisit: { view: true, edit: true },
+      visitReports: { view: true },
       lastVisitedProjects: { view: true },
       projectCase: { view: true, edit: false },
-      projectCasesList: { view: true },
+      projectCasesList: { view: true, edit: false },
       profile: { view: true, edit: true },
       adminPanel: { view: false },
       materialReceive: { view: true, edit: true },
@@ -116,6 +131,10 @@ export const initialUsers: User[] = [
       systemManagement_addProject: { view: false, edit: false },
       systemManagement_projectList: { view: false, edit: false },
       systemManagement_dashboardSettings: { view: false, edit: false },
+      systemManagement_dutyPolicies: { view: false, edit: false },
+      systemManagement_calendar: { view: false, edit: false },
+      systemManagement_employees: { view: false, edit: false },
+      systemManagement_aiTriage: { view: false, edit: false },
       employeeProjectVisit: { view: false, edit: false },
       sealPersonProjectVisit: { view: false, edit: false },
       itResponseTimeline: { view: false, edit: false },
@@ -123,6 +142,7 @@ export const initialUsers: User[] = [
       constructionDutyAnalysis: { view: true, edit: true },
       monthlyComparisonPrecision: { view: false, edit: false },
       ssvDutyAnalysis: { view: false, edit: false },
+      reports: { view: false, edit: false },
     },
   },
   {
@@ -132,14 +152,14 @@ export const initialUsers: User[] = [
     employeeId: 'EMP-010',
     designation: 'Assistant General Manager (AGM)',
     department: 'Construction',
-    password: 'password123',
     role: 'user',
     permissions: {
       dashboard: { view: true },
       projectVisit: { view: true, edit: true },
+      visitReports: { view: true },
       lastVisitedProjects: { view: true },
       projectCase: { view: true, edit: false },
-      projectCasesList: { view: true },
+      projectCasesList: { view: true, edit: false },
       profile: { view: true, edit: true },
       adminPanel: { view: false },
       materialReceive: { view: true, edit: true },
@@ -147,6 +167,10 @@ export const initialUsers: User[] = [
       systemManagement_addProject: { view: false, edit: false },
       systemManagement_projectList: { view: false, edit: false },
       systemManagement_dashboardSettings: { view: false, edit: false },
+      systemManagement_dutyPolicies: { view: false, edit: false },
+      systemManagement_calendar: { view: false, edit: false },
+      systemManagement_employees: { view: false, edit: false },
+      systemManagement_aiTriage: { view: false, edit: false },
       employeeProjectVisit: { view: false, edit: false },
       sealPersonProjectVisit: { view: false, edit: false },
       itResponseTimeline: { view: false, edit: false },
@@ -154,6 +178,7 @@ export const initialUsers: User[] = [
       constructionDutyAnalysis: { view: true, edit: true },
       monthlyComparisonPrecision: { view: false, edit: false },
       ssvDutyAnalysis: { view: false, edit: false },
+      reports: { view: false, edit: false },
     },
   },
   {
@@ -163,14 +188,14 @@ export const initialUsers: User[] = [
     employeeId: 'EMP-011',
     designation: 'Deputy Manager',
     department: 'Construction',
-    password: 'password123',
     role: 'user',
     permissions: {
       dashboard: { view: true },
       projectVisit: { view: true, edit: true },
+      visitReports: { view: true },
       lastVisitedProjects: { view: true },
       projectCase: { view: true, edit: false },
-      projectCasesList: { view: true },
+      projectCasesList: { view: true, edit: false },
       profile: { view: true, edit: true },
       adminPanel: { view: false },
       materialReceive: { view: true, edit: true },
@@ -178,6 +203,10 @@ export const initialUsers: User[] = [
       systemManagement_addProject: { view: false, edit: false },
       systemManagement_projectList: { view: false, edit: false },
       systemManagement_dashboardSettings: { view: false, edit: false },
+      systemManagement_dutyPolicies: { view: false, edit: false },
+      systemManagement_calendar: { view: false, edit: false },
+      systemManagement_employees: { view: false, edit: false },
+      systemManagement_aiTriage: { view: false, edit: false },
       employeeProjectVisit: { view: false, edit: false },
       sealPersonProjectVisit: { view: false, edit: false },
       itResponseTimeline: { view: false, edit: false },
@@ -185,6 +214,7 @@ export const initialUsers: User[] = [
       constructionDutyAnalysis: { view: true, edit: true },
       monthlyComparisonPrecision: { view: false, edit: false },
       ssvDutyAnalysis: { view: false, edit: false },
+      reports: { view: false, edit: false },
     },
   },
 ];
\ No newline at end of file
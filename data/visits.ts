@@ -1,3 +0,0 @@
-import { EmployeeVisit } from '../types';
-
-export const initialVisits: EmployeeVisit[] = [];
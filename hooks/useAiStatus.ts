@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { AiStatus } from '../types';
+import { getAiStatus } from '../services/aiService';
+
+// The backend's AI configuration only changes when it restarts, so it's asked once per page load.
+let statusRequest: Promise<AiStatus> | null = null;
+
+/**
+ * Which AI the backend uses (see server/aiProviders.js).
+ * @returns The status, or null until it's known or when the backend can't be reached; treat null as AI being on.
+ */
+export const useAiStatus = (): AiStatus | null => {
+    const [status, setStatus] = useState<AiStatus | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        statusRequest ??= getAiStatus();
+        statusRequest
+            .then(result => { if (!cancelled) setStatus(result); })
+            .catch(err => {
+                // Ask again next time, e.g. once back online.
+                statusRequest = null;
+                console.warn('Could not load the AI status:', err);
+            });
+        return () => { cancelled = true; };
+    }, []);
+
+    return status;
+};
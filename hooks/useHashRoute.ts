@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { View } from '../types';
+import { Route, parseHash, buildHash } from '../utils/routing';
+
+export interface NavigateOptions {
+    // Carry the current query parameters (the page's filters) over, e.g. when switching tabs.
+    keepParams?: boolean;
+    // Replace the current history entry instead of adding one.
+    replace?: boolean;
+}
+
+/**
+ * The route in the URL hash (see utils/routing.ts), kept in step with back/forward navigation.
+ * @returns The current route and a function that navigates to a view and tab.
+ */
+export const useHashRoute = (): [Route, (view: View, tab?: string | null, options?: NavigateOptions) => void] => {
+    const [route, setRoute] = useState<Route>(() => parseHash(window.location.hash));
+
+    useEffect(() => {
+        const handleHashChange = () => setRoute(parseHash(window.location.hash));
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    const navigate = useCallback((view: View, tab: string | null = null, { keepParams = false, replace = false }: NavigateOptions = {}) => {
+        const hash = buildHash(view, tab, keepParams ? parseHash(window.location.hash).params : undefined);
+        if (hash === window.location.hash) return;
+        if (replace) {
+            window.history.replaceState(window.history.state, '', hash);
+            setRoute(parseHash(hash));
+        } else {
+            // Fires `hashchange`, which updates the route.
+            window.location.hash = hash;
+        }
+    }, []);
+
+    return [route, navigate];
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { OutboxEntry, OutboxKind, listOutboxEntries, subscribeToOutbox } from '../services/outbox';
+
+/**
+ * A user's outbox entries of one kind, newest first, kept up to date as they sync.
+ * @returns The entries and whether the browser is currently online.
+ */
+export const useOutbox = <K extends OutboxKind>(kind: K, userId: number): { entries: OutboxEntry<K>[]; isOnline: boolean } => {
+    const [entries, setEntries] = useState<OutboxEntry<K>[]>([]);
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = () => {
+            listOutboxEntries(userId)
+                .then(all => {
+                    if (cancelled) return;
+                    setEntries((all.filter(e => e.kind === kind) as OutboxEntry<K>[])
+                        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+                })
+                .catch(err => console.error('Failed to read the outbox:', err));
+        };
+        load();
+        const unsubscribe = subscribeToOutbox(load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [kind, userId]);
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return { entries, isOnline };
+};
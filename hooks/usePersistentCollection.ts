@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Repository, RecordId } from '../services/repository';
+
+export type PersistenceStatus = 'loading' | 'ready' | 'unavailable';
+
+/**
+ * Works like `useState` for a list of records, but loads the list from a repository on mount
+ * and writes every later change through to it. Only records whose object identity changed are
+ * written, so updates must be immutable (as they already are everywhere in the app).
+ * @param repository The repository backing this collection.
+ * @param seed Records to store the first time the repository is used.
+ * @returns The records, a setter with the same contract as `useState`'s, and the persistence status.
+ */
+export const usePersistentCollection = <T extends { id: RecordId }>(
+    repository: Repository<T>,
+    seed: T[]
+): [T[], React.Dispatch<React.SetStateAction<T[]>>, PersistenceStatus] => {
+    const [records, setRecords] = useState<T[]>([]);
+    const [status, setStatus] = useState<PersistenceStatus>('loading');
+    // The list as last written to (or read from) storage, used to compute the next diff.
+    const persistedRef = useRef<T[] | null>(null);
+    const seedRef = useRef(seed);
+
+    useEffect(() => {
+        let isCancelled = false;
+        repository.hydrate(seedRef.current)
+            .then(stored => {
+                if (isCancelled) return;
+                persistedRef.current = stored;
+                setRecords(stored);
+                setStatus('ready');
+            })
+            .catch(err => {
+                if (isCancelled) return;
+                console.error(`Could not load "${repository.storeName}" from storage; changes will not be saved.`, err);
+                setRecords(seedRef.current);
+                setStatus('unavailable');
+            });
+        return () => { isCancelled = true; };
+    }, [repository]);
+
+    useEffect(() => {
+        if (status !== 'ready') return;
+        const previous = persistedRef.current;
+        if (previous === records) return;
+        persistedRef.current = records;
+
+        const previousById = new Map<RecordId, T>((previous ?? []).map(r => [r.id, r]));
+        const nextIds = new Set<RecordId>(records.map(r => r.id));
+        const upserts = records.filter(r => previousById.get(r.id) !== r);
+        const deletedIds = [...previousById.keys()].filter(id => !nextIds.has(id));
+
+        repository.applyChanges(upserts, deletedIds).catch(err => {
+            console.error(`Failed to save changes to "${repository.storeName}".`, err);
+        });
+    }, [records, status, repository]);
+
+    return [records, setRecords, status];
+};
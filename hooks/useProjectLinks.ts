@@ -0,0 +1,18 @@
+import React, { useEffect } from 'react';
+import { ProjectIndex, ProjectLinked, linkRecordsToProjects } from '../utils/projects';
+
+/**
+ * Keeps a record collection linked to the project list (see utils/projects.ts): new and imported records
+ * get their project id, and renamed projects are renamed in their records.
+ */
+export const useProjectLinks = <T extends ProjectLinked>(
+    records: T[],
+    setRecords: React.Dispatch<React.SetStateAction<T[]>>,
+    projectIndex: ProjectIndex
+) => {
+    useEffect(() => {
+        if (linkRecordsToProjects(records, projectIndex) !== records) {
+            setRecords(prev => linkRecordsToProjects(prev, projectIndex));
+        }
+    }, [records, setRecords, projectIndex]);
+};
@@ -0,0 +1,83 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Project } from '../types';
+import { ProjectIndex, createProjectIndex, normalizeProjectName, suggestProjects } from '../utils/projects';
+import ProjectReconciliationModal, { UnknownProjectName } from '../components/ProjectReconciliationModal';
+
+export interface ProjectAlias {
+    projectId: number;
+    alias: string;
+}
+
+/** Turns a project name from an import into the name to store: the matched project's name, or the name as written. */
+export type ProjectNameResolver = (name: string) => string;
+
+const createResolver = (index: ProjectIndex, chosen: Map<string, Project>): ProjectNameResolver => name =>
+    (index.byName(name) ?? chosen.get(normalizeProjectName(name)))?.name ?? name;
+
+interface PendingReconciliation {
+    unknownNames: UnknownProjectName[];
+    resolve: (resolver: ProjectNameResolver | null) => void;
+}
+
+/**
+ * Lets CSV importers check project names against the project list before saving. Names that match a
+ * project (or one of its aliases) are taken as that project; for the rest, the user is asked which
+ * project they mean, with the closest names suggested.
+ *
+ * Render `reconciliationModal` somewhere in the importing component.
+ */
+export const useProjectReconciliation = (projects: Project[], onAddProjectAliases?: (aliases: ProjectAlias[]) => void) => {
+    const [pending, setPending] = useState<PendingReconciliation | null>(null);
+    const projectIndex = useMemo(() => createProjectIndex(projects), [projects]);
+
+    /**
+     * @param names The project name of every imported row, duplicates included (they give the row counts).
+     * @returns How to rename each row's project, or null if the user cancelled the import.
+     */
+    const reconcileProjectNames = useCallback((names: string[]): Promise<ProjectNameResolver | null> => {
+        const unknown = new Map<string, UnknownProjectName>();
+        names.forEach(name => {
+            const key = normalizeProjectName(name);
+            if (!key || projectIndex.byName(name)) return;
+            const entry = unknown.get(key);
+            if (entry) entry.rowCount++;
+            else unknown.set(key, { name: name.trim(), rowCount: 1, suggestions: [] });
+        });
+
+        if (unknown.size === 0) return Promise.resolve(createResolver(projectIndex, new Map()));
+
+        const unknownNames = [...unknown.values()].map(entry => ({ ...entry, suggestions: suggestProjects(entry.name, projects) }));
+        return new Promise(resolve => setPending({ unknownNames, resolve }));
+    }, [projects, projectIndex]);
+
+    const handleConfirm = (mapping: Map<string, number>, rememberAliases: boolean) => {
+        if (!pending) return;
+        const chosen = new Map<string, Project>();
+        mapping.forEach((projectId, name) => {
+            const project = projectIndex.byId(projectId);
+            if (project) chosen.set(normalizeProjectName(name), project);
+        });
+        if (rememberAliases && chosen.size > 0 && onAddProjectAliases) {
+            onAddProjectAliases([...mapping].map(([alias, projectId]) => ({ projectId, alias })));
+        }
+        pending.resolve(createResolver(projectIndex, chosen));
+        setPending(null);
+    };
+
+    const handleCancel = () => {
+        pending?.resolve(null);
+        setPending(null);
+    };
+
+    const reconciliationModal = (
+        <ProjectReconciliationModal
+            isOpen={!!pending}
+            unknownNames={pending?.unknownNames ?? []}
+            projects={projects}
+            onConfirm={handleConfirm}
+            onCancel={handleCancel}
+        />
+    );
+
+    return { reconcileProjectNames, reconciliationModal };
+};
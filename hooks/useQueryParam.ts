@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { parseHash, buildHash } from '../utils/routing';
+
+/**
+ * Works like `useState` for a string, but keeps the value in a query parameter of the current route,
+ * so filtered pages can be bookmarked and shared. Changes replace the current history entry rather
+ * than adding one for every keystroke. The default value is left out of the URL.
+ * @param name The query parameter, e.g. "from" or "project".
+ * @param defaultValue The value when the parameter is missing.
+ */
+export const useQueryParam = (name: string, defaultValue = ''): [string, React.Dispatch<React.SetStateAction<string>>] => {
+    const [value, setValue] = useState(() => parseHash(window.location.hash).params.get(name) ?? defaultValue);
+
+    // Back/forward navigation between two versions of the same page.
+    useEffect(() => {
+        const handleHashChange = () => setValue(parseHash(window.location.hash).params.get(name) ?? defaultValue);
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, [name, defaultValue]);
+
+    useEffect(() => {
+        const route = parseHash(window.location.hash);
+        if ((route.params.get(name) ?? defaultValue) === value) return;
+        const params = new URLSearchParams(route.params);
+        if (value === defaultValue) params.delete(name);
+        else params.set(name, value);
+        window.history.replaceState(window.history.state, '', buildHash(route.view, route.tab, params));
+    }, [name, value, defaultValue]);
+
+    return [value, setValue];
+};
@@ -0,0 +1,28 @@
+import React, { useMemo } from 'react';
+
+/**
+ * Narrows a record list to what the current user may see, for components that only get the visible part.
+ * The returned setter applies updates to the visible records and keeps the hidden ones, so clearing or
+ * importing from a scoped view never drops records outside the user's data scope.
+ * @param records The full list.
+ * @param setRecords The setter of the full list.
+ * @param isVisible Whether the current user may see a record.
+ */
+export const useScopedCollection = <T,>(
+    records: T[],
+    setRecords: React.Dispatch<React.SetStateAction<T[]>>,
+    isVisible: (record: T) => boolean
+): [T[], React.Dispatch<React.SetStateAction<T[]>>] => {
+    const visibleRecords = useMemo(() => records.filter(isVisible), [records, isVisible]);
+
+    const setVisibleRecords = useMemo<React.Dispatch<React.SetStateAction<T[]>>>(() => (action) => {
+        setRecords(prev => {
+            const visible = prev.filter(isVisible);
+            const hidden = prev.filter(record => !isVisible(record));
+            const next = typeof action === 'function' ? (action as (prevState: T[]) => T[])(visible) : action;
+            return [...next, ...hidden];
+        });
+    }, [setRecords, isVisible]);
+
+    return [visibleRecords, setVisibleRecords];
+};
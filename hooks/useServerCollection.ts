@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ResourceClient, listAllRecords } from '../services/apiClient';
+import { PersistenceStatus } from './usePersistentCollection';
+
+/**
+ * Works like `usePersistentCollection`, but for records kept on the server: loads the list through a
+ * resource client and sends every later change to it. Records added to the list are created, changed
+ * records (by object identity) are replaced and removed ones are deleted. A change of one record is sent on
+ * its own; a change of several (e.g. an import) is sent as one bulk write, which the server saves entirely or
+ * not at all. Each saved record is swapped for the server's copy, which may differ (e.g. linked to its project).
+ *
+ * When a change is refused, the list is reloaded from the server, so it never shows records that weren't saved.
+ * @param client The resource the records are kept in.
+ * @param userId The signed-in user, or null while no one is signed in or the user can't open the records.
+ *     The list is reloaded whenever it changes, since the server only returns the records the user may see.
+ * @param onSaveFailed Called with the error when a change can't be saved.
+ * @returns The records, a setter with the same contract as `useState`'s, the loading status and a function
+ *     that reloads the list.
+ */
+export const useServerCollection = <T extends { id: string | number }>(
+    client: ResourceClient<T>,
+    userId: number | null,
+    onSaveFailed: (err: unknown) => void
+): [T[], React.Dispatch<React.SetStateAction<T[]>>, PersistenceStatus, () => void] => {
+    const [records, setRecords] = useState<T[]>([]);
+    const [status, setStatus] = useState<PersistenceStatus>('loading');
+    const [loadCount, setLoadCount] = useState(0);
+    // The server's copy of each record, as last loaded, sent or saved, used to compute the next diff.
+    const persistedRef = useRef(new Map<T['id'], T>());
+    const onSaveFailedRef = useRef(onSaveFailed);
+    onSaveFailedRef.current = onSaveFailed;
+
+    const reload = useCallback(() => setLoadCount(count => count + 1), []);
+
+    useEffect(() => {
+        if (userId === null) {
+            persistedRef.current = new Map();
+            setRecords([]);
+            setStatus('unavailable');
+            return;
+        }
+        let isCancelled = false;
+        setStatus('loading');
+        listAllRecords(client)
+            .then(loaded => {
+                if (isCancelled) return;
+                persistedRef.current = new Map(loaded.map(record => [record.id, record]));
+                setRecords(loaded);
+                setStatus('ready');
+            })
+            .catch(err => {
+                if (isCancelled) return;
+                console.error('Could not load records from the server; changes will not be saved.', err);
+                setStatus('unavailable');
+            });
+        return () => { isCancelled = true; };
+    }, [client, userId, loadCount]);
+
+    useEffect(() => {
+        if (status !== 'ready') return;
+        const persisted = persistedRef.current;
+        const nextIds = new Set(records.map(record => record.id));
+        const saves = records.filter(record => persisted.get(record.id) !== record);
+        const deletedIds = [...persisted.keys()].filter(id => !nextIds.has(id));
+        if (saves.length === 0 && deletedIds.length === 0) return;
+
+        const isNew = new Set(saves.filter(record => !persisted.has(record.id)));
+        saves.forEach(record => persisted.set(record.id, record));
+        deletedIds.forEach(id => persisted.delete(id));
+
+        const send = async (): Promise<T[]> => {
+            if (saves.length + deletedIds.length > 1) return (await client.bulkWrite({ save: saves, delete: deletedIds })).saved;
+            if (deletedIds.length === 1) {
+                await client.remove(deletedIds[0]);
+                return [];
+            }
+            const [record] = saves;
+            return [await (isNew.has(record) ? client.create(record) : client.update(record))];
+        };
+        send()
+            .then(saved => {
+                if (persistedRef.current !== persisted) return; // Reloaded meanwhile.
+                const savedById = new Map(saved.map(record => [record.id, record]));
+                saved.forEach(record => persisted.set(record.id, record));
+                const sent = new Set(saves);
+                setRecords(current => current.map(r => (sent.has(r) ? savedById.get(r.id) ?? r : r)));
+            })
+            .catch(err => {
+                onSaveFailedRef.current(err);
+                reload();
+            });
+    }, [records, status, client, reload]);
+
+    return [records, setRecords, status, reload];
+};
@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableLayout {
+    /** Column widths in pixels, by column key. Columns missing here use their default width. */
+    widths: Record<string, number>;
+    /** Keys of the columns the user has hidden. */
+    hidden: string[];
+    sort: { key: string; direction: SortDirection } | null;
+}
+
+const storageKey = (tableId: string) => `tableLayout:${tableId}`;
+
+const readLayout = (tableId: string, defaultLayout: TableLayout): TableLayout => {
+    try {
+        const saved = localStorage.getItem(storageKey(tableId));
+        return saved ? { ...defaultLayout, ...JSON.parse(saved) } : defaultLayout;
+    } catch {
+        return defaultLayout;
+    }
+};
+
+/**
+ * Works like `useState` for a table's column layout, but keeps it in localStorage under the table's id,
+ * so column widths, hidden columns and the sort order survive reloads.
+ * @param tableId A stable name for the table, e.g. "employeeVisits".
+ * @param defaultLayout The layout before the user changes anything; also what `reset` returns to.
+ */
+export const useTableLayout = (tableId: string, defaultLayout: TableLayout): [TableLayout, React.Dispatch<React.SetStateAction<TableLayout>>, () => void] => {
+    const [layout, setLayout] = useState(() => readLayout(tableId, defaultLayout));
+
+    useEffect(() => {
+        localStorage.setItem(storageKey(tableId), JSON.stringify(layout));
+    }, [tableId, layout]);
+
+    const reset = () => setLayout(defaultLayout);
+
+    return [layout, setLayout, reset];
+};
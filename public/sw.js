@@ -0,0 +1,57 @@
+// Service worker: keeps the app usable without a connection.
+//
+// Pages, scripts, styles and CDN libraries are fetched from the network when possible and cached as they
+// go, so the last version seen is served while offline. API calls are never cached; reports made offline
+// wait in the IndexedDB outbox instead (see services/outbox.ts).
+
+const CACHE_NAME = 'precision-shell-v1';
+const SYNC_TAG = 'outbox-sync';
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(['/', '/index.html'])).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const isApiRequest = (url) => url.pathname.startsWith('/api/') || url.port === '3001';
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    if (!url.protocol.startsWith('http') || isApiRequest(url)) return;
+
+    event.respondWith(
+        fetch(request)
+            .then(response => {
+                if (response.ok || response.type === 'opaque') {
+                    const copy = response.clone();
+                    caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+                }
+                return response;
+            })
+            .catch(async () => {
+                const cached = await caches.match(request);
+                if (cached) return cached;
+                // Deep links (#/view/...) all load the same page.
+                if (request.mode === 'navigate') return caches.match('/index.html');
+                return Response.error();
+            })
+    );
+});
+
+// The browser fires this once connectivity returns. Open tabs do the upload, since they hold the session;
+// with none open, it happens the next time the app starts.
+self.addEventListener('sync', (event) => {
+    if (event.tag !== SYNC_TAG) return;
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window' })
+            .then(clients => clients.forEach(client => client.postMessage({ type: SYNC_TAG })))
+    );
+});
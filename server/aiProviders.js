@@ -0,0 +1,206 @@
+// server/aiProviders.js - The AI behind issue classification, case analysis and the questions about visit data.
+//
+// AI_PROVIDER chooses the provider:
+//   gemini  Google Gemini (the default when API_KEY is set). AI_MODEL picks the model (default gemini-2.5-flash)
+//           and GEMINI_BASE_URL the API endpoint, e.g. for a proxy.
+//   local   Fixed keyword rules, with no network or key: the same input always gives the same answer. For
+//           development and tests; don't use it for real reports. See localAiProvider.js.
+//   none    AI turned off (the default without API_KEY). The AI endpoints answer 503 and the app says so.
+//
+// Every provider has the same methods, each returning a promise:
+//   classifyIssue({ description, photos })   { category, priority, summary }
+//   analyzeCase({ name, comments, photo })   { category, priority, summary }
+//   answerDataQuestion({ data, question })   Markdown text
+//   improvementAnalysis({ data })            Markdown text
+//
+//   GET  /api/ai/status                Which provider and model are in use, and whether AI is turned on.
+//   POST /api/ai/classify-issue        { description, photos } of a visit report issue.
+//   POST /api/ai/analyze-case          { name, comments, photo } of a project case.
+//   POST /api/ai/data-question         { data, question }: answers a question about visit data (JSON text).
+//   POST /api/ai/improvement-analysis  { data }: observations and recommendations for a department.
+
+const express = require('express');
+const { createLocalProvider } = require('./localAiProvider');
+
+const PRIORITIES = ['Low', 'Medium', 'High', 'Critical'];
+const CATEGORIES = ['Structural', 'Electrical', 'Plumbing', 'Safety Hazard', 'Finishing', 'Other'];
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// --- Gemini ---
+
+const ANALYSIS_SCHEMA = {
+    type: 'OBJECT',
+    properties: {
+        category: {
+            type: 'STRING',
+            description: `Categorize the issue into one of the following: ${CATEGORIES.join(', ')}.`,
+        },
+        priority: {
+            type: 'STRING',
+            description: `Assess the priority of the issue. Choose one: ${PRIORITIES.join(', ')}.`,
+        },
+        summary: {
+            type: 'STRING',
+            description: 'Provide a concise, one-sentence summary of the issue.',
+        },
+    },
+    required: ['category', 'priority', 'summary'],
+};
+
+const DATA_QUESTION_INSTRUCTION = `You are a data analyst for a construction company. Your task is to analyze employee project visit data provided in JSON format and answer a user's question.
+- The data contains fields like 'date', 'visitorName', 'department', 'projectName', 'entryTime', 'outTime', and 'duration' (H:M:S format).
+- Provide a clear, concise, and professional answer based *only* on the provided data.
+- Structure your response using markdown-like formatting (e.g., use ## for headers, * for bullet points). Do not assume the output will be rendered as HTML.
+- If the data is insufficient to answer the question, state that clearly. Do not invent data.
+- Perform calculations if necessary (e.g., averages, totals, counts).`;
+
+const IMPROVEMENT_INSTRUCTION = `You are an expert HR and performance analyst for a construction company.
+Your task is to analyze the provided data for a department with declining performance and provide actionable insights.
+The data includes the department's average performance drop and details on the employees contributing most to this decline, comparing their current month's metrics to the last month's.
+
+Based on the data, you must provide a response structured in two parts using markdown formatting:
+1.  **Key Observations:** A concise, bulleted list identifying the primary reasons for the performance drop (e.g., reduced visit frequency, shorter visit durations, fewer projects covered).
+2.  **Actionable Recommendations:** A bulleted list of specific, constructive suggestions for management to address these issues (e.g., "Review workload of employee X," "Investigate the high number of short visits for employee Y," "Set clear daily/weekly visit targets.").
+
+Keep your analysis professional, data-driven, and focused on improvement. Do not be conversational. Directly provide the observations and recommendations.`;
+
+/** A photo as a Gemini image part. Photos arrive as data URLs. */
+const imagePart = (photo) => {
+    const [, mimeType = 'image/jpeg', data = ''] = String(photo).match(/^data:([^;,]+);base64,(.*)$/s) ?? [];
+    return { inlineData: { mimeType, data } };
+};
+
+const parseAnalysis = (text) => {
+    const result = JSON.parse(text);
+    if (!result?.category || !PRIORITIES.includes(result.priority) || !result.summary) {
+        throw new Error('The analysis did not match the expected format.');
+    }
+    return { category: String(result.category), priority: result.priority, summary: String(result.summary) };
+};
+
+/**
+ * @param {{ apiKey: string, model: string, baseUrl?: string, onUsage: (usageMetadata: object|undefined) => void }} options
+ *   `onUsage` is told about every response, so calls count towards the day's usage.
+ */
+const createGeminiProvider = ({ apiKey, model, baseUrl, onUsage }) => {
+    // Requires: npm install @google/genai
+    const { GoogleGenAI } = require('@google/genai');
+    const ai = new GoogleGenAI({ apiKey, ...(baseUrl && { httpOptions: { baseUrl } }) });
+
+    const generate = async (contents, config) => {
+        const response = await ai.models.generateContent({ model, contents, config });
+        onUsage(response.usageMetadata);
+        return response.text;
+    };
+    const analyze = async (prompt, photos) => parseAnalysis(await generate(
+        { parts: [{ text: prompt }, ...photos.map(imagePart)] },
+        { responseMimeType: 'application/json', responseSchema: ANALYSIS_SCHEMA, temperature: 0.2 },
+    ));
+
+    return {
+        name: 'gemini',
+        model,
+        classifyIssue: ({ description, photos = [] }) => analyze(`
+            You are an expert construction site inspector. Analyze the following on-site issue report
+            and provide a structured JSON response based on the schema. Use both the text description
+            and any provided images to make your assessment.
+
+            Issue Description: "${description}"
+        `, photos),
+        analyzeCase: ({ name, comments, photo }) => analyze(`
+            You are an expert construction project manager. Analyze the following project case report
+            and provide a structured JSON response based on the schema. Use both the text description
+            (case name and comments) and the provided image to make your assessment.
+
+            Case Details: "Case Name: ${name}\nComments: ${comments || 'N/A'}"
+        `, photo ? [photo] : []),
+        answerDataQuestion: ({ data, question }) => generate(
+            `Based on the following JSON data, please answer this question: "${question}"\n\nData:\n${data}\n`,
+            { systemInstruction: DATA_QUESTION_INSTRUCTION, temperature: 0.3 },
+        ),
+        improvementAnalysis: ({ data }) => generate(
+            `Please analyze the following performance data for a construction department:\n\n${data}`,
+            { systemInstruction: IMPROVEMENT_INSTRUCTION, temperature: 0.4 },
+        ),
+    };
+};
+
+// --- Turned off ---
+
+const createDisabledProvider = () => {
+    const disabled = async () => { throw new Error('AI analysis is turned off on this server.'); };
+    return { name: 'none', model: null, classifyIssue: disabled, analyzeCase: disabled, answerDataQuestion: disabled, improvementAnalysis: disabled };
+};
+
+/**
+ * The provider chosen by the environment (see the top of this file).
+ * @param {{ onUsage: (usageMetadata: object|undefined) => void }} options
+ */
+const createAiProvider = ({ onUsage }) => {
+    const name = process.env.AI_PROVIDER || (process.env.API_KEY ? 'gemini' : 'none');
+    switch (name) {
+        case 'gemini':
+            if (!process.env.API_KEY) throw new Error('AI_PROVIDER=gemini needs the API_KEY environment variable.');
+            return createGeminiProvider({
+                apiKey: process.env.API_KEY,
+                model: process.env.AI_MODEL || DEFAULT_GEMINI_MODEL,
+                baseUrl: process.env.GEMINI_BASE_URL,
+                onUsage,
+            });
+        case 'local':
+            return createLocalProvider();
+        case 'none':
+            return createDisabledProvider();
+        default:
+            throw new Error(`Unknown AI_PROVIDER "${name}". Use gemini, local or none.`);
+    }
+};
+
+const isEnabled = (provider) => provider.name !== 'none';
+
+/**
+ * Creates the /api/ai router. Mount it behind requireAuth.
+ * @param {{ provider: ReturnType<typeof createAiProvider> }} options
+ */
+const createAiRouter = ({ provider }) => {
+    const router = express.Router();
+
+    const sendValidationError = (res, fields) => res.status(400).json({
+        error: 'Validation failed.',
+        details: fields.map(field => ({ field, message: `"${field}" is required.` })),
+    });
+    const missing = (body, fields) => fields.filter(field => typeof body?.[field] !== 'string' || !body[field].trim());
+
+    // Runs a provider method and answers with its result; 503 while AI is turned off.
+    const handle = (required, run) => async (req, res) => {
+        if (!isEnabled(provider)) return res.status(503).json({ error: 'AI analysis is turned off on this server.' });
+        const fields = missing(req.body, required);
+        if (fields.length > 0) return sendValidationError(res, fields);
+        try {
+            res.json(await run(req.body));
+        } catch (err) {
+            console.error(`The ${provider.name} AI provider failed:`, err);
+            res.status(500).json({ error: 'An internal server error occurred while contacting the AI provider.' });
+        }
+    };
+
+    router.get('/status', (req, res) => {
+        res.json({ enabled: isEnabled(provider), provider: provider.name, model: provider.model });
+    });
+
+    router.post('/classify-issue', handle(['description'], ({ description, photos }) =>
+        provider.classifyIssue({ description, photos: Array.isArray(photos) ? photos : [] })));
+
+    router.post('/analyze-case', handle(['name'], ({ name, comments, photo }) =>
+        provider.analyzeCase({ name, comments: comments ?? '', photo })));
+
+    router.post('/data-question', handle(['data', 'question'], async ({ data, question }) =>
+        ({ text: await provider.answerDataQuestion({ data, question }) })));
+
+    router.post('/improvement-analysis', handle(['data'], async ({ data }) =>
+        ({ text: await provider.improvementAnalysis({ data }) })));
+
+    return router;
+};
+
+module.exports = { createAiProvider, createAiRouter, isEnabled };
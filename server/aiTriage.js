@@ -0,0 +1,310 @@
+// server/aiTriage.js - Runs the AI analysis over the issues and cases that never had one.
+//
+// Visit report issues without a category and project cases without an AI summary (reported offline, imported,
+// or filed before cases kept the summary) are analysed as the forms would, a few at a time. A failed call is
+// retried after a growing delay. Results are cached by a hash of what was analysed and the provider and model
+// that analysed it, so the same text and photos are never paid for twice. Every Gemini call the server makes
+// counts towards the day's usage (in the company's time zone); a job stops before it would go over the day's
+// call or token budget. One job runs at a time, and its progress is kept in memory. Jobs can't start while AI
+// is turned off (see server/aiProviders.js).
+//
+//   GET  /api/ai-triage              Settings, today's usage, how many items are waiting and the latest job.
+//   PUT  /api/ai-triage/settings     Change the settings: { dailyCallLimit, dailyTokenLimit, concurrency }.
+//   POST /api/ai-triage/jobs         Start a job. 409 while one is running, 503 while AI is turned off.
+//   POST /api/ai-triage/jobs/cancel  Stop the running job once the calls in flight return.
+
+const crypto = require('crypto');
+const express = require('express');
+const { db } = require('./database');
+const { recordAudit, recordRequestAudit } = require('./audit');
+const { companyDate } = require('../shared/time.js');
+const { isEnabled } = require('./aiProviders');
+
+const SETTINGS_NAME = 'aiTriage';
+const DEFAULT_SETTINGS = { dailyCallLimit: 200, dailyTokenLimit: 1000000, concurrency: 2 };
+const MAX_CONCURRENCY = 5;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+// Visit issues with a description but no category, and cases without an AI summary.
+const PENDING_ISSUES_SQL = `
+    SELECT visits.id AS recordId, json_extract(issue.value, '$.id') AS issueId, visits.record_date AS recordDate
+    FROM visits, json_each(visits.data, '$.issues') AS issue
+    WHERE COALESCE(json_extract(issue.value, '$.category'), '') = ''
+        AND TRIM(COALESCE(json_extract(issue.value, '$.description'), '')) <> ''
+`;
+const PENDING_CASES_SQL = `
+    SELECT id AS recordId, record_date AS recordDate FROM cases WHERE COALESCE(json_extract(data, '$.summary'), '') = ''
+`;
+
+const statements = {
+    settings: db.prepare('SELECT data FROM settings WHERE name = ?'),
+    saveSettings: db.prepare(`
+        INSERT INTO settings (name, data, updated_at, updated_by) VALUES (@name, @data, @updatedAt, @updatedBy)
+        ON CONFLICT(name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, updated_by = excluded.updated_by
+    `),
+    usage: db.prepare('SELECT calls, tokens FROM ai_usage WHERE day = ?'),
+    addUsage: db.prepare(`
+        INSERT INTO ai_usage (day, calls, tokens) VALUES (@day, 1, @tokens)
+        ON CONFLICT(day) DO UPDATE SET calls = calls + 1, tokens = tokens + excluded.tokens
+    `),
+    cached: db.prepare('SELECT result FROM ai_analysis_cache WHERE content_hash = ?'),
+    cache: db.prepare('INSERT OR REPLACE INTO ai_analysis_cache (content_hash, result, created_at) VALUES (?, ?, ?)'),
+    pendingIssues: db.prepare(`SELECT * FROM (${PENDING_ISSUES_SQL}) ORDER BY recordDate DESC`),
+    pendingCases: db.prepare(`SELECT * FROM (${PENDING_CASES_SQL}) ORDER BY recordDate DESC`),
+    pendingCounts: db.prepare(`SELECT (SELECT COUNT(*) FROM (${PENDING_ISSUES_SQL})) AS issues, (SELECT COUNT(*) FROM (${PENDING_CASES_SQL})) AS cases`),
+    visit: db.prepare('SELECT data FROM visits WHERE id = ?'),
+    updateVisit: db.prepare('UPDATE visits SET data = ?, updated_at = ? WHERE id = ?'),
+    case: db.prepare('SELECT data FROM cases WHERE id = ?'),
+    updateCase: db.prepare('UPDATE cases SET data = ?, updated_at = ? WHERE id = ?'),
+};
+
+const loadSettings = () => {
+    const row = statements.settings.get(SETTINGS_NAME);
+    return { ...DEFAULT_SETTINGS, ...(row ? JSON.parse(row.data) : {}) };
+};
+
+/** Today's Gemini calls and tokens, across the app's AI requests and triage jobs. */
+const usageToday = () => {
+    const day = companyDate(new Date());
+    return { day, ...(statements.usage.get(day) ?? { calls: 0, tokens: 0 }) };
+};
+
+/**
+ * Counts a Gemini response towards the day's usage.
+ * @param {{ totalTokenCount?: number } | undefined} usageMetadata From the response.
+ */
+const recordAiUsage = (usageMetadata) => {
+    statements.addUsage.run({ day: companyDate(new Date()), tokens: usageMetadata?.totalTokenCount ?? 0 });
+};
+
+/**
+ * Checks submitted settings.
+ * @returns {{ settings?: object, details?: { field: string, message: string }[] }}
+ */
+const validateSettings = (input) => {
+    const settings = { ...loadSettings() };
+    const details = [];
+    ['dailyCallLimit', 'dailyTokenLimit'].forEach(field => {
+        if (input?.[field] === undefined) return;
+        if (input[field] !== null && !(Number.isInteger(input[field]) && input[field] > 0)) {
+            details.push({ field, message: `"${field}" must be a whole number above 0, or null for no limit.` });
+        } else {
+            settings[field] = input[field];
+        }
+    });
+    if (input?.concurrency !== undefined) {
+        if (!Number.isInteger(input.concurrency) || input.concurrency < 1 || input.concurrency > MAX_CONCURRENCY) {
+            details.push({ field: 'concurrency', message: `"concurrency" must be a whole number from 1 to ${MAX_CONCURRENCY}.` });
+        } else {
+            settings.concurrency = input.concurrency;
+        }
+    }
+    return details.length > 0 ? { details } : { settings };
+};
+
+class BudgetExhaustedError extends Error {}
+
+const hashContent = (content) => crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+/** Loads the text and photos to analyse for an item, or null when it no longer needs an analysis. */
+const loadContent = (item) => {
+    if (item.kind === 'issue') {
+        const row = statements.visit.get(item.recordId);
+        const issue = row && JSON.parse(row.data).issues?.find(i => String(i.id) === String(item.issueId));
+        if (!issue || issue.category || !issue.description?.trim()) return null;
+        return { kind: 'issue', description: issue.description, photos: issue.photos ?? [] };
+    }
+    const row = statements.case.get(item.recordId);
+    const projectCase = row && JSON.parse(row.data);
+    if (!projectCase || projectCase.summary) return null;
+    return { kind: 'case', name: projectCase.caseName, comments: projectCase.comments ?? '', photos: projectCase.photo ? [projectCase.photo] : [] };
+};
+
+/** Stores an analysis on its item, unless the item was analysed meanwhile. Returns whether it was stored. */
+const saveAnalysis = (item, analysis, actor) => {
+    const now = new Date().toISOString();
+    if (item.kind === 'issue') {
+        const row = statements.visit.get(item.recordId);
+        if (!row) return false;
+        const before = JSON.parse(row.data);
+        const index = before.issues?.findIndex(i => String(i.id) === String(item.issueId) && !i.category) ?? -1;
+        if (index < 0) return false;
+        const after = { ...before, issues: before.issues.map((issue, i) => (i === index ? { ...issue, ...analysis } : issue)) };
+        statements.updateVisit.run(JSON.stringify(after), now, item.recordId);
+        recordAudit({
+            actor, action: 'update', entityType: 'visits', entityId: item.recordId, before, after,
+            summary: `AI triage classified issue ${index + 1} of visit report ${item.recordId} as ${analysis.category} (${analysis.priority})`,
+        });
+        return true;
+    }
+    const row = statements.case.get(item.recordId);
+    if (!row) return false;
+    const before = JSON.parse(row.data);
+    if (before.summary) return false;
+    // The case was filed with a category and priority (if only the 'Other' / 'Medium' placeholders), which
+    // case managers may have changed since. They and the due date stay; the AI's are kept beside them.
+    const after = { ...before, summary: analysis.summary, aiSuggestion: { category: analysis.category, priority: analysis.priority } };
+    statements.updateCase.run(JSON.stringify(after), now, item.recordId);
+    recordAudit({
+        actor, action: 'update', entityType: 'cases', entityId: item.recordId, before, after,
+        summary: `AI triage suggested ${analysis.category} (${analysis.priority}) for case ${item.recordId} (${before.caseName})`,
+    });
+    return true;
+};
+
+// The latest job, running or finished.
+let currentJob = null;
+let nextJobId = 1;
+
+const publicJob = ({ inFlight, ...job }) => job;
+
+/**
+ * Creates the /api/ai-triage router. Mount it behind requireAuth.
+ * @param {{
+ *   requirePermission: (module: string) => import('express').RequestHandler,
+ *   provider: ReturnType<typeof import('./aiProviders').createAiProvider>,
+ * }} options
+ */
+const createAiTriageRouter = ({ requirePermission, provider }) => {
+    const router = express.Router();
+    const requireAiTriage = requirePermission('systemManagement_aiTriage');
+
+    // Reserves a call within the day's budget, counting the calls still in flight.
+    const reserveCall = (job, settings) => {
+        const { calls, tokens } = usageToday();
+        if ((settings.dailyCallLimit !== null && calls + job.inFlight >= settings.dailyCallLimit)
+            || (settings.dailyTokenLimit !== null && tokens >= settings.dailyTokenLimit)) {
+            throw new BudgetExhaustedError('The daily AI budget has been used up.');
+        }
+        job.inFlight += 1;
+    };
+
+    const analyze = async (job, settings, content) => {
+        for (let attempt = 1; ; attempt++) {
+            reserveCall(job, settings);
+            try {
+                return content.kind === 'issue'
+                    ? await provider.classifyIssue({ description: content.description, photos: content.photos })
+                    : await provider.analyzeCase({ name: content.name, comments: content.comments, photo: content.photos[0] });
+            } catch (err) {
+                if (attempt >= MAX_ATTEMPTS || job.cancelRequested) throw err;
+                console.warn(`AI triage attempt ${attempt} failed, retrying:`, err.message);
+            } finally {
+                job.inFlight -= 1;
+            }
+            // 2s, 4s, 8s..., spread out so parallel workers don't retry in step.
+            await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random()));
+        }
+    };
+
+    /** Analyses one item. Returns which counter it adds to. */
+    const triageItem = async (job, settings, item) => {
+        const content = loadContent(item);
+        if (!content) return 'skipped';
+        const contentHash = hashContent({ provider: provider.name, model: provider.model, ...content });
+        const cached = statements.cached.get(contentHash);
+        const analysis = cached ? JSON.parse(cached.result) : await analyze(job, settings, content);
+        if (!cached) statements.cache.run(contentHash, JSON.stringify(analysis), new Date().toISOString());
+        if (!saveAnalysis(item, analysis, job.startedBy)) return 'skipped';
+        return cached ? 'cached' : 'analyzed';
+    };
+
+    const runJob = async (job, items, settings) => {
+        let next = 0;
+        const worker = async () => {
+            while (next < items.length && job.status === 'running' && !job.cancelRequested) {
+                const item = items[next++];
+                try {
+                    job[await triageItem(job, settings, item)] += 1;
+                } catch (err) {
+                    if (err instanceof BudgetExhaustedError) {
+                        job.status = 'budgetExhausted';
+                        job.error = err.message;
+                        return;
+                    }
+                    console.error(`AI triage could not analyse ${item.kind} ${item.recordId}:`, err);
+                    job.failed += 1;
+                    job.error = err.message;
+                }
+            }
+        };
+        try {
+            await Promise.all(Array.from({ length: settings.concurrency }, worker));
+            if (job.status === 'running') job.status = job.cancelRequested ? 'cancelled' : 'completed';
+        } catch (err) {
+            console.error('AI triage job failed:', err);
+            job.status = 'failed';
+            job.error = err.message;
+        }
+        job.finishedAt = new Date().toISOString();
+        recordAudit({
+            actor: job.startedBy,
+            action: 'ai-triage.run',
+            entityType: 'ai_triage',
+            entityId: job.id,
+            summary: `AI triage job ${job.id} ${job.status}: ${job.analyzed} analysed, ${job.cached} from cache, ${job.failed} failed, ${job.skipped} skipped`,
+        });
+    };
+
+    router.get('/', requireAiTriage, (req, res) => {
+        res.json({
+            settings: loadSettings(),
+            usage: usageToday(),
+            pending: statements.pendingCounts.get(),
+            job: currentJob && publicJob(currentJob),
+        });
+    });
+
+    router.put('/settings', requireAiTriage, (req, res) => {
+        const { settings, details } = validateSettings(req.body);
+        if (details) return res.status(400).json({ error: 'Validation failed.', details });
+        const actor = req.impersonatedUser || req.user;
+        const before = loadSettings();
+        statements.saveSettings.run({ name: SETTINGS_NAME, data: JSON.stringify(settings), updatedAt: new Date().toISOString(), updatedBy: actor.name });
+        recordRequestAudit(req, { action: 'update', entityType: 'settings', entityId: SETTINGS_NAME, summary: 'Changed the AI triage settings', before, after: settings });
+        res.json(settings);
+    });
+
+    router.post('/jobs', requireAiTriage, (req, res) => {
+        if (!isEnabled(provider)) return res.status(503).json({ error: 'AI analysis is turned off on this server.' });
+        if (currentJob?.status === 'running') return res.status(409).json({ error: 'An AI triage job is already running.', job: publicJob(currentJob) });
+        const actor = req.impersonatedUser || req.user;
+        const items = [
+            ...statements.pendingIssues.all().map(row => ({ kind: 'issue', recordId: row.recordId, issueId: row.issueId })),
+            ...statements.pendingCases.all().map(row => ({ kind: 'case', recordId: row.recordId })),
+        ];
+        currentJob = {
+            id: nextJobId++,
+            status: 'running',
+            startedAt: new Date().toISOString(),
+            startedBy: { id: actor.id, name: actor.name },
+            finishedAt: null,
+            total: items.length,
+            analyzed: 0,
+            cached: 0,
+            skipped: 0,
+            failed: 0,
+            error: null,
+            cancelRequested: false,
+            inFlight: 0,
+        };
+        const job = currentJob;
+        runJob(job, items, loadSettings()).catch(err => {
+            console.error('AI triage job failed:', err);
+            job.status = 'failed';
+            job.error = err.message;
+            job.finishedAt ??= new Date().toISOString();
+        });
+        res.status(202).json(publicJob(currentJob));
+    });
+
+    router.post('/jobs/cancel', requireAiTriage, (req, res) => {
+        if (currentJob?.status !== 'running') return res.status(409).json({ error: 'No AI triage job is running.' });
+        currentJob.cancelRequested = true;
+        res.json(publicJob(currentJob));
+    });
+
+    return router;
+};
+
+module.exports = { createAiTriageRouter, recordAiUsage };
@@ -0,0 +1,204 @@
+// server/audit.js - Append-only audit trail of admin actions and record changes.
+//
+// Record changes made through the REST resources and the auth routes are logged on the server.
+// Actions that only happen in the browser (switching accounts, CSV imports into local datasets,
+// project edits) are reported by the app through POST /api/audit and marked with source "client".
+// The audit_log table rejects UPDATE and DELETE, so entries can only be added.
+//
+//   GET  /api/audit          List entries (admin). Query: page, pageSize, actor, action, entityType, entityId, q, from, to.
+//   GET  /api/audit/facets   Distinct actions, entity types and actors, for filter dropdowns (admin).
+//   POST /api/audit          Record a client-side action for the signed-in user.
+
+const express = require('express');
+const { db } = require('./database');
+const { validate, isValidDate } = require('./validation');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Values of these fields are never written to the log, only the fact that they changed.
+const REDACTED_FIELDS = ['password'];
+// Long strings are usually base64 photos; the log keeps their length instead.
+const MAX_LOGGED_STRING_LENGTH = 500;
+
+const CLIENT_EVENT_SCHEMA = {
+    action: { type: 'string', required: true },
+    entityType: { type: 'string', required: true },
+    entityId: { type: 'id' },
+    summary: { type: 'string' },
+    before: { type: 'object' },
+    after: { type: 'object' },
+};
+
+const statements = {
+    insert: db.prepare(`
+        INSERT INTO audit_log (occurred_at, actor_id, actor_name, impersonated_user_id, impersonated_user_name,
+            action, entity_type, entity_id, summary, before_json, after_json, changes_json, source)
+        VALUES (@occurredAt, @actorId, @actorName, @impersonatedUserId, @impersonatedUserName,
+            @action, @entityType, @entityId, @summary, @before, @after, @changes, @source)
+    `),
+    actions: db.prepare('SELECT DISTINCT action FROM audit_log ORDER BY action'),
+    entityTypes: db.prepare('SELECT DISTINCT entity_type FROM audit_log ORDER BY entity_type'),
+    actors: db.prepare('SELECT actor_id AS id, MAX(actor_name) AS name FROM audit_log WHERE actor_id IS NOT NULL GROUP BY actor_id ORDER BY name'),
+};
+
+const toPositiveInt = (value, fallback) => {
+    const parsed = parseInt(value, 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const sanitizeValue = (value) => {
+    if (typeof value === 'string' && value.length > MAX_LOGGED_STRING_LENGTH) {
+        return `[${value.length} characters omitted]`;
+    }
+    if (Array.isArray(value)) return value.map(sanitizeValue);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, sanitizeField(key, item)]));
+    }
+    return value;
+};
+
+const sanitizeField = (field, value) => (
+    REDACTED_FIELDS.includes(field) && value !== undefined && value !== null ? '[redacted]' : sanitizeValue(value)
+);
+
+/**
+ * Lists the top-level fields that differ between two versions of a record.
+ * @returns {Record<string, { from: unknown, to: unknown }>}
+ */
+const diffRecords = (before, after) => {
+    const changes = {};
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    fields.forEach(field => {
+        const from = before?.[field];
+        const to = after?.[field];
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes[field] = { from: sanitizeField(field, from ?? null), to: sanitizeField(field, to ?? null) };
+        }
+    });
+    return changes;
+};
+
+const toJson = (value) => (value === undefined || value === null ? null : JSON.stringify(sanitizeValue(value)));
+
+/**
+ * Appends an entry to the audit log.
+ * @param {object} entry
+ * @param {{ id: number|string, name: string } | null} entry.actor The signed-in user who performed the action.
+ * @param {{ id: number|string, name: string } | null} [entry.impersonatedUser] The user the actor was signed in as, if any.
+ * @param {string} entry.action e.g. "create", "update", "delete", "password.reset".
+ * @param {string} entry.entityType e.g. "users", "visits".
+ * @param {string|number} [entry.entityId]
+ * @param {string} [entry.summary] A short human-readable description.
+ * @param {object} [entry.before] The record before the change.
+ * @param {object} [entry.after] The record after the change.
+ * @param {'server'|'client'} [entry.source]
+ */
+const recordAudit = ({ actor, impersonatedUser = null, action, entityType, entityId, summary, before, after, source = 'server' }) => {
+    const changes = before && after ? diffRecords(before, after) : null;
+    statements.insert.run({
+        occurredAt: new Date().toISOString(),
+        actorId: actor ? String(actor.id) : null,
+        actorName: actor?.name ?? null,
+        impersonatedUserId: impersonatedUser ? String(impersonatedUser.id) : null,
+        impersonatedUserName: impersonatedUser?.name ?? null,
+        action,
+        entityType,
+        entityId: entityId === undefined || entityId === null ? null : String(entityId),
+        summary: summary ?? null,
+        before: toJson(before),
+        after: toJson(after),
+        changes: changes ? JSON.stringify(changes) : null,
+        source,
+    });
+};
+
+/**
+ * Like recordAudit, with the actor taken from an authenticated request (see requireAuth).
+ */
+const recordRequestAudit = (req, entry) => recordAudit({
+    actor: req.user,
+    impersonatedUser: req.impersonatedUser,
+    ...entry,
+});
+
+const parseJson = (value) => (value ? JSON.parse(value) : null);
+
+const toEntry = (row) => ({
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actor: row.actor_id ? { id: row.actor_id, name: row.actor_name } : null,
+    impersonatedUser: row.impersonated_user_id ? { id: row.impersonated_user_id, name: row.impersonated_user_name } : null,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    summary: row.summary,
+    before: parseJson(row.before_json),
+    after: parseJson(row.after_json),
+    changes: parseJson(row.changes_json),
+    source: row.source,
+});
+
+/**
+ * Creates the /api/audit router. Mount it behind requireAuth; listing additionally needs `requireAdmin`.
+ * @param {{ requireAdmin: import('express').RequestHandler }} options
+ */
+const createAuditRouter = ({ requireAdmin }) => {
+    const router = express.Router();
+
+    router.get('/', requireAdmin, (req, res) => {
+        const page = toPositiveInt(req.query.page, 1);
+        const pageSize = Math.min(toPositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const { actor, action, entityType, entityId, q, from, to } = req.query;
+
+        const invalid = [['from', from], ['to', to]].filter(([, value]) => value && !isValidDate(value));
+        if (invalid.length > 0) {
+            return res.status(400).json({
+                error: 'Validation failed.',
+                details: invalid.map(([field]) => ({ field, message: `"${field}" must be a date in YYYY-MM-DD format.` })),
+            });
+        }
+
+        const clauses = [];
+        const params = {};
+        if (actor) { clauses.push('actor_id = @actor'); params.actor = String(actor); }
+        if (action) { clauses.push('action = @action'); params.action = action; }
+        if (entityType) { clauses.push('entity_type = @entityType'); params.entityType = entityType; }
+        if (entityId) { clauses.push('entity_id = @entityId'); params.entityId = String(entityId); }
+        if (from) { clauses.push('substr(occurred_at, 1, 10) >= @from'); params.from = from; }
+        if (to) { clauses.push('substr(occurred_at, 1, 10) <= @to'); params.to = to; }
+        if (q) {
+            clauses.push(`(summary LIKE @q OR actor_name LIKE @q OR impersonated_user_name LIKE @q OR entity_id LIKE @q)`);
+            params.q = `%${q}%`;
+        }
+        const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+        const { total } = db.prepare(`SELECT COUNT(*) AS total FROM audit_log ${where}`).get(params);
+        const rows = db.prepare(`
+            SELECT * FROM audit_log ${where}
+            ORDER BY id DESC
+            LIMIT @limit OFFSET @offset
+        `).all({ ...params, limit: pageSize, offset: (page - 1) * pageSize });
+
+        res.json({ data: rows.map(toEntry), total, page, pageSize });
+    });
+
+    router.get('/facets', requireAdmin, (req, res) => {
+        res.json({
+            actions: statements.actions.all().map(row => row.action),
+            entityTypes: statements.entityTypes.all().map(row => row.entity_type),
+            actors: statements.actors.all(),
+        });
+    });
+
+    router.post('/', (req, res) => {
+        const { value, errors } = validate(CLIENT_EVENT_SCHEMA, req.body);
+        if (errors.length > 0) return res.status(400).json({ error: 'Validation failed.', details: errors });
+        recordRequestAudit(req, { ...value, source: 'client' });
+        res.status(201).end();
+    });
+
+    return router;
+};
+
+module.exports = { createAuditRouter, recordAudit, recordRequestAudit };
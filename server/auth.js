@@ -0,0 +1,467 @@
+// server/auth.js - Login, sessions and account lockout.
+//
+// A session is a pair of opaque random tokens sent as HTTP-only cookies:
+//   - the access token (short-lived) authenticates every /api request;
+//   - the refresh token (long-lived, only sent to /api/auth) is exchanged for a new pair.
+// Only SHA-256 hashes of the tokens are stored, and both are rotated on every refresh.
+//
+//   POST /api/auth/login            { email, password }
+//   POST /api/auth/refresh
+//   POST /api/auth/logout
+//   GET  /api/auth/me
+//   PATCH /api/auth/me              { name?, employeeId?, designation?, department?, avatar? }
+//   POST /api/auth/change-password  { currentPassword, newPassword }
+//   POST /api/auth/forgot-password  { email }
+//   POST /api/auth/verify-reset-token  { token }
+//   POST /api/auth/reset-password   { token, newPassword }
+//
+// Password reset tokens are single-use, expire after an hour and, like session tokens, are stored only as hashes.
+
+const crypto = require('crypto');
+const express = require('express');
+const { db } = require('./database');
+const { hashPassword, verifyPassword, MIN_PASSWORD_LENGTH } = require('./passwords');
+const { ADMIN_PERMISSIONS, isAdminUser } = require('./permissions');
+const { validate } = require('./validation');
+const { sendMail } = require('./mail');
+const { recordAudit, recordRequestAudit } = require('./audit');
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Sent by the app while an administrator is signed in as another user, so audit entries can record it.
+const ACTING_AS_HEADER = 'x-acting-as-user';
+
+const ACCESS_COOKIE = 'precision_access';
+const REFRESH_COOKIE = 'precision_refresh';
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+
+const sha256 = (value) => crypto.createHash('sha256').update(value).digest('hex');
+const newToken = () => crypto.randomBytes(32).toString('base64url');
+const nowIso = () => new Date().toISOString();
+const isoFromNow = (ms) => new Date(Date.now() + ms).toISOString();
+
+const statements = {
+    userByEmail: db.prepare(`SELECT data FROM users WHERE lower(json_extract(data, '$.email')) = lower(?) LIMIT 1`),
+    userById: db.prepare('SELECT data FROM users WHERE id = ?'),
+    updateUserData: db.prepare('UPDATE users SET data = ?, updated_at = ? WHERE id = ?'),
+    countUsers: db.prepare('SELECT COUNT(*) AS total FROM users'),
+    insertUser: db.prepare(`INSERT INTO users (id, data, created_at, updated_at) VALUES (?, ?, ?, ?)`),
+    insertSession: db.prepare(`
+        INSERT INTO sessions (id, user_id, access_hash, access_expires_at, refresh_hash, refresh_expires_at, created_at, last_used_at)
+        VALUES (@id, @userId, @accessHash, @accessExpiresAt, @refreshHash, @refreshExpiresAt, @now, @now)
+    `),
+    sessionByAccess: db.prepare('SELECT * FROM sessions WHERE access_hash = ? AND access_expires_at > ?'),
+    sessionByRefresh: db.prepare('SELECT * FROM sessions WHERE refresh_hash = ? AND refresh_expires_at > ?'),
+    rotateSession: db.prepare(`
+        UPDATE sessions SET access_hash = @accessHash, access_expires_at = @accessExpiresAt,
+            refresh_hash = @refreshHash, refresh_expires_at = @refreshExpiresAt, last_used_at = @now
+        WHERE id = @id
+    `),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE id = ?'),
+    deleteUserSessions: db.prepare('DELETE FROM sessions WHERE user_id = ?'),
+    deleteOtherUserSessions: db.prepare('DELETE FROM sessions WHERE user_id = ? AND id != ?'),
+    deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE refresh_expires_at <= ?'),
+    attemptsByEmail: db.prepare('SELECT * FROM login_attempts WHERE email = ?'),
+    upsertAttempts: db.prepare(`
+        INSERT INTO login_attempts (email, failed_count, locked_until) VALUES (@email, @failedCount, @lockedUntil)
+        ON CONFLICT(email) DO UPDATE SET failed_count = @failedCount, locked_until = @lockedUntil
+    `),
+    clearAttempts: db.prepare('DELETE FROM login_attempts WHERE email = ?'),
+    insertResetToken: db.prepare(`
+        INSERT INTO password_reset_tokens (token_hash, user_id, expires_at, created_at) VALUES (?, ?, ?, ?)
+    `),
+    validResetToken: db.prepare('SELECT * FROM password_reset_tokens WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?'),
+    markResetTokenUsed: db.prepare('UPDATE password_reset_tokens SET used_at = ? WHERE token_hash = ?'),
+    // Issuing a new token invalidates any earlier ones for the same user.
+    invalidateResetTokens: db.prepare('UPDATE password_reset_tokens SET used_at = ? WHERE user_id = ? AND used_at IS NULL'),
+    deleteStaleResetTokens: db.prepare('DELETE FROM password_reset_tokens WHERE expires_at <= ?'),
+};
+
+// Fields users may change on their own profile; role and permissions stay with administrators.
+const PROFILE_SCHEMA = {
+    name: { type: 'string' },
+    employeeId: { type: 'string' },
+    designation: { type: 'string' },
+    department: { type: 'string' },
+    avatar: { type: 'string' },
+};
+
+const toPublicUser = (user) => {
+    const { password, ...rest } = user;
+    return rest;
+};
+
+const findUserById = (id) => {
+    const row = statements.userById.get(String(id));
+    return row ? JSON.parse(row.data) : null;
+};
+
+// --- Cookies ---
+
+const parseCookies = (header = '') => Object.fromEntries(
+    header.split(';')
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(part => {
+            const index = part.indexOf('=');
+            return index === -1 ? [part, ''] : [part.slice(0, index), decodeURIComponent(part.slice(index + 1))];
+        })
+);
+
+const cookieOptions = (path, maxAgeMs) => ({
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: IS_PRODUCTION,
+    path,
+    maxAge: maxAgeMs,
+});
+
+const setSessionCookies = (res, accessToken, refreshToken) => {
+    res.cookie(ACCESS_COOKIE, accessToken, cookieOptions('/api', ACCESS_TOKEN_TTL_MS));
+    res.cookie(REFRESH_COOKIE, refreshToken, cookieOptions('/api/auth', REFRESH_TOKEN_TTL_MS));
+};
+
+const clearSessionCookies = (res) => {
+    res.clearCookie(ACCESS_COOKIE, { path: '/api' });
+    res.clearCookie(REFRESH_COOKIE, { path: '/api/auth' });
+};
+
+// --- Sessions ---
+
+const issueTokens = () => {
+    const accessToken = newToken();
+    const refreshToken = newToken();
+    return {
+        accessToken,
+        refreshToken,
+        params: {
+            accessHash: sha256(accessToken),
+            accessExpiresAt: isoFromNow(ACCESS_TOKEN_TTL_MS),
+            refreshHash: sha256(refreshToken),
+            refreshExpiresAt: isoFromNow(REFRESH_TOKEN_TTL_MS),
+            now: nowIso(),
+        },
+    };
+};
+
+const createSession = (res, userId) => {
+    statements.deleteExpiredSessions.run(nowIso());
+    const { accessToken, refreshToken, params } = issueTokens();
+    const id = crypto.randomUUID();
+    statements.insertSession.run({ id, userId: String(userId), ...params });
+    setSessionCookies(res, accessToken, refreshToken);
+    return id;
+};
+
+// --- Lockout ---
+
+const getLockRemainingMs = (email) => {
+    const attempts = statements.attemptsByEmail.get(email);
+    if (!attempts?.locked_until) return 0;
+    return Math.max(0, new Date(attempts.locked_until).getTime() - Date.now());
+};
+
+const recordFailedLogin = (email) => {
+    const attempts = statements.attemptsByEmail.get(email);
+    // A lock that has run out starts a fresh count.
+    const previousCount = attempts && !attempts.locked_until ? attempts.failed_count : 0;
+    const failedCount = previousCount + 1;
+    if (failedCount >= MAX_FAILED_LOGINS) {
+        statements.upsertAttempts.run({ email, failedCount: 0, lockedUntil: isoFromNow(LOCKOUT_MS) });
+        return true;
+    }
+    statements.upsertAttempts.run({ email, failedCount, lockedUntil: null });
+    return false;
+};
+
+const lockoutMessage = (remainingMs) => {
+    const minutes = Math.max(1, Math.ceil(remainingMs / 60000));
+    return `Too many failed login attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+// --- Password reset ---
+
+const checkNewPassword = (newPassword) => (
+    typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH
+        ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`
+        : null
+);
+
+const findValidResetToken = (token) => (
+    typeof token === 'string' && token ? statements.validResetToken.get(sha256(token), nowIso()) : null
+);
+
+const sendResetEmail = (user, resetUrl) => sendMail({
+    to: user.email,
+    subject: 'Reset your Precision password',
+    text: [
+        `Hello ${user.name},`,
+        '',
+        'We received a request to reset the password for your Precision account.',
+        `Open the link below within ${RESET_TOKEN_TTL_MS / 60000} minutes to choose a new password:`,
+        '',
+        resetUrl,
+        '',
+        'If you did not ask for this, you can ignore this email; your password will not change.',
+    ].join('\n'),
+});
+
+// --- Middleware ---
+
+/**
+ * Rejects requests without a valid access token and attaches the user as `req.user`.
+ * When an administrator is signed in as another user, that user is attached as `req.impersonatedUser`.
+ */
+const requireAuth = (req, res, next) => {
+    const token = parseCookies(req.headers.cookie)[ACCESS_COOKIE];
+    const session = token ? statements.sessionByAccess.get(sha256(token), nowIso()) : null;
+    const user = session ? findUserById(session.user_id) : null;
+    if (!user) {
+        return res.status(401).json({ error: 'Your session has expired. Please log in again.' });
+    }
+    req.user = user;
+    req.sessionId = session.id;
+    const actingAsId = req.headers[ACTING_AS_HEADER];
+    if (actingAsId && isAdminUser(user) && String(actingAsId) !== String(user.id)) {
+        const impersonatedUser = findUserById(actingAsId);
+        if (impersonatedUser) req.impersonatedUser = toPublicUser(impersonatedUser);
+    }
+    next();
+};
+
+/**
+ * Must run after requireAuth. Rejects users who are not administrators.
+ */
+const requireAdmin = (req, res, next) => {
+    if (!isAdminUser(req.user)) {
+        return res.status(403).json({ error: 'You do not have permission to perform this action.' });
+    }
+    next();
+};
+
+/**
+ * Must run after requireAuth. Rejects users without a module's permission: `view` for reads, `edit` otherwise.
+ * When an administrator is signed in as another user, that user's permissions apply.
+ * @param {string | string[]} modules A key of PERMISSION_KEYS, or several of which any one will do.
+ * @param {{ openReads?: boolean }} [options] `openReads` lets every signed-in user read; only changes need the permission.
+ */
+const requirePermission = (modules, { openReads = false } = {}) => (req, res, next) => {
+    const isRead = req.method === 'GET' || req.method === 'HEAD';
+    if (isRead && openReads) return next();
+    const action = isRead ? 'view' : 'edit';
+    const user = req.impersonatedUser || req.user;
+    if (![].concat(modules).some(module => user.permissions?.[module]?.[action] === true)) {
+        return res.status(403).json({ error: 'You do not have permission to perform this action.' });
+    }
+    next();
+};
+
+// --- Routes ---
+
+/**
+ * @param {{ frontendOrigin: string }} options `frontendOrigin` is used to build the links in password reset emails.
+ */
+const createAuthRouter = ({ frontendOrigin }) => {
+    const router = express.Router();
+
+    router.post('/login', (req, res) => {
+        const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+        const password = typeof req.body?.password === 'string' ? req.body.password : '';
+        if (!email || !password) {
+            return res.status(400).json({ error: 'Email and password are required.' });
+        }
+
+        const lockRemaining = getLockRemainingMs(email);
+        if (lockRemaining > 0) {
+            return res.status(423).json({ error: lockoutMessage(lockRemaining) });
+        }
+
+        const row = statements.userByEmail.get(email);
+        const user = row ? JSON.parse(row.data) : null;
+        if (!user || !verifyPassword(password, user.password)) {
+            const locked = recordFailedLogin(email);
+            return locked
+                ? res.status(423).json({ error: lockoutMessage(LOCKOUT_MS) })
+                : res.status(401).json({ error: 'Invalid email or password. Please try again.' });
+        }
+
+        statements.clearAttempts.run(email);
+        createSession(res, user.id);
+        res.json({ user: toPublicUser(user) });
+    });
+
+    router.post('/refresh', (req, res) => {
+        const token = parseCookies(req.headers.cookie)[REFRESH_COOKIE];
+        const session = token ? statements.sessionByRefresh.get(sha256(token), nowIso()) : null;
+        const user = session ? findUserById(session.user_id) : null;
+        if (!session || !user) {
+            if (session) statements.deleteSession.run(session.id);
+            clearSessionCookies(res);
+            return res.status(401).json({ error: 'Your session has expired. Please log in again.' });
+        }
+
+        const { accessToken, refreshToken, params } = issueTokens();
+        statements.rotateSession.run({ id: session.id, ...params });
+        setSessionCookies(res, accessToken, refreshToken);
+        res.json({ user: toPublicUser(user) });
+    });
+
+    router.post('/logout', (req, res) => {
+        const cookies = parseCookies(req.headers.cookie);
+        const session = (cookies[REFRESH_COOKIE] && statements.sessionByRefresh.get(sha256(cookies[REFRESH_COOKIE]), nowIso()))
+            || (cookies[ACCESS_COOKIE] && statements.sessionByAccess.get(sha256(cookies[ACCESS_COOKIE]), nowIso()));
+        if (session) statements.deleteSession.run(session.id);
+        clearSessionCookies(res);
+        res.status(204).end();
+    });
+
+    router.get('/me', requireAuth, (req, res) => {
+        res.json({ user: toPublicUser(req.user) });
+    });
+
+    router.patch('/me', requireAuth, (req, res) => {
+        const { value, errors } = validate(PROFILE_SCHEMA, req.body, { partial: true });
+        if (errors.length > 0) return res.status(400).json({ error: 'Validation failed.', details: errors });
+
+        const updated = { ...req.user, ...value };
+        statements.updateUserData.run(JSON.stringify(updated), nowIso(), String(req.user.id));
+        recordRequestAudit(req, {
+            action: 'update',
+            entityType: 'users',
+            entityId: req.user.id,
+            summary: `${req.user.name} updated their profile`,
+            before: req.user,
+            after: updated,
+        });
+        res.json({ user: toPublicUser(updated) });
+    });
+
+    router.post('/change-password', requireAuth, (req, res) => {
+        const { currentPassword, newPassword } = req.body || {};
+        if (!verifyPassword(currentPassword, req.user.password)) {
+            return res.status(400).json({ error: 'Your current password is incorrect.' });
+        }
+        const passwordError = checkNewPassword(newPassword);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
+        const updated = { ...req.user, password: hashPassword(newPassword) };
+        statements.updateUserData.run(JSON.stringify(updated), nowIso(), String(req.user.id));
+        // Sign out every other device that was using the old password.
+        statements.deleteOtherUserSessions.run(String(req.user.id), req.sessionId);
+        recordRequestAudit(req, {
+            action: 'password.change',
+            entityType: 'users',
+            entityId: req.user.id,
+            summary: `${req.user.name} changed their password`,
+        });
+        res.status(204).end();
+    });
+
+    router.post('/forgot-password', async (req, res, next) => {
+        const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+        if (!email) {
+            return res.status(400).json({ error: 'Email is required.' });
+        }
+
+        // Always answer the same way so the endpoint can't be used to discover which emails have accounts.
+        const row = statements.userByEmail.get(email);
+        if (!row) return res.status(204).end();
+
+        const user = JSON.parse(row.data);
+        const token = newToken();
+        const now = nowIso();
+        db.transaction(() => {
+            statements.deleteStaleResetTokens.run(now);
+            statements.invalidateResetTokens.run(now, String(user.id));
+            statements.insertResetToken.run(sha256(token), String(user.id), isoFromNow(RESET_TOKEN_TTL_MS), now);
+        })();
+
+        try {
+            await sendResetEmail(user, `${frontendOrigin}/?resetToken=${encodeURIComponent(token)}`);
+            res.status(204).end();
+        } catch (err) {
+            next(err);
+        }
+    });
+
+    router.post('/verify-reset-token', (req, res) => {
+        const resetToken = findValidResetToken(req.body?.token);
+        const user = resetToken ? findUserById(resetToken.user_id) : null;
+        if (!user) {
+            return res.status(400).json({ error: 'This password reset link is invalid or has expired.' });
+        }
+        res.json({ email: user.email });
+    });
+
+    router.post('/reset-password', (req, res) => {
+        const { token, newPassword } = req.body || {};
+        const resetToken = findValidResetToken(token);
+        const user = resetToken ? findUserById(resetToken.user_id) : null;
+        if (!user) {
+            return res.status(400).json({ error: 'This password reset link is invalid or has expired.' });
+        }
+        const passwordError = checkNewPassword(newPassword);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
+        const updated = { ...user, password: hashPassword(newPassword) };
+        db.transaction(() => {
+            statements.updateUserData.run(JSON.stringify(updated), nowIso(), String(user.id));
+            statements.markResetTokenUsed.run(nowIso(), resetToken.token_hash);
+            // Whoever knew the old password is signed out, and the new one works straight away.
+            statements.deleteUserSessions.run(String(user.id));
+            statements.clearAttempts.run(user.email.toLowerCase());
+            recordAudit({
+                actor: user,
+                action: 'password.reset',
+                entityType: 'users',
+                entityId: user.id,
+                summary: `${user.name} reset their password with an emailed link`,
+            });
+        })();
+        res.status(204).end();
+    });
+
+    return router;
+};
+
+/**
+ * Creates the first administrator when the users table is empty.
+ * Credentials come from ADMIN_EMAIL / ADMIN_PASSWORD; a random password is generated (and printed once) otherwise.
+ */
+const ensureInitialAdmin = () => {
+    if (statements.countUsers.get().total > 0) return;
+
+    const email = process.env.ADMIN_EMAIL || 'admin@credence.com';
+    let password = process.env.ADMIN_PASSWORD;
+    if (!password) {
+        password = crypto.randomBytes(9).toString('base64url');
+        console.warn(`No users found. Created administrator ${email} with temporary password: ${password}`);
+        console.warn('Change this password after your first login.');
+    }
+
+    const admin = {
+        id: 1,
+        name: 'Administrator',
+        email,
+        employeeId: 'ADMIN-001',
+        designation: 'Administrator',
+        department: 'Management Information System (MIS)',
+        role: 'admin',
+        roleTemplateId: 'administrator',
+        permissionOverrides: {},
+        permissions: ADMIN_PERMISSIONS,
+        password: hashPassword(password),
+    };
+    const now = nowIso();
+    statements.insertUser.run(String(admin.id), JSON.stringify(admin), now, now);
+};
+
+module.exports = { createAuthRouter, requireAuth, requireAdmin, requirePermission, ensureInitialAdmin, parseCookies, deleteUserSessions: (userId) => statements.deleteUserSessions.run(String(userId)) };
@@ -0,0 +1,134 @@
+// server/caseWorkflow.js - The lifecycle of a project case (the cases resource in resources.js).
+//
+// A case is reported as Open, is assigned to someone in its liable department, worked on (In Progress),
+// resolved with a photo of the fixed site, verified and closed. Resolved, verified and closed cases can be
+// reopened. Each case is due a number of days after it was reported, depending on its priority.
+//
+// Status, assignee and resolution, and once a case is reported its name, liable department, date and
+// priority, can only be changed by users with the projectCasesList edit permission; anyone who can see a case
+// can comment on it. A case can only be assigned to a current employee of its liable department. The server stamps the due date, the status history and who
+// resolved, verified and closed a case, so clients can't set those. Workflow fields missing from a request
+// keep their stored values, so editing the original report doesn't reset the case.
+
+const { companyDate } = require('../shared/time.js');
+
+const CASE_STATUSES = ['Open', 'Assigned', 'In Progress', 'Resolved', 'Verified', 'Closed'];
+
+// The statuses each status can move to.
+const CASE_TRANSITIONS = {
+    'Open': ['Assigned'],
+    'Assigned': ['In Progress', 'Open'],
+    'In Progress': ['Resolved', 'Assigned'],
+    'Resolved': ['Verified', 'In Progress'],
+    'Verified': ['Closed', 'In Progress'],
+    'Closed': ['In Progress'],
+};
+
+// Days from the report date until a case is due, by priority.
+const CASE_SLA_DAYS = { Critical: 1, High: 3, Medium: 7, Low: 14 };
+
+// Set by clients, but only by case managers (comments aside).
+const WORKFLOW_FIELDS = ['status', 'assigneeId', 'assigneeName', 'resolutionPhoto', 'resolutionNote', 'thread'];
+const MANAGED_FIELDS = ['status', 'assigneeId', 'assigneeName', 'resolutionPhoto', 'resolutionNote'];
+// Set by whoever reports a case; afterwards only by case managers.
+const REPORTED_FIELDS = ['caseName', 'liableDept', 'date', 'priority'];
+// Set only by the server (aiSuggestion by AI triage, see aiTriage.js).
+const STAMPED_FIELDS = ['dueDate', 'statusHistory', 'resolvedAt', 'resolvedBy', 'verifiedAt', 'verifiedBy', 'closedAt', 'aiSuggestion'];
+const RESOLUTION_STAMPS = ['resolvedAt', 'resolvedBy', 'verifiedAt', 'verifiedBy', 'closedAt'];
+
+/** The date a case reported on `date` (YYYY-MM-DD) with `priority` is due. */
+const caseDueDate = (date, priority) => {
+    const due = new Date(`${date}T00:00:00Z`);
+    due.setUTCDate(due.getUTCDate() + (CASE_SLA_DAYS[priority] ?? CASE_SLA_DAYS.Medium));
+    return due.toISOString().slice(0, 10);
+};
+
+const copyField = (target, source, field) => {
+    if (source[field] === undefined) delete target[field];
+    else target[field] = source[field];
+};
+
+/** Whether an employee still works in `department`. */
+const worksIn = (employee, department) =>
+    !!employee && employee.department === department && (!employee.activeTo || employee.activeTo >= companyDate(new Date()));
+
+const newCommentId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The prepareRecord hook of the cases resource: applies the workflow rules and stamps the server-managed fields.
+ * `findEmployee` looks up the assignee by id (employees.js; resources.js passes it in).
+ */
+const prepareCase = (record, input, { existing, req, findEmployee }) => {
+    const actor = req.impersonatedUser || req.user;
+    const now = new Date().toISOString();
+    // A new case counts as moving from an empty, open case.
+    const previous = { status: 'Open', ...existing };
+    const next = { ...record };
+
+    STAMPED_FIELDS.forEach(field => copyField(next, previous, field));
+    WORKFLOW_FIELDS.filter(field => !(field in input)).forEach(field => copyField(next, previous, field));
+    next.status = next.status || 'Open';
+
+    // Comments are only ever added, and are stamped with their author.
+    const storedThread = previous.thread || [];
+    const storedIds = new Set(storedThread.map(comment => comment.id));
+    const newComments = (input.thread || [])
+        .filter(comment => comment && !storedIds.has(comment.id) && typeof comment.text === 'string' && comment.text.trim() !== '')
+        .map(comment => ({ id: newCommentId(), text: comment.text.trim(), authorId: actor.id, authorName: actor.name, at: now }));
+    next.thread = [...storedThread, ...newComments];
+    if (next.thread.length === 0) delete next.thread;
+
+    // Assigning an open case starts work on it; sending a case back to Open unassigns it.
+    if ((next.assigneeId !== undefined || next.assigneeName) && next.status === 'Open' && previous.status === 'Open') next.status = 'Assigned';
+    if (next.status === 'Open') {
+        delete next.assigneeId;
+        delete next.assigneeName;
+    }
+
+    const isChanged = (field) => JSON.stringify(next[field]) !== JSON.stringify(previous[field]);
+    const canManage = actor.permissions?.projectCasesList?.edit === true;
+    if (MANAGED_FIELDS.some(isChanged) && !canManage) {
+        return { error: { field: 'status', message: 'You do not have permission to change the status, assignee or resolution of a case.' } };
+    }
+    const changedReport = existing && REPORTED_FIELDS.find(isChanged);
+    if (changedReport && !canManage) {
+        return { error: { field: changedReport, message: 'You do not have permission to change the name, liable department, date or priority of a reported case.' } };
+    }
+
+    // The assignee is checked again when the case moves to another department.
+    if ((next.assigneeId !== undefined || next.assigneeName) && ['assigneeId', 'assigneeName', 'liableDept'].some(isChanged)) {
+        const assignee = next.assigneeId !== undefined ? findEmployee(next.assigneeId) : undefined;
+        if (!worksIn(assignee, next.liableDept)) {
+            return { error: { field: 'assigneeId', message: `Assign the case to a current employee of ${next.liableDept || 'its liable department'}.` } };
+        }
+        next.assigneeName = assignee.name;
+    }
+
+    if (next.status !== previous.status) {
+        if (!CASE_TRANSITIONS[previous.status]?.includes(next.status)) {
+            return { error: { field: 'status', message: `A case can't go from ${previous.status} to ${next.status}.` } };
+        }
+        if (['Assigned', 'In Progress'].includes(next.status) && !next.assigneeName) {
+            return { error: { field: 'assigneeName', message: 'Assign the case to someone first.' } };
+        }
+        if (next.status === 'Resolved' && !next.resolutionPhoto) {
+            return { error: { field: 'resolutionPhoto', message: 'Add a photo of the site after the fix to resolve the case.' } };
+        }
+
+        if (next.status === 'In Progress' && ['Resolved', 'Verified', 'Closed'].includes(previous.status)) {
+            RESOLUTION_STAMPS.forEach(field => delete next[field]);
+        }
+        if (next.status === 'Resolved') Object.assign(next, { resolvedAt: now, resolvedBy: actor.name });
+        if (next.status === 'Verified') Object.assign(next, { verifiedAt: now, verifiedBy: actor.name });
+        if (next.status === 'Closed') next.closedAt = now;
+    }
+
+    if (!existing || next.status !== previous.status) {
+        next.statusHistory = [...(next.statusHistory || []), { status: next.status, at: now, by: actor.name }];
+    }
+    next.dueDate = caseDueDate(next.date, next.priority);
+
+    return { record: next };
+};
+
+module.exports = { CASE_STATUSES, CASE_SLA_DAYS, caseDueDate, prepareCase };
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { caseDueDate, prepareCase } from './caseWorkflow';
+
+const manager = { id: 1, name: 'Case Manager', permissions: { projectCasesList: { view: true, edit: true } } };
+const reporter = { id: 2, name: 'Site Reporter', permissions: { projectCase: { view: true, edit: true } } };
+const employees = [
+    { id: 10, name: 'Rahim', department: 'Civil' },
+    { id: 11, name: 'Karim', department: 'Electrical' },
+    { id: 12, name: 'Salma', department: 'Civil', activeTo: '2000-01-31' },
+];
+const findEmployee = (id) => employees.find(employee => employee.id === id);
+
+const reported = { id: 1, caseName: 'Cracked slab', projectName: 'Tower A', liableDept: 'Civil', reporter: 'Site Reporter', date: '2025-07-01', category: 'Structural', priority: 'High' };
+
+/** Saves `input` over `existing` as `actor`, as the cases resource would. */
+const save = (input, { existing, actor = manager } = {}) =>
+    prepareCase({ ...existing, ...input }, input, { existing, req: { user: actor }, findEmployee });
+
+/** A stored case that has gone through `statuses` in turn. */
+const caseThrough = (...statuses) => statuses.reduce((existing, status) => {
+    const extra = status === 'Assigned' ? { assigneeId: 10 } : status === 'Resolved' ? { resolutionPhoto: 'data:image/jpeg;base64,' } : {};
+    const { record, error } = save({ ...existing, status, ...extra }, { existing });
+    expect(error).toBeUndefined();
+    return record;
+}, save(reported, { actor: reporter }).record);
+
+describe('caseDueDate', () => {
+    it('adds the days for the priority to the report date', () => {
+        expect(caseDueDate('2025-07-01', 'Critical')).toBe('2025-07-02');
+        expect(caseDueDate('2025-07-01', 'High')).toBe('2025-07-04');
+        expect(caseDueDate('2025-07-01', 'Medium')).toBe('2025-07-08');
+        expect(caseDueDate('2025-12-25', 'Low')).toBe('2026-01-08');
+    });
+
+    it('gives an unknown priority the Medium due date', () => {
+        expect(caseDueDate('2025-07-01', 'Whenever')).toBe('2025-07-08');
+    });
+});
+
+describe('prepareCase', () => {
+    it('files a new case as Open, due by its priority, with its first status change', () => {
+        const { record } = save({ ...reported, dueDate: '2030-01-01', resolvedBy: 'Someone' }, { actor: reporter });
+        expect(record.status).toBe('Open');
+        expect(record.dueDate).toBe('2025-07-04');
+        expect(record.resolvedBy).toBeUndefined();
+        expect(record.statusHistory).toEqual([{ status: 'Open', at: expect.any(String), by: 'Site Reporter' }]);
+    });
+
+    it('moves a case through its workflow and stamps who resolved and verified it', () => {
+        const closed = caseThrough('Assigned', 'In Progress', 'Resolved', 'Verified', 'Closed');
+        expect(closed.statusHistory.map(change => change.status)).toEqual(['Open', 'Assigned', 'In Progress', 'Resolved', 'Verified', 'Closed']);
+        expect(closed).toMatchObject({ assigneeName: 'Rahim', resolvedBy: 'Case Manager', verifiedBy: 'Case Manager' });
+        expect(closed.closedAt).toEqual(expect.any(String));
+    });
+
+    it("refuses moves the workflow doesn't allow", () => {
+        const existing = caseThrough('Assigned');
+        expect(save({ ...existing, status: 'Closed' }, { existing }).error).toEqual({ field: 'status', message: "A case can't go from Assigned to Closed." });
+    });
+
+    it('needs a photo of the fix to resolve a case', () => {
+        const existing = caseThrough('Assigned', 'In Progress');
+        expect(save({ ...existing, status: 'Resolved' }, { existing }).error?.field).toBe('resolutionPhoto');
+    });
+
+    it('clears the resolution stamps when a resolved case is reopened', () => {
+        const existing = caseThrough('Assigned', 'In Progress', 'Resolved', 'Verified');
+        const { record } = save({ ...existing, status: 'In Progress' }, { existing });
+        expect(record.resolvedAt).toBeUndefined();
+        expect(record.verifiedBy).toBeUndefined();
+    });
+
+    it('assigns an open case and unassigns a case sent back to Open', () => {
+        const open = caseThrough();
+        const { record: assigned } = save({ ...open, assigneeId: 10 }, { existing: open });
+        expect(assigned).toMatchObject({ status: 'Assigned', assigneeName: 'Rahim' });
+        const { record: reopened } = save({ ...assigned, status: 'Open' }, { existing: assigned });
+        expect(reopened.assigneeId).toBeUndefined();
+        expect(reopened.assigneeName).toBeUndefined();
+    });
+
+    it('only assigns current employees of the liable department', () => {
+        const open = caseThrough();
+        expect(save({ ...open, assigneeId: 11 }, { existing: open }).error?.field).toBe('assigneeId');
+        expect(save({ ...open, assigneeId: 12 }, { existing: open }).error?.field).toBe('assigneeId');
+        expect(save({ ...open, assigneeId: 99 }, { existing: open }).error?.field).toBe('assigneeId');
+    });
+
+    it('checks the assignee again when the case moves to another department', () => {
+        const existing = caseThrough('Assigned');
+        expect(save({ ...existing, liableDept: 'Electrical' }, { existing }).error?.field).toBe('assigneeId');
+        expect(save({ ...existing, liableDept: 'Electrical', assigneeId: 11 }, { existing }).record?.assigneeName).toBe('Karim');
+    });
+
+    it('only lets case managers change the workflow or the reported fields', () => {
+        const existing = caseThrough();
+        expect(save({ ...existing, assigneeId: 10 }, { existing, actor: reporter }).error?.field).toBe('status');
+        expect(save({ ...existing, priority: 'Low' }, { existing, actor: reporter }).error?.field).toBe('priority');
+        expect(save({ ...existing, priority: 'Low' }, { existing }).record?.dueDate).toBe('2025-07-15');
+    });
+
+    it('keeps the stored workflow when a request leaves it out, and adds comments with their author', () => {
+        const existing = caseThrough('Assigned');
+        const { status, assigneeId, assigneeName, thread, ...report } = existing;
+        const { record } = save({ ...report, comments: 'Still cracked', thread: [{ id: 'new', text: ' On it ' }] }, { existing, actor: reporter });
+        expect(record).toMatchObject({ status: 'Assigned', assigneeName: 'Rahim' });
+        expect(record.thread).toEqual([{ id: expect.any(String), text: 'On it', authorId: 2, authorName: 'Site Reporter', at: expect.any(String) }]);
+    });
+});
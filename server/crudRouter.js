@@ -0,0 +1,367 @@
+// server/crudRouter.js - Builds a CRUD router for a resource defined in resources.js.
+//
+//   GET    <path>        List records. Query: page, pageSize, project, zone, from, to (YYYY-MM-DD).
+//   GET    <path>/:id    Fetch one record.
+//   POST   <path>        Create a record. An id is assigned when the body has none.
+//   PUT    <path>/:id    Replace a record.
+//   PATCH  <path>/:id    Merge fields into a record.
+//   DELETE <path>/:id    Delete a record.
+//   POST   <path>/bulk   Resources with bulkWrites only. Body: { save: [records], delete: [ids] }. Deletes the
+//                        records and creates or replaces the others (by id), in one transaction: a refused record
+//                        refuses them all, with its position in `item`. Answers { saved: [records], deleted: [ids] }.
+//
+// Every create, update and delete is written to the audit log (see audit.js) with the table name as the entity type;
+// a bulk change is written as one "bulk" entry with the ids it created, updated and deleted.
+//
+// Resources with a projectField are limited to the requesting user's data scope (see dataScope.js):
+// records outside it are listed as if they didn't exist, and creating or moving a record out of it is refused.
+// A resource's optional departmentField names the record field the scope's departments apply to.
+//
+// Resources with linksToProjects store the id of the project their projectField names, and take the
+// project's own name, before the scope is checked (see projectLinks.js).
+//
+// Resources with an ownerField belong to the user who created them: the field is set to { id, name } of the
+// signed-in user (or the user an administrator is switched into) and can't be changed. Users see their own
+// records and, with a sharedField, the records others have shared; only the owner can change or delete one.
+//
+// Resources with a deletePermission can only be deleted by users with that module's edit permission, on top of
+// the resource's own permission (see api.js).
+//
+// Single-record responses carry an ETag with the record's version. PUT, PATCH and DELETE honour If-Match,
+// answering 412 with the current record when it changed since that version (e.g. edited on another device).
+//
+// Optional resource hooks:
+//   prepareInput(value)            Transforms validated input (e.g. hashes a password).
+//   prepareRecord(record, input, { existing, req })
+//                                  Returns { record } for the full record about to be saved, or { error: { field, message } }.
+//                                  `existing` is the stored record on updates and null on create.
+//   canDelete(record, { req })     Returns a message explaining why the record can't be deleted (409), or null.
+//   afterWrite(record, { input, deleted, req, previous })
+//                                  Runs after a successful write. `previous` is the stored record an update replaced.
+
+const express = require('express');
+const { db } = require('./database');
+const { validate, isValidDate } = require('./validation');
+const { recordRequestAudit } = require('./audit');
+const { requestScope, isInScope, scopeClauses } = require('./dataScope');
+const { linkToProject } = require('./projectLinks');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const toPositiveInt = (value, fallback) => {
+    const parsed = parseInt(value, 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Thrown inside a bulk write's transaction to roll it back; `item` says which record was refused.
+class BulkWriteRefused extends Error {
+    constructor(failure, item) {
+        super(failure.body.error);
+        this.failure = { ...failure, body: { ...failure.body, item } };
+    }
+}
+
+/**
+ * Creates an express router exposing CRUD endpoints for one resource.
+ * @param {object} resource A resource definition from resources.js.
+ */
+const createCrudRouter = (resource) => {
+    const router = express.Router();
+    const {
+        table, schema, idType, projectField, zoneField, dateField, departmentField, labelField, linksToProjects,
+        hiddenFields = [], uniqueFields = [], ownerField, sharedField, deletePermission, bulkWrites,
+        prepareInput = (value) => value,
+        prepareRecord = (record) => ({ record }),
+        canDelete = () => null,
+        afterWrite = () => {},
+    } = resource;
+
+    const findZoneForProject = db.prepare('SELECT zone FROM projects WHERE project_name = ? LIMIT 1');
+    const selectById = db.prepare(`SELECT data, updated_at FROM ${table} WHERE id = ?`);
+    const insertRow = db.prepare(`
+        INSERT INTO ${table} (id, project_name, zone, record_date, data, created_at, updated_at)
+        VALUES (@id, @projectName, @zone, @recordDate, @data, @now, @now)
+    `);
+    const updateRow = db.prepare(`
+        UPDATE ${table} SET project_name = @projectName, zone = @zone, record_date = @recordDate, data = @data, updated_at = @now
+        WHERE id = @id
+    `);
+    const deleteRow = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    const nextNumericId = db.prepare(`SELECT COALESCE(MAX(CAST(id AS INTEGER)), 0) + 1 AS nextId FROM ${table}`);
+
+    const toResponse = (record) => {
+        const copy = { ...record };
+        hiddenFields.forEach(field => delete copy[field]);
+        return copy;
+    };
+
+    // Columns copied out of the record for filtering.
+    const indexColumns = (record) => {
+        const projectName = projectField ? record[projectField] ?? null : null;
+        let zone = zoneField ? record[zoneField] ?? null : null;
+        if (!zone && projectName && table !== 'projects') {
+            zone = findZoneForProject.get(projectName)?.zone ?? null;
+        }
+        const rawDate = dateField ? record[dateField] : null;
+        let recordDate = null;
+        if (typeof rawDate === 'string') {
+            const datePart = rawDate.slice(0, 10);
+            recordDate = isValidDate(datePart) ? datePart : null;
+        }
+        return { projectName, zone, recordDate };
+    };
+
+    const link = (record) => (linksToProjects ? linkToProject(record, projectField) : record);
+
+    const scopeOf = (req) => (projectField ? requestScope(req) : null);
+    const inScope = (req, record) => isInScope(scopeOf(req), {
+        ...indexColumns(record),
+        department: departmentField ? record[departmentField] : null,
+    });
+    const actingUser = (req) => req.impersonatedUser || req.user;
+    const ownsRecord = (req, record) => !ownerField || record[ownerField]?.id === actingUser(req).id;
+    const canSee = (req, record) => inScope(req, record) && (ownsRecord(req, record) || (!!sharedField && record[sharedField] === true));
+    const ownerClause = (req, params) => {
+        params.ownerId = actingUser(req).id;
+        const own = `json_extract(data, '$.${ownerField}.id') = @ownerId`;
+        return sharedField ? `(${own} OR json_extract(data, '$.${sharedField}') = 1)` : own;
+    };
+    const findDuplicate = (record, excludeId) => uniqueFields.find(field => {
+        if (record[field] === undefined) return false;
+        const row = db.prepare(`SELECT id FROM ${table} WHERE lower(json_extract(data, '$.${field}')) = lower(?) AND id != ? LIMIT 1`)
+            .get(String(record[field]), String(excludeId ?? ''));
+        return !!row;
+    });
+
+    const audit = (req, action, { before, after }) => {
+        const record = after || before;
+        const label = labelField && record[labelField] ? ` (${record[labelField]})` : '';
+        const verb = { create: 'Created', update: 'Updated', delete: 'Deleted' }[action];
+        recordRequestAudit(req, {
+            action,
+            entityType: table,
+            entityId: record.id,
+            summary: `${verb} ${table} record ${record.id}${label}`,
+            before,
+            after,
+        });
+    };
+
+    const toEtag = (version) => `"${version}"`;
+
+    // Returns false (after answering 412) when the client's If-Match doesn't match the stored version.
+    const checkVersion = (req, res, row) => {
+        const expected = req.get('If-Match');
+        if (!expected || expected === toEtag(row.updated_at)) return true;
+        res.set('ETag', toEtag(row.updated_at));
+        res.status(412).json({ error: 'This record was changed by someone else since you opened it.', current: toResponse(JSON.parse(row.data)) });
+        return false;
+    };
+
+    const sendValidationError = (res, errors) => res.status(400).json({ error: 'Validation failed.', details: errors });
+
+    const save = (candidate, input, { existing, req }) => {
+        const isNew = !existing;
+        const prepared = prepareRecord(candidate, input, { existing, req });
+        if (prepared.error) return prepared;
+        const { record } = prepared;
+        const duplicateField = findDuplicate(record, isNew ? null : record.id);
+        if (duplicateField) {
+            return { error: { field: duplicateField, message: `A record with this ${duplicateField} already exists.` } };
+        }
+        const params = { id: String(record.id), ...indexColumns(record), data: JSON.stringify(record), now: new Date().toISOString() };
+        (isNew ? insertRow : updateRow).run(params);
+        return { record, version: params.now };
+    };
+
+    // The writes below are shared by the single-record routes and /bulk. Each returns what it wrote, or
+    // { failure: { status, body } } for the response that refuses it.
+    const refuse = (status, body) => ({ failure: { status, body } });
+    const refuseInvalid = (errors) => refuse(400, { error: 'Validation failed.', details: errors });
+    const NOT_FOUND = { error: 'Record not found.' };
+    const NOT_OWNER = { error: 'Only the user who created this record can change it.' };
+    const OUT_OF_SCOPE = { error: 'This record is outside the zones, projects or departments you have access to.' };
+
+    const createRecord = (req, body) => {
+        const { value: input, errors } = validate(schema, body);
+        if (errors.length > 0) return refuseInvalid(errors);
+        const value = link(prepareInput(input));
+
+        if (value.id === undefined) {
+            value.id = idType === 'string' ? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` : nextNumericId.get().nextId;
+        } else if (selectById.get(String(value.id))) {
+            return refuse(409, { error: `A record with id ${value.id} already exists.` });
+        }
+        if (!inScope(req, value)) return refuse(403, OUT_OF_SCOPE);
+        if (ownerField) value[ownerField] = { id: actingUser(req).id, name: actingUser(req).name };
+
+        const result = save(value, input, { existing: null, req });
+        if (result.error) return refuseInvalid([result.error]);
+        return { ...result, input };
+    };
+
+    // `existing` has already been checked to be visible to the user.
+    const updateRecord = (req, existing, body, { partial }) => {
+        if (!ownsRecord(req, existing)) return refuse(403, NOT_OWNER);
+        const { value: input, errors } = validate(schema, body, { partial });
+        if (errors.length > 0) return refuseInvalid(errors);
+        const value = prepareInput(input);
+
+        // The stored id is authoritative; hidden fields are kept unless explicitly replaced.
+        const preserved = Object.fromEntries(hiddenFields.filter(f => existing[f] !== undefined).map(f => [f, existing[f]]));
+        const record = link(partial
+            ? { ...existing, ...value, id: existing.id }
+            : { ...preserved, ...value, id: existing.id });
+        if (ownerField) record[ownerField] = existing[ownerField];
+        if (!inScope(req, record)) return refuse(403, OUT_OF_SCOPE);
+
+        const result = save(record, input, { existing, req });
+        if (result.error) return refuseInvalid([result.error]);
+        return { ...result, input };
+    };
+
+    // `existing` has already been checked to be visible to the user.
+    const deleteRecord = (req, existing) => {
+        if (!ownsRecord(req, existing)) return refuse(403, NOT_OWNER);
+        if (deletePermission && actingUser(req).permissions?.[deletePermission]?.edit !== true) {
+            return refuse(403, { error: 'You do not have permission to delete this record.' });
+        }
+        const conflict = canDelete(existing, { req });
+        if (conflict) return refuse(409, { error: conflict });
+        deleteRow.run(String(existing.id));
+        return { record: existing };
+    };
+
+    const sendFailure = (res, { status, body }) => res.status(status).json(body);
+
+    router.get('/', (req, res) => {
+        const page = toPositiveInt(req.query.page, 1);
+        const pageSize = Math.min(toPositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const { project, zone, from, to } = req.query;
+
+        const invalid = [['from', from], ['to', to]].filter(([, value]) => value && !isValidDate(value));
+        if (invalid.length > 0) {
+            return sendValidationError(res, invalid.map(([field]) => ({ field, message: `"${field}" must be a date in YYYY-MM-DD format.` })));
+        }
+
+        const { clauses, params } = scopeClauses(scopeOf(req), departmentField);
+        if (project) { clauses.push('project_name = @project'); params.project = project; }
+        if (zone) { clauses.push('zone = @zone'); params.zone = zone; }
+        if (from) { clauses.push('record_date >= @from'); params.from = from; }
+        if (to) { clauses.push('record_date <= @to'); params.to = to; }
+        if (ownerField) clauses.push(ownerClause(req, params));
+        const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+        const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${table} ${where}`).get(params);
+        const rows = db.prepare(`
+            SELECT data FROM ${table} ${where}
+            ORDER BY record_date DESC, created_at DESC
+            LIMIT @limit OFFSET @offset
+        `).all({ ...params, limit: pageSize, offset: (page - 1) * pageSize });
+
+        res.json({ data: rows.map(row => toResponse(JSON.parse(row.data))), total, page, pageSize });
+    });
+
+    router.get('/:id', (req, res) => {
+        const row = selectById.get(req.params.id);
+        const record = row ? JSON.parse(row.data) : null;
+        if (!record || !canSee(req, record)) return res.status(404).json({ error: 'Record not found.' });
+        res.set('ETag', toEtag(row.updated_at)).json(toResponse(record));
+    });
+
+    router.post('/', (req, res) => {
+        const result = createRecord(req, req.body);
+        if (result.failure) return sendFailure(res, result.failure);
+        audit(req, 'create', { after: result.record });
+        afterWrite(result.record, { input: result.input, deleted: false, req });
+        res.status(201).set('ETag', toEtag(result.version)).json(toResponse(result.record));
+    });
+
+    const update = (partial) => (req, res) => {
+        const row = selectById.get(req.params.id);
+        const existing = row ? JSON.parse(row.data) : null;
+        if (!existing || !canSee(req, existing)) return res.status(404).json(NOT_FOUND);
+        if (!ownsRecord(req, existing)) return res.status(403).json(NOT_OWNER);
+        if (!checkVersion(req, res, row)) return;
+
+        const result = updateRecord(req, existing, req.body, { partial });
+        if (result.failure) return sendFailure(res, result.failure);
+        audit(req, 'update', { before: existing, after: result.record });
+        afterWrite(result.record, { input: result.input, deleted: false, req, previous: existing });
+        res.set('ETag', toEtag(result.version)).json(toResponse(result.record));
+    };
+
+    router.put('/:id', update(false));
+    router.patch('/:id', update(true));
+
+    router.delete('/:id', (req, res) => {
+        const row = selectById.get(req.params.id);
+        const existing = row ? JSON.parse(row.data) : null;
+        if (!existing || !canSee(req, existing)) return res.status(404).json(NOT_FOUND);
+        if (!ownsRecord(req, existing)) return res.status(403).json(NOT_OWNER);
+        if (!checkVersion(req, res, row)) return;
+        const result = deleteRecord(req, existing);
+        if (result.failure) return sendFailure(res, result.failure);
+        audit(req, 'delete', { before: existing });
+        afterWrite(existing, { input: null, deleted: true, req });
+        res.status(204).end();
+    });
+
+    if (bulkWrites) {
+        router.post('/bulk', (req, res) => {
+            const { save: bodies = [], delete: ids = [] } = req.body ?? {};
+            if (!Array.isArray(bodies) || !Array.isArray(ids)) {
+                return sendValidationError(res, [{ field: 'save', message: '"save" and "delete" must be arrays.' }]);
+            }
+            const created = [];
+            const updated = [];
+            const deleted = [];
+            try {
+                db.transaction(() => {
+                    ids.forEach((id, index) => {
+                        const row = selectById.get(String(id));
+                        const existing = row ? JSON.parse(row.data) : null;
+                        const result = existing && canSee(req, existing) ? deleteRecord(req, existing) : refuse(404, NOT_FOUND);
+                        if (result.failure) throw new BulkWriteRefused(result.failure, { delete: index, id });
+                        deleted.push(result.record);
+                    });
+                    bodies.forEach((body, index) => {
+                        const row = body?.id !== undefined ? selectById.get(String(body.id)) : undefined;
+                        const existing = row ? JSON.parse(row.data) : null;
+                        let result;
+                        if (!existing) result = createRecord(req, body);
+                        else if (!canSee(req, existing)) result = refuse(404, NOT_FOUND);
+                        else result = updateRecord(req, existing, body, { partial: false });
+                        if (result.failure) throw new BulkWriteRefused(result.failure, { save: index, id: body?.id });
+                        (existing ? updated : created).push({ before: existing, ...result });
+                    });
+                })();
+            } catch (err) {
+                if (err instanceof BulkWriteRefused) return sendFailure(res, err.failure);
+                throw err;
+            }
+
+            const counts = [[created, 'created'], [updated, 'updated'], [deleted, 'deleted']]
+                .filter(([items]) => items.length > 0)
+                .map(([items, verb]) => `${verb} ${items.length}`);
+            recordRequestAudit(req, {
+                action: 'bulk',
+                entityType: table,
+                summary: `Bulk change of ${table} records: ${counts.join(', ') || 'nothing'}`,
+                after: {
+                    created: created.map(item => item.record.id),
+                    updated: updated.map(item => item.record.id),
+                    deleted: deleted.map(record => record.id),
+                },
+            });
+            [...created, ...updated].forEach(item => afterWrite(item.record, { input: item.input, deleted: false, req, previous: item.before ?? undefined }));
+            deleted.forEach(record => afterWrite(record, { input: null, deleted: true, req }));
+            res.json({ saved: [...created, ...updated].map(item => toResponse(item.record)), deleted: deleted.map(record => record.id) });
+        });
+    }
+
+    return router;
+};
+
+module.exports = { createCrudRouter };
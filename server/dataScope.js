@@ -0,0 +1,77 @@
+// server/dataScope.js - Limits the records a user can see to some zones, projects and departments.
+// Mirrors utils/dataScope.ts.
+//
+// A user's `dataScope` is { zones, projects, departments }, each a list of allowed values. An empty
+// list places no restriction on that dimension. Records without a zone or project are hidden from
+// users limited by zone or project; records without a department are not limited by department.
+
+const SCOPE_FIELDS = ['zones', 'projects', 'departments'];
+
+/**
+ * Checks the shape of a submitted data scope.
+ * @returns {string|null} A validation message, or null when the scope is valid.
+ */
+const checkDataScope = (scope) => {
+    if (scope === undefined) return null;
+    const badField = SCOPE_FIELDS.find(field => scope[field] !== undefined
+        && (!Array.isArray(scope[field]) || scope[field].some(item => typeof item !== 'string')));
+    return badField ? `"dataScope.${badField}" must be a list of strings.` : null;
+};
+
+/** Fills in missing lists, trims entries and drops blanks and duplicates. */
+const normalizeDataScope = (scope) => (scope === undefined ? undefined : Object.fromEntries(SCOPE_FIELDS.map(field => [
+    field,
+    [...new Set((scope[field] || []).map(item => item.trim()).filter(Boolean))],
+])));
+
+/** A user's scope, or null when it places no restriction. */
+const userScope = (user) => {
+    const scope = normalizeDataScope(user?.dataScope);
+    return scope && SCOPE_FIELDS.some(field => scope[field].length > 0) ? scope : null;
+};
+
+/**
+ * The scope that applies to a request. While an administrator is signed in as another user,
+ * they see that user's records.
+ */
+const requestScope = (req) => userScope(req.impersonatedUser ?? req.user);
+
+/**
+ * Whether a record is within a scope.
+ * @param {{ zones: string[], projects: string[], departments: string[] } | null} scope
+ * @param {{ projectName: string|null, zone: string|null, department?: string|null }} record
+ */
+const isInScope = (scope, { projectName, zone, department }) => {
+    if (!scope) return true;
+    if (scope.zones.length > 0 && !scope.zones.includes(zone)) return false;
+    if (scope.projects.length > 0 && !scope.projects.includes(projectName)) return false;
+    if (scope.departments.length > 0 && department && !scope.departments.includes(department)) return false;
+    return true;
+};
+
+/**
+ * SQL conditions restricting a record table (see database.js) to a scope.
+ * @param {string|undefined} departmentField The record field holding a department, if any.
+ * @returns {{ clauses: string[], params: object }}
+ */
+const scopeClauses = (scope, departmentField) => {
+    const clauses = [];
+    const params = {};
+    if (!scope) return { clauses, params };
+    if (scope.zones.length > 0) {
+        clauses.push('zone IN (SELECT value FROM json_each(@scopeZones))');
+        params.scopeZones = JSON.stringify(scope.zones);
+    }
+    if (scope.projects.length > 0) {
+        clauses.push('project_name IN (SELECT value FROM json_each(@scopeProjects))');
+        params.scopeProjects = JSON.stringify(scope.projects);
+    }
+    if (scope.departments.length > 0 && departmentField) {
+        const department = `json_extract(data, '$.${departmentField}')`;
+        clauses.push(`(COALESCE(${department}, '') = '' OR ${department} IN (SELECT value FROM json_each(@scopeDepartments)))`);
+        params.scopeDepartments = JSON.stringify(scope.departments);
+    }
+    return { clauses, params };
+};
+
+module.exports = { checkDataScope, normalizeDataScope, userScope, requestScope, isInScope, scopeClauses };
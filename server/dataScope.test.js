@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { checkDataScope, normalizeDataScope, userScope, requestScope, isInScope, scopeClauses } from './dataScope';
+
+const scope = { zones: ['Dhaka'], projects: ['Tower A', 'Tower B'], departments: ['Civil'] };
+
+describe('checkDataScope', () => {
+    it('accepts lists of strings and a missing scope', () => {
+        expect(checkDataScope(undefined)).toBeNull();
+        expect(checkDataScope({ zones: ['Dhaka'] })).toBeNull();
+    });
+
+    it('names the first field that is not a list of strings', () => {
+        expect(checkDataScope({ zones: 'Dhaka' })).toBe('"dataScope.zones" must be a list of strings.');
+        expect(checkDataScope({ zones: [], projects: [1] })).toBe('"dataScope.projects" must be a list of strings.');
+    });
+});
+
+describe('userScope', () => {
+    it('fills in missing lists, trims entries and drops blanks and duplicates', () => {
+        expect(normalizeDataScope({ projects: [' Tower A', 'Tower A', ''] })).toEqual({ zones: [], projects: ['Tower A'], departments: [] });
+        expect(userScope({ dataScope: { zones: ['Dhaka '] } })).toEqual({ zones: ['Dhaka'], projects: [], departments: [] });
+    });
+
+    it('places no restriction on users without a scope or with empty lists', () => {
+        expect(userScope({})).toBeNull();
+        expect(userScope({ dataScope: { zones: [], projects: [' '] } })).toBeNull();
+    });
+
+    it("uses the impersonated user's scope", () => {
+        expect(requestScope({ user: {}, impersonatedUser: { dataScope: scope } })).toEqual(scope);
+        expect(requestScope({ user: { dataScope: scope } })).toEqual(scope);
+    });
+});
+
+describe('isInScope', () => {
+    it('lets every record through without a scope', () => {
+        expect(isInScope(null, { projectName: null, zone: null })).toBe(true);
+    });
+
+    it('needs the zone and project to be listed', () => {
+        expect(isInScope(scope, { projectName: 'Tower A', zone: 'Dhaka', department: 'Civil' })).toBe(true);
+        expect(isInScope(scope, { projectName: 'Tower A', zone: 'Chattogram', department: 'Civil' })).toBe(false);
+        expect(isInScope(scope, { projectName: 'Tower C', zone: 'Dhaka', department: 'Civil' })).toBe(false);
+        expect(isInScope(scope, { projectName: null, zone: null })).toBe(false);
+    });
+
+    it('only limits records that have a department by department', () => {
+        expect(isInScope(scope, { projectName: 'Tower B', zone: 'Dhaka', department: 'Electrical' })).toBe(false);
+        expect(isInScope(scope, { projectName: 'Tower B', zone: 'Dhaka', department: null })).toBe(true);
+        expect(isInScope({ ...scope, departments: [] }, { projectName: 'Tower B', zone: 'Dhaka', department: 'Electrical' })).toBe(true);
+    });
+});
+
+describe('scopeClauses', () => {
+    it('adds no conditions without a scope', () => {
+        expect(scopeClauses(null, 'liableDept')).toEqual({ clauses: [], params: {} });
+    });
+
+    it('limits the zone, project and department columns to the lists', () => {
+        const { clauses, params } = scopeClauses(scope, 'liableDept');
+        expect(clauses).toHaveLength(3);
+        expect(clauses[2]).toContain("json_extract(data, '$.liableDept')");
+        expect(params).toEqual({ scopeZones: '["Dhaka"]', scopeProjects: '["Tower A","Tower B"]', scopeDepartments: '["Civil"]' });
+    });
+
+    it("ignores the departments for records that don't have one", () => {
+        expect(scopeClauses(scope, undefined).params).not.toHaveProperty('scopeDepartments');
+    });
+});
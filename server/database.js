@@ -0,0 +1,322 @@
+// server/database.js - Embedded SQLite storage for the REST API.
+// Each record type lives in its own table. The full record is kept as JSON in `data`,
+// and the columns used for filtering (project, zone, date) are copied out and indexed.
+
+const path = require('path');
+// Requires: npm install better-sqlite3
+const Database = require('better-sqlite3');
+const { DEFAULT_ROLE_TEMPLATES, diffPermissions } = require('./permissions');
+const { CASE_SLA_DAYS } = require('./caseWorkflow');
+const { DEFAULT_PROJECTS, DEFAULT_DUTY_POLICIES, DEFAULT_CALENDAR_ENTRIES } = require('./defaultRecords');
+
+const DB_FILE = process.env.DB_FILE || path.join(__dirname, '..', 'precision.sqlite');
+
+const db = new Database(DB_FILE);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+const RECORD_TABLES = ['visits', 'cases', 'material_receipts', 'erp_corrections', 'it_issues', 'projects', 'users'];
+
+const createRecordTable = (table) => `
+    CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY,
+        project_name TEXT,
+        zone TEXT,
+        record_date TEXT,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_${table}_project ON ${table} (project_name);
+    CREATE INDEX IF NOT EXISTS idx_${table}_zone ON ${table} (zone);
+    CREATE INDEX IF NOT EXISTS idx_${table}_date ON ${table} (record_date);
+`;
+
+// Schema migrations, applied in order and tracked with SQLite's `user_version` pragma.
+// Never edit a migration that has shipped; append a new one instead.
+const MIGRATIONS = [
+    {
+        version: 1,
+        description: 'Create record tables',
+        up: () => RECORD_TABLES.forEach(table => db.exec(createRecordTable(table))),
+    },
+    {
+        version: 2,
+        description: 'Create session and login-attempt tables',
+        up: () => db.exec(`
+            CREATE TABLE sessions (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL,
+                access_hash TEXT NOT NULL UNIQUE,
+                access_expires_at TEXT NOT NULL,
+                refresh_hash TEXT NOT NULL UNIQUE,
+                refresh_expires_at TEXT NOT NULL,
+                created_at TEXT NOT NULL,
+                last_used_at TEXT NOT NULL
+            );
+            CREATE INDEX idx_sessions_user ON sessions (user_id);
+            CREATE TABLE login_attempts (
+                email TEXT PRIMARY KEY,
+                failed_count INTEGER NOT NULL DEFAULT 0,
+                locked_until TEXT
+            );
+        `),
+    },
+    {
+        version: 3,
+        description: 'Create password reset token table',
+        up: () => db.exec(`
+            CREATE TABLE password_reset_tokens (
+                token_hash TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL,
+                expires_at TEXT NOT NULL,
+                used_at TEXT,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX idx_password_reset_tokens_user ON password_reset_tokens (user_id);
+        `),
+    },
+    {
+        version: 4,
+        description: 'Create append-only audit log',
+        up: () => db.exec(`
+            CREATE TABLE audit_log (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                occurred_at TEXT NOT NULL,
+                actor_id TEXT,
+                actor_name TEXT,
+                impersonated_user_id TEXT,
+                impersonated_user_name TEXT,
+                action TEXT NOT NULL,
+                entity_type TEXT NOT NULL,
+                entity_id TEXT,
+                summary TEXT,
+                before_json TEXT,
+                after_json TEXT,
+                changes_json TEXT,
+                source TEXT NOT NULL
+            );
+            CREATE INDEX idx_audit_log_occurred ON audit_log (occurred_at);
+            CREATE INDEX idx_audit_log_entity ON audit_log (entity_type, entity_id);
+            CREATE INDEX idx_audit_log_actor ON audit_log (actor_id);
+            CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+                BEGIN SELECT RAISE(ABORT, 'The audit log is append-only.'); END;
+            CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+                BEGIN SELECT RAISE(ABORT, 'The audit log is append-only.'); END;
+        `),
+    },
+    {
+        version: 5,
+        description: 'Create role templates and assign existing users to them',
+        up: () => {
+            db.exec(createRecordTable('role_templates'));
+            const now = new Date().toISOString();
+            const insertTemplate = db.prepare('INSERT INTO role_templates (id, data, created_at, updated_at) VALUES (?, ?, ?, ?)');
+            DEFAULT_ROLE_TEMPLATES.forEach(t => insertTemplate.run(t.id, JSON.stringify(t), now, now));
+
+            // Existing users keep their exact permissions, recorded as overrides of the matching template.
+            const templatesById = Object.fromEntries(DEFAULT_ROLE_TEMPLATES.map(t => [t.id, t]));
+            const updateUser = db.prepare('UPDATE users SET data = ?, updated_at = ? WHERE id = ?');
+            db.prepare('SELECT id, data FROM users').all().forEach(row => {
+                const user = JSON.parse(row.data);
+                const templateId = user.role === 'admin' ? 'administrator' : 'standard-user';
+                const templatePermissions = templatesById[templateId].permissions;
+                const migrated = {
+                    ...user,
+                    roleTemplateId: templateId,
+                    permissionOverrides: diffPermissions(templatePermissions, user.permissions || templatePermissions),
+                };
+                updateUser.run(JSON.stringify(migrated), now, row.id);
+            });
+        },
+    },
+    {
+        version: 6,
+        description: 'Create report schedules, the report archive and published report datasets',
+        up: () => {
+            db.exec(createRecordTable('report_schedules'));
+            db.exec(`
+                CREATE TABLE report_archive (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    schedule_id TEXT,
+                    schedule_name TEXT NOT NULL,
+                    report_type TEXT NOT NULL,
+                    title TEXT NOT NULL,
+                    period TEXT NOT NULL,
+                    file_name TEXT NOT NULL,
+                    pdf BLOB NOT NULL,
+                    recipients_json TEXT NOT NULL,
+                    delivery_status TEXT NOT NULL,
+                    delivery_error TEXT,
+                    generated_at TEXT NOT NULL,
+                    generated_by TEXT
+                );
+                CREATE INDEX idx_report_archive_generated ON report_archive (generated_at);
+                CREATE INDEX idx_report_archive_schedule ON report_archive (schedule_id);
+                CREATE TABLE report_datasets (
+                    name TEXT PRIMARY KEY,
+                    data TEXT NOT NULL,
+                    record_count INTEGER NOT NULL,
+                    published_at TEXT NOT NULL,
+                    published_by TEXT
+                );
+            `);
+            // Administrators get the new reports permission, on their template and on themselves.
+            const grantReports = `json_set(data, '$.permissions.reports', json('{"view":true,"edit":true}'))`;
+            db.exec(`
+                UPDATE role_templates SET data = ${grantReports} WHERE json_extract(data, '$.role') = 'admin';
+                UPDATE users SET data = ${grantReports} WHERE json_extract(data, '$.role') = 'admin';
+            `);
+        },
+    },
+    {
+        version: 7,
+        description: 'Create saved filter presets',
+        up: () => db.exec(createRecordTable('filter_presets')),
+    },
+    {
+        version: 8,
+        description: 'Open existing project cases with a due date and let administrators manage cases',
+        up: () => {
+            // Cases reported before the workflow existed start out Open, due by their priority.
+            const slaDays = Object.entries(CASE_SLA_DAYS).map(([priority, days]) => `WHEN '${priority}' THEN ${days}`).join(' ');
+            db.exec(`
+                UPDATE cases SET data = json_set(data,
+                    '$.status', 'Open',
+                    '$.dueDate', date(json_extract(data, '$.date'), '+' || (CASE json_extract(data, '$.priority') ${slaDays} ELSE ${CASE_SLA_DAYS.Medium} END) || ' days'))
+                WHERE json_extract(data, '$.status') IS NULL;
+            `);
+            // Administrators can manage cases, on their template and on themselves.
+            const grantCaseEdit = `json_set(data, '$.permissions.projectCasesList.edit', json('true'))`;
+            db.exec(`
+                UPDATE role_templates SET data = ${grantCaseEdit} WHERE json_extract(data, '$.role') = 'admin';
+                UPDATE users SET data = ${grantCaseEdit} WHERE json_extract(data, '$.role') = 'admin';
+            `);
+        },
+    },
+    {
+        version: 9,
+        description: 'Let administrators browse visit reports',
+        up: () => {
+            const grantVisitReports = `json_set(data, '$.permissions.visitReports', json('{"view":true}'))`;
+            db.exec(`
+                UPDATE role_templates SET data = ${grantVisitReports} WHERE json_extract(data, '$.role') = 'admin';
+                UPDATE users SET data = ${grantVisitReports} WHERE json_extract(data, '$.role') = 'admin';
+            `);
+        },
+    },
+    {
+        version: 10,
+        description: 'Create settings, AI usage and AI analysis cache tables',
+        up: () => {
+            db.exec(`
+                CREATE TABLE settings (
+                    name TEXT PRIMARY KEY,
+                    data TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    updated_by TEXT
+                );
+                CREATE TABLE ai_usage (
+                    day TEXT PRIMARY KEY,
+                    calls INTEGER NOT NULL DEFAULT 0,
+                    tokens INTEGER NOT NULL DEFAULT 0
+                );
+                CREATE TABLE ai_analysis_cache (
+                    content_hash TEXT PRIMARY KEY,
+                    result TEXT NOT NULL,
+                    created_at TEXT NOT NULL
+                );
+            `);
+            const grantAiTriage = `json_set(data, '$.permissions.systemManagement_aiTriage', json('{"view":true,"edit":true}'))`;
+            db.exec(`
+                UPDATE role_templates SET data = ${grantAiTriage} WHERE json_extract(data, '$.role') = 'admin';
+                UPDATE users SET data = ${grantAiTriage} WHERE json_extract(data, '$.role') = 'admin';
+            `);
+        },
+    },
+    {
+        version: 11,
+        description: 'Create duty policy, calendar and employee tables and fill in the default projects, duty policies and calendar',
+        up: () => {
+            ['duty_policies', 'calendar_entries', 'employees'].forEach(table => db.exec(createRecordTable(table)));
+            // These used to be kept in each browser, which started out with the same defaults.
+            const now = new Date().toISOString();
+            const insertDefaults = (table, records, projectColumns = () => ({ projectName: null, zone: null })) => {
+                const insert = db.prepare(`
+                    INSERT INTO ${table} (id, project_name, zone, data, created_at, updated_at)
+                    VALUES (@id, @projectName, @zone, @data, @now, @now)
+                `);
+                records.forEach(record => insert.run({ id: String(record.id), ...projectColumns(record), data: JSON.stringify(record), now }));
+            };
+            if (db.prepare('SELECT COUNT(*) AS count FROM projects').get().count === 0) {
+                insertDefaults('projects', DEFAULT_PROJECTS, project => ({ projectName: project.name, zone: project.zone }));
+            }
+            insertDefaults('duty_policies', DEFAULT_DUTY_POLICIES);
+            insertDefaults('calendar_entries', DEFAULT_CALENDAR_ENTRIES);
+        },
+    },
+    {
+        version: 12,
+        description: 'Create the employee visits table from the last published copy and drop the published report data',
+        up: () => {
+            db.exec(createRecordTable('employee_visits'));
+            // Employee visits used to be kept in each browser, which sent the server a copy for scheduled reports.
+            const published = db.prepare(`SELECT data FROM report_datasets WHERE name = 'employeeVisits'`).get();
+            const zoneOf = db.prepare(`SELECT zone FROM projects WHERE project_name = ? LIMIT 1`);
+            const insert = db.prepare(`
+                INSERT OR IGNORE INTO employee_visits (id, project_name, zone, record_date, data, created_at, updated_at)
+                VALUES (@id, @projectName, @zone, @recordDate, @data, @now, @now)
+            `);
+            const now = new Date().toISOString();
+            (published ? JSON.parse(published.data) : []).forEach(visit => insert.run({
+                id: String(visit.id),
+                projectName: visit.projectName ?? null,
+                zone: zoneOf.get(visit.projectName)?.zone ?? null,
+                recordDate: visit.date ?? null,
+                data: JSON.stringify(visit),
+                now,
+            }));
+            db.exec('DROP TABLE report_datasets');
+        },
+    },
+    {
+        version: 13,
+        description: 'Create the project name lookup used to link records to projects',
+        up: () => {
+            db.exec(`
+                CREATE TABLE project_names (
+                    name TEXT NOT NULL,
+                    project_id TEXT NOT NULL,
+                    is_alias INTEGER NOT NULL
+                );
+                CREATE INDEX idx_project_names_name ON project_names (name);
+                CREATE INDEX idx_project_names_project ON project_names (project_id);
+            `);
+            // Names are compared as projectLinks.js normalizes them.
+            const normalize = (name) => String(name).trim().replace(/\s+/g, ' ').toLowerCase();
+            const insert = db.prepare('INSERT INTO project_names (name, project_id, is_alias) VALUES (?, ?, ?)');
+            db.prepare('SELECT id, data FROM projects').all().forEach(row => {
+                const project = JSON.parse(row.data);
+                insert.run(normalize(project.name), row.id, 0);
+                (project.aliases ?? []).forEach(alias => insert.run(normalize(alias), row.id, 1));
+            });
+        },
+    },
+];
+
+const migrate = () => {
+    const currentVersion = db.pragma('user_version', { simple: true });
+    MIGRATIONS
+        .filter(m => m.version > currentVersion)
+        .forEach(m => {
+            db.transaction(() => {
+                console.log(`Applying database migration v${m.version}: ${m.description}`);
+                m.up();
+                db.pragma(`user_version = ${m.version}`);
+            })();
+        });
+};
+
+migrate();
+
+module.exports = { db, DB_FILE, MIGRATIONS };
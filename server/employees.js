@@ -0,0 +1,103 @@
+// server/employees.js - The employee directory (System Management → Employees).
+//
+// Employee visits name their visitor as written in the imported sheet (`visitorName`), sometimes with the
+// employee code (`visitorEmployeeId`). When a visit is saved, it is linked to the employee it names: by the
+// employee's id (`visitorId`), then the code, then the name or one of its other spellings; its `visitorName`
+// becomes the employee's own. Renaming an employee, or giving them another spelling, relinks their visits
+// (the server side of utils/employees.ts).
+
+const { db } = require('./database');
+const { recordRequestAudit } = require('./audit');
+
+const statements = {
+    reportsOf: db.prepare(`SELECT data FROM employees WHERE json_extract(data, '$.reportingManagerId') = ?`),
+    updateData: db.prepare('UPDATE employees SET data = ?, updated_at = ? WHERE id = ?'),
+    employees: db.prepare('SELECT data FROM employees'),
+    employee: db.prepare('SELECT data FROM employees WHERE id = ?'),
+    unlinkedOrLinkedVisits: db.prepare(`
+        SELECT id, data FROM employee_visits
+        WHERE json_extract(data, '$.visitorId') = ? OR json_extract(data, '$.visitorId') IS NULL
+    `),
+    updateVisit: db.prepare('UPDATE employee_visits SET data = ?, updated_at = ? WHERE id = ?'),
+};
+
+const normalizeEmployeeName = (name) => String(name).trim().replace(/\s+/g, ' ').toLowerCase();
+const normalizeEmployeeId = (employeeId) => String(employeeId).trim().toUpperCase();
+
+/** Whether a visit names the employee, by code or by name. */
+const namesEmployee = (visit, employee) =>
+    (visit.visitorEmployeeId && employee.employeeId && normalizeEmployeeId(visit.visitorEmployeeId) === normalizeEmployeeId(employee.employeeId))
+    || (typeof visit.visitorName === 'string'
+        && [employee.name, ...(employee.aliases ?? [])].some(name => normalizeEmployeeName(name) === normalizeEmployeeName(visit.visitorName)));
+
+/** The employee with the id, or undefined. */
+const findEmployee = (id) => {
+    const row = statements.employee.get(String(id));
+    return row ? JSON.parse(row.data) : undefined;
+};
+
+const findVisitor = (visit) => {
+    const employees = statements.employees.all().map(row => JSON.parse(row.data));
+    return employees.find(employee => visit.visitorId !== undefined && employee.id === visit.visitorId)
+        ?? employees.find(employee => visit.visitorEmployeeId && employee.employeeId
+            && normalizeEmployeeId(employee.employeeId) === normalizeEmployeeId(visit.visitorEmployeeId))
+        ?? (typeof visit.visitorName === 'string' ? employees.find(employee => normalizeEmployeeName(employee.name) === normalizeEmployeeName(visit.visitorName)) : undefined)
+        ?? employees.find(employee => typeof visit.visitorName === 'string'
+            && (employee.aliases ?? []).some(alias => normalizeEmployeeName(alias) === normalizeEmployeeName(visit.visitorName)));
+};
+
+/**
+ * Links an employee visit to the employee it names.
+ * @param {object} visit The visit about to be saved.
+ * @returns {object} The visit with visitorId and the employee's name filled in, or unchanged (without a
+ *     visitorId) when it names no employee in the directory.
+ */
+const linkToEmployee = (visit) => {
+    const employee = findVisitor(visit);
+    if (!employee) {
+        const { visitorId, ...unlinked } = visit;
+        return unlinked;
+    }
+    return { ...visit, visitorId: employee.id, visitorName: employee.name };
+};
+
+/**
+ * Brings an employee's visits up to date with their name, and links the visits that name them but aren't
+ * linked to anyone yet.
+ * @param {object} employee The saved employee.
+ */
+const relinkVisits = (employee) => {
+    const now = new Date().toISOString();
+    db.transaction(() => {
+        statements.unlinkedOrLinkedVisits.all(employee.id).forEach(row => {
+            const visit = JSON.parse(row.data);
+            if (visit.visitorId === undefined && !namesEmployee(visit, employee)) return;
+            if (visit.visitorId === employee.id && visit.visitorName === employee.name) return;
+            statements.updateVisit.run(JSON.stringify({ ...visit, visitorId: employee.id, visitorName: employee.name }), now, row.id);
+        });
+    })();
+};
+
+/**
+ * Leaves the people who reported to a deleted employee without a reporting manager.
+ * @param {object} employee The deleted employee.
+ * @param {import('express').Request} req The request that deleted it, for the audit log.
+ */
+const clearReportingManager = (employee, req) => {
+    db.transaction(() => {
+        statements.reportsOf.all(employee.id).forEach(row => {
+            const { reportingManagerId, ...updated } = JSON.parse(row.data);
+            statements.updateData.run(JSON.stringify(updated), new Date().toISOString(), String(updated.id));
+            recordRequestAudit(req, {
+                action: 'update',
+                entityType: 'employees',
+                entityId: updated.id,
+                summary: `Removed ${employee.name} as ${updated.name}'s reporting manager`,
+                before: { ...updated, reportingManagerId },
+                after: updated,
+            });
+        });
+    })();
+};
+
+module.exports = { clearReportingManager, findEmployee, linkToEmployee, relinkVisits };
@@ -0,0 +1,28 @@
+// server/filterPresets.js - Saved page filters (the filterPresets resource in resources.js).
+// A preset is a named set of a page's query parameters. Each user can mark one of their presets per page
+// as the default, which the app applies when the page is opened without filters.
+
+const { db } = require('./database');
+
+const statements = {
+    otherDefaults: db.prepare(`
+        SELECT id, data FROM filter_presets
+        WHERE id != @id
+          AND json_extract(data, '$.owner.id') = @ownerId
+          AND json_extract(data, '$.view') = @view
+          AND COALESCE(json_extract(data, '$.tab'), '') = @tab
+          AND json_extract(data, '$.isDefault') = 1
+    `),
+    update: db.prepare('UPDATE filter_presets SET data = ?, updated_at = ? WHERE id = ?'),
+};
+
+/** Unmarks the owner's other default presets for the same page when a preset becomes the default. */
+const clearOtherDefaults = (preset) => {
+    if (!preset.isDefault) return;
+    const now = new Date().toISOString();
+    statements.otherDefaults
+        .all({ id: String(preset.id), ownerId: preset.owner.id, view: preset.view, tab: preset.tab || '' })
+        .forEach(row => statements.update.run(JSON.stringify({ ...JSON.parse(row.data), isDefault: false }), now, row.id));
+};
+
+module.exports = { clearOtherDefaults };
@@ -0,0 +1,97 @@
+// server/issueSimilarity.js - How alike two reported issues are (see recurringIssues.js).
+//
+// An issue's text is reduced to its words, roughly stemmed and without stopwords, each weighed by how rare it
+// is among the issues compared (tf-idf). Two issues score the cosine of their word weights, from 0 to 1, with
+// a share of the score going to being in the same category when both have one.
+
+// Below this score two issues aren't worth pointing out.
+const MATCH_THRESHOLD = 0.35;
+// How much of the score comes from the category when both issues have one.
+const CATEGORY_WEIGHT = 0.2;
+
+const STOPWORDS = new Set([
+    'a', 'about', 'after', 'again', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'but', 'by',
+    'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'here', 'in', 'into', 'is', 'it', 'its',
+    'near', 'no', 'not', 'of', 'on', 'or', 'our', 'over', 'so', 'some', 'that', 'the', 'their', 'there', 'these',
+    'this', 'those', 'to', 'under', 'up', 'very', 'was', 'we', 'were', 'which', 'while', 'with', 'would',
+]);
+
+/** A rough stem, so "leak", "leaks", "leaking" and "leaked" count as the same word. */
+const stem = (word) => {
+    const stemmed = word.replace(/(ing|ed|es|e|s)$/, '');
+    return stemmed.length >= 3 ? stemmed : word;
+};
+
+const tokenize = (text) => (String(text ?? '').toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+
+const termCounts = (tokens) => tokens.reduce((counts, token) => counts.set(token, (counts.get(token) ?? 0) + 1), new Map());
+
+/**
+ * Weighs each issue's words by how rare they are among the issues given.
+ * @returns {Map<string, number>[]} A unit-length term vector per issue, in the same order.
+ */
+const termVectors = (termLists) => {
+    const documentFrequency = new Map();
+    termLists.forEach(counts => counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+    return termLists.map(counts => {
+        const vector = new Map();
+        counts.forEach((count, term) => vector.set(term, count * (Math.log((termLists.length + 1) / (documentFrequency.get(term) + 1)) + 1)));
+        const length = Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+        vector.forEach((weight, term) => vector.set(term, weight / length));
+        return vector;
+    });
+};
+
+const cosine = (a, b) => {
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+    let sum = 0;
+    smaller.forEach((weight, term) => { sum += weight * (larger.get(term) ?? 0); });
+    return sum;
+};
+
+const sameCategory = (a, b) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** How alike two issues are, from 0 to 1. Issues at different projects are compared by the caller only. */
+const similarity = (a, b) => {
+    const text = a.vector.size > 0 && b.vector.size > 0 ? cosine(a.vector, b.vector) : 0;
+    if (!a.category || !b.category) return text;
+    return text * (1 - CATEGORY_WEIGHT) + (sameCategory(a.category, b.category) ? CATEGORY_WEIGHT : 0);
+};
+
+/** Adds a term vector to each issue, weighted against the other issues of its project. */
+const withVectors = (issues) => {
+    const vectors = termVectors(issues.map(issue => termCounts(tokenize(`${issue.title} ${issue.detail ?? ''}`))));
+    return issues.map((issue, index) => ({ ...issue, vector: vectors[index] }));
+};
+
+const groupBy = (items, keyOf) => items.reduce((groups, item) => {
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(item);
+    return groups;
+}, new Map());
+
+/**
+ * Splits a project's issues into groups of the same problem: issues that match, issues that match an issue
+ * in the group, and issues linked to a case in the group.
+ */
+const clusterIssues = (issues) => {
+    const parent = issues.map((_, index) => index);
+    const find = (index) => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+    const join = (a, b) => { parent[find(a)] = find(b); };
+
+    const indexOfKey = new Map(issues.map((issue, index) => [issue.key, index]));
+    issues.forEach((issue, index) => {
+        const linked = issue.linkedCaseId !== undefined ? indexOfKey.get(`case:${issue.linkedCaseId}`) : undefined;
+        if (linked !== undefined) join(index, linked);
+        for (let other = index + 1; other < issues.length; other++) {
+            if (similarity(issue, issues[other]) >= MATCH_THRESHOLD) join(index, other);
+        }
+    });
+    return [...groupBy(issues.map((issue, index) => ({ issue, root: find(index) })), item => item.root).values()]
+        .map(members => members.map(member => member.issue));
+};
+
+module.exports = { MATCH_THRESHOLD, clusterIssues, groupBy, similarity, termCounts, withVectors };
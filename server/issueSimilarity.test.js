@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MATCH_THRESHOLD, clusterIssues, similarity, withVectors } from './issueSimilarity';
+
+const issue = (key, title, extra = {}) => ({ key, title, ...extra });
+
+describe('similarity', () => {
+    it('scores the same text 1 and text with no words in common 0', () => {
+        const [a, b, c] = withVectors([issue('a', 'Water leaking from the roof'), issue('b', 'Water leaking from the roof'), issue('c', 'Broken window glass')]);
+        expect(similarity(a, b)).toBeCloseTo(1);
+        expect(similarity(a, c)).toBe(0);
+    });
+
+    it('counts forms of a word and its case as the same word, and ignores stopwords', () => {
+        const [a, b] = withVectors([issue('a', 'Pipes leaking'), issue('b', 'the PIPE leaks at the joint')]);
+        expect(similarity(a, b)).toBeGreaterThan(MATCH_THRESHOLD);
+    });
+
+    it('compares the detail as well as the title', () => {
+        const [a, b] = withVectors([issue('a', 'Ceiling problem', { detail: 'Plaster falling off in the lobby' }), issue('b', 'Lobby plaster falling')]);
+        expect(similarity(a, b)).toBeGreaterThan(MATCH_THRESHOLD);
+    });
+
+    it('counts words that many issues use for less', () => {
+        const [a, b, c] = withVectors([
+            issue('a', 'Crack in level wall'),
+            issue('b', 'Crack in basement slab'),
+            issue('c', 'Damp level wall'),
+            ...['Crack near stairs', 'Crack at gate', 'Crack by lift'].map((title, index) => issue(`other${index}`, title)),
+        ]);
+        expect(similarity(a, c)).toBeGreaterThan(similarity(a, b));
+    });
+
+    it('gives a share of the score to being in the same category when both issues have one', () => {
+        const [a, b] = withVectors([issue('a', 'Exposed cable'), issue('b', 'Loose socket')]);
+        expect(similarity({ ...a, category: 'Electrical' }, { ...b, category: ' electrical ' })).toBeCloseTo(0.2);
+        expect(similarity({ ...a, category: 'Electrical' }, { ...b, category: 'Plumbing' })).toBe(0);
+        expect(similarity({ ...a, category: 'Electrical' }, b)).toBe(0);
+    });
+});
+
+describe('clusterIssues', () => {
+    const keysOf = (groups) => groups.map(group => group.map(member => member.key).sort()).sort();
+
+    it('groups issues that match, directly or through another issue', () => {
+        const issues = withVectors([
+            issue('case:1', 'Water leaking from roof drain'),
+            issue('visit:5:1', 'Roof drain blocked, water leaking'),
+            issue('visit:6:1', 'Roof drain blocked again'),
+            issue('visit:7:1', 'Broken window glass'),
+        ]);
+        expect(keysOf(clusterIssues(issues))).toEqual([['case:1', 'visit:5:1', 'visit:6:1'], ['visit:7:1']]);
+    });
+
+    it('puts an issue with the case it was linked to, whatever its text', () => {
+        const issues = withVectors([issue('case:1', 'Cracked slab'), issue('visit:5:1', 'Same again', { linkedCaseId: 1 }), issue('visit:6:1', 'Broken window glass')]);
+        expect(keysOf(clusterIssues(issues))).toEqual([['case:1', 'visit:5:1'], ['visit:6:1']]);
+    });
+});
@@ -0,0 +1,45 @@
+// server/localAiProvider.js - The local AI provider (AI_PROVIDER=local, see aiProviders.js).
+//
+// Fixed keyword rules stand in for the AI: the same text always gets the same category, priority and summary,
+// with no network or key. Photos are ignored.
+
+// The first category with a matching word wins, so more specific categories come first.
+const CATEGORY_KEYWORDS = [
+    ['Safety Hazard', ['hazard', 'unsafe', 'danger', 'helmet', 'harness', 'scaffold', 'fall', 'fire', 'injury', 'guardrail', 'exposed']],
+    ['Electrical', ['electric', 'electrical', 'wire', 'wiring', 'cable', 'socket', 'switch', 'breaker', 'light', 'power', 'shock']],
+    ['Plumbing', ['pipe', 'leak', 'leaking', 'water', 'drain', 'tap', 'plumbing', 'sewage', 'toilet', 'seepage']],
+    ['Structural', ['crack', 'column', 'beam', 'slab', 'foundation', 'concrete', 'rebar', 'wall', 'settlement']],
+    ['Finishing', ['paint', 'tile', 'tiles', 'plaster', 'finish', 'finishing', 'door', 'window', 'ceiling', 'stain']],
+];
+const PRIORITY_KEYWORDS = [
+    ['Critical', ['collapse', 'fire', 'injury', 'injured', 'electrocution', 'gas', 'emergency', 'urgent']],
+    ['High', ['danger', 'unsafe', 'exposed', 'crack', 'leak', 'leaking', 'broken', 'shock']],
+    ['Low', ['minor', 'cosmetic', 'paint', 'stain', 'scratch', 'cleaning']],
+];
+
+const wordsOf = (text) => new Set(String(text ?? '').toLowerCase().match(/[a-z]+/g) ?? []);
+const firstMatch = (words, table, fallback) => table.find(([, keywords]) => keywords.some(word => words.has(word)))?.[0] ?? fallback;
+
+const ruleBasedAnalysis = (text) => {
+    const words = wordsOf(text);
+    const category = firstMatch(words, CATEGORY_KEYWORDS, 'Other');
+    const priority = firstMatch(words, PRIORITY_KEYWORDS, 'Medium');
+    const firstSentence = String(text).trim().split(/(?<=[.!?])\s/)[0].replace(/\s+/g, ' ');
+    const summary = `${category} issue: ${firstSentence.length > 120 ? `${firstSentence.slice(0, 117)}...` : firstSentence}`;
+    return { category, priority, summary };
+};
+
+const createLocalProvider = () => ({
+    name: 'local',
+    model: 'rules',
+    classifyIssue: async ({ description }) => ruleBasedAnalysis(description),
+    analyzeCase: async ({ name, comments }) => ruleBasedAnalysis([name, comments].filter(Boolean).join('. ')),
+    answerDataQuestion: async ({ data, question }) => {
+        let count = 0;
+        try { count = JSON.parse(data).length ?? 0; } catch { /* not a list; reported as 0 records */ }
+        return `## Local AI Provider\n\nThe server is using the local rule-based provider, which can't answer questions about data.\n\n* Question: ${question}\n* Records received: ${count}`;
+    },
+    improvementAnalysis: async () => '**Key Observations:**\n* The server is using the local rule-based provider, which doesn\'t analyse performance data.\n\n**Actionable Recommendations:**\n* Set AI_PROVIDER=gemini with an API_KEY for a real analysis.',
+});
+
+module.exports = { createLocalProvider };
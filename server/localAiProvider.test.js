@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalProvider } from './localAiProvider';
+
+const provider = createLocalProvider();
+
+describe('local AI provider', () => {
+    it('classifies an issue by the first category and priority its words match', async () => {
+        expect(await provider.classifyIssue({ description: 'Exposed wiring near the scaffold. Needs a look.', photos: [] })).toEqual({
+            category: 'Safety Hazard',
+            priority: 'High',
+            summary: 'Safety Hazard issue: Exposed wiring near the scaffold.',
+        });
+        expect((await provider.classifyIssue({ description: 'Water leaking from the pipe' })).category).toBe('Plumbing');
+        expect((await provider.classifyIssue({ description: 'Fire in the store room' })).priority).toBe('Critical');
+        expect((await provider.classifyIssue({ description: 'Minor paint stain on the wall' })).priority).toBe('Low');
+    });
+
+    it("falls back to 'Other' and 'Medium' when no word matches", async () => {
+        expect(await provider.classifyIssue({ description: 'Site office untidy' })).toEqual({
+            category: 'Other',
+            priority: 'Medium',
+            summary: 'Other issue: Site office untidy',
+        });
+    });
+
+    it('gives the same answer for the same text', async () => {
+        const description = 'Crack in the column on level 3';
+        expect(await provider.classifyIssue({ description })).toEqual(await provider.classifyIssue({ description }));
+    });
+
+    it('shortens long summaries to 120 characters', async () => {
+        const { summary } = await provider.classifyIssue({ description: 'tile '.repeat(60) });
+        expect(summary.startsWith('Finishing issue: tile tile')).toBe(true);
+        expect(summary.endsWith('...')).toBe(true);
+        expect(summary.length).toBe('Finishing issue: '.length + 120);
+    });
+
+    it('analyses a case from its name and comments', async () => {
+        expect(await provider.analyzeCase({ name: 'Broken socket', comments: 'Sparks when plugged in' })).toEqual({
+            category: 'Electrical',
+            priority: 'High',
+            summary: 'Electrical issue: Broken socket.',
+        });
+    });
+
+    it("says it can't answer questions about data", async () => {
+        const answer = await provider.answerDataQuestion({ data: '[{}, {}]', question: 'Who visited most?' });
+        expect(answer).toContain('* Question: Who visited most?');
+        expect(answer).toContain('* Records received: 2');
+        expect(await provider.answerDataQuestion({ data: 'not json', question: 'Why?' })).toContain('* Records received: 0');
+    });
+});
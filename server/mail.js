@@ -0,0 +1,75 @@
+// server/mail.js - Outgoing email through a pluggable transport.
+//
+// A transport is an object with `send({ to, subject, text, attachments })` that may return a promise.
+// `attachments` is an optional list of { filename, contentType, content } with the content as a Buffer.
+// MAIL_TRANSPORT selects a built-in one:
+//   - "console" (default): prints each message to the server log, listing attachments by name;
+//   - "file": writes each message as a .txt file into MAIL_DIR (default ./mail-outbox), with its
+//     attachments next to it.
+// Production deployments can install their own transport (e.g. an SMTP client) with setMailTransport().
+
+const fs = require('fs');
+const path = require('path');
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Precision <no-reply@credence.com>';
+
+const formatMessage = ({ to, subject, text, attachments = [] }) => [
+    `From: ${MAIL_FROM}`,
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    ...attachments.map(a => `Attachment: ${a.filename} (${a.contentType}, ${a.content.length} bytes)`),
+    '',
+    text,
+].join('\n');
+
+const consoleTransport = {
+    send: (message) => {
+        console.log(`--- Outgoing email ---\n${formatMessage(message)}\n----------------------`);
+    },
+};
+
+const createFileTransport = (directory) => ({
+    send: (message) => {
+        fs.mkdirSync(directory, { recursive: true });
+        const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+        const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}`;
+        fs.writeFileSync(path.join(directory, `${baseName}.txt`), formatMessage(message));
+        (message.attachments || []).forEach(a => {
+            fs.writeFileSync(path.join(directory, `${baseName}-${a.filename.replace(/[^a-z0-9._-]/gi, '_')}`), a.content);
+        });
+    },
+});
+
+const createDefaultTransport = () => {
+    const kind = process.env.MAIL_TRANSPORT || 'console';
+    switch (kind) {
+        case 'console':
+            return consoleTransport;
+        case 'file':
+            return createFileTransport(process.env.MAIL_DIR || path.join(__dirname, '..', 'mail-outbox'));
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${kind}". Use "console" or "file", or call setMailTransport().`);
+    }
+};
+
+let transport = createDefaultTransport();
+
+/**
+ * Replaces the transport used by sendMail.
+ * @param {{ send: (message: { to: string, subject: string, text: string, attachments?: object[] }) => unknown }} newTransport
+ */
+const setMailTransport = (newTransport) => {
+    transport = newTransport;
+};
+
+/**
+ * Sends a plain-text email, with optional attachments.
+ * @param {{ to: string, subject: string, text: string, attachments?: { filename: string, contentType: string, content: Buffer }[] }} message
+ * @returns {Promise<void>}
+ */
+const sendMail = async (message) => {
+    await transport.send(message);
+};
+
+module.exports = { sendMail, setMailTransport };
@@ -0,0 +1,40 @@
+// server/passwords.js - Password hashing with Node's built-in scrypt.
+// Hashes are stored as "scrypt$N$r$p$salt$hash" (salt and hash base64) so parameters can change later.
+
+const crypto = require('crypto');
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Hashes a plaintext password.
+ * @param {string} password
+ * @returns {string} The encoded hash.
+ */
+const hashPassword = (password) => {
+    const salt = crypto.randomBytes(SALT_BYTES);
+    const { N, r, p } = SCRYPT_PARAMS;
+    const hash = crypto.scryptSync(password, salt, KEY_LENGTH, { N, r, p });
+    return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+/**
+ * Checks a plaintext password against an encoded hash in constant time.
+ * @param {string} password
+ * @param {string | undefined} encoded
+ * @returns {boolean}
+ */
+const verifyPassword = (password, encoded) => {
+    if (typeof password !== 'string' || !isPasswordHash(encoded)) return false;
+    const [, N, r, p, saltB64, hashB64] = encoded.split('$');
+    const expected = Buffer.from(hashB64, 'base64');
+    const actual = crypto.scryptSync(password, Buffer.from(saltB64, 'base64'), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+    return crypto.timingSafeEqual(actual, expected);
+};
+
+const isPasswordHash = (value) => typeof value === 'string' && value.startsWith('scrypt$') && value.split('$').length === 6;
+
+module.exports = { hashPassword, verifyPassword, isPasswordHash, MIN_PASSWORD_LENGTH };
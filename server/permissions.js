@@ -0,0 +1,170 @@
+// server/permissions.js - Permission sets, role templates and per-user overrides.
+// Mirrors the Permissions interface in types.ts and utils/permissions.ts.
+//
+// A user's `permissions` is always the effective set. Users assigned a role template
+// (`roleTemplateId`) also keep `permissionOverrides`, the differences from that template,
+// so template changes can be re-applied without losing per-user adjustments.
+
+const PERMISSION_KEYS = {
+    dashboard: ['view'],
+    projectVisit: ['view', 'edit'],
+    visitReports: ['view'],
+    lastVisitedProjects: ['view'],
+    projectCase: ['view', 'edit'],
+    projectCasesList: ['view', 'edit'],
+    profile: ['view', 'edit'],
+    adminPanel: ['view'],
+    materialReceive: ['view', 'edit'],
+    materialReceiveList: ['view'],
+    systemManagement_addProject: ['view', 'edit'],
+    systemManagement_projectList: ['view', 'edit'],
+    systemManagement_dashboardSettings: ['view', 'edit'],
+    systemManagement_dutyPolicies: ['view', 'edit'],
+    systemManagement_calendar: ['view', 'edit'],
+    systemManagement_employees: ['view', 'edit'],
+    systemManagement_aiTriage: ['view', 'edit'],
+    employeeProjectVisit: ['view', 'edit'],
+    sealPersonProjectVisit: ['view', 'edit'],
+    itResponseTimeline: ['view', 'edit'],
+    erpCorrectionReport: ['view', 'edit'],
+    constructionDutyAnalysis: ['view', 'edit'],
+    monthlyComparisonPrecision: ['view', 'edit'],
+    ssvDutyAnalysis: ['view', 'edit'],
+    reports: ['view', 'edit'],
+};
+
+/**
+ * Builds a full permission set.
+ * @param {true | Record<string, string[]>} grants `true` for everything, or the actions granted per module.
+ */
+const buildPermissions = (grants) => Object.fromEntries(
+    Object.entries(PERMISSION_KEYS).map(([module, actions]) => [
+        module,
+        Object.fromEntries(actions.map(a => [a, grants === true || (grants[module] || []).includes(a)])),
+    ])
+);
+
+const ADMIN_PERMISSIONS = buildPermissions(true);
+
+const BASE_GRANTS = {
+    dashboard: ['view'],
+    profile: ['view', 'edit'],
+};
+
+// Role templates created with a new database. Administrators can edit them or add their own.
+const DEFAULT_ROLE_TEMPLATES = [
+    {
+        id: 'administrator',
+        name: 'Administrator',
+        description: 'Full access to every module, including user administration.',
+        role: 'admin',
+        permissions: ADMIN_PERMISSIONS,
+    },
+    {
+        id: 'standard-user',
+        name: 'Standard User',
+        description: 'Submits project visits and material receipts and views cases.',
+        role: 'user',
+        permissions: buildPermissions({
+            ...BASE_GRANTS,
+            projectVisit: ['view', 'edit'],
+            visitReports: ['view'],
+            lastVisitedProjects: ['view'],
+            projectCase: ['view'],
+            projectCasesList: ['view'],
+            materialReceive: ['view', 'edit'],
+        }),
+    },
+    {
+        id: 'surveillance-officer',
+        name: 'Surveillance Officer',
+        description: 'Records site visits and cases and maintains the visit datasets and duty analyses.',
+        role: 'user',
+        permissions: buildPermissions({
+            ...BASE_GRANTS,
+            projectVisit: ['view', 'edit'],
+            visitReports: ['view'],
+            lastVisitedProjects: ['view'],
+            projectCase: ['view', 'edit'],
+            projectCasesList: ['view', 'edit'],
+            employeeProjectVisit: ['view', 'edit'],
+            sealPersonProjectVisit: ['view', 'edit'],
+            monthlyComparisonPrecision: ['view', 'edit'],
+            constructionDutyAnalysis: ['view', 'edit'],
+            ssvDutyAnalysis: ['view', 'edit'],
+        }),
+    },
+    {
+        id: 'sales-supervisor',
+        name: 'Sales Supervisor',
+        description: 'Follows sales team site visits and SSV duty analysis.',
+        role: 'user',
+        permissions: buildPermissions({
+            ...BASE_GRANTS,
+            lastVisitedProjects: ['view'],
+            sealPersonProjectVisit: ['view', 'edit'],
+            ssvDutyAnalysis: ['view', 'edit'],
+        }),
+    },
+    {
+        id: 'it-support',
+        name: 'IT Support',
+        description: 'Handles IT issues and ERP correction requests.',
+        role: 'user',
+        permissions: buildPermissions({
+            ...BASE_GRANTS,
+            projectCasesList: ['view'],
+            itResponseTimeline: ['view', 'edit'],
+            erpCorrectionReport: ['view', 'edit'],
+        }),
+    },
+    {
+        id: 'inventory-clerk',
+        name: 'Inventory Clerk',
+        description: 'Receives materials at sites and keeps the receipt list.',
+        role: 'user',
+        permissions: buildPermissions({
+            ...BASE_GRANTS,
+            materialReceive: ['view', 'edit'],
+            materialReceiveList: ['view'],
+            constructionDutyAnalysis: ['view'],
+        }),
+    },
+];
+
+/**
+ * Applies per-user overrides ({ module: { action: boolean } }) on top of a template's permissions.
+ */
+const applyPermissionOverrides = (base, overrides = {}) => Object.fromEntries(
+    Object.entries(PERMISSION_KEYS).map(([module, actions]) => [
+        module,
+        Object.fromEntries(actions.map(a => [a, overrides[module]?.[a] ?? base[module]?.[a] ?? false])),
+    ])
+);
+
+/**
+ * The overrides needed to turn `base` into `effective`; the inverse of applyPermissionOverrides.
+ */
+const diffPermissions = (base, effective) => {
+    const overrides = {};
+    Object.entries(PERMISSION_KEYS).forEach(([module, actions]) => {
+        actions.forEach(a => {
+            const value = effective[module]?.[a] ?? false;
+            if (value !== (base[module]?.[a] ?? false)) {
+                overrides[module] = { ...overrides[module], [a]: value };
+            }
+        });
+    });
+    return overrides;
+};
+
+const isAdminUser = (user) => !!user && (user.role === 'admin' || user.permissions?.adminPanel?.view === true);
+
+module.exports = {
+    PERMISSION_KEYS,
+    ADMIN_PERMISSIONS,
+    DEFAULT_ROLE_TEMPLATES,
+    applyPermissionOverrides,
+    diffPermissions,
+    isAdminUser,
+};
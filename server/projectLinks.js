@@ -0,0 +1,118 @@
+// server/projectLinks.js - Links records to the project they were filed against (the server side of utils/projects.ts).
+//
+// Forms and imports name a record's project in a text field. When a record is saved, a name that matches a
+// project, or one of its other names, also stores that project's id and is brought to the project's own name.
+// After that the id is what counts: renaming a project renames it in every record linked to it, and giving it
+// another name links the records filed under that name.
+//
+// Names are looked up in project_names, which holds each project's normalized name and other names. Users'
+// data scopes list projects by name, so renaming a project renames it in the scopes too.
+
+const { db } = require('./database');
+
+const normalizeProjectName = (name) => String(name).trim().replace(/\s+/g, ' ').toLowerCase();
+
+const statements = {
+    projectById: db.prepare('SELECT data FROM projects WHERE id = ?'),
+    // A project's own name wins over another project's other name.
+    projectByName: db.prepare(`
+        SELECT projects.data FROM project_names JOIN projects ON projects.id = project_names.project_id
+        WHERE project_names.name = ? ORDER BY project_names.is_alias LIMIT 1
+    `),
+    deleteNames: db.prepare('DELETE FROM project_names WHERE project_id = ?'),
+    insertName: db.prepare('INSERT INTO project_names (name, project_id, is_alias) VALUES (?, ?, ?)'),
+    scopedUsers: db.prepare(`SELECT id, data FROM users WHERE json_array_length(data, '$.dataScope.projects') > 0`),
+    updateUser: db.prepare('UPDATE users SET data = ?, updated_at = ? WHERE id = ?'),
+};
+
+/**
+ * The project a record is linked to or names.
+ * @param {object} record
+ * @param {string} projectField The field naming the record's project.
+ * @returns {object | undefined} undefined when it names no known project.
+ */
+const findProject = (record, projectField) => {
+    const linked = record.projectId !== undefined && statements.projectById.get(String(record.projectId));
+    if (linked) return JSON.parse(linked.data);
+    if (typeof record[projectField] !== 'string') return undefined;
+    const named = statements.projectByName.get(normalizeProjectName(record[projectField]));
+    return named ? JSON.parse(named.data) : undefined;
+};
+
+const indexProjectNames = (project) => {
+    statements.deleteNames.run(String(project.id));
+    statements.insertName.run(normalizeProjectName(project.name), String(project.id), 0);
+    (project.aliases ?? []).forEach(alias => statements.insertName.run(normalizeProjectName(alias), String(project.id), 1));
+};
+
+/**
+ * Stops names of a deleted project from linking records to it.
+ * @param {object} project The deleted project.
+ */
+const forgetProjectNames = (project) => {
+    statements.deleteNames.run(String(project.id));
+};
+
+// Renames a project in the data scopes that list it under its previous name.
+const renameInScopes = (previousName, name, now) => {
+    statements.scopedUsers.all().forEach(row => {
+        const user = JSON.parse(row.data);
+        const projects = user.dataScope.projects;
+        if (!projects.includes(previousName)) return;
+        const renamed = [...new Set(projects.map(entry => (entry === previousName ? name : entry)))];
+        statements.updateUser.run(JSON.stringify({ ...user, dataScope: { ...user.dataScope, projects: renamed } }), now, row.id);
+    });
+};
+
+/**
+ * Links a record to the project it names.
+ * @param {object} record The record about to be saved.
+ * @param {string} projectField The field naming the record's project.
+ * @returns {object} The record with projectId and the project's name filled in, or unchanged (without a
+ *     projectId) when it names no known project.
+ */
+const linkToProject = (record, projectField) => {
+    const project = findProject(record, projectField);
+    if (!project) {
+        const { projectId, ...unlinked } = record;
+        return unlinked;
+    }
+    return { ...record, projectId: project.id, [projectField]: project.name };
+};
+
+/**
+ * Brings the records linked to a project up to date with its name and zone, and links the records that
+ * name it (or one of its other names) but aren't linked to any project yet. A renamed project is renamed in
+ * users' data scopes as well, so the users keep seeing its records.
+ * @param {object} project The saved project.
+ * @param {object[]} linkedResources The resources whose records are linked to projects (see resources.js).
+ * @param {object} [previous] The project as it was before an update.
+ */
+const relinkRecords = (project, linkedResources, previous) => {
+    const names = new Set([project.name, ...(project.aliases ?? [])].map(normalizeProjectName));
+    const now = new Date().toISOString();
+    db.transaction(() => {
+        indexProjectNames(project);
+        if (previous && previous.name !== project.name) {
+            renameInScopes(previous.name, project.name, now);
+        }
+        linkedResources.forEach(({ table, projectField, zoneField }) => {
+            const rows = db.prepare(`
+                SELECT id, zone, data FROM ${table}
+                WHERE json_extract(data, '$.projectId') = ? OR json_extract(data, '$.projectId') IS NULL
+            `).all(project.id);
+            const update = db.prepare(`UPDATE ${table} SET project_name = ?, zone = ?, data = ?, updated_at = ? WHERE id = ?`);
+            rows.forEach(row => {
+                const record = JSON.parse(row.data);
+                if (record.projectId === undefined && !(typeof record[projectField] === 'string' && names.has(normalizeProjectName(record[projectField])))) return;
+                // Records that carry their own zone keep it; the others are filed under the project's.
+                const zone = zoneField ? row.zone : project.zone;
+                if (record.projectId === project.id && record[projectField] === project.name && zone === row.zone) return;
+                const linked = { ...record, projectId: project.id, [projectField]: project.name };
+                update.run(project.name, zone, JSON.stringify(linked), now, row.id);
+            });
+        });
+    })();
+};
+
+module.exports = { findProject, forgetProjectNames, linkToProject, relinkRecords };
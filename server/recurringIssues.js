@@ -0,0 +1,155 @@
+// server/recurringIssues.js - Finds issues that have been reported before.
+//
+// Project cases and the issues in visit reports are compared with each other. Two issues match when they are at
+// the same project and their text has enough words in common: a case's name and comments, a visit issue's
+// description and AI summary. Words that many of the project's issues use count for less. When both issues have
+// a category, being in the same one counts towards the match. A case or visit issue that its reporter linked to
+// a case (`linkedCaseId`) always belongs with that case.
+//
+//   GET /api/issues/similar     Issues like the one being typed, best match first.
+//                               Query: project, text, category, excludeCaseId, excludeReportId.
+//   GET /api/issues/recurring   Groups of issues reported more than once, largest first. Query: project, from, to.
+
+const express = require('express');
+const { db } = require('./database');
+const { isValidDate } = require('./validation');
+const { requestScope, scopeClauses } = require('./dataScope');
+const { resources } = require('./resources');
+const { MATCH_THRESHOLD, clusterIssues, groupBy, similarity, termCounts, withVectors } = require('./issueSimilarity');
+
+const MAX_MATCHES = 5;
+const MAX_GROUPS = 50;
+
+// The page permissions that let a user read a source's records, as for its own endpoint.
+const ISSUE_SOURCE_PERMISSIONS = [...resources.cases.permission, ...resources.visits.permission];
+
+const canView = (req, modules) => {
+    const user = req.impersonatedUser || req.user;
+    return modules.some(module => user.permissions?.[module]?.view === true);
+};
+
+/**
+ * The cases and visit issues within the request's data scope, without their photos. Cases are only included
+ * for users who can view them (see resources.js), and visit issues likewise.
+ * @param {{ project?: string, from?: string, to?: string }} filters
+ */
+const loadIssues = (req, { project, from, to }) => {
+    const scope = requestScope(req);
+    const select = (source, departmentField, columns) => {
+        const { clauses, params } = scopeClauses(scope, departmentField);
+        if (project) { clauses.push('project_name = @project'); params.project = project; }
+        if (from) { clauses.push('record_date >= @from'); params.from = from; }
+        if (to) { clauses.push('record_date <= @to'); params.to = to; }
+        const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+        return db.prepare(`SELECT ${columns} FROM ${source} ${where}`).all(params);
+    };
+
+    const cases = !canView(req, resources.cases.permission) ? [] : select('cases', 'liableDept', `
+        id, project_name AS projectName, record_date AS date,
+        json_extract(data, '$.caseName') AS title, json_extract(data, '$.comments') AS detail,
+        json_extract(data, '$.category') AS category, json_extract(data, '$.status') AS status,
+        json_extract(data, '$.linkedCaseId') AS linkedCaseId
+    `).map(row => ({
+        key: `case:${row.id}`,
+        source: 'case',
+        caseId: Number(row.id),
+        projectName: row.projectName,
+        date: row.date,
+        title: row.title ?? '',
+        detail: row.detail || undefined,
+        category: row.category || undefined,
+        status: row.status || 'Open',
+        linkedCaseId: row.linkedCaseId ?? undefined,
+    }));
+
+    const visitIssues = !canView(req, resources.visits.permission) ? [] : select("visits, json_each(visits.data, '$.issues') AS issue", undefined, `
+        visits.id AS reportId, project_name AS projectName, record_date AS date,
+        json_extract(issue.value, '$.id') AS issueId, json_extract(issue.value, '$.description') AS title,
+        json_extract(issue.value, '$.summary') AS detail, json_extract(issue.value, '$.category') AS category,
+        json_extract(issue.value, '$.linkedCaseId') AS linkedCaseId
+    `).map(row => ({
+        key: `visit:${row.reportId}:${row.issueId}`,
+        source: 'visit',
+        reportId: Number(row.reportId),
+        issueId: String(row.issueId),
+        projectName: row.projectName,
+        date: row.date,
+        title: row.title ?? '',
+        detail: row.detail || undefined,
+        category: row.category || undefined,
+        linkedCaseId: row.linkedCaseId ?? undefined,
+    }));
+
+    return [...cases, ...visitIssues];
+};
+
+// Term vectors stay on the server.
+const toResponse = ({ vector, ...issue }) => issue;
+
+const mostCommon = (values) => {
+    const counts = termCounts(values.filter(Boolean));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Creates the /api/issues router. Mount it behind requireAuth and requirePermission(ISSUE_SOURCE_PERMISSIONS).
+ * Each source is then limited to users with its own view permission and to the user's data scope.
+ */
+const createIssuesRouter = () => {
+    const router = express.Router();
+
+    router.get('/similar', (req, res) => {
+        const { project, text, category, excludeCaseId, excludeReportId } = req.query;
+        const details = [['project', project], ['text', text]]
+            .filter(([, value]) => typeof value !== 'string' || !value.trim())
+            .map(([field]) => ({ field, message: `"${field}" is required.` }));
+        if (details.length > 0) return res.status(400).json({ error: 'Validation failed.', details });
+
+        const issues = loadIssues(req, { project }).filter(issue => (
+            (excludeCaseId === undefined || String(issue.caseId) !== String(excludeCaseId))
+            && (excludeReportId === undefined || String(issue.reportId) !== String(excludeReportId))
+        ));
+        const draft = { key: 'draft', title: text, category: typeof category === 'string' ? category : undefined };
+        const [query, ...candidates] = withVectors([draft, ...issues]);
+
+        const matches = candidates
+            .map(issue => ({ ...toResponse(issue), score: Math.round(similarity(query, issue) * 100) / 100 }))
+            .filter(issue => issue.score >= MATCH_THRESHOLD)
+            .sort((a, b) => b.score - a.score || String(b.date).localeCompare(String(a.date)))
+            .slice(0, MAX_MATCHES);
+        res.json(matches);
+    });
+
+    router.get('/recurring', (req, res) => {
+        const { project, from, to } = req.query;
+        const invalid = [['from', from], ['to', to]].filter(([, value]) => value && !isValidDate(value));
+        if (invalid.length > 0) {
+            return res.status(400).json({
+                error: 'Validation failed.',
+                details: invalid.map(([field]) => ({ field, message: `"${field}" must be a date in YYYY-MM-DD format.` })),
+            });
+        }
+
+        const groups = [...groupBy(loadIssues(req, { project, from, to }), issue => issue.projectName).entries()]
+            .flatMap(([projectName, issues]) => clusterIssues(withVectors(issues))
+                .filter(cluster => cluster.length > 1)
+                .map(cluster => {
+                    const dates = cluster.map(issue => issue.date).filter(Boolean).sort();
+                    return {
+                        projectName,
+                        category: mostCommon(cluster.map(issue => issue.category)),
+                        count: cluster.length,
+                        firstDate: dates[0] ?? null,
+                        lastDate: dates[dates.length - 1] ?? null,
+                        issues: cluster.map(toResponse).sort((a, b) => String(b.date).localeCompare(String(a.date))),
+                    };
+                }))
+            .sort((a, b) => b.count - a.count || String(b.lastDate).localeCompare(String(a.lastDate)))
+            .slice(0, MAX_GROUPS);
+        res.json(groups);
+    });
+
+    return router;
+};
+
+module.exports = { ISSUE_SOURCE_PERMISSIONS, createIssuesRouter };
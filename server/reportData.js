@@ -0,0 +1,32 @@
+// server/reportData.js - The records scheduled reports are worked out from.
+//
+// Every dataset is read from the server's own tables. Employee visits and IT issues can be limited to a
+// data scope (see dataScope.js), so each recipient's report only covers the records they may see.
+//
+// The reports are worked out from them in shared/reports.js, as the app works out the ones it exports.
+
+const { db } = require('./database');
+const { scopeClauses } = require('./dataScope');
+
+// The table each dataset is kept in, and for records limited by scope, the field holding their department.
+const DATASET_TABLES = {
+    employeeVisits: { table: 'employee_visits', scoped: true, departmentField: 'department' },
+    itAssignedIssues: { table: 'it_issues', scoped: true },
+    dutyPolicies: { table: 'duty_policies', scoped: false },
+    calendarEntries: { table: 'calendar_entries', scoped: false },
+};
+
+/**
+ * The records of a dataset.
+ * @param {string} name A key of DATASET_TABLES.
+ * @param {{ zones: string[], projects: string[], departments: string[] } | null} scope Limits employee visits
+ *     and IT issues to a data scope; null for every record.
+ */
+const loadDataset = (name, scope = null) => {
+    const { table, scoped, departmentField } = DATASET_TABLES[name];
+    const { clauses, params } = scoped ? scopeClauses(scope, departmentField) : { clauses: [], params: {} };
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    return db.prepare(`SELECT data FROM ${table} ${where} ORDER BY created_at`).all(params).map(row => JSON.parse(row.data));
+};
+
+module.exports = { loadDataset };
@@ -0,0 +1,92 @@
+// server/reportPdfs.js - Draws scheduled reports as PDFs. The figures come from shared/reports.js and the
+// layouts from shared/reportPdfs.js, the same code the app exports them with:
+//   - visitSummary: one set of pages per employee, as VisitSummaryPDFGenerator;
+//   - dutyAnalysis: as DutyAnalysis, with no observation remarks;
+//   - itSummary:    as ITAnalysisTab's summary PDF, for the issues reported in the month.
+
+// Requires: npm install jspdf jspdf-autotable
+const { jsPDF } = require('jspdf');
+const { applyPlugin } = require('jspdf-autotable');
+const { formatMonth, companyDate } = require('../shared/time.js');
+const { createWorkCalendar } = require('../shared/workCalendar.js');
+const { buildVisitSummaries, buildDutySummary, buildDutyAnalysis, analyzeItIssues } = require('../shared/reports.js');
+const { drawVisitSummaryPdf, drawDutyAnalysisPdf, drawItSummaryPdf } = require('../shared/reportPdfs.js');
+
+// Adds doc.autoTable(), as the CDN build does in the browser.
+applyPlugin(jsPDF);
+
+// Each renderer draws a report for a month, limited by the schedule's filters, or returns null when the
+// month has nothing to report on.
+
+/** @param {{ department?: string, employeeName?: string }} filters */
+const renderVisitSummary = ({ month, filters, preparedBy, datasets, generatedOn }) => {
+    const summaries = buildVisitSummaries(datasets.employeeVisits, month, createWorkCalendar(datasets.calendarEntries), filters);
+    if (summaries.length === 0) return null;
+    const title = `Monthly Visit Report - ${formatMonth(month)}`;
+    const subject = filters.employeeName || filters.department || 'all-depts';
+    return {
+        doc: drawVisitSummaryPdf(jsPDF, summaries, { title, month, preparedOn: generatedOn, preparedBy }),
+        title,
+        fileName: `visit-summary-${subject}-${month}.pdf`,
+    };
+};
+
+/** @param {{ department?: string }} filters */
+const renderDutyAnalysis = ({ month, filters, datasets }) => {
+    const summaryRows = buildDutySummary(datasets.employeeVisits, month, {
+        dutyPolicies: datasets.dutyPolicies,
+        calendar: createWorkCalendar(datasets.calendarEntries),
+    }).filter(row => !filters.department || row.department === filters.department);
+    const analysis = buildDutyAnalysis(datasets.employeeVisits, month, summaryRows);
+    if (analysis.length === 0) return null;
+    return {
+        doc: drawDutyAnalysisPdf(jsPDF, analysis),
+        title: `Duty Analysis Report - ${formatMonth(month)}`,
+        fileName: `duty_analysis_report_${month}.pdf`,
+    };
+};
+
+/** @param {{ zone?: string, projectName?: string }} filters */
+const renderItSummary = ({ month, filters, preparedBy, datasets }) => {
+    const issues = datasets.itAssignedIssues
+        .map(issue => ({ ...issue, reportedAt: new Date(issue.reportedAt) }))
+        .filter(issue => !isNaN(issue.reportedAt.getTime()) && companyDate(issue.reportedAt).startsWith(month))
+        .filter(issue => (!filters.zone || issue.zone === filters.zone) && (!filters.projectName || issue.projectName === filters.projectName));
+    const analysis = analyzeItIssues(issues);
+    if (!analysis) return null;
+    const title = `IT Response Timeline - Summary Report (${formatMonth(month)})`;
+    return { doc: drawItSummaryPdf(jsPDF, analysis, { title, preparedBy }), title, fileName: `it-analysis-summary-${month}.pdf` };
+};
+
+// `permission` lists the pages whose view permission lets a user receive the report (any one of them), as for
+// the records it is drawn from.
+const REPORT_TYPES = {
+    visitSummary: {
+        label: 'Monthly Visit Summary',
+        permission: ['employeeProjectVisit', 'monthlyComparisonPrecision'],
+        datasets: ['employeeVisits', 'calendarEntries'],
+        render: renderVisitSummary,
+    },
+    dutyAnalysis: {
+        label: 'Duty Analysis',
+        permission: ['employeeProjectVisit', 'monthlyComparisonPrecision'],
+        datasets: ['employeeVisits', 'dutyPolicies', 'calendarEntries'],
+        render: renderDutyAnalysis,
+    },
+    itSummary: { label: 'IT Response Timeline Summary', permission: ['itResponseTimeline'], datasets: ['itAssignedIssues'], render: renderItSummary },
+};
+
+/**
+ * Draws a report for a YYYY-MM month.
+ * @param {string} reportType A key of REPORT_TYPES.
+ * @param {{ month: string, filters: object, preparedBy: { name: string, designation: string }, datasets: object, generatedOn: string }} options
+ *   `datasets` holds the records named in the report type's `datasets`; `generatedOn` is a YYYY-MM-DD date.
+ * @returns {{ title: string, fileName: string, pdf: Buffer } | null} null when the month has no records to report on.
+ */
+const renderReport = (reportType, options) => {
+    const rendered = REPORT_TYPES[reportType].render(options);
+    if (!rendered) return null;
+    return { title: rendered.title, fileName: rendered.fileName, pdf: Buffer.from(rendered.doc.output('arraybuffer')) };
+};
+
+module.exports = { REPORT_TYPES, renderReport };
@@ -0,0 +1,300 @@
+// server/reportScheduler.js - Runs saved report schedules and keeps the reports they produce.
+//
+// A schedule (the reportSchedules resource, see resources.js) names a report type (see reportPdfs.js), its
+// filters and recipients, and when to run: every day, weekly on a weekday or monthly on a day of the month,
+// at a time of day in the company's time zone. Once a minute the server runs the schedules that are due:
+// it draws the PDF, keeps it in the report archive and emails it to each recipient.
+// A monthly report covers the previous month; daily and weekly ones cover the month of the day before the
+// run, so the run on the 1st still reports on the whole previous month.
+// Recipients are users of the app who can view the pages the report type is drawn from (see reportPdfs.js). Each
+// is sent the report drawn from the records their data scope covers (see dataScope.js); the archive keeps the
+// report covering every record, so users limited to some records can't download it.
+//
+//   GET    /api/reports/archive             List archived reports, newest first. Query: page, pageSize, scheduleId.
+//   GET    /api/reports/archive/:id/pdf     Download an archived report.
+//   DELETE /api/reports/archive/:id         Delete an archived report.
+//   POST   /api/reports/schedules/:id/run   Run a schedule now, whether or not it is enabled.
+
+const express = require('express');
+const { db } = require('./database');
+const { sendMail } = require('./mail');
+const { recordAudit, recordRequestAudit } = require('./audit');
+const { REPORT_TYPES, renderReport } = require('./reportPdfs');
+const { userScope, requestScope } = require('./dataScope');
+const { loadDataset } = require('./reportData');
+const { companyDate } = require('../shared/time.js');
+const { REPORT_FREQUENCIES, nextRunAt, reportMonth } = require('./scheduleTimes');
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const ARCHIVE_COLUMNS = `id, schedule_id, schedule_name, report_type, title, period, file_name, length(pdf) AS size,
+    recipients_json, delivery_status, delivery_error, generated_at, generated_by`;
+
+const statements = {
+    scheduleById: db.prepare('SELECT data FROM report_schedules WHERE id = ?'),
+    userByEmail: db.prepare(`SELECT data FROM users WHERE lower(json_extract(data, '$.email')) = lower(?) LIMIT 1`),
+    dueSchedules: db.prepare(`
+        SELECT data FROM report_schedules
+        WHERE json_extract(data, '$.enabled') = 1 AND json_extract(data, '$.nextRunAt') <= ?
+    `),
+    updateSchedule: db.prepare('UPDATE report_schedules SET data = ?, updated_at = ? WHERE id = ?'),
+    insertArchive: db.prepare(`
+        INSERT INTO report_archive (schedule_id, schedule_name, report_type, title, period, file_name, pdf,
+            recipients_json, delivery_status, delivery_error, generated_at, generated_by)
+        VALUES (@scheduleId, @scheduleName, @reportType, @title, @period, @fileName, @pdf,
+            @recipients, @deliveryStatus, @deliveryError, @generatedAt, @generatedBy)
+    `),
+    archiveById: db.prepare(`SELECT ${ARCHIVE_COLUMNS} FROM report_archive WHERE id = ?`),
+    archivePdf: db.prepare('SELECT file_name, pdf FROM report_archive WHERE id = ?'),
+    deleteArchive: db.prepare('DELETE FROM report_archive WHERE id = ?'),
+};
+
+const toPositiveInt = (value, fallback) => {
+    const parsed = parseInt(value, 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Checks the fields that depend on the frequency, and works out the next run. For the resource's prepareRecord. */
+const prepareSchedule = (record) => {
+    if (record.frequency === 'weekly' && !(Number.isInteger(record.weekday) && record.weekday >= 0 && record.weekday <= 6)) {
+        return { error: { field: 'weekday', message: 'A weekly report needs the day of the week it runs on.' } };
+    }
+    if (record.frequency === 'monthly' && !(Number.isInteger(record.dayOfMonth) && record.dayOfMonth >= 1 && record.dayOfMonth <= 28)) {
+        return { error: { field: 'dayOfMonth', message: 'A monthly report needs a day of the month between 1 and 28.' } };
+    }
+    const badRecipient = (record.recipients || []).find(email => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
+    if (badRecipient) {
+        return { error: { field: 'recipients', message: `"${badRecipient}" is not an email address.` } };
+    }
+    const unknownRecipient = (record.recipients || []).find(email => !statements.userByEmail.get(email));
+    if (unknownRecipient) {
+        return { error: { field: 'recipients', message: `No user has the email address "${unknownRecipient}". Reports are only sent to users of the app.` } };
+    }
+    return { record: { ...record, filters: record.filters || {}, nextRunAt: record.enabled ? nextRunAt(record) : null } };
+};
+
+const toArchivedReport = (row) => ({
+    id: row.id,
+    scheduleId: row.schedule_id === null ? null : Number(row.schedule_id),
+    scheduleName: row.schedule_name,
+    reportType: row.report_type,
+    title: row.title,
+    period: row.period,
+    fileName: row.file_name,
+    size: row.size,
+    recipients: JSON.parse(row.recipients_json),
+    deliveryStatus: row.delivery_status,
+    deliveryError: row.delivery_error,
+    generatedAt: row.generated_at,
+    generatedBy: row.generated_by,
+});
+
+const emailText = (schedule, title) => [
+    'Hello,',
+    '',
+    `Attached is "${title}", sent by the "${schedule.name}" report schedule in Precision.`,
+    '',
+    'You receive this email because you are on the schedule\'s recipient list. Earlier reports can be found under Scheduled Reports in the app.',
+].join('\n');
+
+/** Whether a user may receive reports of a type. */
+const canReceive = (user, reportType) => REPORT_TYPES[reportType].permission.some(module => user.permissions?.[module]?.view === true);
+
+/**
+ * Draws a schedule's report, keeps it in the archive and emails each recipient the report for their data scope.
+ * Recipients whose scope covers nothing in the report are not emailed; those who may not view the report's
+ * pages are not emailed either, and are listed in the delivery error.
+ * @param {object} schedule
+ * @param {{ runAt?: Date, requestedBy?: { id: number|string, name: string } | null }} options
+ *   `requestedBy` is the user who ran the schedule by hand; null for scheduled runs.
+ * @returns {Promise<{ status: 'sent'|'failed'|'archived'|'empty', month: string, report: object|null }>}
+ *   'archived' when the schedule has no recipients, 'empty' when there was nothing to report on.
+ */
+const runSchedule = async (schedule, { runAt = new Date(), requestedBy = null } = {}) => {
+    const month = reportMonth(schedule, runAt);
+    // The report for each data scope, drawn the first time a recipient needs it. The key null is every record.
+    const reportsByScope = new Map();
+    const reportFor = (scope) => {
+        const key = JSON.stringify(scope);
+        if (!reportsByScope.has(key)) {
+            reportsByScope.set(key, renderReport(schedule.reportType, {
+                month,
+                filters: schedule.filters || {},
+                preparedBy: { name: schedule.preparedByName || 'MIS', designation: schedule.preparedByDesignation || '' },
+                datasets: Object.fromEntries(REPORT_TYPES[schedule.reportType].datasets.map(name => [name, loadDataset(name, scope)])),
+                generatedOn: companyDate(runAt),
+            }));
+        }
+        return reportsByScope.get(key);
+    };
+    const rendered = reportFor(null);
+
+    let status = 'empty';
+    let report = null;
+    if (rendered) {
+        const recipients = schedule.recipients || [];
+        let deliveryError = null;
+        const addDeliveryError = (to, message) => { deliveryError = `${deliveryError ? `${deliveryError} ` : ''}${to}: ${message}`; };
+        for (const to of recipients) {
+            const row = statements.userByEmail.get(to);
+            if (!row) {
+                addDeliveryError(to, 'no longer a user of the app.');
+                continue;
+            }
+            const recipient = JSON.parse(row.data);
+            if (!canReceive(recipient, schedule.reportType)) {
+                addDeliveryError(to, `not allowed to view ${REPORT_TYPES[schedule.reportType].label} reports.`);
+                continue;
+            }
+            const recipientReport = reportFor(userScope(recipient));
+            if (!recipientReport) continue;
+            try {
+                await sendMail({
+                    to,
+                    subject: recipientReport.title,
+                    text: emailText(schedule, recipientReport.title),
+                    attachments: [{ filename: recipientReport.fileName, contentType: 'application/pdf', content: recipientReport.pdf }],
+                });
+            } catch (err) {
+                console.error(`Could not email report schedule ${schedule.id} to ${to}:`, err);
+                addDeliveryError(to, err.message);
+            }
+        }
+        status = deliveryError ? 'failed' : recipients.length > 0 ? 'sent' : 'archived';
+        const { lastInsertRowid } = statements.insertArchive.run({
+            scheduleId: String(schedule.id),
+            scheduleName: schedule.name,
+            reportType: schedule.reportType,
+            title: rendered.title,
+            period: month,
+            fileName: rendered.fileName,
+            pdf: rendered.pdf,
+            recipients: JSON.stringify(recipients),
+            deliveryStatus: status,
+            deliveryError,
+            generatedAt: runAt.toISOString(),
+            generatedBy: requestedBy?.name ?? null,
+        });
+        report = toArchivedReport(statements.archiveById.get(lastInsertRowid));
+    }
+
+    recordAudit({
+        actor: requestedBy,
+        action: 'report.run',
+        entityType: 'report_schedules',
+        entityId: schedule.id,
+        summary: status === 'empty'
+            ? `Report schedule ${schedule.id} (${schedule.name}) found no records for ${month}`
+            : `Ran report schedule ${schedule.id} (${schedule.name}) for ${month}: ${status}`,
+    });
+    return { status, month, report };
+};
+
+const saveRunState = (schedule, changes) => {
+    statements.updateSchedule.run(JSON.stringify({ ...schedule, ...changes }), new Date().toISOString(), String(schedule.id));
+};
+
+let isCheckRunning = false;
+
+/** Runs every enabled schedule that is due. A schedule moves on to its next run before it runs, so a failing report is not retried every minute. */
+const runDueSchedules = async () => {
+    if (isCheckRunning) return;
+    isCheckRunning = true;
+    try {
+        const now = new Date();
+        const due = statements.dueSchedules.all(now.toISOString()).map(row => JSON.parse(row.data));
+        for (const schedule of due) {
+            saveRunState(schedule, { nextRunAt: nextRunAt(schedule, now) });
+            let lastRunStatus;
+            try {
+                lastRunStatus = (await runSchedule(schedule, { runAt: now })).status;
+            } catch (err) {
+                console.error(`Report schedule ${schedule.id} failed:`, err);
+                lastRunStatus = 'error';
+            }
+            const current = statements.scheduleById.get(String(schedule.id));
+            if (current) saveRunState(JSON.parse(current.data), { lastRunAt: now.toISOString(), lastRunStatus });
+        }
+    } finally {
+        isCheckRunning = false;
+    }
+};
+
+/** Starts checking for due schedules once a minute. */
+const startReportScheduler = () => {
+    runDueSchedules().catch(err => console.error('Report scheduler failed:', err));
+    setInterval(() => {
+        runDueSchedules().catch(err => console.error('Report scheduler failed:', err));
+    }, CHECK_INTERVAL_MS);
+};
+
+/**
+ * Creates the /api/reports router. Mount it behind requireAuth.
+ * @param {{ requirePermission: (module: string) => import('express').RequestHandler }} options
+ */
+const createReportsRouter = ({ requirePermission }) => {
+    const router = express.Router();
+    const requireReports = requirePermission('reports');
+
+    router.get('/archive', requireReports, (req, res) => {
+        const page = toPositiveInt(req.query.page, 1);
+        const pageSize = Math.min(toPositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+        const params = {};
+        let where = '';
+        if (req.query.scheduleId) { where = 'WHERE schedule_id = @scheduleId'; params.scheduleId = String(req.query.scheduleId); }
+
+        const { total } = db.prepare(`SELECT COUNT(*) AS total FROM report_archive ${where}`).get(params);
+        const rows = db.prepare(`
+            SELECT ${ARCHIVE_COLUMNS} FROM report_archive ${where}
+            ORDER BY id DESC
+            LIMIT @limit OFFSET @offset
+        `).all({ ...params, limit: pageSize, offset: (page - 1) * pageSize });
+
+        res.json({ data: rows.map(toArchivedReport), total, page, pageSize });
+    });
+
+    router.get('/archive/:id/pdf', requireReports, (req, res) => {
+        if (requestScope(req)) {
+            return res.status(403).json({ error: 'Archived reports cover every record, so only users who can see every record can download them.' });
+        }
+        const row = statements.archivePdf.get(req.params.id);
+        if (!row) return res.status(404).json({ error: 'Report not found.' });
+        res.set('Content-Type', 'application/pdf')
+            .set('Content-Disposition', `attachment; filename="${row.file_name.replace(/"/g, '')}"`)
+            .send(row.pdf);
+    });
+
+    router.delete('/archive/:id', requireReports, (req, res) => {
+        const row = statements.archiveById.get(req.params.id);
+        if (!row) return res.status(404).json({ error: 'Report not found.' });
+        statements.deleteArchive.run(req.params.id);
+        recordRequestAudit(req, {
+            action: 'delete',
+            entityType: 'report_archive',
+            entityId: row.id,
+            summary: `Deleted archived report ${row.id} (${row.title})`,
+        });
+        res.status(204).end();
+    });
+
+    router.post('/schedules/:id/run', requireReports, async (req, res, next) => {
+        const row = statements.scheduleById.get(req.params.id);
+        if (!row) return res.status(404).json({ error: 'Report schedule not found.' });
+        try {
+            const schedule = JSON.parse(row.data);
+            const runAt = new Date();
+            const result = await runSchedule(schedule, { runAt, requestedBy: req.impersonatedUser || req.user });
+            const current = statements.scheduleById.get(req.params.id);
+            if (current) saveRunState(JSON.parse(current.data), { lastRunAt: runAt.toISOString(), lastRunStatus: result.status });
+            res.json(result);
+        } catch (err) {
+            next(err);
+        }
+    });
+
+    return router;
+};
+
+module.exports = { REPORT_FREQUENCIES, prepareSchedule, runSchedule, startReportScheduler, createReportsRouter };
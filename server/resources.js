@@ -0,0 +1,452 @@
+// server/resources.js - REST resource definitions.
+// Schemas mirror the interfaces in types.ts; keep both in sync when a record type changes.
+
+const { hashPassword, MIN_PASSWORD_LENGTH } = require('./passwords');
+const { deleteUserSessions } = require('./auth');
+const { applyPermissionOverrides } = require('./permissions');
+const { countUsersWithTemplate, resolveUserAccess, propagateRoleTemplate } = require('./roleTemplates');
+const { checkDataScope, normalizeDataScope } = require('./dataScope');
+const { REPORT_TYPES } = require('./reportPdfs');
+const { REPORT_FREQUENCIES, prepareSchedule } = require('./reportScheduler');
+const { clearOtherDefaults } = require('./filterPresets');
+const { CASE_STATUSES, prepareCase } = require('./caseWorkflow');
+const { prepareVisitReport, canDeleteVisitReport } = require('./visitReports');
+const { clearReportingManager, findEmployee, linkToEmployee, relinkVisits } = require('./employees');
+const { findProject, forgetProjectNames, relinkRecords } = require('./projectLinks');
+
+const PRIORITIES = ['Low', 'Medium', 'High', 'Critical'];
+const PROJECT_STATUSES = ['Active', 'On Hold', 'Completed'];
+const CALENDAR_ENTRY_KINDS = ['weeklyOff', 'holiday', 'leave'];
+
+// The fields each kind of calendar entry needs besides its kind (see CalendarEntry in types.ts).
+const CALENDAR_ENTRY_FIELDS = {
+    weeklyOff: ['weekdays'],
+    holiday: ['name', 'startDate', 'endDate'],
+    leave: ['employeeName', 'startDate', 'endDate'],
+};
+
+const issueItemRule = { type: 'object' };
+const photoCaptureRule = { type: 'object' };
+
+const resources = {
+    visits: {
+        path: '/api/visits',
+        table: 'visits',
+        labelField: 'projectName',
+        idType: 'number',
+        // Submitted from New Visit Report; read there (to edit one) and on Visit Reports.
+        permission: ['projectVisit', 'visitReports'],
+        projectField: 'projectName',
+        linksToProjects: true,
+        zoneField: 'projectZone',
+        dateField: 'entryDate',
+        // Stamps the author, who alone may edit or delete the report for a while, and works out its
+        // verification flags (see visitReports.js).
+        prepareRecord: (record, input, context) => prepareVisitReport(record, input, { ...context, findProject }),
+        canDelete: canDeleteVisitReport,
+        schema: {
+            id: { type: 'number' },
+            projectName: { type: 'string', required: true },
+            projectId: { type: 'number' },
+            projectZone: { type: 'string' },
+            entryDate: { type: 'datetime', required: true },
+            reporterName: { type: 'string', required: true },
+            reporterEmployeeId: { type: 'string', required: true },
+            frontViewPhotos: { type: 'array', of: { type: 'string' } },
+            frontViewPhotoCaptures: { type: 'array', of: photoCaptureRule },
+            issues: { type: 'array', of: issueItemRule, required: true },
+            submitLocation: { type: 'object' },
+        },
+    },
+    cases: {
+        path: '/api/cases',
+        table: 'cases',
+        labelField: 'caseName',
+        idType: 'number',
+        // Reported from Project Case Report and followed up on Project Cases.
+        permission: ['projectCase', 'projectCasesList'],
+        projectField: 'projectName',
+        linksToProjects: true,
+        zoneField: 'projectZone',
+        dateField: 'date',
+        departmentField: 'liableDept',
+        // Only case managers can delete a case.
+        deletePermission: 'projectCasesList',
+        // Status workflow, assignment and due dates (see caseWorkflow.js).
+        prepareRecord: (record, input, context) => prepareCase(record, input, { ...context, findEmployee }),
+        schema: {
+            id: { type: 'number' },
+            caseName: { type: 'string', required: true },
+            projectName: { type: 'string', required: true },
+            projectId: { type: 'number' },
+            projectZone: { type: 'string' },
+            liableDept: { type: 'string' },
+            comments: { type: 'string' },
+            photo: { type: 'string' },
+            reporter: { type: 'string', required: true },
+            date: { type: 'date', required: true },
+            category: { type: 'string', required: true },
+            priority: { type: 'enum', values: PRIORITIES, required: true },
+            summary: { type: 'string' },
+            status: { type: 'enum', values: CASE_STATUSES },
+            assigneeId: { type: 'number' },
+            assigneeName: { type: 'string' },
+            resolutionPhoto: { type: 'string' },
+            resolutionNote: { type: 'string' },
+            thread: { type: 'array', of: { type: 'object' } },
+            linkedCaseId: { type: 'number' },
+        },
+    },
+    materialReceipts: {
+        path: '/api/material-receipts',
+        table: 'material_receipts',
+        labelField: 'projectName',
+        idType: 'number',
+        permission: ['materialReceive', 'materialReceiveList'],
+        bulkWrites: true,
+        projectField: 'projectName',
+        linksToProjects: true,
+        dateField: 'receivingDate',
+        schema: {
+            id: { type: 'number' },
+            mrf: { type: 'string', required: true },
+            projectName: { type: 'string', required: true },
+            projectId: { type: 'number' },
+            supplierName: { type: 'string', required: true },
+            materialName: { type: 'string', required: true },
+            quantity: { type: 'number', required: true },
+            unit: { type: 'string', required: true },
+            vehicle: { type: 'string', required: true },
+            vehicleNumber: { type: 'string' },
+            receivedBy: { type: 'string', required: true },
+            receivingDate: { type: 'date', required: true },
+            receivingTime: { type: 'time', required: true },
+            entryDate: { type: 'datetime', required: true },
+        },
+    },
+    erpCorrections: {
+        path: '/api/erp-corrections',
+        table: 'erp_corrections',
+        labelField: 'projectName',
+        idType: 'id',
+        permission: 'erpCorrectionReport',
+        bulkWrites: true,
+        projectField: 'projectName',
+        linksToProjects: true,
+        dateField: 'entryDate',
+        departmentField: 'department',
+        schema: {
+            id: { type: 'id' },
+            officers: { type: 'string', required: true },
+            department: { type: 'string', required: true },
+            designation: { type: 'string', required: true },
+            projectName: { type: 'string', required: true },
+            projectId: { type: 'number' },
+            documentType: { type: 'string', required: true },
+            trackingNumber: { type: 'string', required: true },
+            correctionType: { type: 'string', required: true },
+            entryDate: { type: 'string', required: true },
+            entryTime: { type: 'string', required: true },
+            status: { type: 'string', required: true },
+            completedDate: { type: 'string' },
+            completedTime: { type: 'string' },
+            oldData: { type: 'string', required: true },
+            newData: { type: 'string', required: true },
+            remarks: { type: 'string' },
+        },
+    },
+    itIssues: {
+        path: '/api/it-issues',
+        table: 'it_issues',
+        labelField: 'projectName',
+        idType: 'string',
+        permission: 'itResponseTimeline',
+        bulkWrites: true,
+        projectField: 'projectName',
+        linksToProjects: true,
+        zoneField: 'zone',
+        dateField: 'reportedAt',
+        schema: {
+            id: { type: 'string' },
+            issue: { type: 'string', required: true },
+            reportedAt: { type: 'datetime', required: true },
+            assignedTo: { type: 'string', required: true },
+            status: { type: 'enum', values: ['Issue', 'Offline'], required: true },
+            projectName: { type: 'string', required: true },
+            projectId: { type: 'number' },
+            zone: { type: 'string', required: true },
+        },
+    },
+    employeeVisits: {
+        path: '/api/employee-visits',
+        table: 'employee_visits',
+        labelField: 'visitorName',
+        idType: 'number',
+        // Imported and corrected on Employee Project Visit and Monthly Comparison.
+        permission: ['employeeProjectVisit', 'monthlyComparisonPrecision'],
+        // Imports and bulk deletes of whole sheets are sent as one request (see crudRouter.js).
+        bulkWrites: true,
+        projectField: 'projectName',
+        linksToProjects: true,
+        dateField: 'date',
+        departmentField: 'department',
+        prepareRecord: (record) => ({ record: linkToEmployee(record) }),
+        schema: {
+            id: { type: 'number' },
+            date: { type: 'date', required: true },
+            visitorName: { type: 'string', required: true },
+            visitorId: { type: 'number' },
+            visitorEmployeeId: { type: 'string' },
+            department: { type: 'string', required: true },
+            designation: { type: 'string', required: true },
+            projectName: { type: 'string', required: true },
+            projectId: { type: 'number' },
+            entryTime: { type: 'string', required: true },
+            outTime: { type: 'string', required: true },
+            duration: { type: 'string', required: true },
+            remarks: { type: 'string' },
+        },
+    },
+    projects: {
+        path: '/api/projects',
+        table: 'projects',
+        labelField: 'name',
+        idType: 'number',
+        // Every form picks from the project list; only System Management changes it.
+        permission: ['systemManagement_addProject', 'systemManagement_projectList'],
+        openReads: true,
+        projectField: 'name',
+        zoneField: 'zone',
+        uniqueFields: ['code'],
+        schema: {
+            id: { type: 'number' },
+            name: { type: 'string', required: true },
+            code: { type: 'string' },
+            zone: { type: 'string', required: true },
+            address: { type: 'string', required: true },
+            latitude: { type: 'number', min: -90, max: 90 },
+            longitude: { type: 'number', min: -180, max: 180 },
+            geofenceRadius: { type: 'number', min: 1 },
+            startDate: { type: 'date' },
+            handoverDate: { type: 'date' },
+            phase: { type: 'string' },
+            status: { type: 'enum', values: PROJECT_STATUSES },
+            siteEngineer: { type: 'string' },
+            securitySupervisors: { type: 'array', of: { type: 'string' } },
+            aliases: { type: 'array', of: { type: 'string' } },
+        },
+        prepareRecord: (record) => {
+            if ((record.latitude === undefined) !== (record.longitude === undefined)) {
+                return { error: { field: 'longitude', message: 'Site coordinates need both a latitude and a longitude.' } };
+            }
+            if (record.startDate && record.handoverDate && record.handoverDate < record.startDate) {
+                return { error: { field: 'handoverDate', message: 'The handover date cannot be before the start date.' } };
+            }
+            return { record };
+        },
+        // Keeps the records filed against the project, and the data scopes that name it, in step with its names.
+        afterWrite: (project, { deleted, previous }) => {
+            if (deleted) forgetProjectNames(project);
+            else relinkRecords(project, Object.values(resources).filter(resource => resource.linksToProjects), previous);
+        },
+    },
+    // Duty policies, the company calendar and the employee directory are read by every analysis and report,
+    // so every signed-in user can read them; only their System Management tabs change them.
+    dutyPolicies: {
+        path: '/api/duty-policies',
+        table: 'duty_policies',
+        labelField: 'department',
+        idType: 'number',
+        permission: 'systemManagement_dutyPolicies',
+        openReads: true,
+        schema: {
+            id: { type: 'number' },
+            department: { type: 'string' },
+            designations: { type: 'array', of: { type: 'string' }, required: true },
+            expectedHours: { type: 'number', min: 0, max: 24, required: true },
+            effectiveFrom: { type: 'date' },
+            effectiveTo: { type: 'date' },
+        },
+        prepareRecord: (record) => {
+            if (record.effectiveFrom && record.effectiveTo && record.effectiveTo < record.effectiveFrom) {
+                return { error: { field: 'effectiveTo', message: 'A policy cannot end before it takes effect.' } };
+            }
+            return { record: { ...record, department: record.department ?? '' } };
+        },
+    },
+    calendarEntries: {
+        path: '/api/calendar-entries',
+        table: 'calendar_entries',
+        labelField: 'name',
+        idType: 'number',
+        permission: 'systemManagement_calendar',
+        openReads: true,
+        schema: {
+            id: { type: 'number' },
+            kind: { type: 'enum', values: CALENDAR_ENTRY_KINDS, required: true },
+            department: { type: 'string' },
+            weekdays: { type: 'array', of: { type: 'number' } },
+            name: { type: 'string' },
+            employeeName: { type: 'string' },
+            startDate: { type: 'date' },
+            endDate: { type: 'date' },
+            reason: { type: 'string' },
+        },
+        prepareRecord: (record) => {
+            const missing = CALENDAR_ENTRY_FIELDS[record.kind].find(field => record[field] === undefined || record[field] === '');
+            if (missing) return { error: { field: missing, message: `"${missing}" is required.` } };
+            if (record.weekdays?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+                return { error: { field: 'weekdays', message: 'Weekdays must be numbers from 0 (Sunday) to 6 (Saturday).' } };
+            }
+            if (record.startDate && record.endDate && record.endDate < record.startDate) {
+                return { error: { field: 'endDate', message: 'The end date cannot be before the start date.' } };
+            }
+            return { record: record.kind === 'weeklyOff' ? { ...record, department: record.department ?? '' } : record };
+        },
+    },
+    employees: {
+        path: '/api/employees',
+        table: 'employees',
+        labelField: 'name',
+        idType: 'number',
+        permission: 'systemManagement_employees',
+        openReads: true,
+        uniqueFields: ['employeeId'],
+        schema: {
+            id: { type: 'number' },
+            employeeId: { type: 'string', required: true },
+            name: { type: 'string', required: true },
+            aliases: { type: 'array', of: { type: 'string' } },
+            department: { type: 'string', required: true },
+            designation: { type: 'string', required: true },
+            reportingManagerId: { type: 'number' },
+            activeFrom: { type: 'date' },
+            activeTo: { type: 'date' },
+        },
+        prepareRecord: (record) => {
+            if (record.reportingManagerId === record.id) {
+                return { error: { field: 'reportingManagerId', message: 'An employee cannot be their own reporting manager.' } };
+            }
+            if (record.activeFrom && record.activeTo && record.activeTo < record.activeFrom) {
+                return { error: { field: 'activeTo', message: 'The last working day cannot be before the joining date.' } };
+            }
+            return { record };
+        },
+        // A renamed employee, or one given another spelling, is renamed in (or linked to) their visits.
+        afterWrite: (employee, { deleted, req }) => {
+            if (deleted) clearReportingManager(employee, req);
+            else relinkVisits(employee);
+        },
+    },
+    users: {
+        path: '/api/users',
+        table: 'users',
+        labelField: 'name',
+        idType: 'number',
+        adminOnly: true,
+        uniqueFields: ['email'],
+        // Never send stored passwords back to clients.
+        hiddenFields: ['password'],
+        prepareInput: (value) => value.password ? { ...value, password: hashPassword(value.password) } : value,
+        // Users with a role template get their role and permissions from it, plus their own overrides.
+        prepareRecord: (record, input) => {
+            const scopeError = checkDataScope(record.dataScope);
+            if (scopeError) return { error: { field: 'dataScope', message: scopeError } };
+            return resolveUserAccess({ ...record, dataScope: normalizeDataScope(record.dataScope) }, input);
+        },
+        // A new password or a deleted account ends every open session of that user.
+        afterWrite: (record, { input, deleted }) => {
+            if (deleted || input?.password) deleteUserSessions(record.id);
+        },
+        schema: {
+            id: { type: 'number' },
+            name: { type: 'string', required: true },
+            email: { type: 'string', required: true },
+            employeeId: { type: 'string', required: true },
+            designation: { type: 'string', required: true },
+            department: { type: 'string', required: true },
+            password: { type: 'string', minLength: MIN_PASSWORD_LENGTH, trim: false },
+            role: { type: 'enum', values: ['admin', 'user'], required: true },
+            permissions: { type: 'object', required: true },
+            roleTemplateId: { type: 'string' },
+            permissionOverrides: { type: 'object' },
+            dataScope: { type: 'object' },
+            avatar: { type: 'string' },
+        },
+    },
+    roleTemplates: {
+        path: '/api/role-templates',
+        table: 'role_templates',
+        labelField: 'name',
+        idType: 'string',
+        adminOnly: true,
+        uniqueFields: ['name'],
+        // Fill in any modules the client left out, so templates always hold a complete permission set.
+        prepareRecord: (record) => ({ record: { ...record, permissions: applyPermissionOverrides(record.permissions) } }),
+        canDelete: (template) => {
+            const assigned = countUsersWithTemplate(template.id);
+            return assigned > 0
+                ? `This role template is assigned to ${assigned} user${assigned === 1 ? '' : 's'}. Assign them another template first.`
+                : null;
+        },
+        // Changes to a template apply to every user assigned to it.
+        afterWrite: (template, { deleted, req }) => {
+            if (!deleted) propagateRoleTemplate(template, req);
+        },
+        schema: {
+            id: { type: 'string' },
+            name: { type: 'string', required: true },
+            description: { type: 'string' },
+            role: { type: 'enum', values: ['admin', 'user'], required: true },
+            permissions: { type: 'object', required: true },
+        },
+    },
+    reportSchedules: {
+        path: '/api/report-schedules',
+        table: 'report_schedules',
+        labelField: 'name',
+        idType: 'number',
+        permission: 'reports',
+        uniqueFields: ['name'],
+        // Also works out nextRunAt, which the scheduler reads (see reportScheduler.js).
+        prepareRecord: prepareSchedule,
+        schema: {
+            id: { type: 'number' },
+            name: { type: 'string', required: true },
+            reportType: { type: 'enum', values: Object.keys(REPORT_TYPES), required: true },
+            filters: { type: 'object' },
+            recipients: { type: 'array', of: { type: 'string' } },
+            frequency: { type: 'enum', values: REPORT_FREQUENCIES, required: true },
+            time: { type: 'time', required: true },
+            weekday: { type: 'number', min: 0, max: 6 },
+            dayOfMonth: { type: 'number', min: 1, max: 28 },
+            enabled: { type: 'boolean', required: true },
+            preparedByName: { type: 'string' },
+            preparedByDesignation: { type: 'string' },
+            lastRunAt: { type: 'datetime' },
+            lastRunStatus: { type: 'string' },
+        },
+    },
+    filterPresets: {
+        path: '/api/filter-presets',
+        table: 'filter_presets',
+        labelField: 'name',
+        idType: 'number',
+        ownerField: 'owner',
+        sharedField: 'shared',
+        afterWrite: (preset, { deleted }) => {
+            if (!deleted) clearOtherDefaults(preset);
+        },
+        schema: {
+            id: { type: 'number' },
+            name: { type: 'string', required: true },
+            view: { type: 'string', required: true },
+            tab: { type: 'string' },
+            params: { type: 'object', required: true },
+            shared: { type: 'boolean' },
+            isDefault: { type: 'boolean' },
+        },
+    },
+};
+
+module.exports = { resources };
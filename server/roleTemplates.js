@@ -0,0 +1,80 @@
+// server/roleTemplates.js - Keeps users' effective permissions in step with their role templates.
+
+const { db } = require('./database');
+const { applyPermissionOverrides, diffPermissions } = require('./permissions');
+const { recordRequestAudit } = require('./audit');
+
+const statements = {
+    templateById: db.prepare('SELECT data FROM role_templates WHERE id = ?'),
+    usersWithTemplate: db.prepare(`SELECT data FROM users WHERE json_extract(data, '$.roleTemplateId') = ?`),
+    updateUserData: db.prepare('UPDATE users SET data = ?, updated_at = ? WHERE id = ?'),
+};
+
+const findRoleTemplate = (id) => {
+    const row = statements.templateById.get(String(id));
+    return row ? JSON.parse(row.data) : null;
+};
+
+const countUsersWithTemplate = (templateId) => statements.usersWithTemplate.all(String(templateId)).length;
+
+/**
+ * Derives a templated user's role, overrides and effective permissions before it is saved.
+ * Overrides come from the input when given; otherwise they are recomputed from submitted permissions,
+ * or the stored overrides are re-applied.
+ * @returns {{ record: object } | { error: { field: string, message: string } }}
+ */
+const resolveUserAccess = (record, input) => {
+    if (!record.roleTemplateId) return { record };
+    const template = findRoleTemplate(record.roleTemplateId);
+    if (!template) {
+        return { error: { field: 'roleTemplateId', message: `Role template "${record.roleTemplateId}" does not exist.` } };
+    }
+
+    let overrides = record.permissionOverrides || {};
+    if (input.permissionOverrides !== undefined) {
+        overrides = input.permissionOverrides;
+    } else if (input.permissions !== undefined) {
+        overrides = diffPermissions(template.permissions, input.permissions);
+    }
+    const permissions = applyPermissionOverrides(template.permissions, overrides);
+    return {
+        record: {
+            ...record,
+            role: template.role,
+            // Stored normalized, so overrides that match the template disappear.
+            permissionOverrides: diffPermissions(template.permissions, permissions),
+            permissions,
+        },
+    };
+};
+
+/**
+ * Re-applies a role template to every user assigned to it, keeping their overrides.
+ * @param {object} template The saved template.
+ * @param {import('express').Request} req The request that changed it, for the audit log.
+ */
+const propagateRoleTemplate = (template, req) => {
+    db.transaction(() => {
+        statements.usersWithTemplate.all(String(template.id)).forEach(row => {
+            const user = JSON.parse(row.data);
+            const updated = {
+                ...user,
+                role: template.role,
+                permissions: applyPermissionOverrides(template.permissions, user.permissionOverrides),
+            };
+            if (JSON.stringify(updated) === row.data) return;
+
+            statements.updateUserData.run(JSON.stringify(updated), new Date().toISOString(), String(user.id));
+            recordRequestAudit(req, {
+                action: 'update',
+                entityType: 'users',
+                entityId: user.id,
+                summary: `Applied role template ${template.name} to ${user.name}`,
+                before: user,
+                after: updated,
+            });
+        });
+    })();
+};
+
+module.exports = { findRoleTemplate, countUsersWithTemplate, resolveUserAccess, propagateRoleTemplate };
@@ -0,0 +1,34 @@
+// server/scheduleTimes.js - When report schedules run (see reportScheduler.js), and which month each run
+// reports on. Times are the company's wall-clock time (shared/time.js).
+
+const { COMPANY_UTC_OFFSET_MINUTES, previousMonth, companyDate } = require('../shared/time.js');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OFFSET_MS = COMPANY_UTC_OFFSET_MINUTES * 60 * 1000;
+
+const REPORT_FREQUENCIES = ['daily', 'weekly', 'monthly'];
+
+/**
+ * When a schedule next runs after an instant, as an ISO timestamp.
+ * @param {{ frequency: string, time: string, weekday?: number, dayOfMonth?: number }} schedule
+ */
+const nextRunAt = (schedule, after = new Date()) => {
+    const [hours, minutes] = schedule.time.split(':').map(Number);
+    // The company's wall-clock time, read with the UTC getters.
+    const clock = new Date(after.getTime() + OFFSET_MS);
+    for (let days = 0; days <= 31; days++) {
+        const run = new Date(Date.UTC(clock.getUTCFullYear(), clock.getUTCMonth(), clock.getUTCDate() + days, hours, minutes));
+        const matches = schedule.frequency === 'daily'
+            || (schedule.frequency === 'weekly' && run.getUTCDay() === schedule.weekday)
+            || (schedule.frequency === 'monthly' && run.getUTCDate() === schedule.dayOfMonth);
+        if (matches && run > clock) return new Date(run.getTime() - OFFSET_MS).toISOString();
+    }
+    return null;
+};
+
+/** The YYYY-MM month a run of the schedule at `runAt` reports on. */
+const reportMonth = (schedule, runAt) => (schedule.frequency === 'monthly'
+    ? previousMonth(companyDate(runAt).slice(0, 7))
+    : companyDate(new Date(runAt.getTime() - DAY_MS)).slice(0, 7));
+
+module.exports = { REPORT_FREQUENCIES, nextRunAt, reportMonth };
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { nextRunAt, reportMonth } from './scheduleTimes';
+
+// Dhaka is UTC+6, so 08:00 there is 02:00 UTC.
+describe('nextRunAt', () => {
+    it('runs a daily schedule later the same day, or the next day once the time has passed', () => {
+        const daily = { frequency: 'daily', time: '08:00' };
+        expect(nextRunAt(daily, new Date('2025-07-01T01:00:00Z'))).toBe('2025-07-01T02:00:00.000Z');
+        expect(nextRunAt(daily, new Date('2025-07-01T02:00:00Z'))).toBe('2025-07-02T02:00:00.000Z');
+    });
+
+    it("reads the time on the company's clock, whatever the UTC date", () => {
+        // 01:00 on 1 July in Dhaka.
+        expect(nextRunAt({ frequency: 'daily', time: '00:30' }, new Date('2025-06-30T19:00:00Z'))).toBe('2025-07-01T18:30:00.000Z');
+        expect(nextRunAt({ frequency: 'daily', time: '23:30' }, new Date('2025-06-30T19:00:00Z'))).toBe('2025-07-01T17:30:00.000Z');
+    });
+
+    it('runs a weekly schedule on its weekday', () => {
+        // 1 July 2025 is a Tuesday.
+        expect(nextRunAt({ frequency: 'weekly', time: '08:00', weekday: 1 }, new Date('2025-07-01T01:00:00Z'))).toBe('2025-07-07T02:00:00.000Z');
+        expect(nextRunAt({ frequency: 'weekly', time: '08:00', weekday: 2 }, new Date('2025-07-01T01:00:00Z'))).toBe('2025-07-01T02:00:00.000Z');
+        expect(nextRunAt({ frequency: 'weekly', time: '08:00', weekday: 2 }, new Date('2025-07-01T03:00:00Z'))).toBe('2025-07-08T02:00:00.000Z');
+    });
+
+    it('runs a monthly schedule on its day of the month, into the next year', () => {
+        expect(nextRunAt({ frequency: 'monthly', time: '08:00', dayOfMonth: 1 }, new Date('2025-07-01T03:00:00Z'))).toBe('2025-08-01T02:00:00.000Z');
+        expect(nextRunAt({ frequency: 'monthly', time: '08:00', dayOfMonth: 28 }, new Date('2025-12-29T00:00:00Z'))).toBe('2026-01-28T02:00:00.000Z');
+    });
+});
+
+describe('reportMonth', () => {
+    it('reports on the previous month for monthly schedules', () => {
+        expect(reportMonth({ frequency: 'monthly' }, new Date('2025-07-01T02:00:00Z'))).toBe('2025-06');
+        expect(reportMonth({ frequency: 'monthly' }, new Date('2025-01-15T02:00:00Z'))).toBe('2024-12');
+    });
+
+    it('reports on the month of the day before the run for daily and weekly schedules', () => {
+        expect(reportMonth({ frequency: 'daily' }, new Date('2025-07-01T02:00:00Z'))).toBe('2025-06');
+        expect(reportMonth({ frequency: 'weekly' }, new Date('2025-07-02T02:00:00Z'))).toBe('2025-07');
+        // 01:00 on 1 July in Dhaka, though still 30 June in UTC.
+        expect(reportMonth({ frequency: 'daily' }, new Date('2025-06-30T19:00:00Z'))).toBe('2025-06');
+        expect(reportMonth({ frequency: 'daily' }, new Date('2025-07-01T19:00:00Z'))).toBe('2025-07');
+    });
+});
@@ -0,0 +1,91 @@
+// server/validation.js - Minimal schema validation for request bodies.
+// A schema maps each field to a rule: { type, required?, values?, of?, minLength?, min?, max?, trim? }.
+// String values are trimmed unless the rule sets `trim: false`.
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([01]?\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const DURATION_REGEX = /^\d+:[0-5]?\d(:[0-5]?\d)?$/;
+
+const isValidDate = (value) => {
+    if (typeof value !== 'string' || !DATE_REGEX.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const checkers = {
+    string: (value) => typeof value === 'string',
+    number: (value) => typeof value === 'number' && isFinite(value),
+    boolean: (value) => typeof value === 'boolean',
+    id: (value) => (typeof value === 'number' && isFinite(value)) || (typeof value === 'string' && value.trim() !== ''),
+    date: isValidDate,
+    time: (value) => typeof value === 'string' && TIME_REGEX.test(value.trim()),
+    duration: (value) => typeof value === 'string' && DURATION_REGEX.test(value.trim()),
+    datetime: (value) => typeof value === 'string' && !isNaN(new Date(value).getTime()),
+    enum: (value, rule) => rule.values.includes(value),
+    array: (value) => Array.isArray(value),
+    object: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+};
+
+const describeRule = (rule) => {
+    switch (rule.type) {
+        case 'date': return 'a date in YYYY-MM-DD format';
+        case 'time': return 'a time in HH:MM format';
+        case 'duration': return 'a duration in H:M:S format';
+        case 'datetime': return 'an ISO date-time string';
+        case 'enum': return `one of: ${rule.values.join(', ')}`;
+        case 'array': return 'a list';
+        case 'id': return 'a number or non-empty string';
+        default: return `a ${rule.type}`;
+    }
+};
+
+const isEmpty = (value) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Validates a record against a schema. Unknown fields are dropped.
+ * @param {object} schema Field rules.
+ * @param {object} body The incoming record.
+ * @param {{ partial?: boolean }} options With `partial`, missing required fields are allowed (for updates that merge).
+ * @returns {{ value: object, errors: { field: string, message: string }[] }}
+ */
+const validate = (schema, body, { partial = false } = {}) => {
+    const errors = [];
+    const value = {};
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        return { value, errors: [{ field: '', message: 'Request body must be a JSON object.' }] };
+    }
+
+    Object.entries(schema).forEach(([field, rule]) => {
+        const fieldValue = body[field];
+        if (isEmpty(fieldValue)) {
+            if (rule.required && !partial) errors.push({ field, message: `"${field}" is required.` });
+            return;
+        }
+        if (!checkers[rule.type](fieldValue, rule)) {
+            errors.push({ field, message: `"${field}" must be ${describeRule(rule)}.` });
+            return;
+        }
+        if (rule.minLength && fieldValue.length < rule.minLength) {
+            errors.push({ field, message: `"${field}" must be at least ${rule.minLength} characters long.` });
+            return;
+        }
+        if ((rule.min !== undefined && fieldValue < rule.min) || (rule.max !== undefined && fieldValue > rule.max)) {
+            const range = rule.max === undefined ? `at least ${rule.min}` : rule.min === undefined ? `at most ${rule.max}` : `between ${rule.min} and ${rule.max}`;
+            errors.push({ field, message: `"${field}" must be ${range}.` });
+            return;
+        }
+        if (rule.type === 'array' && rule.of) {
+            const badIndex = fieldValue.findIndex(item => !checkers[rule.of.type](item, rule.of));
+            if (badIndex > -1) {
+                errors.push({ field, message: `"${field}[${badIndex}]" must be ${describeRule(rule.of)}.` });
+                return;
+            }
+        }
+        value[field] = typeof fieldValue === 'string' && rule.trim !== false ? fieldValue.trim() : fieldValue;
+    });
+
+    return { value, errors };
+};
+
+module.exports = { validate, isValidDate };
@@ -0,0 +1,49 @@
+// server/visitReports.js - Authorship and verification of visit reports (the visits resource in resources.js).
+//
+// The server stamps each report with the user who submitted it and when. Only that user can change or delete
+// the report afterwards, and only for a grace period after submitting it; reports from before authors were
+// recorded can't be changed or deleted.
+//
+// Each time a report is saved, its submit location and photos are checked against its project's geofence
+// and its entry time (shared/visitVerification.js), so the flags can't be set by the app.
+
+const { verifyVisit } = require('../shared/visitVerification.js');
+
+const VISIT_EDIT_GRACE_HOURS = 24;
+
+/**
+ * Why `actor` may not change or delete a stored report, or null when they may.
+ * @returns {{ field: string, message: string } | null}
+ */
+const checkAuthorEdit = (report, actor, now = Date.now()) => {
+    if (report.submittedBy?.id !== actor.id) {
+        return { field: 'submittedBy', message: 'Only the user who submitted this report can change or delete it.' };
+    }
+    const editableUntil = new Date(report.submittedAt).getTime() + VISIT_EDIT_GRACE_HOURS * 60 * 60 * 1000;
+    if (now > editableUntil) {
+        return { field: 'submittedAt', message: `Reports can only be changed or deleted within ${VISIT_EDIT_GRACE_HOURS} hours of being submitted.` };
+    }
+    return null;
+};
+
+/**
+ * The prepareRecord hook of the visits resource. `findProject` looks up the report's project
+ * (projectLinks.js; resources.js passes it in).
+ */
+const prepareVisitReport = (record, input, { existing, req, findProject }) => {
+    const actor = req.impersonatedUser || req.user;
+    const verification = verifyVisit(record, findProject(record, 'projectName'));
+    if (!existing) {
+        return { record: { ...record, verification, submittedBy: { id: actor.id, name: actor.name }, submittedAt: new Date().toISOString() } };
+    }
+    const error = checkAuthorEdit(existing, actor);
+    if (error) return { error };
+    return { record: { ...record, verification, submittedBy: existing.submittedBy, submittedAt: existing.submittedAt } };
+};
+
+/**
+ * The canDelete hook of the visits resource.
+ */
+const canDeleteVisitReport = (report, { req }) => checkAuthorEdit(report, req.impersonatedUser || req.user)?.message ?? null;
+
+module.exports = { VISIT_EDIT_GRACE_HOURS, checkAuthorEdit, prepareVisitReport, canDeleteVisitReport };
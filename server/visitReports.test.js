@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { checkAuthorEdit, prepareVisitReport, canDeleteVisitReport } from './visitReports';
+
+const author = { id: 1, name: 'Site Engineer' };
+const colleague = { id: 2, name: 'Other Engineer' };
+const HOUR_MS = 60 * 60 * 1000;
+const submittedAt = '2025-07-01T10:00:00.000Z';
+const stored = { id: 5, projectName: 'Tower A', entryDate: '2025-07-01T09:30:00Z', issues: [], submittedBy: author, submittedAt };
+
+// 23.8103 N, 90.4125 E, with the default 200 m geofence.
+const project = { id: 1, name: 'Tower A', latitude: 23.8103, longitude: 90.4125 };
+const onSite = { latitude: 23.8104, longitude: 90.4126 };
+const offSite = { latitude: 23.8133, longitude: 90.4125 };
+
+/** Saves `record` over `existing` as `actor`, as the visits resource would. */
+const save = (record, { existing, actor = author, site = project } = {}) =>
+    prepareVisitReport(record, record, { existing, req: { user: actor }, findProject: () => site ?? undefined });
+
+describe('checkAuthorEdit', () => {
+    it('lets the author change a report within 24 hours of submitting it', () => {
+        expect(checkAuthorEdit(stored, author, Date.parse(submittedAt) + 23 * HOUR_MS)).toBeNull();
+        expect(checkAuthorEdit(stored, author, Date.parse(submittedAt) + 24 * HOUR_MS)).toBeNull();
+    });
+
+    it('refuses the author after 24 hours', () => {
+        expect(checkAuthorEdit(stored, author, Date.parse(submittedAt) + 24 * HOUR_MS + 1)?.field).toBe('submittedAt');
+    });
+
+    it('refuses anyone else, and reports without an author', () => {
+        expect(checkAuthorEdit(stored, colleague, Date.parse(submittedAt))?.field).toBe('submittedBy');
+        const { submittedBy, ...unattributed } = stored;
+        expect(checkAuthorEdit(unattributed, author, Date.parse(submittedAt))?.field).toBe('submittedBy');
+    });
+});
+
+describe('prepareVisitReport', () => {
+    it('stamps a new report with its author and when it was submitted', () => {
+        const { record } = save({ ...stored, submittedBy: colleague, submittedAt: '2000-01-01T00:00:00Z' }, { existing: undefined });
+        expect(record.submittedBy).toEqual(author);
+        expect(Date.parse(record.submittedAt)).toBeGreaterThan(Date.parse('2000-01-01T00:00:00Z'));
+    });
+
+    it('keeps the stamps of a stored report, and only its author may change it', () => {
+        const existing = { ...stored, submittedAt: new Date().toISOString() };
+        expect(save({ ...existing, submittedBy: colleague }, { existing }).record.submittedBy).toEqual(author);
+        expect(save(existing, { existing, actor: colleague }).error?.field).toBe('submittedBy');
+        expect(save(stored, { existing: stored }).error?.field).toBe('submittedAt');
+    });
+
+    it('accepts a report submitted within the geofence', () => {
+        const { record } = save({ ...stored, submitLocation: onSite });
+        expect(record.verification.flags).toEqual([]);
+        expect(record.verification.distanceFromSite).toBeLessThan(200);
+    });
+
+    it('flags a report submitted outside the geofence, or without a location', () => {
+        expect(save({ ...stored, submitLocation: offSite }).record.verification.flags).toEqual(['outsideGeofence']);
+        expect(save({ ...stored, submitLocation: offSite }, { site: { ...project, geofenceRadius: 500 } }).record.verification.flags).toEqual([]);
+        expect(save(stored).record.verification.flags).toEqual(['locationUnavailable']);
+    });
+
+    it("doesn't check the location of reports for projects without site coordinates", () => {
+        expect(save({ ...stored, submitLocation: offSite }, { site: null }).record.verification).toMatchObject({ flags: [], distanceFromSite: undefined });
+    });
+
+    it('flags photos taken off site or far from the entry time', () => {
+        const report = {
+            ...stored,
+            submitLocation: onSite,
+            frontViewPhotoCaptures: [{ takenAt: '2025-07-01T09:00:00Z', location: onSite }],
+            issues: [{ id: 1, description: 'Leak', photoCaptures: [{ takenAt: '2025-07-01T12:00:00Z', location: offSite }] }],
+        };
+        expect(save(report).record.verification.flags).toEqual(['outsideGeofence', 'photoTimeMismatch']);
+    });
+
+    it('works the flags out again, whatever the app sent', () => {
+        const { record } = save({ ...stored, submitLocation: offSite, verification: { flags: [], checkedAt: submittedAt } });
+        expect(record.verification.flags).toEqual(['outsideGeofence']);
+    });
+});
+
+describe('canDeleteVisitReport', () => {
+    it('gives the reason a user may not delete a report, or null when they may', () => {
+        const recent = { ...stored, submittedAt: new Date().toISOString() };
+        expect(canDeleteVisitReport(recent, { req: { user: author } })).toBeNull();
+        expect(canDeleteVisitReport(recent, { req: { user: colleague } })).toBe('Only the user who submitted this report can change or delete it.');
+        expect(canDeleteVisitReport(recent, { req: { user: colleague, impersonatedUser: author } })).toBeNull();
+    });
+});
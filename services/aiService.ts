@@ -0,0 +1,73 @@
+import type { AiStatus, AnalysisResult } from "../types";
+import { ApiError, apiRequest } from "./apiClient";
+
+// The backend runs the analysis with its configured provider (see server/aiProviders.js).
+async function callAi<T>(path: string, body: object): Promise<T> {
+  try {
+    return await apiRequest<T>(`/api/ai/${path}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error("Error calling the backend AI service:", error);
+    // Re-throw to be handled by the calling function
+    throw error;
+  }
+}
+
+const isAiDisabled = (error: unknown) => error instanceof ApiError && error.status === 503;
+
+/** Which AI provider the backend uses, and whether AI is turned on at all. */
+export const getAiStatus = (): Promise<AiStatus> => apiRequest<AiStatus>('/api/ai/status');
+
+export const analyzeIssueDescription = async (description: string, photos: string[] = []): Promise<AnalysisResult | null> => {
+    if (!description.trim()) {
+        return null;
+    }
+
+    try {
+        return await callAi<AnalysisResult>('classify-issue', { description, photos });
+    } catch (error) {
+        console.error("Error analyzing issue via backend:", error);
+        return null;
+    }
+};
+
+export const analyzeProjectCase = async (name: string, comments: string, photo: string): Promise<AnalysisResult | null> => {
+    if (!name.trim()) {
+        return null;
+    }
+
+    try {
+        return await callAi<AnalysisResult>('analyze-case', { name, comments, photo });
+    } catch (error) {
+        console.error("Error analyzing project case via backend:", error);
+        return null;
+    }
+};
+
+export const analyzeVisitData = async (visitDataJSON: string, userQuery: string): Promise<string | null> => {
+    if (!userQuery.trim()) {
+        return null;
+    }
+
+    try {
+        const response = await callAi<{ text: string }>('data-question', { data: visitDataJSON, question: userQuery });
+        return response.text;
+    } catch (error) {
+        console.error("Error analyzing visit data via backend:", error);
+        if (isAiDisabled(error)) return "AI analysis is turned off on this server.";
+        return "An error occurred while contacting the backend analysis service. Please try simplifying your filters or question.";
+    }
+};
+
+export const generateImprovementAnalysis = async (departmentData: string): Promise<string | null> => {
+    try {
+        const response = await callAi<{ text: string }>('improvement-analysis', { data: departmentData });
+        return response.text;
+    } catch (error) {
+        console.error("Error generating improvement analysis via backend:", error);
+        if (isAiDisabled(error)) return "Error: AI analysis is turned off on this server.";
+        return "Error: The backend AI model could not process the performance data. This might be due to a temporary service issue or a problem with the data format. Please try again later.";
+    }
+};
@@ -0,0 +1,14 @@
+import type { AiTriageJob, AiTriageSettings, AiTriageStatus } from '../types';
+import { apiRequest } from './apiClient';
+
+/** The triage settings, today's AI usage, what's waiting to be analysed and the latest job. */
+export const getAiTriageStatus = (): Promise<AiTriageStatus> => apiRequest<AiTriageStatus>('/api/ai-triage');
+
+export const saveAiTriageSettings = (settings: AiTriageSettings): Promise<AiTriageSettings> =>
+    apiRequest<AiTriageSettings>('/api/ai-triage/settings', { method: 'PUT', body: JSON.stringify(settings) });
+
+/** Starts analysing every unclassified issue and case on the server. */
+export const startAiTriage = (): Promise<AiTriageJob> => apiRequest<AiTriageJob>('/api/ai-triage/jobs', { method: 'POST' });
+
+/** Stops the running job; calls already sent still finish. */
+export const cancelAiTriage = (): Promise<AiTriageJob> => apiRequest<AiTriageJob>('/api/ai-triage/jobs/cancel', { method: 'POST' });
@@ -0,0 +1,250 @@
+import type { VisitReport, ProjectCase, MaterialReceiveItem, ERPCorrectionRecord, EmployeeVisit, ITAssignedIssue, Project, DutyPolicy, CalendarEntry, Employee, User, RoleTemplate, ReportSchedule, FilterPreset } from '../types';
+
+// The backend server's URL: BACKEND_URL in .env.local, or the local development server.
+export const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:3001';
+
+export interface ValidationErrorDetail {
+    field: string;
+    message: string;
+}
+
+/**
+ * An error response from the backend. `details` holds per-field validation errors, if any;
+ * `body` is the whole error response (e.g. the current record on a 412).
+ */
+export class ApiError extends Error {
+    status: number;
+    details: ValidationErrorDetail[];
+    body: any;
+
+    constructor(message: string, status: number, details: ValidationErrorDetail[] = [], body: any = null) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.details = details;
+        this.body = body;
+    }
+}
+
+export interface ListParams {
+    page?: number;
+    pageSize?: number;
+    project?: string;
+    zone?: string;
+    from?: string; // YYYY-MM-DD
+    to?: string; // YYYY-MM-DD
+}
+
+export interface PaginatedResponse<T> {
+    data: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+/**
+ * Registers a callback for when the session can no longer be refreshed and the user must log in again.
+ * @returns A function that removes the callback.
+ */
+export const onSessionExpired = (listener: SessionExpiredListener): (() => void) => {
+    sessionExpiredListeners.add(listener);
+    return () => { sessionExpiredListeners.delete(listener); };
+};
+
+// Requests that must never trigger a session refresh themselves.
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/refresh', '/api/auth/logout'];
+
+// Shared so that concurrent 401s trigger a single refresh.
+let refreshPromise: Promise<boolean> | null = null;
+
+const refreshSession = (): Promise<boolean> => {
+    if (!refreshPromise) {
+        refreshPromise = fetch(`${BACKEND_URL}/api/auth/refresh`, { method: 'POST', credentials: 'include' })
+            .then(response => response.ok)
+            .catch(() => false)
+            .finally(() => { refreshPromise = null; });
+    }
+    return refreshPromise;
+};
+
+// The user an administrator has switched into, if any. Only used to attribute audit log entries.
+let actingAsUserId: number | null = null;
+
+/**
+ * Tells the backend which user an administrator is currently signed in as (null when switching back).
+ */
+export const setActingAsUser = (userId: number | null) => {
+    actingAsUserId = userId;
+};
+
+const send = (path: string, options: RequestInit) => fetch(`${BACKEND_URL}${path}`, {
+    ...options,
+    // Session cookies are HTTP-only; the browser attaches them for us.
+    credentials: 'include',
+    headers: {
+        'Content-Type': 'application/json',
+        ...(actingAsUserId !== null && { 'X-Acting-As-User': String(actingAsUserId) }),
+        ...options.headers,
+    },
+});
+
+/**
+ * Sends a JSON request to the backend and parses the JSON response.
+ * An expired session is refreshed once and the request retried.
+ * @throws {ApiError} When the backend responds with a non-2xx status.
+ */
+export async function apiRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+    return (await versionedRequest<T>(path, options)).data;
+}
+
+// Sends a request, refreshing an expired session once and retrying.
+const sendWithRefresh = async (path: string, options: RequestInit): Promise<Response> => {
+    let response = await send(path, options);
+
+    if (response.status === 401 && !NO_REFRESH_PATHS.includes(path)) {
+        if (await refreshSession()) {
+            response = await send(path, options);
+        } else {
+            sessionExpiredListeners.forEach(listener => listener());
+        }
+    }
+    return response;
+};
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+    const errorBody = await response.json().catch(() => ({ error: 'An unknown error occurred on the backend.' }));
+    const details: ValidationErrorDetail[] = Array.isArray(errorBody.details) ? errorBody.details : [];
+    const message = details.length > 0
+        ? details.map(d => d.message).join(' ')
+        : errorBody.error || `HTTP error! status: ${response.status}`;
+    return new ApiError(message, response.status, details, errorBody);
+};
+
+/**
+ * Like apiRequest, but also returns the record version from the response's ETag header.
+ */
+export async function versionedRequest<T>(path: string, options: RequestInit = {}): Promise<{ data: T; version: string | null }> {
+    const response = await sendWithRefresh(path, options);
+    if (!response.ok) {
+        throw await toApiError(response);
+    }
+
+    const version = response.headers.get('ETag');
+    if (response.status === 204) {
+        return { data: undefined as T, version };
+    }
+    return { data: await response.json(), version };
+}
+
+/**
+ * Downloads a file (e.g. an archived PDF report) from the backend.
+ * @throws {ApiError} When the backend responds with a non-2xx status.
+ */
+export async function apiDownload(path: string): Promise<Blob> {
+    const response = await sendWithRefresh(path, {});
+    if (!response.ok) {
+        throw await toApiError(response);
+    }
+    return response.blob();
+}
+
+export const toQueryString = (params: object = {}) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') query.set(key, String(value));
+    });
+    const qs = query.toString();
+    return qs ? `?${qs}` : '';
+};
+
+export interface ResourceClient<T extends { id: string | number }> {
+    list: (params?: ListParams) => Promise<PaginatedResponse<T>>;
+    get: (id: T['id']) => Promise<T>;
+    create: (record: Omit<T, 'id'> & { id?: T['id'] }) => Promise<T>;
+    update: (record: T) => Promise<T>;
+    patch: (id: T['id'], changes: Partial<T>) => Promise<T>;
+    remove: (id: T['id']) => Promise<void>;
+    /** Fetches a record with its version, for a later `updateIfUnchanged`. */
+    getVersioned: (id: T['id']) => Promise<Versioned<T>>;
+    createVersioned: (record: Omit<T, 'id'> & { id?: T['id'] }) => Promise<Versioned<T>>;
+    /**
+     * Replaces a record only if it is still at `version`.
+     * @throws {ApiError} With status 412 and the current record in `body.current` if it changed meanwhile.
+     */
+    updateIfUnchanged: (record: T, version: string) => Promise<Versioned<T>>;
+    /**
+     * Creates or replaces (by id) and deletes many records in one transaction, for resources with bulk writes on
+     * the server. Nothing is saved if any record is refused.
+     */
+    bulkWrite: (changes: { save: T[]; delete: T['id'][] }) => Promise<{ saved: T[]; deleted: T['id'][] }>;
+}
+
+export interface Versioned<T> {
+    record: T;
+    version: string | null;
+}
+
+/**
+ * Creates a typed client for one REST resource.
+ * @param path The resource path, e.g. '/api/visits'.
+ * @param revive Converts a record from its JSON form (e.g. ISO strings back to Dates).
+ */
+const createResourceClient = <T extends { id: string | number }>(path: string, revive: (raw: any) => T = raw => raw): ResourceClient<T> => {
+    const url = (id: T['id']) => `${path}/${encodeURIComponent(String(id))}`;
+    const toVersioned = ({ data, version }: { data: any; version: string | null }): Versioned<T> => ({ record: revive(data), version });
+    return {
+        list: async (params) => {
+            const result = await apiRequest<PaginatedResponse<any>>(`${path}${toQueryString(params)}`);
+            return { ...result, data: result.data.map(revive) };
+        },
+        get: async (id) => revive(await apiRequest(url(id))),
+        create: async (record) => revive(await apiRequest(path, { method: 'POST', body: JSON.stringify(record) })),
+        update: async (record) => revive(await apiRequest(url(record.id), { method: 'PUT', body: JSON.stringify(record) })),
+        patch: async (id, changes) => revive(await apiRequest(url(id), { method: 'PATCH', body: JSON.stringify(changes) })),
+        remove: (id) => apiRequest<void>(url(id), { method: 'DELETE' }),
+        getVersioned: async (id) => toVersioned(await versionedRequest(url(id))),
+        createVersioned: async (record) => toVersioned(await versionedRequest(path, { method: 'POST', body: JSON.stringify(record) })),
+        updateIfUnchanged: async (record, version) => toVersioned(await versionedRequest(url(record.id), {
+            method: 'PUT',
+            body: JSON.stringify(record),
+            headers: { 'If-Match': version },
+        })),
+        bulkWrite: async (changes) => {
+            const result = await apiRequest<{ saved: any[]; deleted: T['id'][] }>(`${path}/bulk`, { method: 'POST', body: JSON.stringify(changes) });
+            return { saved: result.saved.map(revive), deleted: result.deleted };
+        },
+    };
+};
+
+/**
+ * Fetches every record of a resource matching a query, page by page.
+ */
+export const listAllRecords = async <T extends { id: string | number }>(client: ResourceClient<T>, params: Omit<ListParams, 'page' | 'pageSize'> = {}): Promise<T[]> => {
+    const pageSize = 500;
+    const records: T[] = [];
+    for (let page = 1; ; page++) {
+        const result = await client.list({ ...params, page, pageSize });
+        records.push(...result.data);
+        if (records.length >= result.total || result.data.length < pageSize) return records;
+    }
+};
+
+export const visitReportsApi = createResourceClient<VisitReport>('/api/visits');
+export const casesApi = createResourceClient<ProjectCase>('/api/cases');
+export const materialReceiptsApi = createResourceClient<MaterialReceiveItem>('/api/material-receipts');
+export const erpCorrectionsApi = createResourceClient<ERPCorrectionRecord>('/api/erp-corrections');
+export const employeeVisitsApi = createResourceClient<EmployeeVisit>('/api/employee-visits');
+export const itIssuesApi = createResourceClient<ITAssignedIssue>('/api/it-issues', raw => ({ ...raw, reportedAt: new Date(raw.reportedAt) }));
+export const projectsApi = createResourceClient<Project>('/api/projects');
+export const dutyPoliciesApi = createResourceClient<DutyPolicy>('/api/duty-policies');
+export const calendarEntriesApi = createResourceClient<CalendarEntry>('/api/calendar-entries');
+export const employeesApi = createResourceClient<Employee>('/api/employees');
+// `password` is write-only: it can be sent when creating or updating a user but is never returned.
+export const usersApi = createResourceClient<User & { password?: string }>('/api/users');
+export const roleTemplatesApi = createResourceClient<RoleTemplate>('/api/role-templates');
+export const reportSchedulesApi = createResourceClient<ReportSchedule>('/api/report-schedules');
+// Lists the signed-in user's presets and those others have shared; only the owner can change one.
+export const filterPresetsApi = createResourceClient<FilterPreset>('/api/filter-presets');
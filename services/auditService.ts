@@ -0,0 +1,59 @@
+import type { AuditEntry } from '../types';
+import { apiRequest, toQueryString, PaginatedResponse } from './apiClient';
+
+export interface AuditQuery {
+    page?: number;
+    pageSize?: number;
+    actor?: string;
+    action?: string;
+    entityType?: string;
+    entityId?: string;
+    q?: string;
+    from?: string; // YYYY-MM-DD
+    to?: string; // YYYY-MM-DD
+}
+
+export interface AuditFacets {
+    actions: string[];
+    entityTypes: string[];
+    actors: { id: string; name: string }[];
+}
+
+export interface AuditEvent {
+    action: string;
+    entityType: string;
+    entityId?: string | number;
+    summary?: string;
+    before?: Record<string, any>;
+    after?: Record<string, any>;
+}
+
+/** Lists audit entries, newest first. Admin only. */
+export const listAuditEntries = (query: AuditQuery = {}): Promise<PaginatedResponse<AuditEntry>> =>
+    apiRequest<PaginatedResponse<AuditEntry>>(`/api/audit${toQueryString(query)}`);
+
+/** Returns the values present in the log for the action, entity type and actor filters. Admin only. */
+export const getAuditFacets = (): Promise<AuditFacets> => apiRequest<AuditFacets>('/api/audit/facets');
+
+/**
+ * Fetches every entry matching a query, page by page (for exports).
+ */
+export const listAllAuditEntries = async (query: Omit<AuditQuery, 'page' | 'pageSize'> = {}): Promise<AuditEntry[]> => {
+    const pageSize = 500;
+    const entries: AuditEntry[] = [];
+    for (let page = 1; ; page++) {
+        const result = await listAuditEntries({ ...query, page, pageSize });
+        entries.push(...result.data);
+        if (entries.length >= result.total || result.data.length < pageSize) return entries;
+    }
+};
+
+/**
+ * Records an action that happens only in the browser (e.g. a CSV import into a local dataset).
+ * The backend stamps the entry with the signed-in user. Failures are logged and otherwise ignored
+ * so that auditing never blocks the action itself.
+ */
+export const logAuditEvent = (event: AuditEvent): void => {
+    apiRequest<void>('/api/audit', { method: 'POST', body: JSON.stringify(event) })
+        .catch(err => console.warn('Could not record audit event:', err));
+};
@@ -0,0 +1,85 @@
+import type { User } from '../types';
+import { apiRequest, ApiError } from './apiClient';
+
+/**
+ * Signs in and starts a session (stored by the browser as HTTP-only cookies).
+ * @throws {ApiError} 401 for wrong credentials, 423 while the account is locked out.
+ */
+export const login = async (email: string, password: string): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>('/api/auth/login', {
+        method: 'POST',
+        body: JSON.stringify({ email, password }),
+    });
+    return user;
+};
+
+export const logout = async (): Promise<void> => {
+    await apiRequest<void>('/api/auth/logout', { method: 'POST' });
+};
+
+/**
+ * Restores the signed-in user from an existing session (refreshing it if the access token expired).
+ * @returns The user, or null when there is no valid session.
+ */
+export const getCurrentUser = async (): Promise<User | null> => {
+    try {
+        const { user } = await apiRequest<{ user: User }>('/api/auth/me');
+        return user;
+    } catch (err) {
+        if (err instanceof ApiError && err.status === 401) return null;
+        throw err;
+    }
+};
+
+export type ProfileChanges = Partial<Pick<User, 'name' | 'employeeId' | 'designation' | 'department' | 'avatar'>>;
+
+/**
+ * Updates the signed-in user's own profile. Role and permissions can only be changed by an administrator.
+ */
+export const updateProfile = async (changes: ProfileChanges): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>('/api/auth/me', {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+    });
+    return user;
+};
+
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+    await apiRequest<void>('/api/auth/change-password', {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword }),
+    });
+};
+
+/**
+ * Emails a password reset link. Succeeds whether or not an account exists for the email.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+    await apiRequest<void>('/api/auth/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+    });
+};
+
+/**
+ * Checks that a password reset token is still usable.
+ * @returns The email of the account the token belongs to.
+ * @throws {ApiError} 400 when the token is invalid, used or expired.
+ */
+export const verifyResetToken = async (token: string): Promise<string> => {
+    const { email } = await apiRequest<{ email: string }>('/api/auth/verify-reset-token', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+    });
+    return email;
+};
+
+/**
+ * Sets a new password with a reset token. All of the user's existing sessions are signed out.
+ */
+export const resetPassword = async (token: string, newPassword: string): Promise<void> => {
+    await apiRequest<void>('/api/auth/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ token, newPassword }),
+    });
+};
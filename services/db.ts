@@ -0,0 +1,171 @@
+// IndexedDB connection and schema migrations for the app's durable browser storage.
+// Every schema change is a new entry in MIGRATIONS; never edit a migration that has shipped.
+
+export const DB_NAME = 'precision-db';
+
+// Object stores holding one record type each, keyed by the record's `id`. Projects, employee visits, material
+// receipts, ERP corrections, IT issues, duty policies, calendar entries and employees are now kept on the
+// server; their stores stay only because migrations refer to them.
+export const STORES = {
+    users: 'users',
+    projects: 'projects',
+    employeeVisits: 'employeeVisits',
+    sealPersonVisits: 'sealPersonVisits',
+    materialReceipts: 'materialReceipts',
+    erpCorrectionRecords: 'erpCorrectionRecords',
+    itAssignedIssues: 'itAssignedIssues',
+    dutyPolicies: 'dutyPolicies',
+    calendarEntries: 'calendarEntries',
+    employees: 'employees',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Internal bookkeeping store (e.g. which record stores have been seeded).
+export const META_STORE = 'meta';
+
+// Reports waiting to be uploaded, and unsent form drafts (see services/outbox.ts).
+export const OUTBOX_STORE = 'outbox';
+export const DRAFTS_STORE = 'drafts';
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Create record stores and the meta store',
+        migrate: (db) => {
+            Object.values(STORES).forEach(storeName => {
+                db.createObjectStore(storeName, { keyPath: 'id' });
+            });
+            db.createObjectStore(META_STORE, { keyPath: 'key' });
+        },
+    },
+    {
+        version: 2,
+        description: 'Index visit and receipt records by date and project',
+        migrate: (_db, transaction) => {
+            const employeeVisits = transaction.objectStore(STORES.employeeVisits);
+            employeeVisits.createIndex('date', 'date');
+            employeeVisits.createIndex('projectName', 'projectName');
+
+            const sealPersonVisits = transaction.objectStore(STORES.sealPersonVisits);
+            sealPersonVisits.createIndex('date', 'date');
+            sealPersonVisits.createIndex('projectName', 'projectName');
+
+            const materialReceipts = transaction.objectStore(STORES.materialReceipts);
+            materialReceipts.createIndex('receivingDate', 'receivingDate');
+            materialReceipts.createIndex('projectName', 'projectName');
+        },
+    },
+    {
+        version: 3,
+        description: 'Create the outbox and drafts stores for offline report capture',
+        migrate: (db) => {
+            const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+            outbox.createIndex('status', 'status');
+            db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+        },
+    },
+    {
+        version: 4,
+        description: 'Create the duty policies store',
+        migrate: (db) => {
+            // Databases created since this store was added already have it, from the first migration.
+            if (!db.objectStoreNames.contains(STORES.dutyPolicies)) {
+                db.createObjectStore(STORES.dutyPolicies, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 5,
+        description: 'Create the company calendar store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(STORES.calendarEntries)) {
+                db.createObjectStore(STORES.calendarEntries, { keyPath: 'id' });
+            }
+        },
+    },
+    {
+        version: 6,
+        description: 'Create the employee directory store',
+        migrate: (db) => {
+            if (!db.objectStoreNames.contains(STORES.employees)) {
+                db.createObjectStore(STORES.employees, { keyPath: 'id' });
+            }
+        },
+    },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades, if needed) the app database. The connection is shared across callers.
+ * @returns A promise that resolves with the open database.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not supported in this browser.'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const transaction = request.transaction!;
+            const oldVersion = event.oldVersion;
+            MIGRATIONS
+                .filter(m => m.version > oldVersion && m.version <= DB_VERSION)
+                .forEach(m => {
+                    console.info(`Applying storage migration v${m.version}: ${m.description}`);
+                    m.migrate(db, transaction);
+                });
+        };
+
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgraded the schema; drop this connection so the upgrade isn't blocked.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error ?? new Error('Failed to open the database.'));
+        request.onblocked = () => console.warn('Database upgrade is blocked by another open tab.');
+    }).catch(err => {
+        dbPromise = null;
+        throw err;
+    });
+
+    return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Resolves once a transaction commits, rejecting if it errors or aborts.
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+    });
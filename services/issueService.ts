@@ -0,0 +1,25 @@
+import type { IssueMatch, RecurringIssueGroup } from '../types';
+import { apiRequest, toQueryString } from './apiClient';
+
+export interface SimilarIssueQuery {
+    project: string;
+    text: string;
+    category?: string;
+    // Leaves out the case or report being edited, which would otherwise match itself.
+    excludeCaseId?: number;
+    excludeReportId?: number;
+}
+
+export interface RecurringIssueQuery {
+    project?: string;
+    from?: string; // YYYY-MM-DD
+    to?: string; // YYYY-MM-DD
+}
+
+/** Cases and visit issues at the project that look like the one described, best match first. */
+export const findSimilarIssues = (query: SimilarIssueQuery): Promise<IssueMatch[]> =>
+    apiRequest<IssueMatch[]>(`/api/issues/similar${toQueryString(query)}`);
+
+/** Problems reported more than once, grouped per project, largest group first. */
+export const listRecurringIssues = (query: RecurringIssueQuery = {}): Promise<RecurringIssueGroup[]> =>
+    apiRequest<RecurringIssueGroup[]>(`/api/issues/recurring${toQueryString(query)}`);
@@ -0,0 +1,432 @@
+// Offline-first capture for visit reports and project cases.
+//
+// Submitting a report puts it in the outbox (an IndexedDB store) instead of sending it straight away.
+// `syncOutbox` uploads queued entries whenever the browser is online, retrying with a growing delay, and
+// runs any AI analysis that couldn't happen offline just before the upload. Each entry keeps its status,
+// so forms can show whether a report is still pending or already synced.
+//
+// Edits of synced reports are sent with the version they were based on. If the report was changed on
+// another device in the meantime, the entry is marked as a conflict and keeps both versions until the
+// user picks one (see resolveConflict).
+//
+// A report can be edited again while its upload is in flight. Every edit bumps the entry's `revision`, and an
+// upload's outcome only replaces the entry if no newer edit arrived meanwhile; otherwise the newer edit stays
+// queued and is sent next, based on the version the upload left on the server.
+//
+// Entries and drafts belong to the user who was signed in when they were saved (the account switched into, for
+// an administrator). On a shared device, only that user's entries are listed and uploaded, and only their drafts
+// are restored; entries stored before this was recorded belong to nobody and are left alone.
+
+import { VisitReport, ProjectCase } from '../types';
+import { openDatabase, promisifyRequest, transactionDone, OUTBOX_STORE, DRAFTS_STORE } from './db';
+import { visitReportsApi, casesApi, ApiError, ResourceClient, Versioned } from './apiClient';
+import { analyzeIssueDescription, analyzeProjectCase } from './aiService';
+
+export type OutboxKind = 'visitReport' | 'projectCase';
+
+export type OutboxStatus = 'pending' | 'syncing' | 'synced' | 'failed' | 'conflict';
+
+interface OutboxRecords {
+    visitReport: VisitReport;
+    projectCase: ProjectCase;
+}
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+    id: string; // `${kind}:${record.id}`, so later edits of a report replace its entry
+    kind: K;
+    // The user the report is uploaded as; older entries were stored without it.
+    userId?: number;
+    operation: 'create' | 'update';
+    record: OutboxRecords[K];
+    status: OutboxStatus;
+    // Counts the edits queued for this report; older entries were stored without it.
+    revision?: number;
+    // The server version an update is based on, and the version after the last successful sync.
+    baseVersion: string | null;
+    version: string | null;
+    // Set while in conflict: the report as it currently is on the server.
+    serverRecord: OutboxRecords[K] | null;
+    serverVersion: string | null;
+    // True when AI analysis should run before the upload (it was skipped while offline).
+    needsAnalysis: boolean;
+    attempts: number;
+    nextAttemptAt: number;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+interface OutboxHandler<T extends { id: number }> {
+    client: ResourceClient<T>;
+    /** Fills in AI classification. Returns null when the analysis service couldn't be reached. */
+    analyze: (record: T) => Promise<T | null>;
+}
+
+const handlers: { [K in OutboxKind]: OutboxHandler<OutboxRecords[K]> } = {
+    visitReport: {
+        client: visitReportsApi,
+        analyze: async (report) => {
+            let unreachable = false;
+            const issues = await Promise.all(report.issues.map(async issue => {
+                if (issue.category || !issue.description.trim()) return issue;
+                const result = await analyzeIssueDescription(issue.description, issue.photos);
+                if (!result) {
+                    unreachable = !navigator.onLine;
+                    return issue;
+                }
+                return { ...issue, category: result.category, priority: result.priority, summary: result.summary };
+            }));
+            return unreachable ? null : { ...report, issues };
+        },
+    },
+    projectCase: {
+        client: casesApi,
+        analyze: async (projectCase) => {
+            const result = await analyzeProjectCase(projectCase.caseName, projectCase.comments ?? '', projectCase.photo ?? '');
+            if (!result) return navigator.onLine ? projectCase : null;
+            return { ...projectCase, category: result.category, priority: result.priority, summary: result.summary };
+        },
+    },
+};
+
+const MIN_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// Synced entries are kept this long so the forms can show what was recently sent.
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const BACKGROUND_SYNC_TAG = 'outbox-sync';
+
+// --- Storage ---
+
+const withStore = async <R>(storeName: string, mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<R> | void): Promise<R | undefined> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const request = work(transaction.objectStore(storeName));
+    const result = request ? await promisifyRequest(request) : undefined;
+    await transactionDone(transaction);
+    return result;
+};
+
+// The user whose entries are being uploaded, while startOutboxSync is running.
+let syncUserId: number | null = null;
+
+const getEntry = (id: string) => withStore<OutboxEntry | undefined>(OUTBOX_STORE, 'readonly', store => store.get(id));
+
+/** The entry with the id, if it belongs to the user. */
+const getUserEntry = async (id: string, userId: number) => {
+    const entry = await getEntry(id);
+    return entry?.userId === userId ? entry : undefined;
+};
+
+const listAllEntries = async (): Promise<OutboxEntry[]> =>
+    (await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll())) ?? [];
+
+/** The entries queued by a user. */
+export const listOutboxEntries = async (userId: number): Promise<OutboxEntry[]> =>
+    (await listAllEntries()).filter(entry => entry.userId === userId);
+
+type OutboxListener = () => void;
+const listeners = new Set<OutboxListener>();
+
+/**
+ * Registers a callback for any change to the outbox.
+ * @returns A function that removes the callback.
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const putEntry = async (entry: OutboxEntry) => {
+    await withStore(OUTBOX_STORE, 'readwrite', store => { store.put(entry); });
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Changes a stored entry. With a function, the changes are worked out from the entry as it is stored at that
+ * moment (in the same transaction), and null leaves it as it is.
+ */
+const updateEntry = async (id: string, changes: Partial<OutboxEntry> | ((entry: OutboxEntry) => Partial<OutboxEntry> | null)) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = transaction.objectStore(OUTBOX_STORE);
+    const entry = await promisifyRequest<OutboxEntry | undefined>(store.get(id));
+    const update = entry && (typeof changes === 'function' ? changes(entry) : changes);
+    if (entry && update) store.put({ ...entry, ...update, updatedAt: new Date().toISOString() });
+    await transactionDone(transaction);
+    if (update) listeners.forEach(listener => listener());
+};
+
+// --- Queueing ---
+
+/** A record id for a report created on this device. Assigned up front so retried uploads can't create duplicates. */
+export const newRecordId = () => Date.now() * 1000 + Math.floor(Math.random() * 1000);
+
+// The Background Synchronization API, which not every browser (or TypeScript's DOM typings) has.
+interface SyncManager {
+    register: (tag: string) => Promise<void>;
+}
+
+interface SyncServiceWorkerRegistration extends ServiceWorkerRegistration {
+    readonly sync?: SyncManager;
+}
+
+const requestBackgroundSync = () => {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.ready
+        .then((registration: SyncServiceWorkerRegistration) => registration.sync?.register(BACKGROUND_SYNC_TAG))
+        .catch(err => console.warn('Could not register background sync:', err));
+};
+
+const enqueue = async <K extends OutboxKind>(kind: K, userId: number, operation: OutboxEntry['operation'], record: OutboxRecords[K], needsAnalysis: boolean, baseVersion: string | null) => {
+    const id = `${kind}:${record.id}`;
+    const existing = await getUserEntry(id, userId);
+    const now = new Date().toISOString();
+    await putEntry({
+        id,
+        kind,
+        userId,
+        operation,
+        record,
+        status: 'pending',
+        revision: (existing?.revision ?? 0) + 1,
+        baseVersion,
+        version: existing?.version ?? null,
+        serverRecord: null,
+        serverVersion: null,
+        needsAnalysis,
+        attempts: 0,
+        nextAttemptAt: 0,
+        lastError: null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    });
+    requestBackgroundSync();
+    syncOutbox().catch(err => console.error('Outbox sync failed:', err));
+};
+
+/**
+ * Queues a new report for upload. `record.id` should come from newRecordId.
+ * @param userId The signed-in user, who the report is uploaded as.
+ * @param needsAnalysis Whether AI analysis still has to run before the upload.
+ */
+export const queueCreate = <K extends OutboxKind>(kind: K, userId: number, record: OutboxRecords[K], needsAnalysis = false) =>
+    enqueue(kind, userId, 'create', record, needsAnalysis, null);
+
+/**
+ * Queues an edit of a report. Reports that haven't been uploaded yet are simply replaced; synced
+ * reports are updated on the server only if nobody else changed them since `entry.version`.
+ * @param userId The signed-in user, who the report is uploaded as.
+ */
+export const queueUpdate = <K extends OutboxKind>(entry: OutboxEntry<K>, userId: number, record: OutboxRecords[K], needsAnalysis = false) => {
+    const isUploaded = entry.operation === 'update' || entry.status === 'synced' || entry.status === 'conflict';
+    return isUploaded
+        ? enqueue(entry.kind, userId, 'update', record, needsAnalysis, entry.operation === 'update' && entry.status !== 'synced' ? entry.baseVersion : entry.version)
+        : enqueue(entry.kind, userId, 'create', record, needsAnalysis, null);
+};
+
+/**
+ * The outbox entry for a user to edit a report fetched from the server with. A report with unsent changes
+ * of theirs on this device is edited from those; otherwise the edit is based on the server's version.
+ */
+export const entryForEdit = async <K extends OutboxKind>(kind: K, userId: number, { record, version }: Versioned<OutboxRecords[K]>): Promise<OutboxEntry<K>> => {
+    const existing = await getUserEntry(`${kind}:${record.id}`, userId) as OutboxEntry<K> | undefined;
+    if (existing && existing.status !== 'synced') return existing;
+    const now = new Date().toISOString();
+    return {
+        id: `${kind}:${record.id}`,
+        kind,
+        userId,
+        operation: 'update',
+        record,
+        status: 'synced',
+        baseVersion: version,
+        version,
+        serverRecord: null,
+        serverVersion: null,
+        needsAnalysis: false,
+        attempts: 0,
+        nextAttemptAt: 0,
+        lastError: null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+};
+
+/** Retries a failed entry straight away. */
+export const retryEntry = async (id: string) => {
+    await updateEntry(id, { status: 'pending', nextAttemptAt: 0, lastError: null });
+    await syncOutbox();
+};
+
+export const discardEntry = async (id: string) => {
+    await withStore(OUTBOX_STORE, 'readwrite', store => { store.delete(id); });
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Settles a conflict: 'mine' overwrites the server's version with this device's, 'server' drops this
+ * device's changes in favour of the server's.
+ */
+export const resolveConflict = async (id: string, keep: 'mine' | 'server') => {
+    const entry = await getEntry(id);
+    if (!entry || entry.status !== 'conflict') return;
+    if (keep === 'server') {
+        await updateEntry(id, {
+            status: 'synced',
+            record: entry.serverRecord ?? entry.record,
+            version: entry.serverVersion,
+            serverRecord: null,
+            serverVersion: null,
+            lastError: null,
+        });
+        return;
+    }
+    await updateEntry(id, {
+        status: 'pending',
+        operation: 'update',
+        baseVersion: entry.serverVersion,
+        serverRecord: null,
+        serverVersion: null,
+        attempts: 0,
+        nextAttemptAt: 0,
+        lastError: null,
+    });
+    await syncOutbox();
+};
+
+// --- Syncing ---
+
+const isRetryable = (err: unknown) =>
+    !(err instanceof ApiError) || err.status >= 500 || err.status === 401 || err.status === 408 || err.status === 429;
+
+const retryDelay = (attempts: number) => Math.min(MIN_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+
+// Whether the server's copy holds what was sent; it may have added fields of its own (e.g. who submitted it).
+const sameRecord = (current: object, sent: object) => JSON.stringify({ ...current, ...sent }) === JSON.stringify(current);
+
+const upload = async <K extends OutboxKind>(entry: OutboxEntry<K>, record: OutboxRecords[K]): Promise<Partial<OutboxEntry>> => {
+    const { client } = handlers[entry.kind] as unknown as OutboxHandler<OutboxRecords[K]>;
+    let saved: Versioned<OutboxRecords[K]>;
+    try {
+        saved = entry.operation === 'update' && entry.baseVersion
+            ? await client.updateIfUnchanged(record, entry.baseVersion)
+            : await client.createVersioned(record);
+    } catch (err) {
+        if (err instanceof ApiError && (err.status === 412 || err.status === 409)) {
+            // 409: the report already exists. That's expected when an earlier upload reached the server but its
+            // response got lost; anything else means it was changed elsewhere.
+            const current = await client.getVersioned(record.id);
+            if (err.status === 409 && sameRecord(current.record, record)) {
+                return { status: 'synced', record, version: current.version };
+            }
+            return { status: 'conflict', record, serverRecord: current.record, serverVersion: current.version, lastError: err.message };
+        }
+        throw err;
+    }
+    return { status: 'synced', operation: 'update', record: saved.record, version: saved.version, needsAnalysis: false, attempts: 0, lastError: null };
+};
+
+/**
+ * What an upload's outcome leaves of an entry that was edited again during the upload: the newer edit stays
+ * queued, now based on the version the upload created on the server (or in conflict with the server's).
+ */
+const rebaseOnUpload = (outcome: Partial<OutboxEntry>): Partial<OutboxEntry> => {
+    if (outcome.status === 'conflict') {
+        return { status: 'conflict', serverRecord: outcome.serverRecord, serverVersion: outcome.serverVersion, lastError: outcome.lastError };
+    }
+    return { operation: 'update', baseVersion: outcome.version, version: outcome.version };
+};
+
+const syncEntry = async (entry: OutboxEntry) => {
+    const isUnchanged = (current: OutboxEntry) => current.revision === entry.revision;
+    await updateEntry(entry.id, current => isUnchanged(current) ? { status: 'syncing' } : null);
+    try {
+        let record = entry.record;
+        if (entry.needsAnalysis) {
+            const analyzed = await (handlers[entry.kind].analyze as (r: typeof record) => Promise<typeof record | null>)(record);
+            // Still offline: leave the report queued and try again later.
+            if (!analyzed) throw new Error('The analysis service is unreachable.');
+            record = analyzed;
+            await updateEntry(entry.id, current => isUnchanged(current) ? { record, needsAnalysis: false } : null);
+        }
+        const outcome = await upload(entry, record);
+        await updateEntry(entry.id, current => isUnchanged(current) ? outcome : rebaseOnUpload(outcome));
+    } catch (err) {
+        const attempts = entry.attempts + 1;
+        // A newer edit is queued afresh and keeps its own retry state.
+        await updateEntry(entry.id, current => isUnchanged(current) ? {
+            status: isRetryable(err) ? 'pending' : 'failed',
+            attempts,
+            nextAttemptAt: Date.now() + retryDelay(attempts),
+            lastError: err instanceof Error ? err.message : String(err),
+        } : null);
+    }
+};
+
+let syncPromise: Promise<void> | null = null;
+
+/**
+ * Uploads every queued entry of the user startOutboxSync runs for that is due. Concurrent calls share one run.
+ */
+export const syncOutbox = (): Promise<void> => {
+    if (syncPromise) return syncPromise;
+    syncPromise = (async () => {
+        if (!navigator.onLine) return;
+        const now = Date.now();
+        const entries = await listAllEntries();
+        // Entries left 'syncing' by a closed tab are picked up again.
+        const due = entries.filter(e => e.userId === syncUserId && (e.status === 'pending' || e.status === 'syncing') && e.nextAttemptAt <= now);
+        for (const entry of due) {
+            // Stop if the user signs out or switches accounts meanwhile.
+            if (entry.userId !== syncUserId) break;
+            await syncEntry(entry);
+        }
+        const expired = entries.filter(e => e.status === 'synced' && now - new Date(e.updatedAt).getTime() > SYNCED_RETENTION_MS);
+        if (expired.length > 0) {
+            await withStore(OUTBOX_STORE, 'readwrite', store => { expired.forEach(e => store.delete(e.id)); });
+            listeners.forEach(listener => listener());
+        }
+    })().finally(() => { syncPromise = null; });
+    return syncPromise;
+};
+
+/**
+ * Keeps the signed-in user's outbox syncing while the app is open: on start, when the browser comes back
+ * online, when the service worker signals a background sync, and periodically for delayed retries.
+ * @param userId The user reports are queued and uploaded for until it is stopped.
+ * @returns A function that stops it.
+ */
+export const startOutboxSync = (userId: number, intervalMs = 30 * 1000): (() => void) => {
+    syncUserId = userId;
+    const run = () => { syncOutbox().catch(err => console.error('Outbox sync failed:', err)); };
+    const handleWorkerMessage = (event: MessageEvent) => { if (event.data?.type === BACKGROUND_SYNC_TAG) run(); };
+
+    window.addEventListener('online', run);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    const timer = window.setInterval(run, intervalMs);
+    run();
+
+    return () => {
+        window.removeEventListener('online', run);
+        navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+        window.clearInterval(timer);
+        if (syncUserId === userId) syncUserId = null;
+    };
+};
+
+// --- Drafts ---
+
+// Each user's drafts are stored apart, so they don't see or overwrite each other's on a shared device.
+const draftId = (formId: string, userId: number) => `${userId}:${formId}`;
+
+/** Saves a user's unsent state of a form, so it survives reloads and lost connectivity. */
+export const saveDraft = async <T>(formId: string, userId: number, data: T) => {
+    await withStore(DRAFTS_STORE, 'readwrite', store => { store.put({ id: draftId(formId, userId), userId, data, savedAt: new Date().toISOString() }); });
+};
+
+export const loadDraft = async <T>(formId: string, userId: number): Promise<T | null> =>
+    (await withStore<{ data: T } | undefined>(DRAFTS_STORE, 'readonly', store => store.get(draftId(formId, userId))))?.data ?? null;
+
+export const clearDraft = async (formId: string, userId: number) => {
+    await withStore(DRAFTS_STORE, 'readwrite', store => { store.delete(draftId(formId, userId)); });
+};
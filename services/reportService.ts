@@ -0,0 +1,28 @@
+import type { ArchivedReport, ReportRunStatus } from '../types';
+import { apiRequest, apiDownload, toQueryString, PaginatedResponse } from './apiClient';
+
+export interface ArchiveQuery {
+    page?: number;
+    pageSize?: number;
+    scheduleId?: number;
+}
+
+export interface ReportRunResult {
+    status: ReportRunStatus;
+    month: string; // YYYY-MM
+    report: ArchivedReport | null;
+}
+
+/** Lists archived reports, newest first. */
+export const listArchivedReports = (query: ArchiveQuery = {}): Promise<PaginatedResponse<ArchivedReport>> =>
+    apiRequest<PaginatedResponse<ArchivedReport>>(`/api/reports/archive${toQueryString(query)}`);
+
+/** Fetches an archived report's PDF. */
+export const downloadArchivedReport = (id: number): Promise<Blob> => apiDownload(`/api/reports/archive/${id}/pdf`);
+
+export const deleteArchivedReport = (id: number): Promise<void> =>
+    apiRequest<void>(`/api/reports/archive/${id}`, { method: 'DELETE' });
+
+/** Runs a schedule straight away, emailing and archiving its report as a scheduled run would. */
+export const runReportSchedule = (scheduleId: number): Promise<ReportRunResult> =>
+    apiRequest<ReportRunResult>(`/api/reports/schedules/${scheduleId}/run`, { method: 'POST' });
@@ -0,0 +1,83 @@
+import { User, SealPersonVisit } from '../types';
+import { openDatabase, promisifyRequest, transactionDone, STORES, META_STORE, StoreName } from './db';
+
+export type RecordId = string | number;
+
+export interface Repository<T extends { id: RecordId }> {
+    storeName: StoreName;
+    getAll: () => Promise<T[]>;
+    get: (id: RecordId) => Promise<T | undefined>;
+    put: (record: T) => Promise<void>;
+    putMany: (records: T[]) => Promise<void>;
+    remove: (id: RecordId) => Promise<void>;
+    clear: () => Promise<void>;
+    /** Upserts and deletes records in a single transaction. */
+    applyChanges: (upserts: T[], deletedIds: RecordId[]) => Promise<void>;
+    /**
+     * Loads all stored records. The first time a store is used it is filled with `seed`;
+     * after that the stored records are returned as-is, even if the store was emptied on purpose.
+     */
+    hydrate: (seed: T[]) => Promise<T[]>;
+}
+
+const seededKey = (storeName: StoreName) => `seeded:${storeName}`;
+
+/**
+ * Creates a repository backed by one IndexedDB object store.
+ * @param storeName The object store holding the records.
+ */
+export const createRepository = <T extends { id: RecordId }>(storeName: StoreName): Repository<T> => {
+    const withStore = async <R>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<R> | void): Promise<R | undefined> => {
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, mode);
+        const request = work(transaction.objectStore(storeName));
+        const result = request ? await promisifyRequest(request) : undefined;
+        await transactionDone(transaction);
+        return result;
+    };
+
+    const getAll = async () => (await withStore<T[]>('readonly', store => store.getAll())) ?? [];
+
+    const applyChanges = async (upserts: T[], deletedIds: RecordId[]) => {
+        if (upserts.length === 0 && deletedIds.length === 0) return;
+        const db = await openDatabase();
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        deletedIds.forEach(id => store.delete(id));
+        upserts.forEach(record => store.put(record));
+        await transactionDone(transaction);
+    };
+
+    const hydrate = async (seed: T[]) => {
+        const db = await openDatabase();
+        const transaction = db.transaction([storeName, META_STORE], 'readwrite');
+        const store = transaction.objectStore(storeName);
+        const meta = transaction.objectStore(META_STORE);
+
+        const seeded = await promisifyRequest(meta.get(seededKey(storeName)));
+        if (!seeded) {
+            seed.forEach(record => store.put(record));
+            meta.put({ key: seededKey(storeName), value: true });
+        }
+        const records = await promisifyRequest<T[]>(store.getAll());
+        await transactionDone(transaction);
+        return records;
+    };
+
+    return {
+        storeName,
+        getAll,
+        get: id => withStore<T>('readonly', store => store.get(id)),
+        put: async record => { await withStore('readwrite', store => { store.put(record); }); },
+        putMany: records => applyChanges(records, []),
+        remove: async id => { await withStore('readwrite', store => { store.delete(id); }); },
+        clear: async () => { await withStore('readwrite', store => { store.clear(); }); },
+        applyChanges,
+        hydrate,
+    };
+};
+
+export const repositories = {
+    users: createRepository<User>(STORES.users),
+    sealPersonVisits: createRepository<SealPersonVisit>(STORES.sealPersonVisits),
+};
@@ -0,0 +1,10 @@
+// Registers public/sw.js, which keeps the app shell available offline and wakes the outbox
+// (services/outbox.ts) through background sync once connectivity returns.
+
+export const registerServiceWorker = () => {
+    if (!('serviceWorker' in navigator)) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js')
+            .catch(err => console.warn('Service worker registration failed:', err));
+    });
+};
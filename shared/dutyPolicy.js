@@ -0,0 +1,72 @@
+// shared/dutyPolicy.js - Which duty policy applies to an employee and the daily target it sets, shared by
+// the app (through utils/dutyPolicy.ts) and the server's scheduled reports.
+//
+// A policy applies to a department (or every department) and to some of its designations (or all of them)
+// over a range of dates. Where several apply, the most specific wins: a department beats every
+// department, and a list of designations beats every designation.
+
+/** @typedef {import('../types').DutyPolicy} DutyPolicy */
+/** @typedef {import('../utils/dutyPolicy').SupposedlyDurations} SupposedlyDurations */
+
+/**
+ * Hours an employee is measured against when no policy applies, and when their policy sets no target,
+ * so their achievement percentages stay comparable.
+ */
+export const BASELINE_HOURS = 4;
+
+/**
+ * Both durations for a daily target of `hours`.
+ * @param {number} hours
+ * @returns {SupposedlyDurations}
+ */
+export const durationsForHours = (hours) => ({
+    durationForDisplaySec: hours * 3600,
+    durationForCalcSec: (hours > 0 ? hours : BASELINE_HOURS) * 3600,
+});
+
+/**
+ * The date a month's report is worked out as of: its first day.
+ * @param {string} month YYYY-MM
+ * @returns {string}
+ */
+export const policyDateForMonth = (month) => `${month}-01`;
+
+/**
+ * Whether the policy is in effect on a YYYY-MM-DD date.
+ * @param {DutyPolicy} policy
+ * @param {string} date
+ * @returns {boolean}
+ */
+export const isPolicyInEffect = (policy, date) =>
+    (!policy.effectiveFrom || policy.effectiveFrom <= date) && (!policy.effectiveTo || date <= policy.effectiveTo);
+
+/** @param {DutyPolicy} policy */
+const specificity = (policy) => (policy.department ? 2 : 0) + (policy.designations.length > 0 ? 1 : 0);
+
+/**
+ * The policy for an employee on a date, or undefined if none applies.
+ * @param {DutyPolicy[]} policies
+ * @param {string} department
+ * @param {string} designation
+ * @param {string} date
+ * @returns {DutyPolicy | undefined}
+ */
+export const findDutyPolicy = (policies, department, designation, date) =>
+    policies
+        .filter(policy =>
+            isPolicyInEffect(policy, date) &&
+            (!policy.department || policy.department === department) &&
+            (policy.designations.length === 0 || policy.designations.includes(designation)))
+        // Between equally specific policies, the one that started later is the newer version.
+        .sort((a, b) => specificity(b) - specificity(a) || (b.effectiveFrom ?? '').localeCompare(a.effectiveFrom ?? ''))[0];
+
+/**
+ * The durations an employee was expected to spend on visits each day, under the policy in effect on `date`.
+ * @param {DutyPolicy[]} policies
+ * @param {string} department
+ * @param {string} designation
+ * @param {string} date
+ * @returns {SupposedlyDurations}
+ */
+export const getSupposedlyDurations = (policies, department, designation, date) =>
+    durationsForHours(findDutyPolicy(policies, department, designation, date)?.expectedHours ?? BASELINE_HOURS);
@@ -0,0 +1,353 @@
+// shared/reportPdfs.js - Draws the reports of reports.js as PDFs, for the app's exports and the server's
+// scheduled reports alike:
+//   - the monthly visit summary, one set of pages per employee;
+//   - the duty analysis, with an observation remark per department;
+//   - the IT response timeline summary, on legal-size pages.
+//
+// Each function takes the jsPDF class to draw with, with the autoTable plugin applied: the CDN build in the
+// browser (window.jspdf.jsPDF), the jspdf package on the server. It returns the document, for the caller to
+// save or send.
+
+import { formatSecondsToHHMM, formatDateDDMMMYYYY, formatMonth } from './time.js';
+
+/** @typedef {import('../types').EmployeeVisitSummary} EmployeeVisitSummary */
+/** @typedef {import('../types').DutyDepartmentAnalysis} DutyDepartmentAnalysis */
+/** @typedef {import('../types').DutyPerformer} DutyPerformer */
+/** @typedef {import('../types').ITAnalysis} ITAnalysis */
+/** @typedef {{ name: string, designation: string }} Preparer */
+
+export const COMPANY_NAME = 'Credence Housing Limited';
+export const COMPANY_ADDRESS = 'House-15, Road-13/A, Dhanmondi R/A, Dhaka-1209';
+
+/**
+ * @param {string} text
+ * @param {number} length
+ */
+const truncate = (text, length) => (text.length > length ? `${text.slice(0, length - 3)}...` : text);
+
+// --- Monthly visit summary ---
+
+/** @param {any} doc */
+const drawVisitSummaryHeader = (doc) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(234, 88, 12);
+    doc.text(COMPANY_NAME, pageWidth / 2, 10, { align: 'center' });
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(100);
+    doc.text(COMPANY_ADDRESS, pageWidth / 2, 16, { align: 'center' });
+    doc.setDrawColor(0).setLineWidth(0.2).line(10, 18, pageWidth - 10, 18);
+};
+
+/**
+ * @param {any} doc
+ * @param {EmployeeVisitSummary} summary
+ * @param {{ title: string, month: string, preparedOn: string }} options
+ */
+const drawVisitSummaryPage = (doc, { employeeName, employeeCode, designation, report }, { title, month, preparedOn }) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 10;
+    const footerHeight = 25;
+    const tableOptions = {
+        theme: 'grid',
+        headStyles: { fillColor: [41, 51, 61], textColor: 255, fontSize: 8, fontStyle: 'bold', cellPadding: 1.5 },
+        bodyStyles: { fontSize: 7.5, cellPadding: 1, fontStyle: 'normal' },
+        styles: { overflow: 'linebreak' },
+    };
+
+    drawVisitSummaryHeader(doc);
+    let lastY = 25;
+    doc.setFontSize(15).setFont('helvetica', 'bold').setTextColor(40);
+    doc.text(title, pageWidth / 2, lastY, { align: 'center' });
+    lastY += 6;
+
+    doc.autoTable({
+        body: [
+            [`Name: ${employeeName}`, `Employee Code/ID: ${employeeCode}`, `Month: ${formatMonth(month)}`],
+            [`Desgn: ${designation}`, '', `Date of Preparing: ${formatDateDDMMMYYYY(preparedOn)}`],
+        ],
+        startY: lastY,
+        theme: 'grid',
+        styles: { fontSize: 8, cellPadding: 1, lineColor: [200, 200, 200], lineWidth: 0.1 },
+        // Each detail goes on two lines: the label, then the value.
+        didParseCell: (/** @type {any} */ hookData) => {
+            const raw = hookData.cell.raw;
+            if (typeof raw === 'string' && raw.includes(':')) {
+                const parts = raw.split(/:(.*)/s);
+                hookData.cell.text = [`${parts[0]}:`, parts[1] || ''];
+            }
+        },
+    });
+    lastY = doc.lastAutoTable.finalY + 5;
+
+    doc.setFontSize(10).setFont('helvetica', 'bold');
+    doc.text('Overall Summary', margin, lastY);
+    lastY += 5;
+    doc.setFont('helvetica', 'normal').setFontSize(9);
+    doc.text(`Total Visiting Days: ${report.summary.totalVisitDays}  |  Total Projects Visited: ${report.summary.totalProjectsVisited}  |  Grand Total Duration: ${formatSecondsToHHMM(report.summary.grandTotalDuration)}`, margin, lastY);
+    lastY += 8;
+
+    const columnGap = 2;
+    const columnWidth = (pageWidth - margin * 2 - columnGap * 3) / 4;
+    const columnX = [0, 1, 2, 3].map(i => margin + i * (columnWidth + columnGap));
+    /** @param {number} x */
+    const inColumn = (x) => ({ margin: { left: x, right: pageWidth - x - columnWidth }, tableWidth: columnWidth });
+    const colY = lastY;
+
+    doc.setFontSize(11).setFont('helvetica', 'bold').text('Per Day Visit Count', columnX[0], colY);
+    doc.autoTable({
+        ...tableOptions,
+        ...inColumn(columnX[0]),
+        head: [['Date', 'Visits', 'Duration']],
+        body: report.perDay.map(d => [d.date, d.visitCount, formatSecondsToHHMM(d.totalDuration)]),
+        startY: colY + 5,
+    });
+    if (report.noVisitDays.length > 0) {
+        const afterVisitTableY = doc.lastAutoTable.finalY + 5;
+        doc.setFontSize(11).setFont('helvetica', 'bold').text('No Visit Days (Working Days)', columnX[0], afterVisitTableY);
+        doc.autoTable({
+            ...tableOptions,
+            ...inColumn(columnX[0]),
+            head: [['Date', 'Day', 'Remarks']],
+            body: report.noVisitDays.map(d => [d.date, d.day, d.remark || '']),
+            startY: afterVisitTableY + 5,
+        });
+    }
+
+    doc.setFontSize(11).setFont('helvetica', 'bold').text('Per Project Summary', columnX[1], colY);
+    doc.autoTable({
+        ...tableOptions,
+        ...inColumn(columnX[1]),
+        head: [['Project', 'Visits', 'Duration']],
+        body: report.perProject.map(p => [p.projectName, p.visitCount, formatSecondsToHHMM(p.totalDuration)]),
+        startY: colY + 5,
+    });
+
+    doc.setFontSize(11).setFont('helvetica', 'bold').text('Duration Feedback', columnX[2], colY);
+    doc.autoTable({
+        ...tableOptions,
+        ...inColumn(columnX[2]),
+        head: [['Category', 'Count']],
+        body: [...report.durationCounts.map(d => [d.category, d.count]), ['Improper Visits', report.improperVisitCount]],
+        startY: colY + 5,
+        didParseCell: (/** @type {any} */ hookData) => {
+            if (hookData.row.raw[0] === 'Improper Visits') {
+                hookData.cell.styles.fontStyle = 'bold';
+                hookData.cell.styles.textColor = [200, 0, 0];
+            }
+        },
+    });
+
+    // The daily log fills the fourth column, then carries on across the columns of new pages.
+    const remaining = [...report.dailyProjects];
+    let columnIndex = 3;
+    let isFirstChunk = true;
+    while (remaining.length > 0) {
+        if (columnIndex > 3) {
+            doc.addPage();
+            columnIndex = 0;
+        }
+        const startY = isFirstChunk ? colY : margin + 20;
+        const chunk = remaining.splice(0, Math.max(1, Math.floor((pageHeight - startY - footerHeight) / 6)));
+        doc.setFontSize(11).setFont('helvetica', 'bold').text(isFirstChunk ? 'Daily Project Log' : 'Daily Project Log (Cont.)', columnX[columnIndex], startY);
+        doc.autoTable({
+            ...tableOptions,
+            ...inColumn(columnX[columnIndex]),
+            head: [['Date', 'Project Name']],
+            body: chunk.map(d => [d.date, d.projectName]),
+            startY: startY + 5,
+        });
+        isFirstChunk = false;
+        columnIndex++;
+    }
+};
+
+/**
+ * The monthly visit summary, one set of pages per employee.
+ * @param {any} jsPDF
+ * @param {EmployeeVisitSummary[]} summaries
+ * @param {{ title: string, month: string, preparedOn: string, preparedBy: Preparer }} options
+ *     `month` is YYYY-MM and `preparedOn` a YYYY-MM-DD date.
+ */
+export const drawVisitSummaryPdf = (jsPDF, summaries, { title, month, preparedOn, preparedBy }) => {
+    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+    summaries.forEach((summary, index) => {
+        if (index > 0) doc.addPage();
+        drawVisitSummaryPage(doc, summary, { title, month, preparedOn });
+    });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const pageCount = doc.internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        if (i > 1) drawVisitSummaryHeader(doc);
+        doc.setFontSize(9).setTextColor(150);
+        doc.text(`Prepared by\n${preparedBy.name}\n${preparedBy.designation}`, 10, pageHeight - 20);
+        doc.text('Dept. HOD', pageWidth / 2, pageHeight - 10, { align: 'center' });
+        doc.text(`Page ${i} of ${pageCount}`, pageWidth - 10, pageHeight - 10, { align: 'right' });
+    }
+    return doc;
+};
+
+// --- Duty analysis ---
+
+/**
+ * The duty analysis, one row per department.
+ * @param {any} jsPDF
+ * @param {(DutyDepartmentAnalysis & { remark?: string })[]} analysis
+ */
+export const drawDutyAnalysisPdf = (jsPDF, analysis) => {
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 10;
+    /**
+     * @param {string} label
+     * @param {DutyPerformer} p
+     */
+    const performerText = (label, p) => `${label}: ${p.name}\n(Visits: ${p.visitCount}, Projects: ${p.projectCount}, Duration: ${p.duration})`;
+
+    doc.autoTable({
+        head: [['Department', 'Avg. Stability', 'Observation remarks']],
+        body: analysis.map(row => [
+            { content: `${row.department}\n(Empl: ${row.employeeCount}, Visits: ${row.totalVisits})\n${performerText('Top', row.topPerformer)}\n${performerText('Lowest', row.lowestPerformer)}`, styles: { halign: 'left', valign: 'middle' } },
+            { content: `${row.averageStability > 0 ? '(+)' : row.averageStability < 0 ? '(-)' : ''} ${Math.abs(row.averageStability).toFixed(2)}%`, styles: { halign: 'center', valign: 'middle' } },
+            { content: row.remark ?? '', styles: { halign: 'left', valign: 'middle' } },
+        ]),
+        startY: 25,
+        theme: 'grid',
+        headStyles: { fillColor: [44, 62, 80], textColor: 255 },
+        columnStyles: { 0: { cellWidth: 60 }, 1: { cellWidth: 30 }, 2: { cellWidth: 'auto' } },
+        didParseCell: (/** @type {any} */ data) => {
+            if (data.column.index !== 1 || data.cell.section !== 'body') return;
+            const value = analysis[data.row.index]?.averageStability;
+            if (value > 0) data.cell.styles.textColor = [0, 128, 0];
+            else if (value < 0) data.cell.styles.textColor = [255, 0, 0];
+        },
+        margin: { top: 25, bottom: 25 },
+    });
+
+    const pageCount = doc.internal.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+        doc.setPage(i);
+        doc.setFont('helvetica', 'bold').setFontSize(14).setTextColor(40);
+        doc.text(COMPANY_NAME, pageWidth / 2, 10, { align: 'center' });
+        doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(100);
+        doc.text('Duty Analysis Report', pageWidth / 2, 16, { align: 'center' });
+        doc.setDrawColor(220).setLineWidth(0.2).line(margin, 20, pageWidth - margin, 20);
+        doc.setFontSize(9).setTextColor(150);
+        doc.text('Prepared by\nMIS', margin, pageHeight - 20);
+        doc.text('Dept. HoD', pageWidth / 2, pageHeight - 10, { align: 'center' });
+        doc.text(`Page ${i} of ${pageCount}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+    }
+    return doc;
+};
+
+// --- IT response timeline summary ---
+
+/**
+ * The IT response timeline summary: totals and breakdowns on the first page, resolution times and the
+ * timeline of each issue on the second.
+ * @param {any} jsPDF
+ * @param {ITAnalysis} analysis
+ * @param {{ title: string, preparedBy: Preparer }} options
+ */
+export const drawItSummaryPdf = (jsPDF, analysis, { title, preparedBy }) => {
+    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'legal' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 12;
+    const cardWidth = (pageWidth - margin * 2 - 10) / 3;
+    const cardHeight = 20;
+    const colWidth = (pageWidth - margin * 2 - 5) / 2;
+    const leftColX = margin;
+    const rightColX = margin + colWidth + 5;
+    const tableOptions = { theme: 'grid', headStyles: { fillColor: [41, 51, 61], fontSize: 8 }, bodyStyles: { fontSize: 7.5 }, styles: { overflow: 'linebreak' } };
+    let lastY = 38;
+
+    /**
+     * @param {number} index
+     * @param {[number, number, number]} fill
+     * @param {string} value
+     * @param {number} valueSize
+     * @param {string} label
+     */
+    const drawCard = (index, fill, value, valueSize, label) => {
+        const x = margin + (cardWidth + 5) * index;
+        doc.setFillColor(...fill).roundedRect(x, lastY, cardWidth, cardHeight, 3, 3, 'F');
+        doc.setFont('helvetica', 'bold').setFontSize(valueSize).text(value, x + 5, lastY + (valueSize > 10 ? 10 : 8));
+        doc.setFont('helvetica', 'normal').setFontSize(9).text(label, x + 5, lastY + 15);
+    };
+
+    doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(40);
+    doc.text('Data Analysis Summary', margin, lastY);
+    lastY += 6;
+    drawCard(0, [224, 231, 255], String(analysis.totalAssignedIssues), 16, 'Total Records');
+    drawCard(1, [254, 243, 199], String(analysis.issueCount), 16, 'Issues Reported');
+    drawCard(2, [209, 250, 229], String(analysis.offlineCount), 16, 'Marked Offline');
+    lastY += cardHeight + 10;
+
+    doc.autoTable({
+        ...tableOptions,
+        head: [[{ content: 'Top 5 Common Problems', colSpan: 3, styles: { halign: 'center' } }], ['#', 'Problem', 'Count']],
+        body: analysis.top5CommonProblems.map((p, i) => [i + 1, p.issue, p.count]),
+        startY: lastY,
+        tableWidth: colWidth,
+        margin: { left: leftColX, right: pageWidth - leftColX - colWidth },
+    });
+    doc.autoTable({
+        ...tableOptions,
+        head: [[{ content: 'Zone Breakdown', colSpan: 2, styles: { halign: 'center' } }], ['Zone', 'Count']],
+        body: analysis.zoneSummary.map(z => [z.zone, z.count]),
+        startY: doc.lastAutoTable.finalY + 5,
+        tableWidth: colWidth,
+        margin: { left: leftColX, right: pageWidth - leftColX - colWidth },
+    });
+    doc.autoTable({
+        ...tableOptions,
+        head: [[{ content: 'Project Breakdown', colSpan: 2, styles: { halign: 'center' } }], ['Project', 'Count']],
+        body: analysis.projectSummary,
+        startY: lastY,
+        tableWidth: colWidth,
+        margin: { left: rightColX, right: margin },
+    });
+
+    doc.addPage('legal', 'p');
+    lastY = 38;
+    doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(40);
+    doc.text('Timeline Highlights', margin, lastY);
+    lastY += 6;
+    drawCard(0, [241, 245, 249], `${analysis.averageResolutionTime.toFixed(1)} Days`, 16, 'Avg. Time to Resolve');
+    drawCard(1, [241, 245, 249], truncate(analysis.longestOpenIssue?.issue || 'N/A', 25), 10, `Longest Open Issue (${analysis.longestOpenIssue?.resolutionTimeInDays || 0} days)`);
+    drawCard(2, [241, 245, 249], truncate(analysis.mostFrequentIssue?.issue || 'N/A', 25), 10, `Most Frequent Issue (${analysis.mostFrequentIssue?.count || 0} times)`);
+    lastY += cardHeight + 10;
+
+    const half = Math.ceil(analysis.issueTimeline.length / 2);
+    [analysis.issueTimeline.slice(0, half), analysis.issueTimeline.slice(half)].forEach((rows, column) => {
+        if (rows.length === 0) return;
+        doc.autoTable({
+            ...tableOptions,
+            head: [[{ content: 'Unique Issue Timeline & Resolution', colSpan: 4, styles: { halign: 'center' } }], ['Project', 'Issue', 'Count', 'Status']],
+            columnStyles: { 0: { cellWidth: 25 }, 1: { cellWidth: 'auto' }, 2: { cellWidth: 12 }, 3: { cellWidth: 15 } },
+            body: rows.map(t => [t.projectName, t.issue, t.count, t.solutionDate === 'Ongoing' ? 'Ongoing' : 'Resolved']),
+            startY: lastY,
+            tableWidth: colWidth,
+            margin: column === 0 ? { left: leftColX, right: pageWidth - leftColX - colWidth } : { left: rightColX, right: margin },
+        });
+    });
+
+    const totalPages = doc.internal.getNumberOfPages();
+    for (let i = 1; i <= totalPages; i++) {
+        doc.setPage(i);
+        doc.setFont('helvetica', 'bold').setFontSize(14).setTextColor(40);
+        doc.text(COMPANY_NAME, pageWidth / 2, 15, { align: 'center' });
+        doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(100);
+        doc.text(COMPANY_ADDRESS, pageWidth / 2, 21, { align: 'center' });
+        doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(40);
+        doc.text(title, pageWidth / 2, 27, { align: 'center' });
+        doc.setFontSize(9).setTextColor(150);
+        doc.text(`Prepared by\n${preparedBy.name}\n${preparedBy.designation}`, margin, pageHeight - 18);
+        doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+    }
+    return doc;
+};
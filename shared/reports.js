@@ -0,0 +1,312 @@
+// shared/reports.js - The figures of the reports that are both exported in the app and scheduled on the
+// server, worked out once so a scheduled report shows what the same report exported by hand would:
+//   - the monthly visit summary (EmployeeVisitSummary, VisitSummaryPDFGenerator);
+//   - the duty analysis (DutyAnalysis);
+//   - the IT response timeline analysis (ITResponseTimeline, ITAnalysisTab).
+// The PDFs they're drawn as are in reportPdfs.js.
+
+import { parseDurationToSeconds, formatSecondsToHHMM, monthRange, previousMonth } from './time.js';
+import { findNoVisitDays } from './workCalendar.js';
+import { getSupposedlyDurations, policyDateForMonth } from './dutyPolicy.js';
+
+/** @typedef {import('../types').EmployeeVisit} EmployeeVisit */
+/** @typedef {import('../types').ReportData} ReportData */
+/** @typedef {import('../types').EmployeeVisitSummary} EmployeeVisitSummary */
+/** @typedef {import('../types').DutyPolicy} DutyPolicy */
+/** @typedef {import('../types').DutySummaryRow} DutySummaryRow */
+/** @typedef {import('../types').DutyPerformer} DutyPerformer */
+/** @typedef {import('../types').DutyDepartmentAnalysis} DutyDepartmentAnalysis */
+/** @typedef {import('../types').ITAssignedIssue} ITAssignedIssue */
+/** @typedef {import('../types').ITIssueTimeline} ITIssueTimeline */
+/** @typedef {import('../types').ITAnalysis} ITAnalysis */
+/** @typedef {import('../utils/workCalendar').WorkCalendar} WorkCalendar */
+/** @typedef {import('../utils/workCalendar').CalendarEmployee} CalendarEmployee */
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 1000 * 3600 * 24;
+
+/**
+ * Groups items by a key, in the order the keys first appear.
+ * @template T, K
+ * @param {T[]} items
+ * @param {(item: T) => K} keyOf
+ * @returns {Map<K, T[]>}
+ */
+const groupBy = (items, keyOf) => items.reduce((groups, item) => {
+    const key = keyOf(item);
+    (groups.get(key) ?? groups.set(key, []).get(key)).push(item);
+    return groups;
+}, new Map());
+
+/**
+ * @template T
+ * @param {T[]} items
+ * @param {(item: T) => number} valueOf
+ */
+const sumBy = (items, valueOf) => items.reduce((sum, item) => sum + valueOf(item), 0);
+
+/**
+ * The first item with the highest value.
+ * @template T
+ * @param {T[]} items
+ * @param {(item: T) => number} valueOf
+ * @returns {T | undefined}
+ */
+const maxBy = (items, valueOf) => items.reduce((best, item) => (best === undefined || valueOf(item) > valueOf(best) ? item : best), undefined);
+
+/**
+ * @template T
+ * @param {T[]} values
+ */
+const uniq = (values) => [...new Set(values)];
+
+/** @param {EmployeeVisit[]} visits */
+const totalSeconds = (visits) => sumBy(visits, v => parseDurationToSeconds(v.duration));
+
+// --- Monthly visit summary ---
+
+export const DURATION_CATEGORIES = ['More than 20 Minutes', '10–19 Minutes', '5–9 Minutes', 'Less than 5 Minutes'];
+
+/**
+ * The monthly visit summary of the visits in a month, usually one employee's. Visits without a duration
+ * count as improper, not in a duration category.
+ * @param {EmployeeVisit[]} visits
+ * @param {string} month YYYY-MM
+ * @param {{ calendar: WorkCalendar, employee: CalendarEmployee }} [noVisitDaysOf] When the visits are one
+ *     employee's, whose days without visits to list; otherwise none are.
+ * @returns {ReportData}
+ */
+export const buildVisitReport = (visits, month, noVisitDaysOf) => {
+    const visitsInMonth = visits.filter(v => v.date?.startsWith(month));
+
+    const perDay = [...groupBy(visitsInMonth, v => v.date)]
+        .map(([date, dayVisits]) => ({ date, visitCount: dayVisits.length, totalDuration: totalSeconds(dayVisits) }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const perProject = [...groupBy(visitsInMonth, v => v.projectName)]
+        .map(([projectName, projectVisits]) => ({ projectName, visitCount: projectVisits.length, totalDuration: totalSeconds(projectVisits) }))
+        .sort((a, b) => b.visitCount - a.visitCount);
+
+    /** @type {Record<string, number>} */
+    const durationCounts = Object.fromEntries(DURATION_CATEGORIES.map(category => [category, 0]));
+    /** @type {EmployeeVisit[]} */
+    const improperVisits = [];
+    visitsInMonth.forEach(visit => {
+        const minutes = parseDurationToSeconds(visit.duration) / 60;
+        if (minutes === 0) improperVisits.push(visit);
+        else if (minutes > 20) durationCounts['More than 20 Minutes']++;
+        else if (minutes >= 10) durationCounts['10–19 Minutes']++;
+        else if (minutes >= 5) durationCounts['5–9 Minutes']++;
+        else durationCounts['Less than 5 Minutes']++;
+    });
+
+    return {
+        perDay,
+        summary: {
+            totalVisitDays: perDay.length,
+            totalProjectsVisited: uniq(visitsInMonth.map(v => v.projectName)).length,
+            grandTotalDuration: sumBy(perDay, d => d.totalDuration),
+        },
+        perProject,
+        durationCounts: Object.entries(durationCounts).map(([category, count]) => ({ category, count })),
+        improperVisitCount: improperVisits.length,
+        improperVisits,
+        dailyProjects: [...visitsInMonth].sort((a, b) => a.date.localeCompare(b.date)).map(v => ({ date: v.date, projectName: v.projectName })),
+        noVisitDays: noVisitDaysOf
+            ? findNoVisitDays(noVisitDaysOf.calendar, month, noVisitDaysOf.employee, new Set(visitsInMonth.map(v => v.date)))
+            : [],
+    };
+};
+
+/**
+ * One visit summary per employee with visits in the month, by name. Each employee's department, code and
+ * designation are taken from their first visit of the month.
+ * @param {EmployeeVisit[]} visits
+ * @param {string} month YYYY-MM
+ * @param {WorkCalendar} calendar
+ * @param {{ department?: string, employeeName?: string }} [filters] A department limits the summaries to the
+ *     employees who visited for it; an employee name to that employee's.
+ * @returns {EmployeeVisitSummary[]}
+ */
+export const buildVisitSummaries = (visits, month, calendar, filters = {}) => {
+    const visitsInMonth = visits.filter(v => v.date?.startsWith(month));
+    const names = filters.employeeName
+        ? [filters.employeeName]
+        : uniq(visitsInMonth.filter(v => !filters.department || v.department === filters.department).map(v => v.visitorName)).sort();
+    return names.flatMap(name => {
+        const employeeVisits = visitsInMonth.filter(v => v.visitorName === name);
+        if (employeeVisits.length === 0) return [];
+        const [{ department, visitorEmployeeId, designation }] = employeeVisits;
+        return [{
+            employeeName: name,
+            employeeCode: visitorEmployeeId || 'N/A',
+            designation: designation || 'N/A',
+            report: buildVisitReport(employeeVisits, month, { calendar, employee: { name, department } }),
+        }];
+    });
+};
+
+// --- Duty analysis ---
+
+/**
+ * Each employee with visits in a month or the month before: their time on visits as a percentage of what
+ * their duty policy expects, and the change between the two months. Each employee's department and
+ * designation are taken from their first visit.
+ * @param {EmployeeVisit[]} visits
+ * @param {string} month YYYY-MM
+ * @param {{ dutyPolicies: DutyPolicy[], calendar: WorkCalendar, workingDays?: { current?: number, last?: number } }} options
+ *     `workingDays` sets the number of working days of either month for every employee, in place of the calendar's.
+ * @returns {DutySummaryRow[]}
+ */
+export const buildDutySummary = (visits, month, { dutyPolicies, calendar, workingDays = {} }) => {
+    const lastMonth = previousMonth(month);
+    const currentRange = monthRange(month);
+    const lastRange = monthRange(lastMonth);
+    const datedVisits = visits.filter(v => v.date && CALENDAR_DATE.test(v.date));
+    const currentVisits = datedVisits.filter(v => v.date.startsWith(month));
+    const lastMonthVisits = datedVisits.filter(v => v.date.startsWith(lastMonth));
+
+    return uniq([...currentVisits, ...lastMonthVisits].map(v => v.visitorName)).map(name => {
+        const { department, designation } = /** @type {EmployeeVisit} */ (visits.find(v => v.visitorName === name));
+        const wd = workingDays.current ?? calendar.countWorkingDays(currentRange.start, currentRange.end, { name, department });
+        const lastWd = workingDays.last ?? calendar.countWorkingDays(lastRange.start, lastRange.end, { name, department });
+        const currentActualSec = totalSeconds(currentVisits.filter(v => v.visitorName === name));
+        const lastActualSec = totalSeconds(lastMonthVisits.filter(v => v.visitorName === name));
+        const currentSupposedlySec = wd * getSupposedlyDurations(dutyPolicies, department, designation, policyDateForMonth(month)).durationForCalcSec;
+        const lastSupposedlySec = lastWd * getSupposedlyDurations(dutyPolicies, department, designation, policyDateForMonth(lastMonth)).durationForCalcSec;
+        const currentPercent = currentSupposedlySec > 0 ? (currentActualSec / currentSupposedlySec) * 100 : 0;
+        const lastPercent = lastSupposedlySec > 0 ? (lastActualSec / lastSupposedlySec) * 100 : 0;
+        return {
+            department,
+            visitorName: name,
+            designation,
+            totalWorkingDay: wd,
+            lastMonthWorkingDay: lastWd,
+            currentMonthActualDurationSec: currentActualSec,
+            lastMonthActualDurationSec: lastActualSec,
+            currentMonthDurationPercentage: currentPercent,
+            lastMonthDurationPercentage: lastPercent,
+            currentStability: currentPercent - lastPercent,
+        };
+    });
+};
+
+/**
+ * Each department's average change in duty achievement from the month before, with its top and lowest
+ * performer, best first.
+ * @param {EmployeeVisit[]} visits
+ * @param {string} month YYYY-MM
+ * @param {DutySummaryRow[]} summaryRows The employees to analyse, from buildDutySummary.
+ * @returns {DutyDepartmentAnalysis[]}
+ */
+export const buildDutyAnalysis = (visits, month, summaryRows) => {
+    const currentVisits = visits.filter(v => v.date && CALENDAR_DATE.test(v.date) && v.date.startsWith(month));
+
+    /**
+     * @param {DutySummaryRow} row
+     * @returns {DutyPerformer}
+     */
+    const performer = (row) => {
+        const performerVisits = currentVisits.filter(v => v.visitorName === row.visitorName);
+        return {
+            name: row.visitorName,
+            visitCount: performerVisits.length,
+            projectCount: uniq(performerVisits.map(v => v.projectName)).length,
+            duration: formatSecondsToHHMM(row.currentMonthActualDurationSec),
+        };
+    };
+
+    return [...groupBy(summaryRows, row => row.department)]
+        .map(([department, employees]) => ({
+            department,
+            employeeCount: employees.length,
+            totalVisits: currentVisits.filter(v => v.department === department).length,
+            averageStability: sumBy(employees, e => e.currentStability) / employees.length,
+            topPerformer: performer(/** @type {DutySummaryRow} */ (maxBy(employees, e => e.currentStability))),
+            lowestPerformer: performer(/** @type {DutySummaryRow} */ (maxBy(employees, e => -e.currentStability))),
+        }))
+        .sort((a, b) => b.averageStability - a.averageStability);
+};
+
+// --- IT response timeline analysis ---
+
+/**
+ * Totals, breakdowns and the timeline of each issue at each project. An issue reported on consecutive days
+ * is one run; the latest run of an issue is ongoing if it reaches the most recent report, and otherwise
+ * taken as resolved the day after it ends.
+ * @param {ITAssignedIssue[]} issues
+ * @returns {ITAnalysis | null} null when there are no issues.
+ */
+export const analyzeItIssues = (issues) => {
+    if (issues.length === 0) return null;
+    const mostRecent = /** @type {ITAssignedIssue} */ (maxBy(issues, i => i.reportedAt.getTime())).reportedAt;
+
+    const zoneSummary = [...groupBy(issues, i => i.zone)]
+        .map(([zone, inZone]) => ({ zone, count: inZone.length, projects: uniq(inZone.map(i => i.projectName)).sort() }))
+        .sort((a, b) => b.count - a.count);
+    const projectSummary = [...groupBy(issues, i => i.projectName)]
+        .map(([projectName, inProject]) => /** @type {[string, number]} */ ([projectName, inProject.length]))
+        .sort((a, b) => b[1] - a[1]);
+    const top5CommonProblems = [...groupBy(issues, i => i.issue)]
+        .map(([issue, same]) => {
+            const latest = /** @type {ITAssignedIssue} */ (maxBy(same, i => i.reportedAt.getTime()));
+            return {
+                issue,
+                count: same.length,
+                latestProject: latest.projectName || 'N/A',
+                latestDate: latest.reportedAt,
+                projectSpecificCount: same.filter(i => i.projectName === latest.projectName).length,
+            };
+        })
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+
+    /** @type {ITIssueTimeline[]} */
+    const issueTimeline = [...groupBy(issues, i => `${i.issue}|${i.projectName}`)]
+        .map(([key, grouped]) => {
+            const [issue, projectName] = key.split('|');
+            const dates = uniq(grouped.map(i => i.reportedAt.getTime())).sort((a, b) => a - b).map(time => new Date(time));
+            /** @type {{ start: Date, end: Date }[]} */
+            const timelines = [];
+            let current = { start: dates[0], end: dates[0] };
+            dates.slice(1).forEach(date => {
+                if ((date.getTime() - current.end.getTime()) / DAY_MS === 1) current.end = date;
+                else {
+                    timelines.push(current);
+                    current = { start: date, end: date };
+                }
+            });
+            timelines.push(current);
+
+            const latest = timelines[timelines.length - 1];
+            const isOngoing = latest.end.getTime() === mostRecent.getTime();
+            const resolvedOn = new Date(latest.end.getTime() + DAY_MS);
+            return {
+                issue,
+                projectName,
+                count: grouped.length,
+                timelines,
+                totalActiveDays: sumBy(timelines, tl => (tl.end.getTime() - tl.start.getTime()) / DAY_MS + 1),
+                firstReported: dates[0],
+                lastReported: dates[dates.length - 1],
+                solutionDate: isOngoing ? 'Ongoing' : resolvedOn,
+                resolutionTimeInDays: isOngoing
+                    ? Math.ceil((mostRecent.getTime() - latest.start.getTime()) / DAY_MS) + 1
+                    : Math.ceil((resolvedOn.getTime() - latest.start.getTime()) / DAY_MS),
+            };
+        })
+        .sort((a, b) => b.count - a.count);
+
+    const resolved = issueTimeline.filter(t => t.solutionDate !== 'Ongoing');
+    return {
+        totalAssignedIssues: issues.length,
+        issueCount: issues.filter(i => i.status === 'Issue').length,
+        offlineCount: issues.filter(i => i.status === 'Offline').length,
+        zoneSummary,
+        projectSummary,
+        top5CommonProblems,
+        issueTimeline,
+        averageResolutionTime: resolved.length > 0 ? sumBy(resolved, t => t.resolutionTimeInDays) / resolved.length : 0,
+        longestOpenIssue: maxBy(issueTimeline.filter(t => t.solutionDate === 'Ongoing'), t => t.resolutionTimeInDays),
+        mostFrequentIssue: issueTimeline[0] ?? null,
+    };
+};
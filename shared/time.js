@@ -0,0 +1,119 @@
+// shared/time.js - The date and duration helpers the reports are worked out with, shared by the app (through
+// utils/time.ts) and the server's scheduled reports.
+//
+// Calendar dates are YYYY-MM-DD strings and months YYYY-MM strings. Instants are shown as their date in the
+// company's time zone.
+
+/** Where the company's sites are; every date and time in the records is local time there. */
+export const COMPANY_TIME_ZONE = 'Asia/Dhaka';
+/** Bangladesh has no daylight saving time, so the offset is fixed. */
+export const COMPANY_UTC_OFFSET_MINUTES = 6 * 60;
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DURATION = /^(\d+):([0-5]?\d)(?::([0-5]?\d))?$/;
+
+/**
+ * Reads a duration written as H:MM:SS or H:MM; hours may exceed 24, minutes and seconds may not exceed 59.
+ * Anything else (e.g. "1:75" or "1.5:00") counts as zero.
+ * @param {string} value
+ * @returns {number} The duration in seconds.
+ */
+export const parseDurationToSeconds = (value) => {
+    if (!value || typeof value !== 'string') return 0;
+    const match = DURATION.exec(value.trim());
+    if (!match) return 0;
+    const [, hours, minutes, seconds = '0'] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+};
+
+/**
+ * Whether a value is a duration parseDurationToSeconds can read.
+ * @param {string} value
+ * @returns {boolean}
+ */
+export const isValidDuration = (value) => DURATION.test(value.trim());
+
+/**
+ * Formats a number of seconds as HH:MM, rounded to the nearest minute. Negative and invalid values show as 00:00.
+ * @param {number} totalSeconds
+ * @returns {string}
+ */
+export const formatSecondsToHHMM = (totalSeconds) => {
+    if (isNaN(totalSeconds) || totalSeconds < 0) return '00:00';
+    const totalMinutes = Math.round(totalSeconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/**
+ * The date `days` days after (or, if negative, before) another.
+ * @param {string} date YYYY-MM-DD
+ * @param {number} days
+ * @returns {string} YYYY-MM-DD
+ */
+export const addDays = (date, days) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+};
+
+/**
+ * The day of the week of a date, 0 for Sunday to 6 for Saturday.
+ * @param {string} date YYYY-MM-DD
+ * @returns {number}
+ */
+export const dayOfWeek = (date) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * The first and last dates of a month.
+ * @param {string} month YYYY-MM
+ * @returns {{ start: string, end: string }}
+ */
+export const monthRange = (month) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+    return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+/**
+ * The month before another.
+ * @param {string} month YYYY-MM
+ * @returns {string} YYYY-MM
+ */
+export const previousMonth = (month) => addDays(`${month}-01`, -1).slice(0, 7);
+
+/**
+ * A month as it is written in report titles, e.g. "July 2025".
+ * @param {string} month YYYY-MM
+ * @returns {string}
+ */
+export const formatMonth = (month) => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+};
+
+/**
+ * The date of an instant in the company's time zone.
+ * @param {Date | string} instant
+ * @returns {string} YYYY-MM-DD
+ */
+export const companyDate = (instant) =>
+    new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: COMPANY_TIME_ZONE }).format(new Date(instant));
+
+/**
+ * Formats a date as 01-Jul-2025. YYYY-MM-DD strings are shown as written; instants are shown as their date
+ * in the company's time zone. Values that aren't dates are returned unchanged.
+ * @param {Date | string | null} date
+ * @returns {string}
+ */
+export const formatDateDDMMMYYYY = (date) => {
+    if (!date) return '';
+    const calendarDate = typeof date === 'string' && CALENDAR_DATE.test(date);
+    const d = calendarDate ? new Date(`${date}T00:00:00Z`) : new Date(date);
+    if (isNaN(d.getTime())) return String(date);
+    const parts = new Intl.DateTimeFormat('en-US', { day: '2-digit', month: 'short', year: 'numeric', timeZone: calendarDate ? 'UTC' : COMPANY_TIME_ZONE }).formatToParts(d);
+    /** @param {Intl.DateTimeFormatPartTypes} type */
+    const part = (type) => parts.find(p => p.type === type)?.value ?? '';
+    return `${part('day')}-${part('month')}-${part('year')}`;
+};
@@ -0,0 +1,79 @@
+// shared/visitVerification.js - Flags visit reports that may not have been made on site: submitted (or a
+// camera photo taken) outside the project's geofence, missing a location although the project has site
+// coordinates, or with photo times far from the entry time.
+//
+// The server works the flags out whenever a report is saved (server/visitReports.js); the app uses the
+// constants to show and edit geofences (utils/visitVerification.ts).
+
+/** @typedef {import('../types').VisitReport} VisitReport */
+/** @typedef {import('../types').Project} Project */
+/** @typedef {import('../types').PhotoCapture} PhotoCapture */
+/** @typedef {import('../types').VisitFlag} VisitFlag */
+/** @typedef {import('../types').VisitVerification} VisitVerification */
+
+export const DEFAULT_GEOFENCE_RADIUS = 200; // meters
+// How far a photo's time may be from the visit's entry time.
+export const PHOTO_TIME_TOLERANCE_MS = 2 * 60 * 60 * 1000;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * The great-circle distance between two points, in meters.
+ * @param {{ latitude: number, longitude: number }} a
+ * @param {{ latitude: number, longitude: number }} b
+ * @returns {number}
+ */
+export const distanceInMeters = (a, b) => {
+    const toRadians = (/** @type {number} */ degrees) => degrees * Math.PI / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * @param {Project | undefined} project
+ * @returns {project is Project & { latitude: number, longitude: number }}
+ */
+export const hasSiteLocation = (project) => typeof project?.latitude === 'number' && typeof project?.longitude === 'number';
+
+/**
+ * @param {Pick<VisitReport, 'frontViewPhotoCaptures' | 'issues'>} report
+ * @returns {PhotoCapture[]}
+ */
+const allCaptures = (report) => [
+    ...(report.frontViewPhotoCaptures ?? []),
+    ...report.issues.flatMap(issue => issue.photoCaptures ?? []),
+];
+
+/**
+ * Checks a visit report against its project's geofence and its entry time.
+ * @param {Pick<VisitReport, 'entryDate' | 'submitLocation' | 'frontViewPhotoCaptures' | 'issues'>} report
+ * @param {Project | undefined} project The report's project, if it is a known one.
+ * @returns {VisitVerification}
+ */
+export const verifyVisit = (report, project) => {
+    /** @type {Set<VisitFlag>} */
+    const flags = new Set();
+    const captures = allCaptures(report);
+    /** @type {number | undefined} */
+    let distanceFromSite;
+
+    if (hasSiteLocation(project)) {
+        const radius = project.geofenceRadius ?? DEFAULT_GEOFENCE_RADIUS;
+        if (report.submitLocation) {
+            distanceFromSite = Math.round(distanceInMeters(report.submitLocation, project));
+            if (distanceFromSite > radius) flags.add('outsideGeofence');
+        } else {
+            flags.add('locationUnavailable');
+        }
+        if (captures.some(c => c.location && distanceInMeters(c.location, project) > radius)) flags.add('outsideGeofence');
+    }
+
+    const entryTime = new Date(report.entryDate).getTime();
+    if (captures.some(c => c.takenAt && Math.abs(new Date(c.takenAt).getTime() - entryTime) > PHOTO_TIME_TOLERANCE_MS)) {
+        flags.add('photoTimeMismatch');
+    }
+
+    return { flags: [...flags], distanceFromSite, checkedAt: new Date().toISOString() };
+};
@@ -0,0 +1,86 @@
+// shared/workCalendar.js - The company calendar as the reports read it, shared by the app (through
+// utils/workCalendar.ts, which also holds its types) and the server's scheduled reports.
+
+import { addDays, dayOfWeek, monthRange } from './time.js';
+
+/** @typedef {import('../types').CalendarEntry} CalendarEntry */
+/** @typedef {import('../types').HolidayEntry} HolidayEntry */
+/** @typedef {import('../types').LeaveEntry} LeaveEntry */
+/** @typedef {import('../types').WeeklyOffEntry} WeeklyOffEntry */
+/** @typedef {import('../utils/workCalendar').CalendarEmployee} CalendarEmployee */
+/** @typedef {import('../utils/workCalendar').DayOff} DayOff */
+/** @typedef {import('../utils/workCalendar').WorkCalendar} WorkCalendar */
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * @param {HolidayEntry | LeaveEntry} entry
+ * @param {string} date
+ */
+const inRange = (entry, date) => entry.startDate <= date && date <= entry.endDate;
+
+/**
+ * @param {CalendarEntry[]} entries
+ * @returns {WorkCalendar}
+ */
+export const createWorkCalendar = (entries) => {
+    const weeklyOff = /** @type {WeeklyOffEntry[]} */ (entries.filter(e => e.kind === 'weeklyOff'));
+    const holidays = /** @type {HolidayEntry[]} */ (entries.filter(e => e.kind === 'holiday'));
+    const leave = /** @type {LeaveEntry[]} */ (entries.filter(e => e.kind === 'leave'));
+    const companyWeeklyOff = weeklyOff.find(e => !e.department)?.weekdays ?? [];
+    const weeklyOffByDepartment = new Map(weeklyOff.filter(e => e.department).map(e => [e.department, e.weekdays]));
+
+    /**
+     * @param {string} date
+     * @param {CalendarEmployee} [employee]
+     * @returns {DayOff | null}
+     */
+    const dayOff = (date, employee = {}) => {
+        const offDays = (employee.department && weeklyOffByDepartment.get(employee.department)) || companyWeeklyOff;
+        if (offDays.includes(dayOfWeek(date))) return { reason: 'weeklyOff' };
+        const holiday = holidays.find(h => inRange(h, date));
+        if (holiday) return { reason: 'holiday', name: holiday.name };
+        const onLeave = employee.name ? leave.find(l => l.employeeName === employee.name && inRange(l, date)) : undefined;
+        if (onLeave) return { reason: 'leave', detail: onLeave.reason };
+        return null;
+    };
+
+    /**
+     * @param {string} start
+     * @param {string} end
+     * @param {CalendarEmployee} [employee]
+     */
+    const countWorkingDays = (start, end, employee) => {
+        if (!CALENDAR_DATE.test(start) || !CALENDAR_DATE.test(end)) return 0;
+        let count = 0;
+        for (let date = start; date <= end; date = addDays(date, 1)) {
+            if (!dayOff(date, employee)) count++;
+        }
+        return count;
+    };
+
+    return { dayOff, isWorkingDay: (date, employee) => !dayOff(date, employee), countWorkingDays };
+};
+
+/**
+ * The days of a YYYY-MM month the employee made no visits on, apart from weekly off-days. Holidays and
+ * leave are listed with 'Holiday' or 'Leave' as the remark, so reports can tell them from unexplained days.
+ * @param {WorkCalendar} calendar
+ * @param {string} month
+ * @param {CalendarEmployee} employee
+ * @param {Set<string>} visitDates
+ * @returns {{ date: string, day: string, remark: string }[]}
+ */
+export const findNoVisitDays = (calendar, month, employee, visitDates) => {
+    const { start, end } = monthRange(month);
+    /** @type {{ date: string, day: string, remark: string }[]} */
+    const days = [];
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+        const off = calendar.dayOff(date, employee);
+        if (visitDates.has(date) || off?.reason === 'weeklyOff') continue;
+        days.push({ date, day: WEEKDAY_NAMES[dayOfWeek(date)], remark: off?.reason === 'holiday' ? 'Holiday' : off?.reason === 'leave' ? 'Leave' : '' });
+    }
+    return days;
+};
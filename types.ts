@@ -9,18 +9,22 @@ export interface User {
   employeeId: string;
   designation: string;
   department: string;
-  password?: string;
   role: Role;
+  // The effective permissions: the role template's, with permissionOverrides applied.
   permissions: Permissions;
+  roleTemplateId?: string;
+  permissionOverrides?: PermissionOverrides;
+  dataScope?: DataScope;
   avatar?: string;
 }
 
 export interface Permissions {
   dashboard: { view: boolean };
   projectVisit: { view: boolean; edit: boolean };
+  visitReports: { view: boolean };
   lastVisitedProjects: { view: boolean };
   projectCase: { view: boolean; edit: boolean };
-  projectCasesList: { view: boolean };
+  projectCasesList: { view: boolean; edit: boolean };
   profile: { view: boolean; edit: boolean };
   adminPanel: { view: boolean };
   materialReceive: { view: boolean; edit: boolean };
@@ -28,6 +32,10 @@ export interface Permissions {
   systemManagement_addProject: { view: boolean; edit: boolean };
   systemManagement_projectList: { view: boolean; edit: boolean };
   systemManagement_dashboardSettings: { view: boolean; edit: boolean };
+  systemManagement_dutyPolicies: { view: boolean; edit: boolean };
+  systemManagement_calendar: { view: boolean; edit: boolean };
+  systemManagement_employees: { view: boolean; edit: boolean };
+  systemManagement_aiTriage: { view: boolean; edit: boolean };
   employeeProjectVisit: { view: boolean; edit: boolean };
   sealPersonProjectVisit: { view: boolean; edit: boolean };
   itResponseTimeline: { view: boolean; edit: boolean };
@@ -35,12 +43,34 @@ export interface Permissions {
   constructionDutyAnalysis: { view: boolean; edit: boolean };
   monthlyComparisonPrecision: { view: boolean; edit: boolean };
   ssvDutyAnalysis: { view: boolean; edit: boolean };
+  reports: { view: boolean; edit: boolean };
+}
+
+export type PermissionModule = keyof Permissions;
+
+// Per-user differences from a role template, e.g. { materialReceiveList: { view: true } }.
+export type PermissionOverrides = { [M in PermissionModule]?: Partial<Permissions[M]> };
+
+// Limits the records a user can see. An empty list places no restriction on that dimension.
+export interface DataScope {
+  zones: string[];
+  projects: string[];
+  departments: string[];
+}
+
+export interface RoleTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  role: Role;
+  permissions: Permissions;
 }
 
 // --- View & Navigation Types ---
 export type View =
   | 'dashboard'
   | 'projectVisit'
+  | 'visitReports'
   | 'profile'
   | 'lastVisitedProjects'
   | 'projectCase'
@@ -55,7 +85,8 @@ export type View =
   | 'erpCorrectionReport'
   | 'constructionDutyAnalysis'
   | 'monthlyComparisonPrecision'
-  | 'ssvDutyAnalysis';
+  | 'ssvDutyAnalysis'
+  | 'reports';
 
 export type EmployeeVisitTab = 'records' | 'departmentSummary' | 'dutyAnalysis' | 'summary';
 export type MonthlyComparisonPrecisionTab = 'records' | 'departmentSummary' | 'dutyAnalysis' | 'summary';
@@ -66,11 +97,79 @@ export type ConstructionDutyAnalysisTab = 'visit' | 'material' | 'analysis';
 export type SSVDutyAnalysisTab = 'records' | 'analysis';
 
 // --- Project & Site Related Types ---
+export type ProjectStatus = 'Active' | 'On Hold' | 'Completed';
+
 export interface Project {
   id: number;
   name: string;
+  code?: string; // short reference code, unique across projects
   zone: string;
   address: string;
+  // Site coordinates and geofence radius (meters), used to verify visit reports were made on site.
+  latitude?: number;
+  longitude?: number;
+  geofenceRadius?: number;
+  startDate?: string; // YYYY-MM-DD
+  handoverDate?: string; // YYYY-MM-DD
+  phase?: string; // one of PROJECT_PHASES
+  status?: ProjectStatus; // treated as 'Active' when missing
+  siteEngineer?: string;
+  securitySupervisors?: string[];
+  aliases?: string[]; // other spellings of the name, confirmed during CSV imports
+}
+
+// How many hours a day employees are expected to spend on project visits. The policy for an employee is
+// the most specific one in effect (see utils/dutyPolicy.ts); a change of policy is saved as a new version
+// from a date on, so earlier months keep the hours that applied then.
+export interface DutyPolicy {
+  id: number;
+  department: string; // empty for every department
+  designations: string[]; // empty for every designation
+  expectedHours: number; // 0 for departments with no visit target
+  effectiveFrom?: string; // YYYY-MM-DD; in effect since the beginning when missing
+  effectiveTo?: string; // YYYY-MM-DD, inclusive; still in effect when missing
+}
+
+// The company calendar: which days are worked (see utils/workCalendar.ts). Dates are YYYY-MM-DD and
+// ranges include both ends.
+export interface WeeklyOffEntry {
+  id: number;
+  kind: 'weeklyOff';
+  department: string; // empty for every department without its own entry
+  weekdays: number[]; // 0 = Sunday … 6 = Saturday
+}
+
+export interface HolidayEntry {
+  id: number;
+  kind: 'holiday';
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface LeaveEntry {
+  id: number;
+  kind: 'leave';
+  employeeName: string; // as written in the visit records
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+export type CalendarEntry = WeeklyOffEntry | HolidayEntry | LeaveEntry;
+
+// An employee whose visits are analysed, whether or not they log in to the app. Visit records are matched
+// to an employee by employee ID or by name (see utils/employees.ts).
+export interface Employee {
+  id: number;
+  employeeId: string; // the company's employee code, unique across employees
+  name: string;
+  aliases?: string[]; // other spellings of the name found in imported sheets
+  department: string;
+  designation: string;
+  reportingManagerId?: number; // another Employee's id
+  activeFrom?: string; // YYYY-MM-DD, the joining date
+  activeTo?: string; // YYYY-MM-DD, the last working day; still employed when missing
 }
 
 export interface FeaturedProject {
@@ -88,14 +187,136 @@ export interface VisitedProject {
   zone: string;
 }
 
+// A device location fix.
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // meters
+  capturedAt: string; // ISO timestamp
+}
+
+// When and where a photo was taken, kept alongside the photo at the same index.
+export interface PhotoCapture {
+  source: 'camera' | 'upload';
+  takenAt?: string; // ISO timestamp: the capture time for camera photos, the EXIF date for uploads
+  location?: GeoLocation; // camera photos only
+}
+
+export type VisitFlag = 'outsideGeofence' | 'locationUnavailable' | 'photoTimeMismatch';
+
+// Worked out by the server whenever a visit report is saved (see shared/visitVerification.js).
+export interface VisitVerification {
+  flags: VisitFlag[];
+  distanceFromSite?: number; // meters, from the submit location
+  checkedAt: string;
+}
+
 export interface IssueItem {
   id: string;
   description: string;
   photos: string[];
+  photoCaptures?: PhotoCapture[];
   comments: string;
   category?: string;
   priority?: 'Low' | 'Medium' | 'High' | 'Critical';
   summary?: string;
+  linkedCaseId?: number; // the case this issue was reported as a recurrence of
+}
+
+// A submitted "New Visit Report" from ProjectVisitForm.
+export interface VisitReport {
+  id: number;
+  projectName: string;
+  projectId?: number; // set once the project name is matched to a project (see utils/projects.ts)
+  projectZone: string;
+  entryDate: string; // ISO timestamp
+  reporterName: string;
+  reporterEmployeeId: string;
+  frontViewPhotos: string[];
+  frontViewPhotoCaptures?: PhotoCapture[];
+  issues: IssueItem[];
+  submitLocation?: GeoLocation;
+  verification?: VisitVerification;
+  // Stamped by the server; only this user can edit the report, for a while (see utils/visitReports.ts).
+  submittedBy?: { id: number; name: string };
+  submittedAt?: string; // ISO
+}
+
+export interface ProjectCase {
+  id: number;
+  caseName: string;
+  projectName: string;
+  projectId?: number;
+  projectZone?: string;
+  liableDept?: string;
+  comments?: string;
+  photo?: string;
+  reporter: string;
+  date: string; // YYYY-MM-DD
+  category: string;
+  priority: 'Low' | 'Medium' | 'High' | 'Critical';
+  summary?: string; // the AI's one-sentence summary; missing until the case has been analysed
+  aiSuggestion?: { category: string; priority: ProjectCase['priority'] }; // from AI triage, which leaves category and priority alone
+  // Workflow, see utils/caseWorkflow.ts. The server stamps dueDate, statusHistory and the resolution fields.
+  status?: CaseStatus;
+  assigneeId?: number;
+  assigneeName?: string;
+  dueDate?: string; // YYYY-MM-DD
+  thread?: CaseComment[];
+  resolutionPhoto?: string;
+  resolutionNote?: string;
+  statusHistory?: CaseStatusChange[];
+  resolvedAt?: string; // ISO
+  resolvedBy?: string;
+  verifiedAt?: string; // ISO
+  verifiedBy?: string;
+  closedAt?: string; // ISO
+  linkedCaseId?: number; // an earlier case reporting the same problem
+}
+
+export type CaseStatus = 'Open' | 'Assigned' | 'In Progress' | 'Resolved' | 'Verified' | 'Closed';
+
+export interface CaseComment {
+  id: string;
+  text: string;
+  authorId?: number;
+  authorName: string;
+  at: string; // ISO
+}
+
+export interface CaseStatusChange {
+  status: CaseStatus;
+  at: string; // ISO
+  by: string;
+}
+
+// A case or visit report issue as compared by server/recurringIssues.js.
+export interface ReportedIssue {
+  key: string;
+  source: 'case' | 'visit';
+  caseId?: number;
+  reportId?: number;
+  issueId?: string;
+  projectName: string;
+  date: string | null; // YYYY-MM-DD
+  title: string; // a case's name or a visit issue's description
+  detail?: string; // a case's comments or a visit issue's AI summary
+  category?: string;
+  status?: CaseStatus; // cases only
+  linkedCaseId?: number;
+}
+
+export interface IssueMatch extends ReportedIssue {
+  score: number; // 0 to 1
+}
+
+export interface RecurringIssueGroup {
+  projectName: string;
+  category?: string;
+  count: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  issues: ReportedIssue[]; // newest first
 }
 
 // --- Data Record Types ---
@@ -103,9 +324,12 @@ export interface EmployeeVisit {
   id: number;
   date: string; // YYYY-MM-DD
   visitorName: string;
-  department: string;
+  visitorId?: number; // set once the visitor is matched to an Employee
+  visitorEmployeeId?: string; // the employee code, when the imported sheet has one
+  department: string; // as recorded at the time of the visit
   designation: string;
   projectName: string;
+  projectId?: number;
   entryTime: string; // HH:MM
   outTime: string; // HH:MM
   duration: string; // H:M:S
@@ -121,6 +345,7 @@ export interface SealPersonVisit {
   customerName: string;
   customerId: string;
   projectName: string;
+  projectId?: number;
   inTime: string;
   outTime: string;
 }
@@ -129,6 +354,7 @@ export interface MaterialReceiveItem {
     id: number;
     mrf: string;
     projectName: string;
+    projectId?: number;
     supplierName: string;
     materialName: string;
     quantity: number;
@@ -147,6 +373,7 @@ export interface ERPCorrectionRecord {
   department: string;
   designation: string;
   projectName: string;
+  projectId?: number;
   documentType: string;
   trackingNumber: string;
   correctionType: string;
@@ -167,9 +394,86 @@ export interface ITAssignedIssue {
   assignedTo: string;
   status: 'Issue' | 'Offline';
   projectName: string;
+  projectId?: number;
   zone: string;
 }
 
+// --- Audit Log ---
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export interface AuditEntry {
+  id: number;
+  occurredAt: string; // ISO date-time
+  actor: AuditActor | null;
+  // Set when an administrator performed the action while switched into this user's account.
+  impersonatedUser: AuditActor | null;
+  action: string; // e.g. 'create', 'update', 'delete', 'import', 'impersonation.start'
+  entityType: string; // e.g. 'users', 'projects', 'employeeVisits'
+  entityId: string | null;
+  summary: string | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changes: Record<string, { from: any; to: any }> | null;
+  source: 'server' | 'client';
+}
+
+// A named set of a page's filters (its query parameters, see utils/routing.ts), saved on the server.
+export interface FilterPreset {
+  id: number;
+  name: string;
+  view: View;
+  tab?: string; // for tabbed views, the tab whose filters these are
+  params: Record<string, string>;
+  shared?: boolean; // visible to every user
+  isDefault?: boolean; // applied when the owner opens the page without filters; one per owner and page
+  owner: { id: number; name: string }; // set by the server
+}
+
+// --- Scheduled Report Types ---
+// Reports the server draws and emails on a schedule (see server/reportScheduler.js).
+export type ReportType = 'visitSummary' | 'dutyAnalysis' | 'itSummary';
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+// 'archived' when there was no one to email, 'empty' when there was nothing to report on, 'error' when the report failed.
+export type ReportRunStatus = 'sent' | 'failed' | 'archived' | 'empty' | 'error';
+
+export interface ReportSchedule {
+  id: number;
+  name: string;
+  reportType: ReportType;
+  // visitSummary: department, employeeName; dutyAnalysis: department; itSummary: zone, projectName.
+  filters: Record<string, string>;
+  recipients: string[];
+  frequency: ReportFrequency;
+  time: string; // HH:MM in company time
+  weekday?: number; // 0 (Sunday) - 6, for weekly reports
+  dayOfMonth?: number; // 1 - 28, for monthly reports
+  enabled: boolean;
+  preparedByName?: string;
+  preparedByDesignation?: string;
+  nextRunAt?: string | null; // ISO date-time, worked out by the server
+  lastRunAt?: string; // ISO date-time
+  lastRunStatus?: ReportRunStatus;
+}
+
+export interface ArchivedReport {
+  id: number;
+  scheduleId: number | null;
+  scheduleName: string;
+  reportType: ReportType;
+  title: string;
+  period: string; // YYYY-MM
+  fileName: string;
+  size: number; // bytes
+  recipients: string[];
+  deliveryStatus: 'sent' | 'failed' | 'archived';
+  deliveryError: string | null;
+  generatedAt: string; // ISO date-time
+  generatedBy: string | null; // set when a user ran the schedule by hand
+}
+
 // --- Analysis & Reporting Types ---
 export interface ReportData {
   perDay: { date: string; visitCount: number; totalDuration: number }[];
@@ -182,9 +486,110 @@ export interface ReportData {
   noVisitDays: { date: string; day: string; remark: string }[];
 }
 
+// One employee's pages of the monthly visit summary PDF.
+export interface EmployeeVisitSummary {
+  employeeName: string;
+  employeeCode: string;
+  designation: string;
+  report: ReportData;
+}
+
+// An employee's time on visits against their duty policy, this month and the month before.
+export interface DutySummaryRow {
+  department: string;
+  visitorName: string;
+  designation: string;
+  totalWorkingDay: number;
+  lastMonthWorkingDay: number;
+  currentMonthActualDurationSec: number;
+  lastMonthActualDurationSec: number;
+  currentMonthDurationPercentage: number;
+  lastMonthDurationPercentage: number;
+  currentStability: number; // change in percentage points from the month before
+}
+
+export interface DutyPerformer {
+  name: string;
+  visitCount: number;
+  projectCount: number;
+  duration: string; // HH:MM
+}
+
+export interface DutyDepartmentAnalysis {
+  department: string;
+  employeeCount: number;
+  totalVisits: number;
+  averageStability: number;
+  topPerformer: DutyPerformer;
+  lowestPerformer: DutyPerformer;
+}
+
+export interface ITIssueTimeline {
+  issue: string;
+  projectName: string;
+  count: number;
+  timelines: { start: Date; end: Date }[]; // runs of issues reported on consecutive days
+  totalActiveDays: number;
+  firstReported: Date;
+  lastReported: Date;
+  solutionDate: Date | 'Ongoing';
+  resolutionTimeInDays: number;
+}
+
+export interface ITAnalysis {
+  totalAssignedIssues: number;
+  issueCount: number;
+  offlineCount: number;
+  zoneSummary: { zone: string; count: number; projects: string[] }[];
+  projectSummary: [string, number][];
+  top5CommonProblems: { issue: string; count: number; latestProject: string; latestDate: Date; projectSpecificCount: number }[];
+  issueTimeline: ITIssueTimeline[];
+  averageResolutionTime: number;
+  longestOpenIssue: ITIssueTimeline | undefined;
+  mostFrequentIssue: ITIssueTimeline | null;
+}
+
 // Gemini Analysis Result
 export interface AnalysisResult {
     category: string;
     priority: 'Low' | 'Medium' | 'High' | 'Critical';
     summary: string;
 }
+
+// Batch AI analysis of unclassified issues and cases, see server/aiTriage.js.
+export interface AiTriageSettings {
+    dailyCallLimit: number | null; // null for no limit
+    dailyTokenLimit: number | null;
+    concurrency: number; // calls at a time, 1 to 5
+}
+
+export type AiTriageJobStatus = 'running' | 'completed' | 'cancelled' | 'budgetExhausted' | 'failed';
+
+export interface AiTriageJob {
+    id: number;
+    status: AiTriageJobStatus;
+    startedAt: string; // ISO
+    startedBy: { id: number; name: string };
+    finishedAt: string | null;
+    total: number;
+    analyzed: number;
+    cached: number; // results reused from earlier analyses of the same content
+    skipped: number; // analysed or removed by someone else meanwhile
+    failed: number;
+    error: string | null;
+    cancelRequested: boolean;
+}
+
+export interface AiTriageStatus {
+    settings: AiTriageSettings;
+    usage: { day: string; calls: number; tokens: number }; // today, in the company's time zone
+    pending: { issues: number; cases: number };
+    job: AiTriageJob | null;
+}
+
+// Which AI the backend uses, see server/aiProviders.js.
+export interface AiStatus {
+    enabled: boolean; // false when AI_PROVIDER is none, or no API key is set
+    provider: 'gemini' | 'local' | 'none';
+    model: string | null;
+}
@@ -0,0 +1,48 @@
+// The lifecycle of a project case. The server enforces the same rules (server/caseWorkflow.js); these are
+// used to offer only the allowed actions and to flag cases that are past their due date.
+
+import { CaseStatus, ProjectCase } from '../types';
+import { addDays, companyDate, companyToday } from './time';
+
+export const CASE_STATUSES: CaseStatus[] = ['Open', 'Assigned', 'In Progress', 'Resolved', 'Verified', 'Closed'];
+
+/** The statuses each status can move to. */
+export const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+    'Open': ['Assigned'],
+    'Assigned': ['In Progress', 'Open'],
+    'In Progress': ['Resolved', 'Assigned'],
+    'Resolved': ['Verified', 'In Progress'],
+    'Verified': ['Closed', 'In Progress'],
+    'Closed': ['In Progress'],
+};
+
+/** Days from the report date until a case is due, by priority. */
+export const CASE_SLA_DAYS: Record<ProjectCase['priority'], number> = { Critical: 1, High: 3, Medium: 7, Low: 14 };
+
+/** Statuses in which the work on a case is done. */
+const DONE_STATUSES: CaseStatus[] = ['Resolved', 'Verified', 'Closed'];
+
+export const CASE_STATUS_CLASSES: Record<CaseStatus, string> = {
+    'Open': 'bg-slate-100 text-slate-800',
+    'Assigned': 'bg-blue-100 text-blue-800',
+    'In Progress': 'bg-yellow-100 text-yellow-800',
+    'Resolved': 'bg-teal-100 text-teal-800',
+    'Verified': 'bg-green-100 text-green-800',
+    'Closed': 'bg-slate-200 text-slate-600',
+};
+
+/** Cases saved before the workflow existed are Open. */
+export const caseStatus = (projectCase: ProjectCase): CaseStatus => projectCase.status ?? 'Open';
+
+export const caseDueDate = (projectCase: ProjectCase): string =>
+    projectCase.dueDate ?? addDays(projectCase.date, CASE_SLA_DAYS[projectCase.priority] ?? CASE_SLA_DAYS.Medium);
+
+export const isCaseDone = (projectCase: ProjectCase): boolean => DONE_STATUSES.includes(caseStatus(projectCase));
+
+/** Whether a case is still being worked on after its due date. */
+export const isCaseOverdue = (projectCase: ProjectCase, today: string = companyToday()): boolean =>
+    !isCaseDone(projectCase) && caseDueDate(projectCase) < today;
+
+/** Whether a case was resolved after its due date. */
+export const wasResolvedLate = (projectCase: ProjectCase): boolean =>
+    isCaseDone(projectCase) && !!projectCase.resolvedAt && companyDate(projectCase.resolvedAt) > caseDueDate(projectCase);
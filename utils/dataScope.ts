@@ -0,0 +1,36 @@
+import { DataScope, Project } from '../types';
+
+// Mirrors server/dataScope.js, which applies the same rules to the REST endpoints.
+
+export const EMPTY_DATA_SCOPE: DataScope = { zones: [], projects: [], departments: [] };
+
+export const isScopeRestricted = (scope: DataScope | undefined): boolean =>
+    !!scope && (scope.zones.length > 0 || scope.projects.length > 0 || scope.departments.length > 0);
+
+export interface ScopeFilter {
+    isRestricted: boolean;
+    /**
+     * Whether records of this project are visible. The zone is looked up from the project list when the
+     * record doesn't carry one, so records of unknown projects are hidden from users limited to some zones.
+     */
+    allowsProject: (projectName: string | undefined, zone?: string) => boolean;
+    /** Whether records of this department are visible. Records without a department are not limited by it. */
+    allowsDepartment: (department: string | undefined) => boolean;
+    allowsZone: (zone: string) => boolean;
+}
+
+export const createScopeFilter = (scope: DataScope | undefined, projects: Project[]): ScopeFilter => {
+    const { zones, projects: allowedProjects, departments } = scope ?? EMPTY_DATA_SCOPE;
+    const zoneByProject = new Map<string, string>(projects.map(p => [p.name, p.zone]));
+    const allowsZone = (zone: string | undefined) => zones.length === 0 || (!!zone && zones.includes(zone));
+
+    return {
+        isRestricted: isScopeRestricted(scope),
+        allowsZone,
+        allowsProject: (projectName, zone) => {
+            if (allowedProjects.length > 0 && (!projectName || !allowedProjects.includes(projectName))) return false;
+            return allowsZone(zone ?? (projectName ? zoneByProject.get(projectName) : undefined));
+        },
+        allowsDepartment: (department) => departments.length === 0 || !department || departments.includes(department),
+    };
+};
@@ -0,0 +1,46 @@
+// Working out how long an employee is expected to spend on project visits each day, from the duty
+// policies kept in System Management.
+
+import { DutyPolicy } from '../types';
+import { addDays } from './time';
+
+// Finding the policy that applies lives in shared/dutyPolicy.js, which the server's scheduled reports use too.
+export {
+    BASELINE_HOURS, durationsForHours, policyDateForMonth, isPolicyInEffect, findDutyPolicy, getSupposedlyDurations,
+} from '../shared/dutyPolicy.js';
+
+export interface SupposedlyDurations {
+    /** The daily target shown in reports. */
+    durationForDisplaySec: number;
+    /** The daily duration achievement percentages are worked out against. */
+    durationForCalcSec: number;
+}
+
+const sameScope = (a: DutyPolicy, b: DutyPolicy) =>
+    a.department === b.department &&
+    a.designations.length === b.designations.length &&
+    a.designations.every(designation => b.designations.includes(designation));
+
+/** Another policy for the same department and designations whose dates overlap the given one's. */
+export const findOverlappingPolicy = (policies: DutyPolicy[], policy: DutyPolicy): DutyPolicy | undefined =>
+    policies.find(other =>
+        other.id !== policy.id &&
+        sameScope(other, policy) &&
+        (!other.effectiveFrom || !policy.effectiveTo || other.effectiveFrom <= policy.effectiveTo) &&
+        (!policy.effectiveFrom || !other.effectiveTo || policy.effectiveFrom <= other.effectiveTo));
+
+/**
+ * Saves a change to a policy. A change that takes effect after the policy started is kept as a new
+ * version: the old one ends the day before, so months before the change are still worked out with it.
+ * Otherwise the policy is corrected in place.
+ * @returns The policy to store in place of `previous`, and the new version to add, if one is made.
+ */
+export const revisePolicy = (previous: DutyPolicy, revision: DutyPolicy): [DutyPolicy, Omit<DutyPolicy, 'id'>?] => {
+    if (!revision.effectiveFrom || revision.effectiveFrom <= (previous.effectiveFrom ?? '')) return [revision];
+    const endOfPrevious = addDays(revision.effectiveFrom, -1);
+    const { id, ...newVersion } = revision;
+    return [
+        { ...previous, effectiveTo: previous.effectiveTo && previous.effectiveTo < endOfPrevious ? previous.effectiveTo : endOfPrevious },
+        newVersion,
+    ];
+};
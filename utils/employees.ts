@@ -0,0 +1,68 @@
+import { Employee } from '../types';
+
+// Visit records name their visitor in `visitorName`, as written in the imported sheet, and sometimes carry
+// the employee code in `visitorEmployeeId`. Once matched to the employee directory, a record also
+// references the employee by `visitorId`, and its `visitorName` follows the directory, so an employee whose
+// name is spelt differently across sheets, or who is renamed, keeps one history. The department on each
+// record stays as it was at the time of the visit. The server links the visits it keeps (server/employees.js).
+
+export interface EmployeeLinked {
+    visitorName: string;
+    visitorId?: number;
+    visitorEmployeeId?: string;
+}
+
+/** Compares employee names regardless of case and spacing. */
+export const normalizeEmployeeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const normalizeEmployeeId = (employeeId: string) => employeeId.trim().toUpperCase();
+
+export interface EmployeeIndex {
+    byId: (id: number | undefined) => Employee | undefined;
+    byEmployeeId: (employeeId: string | undefined) => Employee | undefined;
+    /** Finds an employee by their name or one of its other spellings. */
+    byName: (name: string | undefined) => Employee | undefined;
+    /** The employee a record belongs to: by link, then by employee code, then by name. */
+    resolve: (record: EmployeeLinked) => Employee | undefined;
+}
+
+export const createEmployeeIndex = (employees: Employee[]): EmployeeIndex => {
+    const byId = new Map<number, Employee>(employees.map(e => [e.id, e]));
+    const byEmployeeId = new Map<string, Employee>(employees.filter(e => e.employeeId).map(e => [normalizeEmployeeId(e.employeeId), e]));
+    const byName = new Map<string, Employee>(employees.flatMap(e => (e.aliases ?? []).map(alias => [normalizeEmployeeName(alias), e] as [string, Employee])));
+    employees.forEach(e => byName.set(normalizeEmployeeName(e.name), e));
+    const index: EmployeeIndex = {
+        byId: (id) => (id === undefined ? undefined : byId.get(id)),
+        byEmployeeId: (employeeId) => (employeeId ? byEmployeeId.get(normalizeEmployeeId(employeeId)) : undefined),
+        byName: (name) => (name ? byName.get(normalizeEmployeeName(name)) : undefined),
+        resolve: (record) => index.byId(record.visitorId) ?? index.byEmployeeId(record.visitorEmployeeId) ?? index.byName(record.visitorName),
+    };
+    return index;
+};
+
+/** Whether the employee was employed on a YYYY-MM-DD date. */
+export const isEmployeeActive = (employee: Employee, date: string): boolean =>
+    (!employee.activeFrom || employee.activeFrom <= date) && (!employee.activeTo || date <= employee.activeTo);
+
+/**
+ * Directory entries for the visitors in `records` that no employee matches, one per employee code (or per
+ * name, for records without one), with the name, department and designation of their latest record.
+ */
+export const employeesFromRecords = <T extends EmployeeLinked & { date: string; department: string; designation: string }>(
+    records: T[],
+    index: EmployeeIndex
+): Omit<Employee, 'id'>[] => {
+    const latestByKey = new Map<string, T>();
+    records.forEach(record => {
+        if (!record.visitorName.trim() || index.resolve(record)) return;
+        const key = record.visitorEmployeeId ? `id:${normalizeEmployeeId(record.visitorEmployeeId)}` : `name:${normalizeEmployeeName(record.visitorName)}`;
+        const latest = latestByKey.get(key);
+        if (!latest || record.date > latest.date) latestByKey.set(key, record);
+    });
+    return [...latestByKey.values()].map(record => ({
+        employeeId: record.visitorEmployeeId ?? '',
+        name: record.visitorName.trim(),
+        department: record.department,
+        designation: record.designation,
+    }));
+};
@@ -0,0 +1,88 @@
+// Reads the time a JPEG photo was taken from its EXIF metadata. Only the tags needed for that are parsed.
+
+const EXIF_IFD_POINTER = 0x8769;
+const DATE_TIME = 0x0132;
+const DATE_TIME_ORIGINAL = 0x9003;
+
+const dataUrlToBytes = (dataUrl: string): DataView | null => {
+    const match = dataUrl.match(/^data:image\/jpe?g;base64,(.*)$/);
+    if (!match) return null;
+    const binary = atob(match[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new DataView(bytes.buffer);
+};
+
+/** Finds the TIFF header of the APP1 "Exif" segment. */
+const findTiffStart = (view: DataView): number | null => {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        // "Exif\0\0"
+        if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            return offset + 10;
+        }
+        // Start of scan: no more metadata segments.
+        if (marker === 0xFFDA || (marker & 0xFF00) !== 0xFF00) return null;
+        offset += 2 + length;
+    }
+    return null;
+};
+
+/** Reads the tags of one image file directory as tag → value offset (relative to the TIFF header). */
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): Map<number, { type: number; count: number; valueOffset: number }> => {
+    const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return entries;
+    const count = view.getUint16(start, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        entries.set(view.getUint16(entry, littleEndian), {
+            type: view.getUint16(entry + 2, littleEndian),
+            count: view.getUint32(entry + 4, littleEndian),
+            valueOffset: entry + 8,
+        });
+    }
+    return entries;
+};
+
+const readAscii = (view: DataView, tiffStart: number, entry: { count: number; valueOffset: number }, littleEndian: boolean): string => {
+    const start = entry.count > 4 ? tiffStart + view.getUint32(entry.valueOffset, littleEndian) : entry.valueOffset;
+    let text = '';
+    for (let i = 0; i < entry.count - 1 && start + i < view.byteLength; i++) text += String.fromCharCode(view.getUint8(start + i));
+    return text;
+};
+
+/**
+ * The time a JPEG photo was taken, from its EXIF DateTimeOriginal (or DateTime) tag.
+ * EXIF times carry no time zone, so they're read as the device's local time.
+ * @param dataUrl The photo as a data URL, before any resizing (which drops the metadata).
+ * @returns An ISO timestamp, or null when the photo has no readable EXIF date.
+ */
+export const readExifTimestamp = (dataUrl: string): string | null => {
+    try {
+        const view = dataUrlToBytes(dataUrl);
+        const tiffStart = view && findTiffStart(view);
+        if (!view || !tiffStart) return null;
+
+        const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II"
+        const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+        const exifPointer = ifd0.get(EXIF_IFD_POINTER);
+        const exifIfd = exifPointer ? readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, littleEndian), littleEndian) : new Map();
+        const entry = exifIfd.get(DATE_TIME_ORIGINAL) ?? ifd0.get(DATE_TIME);
+        if (!entry) return null;
+
+        // "YYYY:MM:DD HH:MM:SS"
+        const match = readAscii(view, tiffStart, entry, littleEndian).match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+        if (!match) return null;
+        const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+        const date = new Date(year, month - 1, day, hours, minutes, seconds);
+        return isNaN(date.getTime()) ? null : date.toISOString();
+    } catch (err) {
+        console.warn('Could not read photo metadata:', err);
+        return null;
+    }
+};
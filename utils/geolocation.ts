@@ -0,0 +1,24 @@
+import { GeoLocation } from '../types';
+
+/**
+ * Asks the device for its current location.
+ * @returns The location, or null when it's unsupported, denied or takes longer than `timeoutMs`.
+ */
+export const getCurrentLocation = (timeoutMs = 10000): Promise<GeoLocation | null> => {
+    if (!navigator.geolocation) return Promise.resolve(null);
+    return new Promise(resolve => {
+        navigator.geolocation.getCurrentPosition(
+            position => resolve({
+                latitude: position.coords.latitude,
+                longitude: position.coords.longitude,
+                accuracy: position.coords.accuracy,
+                capturedAt: new Date(position.timestamp).toISOString(),
+            }),
+            err => {
+                console.warn('Could not get the device location:', err.message);
+                resolve(null);
+            },
+            { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+        );
+    });
+};
@@ -0,0 +1,79 @@
+import { ImportField } from './importRows';
+
+// The fields of each record type that can be imported from a file. Labels match the column headers of the
+// download templates, so files made from a template map themselves.
+
+export type EmployeeVisitImportKey = 'date' | 'visitorName' | 'visitorEmployeeId' | 'department' | 'designation' | 'projectName' | 'entryTime' | 'outTime' | 'duration' | 'remarks';
+
+export const EMPLOYEE_VISIT_IMPORT_FIELDS: ImportField<EmployeeVisitImportKey>[] = [
+    { key: 'date', label: 'Date', required: true, kind: 'date' },
+    { key: 'visitorName', label: 'Visitor Name', required: true, aliases: ['Employee Name', 'Name'] },
+    { key: 'visitorEmployeeId', label: 'Employee ID', aliases: ['Emp. Code', 'Emp. ID', 'Employee Code'] },
+    { key: 'department', label: 'Department', required: true, aliases: ['Dept', 'Dept.'] },
+    { key: 'designation', label: 'Designation', required: true },
+    { key: 'projectName', label: 'Visited Project Name', required: true, kind: 'project', aliases: ['Project Name', 'Project'] },
+    { key: 'entryTime', label: 'Entry Time', required: true, kind: 'time', aliases: ['In Time'] },
+    { key: 'outTime', label: 'Out Time', required: true, kind: 'time' },
+    { key: 'duration', label: 'Duration', required: true, kind: 'duration' },
+    { key: 'remarks', label: 'Formula', aliases: ['Remarks'] },
+];
+
+export type SealPersonVisitImportKey = 'slNo' | 'date' | 'salesPersonName' | 'designation' | 'customerName' | 'customerId' | 'projectName' | 'inTime' | 'outTime';
+
+export const SEAL_PERSON_VISIT_IMPORT_FIELDS: ImportField<SealPersonVisitImportKey>[] = [
+    { key: 'slNo', label: 'Sl No', required: true, aliases: ['SL', 'Serial'] },
+    { key: 'date', label: 'Date', required: true, kind: 'date' },
+    { key: 'salesPersonName', label: 'Name (Sales Person)', required: true, aliases: ['Sales Person', 'Name'] },
+    { key: 'designation', label: 'Designation' },
+    { key: 'customerName', label: 'Customer Name' },
+    { key: 'customerId', label: 'Customer ID' },
+    { key: 'projectName', label: 'Project Name', required: true, kind: 'project', aliases: ['Project'] },
+    { key: 'inTime', label: 'In Time', kind: 'time', aliases: ['Entry Time'] },
+    { key: 'outTime', label: 'Out Time', kind: 'time' },
+];
+
+export type MaterialReceiptImportKey = 'mrf' | 'projectName' | 'supplierName' | 'materialName' | 'quantity' | 'unit' | 'vehicle' | 'vehicleNumber' | 'receivedBy' | 'receivingDate' | 'receivingTime';
+
+export const MATERIAL_RECEIPT_IMPORT_FIELDS: ImportField<MaterialReceiptImportKey>[] = [
+    { key: 'mrf', label: 'MRF', required: true, aliases: ['MRF NO', 'MRF Number'] },
+    { key: 'projectName', label: 'Project Name', required: true, kind: 'project', aliases: ['Project'] },
+    { key: 'supplierName', label: 'Supplier Name', required: true, aliases: ['Supplier'] },
+    { key: 'materialName', label: 'Material Name', required: true, aliases: ['Material'] },
+    { key: 'quantity', label: 'Quantity', required: true, kind: 'number', aliases: ['Qty'] },
+    { key: 'unit', label: 'Unit', required: true },
+    { key: 'vehicle', label: 'Vehicle' },
+    { key: 'vehicleNumber', label: 'Vehicle Number' },
+    { key: 'receivedBy', label: 'Received By', required: true },
+    { key: 'receivingDate', label: 'Receiving Date', required: true, kind: 'date' },
+    { key: 'receivingTime', label: 'Receiving Time', required: true, kind: 'time' },
+];
+
+export type ERPCorrectionImportKey = 'officers' | 'department' | 'designation' | 'projectName' | 'documentType' | 'trackingNumber' | 'correctionType' | 'entryDate' | 'entryTime' | 'status' | 'completedDate' | 'completedTime' | 'oldData' | 'newData' | 'remarks';
+
+export const ERP_CORRECTION_IMPORT_FIELDS: ImportField<ERPCorrectionImportKey>[] = [
+    { key: 'officers', label: 'Officers', required: true, aliases: ['Officer'] },
+    { key: 'department', label: 'Dept.', required: true, aliases: ['Department'] },
+    { key: 'designation', label: 'Designation', required: true },
+    { key: 'projectName', label: 'Project Name', required: true, kind: 'project', aliases: ['Project'] },
+    { key: 'documentType', label: 'D.Type', required: true, aliases: ['Document Type'] },
+    { key: 'trackingNumber', label: 'Traking Number', required: true, aliases: ['Tracking Number'] },
+    { key: 'correctionType', label: 'Correction Type', required: true },
+    { key: 'entryDate', label: 'Entry Date', required: true, kind: 'date' },
+    { key: 'entryTime', label: 'Entry Time', required: true, kind: 'time' },
+    { key: 'status', label: 'Status', required: true },
+    { key: 'completedDate', label: 'Completed Date', kind: 'date' },
+    { key: 'completedTime', label: 'Completed Time', kind: 'time' },
+    { key: 'oldData', label: 'Old Data', required: true },
+    { key: 'newData', label: 'New Data', required: true },
+    { key: 'remarks', label: 'Remarks' },
+];
+
+// Rows that name an employee are read as that employee's leave; the others as holidays.
+export type CalendarImportKey = 'startDate' | 'endDate' | 'name' | 'employeeName';
+
+export const CALENDAR_IMPORT_FIELDS: ImportField<CalendarImportKey>[] = [
+    { key: 'startDate', label: 'Start Date', required: true, kind: 'date', aliases: ['Date', 'From'] },
+    { key: 'endDate', label: 'End Date', kind: 'date', aliases: ['To'] },
+    { key: 'name', label: 'Name', aliases: ['Holiday', 'Holiday Name', 'Reason', 'Description'] },
+    { key: 'employeeName', label: 'Employee Name', aliases: ['Emp. Name', 'Visitor Name'] },
+];
@@ -0,0 +1,155 @@
+// Reading and checking spreadsheet imports (see components/ImportWizard.tsx).
+//
+// A file is read into a sheet of text cells keyed by its column headers. Each module describes the fields
+// it imports; the user maps the file's columns onto those fields, and every row is then checked on its own
+// so one bad row doesn't stop the rest of the file from being imported.
+
+import { parseDate, isValidTime, isValidDuration } from './time';
+
+// For TypeScript to recognize libraries loaded from CDN
+declare global {
+    interface Window {
+        Papa: any;
+        XLSX: any;
+    }
+}
+
+export type ImportFieldKind = 'text' | 'number' | 'date' | 'time' | 'duration' | 'project';
+
+export interface ImportField<K extends string = string> {
+    key: K;
+    /** Shown to the user, and the column header the field is expected under. */
+    label: string;
+    required?: boolean;
+    /** How the value is checked. Dates are converted to YYYY-MM-DD; other values are kept as written. */
+    kind?: ImportFieldKind;
+    /** Other column headers that map to this field without asking. */
+    aliases?: string[];
+}
+
+export interface ImportSheet {
+    fileName: string;
+    headers: string[];
+    rows: Record<string, string>[];
+}
+
+/** The source column chosen for each field; an empty string leaves the field unmapped. */
+export type ColumnMapping<K extends string = string> = Record<K, string>;
+
+export interface ValidatedRow<K extends string = string> {
+    /** The row's line in the file, counting the header as line 1. */
+    rowNumber: number;
+    source: Record<string, string>;
+    values: Record<K, string>;
+    errors: string[];
+}
+
+export interface RowValidationOptions {
+    /** Applied to project fields before they are checked, e.g. to map a misspelling to the project's name. */
+    resolveProjectName?: (name: string) => string;
+    /** When given, project fields must name one of these projects. */
+    knownProjectNames?: Set<string>;
+}
+
+const isSpreadsheet = (fileName: string) => /\.xlsx?$/i.test(fileName);
+
+const readCsv = (file: File): Promise<ImportSheet> => new Promise((resolve, reject) => {
+    if (typeof window.Papa === 'undefined') {
+        reject(new Error('CSV parsing library is not available.'));
+        return;
+    }
+    window.Papa.parse(file, {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: (header: string) => header.trim(),
+        complete: (results: any) => resolve({
+            fileName: file.name,
+            headers: (results.meta.fields ?? []).filter(Boolean),
+            rows: results.data.map((row: Record<string, unknown>) =>
+                Object.fromEntries(Object.entries(row).map(([header, cell]) => [header, cell == null ? '' : String(cell)]))),
+        }),
+        error: (error: any) => reject(new Error(`CSV parsing error: ${error.message}`)),
+    });
+});
+
+const readXlsx = async (file: File): Promise<ImportSheet> => {
+    if (typeof window.XLSX === 'undefined') throw new Error('Excel parsing library is not available.');
+    const workbook = window.XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error('The workbook has no sheets.');
+    // Cells come back as displayed text, with dates written as YYYY-MM-DD.
+    const [headerRow = [], ...dataRows]: string[][] = window.XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, dateNF: 'yyyy-mm-dd', defval: '', blankrows: false });
+    const headers = headerRow.map(header => String(header).trim());
+    return {
+        fileName: file.name,
+        headers: headers.filter(Boolean),
+        rows: dataRows.map(cells => Object.fromEntries(headers.map((header, i) => [header, String(cells[i] ?? '')]))),
+    };
+};
+
+/** Reads the first sheet of a CSV or Excel file. */
+export const readImportFile = (file: File): Promise<ImportSheet> => (isSpreadsheet(file.name) ? readXlsx(file) : readCsv(file));
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Maps each field to the column whose header matches its label or one of its aliases, ignoring case and punctuation. */
+export const autoMapColumns = <K extends string>(fields: ImportField<K>[], headers: string[]): ColumnMapping<K> => {
+    const byHeader = new Map(headers.map(header => [normalizeHeader(header), header]));
+    return Object.fromEntries(fields.map(field => {
+        const match = [field.label, ...(field.aliases ?? [])].map(name => byHeader.get(normalizeHeader(name))).find(Boolean);
+        return [field.key, match ?? ''];
+    })) as ColumnMapping<K>;
+};
+
+/** Picks each row's mapped values and checks them against their fields. */
+export const validateRows = <K extends string>(
+    sheet: ImportSheet,
+    fields: ImportField<K>[],
+    mapping: ColumnMapping<K>,
+    options: RowValidationOptions = {}
+): ValidatedRow<K>[] =>
+    sheet.rows.map((source, index) => {
+        const values = {} as Record<K, string>;
+        const errors: string[] = [];
+        fields.forEach(field => {
+            const column = mapping[field.key];
+            let value = column ? (source[column] ?? '').trim() : '';
+            // Templates use N/A for "nothing here".
+            if (value.toLowerCase() === 'n/a') value = '';
+            if (!value) {
+                if (field.required) errors.push(`${field.label} is missing.`);
+                values[field.key] = '';
+                return;
+            }
+            switch (field.kind) {
+                case 'number':
+                    if (isNaN(parseFloat(value))) errors.push(`${field.label} "${value}" is not a number.`);
+                    break;
+                case 'date': {
+                    const date = parseDate(value);
+                    if (date) value = date;
+                    else errors.push(`${field.label} "${value}" is not a valid date.`);
+                    break;
+                }
+                case 'time':
+                    if (!isValidTime(value)) errors.push(`${field.label} "${value}" is not a valid time (HH:MM).`);
+                    break;
+                case 'duration':
+                    if (!isValidDuration(value)) errors.push(`${field.label} "${value}" is not a valid duration (H:MM:SS or H:MM).`);
+                    break;
+                case 'project':
+                    if (options.resolveProjectName) value = options.resolveProjectName(value);
+                    if (options.knownProjectNames && !options.knownProjectNames.has(value)) errors.push(`Project "${value}" does not exist.`);
+                    break;
+            }
+            values[field.key] = value;
+        });
+        return { rowNumber: index + 2, source, values, errors };
+    });
+
+/** The rejected rows as they appeared in the file, with an extra column explaining what is wrong with each. */
+export const rejectedRowsCsv = (sheet: ImportSheet, rows: ValidatedRow[]): string =>
+    window.Papa.unparse({
+        fields: [...sheet.headers, 'Errors'],
+        data: rows.filter(row => row.errors.length > 0).map(row => [...sheet.headers.map(header => row.source[header] ?? ''), row.errors.join(' ')]),
+    });
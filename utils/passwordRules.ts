@@ -0,0 +1,16 @@
+/** Minimum password length. Must match MIN_PASSWORD_LENGTH in server/passwords.js. */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Checks a new password and its confirmation against the password rules.
+ * @returns An error message to show the user, or null if the password is acceptable.
+ */
+export const validateNewPassword = (newPassword: string, confirmPassword: string): string | null => {
+    if (newPassword !== confirmPassword) {
+        return "New passwords do not match.";
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
+    }
+    return null;
+};
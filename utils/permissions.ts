@@ -0,0 +1,49 @@
+import { Permissions, PermissionModule, PermissionOverrides } from '../types';
+
+export type PermissionAction = 'view' | 'edit';
+
+/** Every permission module in display order, with its label and the actions it supports. */
+export const PERMISSION_MODULES: { key: PermissionModule; label: string; actions: PermissionAction[] }[] = [
+    { key: 'dashboard', label: 'Dashboard', actions: ['view'] },
+    { key: 'projectVisit', label: 'New Visit Report', actions: ['view', 'edit'] },
+    { key: 'visitReports', label: 'Visit Reports', actions: ['view'] },
+    { key: 'lastVisitedProjects', label: 'Last Visited Projects', actions: ['view'] },
+    { key: 'projectCase', label: 'Project Case Report', actions: ['view', 'edit'] },
+    { key: 'projectCasesList', label: 'Project Cases', actions: ['view', 'edit'] },
+    { key: 'profile', label: 'Profile', actions: ['view', 'edit'] },
+    { key: 'adminPanel', label: 'Admin Panel', actions: ['view'] },
+    { key: 'materialReceive', label: 'Material Receive', actions: ['view', 'edit'] },
+    { key: 'materialReceiveList', label: 'Material Receive List', actions: ['view'] },
+    { key: 'systemManagement_addProject', label: 'System Management: Add Project', actions: ['view', 'edit'] },
+    { key: 'systemManagement_projectList', label: 'System Management: Project List', actions: ['view', 'edit'] },
+    { key: 'systemManagement_dashboardSettings', label: 'System Management: Dashboard Settings', actions: ['view', 'edit'] },
+    { key: 'systemManagement_dutyPolicies', label: 'System Management: Duty Policies', actions: ['view', 'edit'] },
+    { key: 'systemManagement_calendar', label: 'System Management: Calendar', actions: ['view', 'edit'] },
+    { key: 'systemManagement_employees', label: 'System Management: Employees', actions: ['view', 'edit'] },
+    { key: 'systemManagement_aiTriage', label: 'System Management: AI Triage', actions: ['view', 'edit'] },
+    { key: 'employeeProjectVisit', label: 'Employee Project Visit', actions: ['view', 'edit'] },
+    { key: 'sealPersonProjectVisit', label: 'Seal Person Project Visit', actions: ['view', 'edit'] },
+    { key: 'itResponseTimeline', label: 'IT Response Time Reports', actions: ['view', 'edit'] },
+    { key: 'erpCorrectionReport', label: 'ERP Correction Report', actions: ['view', 'edit'] },
+    { key: 'constructionDutyAnalysis', label: 'Construction Duty Analysis', actions: ['view', 'edit'] },
+    { key: 'monthlyComparisonPrecision', label: 'Monthly Comparison Precision', actions: ['view', 'edit'] },
+    { key: 'ssvDutyAnalysis', label: 'SSV Duty Analysis', actions: ['view', 'edit'] },
+    { key: 'reports', label: 'Scheduled Reports', actions: ['view', 'edit'] },
+];
+
+const getFlag = (permissions: Partial<Permissions> | PermissionOverrides | undefined, module: PermissionModule, action: PermissionAction): boolean | undefined =>
+    (permissions?.[module] as Record<string, boolean> | undefined)?.[action];
+
+/**
+ * Applies per-user overrides on top of a role template's permissions.
+ * Mirrors applyPermissionOverrides in server/permissions.js; the server works out the overrides when permissions are saved.
+ */
+export const applyPermissionOverrides = (base: Permissions, overrides: PermissionOverrides = {}): Permissions =>
+    Object.fromEntries(PERMISSION_MODULES.map(({ key, actions }) => [
+        key,
+        Object.fromEntries(actions.map(action => [action, getFlag(overrides, key, action) ?? getFlag(base, key, action) ?? false])),
+    ])) as unknown as Permissions;
+
+/** The number of individual permissions that differ from the template. */
+export const countOverrides = (overrides: PermissionOverrides | undefined): number =>
+    Object.values(overrides || {}).reduce((total, actions) => total + Object.keys(actions || {}).length, 0);
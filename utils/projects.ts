@@ -0,0 +1,98 @@
+import { Project } from '../types';
+
+// Records name their project in `projectName`, as typed in forms or found in CSV imports. Once that name is
+// matched to a project, the record also references it by `projectId`, and from then on the id is what
+// counts: renaming a project renames it in every linked record.
+
+export interface ProjectLinked {
+    projectName: string;
+    projectId?: number;
+}
+
+/** Compares project names regardless of case and spacing. */
+export const normalizeProjectName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export interface ProjectIndex {
+    byId: (id: number | undefined) => Project | undefined;
+    /** Finds a project by its name or one of its aliases. */
+    byName: (name: string | undefined) => Project | undefined;
+    /** The project a record belongs to: by id when linked, otherwise by name. */
+    resolve: (record: ProjectLinked) => Project | undefined;
+}
+
+export const createProjectIndex = (projects: Project[]): ProjectIndex => {
+    const byId = new Map<number, Project>(projects.map(p => [p.id, p]));
+    const byName = new Map<string, Project>(projects.flatMap(p => (p.aliases ?? []).map(alias => [normalizeProjectName(alias), p] as [string, Project])));
+    projects.forEach(p => byName.set(normalizeProjectName(p.name), p));
+    const index: ProjectIndex = {
+        byId: (id) => (id === undefined ? undefined : byId.get(id)),
+        byName: (name) => (name ? byName.get(normalizeProjectName(name)) : undefined),
+        resolve: (record) => index.byId(record.projectId) ?? index.byName(record.projectName),
+    };
+    return index;
+};
+
+/**
+ * Links records to their projects: fills in `projectId` where the name matches a project, and brings
+ * `projectName` up to date for linked records. Records of unknown or deleted projects are left as they are.
+ * @returns The same array when nothing changed, so it can be used in state updates without re-rendering.
+ */
+export const linkRecordsToProjects = <T extends ProjectLinked>(records: T[], index: ProjectIndex): T[] => {
+    let changed = false;
+    const linked = records.map(record => {
+        const project = index.resolve(record);
+        if (!project || (record.projectId === project.id && record.projectName === project.name)) return record;
+        changed = true;
+        return { ...record, projectId: project.id, projectName: project.name };
+    });
+    return changed ? linked : records;
+};
+
+export const isProjectActive = (project: Project): boolean => (project.status ?? 'Active') === 'Active';
+
+// --- Matching unrecognised names ---
+
+/** A name reduced to its letters and digits, so "Lake Lofts", "lake-lofts" and "LakeLofts" compare equal. */
+const compactName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/** How alike two project names are, from 0 (nothing in common) to 1 (the same apart from case, spacing and punctuation). */
+export const projectNameSimilarity = (a: string, b: string): number => {
+    const x = compactName(a);
+    const y = compactName(b);
+    if (!x || !y) return 0;
+    return 1 - editDistance(x, y) / Math.max(x.length, y.length);
+};
+
+export interface ProjectSuggestion {
+    project: Project;
+    score: number;
+}
+
+// Below this similarity a project isn't worth suggesting.
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * The projects an unrecognised name most likely refers to, best first. Project codes and known
+ * aliases count as well as names.
+ */
+export const suggestProjects = (name: string, projects: Project[], limit = 3): ProjectSuggestion[] =>
+    projects
+        .map(project => ({
+            project,
+            score: Math.max(...[project.name, project.code ?? '', ...(project.aliases ?? [])].map(candidate => projectNameSimilarity(name, candidate))),
+        }))
+        .filter(s => s.score >= MIN_SUGGESTION_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
@@ -0,0 +1,10 @@
+import { ReportedIssue } from '../types';
+import { formatDateDDMMMYYYY } from './time';
+
+/** Names where an issue was reported, e.g. "Case #12" or "Visit report, 01-Jul-2025". */
+export const issueSourceLabel = (issue: ReportedIssue): string => (issue.source === 'case'
+    ? `Case #${issue.caseId}`
+    : `Visit report${issue.date ? `, ${formatDateDDMMMYYYY(issue.date)}` : ''}`);
+
+/** The case a new report of the same problem should be linked to: the case itself, or the one a visit issue was linked to. */
+export const caseToLink = (issue: ReportedIssue): number | undefined => (issue.source === 'case' ? issue.caseId : issue.linkedCaseId);
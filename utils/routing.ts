@@ -0,0 +1,70 @@
+import { View, EmployeeVisitTab, MonthlyComparisonPrecisionTab, SealPersonVisitTab, ITResponseTimelineTab, ERPCorrectionTab, ConstructionDutyAnalysisTab, SSVDutyAnalysisTab } from '../types';
+
+// Routes live in the URL hash, e.g. `#/ssv-duty-analysis/analysis?from=2024-08-01&to=2024-08-31`:
+// the view, then the tab for views that have tabs, then the page's filters as query parameters.
+
+export interface Route {
+    view: View;
+    tab: string | null;
+    params: URLSearchParams;
+}
+
+const VIEW_PATHS: Record<View, string> = {
+    dashboard: 'dashboard',
+    projectVisit: 'project-visit',
+    visitReports: 'visit-reports',
+    profile: 'profile',
+    lastVisitedProjects: 'last-visited-projects',
+    projectCase: 'project-case',
+    projectCasesList: 'project-cases',
+    adminPanel: 'admin',
+    materialReceive: 'material-receive',
+    materialReceiveList: 'material-receipts',
+    systemManagement: 'system-management',
+    employeeProjectVisit: 'employee-project-visit',
+    sealPersonProjectVisit: 'seal-person-project-visit',
+    itResponseTimeline: 'it-response-timeline',
+    erpCorrectionReport: 'erp-correction-report',
+    constructionDutyAnalysis: 'construction-duty-analysis',
+    monthlyComparisonPrecision: 'monthly-comparison-precision',
+    ssvDutyAnalysis: 'ssv-duty-analysis',
+    reports: 'reports',
+};
+
+// The tabs of each tabbed view, first one being the default.
+export const VIEW_TABS = {
+    employeeProjectVisit: ['records', 'departmentSummary', 'dutyAnalysis', 'summary'] as EmployeeVisitTab[],
+    monthlyComparisonPrecision: ['records', 'departmentSummary', 'dutyAnalysis', 'summary'] as MonthlyComparisonPrecisionTab[],
+    sealPersonProjectVisit: ['records', 'analysis'] as SealPersonVisitTab[],
+    itResponseTimeline: ['records', 'analysis'] as ITResponseTimelineTab[],
+    erpCorrectionReport: ['records', 'analysis'] as ERPCorrectionTab[],
+    constructionDutyAnalysis: ['visit', 'material', 'analysis'] as ConstructionDutyAnalysisTab[],
+    ssvDutyAnalysis: ['records', 'analysis'] as SSVDutyAnalysisTab[],
+};
+
+export type TabbedView = keyof typeof VIEW_TABS;
+
+const toKebabCase = (value: string) => value.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+const fromKebabCase = (value: string) => value.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+
+const tabsOf = (view: View): string[] | undefined => (VIEW_TABS as Partial<Record<View, string[]>>)[view];
+
+/** Reads a route from a location hash. Unknown views fall back to the dashboard, unknown tabs to the view's default tab. */
+export const parseHash = (hash: string): Route => {
+    const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+    const [viewSegment = '', tabSegment = ''] = path.split('/');
+    const view = (Object.keys(VIEW_PATHS) as View[]).find(v => VIEW_PATHS[v] === viewSegment) ?? 'dashboard';
+    const tabs = tabsOf(view);
+    const tab = tabs ? (tabs.find(t => t === fromKebabCase(tabSegment)) ?? tabs[0]) : null;
+    return { view, tab, params: new URLSearchParams(query) };
+};
+
+/** Builds the hash for a view, optionally with a tab and query parameters. Empty parameters are left out. */
+export const buildHash = (view: View, tab?: string | null, params?: URLSearchParams | Record<string, string>): string => {
+    const segments = [VIEW_PATHS[view]];
+    if (tab && tabsOf(view)?.includes(tab)) segments.push(toKebabCase(tab));
+    const query = new URLSearchParams(params);
+    [...query.keys()].forEach(key => { if (!query.get(key)) query.delete(key); });
+    const queryString = query.toString();
+    return `#/${segments.join('/')}${queryString ? `?${queryString}` : ''}`;
+};
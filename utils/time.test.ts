@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { parseDate, parseDateTime, minutesBetweenTimes, parseDurationToSeconds, isValidDuration } from './time';
+
+describe('parseDate', () => {
+    it('reads ISO dates', () => {
+        expect(parseDate('2025-07-01')).toBe('2025-07-01');
+        expect(parseDate('2025-7-1')).toBe('2025-07-01');
+    });
+
+    it('reads numeric dates day first by default, or month first', () => {
+        expect(parseDate('03/04/2025')).toBe('2025-04-03');
+        expect(parseDate('03-04-2025')).toBe('2025-04-03');
+        expect(parseDate('03/04/2025', 'mdy')).toBe('2025-03-04');
+    });
+
+    it('reads dates with a month name and a two- or four-digit year', () => {
+        expect(parseDate('1-Jul-25')).toBe('2025-07-01');
+        expect(parseDate('01-jul-2025')).toBe('2025-07-01');
+        expect(parseDate('1 Jul 2025')).toBe('2025-07-01');
+    });
+
+    it('reads dates in words', () => {
+        expect(parseDate('July 1, 2025')).toBe('2025-07-01');
+    });
+
+    it('rejects dates that do not exist or cannot be read', () => {
+        expect(parseDate('2025-02-30')).toBe('');
+        expect(parseDate('31/04/2025')).toBe('');
+        expect(parseDate('1-Foo-25')).toBe('');
+        expect(parseDate('not a date')).toBe('');
+        expect(parseDate('')).toBe('');
+    });
+});
+
+describe('minutesBetweenTimes', () => {
+    it('counts the minutes between two times on the same day', () => {
+        expect(minutesBetweenTimes('09:30', '11:00')).toBe(90);
+        expect(minutesBetweenTimes('9:00 AM', '1:15 PM')).toBe(255);
+        expect(minutesBetweenTimes('10:00', '10:00')).toBe(0);
+    });
+
+    it('takes an end time earlier than the start to be the next day', () => {
+        expect(minutesBetweenTimes('22:00', '06:00')).toBe(8 * 60);
+        expect(minutesBetweenTimes('11:30 PM', '12:15 AM')).toBe(45);
+    });
+
+    it('returns null for missing or invalid times', () => {
+        expect(minutesBetweenTimes('', '10:00')).toBeNull();
+        expect(minutesBetweenTimes('09:00', '24:00')).toBeNull();
+        expect(minutesBetweenTimes('09:60', '10:00')).toBeNull();
+    });
+});
+
+describe('parseDateTime', () => {
+    it('reads the date and time as Asia/Dhaka wall-clock time (UTC+06:00)', () => {
+        expect(parseDateTime('2025-07-01', '09:30')?.toISOString()).toBe('2025-07-01T03:30:00.000Z');
+        expect(parseDateTime('01/07/2025', '2:15 PM')?.toISOString()).toBe('2025-07-01T08:15:00.000Z');
+    });
+
+    it('falls on the previous UTC day before 06:00 in Dhaka', () => {
+        expect(parseDateTime('2025-07-01', '05:00')?.toISOString()).toBe('2025-06-30T23:00:00.000Z');
+    });
+
+    it('returns null when the date or the time is invalid', () => {
+        expect(parseDateTime('2025-02-30', '09:00')).toBeNull();
+        expect(parseDateTime('2025-07-01', '25:00')).toBeNull();
+    });
+});
+
+describe('parseDurationToSeconds', () => {
+    it('reads H:MM:SS and H:MM', () => {
+        expect(parseDurationToSeconds('1:02:03')).toBe(3723);
+        expect(parseDurationToSeconds('00:05:00')).toBe(300);
+        expect(parseDurationToSeconds('2:30')).toBe(9000);
+        expect(parseDurationToSeconds(' 0:45 ')).toBe(2700);
+    });
+
+    it('allows hours beyond a day', () => {
+        expect(parseDurationToSeconds('36:00:00')).toBe(36 * 3600);
+    });
+
+    it('counts minutes or seconds over 59 as zero', () => {
+        expect(parseDurationToSeconds('1:75')).toBe(0);
+        expect(parseDurationToSeconds('0:10:60')).toBe(0);
+    });
+
+    it('counts anything else as zero', () => {
+        expect(parseDurationToSeconds('')).toBe(0);
+        expect(parseDurationToSeconds('90')).toBe(0);
+        expect(parseDurationToSeconds('1.5:00')).toBe(0);
+        expect(parseDurationToSeconds('-1:00')).toBe(0);
+        expect(parseDurationToSeconds('1:00:00:00')).toBe(0);
+        expect(parseDurationToSeconds('1h 30m')).toBe(0);
+    });
+});
+
+describe('isValidDuration', () => {
+    it('accepts the durations parseDurationToSeconds reads', () => {
+        expect(isValidDuration('1:02:03')).toBe(true);
+        expect(isValidDuration(' 2:30 ')).toBe(true);
+        expect(isValidDuration('36:00:00')).toBe(true);
+    });
+
+    it('rejects anything else', () => {
+        expect(isValidDuration('')).toBe(false);
+        expect(isValidDuration('1:75')).toBe(false);
+        expect(isValidDuration('90')).toBe(false);
+        expect(isValidDuration('1h 30m')).toBe(false);
+    });
+});
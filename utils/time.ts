@@ -0,0 +1,119 @@
+// Dates, times and durations as they appear in imported sheets and records.
+//
+// Calendar dates are kept as YYYY-MM-DD strings and times of day as they were written. Where a date and a
+// time are combined into an instant, they are read as wall-clock time in the company's time zone, so
+// reports agree whatever time zone the browser is in.
+
+import { COMPANY_TIME_ZONE, COMPANY_UTC_OFFSET_MINUTES, companyDate, formatDateDDMMMYYYY } from '../shared/time.js';
+
+// The helpers the server's scheduled reports use too live in shared/time.js.
+export {
+    COMPANY_TIME_ZONE, parseDurationToSeconds, isValidDuration, formatSecondsToHHMM, addDays, dayOfWeek, monthRange, previousMonth,
+    formatMonth, companyDate, formatDateDDMMMYYYY,
+} from '../shared/time.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Which comes first in dates like 03/04/2025. Sheets from Bangladesh use day first; some exports use month first. */
+export type DateOrder = 'dmy' | 'mdy';
+
+const toCalendarDate = (year: number, monthIndex: number, day: number): string => {
+    const date = new Date(Date.UTC(year, monthIndex, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== monthIndex || date.getUTCDate() !== day) return '';
+    return `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Reads a date written as YYYY-MM-DD, as 03/04/2025 or 03-04-2025 (in the given order), as 1-Jul-25 or
+ * 01-Jul-2025, or in words.
+ * @returns The date as YYYY-MM-DD, or an empty string if it isn't a valid date.
+ */
+export const parseDate = (value: string, order: DateOrder = 'dmy'): string => {
+    if (!value || typeof value !== 'string') return '';
+    const text = value.trim();
+
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (match) return toCalendarDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+
+    match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (match) {
+        const [day, month] = order === 'dmy' ? [match[1], match[2]] : [match[2], match[1]];
+        return toCalendarDate(Number(match[3]), Number(month) - 1, Number(day));
+    }
+
+    match = text.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[-\s](\d{4}|\d{2})$/);
+    if (match) {
+        const monthIndex = MONTH_NAMES.indexOf(match[2].toLowerCase());
+        const year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+        return monthIndex === -1 ? '' : toCalendarDate(year, monthIndex, Number(match[1]));
+    }
+
+    // Anything else the browser understands, such as "July 1, 2025". Times and zones in it are ignored.
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? '' : toCalendarDate(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/** Like parseDate, but returns the date as a Date at midnight UTC, for code that compares and formats in UTC. */
+export const parseDateAsUtc = (value: string, order: DateOrder = 'dmy'): Date | null => {
+    const date = parseDate(value, order);
+    return date ? new Date(`${date}T00:00:00Z`) : null;
+};
+
+/**
+ * Reads a time of day written as HH:MM (24-hour), optionally with seconds, or as h:MM AM/PM.
+ * @returns Minutes after midnight, or null if it isn't a valid time.
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+    if (!value || typeof value !== 'string') return null;
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+    if (!match) return null;
+    let hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (minutes > 59 || (match[3] !== undefined && Number(match[3]) > 59)) return null;
+    if (match[4]) {
+        if (hours < 1 || hours > 12) return null;
+        hours = (hours % 12) + (match[4].toLowerCase() === 'pm' ? 12 : 0);
+    } else if (hours > 23) {
+        return null;
+    }
+    return hours * 60 + minutes;
+};
+
+export const isValidTime = (value: string): boolean => parseTimeOfDay(value) !== null;
+
+/** The instant a date and a time of day in the company's time zone refer to, or null if either is invalid. */
+export const parseDateTime = (date: string, time: string): Date | null => {
+    const calendarDate = parseDate(date);
+    const minutes = parseTimeOfDay(time);
+    if (!calendarDate || minutes === null) return null;
+    const [year, month, day] = calendarDate.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day, 0, minutes - COMPANY_UTC_OFFSET_MINUTES));
+};
+
+/**
+ * Minutes from one time of day to another. A shift that ends earlier in the day than it started is taken
+ * to run past midnight.
+ * @returns null if either time is missing or invalid.
+ */
+export const minutesBetweenTimes = (startTime: string, endTime: string): number | null => {
+    const start = parseTimeOfDay(startTime);
+    const end = parseTimeOfDay(endTime);
+    if (start === null || end === null) return null;
+    return end >= start ? end - start : end + MINUTES_PER_DAY - start;
+};
+
+/** When a visit starting on `date` began and ended, with an exit time before the entry time read as the next day. */
+export const parseTimeSpan = (date: string, startTime: string, endTime: string): { start: Date; end: Date } | null => {
+    const start = parseDateTime(date, startTime);
+    const minutes = minutesBetweenTimes(startTime, endTime);
+    if (!start || minutes === null) return null;
+    return { start, end: new Date(start.getTime() + minutes * 60_000) };
+};
+
+/** Today's date in the company's time zone, as YYYY-MM-DD. */
+export const companyToday = (): string => companyDate(new Date());
+
+/** Formats an instant as 01-Jul-2025 14:05, in the company's time zone. */
+export const formatDateTime = (instant: Date | string): string =>
+    `${formatDateDDMMMYYYY(instant)} ${new Date(instant).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: COMPANY_TIME_ZONE })}`;
@@ -0,0 +1,21 @@
+import { IssueItem, User, VisitReport } from '../types';
+
+// Visit reports can be changed by the user who submitted them, for a while after submitting. The server
+// enforces the same rule (server/visitReports.js).
+
+export const VISIT_EDIT_GRACE_HOURS = 24;
+
+const PRIORITY_ORDER: NonNullable<IssueItem['priority']>[] = ['Low', 'Medium', 'High', 'Critical'];
+
+/** When the author can no longer change a report, or null for reports without a recorded author. */
+export const visitReportEditableUntil = (report: VisitReport): Date | null =>
+    report.submittedAt ? new Date(new Date(report.submittedAt).getTime() + VISIT_EDIT_GRACE_HOURS * 60 * 60 * 1000) : null;
+
+export const canEditVisitReport = (report: VisitReport, user: User, now: Date = new Date()): boolean => {
+    const editableUntil = visitReportEditableUntil(report);
+    return report.submittedBy?.id === user.id && !!editableUntil && now < editableUntil && user.permissions.projectVisit.edit;
+};
+
+/** The highest priority among a report's issues. */
+export const highestIssuePriority = (report: VisitReport): IssueItem['priority'] =>
+    [...PRIORITY_ORDER].reverse().find(priority => report.issues.some(issue => issue.priority === priority));
@@ -0,0 +1,12 @@
+import { VisitFlag } from '../types';
+
+// Flags on visit reports that may not have been made on site. The server works them out whenever a report
+// is saved, from its submit location, its photos and its project's geofence (shared/visitVerification.js).
+
+export { DEFAULT_GEOFENCE_RADIUS, PHOTO_TIME_TOLERANCE_MS } from '../shared/visitVerification.js';
+
+export const VISIT_FLAG_LABELS: Record<VisitFlag, string> = {
+    outsideGeofence: 'Submitted away from the project site',
+    locationUnavailable: 'No location available',
+    photoTimeMismatch: "Photo times don't match the entry time",
+};
@@ -0,0 +1,73 @@
+// The company calendar: weekly off-days (company-wide, or per department), public holidays, and each
+// employee's leave. Reports use it to work out how many days an employee was expected to work.
+
+import { HolidayEntry, LeaveEntry, WeeklyOffEntry } from '../types';
+import { addDays } from './time';
+
+// The calendar itself is worked out in shared/workCalendar.js, which the server's scheduled reports use too.
+export { WEEKDAY_NAMES, createWorkCalendar, findNoVisitDays } from '../shared/workCalendar.js';
+
+/** Whose calendar to look at. Leave is matched by name, as written in the visit records. */
+export interface CalendarEmployee {
+    name?: string;
+    department?: string;
+}
+
+/** Why a day isn't worked, or null if it is. Weekly off-days take precedence over holidays, and holidays over leave. */
+export type DayOff =
+    | { reason: 'weeklyOff' }
+    | { reason: 'holiday'; name: string }
+    | { reason: 'leave'; detail?: string };
+
+/** A calendar entry not saved yet. */
+export type NewCalendarEntry = Omit<WeeklyOffEntry, 'id'> | Omit<HolidayEntry, 'id'> | Omit<LeaveEntry, 'id'>;
+
+export interface WorkCalendar {
+    dayOff: (date: string, employee?: CalendarEmployee) => DayOff | null;
+    isWorkingDay: (date: string, employee?: CalendarEmployee) => boolean;
+    /** The number of working days from `start` to `end`, both included. */
+    countWorkingDays: (start: string, end: string, employee?: CalendarEmployee) => number;
+}
+
+const unescapeText = (value: string) => value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/** Reads the date of a DTSTART or DTEND value, e.g. 20250326 or 20250326T000000Z. */
+const icsDate = (value: string) => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : '';
+};
+
+/**
+ * Reads the events of an iCalendar (.ics) file as holidays. All-day events end the day before their
+ * DTEND, as the format has it; repeating events are read as their first occurrence only.
+ */
+export const parseICalendarHolidays = (text: string): Omit<HolidayEntry, 'id'>[] => {
+    // Long lines are folded onto following lines that start with a space or tab.
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const holidays: Omit<HolidayEntry, 'id'>[] = [];
+    let event: Record<string, { params: string; value: string }> | null = null;
+
+    lines.forEach(line => {
+        if (line === 'BEGIN:VEVENT') event = {};
+        else if (line === 'END:VEVENT' && event) {
+            const start = event.DTSTART;
+            const startDate = start ? icsDate(start.value) : '';
+            if (start && startDate) {
+                const end = event.DTEND;
+                const allDay = /VALUE=DATE(;|$)/.test(start.params) || /^\d{8}$/.test(start.value);
+                const endDate = end ? icsDate(end.value) : '';
+                holidays.push({
+                    kind: 'holiday',
+                    name: unescapeText(event.SUMMARY?.value ?? '') || 'Holiday',
+                    startDate,
+                    endDate: !endDate ? startDate : allDay ? (endDate > startDate ? addDays(endDate, -1) : startDate) : endDate,
+                });
+            }
+            event = null;
+        } else if (event) {
+            const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+            if (match) event[match[1]] = { params: match[2], value: match[3] };
+        }
+    });
+    return holidays;
+};